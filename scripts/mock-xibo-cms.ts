@@ -0,0 +1,28 @@
+/*
+ * Runs the offline mock Xibo CMS for local development.
+ *
+ *   npm run mock-cms -- [port]
+ *
+ * Then start the agent with CMS_URL=http://127.0.0.1:<port>,
+ * XIBO_CLIENT_ID=mock-client and XIBO_CLIENT_SECRET=mock-secret.
+ */
+import { logger } from '../src/mastra/logger';
+import { startMockXiboServer } from '../src/mastra/tools/xibo-agent/mock';
+
+async function main() {
+  const port = Number(process.argv[2] || 8090);
+  const server = await startMockXiboServer({ port });
+  logger.info(`Mock Xibo CMS listening on ${server.url} (client: mock-client / mock-secret)`);
+
+  const shutdown = () => {
+    server.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((e) => {
+  logger.error({ error: e instanceof Error ? e.message : e }, 'Mock Xibo CMS failed to start');
+  // Exiting on its own lets the logger transport write the error first
+  process.exitCode = 1;
+});
@@ -114,6 +114,7 @@ export const marketingAgentInstructions =
 ◆ signageAds（サイネージ）
 - 概要/運用計画/クリエイティブ指針
 - 保存先: 計画・素材の \`filePath\` 群
+- CMSへの反映: ユーザーが希望した場合のみ \`deployToCms: true\` を指定。まず \`deployDryRun: true\`（既定）で実行し、\`deployment.calls\` の予定API呼び出しを表で提示して確認を得てから \`deployDryRun: false\` で本実行する。スケジュール登録には \`deployDisplayGroupIds\`（landscape/portrait 別）が必要
 
 ◆ podcastPlanner（音声化）
 - レポートを元に音声プレゼンを生成。概要（タイトル/尺/話者）/章立て（3–6）
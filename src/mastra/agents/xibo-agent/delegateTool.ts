@@ -0,0 +1,72 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module
+ * This module provides the tool the Xibo router agent uses to hand a request to a
+ * domain sub-agent. The sub-agent runs in the router's memory thread (read-only, so
+ * the router stays the only writer) and receives the same runtime context, which
+ * carries the selected CMS profile.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { XIBO_TOOL_DOMAINS, type XiboToolDomain } from '../../tools/xibo-agent/toolDomains';
+import { xiboDomainAgents } from './subAgents';
+import { logger } from '../../logger';
+
+// Upper bound of tool-call steps a sub-agent may take for one task.
+const MAX_SUB_AGENT_STEPS = 20;
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    domain: z.enum(XIBO_TOOL_DOMAINS),
+    result: z.string().describe("The sub-agent's report of what it did and found."),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for delegating a request to a domain sub-agent.
+ */
+export const delegateToDomainAgent = createTool({
+  id: 'delegate-to-domain-agent',
+  description: 'Delegate a Xibo CMS task to the sub-agent responsible for the domain (displays, layouts, library, scheduling, datasets, users).',
+  inputSchema: z.object({
+    domain: z.enum(XIBO_TOOL_DOMAINS).describe("The domain that owns the task."),
+    task: z.string().min(1).describe("Self-contained description of the task, including targets, IDs, CMS profile and any confirmation token the user approved."),
+  }),
+  outputSchema,
+  execute: async ({ context, runtimeContext, threadId, resourceId }) => {
+    const { domain, task } = context as { domain: XiboToolDomain; task: string };
+    const agent = xiboDomainAgents[domain];
+    logger.info({ domain, threadId }, "Delegating task to Xibo domain agent.");
+    try {
+      const result = await agent.generate(task, {
+        runtimeContext,
+        maxSteps: MAX_SUB_AGENT_STEPS,
+        ...(threadId && resourceId ? { memory: { thread: threadId, resource: resourceId, readOnly: true } } : {}),
+      });
+      return {
+        success: true,
+        message: `The ${domain} agent completed the task.`,
+        data: { domain, result: result.text },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ domain, error: errorMessage }, "delegateToDomainAgent: Sub-agent failed");
+      return { success: false, message: `The ${domain} agent failed: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
@@ -0,0 +1,77 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Xibo Agent Domains
+ *
+ * Describes the domain sub-agents of the Xibo agent: the label and scope used by the
+ * router to classify a request, and the knowledge strings given to the sub-agent.
+ * The tools of each domain are defined in `tools/xibo-agent/toolDomains.ts`.
+ */
+
+import type { XiboToolDomain } from '../../tools/xibo-agent/toolDomains';
+import { apiKnowledge } from './apiKnowledge';
+import { layoutStructureKnowledge } from './layoutStructureKnowledge';
+import { imageGenerationWorkflow, googleNewsWorkflow, weatherWorkflow, proofOfPlayReportWorkflow } from './workflowKnowledge';
+
+export interface XiboAgentDomain {
+  /** Agent name suffix, e.g. "Displays" for "Xibo Displays Agent". */
+  label: string;
+  /** Scope shown to the router (Japanese, like the rest of the instructions). */
+  scope: string;
+  /** Titled knowledge sections added to the sub-agent instructions. */
+  knowledge: { title: string; body: string }[];
+}
+
+export const xiboAgentDomains: Record<XiboToolDomain, XiboAgentDomain> = {
+  displays: {
+    label: 'Displays',
+    scope: 'ディスプレイ、ディスプレイグループ、同期グループ、ディスプレイプロファイル、プレイヤーソフトウェア、コマンド、稼働状況（フリートヘルス）',
+    knowledge: [],
+  },
+  layouts: {
+    label: 'Layouts',
+    scope: 'レイアウト、リージョン、ウィジェット、プレイリスト、テンプレート、モジュール、解像度、アクション、レイアウト変更の取り消し',
+    knowledge: [
+      { title: 'レイアウト構造の知識', body: layoutStructureKnowledge },
+      { title: 'API知識', body: apiKnowledge },
+      { title: '天気情報ワークフロー', body: weatherWorkflow },
+    ],
+  },
+  library: {
+    label: 'Library',
+    scope: 'メディアライブラリ（画像・動画・ファイルのアップロード、編集、削除、使用状況）、フォント、タグ、フォルダ、AIによる画像・動画生成',
+    knowledge: [
+      { title: '画像生成ワークフロー', body: imageGenerationWorkflow },
+    ],
+  },
+  scheduling: {
+    label: 'Scheduling',
+    scope: 'スケジュール、キャンペーン、デイパート、再生実績（統計・広告主向けレポート）',
+    knowledge: [
+      { title: '再生実績レポートワークフロー', body: proofOfPlayReportWorkflow },
+    ],
+  },
+  datasets: {
+    label: 'DataSets',
+    scope: 'データセット（カラム・行・RSS・コネクタ）、メニューボード、ニュースや天気などの外部データ',
+    knowledge: [
+      { title: 'Google Newsワークフロー', body: googleNewsWorkflow },
+      { title: '天気情報ワークフロー', body: weatherWorkflow },
+    ],
+  },
+  users: {
+    label: 'Users',
+    scope: 'ユーザー、ユーザーグループ、権限、ユーザー設定、パスワード変更、通知、フォルダ',
+    knowledge: [],
+  },
+};
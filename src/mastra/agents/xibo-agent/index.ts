@@ -14,21 +14,23 @@
  * Xibo CMS Agent Definition
  * 
  * This module defines the Xibo Agent, an AI assistant specifically designed
- * to work with the Xibo CMS platform. The agent is configured with:
+ * to work with the Xibo CMS platform. The agent is a router:
  * 
- * 1. A set of specialized tools for interacting with Xibo CMS API
- * 2. Custom instructions tailored for Xibo-specific tasks
- * 3. The Gemini 1.5 Pro model for sophisticated natural language understanding
- * 4. Memory functionality to maintain context across conversations
+ * 1. It classifies each request and delegates it to a domain sub-agent
+ *    (displays, layouts, library, scheduling, datasets, users) that holds
+ *    only the tools and knowledge of its domain
+ * 2. Custom instructions tailored for routing and answering Xibo-specific tasks
+ * 3. The Gemini 2.5 Flash model for sophisticated natural language understanding
+ * 4. Memory functionality, shared with the sub-agents, to maintain context across conversations
  */
 
 import { Agent } from '@mastra/core/agent';
 import { google } from '@ai-sdk/google';
-import { getTools } from '../../tools/xibo-agent/';
 import { xiboAgentInstructions } from './instructions';
-import { Memory } from '@mastra/memory';
-import { LibSQLStore, LibSQLVector } from '@mastra/libsql';
-import { fastembed } from '@mastra/fastembed';
+import { xiboAgentMemory } from './memory';
+import { delegateToDomainAgent } from './delegateTool';
+
+export { xiboDomainAgents } from './subAgents';
 
 /**
  * Xibo Agent instance
@@ -39,7 +41,7 @@ import { fastembed } from '@mastra/fastembed';
  * Features:
  * - Natural language interaction with Xibo CMS
  * - Context-aware responses using memory
- * - Specialized tools for CMS operations
+ * - Delegation to focused domain sub-agents for CMS operations
  * - Persistent conversation history
  */
 export const xiboAgent = new Agent({
@@ -47,32 +49,6 @@ export const xiboAgent = new Agent({
   instructions: xiboAgentInstructions,
   //model: google('gemini-2.0-flash-exp'),
   model: google('gemini-2.5-flash'),
-  tools: getTools(),
-  memory: new Memory({
-    options: {
-      // Retain the last 40 messages for context.
-      lastMessages: 40,
-      semanticRecall: {
-        topK: 2,
-        messageRange: {
-          before: 2,
-          after: 2
-        },
-        scope: 'resource',
-      },
-      threads: {
-        generateTitle: true
-      },
-      workingMemory: {
-        enabled: true,
-      },
-    },
-    storage: new LibSQLStore({
-      url: 'file:../../memory.db'
-    }),
-    vector: new LibSQLVector({
-      connectionUrl: 'file:../../memory.db'
-    }),
-    embedder: fastembed
-  })
-}); 
\ No newline at end of file
+  tools: { delegateToDomainAgent },
+  memory: xiboAgentMemory
+});
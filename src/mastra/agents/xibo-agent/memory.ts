@@ -0,0 +1,50 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Xibo Agent Memory
+ *
+ * The memory shared by the Xibo router agent and its domain sub-agents, so a
+ * sub-agent can read the conversation thread the router is working in.
+ */
+
+import { Memory } from '@mastra/memory';
+import { LibSQLStore, LibSQLVector } from '@mastra/libsql';
+import { fastembed } from '@mastra/fastembed';
+
+export const xiboAgentMemory = new Memory({
+  options: {
+    // Retain the last 40 messages for context.
+    lastMessages: 40,
+    semanticRecall: {
+      topK: 2,
+      messageRange: {
+        before: 2,
+        after: 2
+      },
+      scope: 'resource',
+    },
+    threads: {
+      generateTitle: true
+    },
+    workingMemory: {
+      enabled: true,
+    },
+  },
+  storage: new LibSQLStore({
+    url: 'file:../../memory.db'
+  }),
+  vector: new LibSQLVector({
+    connectionUrl: 'file:../../memory.db'
+  }),
+  embedder: fastembed
+});
@@ -0,0 +1,57 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Xibo Domain Sub-Agents
+ *
+ * One agent per domain in `toolDomains.ts`. Each sub-agent only receives the tools
+ * of its domain and the domain knowledge, and shares the router's memory. Tools are
+ * created with the agent name 'xibo-agent', so safe mode policies and confirmations
+ * work the same as for the single agent they replace.
+ */
+
+import { Agent } from '@mastra/core/agent';
+import { google } from '@ai-sdk/google';
+import { getTools } from '../../tools/xibo-agent/';
+import { XIBO_TOOL_DOMAINS, type XiboToolDomain } from '../../tools/xibo-agent/toolDomains';
+import { xiboAgentDomains } from './domains';
+import { buildXiboDomainAgentInstructions } from './instructions';
+import { xiboAgentMemory } from './memory';
+import { proofOfPlayReportWorkflow } from '../../workflows/proof-of-play/proofOfPlayReport';
+
+/**
+ * Workflows a domain sub-agent may run, in addition to its tools.
+ */
+const DOMAIN_WORKFLOWS: Partial<Record<XiboToolDomain, Record<string, any>>> = {
+  scheduling: { proofOfPlayReport: proofOfPlayReportWorkflow },
+};
+
+function createXiboDomainAgent(domain: XiboToolDomain): Agent {
+  const { label, scope } = xiboAgentDomains[domain];
+  return new Agent({
+    id: `xibo-${domain}-agent`,
+    name: `Xibo ${label} Agent`,
+    description: `Handles Xibo CMS ${domain} requests delegated by the Xibo router agent: ${scope}`,
+    instructions: buildXiboDomainAgentInstructions(domain),
+    model: google('gemini-2.5-flash'),
+    tools: getTools({ agent: 'xibo-agent', domain }),
+    workflows: DOMAIN_WORKFLOWS[domain],
+    memory: xiboAgentMemory,
+  });
+}
+
+/**
+ * The domain sub-agents, keyed by domain.
+ */
+export const xiboDomainAgents = Object.fromEntries(
+  XIBO_TOOL_DOMAINS.map((domain) => [domain, createXiboDomainAgent(domain)])
+) as Record<XiboToolDomain, Agent>;
@@ -64,4 +64,16 @@ export const imageGenerationWorkflow = `
 注意事項：
 - 画像の生成履歴は、新規生成時に初期化されます
 - 画像の生成履歴は、生成された画像のIDを使用して管理されます
-`; 
\ No newline at end of file
+`; 
+
+export const proofOfPlayReportWorkflow = `
+再生実績レポートワークフロー（proofOfPlayReport）：
+1. 対象（campaign / layout / media）とそのID、集計期間（fromDt, toDt）を確認します。IDが不明な場合は getCampaigns, getLayouts, getLibrary で調べます。
+2. 特定のディスプレイだけを集計する場合は displayIds を、PowerPointも必要な場合は createPresentation: true を指定して proofOfPlayReport ワークフローを実行します。
+3. 結果の summary から再生回数・放映時間・ディスプレイ数を要約して伝え、downloads の URL をダウンロードリンクとして提示します（Markdown、PDF、作成した場合はPPTX）。
+4. 数値は summary の値をそのまま使い、推測で補わないでください。
+
+注意事項：
+- 期間は最大93日です。月次レポートは月ごとに実行してください。
+- 統計の件数を事前に確認したい場合は getExportStatsCount を使用します。
+`;
@@ -0,0 +1,33 @@
+/*
+ * Copyright (C) 2024 OpenSignage Project.
+ * All rights reserved.
+ *
+ * This software is licensed under the Elastic License 2.0 (ELv2).
+ * You may obtain a copy of the license at:
+ * https://www.elastic.co/licensing/elastic-license
+ */
+
+/**
+ * Audit Trail API Handler
+ * Returns the audit log of CMS changes made by the agents
+ * URL format: /ext-api/audit?entityType=layout&entityId=12&user=...&from=...&to=...
+ */
+
+import { Context } from 'hono';
+import { logger } from './logger';
+import { auditFilterSchema, queryAuditTrail } from '../../tools/xibo-agent/auditLog';
+
+export const auditHandler = async (c: Context) => {
+  const parsed = auditFilterSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({ error: 'Invalid query parameters', details: parsed.error.flatten() }, 400);
+  }
+
+  try {
+    const result = await queryAuditTrail(parsed.data);
+    return c.json(result);
+  } catch (error) {
+    logger.error('audit: Failed to read the audit log', { error: error instanceof Error ? error.message : String(error) });
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+};
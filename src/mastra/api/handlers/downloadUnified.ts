@@ -12,7 +12,7 @@ import path from 'path';
 import fs from 'fs/promises';
 import { config as toolsConfig } from '../../tools/xibo-agent/config';
 
-const KIND = ['report', 'podcast', 'presentation'] as const;
+const KIND = ['report', 'podcast', 'presentation', 'schedule'] as const;
 type Kind = typeof KIND[number];
 
 const validators: Record<Kind, (name: string) => boolean> = {
@@ -20,12 +20,14 @@ const validators: Record<Kind, (name: string) => boolean> = {
   report: (n) => /^[\p{L}\p{N}_ .-]+\.(md|pdf)$/u.test(n) && !/[\\/]/.test(n),
   podcast: (n) => /^[\p{L}\p{N}_ .-]+\.(wav|mp3|m4a)$/u.test(n) && !/[\\/]/.test(n),
   presentation: (n) => /^[\p{L}\p{N}_ .-]+\.(pptx|ppt)$/u.test(n) && !/[\\/]/.test(n),
+  schedule: (n) => /^[\p{L}\p{N}_ .-]+\.ics$/u.test(n) && !/[\\/]/.test(n),
 };
 
 const baseDirs: Record<Kind, string> = {
   report: toolsConfig.reportsDir,
   podcast: path.join(toolsConfig.generatedDir, 'podcast'),
   presentation: toolsConfig.presentationsDir,
+  schedule: path.join(toolsConfig.generatedDir, 'schedules'),
 };
 
 const safeResolve = (baseDir: string, fileName: string): string => {
@@ -41,13 +43,14 @@ const contentTypes: Record<Kind, string> = {
   report: 'text/markdown; charset=utf-8',
   podcast: 'audio/wav',
   presentation: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  schedule: 'text/calendar; charset=utf-8',
 };
 
 export const downloadUnifiedHandler = async (c: Context) => {
   try {
     const { kind, fileName } = c.req.param();
     if (!kind || !KIND.includes(kind as Kind)) {
-      return c.json({ error: 'Invalid kind. Use report|podcast|presentation' }, 400);
+      return c.json({ error: 'Invalid kind. Use report|podcast|presentation|schedule' }, 400);
     }
     const k = kind as Kind;
     if (!fileName || !validators[k](fileName)) {
@@ -0,0 +1,115 @@
+/*
+ * Copyright (C) 2024 OpenSignage Project.
+ * All rights reserved.
+ *
+ * This software is licensed under the Elastic License 2.0 (ELv2).
+ * You may obtain a copy of the license at:
+ * https://www.elastic.co/licensing/elastic-license
+ */
+
+/**
+ * Batch Upload Handler
+ * Uploads a ZIP package or several files and ingests them into the Xibo library
+ *
+ * Usage:
+ *    curl -X POST -F "file=@assets.zip" -F "tags=spring,agency" -F "parentFolderId=12" \
+ *      http://localhost:4111/ext-api/upload/batch
+ *    curl -X POST -F "file=@menu/burger.png;filename=menu/burger.png" -F "file=@menu/fries.png;filename=menu/fries.png" \
+ *      http://localhost:4111/ext-api/upload/batch
+ *    curl -X POST -F "jobId=<jobId>" http://localhost:4111/ext-api/upload/batch   (retry failed files)
+ *
+ * File names may contain sub-folders ("menu/burger.png"); they are mirrored as library
+ * folders. The response is the ingest report with the outcome of every file. The uploaded
+ * files are kept in the upload directory until every file is in the library, so a job can
+ * be resumed with its jobId. When the job fails as a whole after it was recorded, the error
+ * response holds its jobId as well.
+ */
+
+import { Context } from 'hono';
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs/promises';
+import { logger } from './logger';
+import { config as apiConfig } from '../config';
+import { config as toolsConfig } from '../../tools/xibo-agent/config';
+import { MediaIngestError, ingestMedia, mediaIngestSchema, packagePath } from '../../tools/xibo-agent/mediaIngest';
+
+/** Form fields holding lists or numbers, converted before validation. */
+const optionFields = (formData: FormData) => {
+  const text = (name: string) => {
+    const value = formData.get(name);
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+  const number = (name: string) => (text(name) === undefined ? undefined : Number(text(name)));
+  const flag = (name: string) => (text(name) === undefined ? undefined : ['1', 'true', 'on', 'yes'].includes(text(name)!.toLowerCase()));
+  const list = (name: string) => text(name)?.split(',').map((v) => v.trim()).filter(Boolean);
+  return {
+    jobId: text('jobId'),
+    parentFolderId: number('parentFolderId'),
+    mirrorFolders: flag('mirrorFolders'),
+    tagsFromPath: flag('tagsFromPath'),
+    tags: list('tags'),
+    manifest: text('manifest'),
+    concurrency: number('concurrency'),
+    transcode: text('transcode'),
+    playerTypes: list('playerTypes'),
+  };
+};
+
+export const uploadBatchHandler = async (c: Context) => {
+  let saved: string | undefined;
+  try {
+    const formData = await c.req.formData();
+    const files = formData.getAll('file').filter((f): f is File => typeof f !== 'string');
+    const options = optionFields(formData);
+
+    if (files.length === 0 && !options.jobId) {
+      return c.json({ error: 'No file uploaded' }, 400);
+    }
+    const tooLarge = files.find((file) => file.size > apiConfig.upload.maxFileSize);
+    if (tooLarge) {
+      return c.json({ error: 'File too large', filename: tooLarge.name, maxSize: apiConfig.upload.maxFileSize }, 400);
+    }
+
+    let source: string | undefined;
+    if (files.length > 0) {
+      const batchName = `batch-${crypto.randomUUID()}`;
+      if (files.length === 1 && files[0].name.toLowerCase().endsWith('.zip')) {
+        saved = path.join(toolsConfig.uploadDir, `${batchName}.zip`);
+        await fs.mkdir(toolsConfig.uploadDir, { recursive: true });
+        await fs.writeFile(saved, Buffer.from(await files[0].arrayBuffer()));
+      } else {
+        saved = path.join(toolsConfig.uploadDir, batchName);
+        for (const file of files) {
+          const relPath = packagePath(file.name);
+          if (!relPath) {
+            return c.json({ error: 'Invalid file name', filename: file.name }, 400);
+          }
+          await fs.mkdir(path.join(saved, path.posix.dirname(relPath)), { recursive: true });
+          await fs.writeFile(path.join(saved, relPath), Buffer.from(await file.arrayBuffer()));
+        }
+      }
+      source = saved;
+    }
+
+    const parsed = mediaIngestSchema.safeParse({ ...options, jobId: source ? undefined : options.jobId, source });
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid parameters', details: parsed.error.flatten() }, 400);
+    }
+
+    const report = await ingestMedia(parsed.data);
+    if (report.failed === 0 && saved) {
+      await fs.rm(saved, { recursive: true, force: true });
+    }
+    logger.info(`Batch upload ingested: job ${report.jobId}, ${report.uploaded} uploaded, ${report.failed} failed`);
+    return c.json(report);
+  } catch (error) {
+    // A recorded job still reads its files from the upload directory when it is resumed
+    const jobId = error instanceof MediaIngestError ? error.jobId : undefined;
+    if (saved && !jobId) {
+      await fs.rm(saved, { recursive: true, force: true }).catch(() => undefined);
+    }
+    logger.error('Batch upload error:', { jobId, error: error instanceof Error ? error.message : 'Unknown error' });
+    return c.json({ error: 'Batch upload failed', details: error instanceof Error ? error.message : 'Unknown error', jobId }, 500);
+  }
+};
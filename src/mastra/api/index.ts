@@ -14,12 +14,14 @@
 
 import { registerApiRoute } from '@mastra/core/server';
 import { uploadHandler } from './handlers/upload';
+import { uploadBatchHandler } from './handlers/uploadBatch';
 import { getImageHandler } from './handlers/getImage';
 import { getFontImageHandler } from './handlers/getFontImage';
 import { uploadProductsInfoFormHandler } from './handlers/uploadProductsInfoForm';
 import { uploadProductsInfoByNameHandler } from './handlers/uploadProductsInfo';
 import { downloadUnifiedHandler } from './handlers/downloadUnified';
 import { uploadToGoogleSlidesHandler } from './handlers/uploadToGoogleSlides';
+import { auditHandler } from './handlers/audit';
 
 export const apiRoutes = [
   // File Upload API - Handles media file uploads
@@ -54,6 +56,46 @@ export const apiRoutes = [
       }
     },
   }),
+  // Batch upload - ingests a ZIP package or several files into the Xibo library
+  registerApiRoute("/ext-api/upload/batch", {
+    method: "POST",
+    handler: uploadBatchHandler,
+    openapi: {
+      summary: "Batch media ingest",
+      description: "Uploads a ZIP package or several files (names may include sub-folders) and ingests them into the Xibo library: sub-folders become library folders, files are tagged from their path and an optional manifest.csv/manifest.json, and content already in the library is not uploaded twice. Send only jobId to retry the failed files of an earlier batch.",
+      tags: ["Extended API"],
+      requestBody: {
+        required: true,
+        content: {
+          "multipart/form-data": {
+            schema: {
+              type: "object",
+              properties: {
+                file: { type: "array", items: { type: "string", format: "binary" }, description: "One .zip file, or several files" },
+                jobId: { type: "string", description: "Job to resume instead of uploading files" },
+                parentFolderId: { type: "integer", description: "Library folder to ingest into (default 1, the root)" },
+                mirrorFolders: { type: "boolean", description: "Create library folders for sub-folders (default true)" },
+                tagsFromPath: { type: "boolean", description: "Tag files with their folder names (default true)" },
+                tags: { type: "string", description: "Comma separated tags added to every file" },
+                manifest: { type: "string", description: "Manifest file in the package (default manifest.csv or manifest.json)" },
+                concurrency: { type: "integer", description: "Files uploaded at the same time (1-8, default 3)" },
+                transcode: { type: "string", enum: ["never", "ifIncompatible", "always"], description: "Transcoding of video/audio" },
+                playerTypes: { type: "string", description: "Comma separated player types to check video/audio against" }
+              }
+            }
+          }
+        }
+      },
+      responses: {
+        200: {
+          description: "Ingest report with the outcome of every file",
+          content: { "application/json": { schema: { type: "object", properties: { jobId: { type: "string" }, total: { type: "number" }, uploaded: { type: "number" }, existing: { type: "number" }, skipped: { type: "number" }, failed: { type: "number" }, ignored: { type: "number" }, foldersCreated: { type: "array", items: { type: "string" } }, files: { type: "array", items: { type: "object" } } } } } }
+        },
+        400: { description: "Validation error (no file / invalid name / too large / invalid parameters)" },
+        500: { description: "Server error (unreadable package or manifest, unknown job, CMS error)" }
+      }
+    },
+  }),
   // Upload form (HTML)
   registerApiRoute("/ext-api/products_info/upload-form/:productName", {
     method: "GET",
@@ -112,19 +154,20 @@ export const apiRoutes = [
   //   /ext-api/download/report/xxxx.md
   //   /ext-api/download/podcast/xxxx.wav
   //   /ext-api/download/presentation/xxxx.pptx
+  //   /ext-api/download/schedule/xxxx.ics
   registerApiRoute("/ext-api/download/:kind/:fileName", {
     method: "GET",
     handler: downloadUnifiedHandler,
     openapi: {
       summary: "Download generated artifact",
-      description: "Downloads a generated file by kind and fileName (report|podcast|presentation).",
+      description: "Downloads a generated file by kind and fileName (report|podcast|presentation|schedule).",
       tags: ["Extended API"],
       parameters: [
         {
           name: "kind",
           in: "path",
           required: true,
-          schema: { type: "string", enum: ["report", "podcast", "presentation"] },
+          schema: { type: "string", enum: ["report", "podcast", "presentation", "schedule"] },
           description: "Artifact type"
         },
         {
@@ -196,4 +239,31 @@ export const apiRoutes = [
       }
     },
   }),
-]; 
\ No newline at end of file
+  // Audit trail of CMS changes made by the agents
+  registerApiRoute("/ext-api/audit", {
+    method: "GET",
+    handler: auditHandler,
+    openapi: {
+      summary: "Get CMS audit trail",
+      description: "Returns the append-only audit log of every non-GET Xibo API call made by the agents, newest first. Filters are combined with AND.",
+      tags: ["Extended API"],
+      parameters: [
+        { name: "entityType", in: "query", required: false, schema: { type: "string" }, description: "Entity type as used in the API path (e.g. layout, display)" },
+        { name: "entityId", in: "query", required: false, schema: { type: "integer" }, description: "Entity ID" },
+        { name: "user", in: "query", required: false, schema: { type: "string" }, description: "Agent resource (user) ID or approver" },
+        { name: "toolId", in: "query", required: false, schema: { type: "string" }, description: "Tool ID (e.g. delete-layout)" },
+        { name: "profileName", in: "query", required: false, schema: { type: "string" }, description: "CMS profile name" },
+        { name: "threadId", in: "query", required: false, schema: { type: "string" }, description: "Agent thread ID" },
+        { name: "from", in: "query", required: false, schema: { type: "string", format: "date-time" }, description: "Start of the time range (inclusive)" },
+        { name: "to", in: "query", required: false, schema: { type: "string", format: "date-time" }, description: "End of the time range (inclusive)" },
+        { name: "limit", in: "query", required: false, schema: { type: "integer", minimum: 1, maximum: 500 }, description: "Maximum number of entries (default 50)" },
+        { name: "offset", in: "query", required: false, schema: { type: "integer", minimum: 0 }, description: "Number of entries to skip" }
+      ],
+      responses: {
+        200: { description: "Audit entries", content: { "application/json": { schema: { type: "object", properties: { total: { type: "number" }, entries: { type: "array", items: { type: "object" } } } } } } },
+        400: { description: "Invalid parameters" },
+        500: { description: "Server error" }
+      }
+    },
+  }),
+];
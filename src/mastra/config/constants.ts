@@ -4,6 +4,8 @@ export const EXT_API_BASE = `${BASE_URL}/ext-api`;
 // Common download API paths
 export const DOWNLOAD_API_REPORT = `${EXT_API_BASE}/download/report`;
 export const DOWNLOAD_API_PODCAST = `${EXT_API_BASE}/download/podcast`;
+export const DOWNLOAD_API_PRESENTATION = `${EXT_API_BASE}/download/presentation`;
+export const DOWNLOAD_API_SCHEDULE = `${EXT_API_BASE}/download/schedule`;
 export const GET_IMAGE_API = `${EXT_API_BASE}/getImage`;
 export const GET_VIDEO_API = `${EXT_API_BASE}/getVideo`;
 
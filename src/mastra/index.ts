@@ -21,9 +21,17 @@ import { Mastra } from '@mastra/core';
 import { LibSQLStore } from '@mastra/libsql';
 import { apiRoutes } from './api';
 import { config } from './tools/xibo-agent/config';
+import { CMS_PROFILE_CONTEXT_KEY } from './tools/xibo-agent/cmsProfiles';
+import { SAFE_MODE_APPROVAL_CONTEXT_KEY, SAFE_MODE_APPROVED_BY_CONTEXT_KEY } from './tools/xibo-agent/safeMode';
+import { startFleetHealthMonitor } from './tools/xibo-agent/fleetMonitor';
+import { startStatsWarehouseSync } from './tools/xibo-agent/statsWarehouse';
+import { startWeatherRuleEngine } from './tools/xibo-agent/weatherRules';
+import { startNewsTickerSync } from './tools/xibo-agent/newsTicker';
+import { startMenuDaypartScheduler } from './tools/xibo-agent/menuDayparts';
+import { startManualIndexer } from './tools/xibo-manual';
 
 // Import agents
-import { xiboAgent } from './agents/xibo-agent';
+import { xiboAgent, xiboDomainAgents } from './agents/xibo-agent';
 import { xiboManualAgent } from './agents/xibo-manual';
 import { marketingAgent } from './agents/marketing-agent';
 import { testAgent } from './agents/test-agent';
@@ -38,6 +46,7 @@ import { podcastPlannerWorkflow } from './workflows/podcast/podcastPlanner';
 import { signageAdsPlannerWorkflow } from './workflows/signage-ads/signageAdsPlanner';
 import { recipeToPptxWorkflow } from './workflows/presenter/recipeToPptx';
 import { mdToRecipeWorkflow } from './workflows/presenter/mdToRecipe';
+import { proofOfPlayReportWorkflow } from './workflows/proof-of-play/proofOfPlayReport';
 
 
 // Load environment variables from .env.development
@@ -85,7 +94,13 @@ export const logger = pinoLogger as any;
 export const mastra = new Mastra({
   // Register available agents
   agents: {
-    xibo: xiboAgent,         // Xibo system operation agent
+    xibo: xiboAgent,         // Xibo system operation agent (routes to the domain agents below)
+    xiboDisplays: xiboDomainAgents.displays,     // Displays, groups and fleet health
+    xiboLayouts: xiboDomainAgents.layouts,       // Layouts, regions, widgets and playlists
+    xiboLibrary: xiboDomainAgents.library,       // Media library and generation
+    xiboScheduling: xiboDomainAgents.scheduling, // Schedules, campaigns and day parts
+    xiboDataSets: xiboDomainAgents.datasets,     // DataSets and menu boards
+    xiboUsers: xiboDomainAgents.users,           // Users, groups and permissions
     manual: xiboManualAgent, // Xibo manual operation agent
     marketing: marketingAgent, // Marketing agent
     test: testAgent // Test agent
@@ -99,7 +114,8 @@ export const mastra = new Mastra({
     podcastPlanner: podcastPlannerWorkflow,
     signageAdsPlanner: signageAdsPlannerWorkflow,
     recipeToPptx: recipeToPptxWorkflow,
-    mdToRecipe: mdToRecipeWorkflow
+    mdToRecipe: mdToRecipeWorkflow,
+    proofOfPlayReport: proofOfPlayReportWorkflow
   },
   // Set shared logger
   logger: logger,
@@ -113,6 +129,25 @@ export const mastra = new Mastra({
   // カスタムAPIルートを追加
   server: {
     apiRoutes,
+    middleware: [
+      // Lets a client pin an agent thread to a CMS profile with the X-CMS-Profile header
+      async (c, next) => {
+        const cmsProfile = c.req.header('X-CMS-Profile');
+        if (cmsProfile) {
+          c.get('runtimeContext')?.set(CMS_PROFILE_CONTEXT_KEY, cmsProfile);
+        }
+        await next();
+      },
+      // Carries the user's approval of destructive operations; the agent cannot set it itself
+      async (c, next) => {
+        const approval = c.req.header('X-Safe-Mode-Approval');
+        if (approval) {
+          c.get('runtimeContext')?.set(SAFE_MODE_APPROVAL_CONTEXT_KEY, approval);
+          c.get('runtimeContext')?.set(SAFE_MODE_APPROVED_BY_CONTEXT_KEY, c.req.header('X-Safe-Mode-Approved-By') ?? '');
+        }
+        await next();
+      },
+    ],
   },
 });
 
@@ -122,4 +157,22 @@ export const workflows = [
 ];
 
 // Expose mastra on global to allow tools to access memory without importing this file
-(globalThis as any).__mastra = mastra;
\ No newline at end of file
+(globalThis as any).__mastra = mastra;
+
+// Poll display health in the background when enabled (fleet-health.json or XIBO_FLEET_MONITOR=on)
+startFleetHealthMonitor();
+
+// Copy proof-of-play statistics into the local warehouse when enabled (stats-warehouse.json or XIBO_STATS_WAREHOUSE=on)
+startStatsWarehouseSync();
+
+// Switch content by the weather forecast when enabled (weather-rules.json or XIBO_WEATHER_RULES=on)
+startWeatherRuleEngine();
+
+// Keep news ticker DataSets filled with headlines when enabled (news-ticker.json or XIBO_NEWS_TICKER=on)
+startNewsTickerSync();
+
+// Switch menu board prices and availability at day part boundaries when enabled (menu-dayparts.json or XIBO_MENU_DAYPARTS=on)
+startMenuDaypartScheduler();
+
+// Embed the manual sections for the manual agent and re-index pages when they change
+startManualIndexer();
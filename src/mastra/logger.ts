@@ -5,10 +5,13 @@
 import pino from 'pino';
 import { resolve } from 'path';
 import { config } from './tools/xibo-agent/config';
+import { getActiveCmsProfileName } from './tools/xibo-agent/cmsContext';
 
 export const logger = pino(
   {
     level: process.env.LOG_LEVEL || 'info',
+    // Tag every line with the CMS profile the current call chain works against.
+    mixin: () => ({ cmsProfile: getActiveCmsProfileName() }),
   },
   pino.transport({
     targets: [
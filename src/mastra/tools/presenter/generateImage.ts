@@ -18,6 +18,7 @@ import * as path from 'node:path';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '../xibo-agent/config';
 import { logger } from '../../logger';
+import { fitImage } from '../xibo-agent/utility/imageProcessing';
 
 export type Aspect = '1:1' | '3:4' | '4:3' | '16:9' | '9:16';
 
@@ -31,26 +32,11 @@ const aspectToDims: Record<Aspect, { width: number; height: number }> = {
 
 async function cropToAspect(buffer: Buffer, target: Aspect): Promise<Buffer> {
   try {
-    const { createCanvas, loadImage } = await import('canvas');
-    const { width: outW, height: outH } = aspectToDims[target];
-    const dataUrl = `data:image/png;base64,${buffer.toString('base64')}`;
-    const img = await loadImage(dataUrl);
-    const inW = img.width || outW;
-    const inH = img.height || outH;
-    // cover: scale to fill, center-crop
-    const scale = Math.max(outW / Math.max(1, inW), outH / Math.max(1, inH));
-    const drawW = Math.round(inW * scale);
-    const drawH = Math.round(inH * scale);
-    const dx = Math.round((outW - drawW) / 2);
-    const dy = Math.round((outH - drawH) / 2);
-    const canvas = createCanvas(outW, outH);
-    const ctx = canvas.getContext('2d');
     // Always render over an opaque white underlay to avoid any transparency in outputs
-    ctx.fillStyle = '#FFFFFF';
-    ctx.fillRect(0, 0, outW, outH);
-    ctx.drawImage(img as any, dx, dy, drawW, drawH);
-    return canvas.toBuffer('image/png');
-  } catch {
+    const cropped = await fitImage(buffer, { ...aspectToDims[target], fit: 'cover', background: '#FFFFFF', format: 'png' });
+    return cropped.buffer;
+  } catch (e) {
+    logger.warn({ error: e instanceof Error ? e.message : String(e) }, 'generateImage: crop failed, keeping the original image');
     return buffer;
   }
 }
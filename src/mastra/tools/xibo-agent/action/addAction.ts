@@ -19,6 +19,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage } from "../utility/error";
 import { actionSchema } from "./schemas";
@@ -101,7 +102,7 @@ export const addAction = createTool({
         }
       });
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "POST",
         headers: {
           ...await getAuthHeaders(),
@@ -18,15 +18,22 @@
 import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
 import { logger } from "../../../logger";
-import { decodeErrorMessage } from "../utility/error";
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from "../utility/pagination";
 import { actionSchema } from "./schemas";
 
 // Schema for a successful response, containing an array of actions.
 const successResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(actionSchema),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for a generic error response.
@@ -61,6 +68,7 @@ export const getActions = createTool({
     targetId: z.number().optional().describe("Filter by the action's target ID."),
     layoutId: z.number().optional().describe("Return all actions pertaining to a particular Layout ID."),
     sourceOrTargetId: z.number().optional().describe("Return all actions related to a source or target with the provided ID."),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -71,31 +79,28 @@ export const getActions = createTool({
     }
     
     const url = new URL(`${config.cmsUrl}/api/action`);
+    const { pagination, filters } = splitPaginationOptions(context);
     
     // Append optional query parameters
-    Object.entries(context).forEach(([key, value]) => {
+    Object.entries(filters).forEach(([key, value]) => {
         if (value !== undefined) {
             url.searchParams.append(key, String(value));
         }
     });
 
     try {
-      logger.info({ url: url.toString() }, "Requesting actions from Xibo CMS.");
+      logger.info({ url: url.toString(), pagination }, "Requesting actions from Xibo CMS.");
 
-      const response = await fetch(url.toString(), {
-        method: "GET",
-        headers: await getAuthHeaders(),
-      });
-      
-      const responseData = await response.json();
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseData);
-        const message = `Failed to get actions. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: decodedError }, message);
-        return { success: false as const, message, errorData: decodedError };
+      if (!result.success) {
+        const message = `Failed to get actions. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
+        return { success: false as const, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
+
       const validationResult = z.array(actionSchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -109,7 +114,12 @@ export const getActions = createTool({
         };
       }
       
-      return { success: true as const, data: validationResult.data };
+      return {
+        success: true as const,
+        message: describePagination(result.pagination, "actions"),
+        data: validationResult.data,
+        pagination: result.pagination,
+      };
 
     } catch (error) {
       const message = "An unexpected error occurred while getting actions.";
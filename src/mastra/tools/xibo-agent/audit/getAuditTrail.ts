@@ -0,0 +1,74 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module
+ * This module provides a tool to read the audit log of CMS changes made by the agents,
+ * filtered by entity, user, tool, CMS profile, thread and time range.
+ */
+
+import { z } from "zod";
+import { createTool } from '@mastra/core/tools';
+import { auditFilterSchema, queryAuditTrail } from "../auditLog";
+import { logger } from '../../../logger';
+
+const auditEntrySchema = z.object({
+  id: z.number(),
+  timestamp: z.string().describe("Time the request was sent (ISO 8601)."),
+  cmsProfile: z.string(),
+  toolId: z.string().nullable().describe("Tool that made the request, if any."),
+  agent: z.string().nullable(),
+  method: z.string(),
+  endpoint: z.string().describe("CMS API endpoint, e.g. /layout/12."),
+  status: z.number().nullable().describe("HTTP status, or null when the request failed."),
+  entityIds: z.array(z.string()).describe("Affected entities as 'type:id'."),
+  input: z.any().describe("Tool input with credentials redacted."),
+  threadId: z.string().nullable(),
+  resourceId: z.string().nullable(),
+  approvedBy: z.string().nullable(),
+  error: z.string().nullable(),
+});
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    total: z.number().describe("Number of entries matching the filters."),
+    entries: z.array(auditEntrySchema),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for reading the audit log of CMS changes.
+ */
+export const getAuditTrail = createTool({
+  id: 'get-audit-trail',
+  description: 'Get the audit log of CMS changes (every non-GET Xibo API call) made by the agents, newest first.',
+  inputSchema: auditFilterSchema,
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const data = await queryAuditTrail(context);
+      logger.info({ filter: context, total: data.total }, "Retrieved audit trail.");
+      return {
+        success: true,
+        message: `${data.entries.length} of ${data.total} audit entries returned.`,
+        data,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "getAuditTrail: Failed to read the audit log");
+      return { success: false, message: `Failed to read the audit log: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
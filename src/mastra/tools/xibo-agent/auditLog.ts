@@ -0,0 +1,312 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * CMS Mutation Audit Log
+ *
+ * Append-only record of every non-GET request the agents send to a Xibo CMS, stored in
+ * the `xibo_audit_log` table of the Mastra LibSQL database. `xiboClient` records each
+ * mutation; `withAuditContext()` (applied in `getTools()`) attaches the calling tool,
+ * its input and the agent thread/resource to the requests made while the tool runs.
+ * UPDATE and DELETE on the table are rejected by triggers.
+ */
+
+import { z } from 'zod';
+import { AsyncLocalStorage } from 'async_hooks';
+import { InValue } from '@libsql/client';
+import { Tool } from '@mastra/core/tools';
+import { ensureTables, getAgentDatabase } from './database';
+import { logger } from '../../logger';
+import { getActiveCmsProfileName } from './cmsContext';
+import { SAFE_MODE_APPROVED_BY_CONTEXT_KEY, classifyTool } from './safeMode';
+import type { XiboTool, XiboToolContext } from './xiboTool';
+
+/**
+ * Information about the tool call that triggers CMS requests.
+ */
+export interface AuditContext {
+  toolId: string;
+  input: unknown;
+  agent?: string;
+  threadId?: string;
+  resourceId?: string;
+  approvedBy?: string;
+}
+
+/**
+ * One row of the audit log.
+ */
+export interface AuditEntry {
+  id: number;
+  timestamp: string;
+  cmsProfile: string;
+  toolId: string | null;
+  agent: string | null;
+  method: string;
+  endpoint: string;
+  status: number | null;
+  entityIds: string[];
+  input: unknown;
+  threadId: string | null;
+  resourceId: string | null;
+  approvedBy: string | null;
+  error: string | null;
+}
+
+/**
+ * Filters accepted by `queryAuditTrail()`, the `getAuditTrail` tool and the
+ * `/ext-api/audit` route. All filters are combined with AND.
+ */
+export const auditFilterSchema = z.object({
+  entityType: z.string().optional().describe('Entity type as used in the API path, e.g. "layout", "display", "playlist".'),
+  entityId: z.coerce.number().int().optional().describe('Entity ID; combined with entityType when both are given.'),
+  user: z.string().optional().describe('Matches the agent resource (user) ID or the person who approved the change.'),
+  toolId: z.string().optional().describe('Tool ID, e.g. "delete-layout".'),
+  profileName: z.string().optional().describe('CMS profile the change was made on.'),
+  threadId: z.string().optional().describe('Agent conversation thread ID.'),
+  from: z.string().datetime({ offset: true }).optional().describe('Start of the time range (ISO 8601, inclusive).'),
+  to: z.string().datetime({ offset: true }).optional().describe('End of the time range (ISO 8601, inclusive).'),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(50).describe('Maximum number of entries to return.'),
+  offset: z.coerce.number().int().min(0).optional().default(0).describe('Number of entries to skip.'),
+});
+
+export type AuditFilter = z.input<typeof auditFilterSchema>;
+
+const REDACTED_KEYS = /password|secret|token|apikey|api_key/i;
+const MAX_INPUT_LENGTH = 20000;
+
+const storage = new AsyncLocalStorage<AuditContext>();
+
+function ensureSchema(): Promise<void> {
+  return ensureTables('audit', [
+    `CREATE TABLE IF NOT EXISTS xibo_audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp TEXT NOT NULL,
+      cms_profile TEXT NOT NULL,
+      tool_id TEXT,
+      agent TEXT,
+      method TEXT NOT NULL,
+      endpoint TEXT NOT NULL,
+      status INTEGER,
+      entity_ids TEXT NOT NULL,
+      input TEXT,
+      thread_id TEXT,
+      resource_id TEXT,
+      approved_by TEXT,
+      error TEXT
+    )`,
+    'CREATE INDEX IF NOT EXISTS xibo_audit_log_timestamp ON xibo_audit_log (timestamp)',
+    `CREATE TRIGGER IF NOT EXISTS xibo_audit_log_no_update BEFORE UPDATE ON xibo_audit_log
+      BEGIN SELECT RAISE(ABORT, 'xibo_audit_log is append-only'); END`,
+    `CREATE TRIGGER IF NOT EXISTS xibo_audit_log_no_delete BEFORE DELETE ON xibo_audit_log
+      BEGIN SELECT RAISE(ABORT, 'xibo_audit_log is append-only'); END`,
+  ]);
+}
+
+/**
+ * Replaces credentials in a tool input before it is stored.
+ */
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, REDACTED_KEYS.test(key) ? '[REDACTED]' : redact(item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Collects "type:id" pairs from the endpoint path (e.g. /layout/12) and from
+ * `<type>Id` fields of the request body and the response.
+ */
+export function extractEntityIds(endpoint: string, ...payloads: unknown[]): string[] {
+  const ids = new Set<string>();
+  const segments = endpoint.split('?')[0].split('/').filter(Boolean);
+  segments.forEach((segment, index) => {
+    const previous = segments[index - 1];
+    if (/^\d+$/.test(segment) && previous && !/^\d+$/.test(previous)) {
+      ids.add(`${previous.toLowerCase()}:${segment}`);
+    }
+  });
+
+  const collect = (payload: unknown) => {
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return;
+    for (const [key, value] of Object.entries(payload)) {
+      const match = key.match(/^([a-zA-Z]+)Id$/);
+      if (match && (typeof value === 'number' || /^\d+$/.test(String(value)))) {
+        ids.add(`${match[1].toLowerCase()}:${value}`);
+      }
+    }
+  };
+  payloads.forEach(collect);
+  return [...ids];
+}
+
+/**
+ * Runs `fn` with `context` attached to every CMS mutation it makes.
+ */
+export function runWithAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Records one CMS mutation. Never throws; failures are logged.
+ */
+export async function recordCmsMutation(entry: {
+  method: string;
+  url: string;
+  status: number | null;
+  requestBody?: unknown;
+  responseBody?: unknown;
+  error?: string;
+}): Promise<void> {
+  const context = storage.getStore();
+  const endpoint = entry.url.replace(/^https?:\/\/[^/]+/, '').replace(/^.*?\/api(?=\/)/, '');
+  try {
+    await ensureSchema();
+    let input = context ? JSON.stringify(redact(context.input)) : null;
+    if (input && input.length > MAX_INPUT_LENGTH) {
+      input = `${input.slice(0, MAX_INPUT_LENGTH)}...`;
+    }
+    const args: InValue[] = [
+      new Date().toISOString(),
+      getActiveCmsProfileName(),
+      context?.toolId ?? null,
+      context?.agent ?? null,
+      entry.method,
+      endpoint,
+      entry.status,
+      JSON.stringify(extractEntityIds(endpoint, entry.requestBody, entry.responseBody)),
+      input,
+      context?.threadId ?? null,
+      context?.resourceId ?? null,
+      context?.approvedBy ?? null,
+      entry.error ?? null,
+    ];
+    await getAgentDatabase().execute({
+      sql: `INSERT INTO xibo_audit_log
+        (timestamp, cms_profile, tool_id, agent, method, endpoint, status, entity_ids, input, thread_id, resource_id, approved_by, error)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args,
+    });
+  } catch (error) {
+    logger.error(
+      { method: entry.method, endpoint, error: error instanceof Error ? error.message : error },
+      'Failed to write CMS audit log entry'
+    );
+  }
+}
+
+/**
+ * Reads audit entries, newest first.
+ */
+export async function queryAuditTrail(filter: AuditFilter = {}): Promise<{ total: number; entries: AuditEntry[] }> {
+  await ensureSchema();
+  const where: string[] = [];
+  const args: InValue[] = [];
+
+  if (filter.entityType && filter.entityId !== undefined) {
+    where.push('entity_ids LIKE ?');
+    args.push(`%"${filter.entityType.toLowerCase()}:${filter.entityId}"%`);
+  } else if (filter.entityType) {
+    where.push('entity_ids LIKE ?');
+    args.push(`%"${filter.entityType.toLowerCase()}:%`);
+  } else if (filter.entityId !== undefined) {
+    where.push('entity_ids LIKE ?');
+    args.push(`%:${filter.entityId}"%`);
+  }
+  if (filter.user) {
+    where.push('(resource_id = ? OR approved_by = ?)');
+    args.push(filter.user, filter.user);
+  }
+  if (filter.toolId) {
+    where.push('tool_id = ?');
+    args.push(filter.toolId);
+  }
+  if (filter.profileName) {
+    where.push('cms_profile = ?');
+    args.push(filter.profileName);
+  }
+  if (filter.threadId) {
+    where.push('thread_id = ?');
+    args.push(filter.threadId);
+  }
+  if (filter.from) {
+    where.push('timestamp >= ?');
+    args.push(new Date(filter.from).toISOString());
+  }
+  if (filter.to) {
+    where.push('timestamp <= ?');
+    args.push(new Date(filter.to).toISOString());
+  }
+
+  const whereClause = where.length ? `WHERE ${where.join(' AND ')}` : '';
+  const db = getAgentDatabase();
+  const count = await db.execute({ sql: `SELECT COUNT(*) AS total FROM xibo_audit_log ${whereClause}`, args });
+  const rows = await db.execute({
+    sql: `SELECT * FROM xibo_audit_log ${whereClause} ORDER BY id DESC LIMIT ? OFFSET ?`,
+    args: [...args, filter.limit ?? 50, filter.offset ?? 0],
+  });
+
+  const parseJson = (value: unknown) => {
+    if (typeof value !== 'string') return null;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  };
+
+  return {
+    total: Number(count.rows[0]?.total ?? 0),
+    entries: rows.rows.map((row) => ({
+      id: Number(row.id),
+      timestamp: String(row.timestamp),
+      cmsProfile: String(row.cms_profile),
+      toolId: (row.tool_id as string | null) ?? null,
+      agent: (row.agent as string | null) ?? null,
+      method: String(row.method),
+      endpoint: String(row.endpoint),
+      status: row.status === null ? null : Number(row.status),
+      entityIds: (parseJson(row.entity_ids) as string[] | null) ?? [],
+      input: parseJson(row.input),
+      threadId: (row.thread_id as string | null) ?? null,
+      resourceId: (row.resource_id as string | null) ?? null,
+      approvedBy: (row.approved_by as string | null) ?? null,
+      error: (row.error as string | null) ?? null,
+    })),
+  };
+}
+
+/**
+ * Wraps a tool so the CMS mutations it makes are recorded with the tool ID, its input,
+ * the agent name and the thread/resource of the conversation. Destructive tools also
+ * record who approved the call in the runtime context.
+ */
+export function withAuditContext(tool: XiboTool, options: { agent?: string } = {}): XiboTool {
+  return new Tool({
+    ...tool,
+    execute: async (args: XiboToolContext, invocation) => {
+      const approvedBy = args.runtimeContext?.get(SAFE_MODE_APPROVED_BY_CONTEXT_KEY);
+      const context: AuditContext = {
+        toolId: tool.id,
+        input: args.context,
+        agent: options.agent,
+        threadId: args.threadId,
+        resourceId: args.resourceId,
+        approvedBy: classifyTool(tool.id) === 'destructive' && typeof approvedBy === 'string' ? approvedBy : undefined,
+      };
+      return runWithAuditContext(context, () => tool.execute!(args, invocation));
+    },
+  });
+}
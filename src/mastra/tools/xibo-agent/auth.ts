@@ -15,59 +15,28 @@
  * 
  * This module handles authentication with the Xibo CMS API using OAuth2 client credentials.
  * It provides functions to obtain access tokens and generate authenticated request headers.
+ * Tokens are cached by the shared `xiboClient` until they expire, so repeated calls
+ * within one agent turn do not trigger new token requests.
  */
 
-import { config } from "./config";
+import { xiboClient } from "./xiboClient";
 import { logger } from '../../logger'; // ← 新しいパス
 
 /**
- * Requests an OAuth2 access token from the Xibo CMS API
+ * Returns an OAuth2 access token for the Xibo CMS API
  * 
  * Uses client credentials flow to authenticate with the CMS.
- * The obtained token is used for subsequent API requests.
+ * The cached token is reused until it is about to expire.
  * 
  * @returns {Promise<string>} The access token for API authentication
  * @throws {Error} If token acquisition fails
  */
 export const getAccessToken = async () => {
-  const tokenUrl = `${config.cmsUrl}/api/authorize/access_token`;
-  logger.debug(`Requesting access token from: ${tokenUrl}`);
-  
   try {
-    const response = await fetch(tokenUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        grant_type: "client_credentials",
-        client_id: config.clientId,
-        client_secret: config.clientSecret,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      logger.error(`Access token request failed: ${response.status} ${response.statusText}`, {
-        url: tokenUrl,
-        statusCode: response.status,
-        response: errorText
-      });
-      throw new Error(`Failed to obtain access token: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    logger.info(`Access token obtained successfully`);
-    
-    // Log token expiration details if available
-    if (data.expires_in) {
-      logger.debug(`Token will expire in ${data.expires_in} seconds`);
-    }
-    
-    return data.access_token;
+    return await xiboClient.getAccessToken();
   } catch (error) {
     // Handle network or other errors
-    logger.error(`Error in token acquisition process`, { error });
+    logger.error({ error }, `Error in token acquisition process`);
     throw error; // Re-throw for caller to handle
   }
 };
@@ -90,7 +59,7 @@ export const getAuthHeaders = async () => {
     logger.debug('Authentication headers created successfully');
     return headers;
   } catch (error) {
-    logger.error('Failed to create authentication headers', { error });
+    logger.error({ error }, 'Failed to create authentication headers');
     throw error; // Re-throw for caller to handle
   }
-}; 
\ No newline at end of file
+};
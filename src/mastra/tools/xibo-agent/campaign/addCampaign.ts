@@ -20,6 +20,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { campaignSchema } from './schemas';
 
@@ -91,7 +92,7 @@ export const addCampaign = createTool({
       // Log the request details before sending.
       logger.debug({ url, body: params.toString() }, 'Sending POST request to add campaign.');
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers,
         body: params.toString(),
@@ -20,6 +20,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger'; 
 import { URLSearchParams } from 'url';
 
@@ -98,7 +99,7 @@ export const assignLayoutToCampaign = createTool({
       // Log the request details before sending.
       logger.debug({ url, body: params.toString() }, 'Sending POST request to assign layout to campaign.');
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers,
         body: params.toString(),
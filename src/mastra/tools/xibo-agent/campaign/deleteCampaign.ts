@@ -20,6 +20,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 
 // Schema for the tool's input.
@@ -67,7 +68,7 @@ export const deleteCampaign = createTool({
       // Log the request details before sending.
       logger.debug({ url }, 'Sending DELETE request to delete campaign.');
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'DELETE',
         headers,
       });
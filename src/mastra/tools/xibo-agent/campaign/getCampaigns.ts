@@ -20,6 +20,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { campaignSchema } from './schemas';
 import {
@@ -27,6 +28,13 @@ import {
   treeResponseSchema,
   createTreeViewResponse,
 } from '../utility/treeView';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 
 // Schema for the tool's input.
 const inputSchema = z.object({
@@ -42,6 +50,7 @@ const inputSchema = z.object({
   embed: z.string().optional().default('layouts,permissions,tags,event').describe('Include related data (layouts, permissions, tags, event).'),
   folderId: z.number().optional().describe('Filter by folder ID.'),
   treeView: z.boolean().optional().describe('Set to true to return campaigns in a structured, hierarchical tree view.'),
+  ...paginationInputSchema.shape,
 });
 
 // Schema for the tool's output.
@@ -50,6 +59,7 @@ const outputSchema = z.union([
     success: z.literal(true),
     message: z.string(),
     data: z.array(campaignSchema),
+    pagination: paginationSummarySchema,
   }),
   treeResponseSchema, // Use the schema from the utility
   z.object({
@@ -85,18 +95,18 @@ export const getCampaigns = createTool({
         // When tree view is enabled, always use the default embed to get all info.
         campaignParams.append('embed', 'layouts,permissions,tags,event');
 
-        // 1. Fetch all folders and campaigns in parallel.
+        // 1. Fetch all folders and every page of campaigns in parallel.
         logger.debug('Fetching all folders and campaigns for tree view.');
-        const [foldersResponse, campaignsResponse] = await Promise.all([
-          fetch(`${config.cmsUrl}/api/folders?gridView=1`, { headers: authHeaders }),
-          fetch(`${config.cmsUrl}/api/campaign?${campaignParams.toString()}`, { headers: authHeaders })
+        const [foldersResponse, campaignsResult] = await Promise.all([
+          xiboClient.fetch(`${config.cmsUrl}/api/folders?gridView=1`, { headers: authHeaders }),
+          fetchPaginated(new URL(`${config.cmsUrl}/api/campaign?${campaignParams.toString()}`), { all: true })
         ]);
 
         if (!foldersResponse.ok) throw new Error(`Failed to fetch folders: ${foldersResponse.statusText}`);
-        if (!campaignsResponse.ok) throw new Error(`Failed to fetch campaigns: ${campaignsResponse.statusText}`);
+        if (!campaignsResult.success) throw new Error(`Failed to fetch campaigns: ${campaignsResult.message}`);
 
         const foldersData = await foldersResponse.json();
-        const campaignsData: z.infer<typeof campaignSchema>[] = await campaignsResponse.json();
+        const campaignsData = campaignsResult.items as z.infer<typeof campaignSchema>[];
         logger.debug({ foldersCount: foldersData.length, campaignsCount: campaignsData.length }, 'Fetched data for tree view.');
 
         // 2. Map all folders and campaigns to TreeNode objects.
@@ -220,10 +230,10 @@ export const getCampaigns = createTool({
 
     // Default logic for fetching a flat list of campaigns.
     try {
-      const headers = await getAuthHeaders();
       const params = new URLSearchParams();
+      const { pagination, filters } = splitPaginationOptions(input);
       
-      Object.entries(input).forEach(([key, value]) => {
+      Object.entries(filters).forEach(([key, value]) => {
         if (value !== undefined && value !== null) {
           // Do not include 'treeView' in the params for the flat list API call.
           if (key === 'treeView') return;
@@ -231,28 +241,27 @@ export const getCampaigns = createTool({
         }
       });
 
-      const url = `${config.cmsUrl}/api/campaign?${params.toString()}`;
+      const url = new URL(`${config.cmsUrl}/api/campaign?${params.toString()}`);
       // Log the request details before sending.
-      logger.debug({ url }, 'Sending GET request to fetch campaigns.');
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers,
-      });
+      logger.debug({ url: url.toString(), pagination }, 'Sending GET request to fetch campaigns.');
 
-      const responseData = await response.json();
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
+      if (!result.success) {
         // Log the HTTP error.
-        const message = `HTTP error! status: ${response.status}`;
-        logger.error({ status: response.status, responseData }, message);
-        return { success: false, message, error: responseData };
+        logger.error({ status: result.status, responseData: result.errorData }, result.message);
+        return { success: false, message: result.message, error: result.errorData };
       }
 
-      const validatedData = z.array(campaignSchema).parse(responseData);
+      const validatedData = z.array(campaignSchema).parse(result.items);
       // Log the successful retrieval.
-      logger.info({ count: validatedData.length }, 'Successfully retrieved and validated campaigns.');
-      return { success: true, message: 'Campaigns retrieved successfully.', data: validatedData };
+      logger.info({ count: validatedData.length, total: result.pagination.total }, 'Successfully retrieved and validated campaigns.');
+      return {
+        success: true,
+        message: describePagination(result.pagination, 'campaigns'),
+        data: validatedData,
+        pagination: result.pagination,
+      };
 
     } catch (error) {
       // Log any unexpected errors.
@@ -20,6 +20,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger'; 
 
 // Schema for the tool's input.
@@ -86,7 +87,7 @@ export const removeLayoutFromCampaign = createTool({
       // Log the request details before sending.
       logger.debug({ url, body: params.toString() }, 'Sending DELETE request to remove layout from campaign.');
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'DELETE',
         headers,
         body: params.toString(),
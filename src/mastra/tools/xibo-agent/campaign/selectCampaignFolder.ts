@@ -20,6 +20,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { campaignSchema } from './schemas';
 
@@ -75,7 +76,7 @@ export const selectCampaignFolder = createTool({
       // Log the request details before sending.
       logger.debug({ url, body: params.toString() }, 'Sending PUT request to select campaign folder.');
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'PUT',
         headers,
         body: params.toString(),
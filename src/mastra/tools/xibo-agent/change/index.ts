@@ -0,0 +1,20 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Xibo CMS Change History Tools
+ *
+ * This module exports the tools for listing and reverting agent-made layout and playlist edits.
+ */
+
+export { listChanges } from './listChanges';
+export { revertChange } from './revertChange';
@@ -0,0 +1,66 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module
+ * This module provides a tool to list the layout, region, widget and widget order edits
+ * that were snapshotted and can be reverted with `revertChange`.
+ */
+
+import { z } from "zod";
+import { createTool } from '@mastra/core/tools';
+import { changeFilterSchema, listChangeRecords } from "../changeHistory";
+import { logger } from '../../../logger';
+
+const changeSchema = z.object({
+  changeId: z.number().describe("ID to pass to revertChange."),
+  timestamp: z.string().describe("Time of the change (ISO 8601)."),
+  toolId: z.string().describe("Tool that made the change."),
+  entityType: z.string().describe("layout, region, widget or playlistOrder."),
+  entityId: z.number(),
+  layoutName: z.string().nullable(),
+  layoutCampaignId: z.number().nullable(),
+  input: z.any().describe("Input the tool was called with."),
+  previousState: z.any().describe("State before the change, restored by revertChange."),
+  threadId: z.string().nullable(),
+  revertedAt: z.string().nullable(),
+  revertedBy: z.string().nullable(),
+});
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.array(changeSchema).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for listing revertible changes.
+ */
+export const listChanges = createTool({
+  id: 'list-changes',
+  description: 'List recent agent edits of layouts, regions, widgets and widget order that can be undone with revertChange.',
+  inputSchema: changeFilterSchema,
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const records = await listChangeRecords(context);
+      const data = records.map(({ snapshot, cmsProfile, ...record }) => ({ ...record, previousState: snapshot.state }));
+      logger.info({ filter: context, count: data.length }, "Listed changes.");
+      return { success: true, message: `${data.length} changes found.`, data };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "listChanges: Failed to read the change history");
+      return { success: false, message: `Failed to read the change history: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
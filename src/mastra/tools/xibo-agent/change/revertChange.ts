@@ -0,0 +1,78 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module
+ * This module provides a tool to undo an agent-made layout, region, widget or widget order
+ * edit recorded in the change history. Region and widget reverts are applied to a layout
+ * draft; when the layout has been published since, it is checked out and the draft is
+ * discarded again if the revert fails.
+ */
+
+import { z } from "zod";
+import { createTool } from '@mastra/core/tools';
+import { ChangeHistoryError, revertChangeRecord } from "../changeHistory";
+import { logger } from '../../../logger';
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    changeId: z.number(),
+    entityType: z.string(),
+    entityId: z.number(),
+    layoutName: z.string().nullable(),
+  }).optional(),
+  error: z.any().optional(),
+  errorData: z.any().optional(),
+});
+
+/**
+ * Tool for reverting a recorded change.
+ */
+export const revertChange = createTool({
+  id: 'revert-change',
+  description: 'Undo a layout, region, widget or widget order edit made by the agent, restoring the state stored before the edit. Use listChanges to find the changeId.',
+  inputSchema: z.object({
+    changeId: z.number().describe('ID of the change to revert (from listChanges).'),
+    publish: z.boolean().optional().default(false).describe('Publish the layout after the revert. Otherwise the revert stays in the layout draft.'),
+    revertedBy: z.string().optional().describe('Name of the person who requested the revert.'),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const { record, message } = await revertChangeRecord(context.changeId, {
+        publish: context.publish,
+        revertedBy: context.revertedBy,
+      });
+      return {
+        success: true,
+        message,
+        data: {
+          changeId: record.changeId,
+          entityType: record.entityType,
+          entityId: record.entityId,
+          layoutName: record.layoutName,
+        },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ changeId: context.changeId, error: errorMessage }, "revertChange: Failed to revert the change");
+      return {
+        success: false,
+        message: `Failed to revert change ${context.changeId}: ${errorMessage}`,
+        error: errorMessage,
+        errorData: error instanceof ChangeHistoryError ? error.errorData : undefined,
+      };
+    }
+  },
+});
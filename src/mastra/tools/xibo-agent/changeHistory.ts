@@ -0,0 +1,608 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Change History (Undo)
+ *
+ * Before `editLayout`, `editRegion`, `editWidget` and `orderWidgets` run, the affected entity
+ * is read from the CMS and, when the edit succeeds, stored in the `xibo_change_history`
+ * table. `revertChange()` writes the stored state back.
+ *
+ * Regions and widgets can only be edited on a draft. When the draft an edit was made on has
+ * since been published, the revert checks the layout out again, locates the entity by its
+ * position (region index / widget index), applies the old state to the new draft and
+ * discards that draft if any step fails, so the published layout is never left half reverted.
+ */
+
+import { z } from 'zod';
+import { InValue } from '@libsql/client';
+import { Tool } from '@mastra/core/tools';
+import { logger } from '../../logger';
+import { getActiveCmsProfileName } from './cmsContext';
+import { ensureTables, getAgentDatabase } from './database';
+import { xiboClient, XiboResult } from './xiboClient';
+import { optionsToRecord } from './layout/layoutBundle';
+import type { XiboTool, XiboToolContext } from './xiboTool';
+
+export type ChangeEntityType = 'layout' | 'region' | 'widget' | 'playlistOrder';
+
+/**
+ * Tools whose edits are snapshotted, with the input field holding the entity ID.
+ */
+const SNAPSHOT_TOOLS: Record<string, { entityType: ChangeEntityType; idKey: string }> = {
+  'edit-layout': { entityType: 'layout', idKey: 'layoutId' },
+  'edit-region': { entityType: 'region', idKey: 'regionId' },
+  'edit-widget': { entityType: 'widget', idKey: 'widgetId' },
+  'order-widgets': { entityType: 'playlistOrder', idKey: 'playlistId' },
+};
+
+const DRAFT_EMBED = 'regions,playlists,widgets,widget_options';
+
+const optionRecordSchema = z.object({ option: z.string(), value: z.unknown() }).passthrough();
+
+const widgetRecordSchema = z.object({
+  widgetId: z.number(),
+  playlistId: z.number().optional(),
+  type: z.string(),
+  displayOrder: z.coerce.number().optional(),
+  useDuration: z.coerce.number().nullish(),
+  duration: z.coerce.number().nullish(),
+  widgetOptions: z.array(optionRecordSchema).optional(),
+}).passthrough();
+
+const playlistRecordSchema = z.object({
+  playlistId: z.number(),
+  widgets: z.array(widgetRecordSchema).nullish(),
+}).passthrough();
+
+const regionRecordSchema = z.object({
+  regionId: z.number(),
+  name: z.string().nullish(),
+  type: z.string().nullish(),
+  width: z.coerce.number(),
+  height: z.coerce.number(),
+  top: z.coerce.number(),
+  left: z.coerce.number(),
+  zIndex: z.coerce.number().nullish(),
+  regionOptions: z.array(optionRecordSchema).optional(),
+  regionPlaylist: playlistRecordSchema.nullish(),
+}).passthrough();
+
+const layoutRecordSchema = z.object({
+  layoutId: z.number(),
+  parentId: z.number().nullish(),
+  campaignId: z.number(),
+  layout: z.string(),
+  regions: z.array(regionRecordSchema).nullish(),
+}).passthrough();
+
+type WidgetRecord = z.infer<typeof widgetRecordSchema>;
+type RegionRecord = z.infer<typeof regionRecordSchema>;
+type LayoutRecord = z.infer<typeof layoutRecordSchema>;
+
+/**
+ * Where an entity sits inside a layout. `campaignId` stays the same when a draft is
+ * published, so it is used to find the layout again.
+ */
+interface LayoutLocation {
+  campaignId: number;
+  parentId: number;
+  layoutId: number;
+  name: string;
+  regionIndex?: number;
+  widgetIndex?: number;
+}
+
+/**
+ * State of an entity before a change.
+ */
+export interface ChangeSnapshot {
+  entityType: ChangeEntityType;
+  entityId: number;
+  location: LayoutLocation | null;
+  state: Record<string, any>;
+  /** Widget order right after the change; maps old widget IDs to a re-checked-out draft. */
+  afterOrder?: number[];
+}
+
+/**
+ * One stored change.
+ */
+export interface ChangeRecord {
+  changeId: number;
+  timestamp: string;
+  cmsProfile: string;
+  toolId: string;
+  entityType: ChangeEntityType;
+  entityId: number;
+  layoutName: string | null;
+  layoutCampaignId: number | null;
+  input: unknown;
+  threadId: string | null;
+  revertedAt: string | null;
+  revertedBy: string | null;
+  snapshot: ChangeSnapshot;
+}
+
+/**
+ * Filters accepted by `listChangeRecords()` and the `listChanges` tool.
+ */
+export const changeFilterSchema = z.object({
+  entityType: z.enum(['layout', 'region', 'widget', 'playlistOrder']).optional().describe('Only changes of this entity type.'),
+  entityId: z.number().optional().describe('Only changes of this entity ID.'),
+  layoutCampaignId: z.number().optional().describe('Only changes inside the layout with this campaign ID (stable across publishes).'),
+  threadId: z.string().optional().describe('Only changes made in this agent thread.'),
+  includeReverted: z.boolean().optional().default(true).describe('Include changes that were already reverted.'),
+  limit: z.number().int().min(1).max(200).optional().default(20).describe('Maximum number of changes to return.'),
+});
+
+export type ChangeFilter = z.input<typeof changeFilterSchema>;
+
+/**
+ * Error raised when a snapshot cannot be taken or a change cannot be reverted.
+ */
+export class ChangeHistoryError extends Error {
+  constructor(message: string, public readonly errorData?: unknown) {
+    super(message);
+    this.name = 'ChangeHistoryError';
+  }
+}
+
+function ensureSchema(): Promise<void> {
+  return ensureTables('changeHistory', [
+    `CREATE TABLE IF NOT EXISTS xibo_change_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp TEXT NOT NULL,
+      cms_profile TEXT NOT NULL,
+      tool_id TEXT NOT NULL,
+      entity_type TEXT NOT NULL,
+      entity_id INTEGER NOT NULL,
+      layout_name TEXT,
+      layout_campaign_id INTEGER,
+      snapshot TEXT NOT NULL,
+      input TEXT,
+      thread_id TEXT,
+      resource_id TEXT,
+      reverted_at TEXT,
+      reverted_by TEXT
+    )`,
+    'CREATE INDEX IF NOT EXISTS xibo_change_history_entity ON xibo_change_history (entity_type, entity_id)',
+  ]);
+}
+
+/**
+ * Returns the data of a successful result or throws `ChangeHistoryError` with the step name.
+ */
+function unwrap<T>(result: XiboResult<T>, step: string): T {
+  if (!result.success) {
+    throw new ChangeHistoryError(`${step} failed: ${result.message}`, result.errorData ?? result.error);
+  }
+  return result.data;
+}
+
+const toNumber = (value: unknown): number | undefined =>
+  value === null || value === undefined || value === '' ? undefined : Number(value);
+
+function sortedWidgets(playlist: z.infer<typeof playlistRecordSchema> | null | undefined): WidgetRecord[] {
+  return (playlist?.widgets ?? [])
+    .slice()
+    .sort((a, b) => Number(a.displayOrder) - Number(b.displayOrder));
+}
+
+function toLocation(layout: LayoutRecord): LayoutLocation {
+  return {
+    campaignId: layout.campaignId,
+    parentId: layout.parentId || layout.layoutId,
+    layoutId: layout.layoutId,
+    name: layout.layout,
+  };
+}
+
+/**
+ * Reads the draft layout matching `filter` (`parentId`, `regionId` or `playlistId`) with
+ * regions, playlists and widgets embedded.
+ */
+async function fetchDraft(filter: Record<string, number>): Promise<LayoutRecord | undefined> {
+  const layouts = unwrap(
+    await xiboClient.get('/layout', { ...filter, showDrafts: 1, embed: DRAFT_EMBED }, z.array(layoutRecordSchema)),
+    'Reading the draft layout'
+  );
+  return layouts.find((l) => l.parentId);
+}
+
+/**
+ * Finds the region of `draft` for which `match` returns true.
+ */
+function findRegion(draft: LayoutRecord | undefined, match: (region: RegionRecord) => boolean): { region: RegionRecord; regionIndex: number } | null {
+  const regions = draft?.regions ?? [];
+  const regionIndex = regions.findIndex(match);
+  return regionIndex >= 0 ? { region: regions[regionIndex], regionIndex } : null;
+}
+
+function regionState(region: RegionRecord): Record<string, any> {
+  const options = optionsToRecord(region.regionOptions);
+  return {
+    name: region.name ?? '',
+    type: region.type ?? undefined,
+    width: region.width,
+    height: region.height,
+    top: region.top,
+    left: region.left,
+    zIndex: region.zIndex || 0,
+    loop: Number(options.loop ?? 0),
+    transitionType: options.transitionType,
+    transitionDuration: toNumber(options.transitionDuration),
+    transitionDirection: options.transitionDirection,
+  };
+}
+
+function widgetState(widget: WidgetRecord): Record<string, any> {
+  return {
+    type: widget.type,
+    useDuration: widget.useDuration || 0,
+    duration: widget.duration || 0,
+    options: optionsToRecord(widget.widgetOptions),
+  };
+}
+
+/**
+ * Reads the current state of an entity so it can be restored later.
+ */
+export async function captureSnapshot(entityType: ChangeEntityType, entityId: number): Promise<ChangeSnapshot> {
+  if (entityType === 'layout') {
+    const layouts = unwrap(await xiboClient.get<any[]>('/layout', { layoutId: entityId, showDrafts: 1, embed: 'tags' }), 'Reading the layout');
+    const layout = Array.isArray(layouts) ? layouts[0] : undefined;
+    if (!layout) throw new ChangeHistoryError(`Layout ${entityId} was not found.`);
+    const tags = (Array.isArray(layout.tags) ? layout.tags : [])
+      .map((t: any) => (t.value ? `${t.tag}|${t.value}` : t.tag))
+      .join(',');
+    return {
+      entityType,
+      entityId,
+      location: toLocation(layout),
+      state: {
+        name: layout.layout,
+        description: layout.description ?? '',
+        code: layout.code ?? '',
+        folderId: toNumber(layout.folderId),
+        retired: Number(layout.retired) || 0,
+        enableStat: Number(layout.enableStat) || 0,
+        tags,
+      },
+    };
+  }
+
+  if (entityType === 'region') {
+    const draft = await fetchDraft({ regionId: entityId });
+    const found = findRegion(draft, (r) => r.regionId === entityId);
+    if (!draft || !found) throw new ChangeHistoryError(`Region ${entityId} was not found in any draft layout.`);
+    return { entityType, entityId, location: { ...toLocation(draft), regionIndex: found.regionIndex }, state: regionState(found.region) };
+  }
+
+  if (entityType === 'widget') {
+    const [widget] = unwrap(await xiboClient.get('/playlist/widget', { widgetId: entityId }, z.array(widgetRecordSchema)), 'Reading the widget');
+    if (!widget) throw new ChangeHistoryError(`Widget ${entityId} was not found.`);
+    const draft = widget.playlistId ? await fetchDraft({ playlistId: widget.playlistId }) : undefined;
+    const found = findRegion(draft, (r) => r.regionPlaylist?.playlistId === widget.playlistId);
+    if (!draft || !found) {
+      // Widgets of playlists that do not belong to a layout region
+      return { entityType, entityId, location: null, state: widgetState(widget) };
+    }
+    const widgets = sortedWidgets(found.region.regionPlaylist);
+    const widgetIndex = widgets.findIndex((w) => w.widgetId === entityId);
+    return {
+      entityType,
+      entityId,
+      location: { ...toLocation(draft), regionIndex: found.regionIndex, widgetIndex },
+      state: widgetState(widgets[widgetIndex] ?? widget),
+    };
+  }
+
+  const draft = await fetchDraft({ playlistId: entityId });
+  const found = findRegion(draft, (r) => r.regionPlaylist?.playlistId === entityId);
+  if (draft && found) {
+    return {
+      entityType,
+      entityId,
+      location: { ...toLocation(draft), regionIndex: found.regionIndex },
+      state: { order: sortedWidgets(found.region.regionPlaylist).map((w) => w.widgetId) },
+    };
+  }
+  const [playlist] = unwrap(
+    await xiboClient.get('/playlist', { playlistId: entityId, embed: 'widgets' }, z.array(playlistRecordSchema)),
+    'Reading the playlist'
+  );
+  if (!playlist) throw new ChangeHistoryError(`Playlist ${entityId} was not found.`);
+  return { entityType, entityId, location: null, state: { order: sortedWidgets(playlist).map((w) => w.widgetId) } };
+}
+
+/**
+ * Stores a snapshot and returns its change ID.
+ */
+async function saveChange(toolId: string, snapshot: ChangeSnapshot, input: unknown, threadId?: string, resourceId?: string): Promise<number> {
+  await ensureSchema();
+  const result = await getAgentDatabase().execute({
+    sql: `INSERT INTO xibo_change_history
+      (timestamp, cms_profile, tool_id, entity_type, entity_id, layout_name, layout_campaign_id, snapshot, input, thread_id, resource_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      new Date().toISOString(),
+      getActiveCmsProfileName(),
+      toolId,
+      snapshot.entityType,
+      snapshot.entityId,
+      snapshot.location?.name ?? null,
+      snapshot.location?.campaignId ?? null,
+      JSON.stringify(snapshot),
+      JSON.stringify(input ?? {}),
+      threadId ?? null,
+      resourceId ?? null,
+    ],
+  });
+  return Number(result.lastInsertRowid);
+}
+
+function toRecord(row: Record<string, unknown>): ChangeRecord {
+  return {
+    changeId: Number(row.id),
+    timestamp: String(row.timestamp),
+    cmsProfile: String(row.cms_profile),
+    toolId: String(row.tool_id),
+    entityType: row.entity_type as ChangeEntityType,
+    entityId: Number(row.entity_id),
+    layoutName: (row.layout_name as string | null) ?? null,
+    layoutCampaignId: row.layout_campaign_id === null ? null : Number(row.layout_campaign_id),
+    input: JSON.parse(String(row.input ?? '{}')),
+    threadId: (row.thread_id as string | null) ?? null,
+    revertedAt: (row.reverted_at as string | null) ?? null,
+    revertedBy: (row.reverted_by as string | null) ?? null,
+    snapshot: JSON.parse(String(row.snapshot)),
+  };
+}
+
+/**
+ * Lists stored changes of the active CMS profile, newest first.
+ */
+export async function listChangeRecords(filter: ChangeFilter = {}): Promise<ChangeRecord[]> {
+  await ensureSchema();
+  const where = ['cms_profile = ?'];
+  const args: InValue[] = [getActiveCmsProfileName()];
+  if (filter.entityType) {
+    where.push('entity_type = ?');
+    args.push(filter.entityType);
+  }
+  if (filter.entityId !== undefined) {
+    where.push('entity_id = ?');
+    args.push(filter.entityId);
+  }
+  if (filter.layoutCampaignId !== undefined) {
+    where.push('layout_campaign_id = ?');
+    args.push(filter.layoutCampaignId);
+  }
+  if (filter.threadId) {
+    where.push('thread_id = ?');
+    args.push(filter.threadId);
+  }
+  if (filter.includeReverted === false) {
+    where.push('reverted_at IS NULL');
+  }
+  const rows = await getAgentDatabase().execute({
+    sql: `SELECT * FROM xibo_change_history WHERE ${where.join(' AND ')} ORDER BY id DESC LIMIT ?`,
+    args: [...args, filter.limit ?? 20],
+  });
+  return rows.rows.map((row) => toRecord(row as unknown as Record<string, unknown>));
+}
+
+/**
+ * Finds the published (parent) layout of a layout-specific campaign.
+ */
+async function resolveParentLayout(campaignId: number): Promise<LayoutRecord> {
+  const layouts = unwrap(await xiboClient.get('/layout', { campaignId }, z.array(layoutRecordSchema)), 'Reading the layout');
+  const parent = layouts.find((l) => !l.parentId);
+  if (!parent) throw new ChangeHistoryError(`The layout of campaign ${campaignId} no longer exists.`);
+  return parent;
+}
+
+/**
+ * Resolves the IDs to revert in `draft`: by the original IDs when the edit was made on this
+ * draft, otherwise by position after a fresh checkout.
+ */
+function resolveTarget(snapshot: ChangeSnapshot, draft: LayoutRecord, byPosition: boolean): { region: RegionRecord; widget?: WidgetRecord } {
+  const regions = draft.regions ?? [];
+  const location = snapshot.location!;
+
+  if (!byPosition) {
+    const region = regions.find((r) =>
+      snapshot.entityType === 'region' ? r.regionId === snapshot.entityId
+        : snapshot.entityType === 'widget' ? sortedWidgets(r.regionPlaylist).some((w) => w.widgetId === snapshot.entityId)
+        : r.regionPlaylist?.playlistId === snapshot.entityId
+    );
+    if (!region) {
+      throw new ChangeHistoryError(
+        `Layout "${location.name}" has an unpublished draft that no longer contains the changed ${snapshot.entityType}. Publish or discard the draft first.`
+      );
+    }
+    const widget = snapshot.entityType === 'widget'
+      ? sortedWidgets(region.regionPlaylist).find((w) => w.widgetId === snapshot.entityId)
+      : undefined;
+    return { region, widget };
+  }
+
+  const region = regions[location.regionIndex ?? -1];
+  if (!region) throw new ChangeHistoryError(`Region #${location.regionIndex} no longer exists in layout "${location.name}".`);
+  if (snapshot.entityType !== 'widget') return { region };
+  const widget = sortedWidgets(region.regionPlaylist)[location.widgetIndex ?? -1];
+  if (!widget || widget.type !== snapshot.state.type) {
+    throw new ChangeHistoryError(`The ${snapshot.state.type} widget at position ${location.widgetIndex} no longer exists in layout "${location.name}".`);
+  }
+  return { region, widget };
+}
+
+/**
+ * Sends the requests that restore the snapshot state.
+ */
+async function applySnapshot(snapshot: ChangeSnapshot, target: { region?: RegionRecord; widget?: WidgetRecord }, byPosition: boolean): Promise<void> {
+  const { state } = snapshot;
+
+  if (snapshot.entityType === 'region') {
+    const regionId = target.region?.regionId ?? snapshot.entityId;
+    unwrap(await xiboClient.request(`/region/${regionId}`, { method: 'PUT', form: state }), 'Restoring the region');
+    return;
+  }
+
+  if (snapshot.entityType === 'widget') {
+    const widgetId = target.widget?.widgetId ?? snapshot.entityId;
+    unwrap(
+      await xiboClient.request(`/playlist/widget/${widgetId}`, {
+        method: 'PUT',
+        form: { ...state.options, useDuration: state.useDuration, duration: state.duration },
+      }),
+      'Restoring the widget'
+    );
+    return;
+  }
+
+  // playlistOrder
+  const playlistId = target.region?.regionPlaylist?.playlistId ?? snapshot.entityId;
+  let order: number[] = state.order;
+  if (byPosition) {
+    const current = sortedWidgets(target.region?.regionPlaylist).map((w) => w.widgetId);
+    const after = snapshot.afterOrder ?? [];
+    if (after.length !== current.length) {
+      throw new ChangeHistoryError('The playlist has a different number of widgets than after the change; the order cannot be mapped.');
+    }
+    const idMap = new Map(after.map((oldId, i) => [oldId, current[i]]));
+    order = order.map((oldId) => {
+      const newId = idMap.get(oldId);
+      if (newId === undefined) throw new ChangeHistoryError(`Widget ${oldId} cannot be found in the current playlist.`);
+      return newId;
+    });
+  }
+  const form = new URLSearchParams();
+  order.forEach((widgetId, i) => form.append(`widgets[${widgetId}]`, String(i + 1)));
+  unwrap(await xiboClient.request(`/playlist/order/${playlistId}`, { method: 'POST', form }), 'Restoring the widget order');
+}
+
+/**
+ * Restores the state stored for `changeId`.
+ *
+ * @param options.publish - Publish the layout draft after a successful revert
+ * @param options.revertedBy - Name recorded as the person who requested the revert
+ * @throws {ChangeHistoryError} If the change is unknown, already reverted or cannot be applied
+ */
+export async function revertChangeRecord(changeId: number, options: { publish?: boolean; revertedBy?: string } = {}): Promise<{ record: ChangeRecord; message: string }> {
+  await ensureSchema();
+  const rows = await getAgentDatabase().execute({ sql: 'SELECT * FROM xibo_change_history WHERE id = ?', args: [changeId] });
+  if (!rows.rows[0]) throw new ChangeHistoryError(`Change ${changeId} was not found.`);
+  const record = toRecord(rows.rows[0] as unknown as Record<string, unknown>);
+  if (record.revertedAt) throw new ChangeHistoryError(`Change ${changeId} was already reverted at ${record.revertedAt}.`);
+  if (record.cmsProfile !== getActiveCmsProfileName()) {
+    throw new ChangeHistoryError(`Change ${changeId} was made on CMS profile "${record.cmsProfile}". Select that profile to revert it.`);
+  }
+
+  const { snapshot } = record;
+  let message: string;
+
+  if (snapshot.entityType === 'layout') {
+    const parent = await resolveParentLayout(snapshot.location!.campaignId);
+    unwrap(await xiboClient.request(`/layout/${parent.layoutId}`, { method: 'PUT', form: snapshot.state }), 'Restoring the layout');
+    message = `Restored the properties of layout "${snapshot.state.name}".`;
+  } else if (!snapshot.location) {
+    await applySnapshot(snapshot, {}, false);
+    message = `Restored ${snapshot.entityType} ${snapshot.entityId}.`;
+  } else {
+    const parent = await resolveParentLayout(snapshot.location.campaignId);
+    const parentId = parent.layoutId;
+    let draft = await fetchDraft({ parentId });
+    const checkedOut = !draft;
+
+    if (!draft) {
+      unwrap(await xiboClient.request(`/layout/checkout/${parentId}`, { method: 'PUT' }), 'Checking out the layout');
+      draft = await fetchDraft({ parentId });
+      if (!draft) throw new ChangeHistoryError(`The draft of layout "${parent.layout}" could not be found after checkout.`);
+    }
+
+    try {
+      const target = resolveTarget(snapshot, draft, checkedOut);
+      await applySnapshot(snapshot, target, checkedOut);
+    } catch (error) {
+      if (checkedOut) {
+        const discard = await xiboClient.request(`/layout/discard/${parentId}`, { method: 'PUT' });
+        logger.warn({ changeId, parentId, discarded: discard.success }, 'Revert failed; discarded the draft it checked out');
+      }
+      throw error;
+    }
+
+    message = `Restored ${snapshot.entityType} in the draft of layout "${parent.layout}".`;
+    if (options.publish) {
+      unwrap(await xiboClient.request(`/layout/publish/${parentId}`, { method: 'PUT', form: { publishNow: 1 } }), 'Publishing the layout');
+      message += ' The layout was published.';
+    } else {
+      message += ' Publish the layout to make the revert visible on displays.';
+    }
+  }
+
+  await getAgentDatabase().execute({
+    sql: 'UPDATE xibo_change_history SET reverted_at = ?, reverted_by = ? WHERE id = ?',
+    args: [new Date().toISOString(), options.revertedBy ?? null, changeId],
+  });
+  logger.info({ changeId, entityType: snapshot.entityType, entityId: snapshot.entityId, revertedBy: options.revertedBy }, 'Change reverted');
+  return { record, message };
+}
+
+/**
+ * Wraps a tool so the entity it edits is snapshotted before the edit and stored when the
+ * edit succeeds. Tools without undo support are returned unchanged.
+ */
+export function withChangeSnapshot(tool: XiboTool): XiboTool {
+  const spec = SNAPSHOT_TOOLS[tool.id];
+  if (!spec) {
+    return tool;
+  }
+
+  return new Tool({
+    ...tool,
+    execute: async (args: XiboToolContext, invocation) => {
+      const input: Record<string, unknown> = args.context ?? {};
+      const entityId = Number(input[spec.idKey]);
+      let snapshot: ChangeSnapshot | null = null;
+      try {
+        snapshot = await captureSnapshot(spec.entityType, entityId);
+      } catch (error) {
+        logger.warn(
+          { tool: tool.id, entityId, error: error instanceof Error ? error.message : error },
+          'Could not snapshot the entity before the change; it cannot be reverted'
+        );
+      }
+
+      const result = await tool.execute!(args, invocation);
+      // Some tools (e.g. edit-layout) return the updated entity without a success flag
+      if (!snapshot || result?.success === false) {
+        return result;
+      }
+
+      try {
+        if (spec.entityType === 'playlistOrder' && snapshot.location) {
+          snapshot.afterOrder = (await captureSnapshot('playlistOrder', entityId)).state.order;
+        }
+        const changeId = await saveChange(tool.id, snapshot, input, args.threadId, args.resourceId);
+        logger.info({ tool: tool.id, entityId, changeId }, 'Stored change snapshot');
+      } catch (error) {
+        logger.error(
+          { tool: tool.id, entityId, error: error instanceof Error ? error.message : error },
+          'Failed to store the change snapshot'
+        );
+      }
+      return result;
+    },
+  });
+}
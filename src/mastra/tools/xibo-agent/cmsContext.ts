@@ -0,0 +1,75 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Active CMS Profile Context
+ *
+ * Holds the CMS profile that the current async call chain works against, using
+ * AsyncLocalStorage so concurrent agent threads can target different CMS instances.
+ * `config`, `xiboClient` and the logger read the active profile from here.
+ *
+ * This module has no project imports so that `config.ts` and `logger.ts` can depend on it
+ * without creating import cycles; the profile registry lives in `cmsProfiles.ts`.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Connection settings of one CMS instance.
+ */
+export interface CmsProfile {
+  name: string;
+  cmsUrl: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+const storage = new AsyncLocalStorage<CmsProfile>();
+
+/**
+ * Profile used when no explicit profile was selected. Replaced by the registry in
+ * `cmsProfiles.ts`; falls back to the legacy single-CMS environment variables.
+ */
+let defaultProfileResolver: () => CmsProfile = () => ({
+  name: 'default',
+  cmsUrl: process.env.CMS_URL || '',
+  clientId: process.env.XIBO_CLIENT_ID || '',
+  clientSecret: process.env.XIBO_CLIENT_SECRET || '',
+});
+
+/**
+ * Registers the function that supplies the default profile.
+ */
+export function setDefaultCmsProfileResolver(resolver: () => CmsProfile): void {
+  defaultProfileResolver = resolver;
+}
+
+/**
+ * Returns the profile of the current call chain, or the default profile.
+ */
+export function getActiveCmsProfile(): CmsProfile {
+  return storage.getStore() ?? defaultProfileResolver();
+}
+
+/**
+ * Returns only the name of the active profile (safe to log).
+ */
+export function getActiveCmsProfileName(): string {
+  return storage.getStore()?.name ?? defaultProfileResolver().name;
+}
+
+/**
+ * Runs `fn` with `profile` as the active profile for every call it makes.
+ */
+export function runWithCmsProfile<T>(profile: CmsProfile, fn: () => T): T {
+  return storage.run(profile, fn);
+}
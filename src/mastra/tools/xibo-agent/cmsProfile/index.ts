@@ -0,0 +1,20 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Xibo CMS Profile Tools
+ *
+ * This module exports the tools for inspecting and testing the named CMS connections.
+ */
+
+export { listCmsProfiles } from './listCmsProfiles';
+export { testCmsConnection } from './testCmsConnection';
@@ -0,0 +1,57 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module
+ * This module provides a tool to list the configured CMS profiles (named CMS connections).
+ * Credentials are never returned; only whether they are set.
+ */
+
+import { z } from "zod";
+import { createTool } from '@mastra/core/tools';
+import { getActiveCmsProfile, listCmsProfileSummaries } from "../cmsProfiles";
+import { logger } from '../../../logger';
+
+const profileSummarySchema = z.object({
+  name: z.string().describe("Profile name to pass as `cmsProfile`."),
+  cmsUrl: z.string().describe("CMS base URL of the profile."),
+  source: z.string().describe("Where the profile was defined ('file' or 'env')."),
+  isDefault: z.boolean().describe("True for the profile used when none is selected."),
+  isActive: z.boolean().describe("True for the profile this call ran with."),
+  hasCredentials: z.boolean().describe("True when a client ID and secret are configured."),
+});
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.array(profileSummarySchema).optional().describe("The configured profiles on success."),
+});
+
+/**
+ * Tool for listing the configured CMS profiles.
+ */
+export const listCmsProfiles = createTool({
+  id: 'list-cms-profiles',
+  description: 'List the configured CMS profiles (named CMS connections) and which one is active.',
+  inputSchema: z.object({}), // This tool does not require any input.
+  outputSchema,
+  execute: async () => {
+    const active = getActiveCmsProfile().name;
+    const data = listCmsProfileSummaries().map((profile) => ({ ...profile, isActive: profile.name === active }));
+    logger.info({ count: data.length }, "Listed CMS profiles.");
+    return {
+      success: true,
+      message: data.length > 0 ? `${data.length} CMS profiles configured.` : "No CMS profiles are configured.",
+      data,
+    };
+  },
+});
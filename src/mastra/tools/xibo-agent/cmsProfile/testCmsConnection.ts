@@ -0,0 +1,99 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module
+ * This module provides a tool to check that a CMS profile can authenticate and reach
+ * the CMS API. It requests a fresh access token and calls GET /about.
+ */
+
+import { z } from "zod";
+import { createTool } from '@mastra/core/tools';
+import { CmsProfile, getActiveCmsProfile, getCmsProfile, listCmsProfileSummaries, runWithCmsProfile } from "../cmsProfiles";
+import { getXiboClient } from "../xiboClient";
+import { processError } from "../utility/error";
+import { logger } from '../../../logger';
+
+const connectionResultSchema = z.object({
+  profile: z.string().describe("Name of the tested profile."),
+  cmsUrl: z.string().describe("CMS base URL of the profile."),
+  ok: z.boolean().describe("True when authentication and the API call succeeded."),
+  version: z.string().optional().describe("CMS version reported by /about."),
+  latencyMs: z.number().describe("Time taken by the test in milliseconds."),
+  message: z.string().describe("Outcome of the test."),
+});
+
+const outputSchema = z.object({
+  success: z.boolean().describe("True when every tested profile is reachable."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.array(connectionResultSchema).describe("One result per tested profile."),
+});
+
+/**
+ * Tests one profile with its own isolated client.
+ */
+async function testProfile(profile: CmsProfile): Promise<z.infer<typeof connectionResultSchema>> {
+  return runWithCmsProfile(profile, async () => {
+    const started = Date.now();
+    const base = { profile: profile.name, cmsUrl: profile.cmsUrl };
+    if (!profile.cmsUrl || !profile.clientId || !profile.clientSecret) {
+      return { ...base, ok: false, latencyMs: 0, message: "CMS URL or credentials are not configured." };
+    }
+    try {
+      const client = getXiboClient(profile);
+      await client.getAccessToken(true);
+      const about = await client.get<{ version?: string }>('/about');
+      const latencyMs = Date.now() - started;
+      if (!about.success) {
+        return { ...base, ok: false, latencyMs, message: `Authenticated, but GET /about failed: ${about.message}` };
+      }
+      return { ...base, ok: true, version: about.data?.version, latencyMs, message: "Connection successful." };
+    } catch (error) {
+      const latencyMs = Date.now() - started;
+      return { ...base, ok: false, latencyMs, message: processError(error).message };
+    }
+  });
+}
+
+/**
+ * Tool for testing CMS profile connections.
+ */
+export const testCmsConnection = createTool({
+  id: 'test-cms-connection',
+  description: 'Test that a CMS profile (the selected or default one, or all profiles) can authenticate and reach the CMS API.',
+  inputSchema: z.object({
+    all: z.boolean().optional().describe("Test every configured profile instead of only the selected one."),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    const profiles = context.all
+      ? listCmsProfileSummaries().map((summary) => getCmsProfile(summary.name))
+      : [getActiveCmsProfile()];
+
+    const data: Array<z.infer<typeof connectionResultSchema>> = [];
+    for (const profile of profiles) {
+      data.push(await testProfile(profile));
+    }
+    const failed = data.filter((result) => !result.ok);
+    logger.info({ tested: data.length, failed: failed.length }, "Tested CMS connections.");
+
+    return {
+      success: failed.length === 0 && data.length > 0,
+      message: data.length === 0
+        ? "No CMS profiles are configured."
+        : failed.length === 0
+          ? `All ${data.length} tested CMS connections succeeded.`
+          : `${failed.length} of ${data.length} CMS connections failed: ${failed.map((f) => f.profile).join(', ')}.`,
+      data,
+    };
+  },
+});
@@ -0,0 +1,216 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * CMS Profile Registry
+ *
+ * Loads the named CMS connections the tools can work against. Profiles come from
+ * (later sources override earlier ones with the same name):
+ *
+ * 1. The legacy variables `CMS_URL` / `XIBO_CLIENT_ID` / `XIBO_CLIENT_SECRET` as profile "default".
+ * 2. `cms-profiles.json` in the project root (or `XIBO_CMS_PROFILES_FILE`):
+ *    `{ "defaultProfile": "staging", "profiles": { "staging": { "cmsUrl", "clientId", "clientSecret" } } }`
+ * 3. Prefixed variables `XIBO_PROFILE_<NAME>_CMS_URL`, `_CLIENT_ID`, `_CLIENT_SECRET`.
+ *
+ * The default profile is `XIBO_DEFAULT_CMS_PROFILE`, else the file's `defaultProfile`,
+ * else "default". `withCmsProfile()` lets a tool accept a `cmsProfile` input (or read it
+ * from the runtimeContext) and runs it with that profile active.
+ */
+
+import { z } from 'zod';
+import fs from 'fs';
+import { Tool } from '@mastra/core/tools';
+import { config } from './config';
+import { logger } from '../../logger';
+import { CmsProfile, getActiveCmsProfile, runWithCmsProfile, setDefaultCmsProfileResolver } from './cmsContext';
+import type { XiboTool, XiboToolContext } from './xiboTool';
+
+export type { CmsProfile } from './cmsContext';
+export { getActiveCmsProfile, runWithCmsProfile } from './cmsContext';
+
+/**
+ * RuntimeContext key an agent thread can set to choose its CMS profile.
+ */
+export const CMS_PROFILE_CONTEXT_KEY = 'cmsProfile';
+
+const ENV_PROFILE_PATTERN = /^XIBO_PROFILE_(.+)_(CMS_URL|CLIENT_ID|CLIENT_SECRET)$/;
+
+const profileFileSchema = z.object({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(z.object({
+    cmsUrl: z.string(),
+    clientId: z.string(),
+    clientSecret: z.string(),
+  })),
+});
+
+/**
+ * Error raised when a profile name is unknown or its settings are incomplete.
+ */
+export class CmsProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CmsProfileError';
+  }
+}
+
+interface ProfileRegistry {
+  defaultProfile: string;
+  profiles: Map<string, CmsProfile & { source: string }>;
+}
+
+let registry: ProfileRegistry | null = null;
+
+/**
+ * Builds the registry from environment variables and the profiles file.
+ * Problems are returned rather than logged, because logging resolves the active profile.
+ */
+function loadRegistry(): { loaded: ProfileRegistry; problems: Array<{ details: object; message: string }> } {
+  const profiles: ProfileRegistry['profiles'] = new Map();
+  const problems: Array<{ details: object; message: string }> = [];
+  let fileDefault: string | undefined;
+
+  if (process.env.CMS_URL) {
+    profiles.set('default', {
+      name: 'default',
+      cmsUrl: process.env.CMS_URL,
+      clientId: process.env.XIBO_CLIENT_ID || '',
+      clientSecret: process.env.XIBO_CLIENT_SECRET || '',
+      source: 'env',
+    });
+  }
+
+  if (fs.existsSync(config.cmsProfilesFile)) {
+    try {
+      const parsed = profileFileSchema.safeParse(JSON.parse(fs.readFileSync(config.cmsProfilesFile, 'utf-8')));
+      if (parsed.success) {
+        fileDefault = parsed.data.defaultProfile;
+        for (const [name, settings] of Object.entries(parsed.data.profiles)) {
+          profiles.set(name, { name, ...settings, source: 'file' });
+        }
+      } else {
+        problems.push({ details: { file: config.cmsProfilesFile, error: parsed.error.flatten() }, message: 'Invalid CMS profiles file; ignoring it' });
+      }
+    } catch (error) {
+      problems.push({ details: { file: config.cmsProfilesFile, error: error instanceof Error ? error.message : error }, message: 'Failed to read CMS profiles file' });
+    }
+  }
+
+  const envProfiles = new Map<string, Partial<CmsProfile>>();
+  for (const [key, value] of Object.entries(process.env)) {
+    const match = key.match(ENV_PROFILE_PATTERN);
+    if (!match || !value) continue;
+    const name = match[1].toLowerCase();
+    const entry = envProfiles.get(name) ?? {};
+    if (match[2] === 'CMS_URL') entry.cmsUrl = value;
+    if (match[2] === 'CLIENT_ID') entry.clientId = value;
+    if (match[2] === 'CLIENT_SECRET') entry.clientSecret = value;
+    envProfiles.set(name, entry);
+  }
+  for (const [name, entry] of envProfiles) {
+    profiles.set(name, {
+      name,
+      cmsUrl: entry.cmsUrl || '',
+      clientId: entry.clientId || '',
+      clientSecret: entry.clientSecret || '',
+      source: 'env',
+    });
+  }
+
+  const defaultProfile = process.env.XIBO_DEFAULT_CMS_PROFILE || fileDefault || 'default';
+  return { loaded: { defaultProfile, profiles }, problems };
+}
+
+function getRegistry(): ProfileRegistry {
+  if (!registry) {
+    const { loaded, problems } = loadRegistry();
+    registry = loaded;
+    problems.forEach((p) => logger.error(p.details, p.message));
+    logger.info({ profiles: [...loaded.profiles.keys()], defaultProfile: loaded.defaultProfile }, 'CMS profiles loaded');
+  }
+  return registry;
+}
+
+/**
+ * Drops the loaded profiles so the next lookup re-reads the file and environment.
+ */
+export function reloadCmsProfiles(): void {
+  registry = null;
+}
+
+/**
+ * Returns the named profile, or the default profile when `name` is empty.
+ *
+ * @throws {CmsProfileError} If the profile does not exist.
+ */
+export function getCmsProfile(name?: string | null): CmsProfile {
+  const { defaultProfile, profiles } = getRegistry();
+  const profileName = name?.trim() || defaultProfile;
+  const profile = profiles.get(profileName) ?? profiles.get(profileName.toLowerCase());
+  if (profile) {
+    const { source, ...settings } = profile;
+    return settings;
+  }
+  if (!name?.trim()) {
+    // No profiles configured at all: keep the legacy behaviour of an unconfigured CMS URL.
+    return { name: profileName, cmsUrl: '', clientId: '', clientSecret: '' };
+  }
+  throw new CmsProfileError(`Unknown CMS profile "${profileName}". Available profiles: ${[...profiles.keys()].join(', ') || '(none)'}.`);
+}
+
+/**
+ * Lists the configured profiles without their credentials.
+ */
+export function listCmsProfileSummaries(): Array<{ name: string; cmsUrl: string; source: string; isDefault: boolean; hasCredentials: boolean }> {
+  const { defaultProfile, profiles } = getRegistry();
+  return [...profiles.values()].map((p) => ({
+    name: p.name,
+    cmsUrl: p.cmsUrl,
+    source: p.source,
+    isDefault: p.name === defaultProfile,
+    hasCredentials: Boolean(p.clientId && p.clientSecret),
+  }));
+}
+
+setDefaultCmsProfileResolver(() => getCmsProfile());
+
+/**
+ * Wraps a tool so it accepts an optional `cmsProfile` input and executes with that
+ * profile active. Without the input, the `cmsProfile` RuntimeContext value of the
+ * agent thread is used, then the profile already active, then the default profile.
+ */
+export function withCmsProfile(tool: XiboTool): XiboTool {
+  const inputSchema = tool.inputSchema instanceof z.ZodObject
+    ? tool.inputSchema.extend({
+        cmsProfile: z.string().optional().describe('Name of the CMS profile (connection) to use. Defaults to the thread or default profile.'),
+      })
+    : tool.inputSchema;
+
+  return new Tool({
+    ...tool,
+    inputSchema,
+    execute: async (args: XiboToolContext, invocation) => {
+      const { cmsProfile, ...context } = args.context ?? {};
+      const fromThread = args.runtimeContext?.get(CMS_PROFILE_CONTEXT_KEY);
+      const selected: string | undefined = cmsProfile || (typeof fromThread === 'string' ? fromThread : undefined);
+      let profile: CmsProfile;
+      try {
+        profile = selected ? getCmsProfile(selected) : getActiveCmsProfile();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn({ tool: tool.id, cmsProfile: selected }, message);
+        return { success: false, message };
+      }
+      return runWithCmsProfile(profile, () => tool.execute!({ ...args, context }, invocation));
+    },
+  });
+}
@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger'; 
 import { processError } from '../utility/error';
@@ -99,7 +100,7 @@ export const addCommand = createTool({
 
       logger.debug({ url: url.toString(), body: body.toString() }, 'Attempting to add a new command');
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'POST',
         headers,
         body,
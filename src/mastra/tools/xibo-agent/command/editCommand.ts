@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -94,7 +95,7 @@ export const editCommand = createTool({
 
       logger.debug({ url: url.toString(), body: body.toString() }, `Attempting to edit command ${commandId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'PUT',
         headers,
         body,
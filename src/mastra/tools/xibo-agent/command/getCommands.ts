@@ -17,10 +17,16 @@
  */
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
-import { getAuthHeaders } from '../auth';
 import { config } from '../config';
 import { logger } from '../../../logger'; 
 import { processError } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 import { commandSchema } from './schemas';
 
 /**
@@ -28,7 +34,9 @@ import { commandSchema } from './schemas';
  */
 const getCommandsSuccessSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(commandSchema),
+  pagination: paginationSummarySchema,
 });
 
 /**
@@ -62,6 +70,7 @@ export const getCommands = createTool({
       .describe('Filter by a specific command ID.'),
     command: z.string().optional().describe('Filter by the command name.'),
     code: z.string().optional().describe('Filter by the command code.'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -85,70 +94,51 @@ export const getCommands = createTool({
         url.searchParams.append('code', context.code);
       }
 
+      const { pagination } = splitPaginationOptions(context);
+
       logger.debug(
-        { url: url.toString() },
+        { url: url.toString(), pagination },
         'Attempting to get a list of commands'
       );
 
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: await getAuthHeaders(),
-      });
-
-      const responseData = await response.json();
+      // The pager accepts both a direct array and an object with a data property.
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const message = `Failed to get commands. API responded with status ${response.status}.`;
+      if (!result.success) {
+        const message = `Failed to get commands. API responded with status ${result.status}.`;
         logger.error(
-          { status: response.status, response: responseData },
+          { status: result.status, response: result.errorData },
           message
         );
-        return { success: false as const, message, errorData: responseData };
+        return { success: false as const, message, errorData: result.errorData };
       }
 
-      // The API can return a direct array or an object with a data property.
-      // We'll try to parse the direct array first.
-      const arrayValidation = z.array(commandSchema).safeParse(responseData);
-      if (arrayValidation.success) {
-        logger.info(
-          { count: arrayValidation.data.length },
-          `Successfully retrieved ${arrayValidation.data.length} commands.`
-        );
-        return { success: true as const, data: arrayValidation.data };
-      }
+      const responseData = result.items;
+      const validationResult = z.array(commandSchema).safeParse(responseData);
 
-      // If array parsing fails, it might be a wrapped object.
-      // Let's create a temporary schema for that case and parse.
-      const objectValidation = z
-        .object({ data: z.array(commandSchema) })
-        .safeParse(responseData);
-      if (objectValidation.success) {
-        logger.info(
-          { count: objectValidation.data.data.length },
-          `Successfully retrieved ${objectValidation.data.data.length} commands.`
+      if (!validationResult.success) {
+        const message = 'Get commands response validation failed.';
+        logger.error(
+          { error: validationResult.error.flatten(), data: responseData },
+          message
         );
-        return { success: true as const, data: objectValidation.data.data };
+        return {
+          success: false as const,
+          message,
+          error: validationResult.error.flatten(),
+          errorData: responseData,
+        };
       }
 
-      // If both validations fail, return a validation error.
-      const message =
-        'Get commands response validation failed for both array and object formats.';
-      logger.error(
-        {
-          arrayError: arrayValidation.error.flatten(),
-          objectError: objectValidation.error.flatten(),
-          data: responseData,
-        },
-        message
+      logger.info(
+        { count: validationResult.data.length },
+        `Successfully retrieved ${validationResult.data.length} commands.`
       );
       return {
-        success: false as const,
-        message,
-        error: {
-          arrayError: arrayValidation.error.flatten(),
-          objectError: objectValidation.error.flatten(),
-        },
-        errorData: responseData,
+        success: true as const,
+        message: describePagination(result.pagination, 'commands'),
+        data: validationResult.data,
+        pagination: result.pagination,
       };
     } catch (error) {
       const message = 'An unexpected error occurred while getting commands.';
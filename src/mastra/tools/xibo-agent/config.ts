@@ -3,6 +3,7 @@ import fs from 'fs';
 import { findUpSync } from 'find-up';
 import { z } from "zod";
 import { EXT_API_BASE } from "../../config/constants";
+import { getActiveCmsProfile } from "./cmsContext";
 
 /**
  * Finds the project root by searching upwards for a package.json file.
@@ -18,12 +19,19 @@ const findProjectRoot = (): string => {
 };
 
 //const projectRoot = findProjectRoot();
-const projectRoot = "/Users/miuramasataka/OpenSignage/xibo-agent";
+const projectRoot = process.env.XIBO_PROJECT_ROOT || "/Users/miuramasataka/OpenSignage/xibo-agent";
 
 export const config = {
-  cmsUrl: process.env.CMS_URL || "",
-  clientId: process.env.XIBO_CLIENT_ID || "",
-  clientSecret: process.env.XIBO_CLIENT_SECRET || "",
+  // CMS connection settings follow the active CMS profile (see cmsProfiles.ts).
+  get cmsUrl(): string {
+    return getActiveCmsProfile().cmsUrl;
+  },
+  get clientId(): string {
+    return getActiveCmsProfile().clientId;
+  },
+  get clientSecret(): string {
+    return getActiveCmsProfile().clientSecret;
+  },
   geminiApiKey: process.env.GEMINI_API_KEY || "",
   googleCloudProjectId: process.env.GOOGLE_CLOUD_PROJECT_ID || "",
   apiUrl: EXT_API_BASE,
@@ -38,6 +46,17 @@ export const config = {
   publicDir: path.join(projectRoot, 'public'),
   reportsDir: path.join(projectRoot, 'persistent_data', 'generated', 'reports'),
   presentationsDir: path.join(projectRoot, 'persistent_data', 'generated', 'presentations'),
+  layoutBundlesDir: path.join(projectRoot, 'persistent_data', 'layout-bundles'),
+  cmsProfilesFile: process.env.XIBO_CMS_PROFILES_FILE || path.join(projectRoot, 'cms-profiles.json'),
+  safeModeFile: process.env.XIBO_SAFE_MODE_FILE || path.join(projectRoot, 'safe-mode.json'),
+  fleetHealthFile: process.env.XIBO_FLEET_HEALTH_FILE || path.join(projectRoot, 'fleet-health.json'),
+  statsWarehouseFile: process.env.XIBO_STATS_WAREHOUSE_FILE || path.join(projectRoot, 'stats-warehouse.json'),
+  weatherRulesFile: process.env.XIBO_WEATHER_RULES_FILE || path.join(projectRoot, 'weather-rules.json'),
+  newsTickerFile: process.env.XIBO_NEWS_TICKER_FILE || path.join(projectRoot, 'news-ticker.json'),
+  menuDaypartsFile: process.env.XIBO_MENU_DAYPARTS_FILE || path.join(projectRoot, 'menu-dayparts.json'),
+  mediaTagVocabularyFile: process.env.XIBO_MEDIA_TAG_VOCABULARY_FILE || path.join(projectRoot, 'media-tag-vocabulary.json'),
+  // Audit log is stored in the Mastra LibSQL database by default.
+  auditDbUrl: process.env.XIBO_AUDIT_DB_URL || 'file:../mastra.db',
   tempDir: path.join(projectRoot, 'public', 'temp'),
 } as const;
 
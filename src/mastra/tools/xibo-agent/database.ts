@@ -0,0 +1,56 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Agent Database
+ *
+ * Shared LibSQL client for the tables the Xibo tools keep next to Mastra's own storage
+ * (audit log, change history, fleet health, statistics warehouse, weather rules, news ticker,
+ * menu day parts).
+ * Each module creates its tables with `ensureTables()`.
+ */
+
+import { createClient, Client } from '@libsql/client';
+import { config } from './config';
+
+let client: Client | null = null;
+const tablesReady = new Map<string, Promise<void>>();
+
+/**
+ * Returns the LibSQL client, creating it on first use.
+ */
+export function getAgentDatabase(): Client {
+  if (!client) {
+    client = createClient({ url: config.auditDbUrl });
+  }
+  return client;
+}
+
+/**
+ * Runs the DDL statements registered under `name` once per process.
+ * A failed run is retried on the next call.
+ */
+export function ensureTables(name: string, statements: string[]): Promise<void> {
+  const existing = tablesReady.get(name);
+  if (existing) {
+    return existing;
+  }
+  const ready = getAgentDatabase()
+    .batch(statements, 'write')
+    .then(() => undefined)
+    .catch((error) => {
+      tablesReady.delete(name);
+      throw error;
+    });
+  tablesReady.set(name, ready);
+  return ready;
+}
@@ -19,6 +19,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { dataSetSchema } from "./schemas";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
@@ -99,7 +100,7 @@ export const addDataSet = createTool({
       
       logger.info({ url: url.toString(), params: params.toString() }, `Attempting to add dataset: ${context.dataSet}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "POST",
         headers: {
           ...await getAuthHeaders(),
@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { dataSetColumnSchema } from "./schemas";
 import { logger } from "../../../logger"; 
 import { decodeErrorMessage, processError } from "../utility/error";
@@ -83,7 +84,7 @@ export const addDataSetColumn = createTool({
 
       logger.info({ url: url.toString(), params: params.toString() }, `Attempting to add column to dataset ID: ${dataSetId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "POST",
         headers: {
           ...await getAuthHeaders(),
@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { dataSetRssSchema } from "./schemas";
 import { logger } from "../../../logger";  
 import { decodeErrorMessage, processError } from "../utility/error";
@@ -74,7 +75,7 @@ export const addDataSetRss = createTool({
       
       logger.info({ url: url.toString(), params: params.toString() }, `Attempting to add RSS feed to dataset ID: ${dataSetId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "POST",
         headers: {
           ...await getAuthHeaders(),
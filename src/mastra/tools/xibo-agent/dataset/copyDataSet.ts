@@ -19,6 +19,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { dataSetSchema } from "./schemas";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
@@ -76,7 +77,7 @@ export const copyDataSet = createTool({
         }
       });
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "POST",
         headers: {
           ...await getAuthHeaders(),
@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
 
@@ -61,7 +62,7 @@ export const deleteDataSet = createTool({
     try {
       logger.info({ url: url.toString() }, `Attempting to delete dataset ID: ${context.dataSetId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "DELETE",
         headers: await getAuthHeaders(),
       });
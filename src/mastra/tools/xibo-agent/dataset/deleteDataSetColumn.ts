@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
 
@@ -64,7 +65,7 @@ export const deleteDataSetColumn = createTool({
     try {
       logger.info({ url: url.toString() }, `Attempting to delete column ${dataSetColumnId} from dataset ID: ${dataSetId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "DELETE",
         headers: await getAuthHeaders(),
       });
@@ -19,6 +19,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { dataSetSchema } from "./schemas";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
@@ -101,7 +102,7 @@ export const editDataSet = createTool({
 
       logger.info({ url: url.toString(), params: params.toString() }, `Attempting to edit dataset ID: ${dataSetId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "PUT",
         headers: {
           ...await getAuthHeaders(),
@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { dataSetColumnSchema } from "./schemas";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
@@ -84,7 +85,7 @@ export const editDataSetColumn = createTool({
         }
       });
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "PUT",
         headers: {
           ...await getAuthHeaders(),
@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
 import { dataSetConnectorSchema } from "./schemas";
@@ -68,7 +69,7 @@ export const editDataSetConnector = createTool({
       
       logger.info({ url: url.toString() }, `Editing data connector for dataset ID: ${dataSetId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "PUT",
         headers: {
           ...await getAuthHeaders(),
@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { dataSetDataSchema } from "./schemas";
 import { logger } from "../../../logger";  
 import { decodeErrorMessage, processError } from "../utility/error";
@@ -75,7 +76,7 @@ export const editDataSetData = createTool({
       
       logger.info({ url: url.toString(), params: params.toString() }, `Attempting to edit data row ${rowId} in dataset ID: ${dataSetId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "PUT",
         headers: {
           ...await getAuthHeaders(),
@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { dataSetRssSchema } from "./schemas";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
@@ -78,7 +79,7 @@ export const editDataSetRss = createTool({
       
       logger.info({ url: url.toString(), params: params.toString() }, `Attempting to edit RSS feed ${rssId} for dataset ID: ${dataSetId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "PUT",
         headers: {
           ...await getAuthHeaders(),
@@ -18,6 +18,7 @@ import { z } from 'zod';
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
 
@@ -62,7 +63,7 @@ export const exportDataSetData = createTool({
     try {
       logger.info({ url: url.toString() }, `Attempting to export data from dataset ID: ${context.dataSetId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "GET",
         headers: await getAuthHeaders(),
       });
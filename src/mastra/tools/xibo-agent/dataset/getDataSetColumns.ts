@@ -18,15 +18,23 @@
 import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
 import { dataSetColumnSchema } from "./schemas";
 import { logger } from "../../../logger";
-import { decodeErrorMessage, processError } from "../utility/error";
+import { processError } from "../utility/error";
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from "../utility/pagination";
 
 // Schema for a successful response, containing an array of dataset columns.
 const successResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(dataSetColumnSchema),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for a generic error response.
@@ -51,6 +59,7 @@ export const getDataSetColumns = createTool({
   inputSchema: z.object({
     dataSetId: z.number().describe("The ID of the dataset to retrieve columns for. Required."),
     dataSetColumnId: z.number().optional().describe("Filter the results by a specific column ID."),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -67,24 +76,21 @@ export const getDataSetColumns = createTool({
       params.append('dataSetColumnId', String(dataSetColumnId));
     }
     url.search = params.toString();
+    const { pagination } = splitPaginationOptions(context);
 
     try {
-      logger.info({ url: url.toString() }, `Requesting columns for dataset ID: ${dataSetId}`);
-
-      const response = await fetch(url.toString(), {
-        method: "GET",
-        headers: await getAuthHeaders(),
-      });
+      logger.info({ url: url.toString(), pagination }, `Requesting columns for dataset ID: ${dataSetId}`);
 
-      const responseData = await response.json();
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseData);
-        const message = `Failed to retrieve dataset columns. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: decodedError }, message);
-        return { success: false as const, message, errorData: decodedError };
+      if (!result.success) {
+        const message = `Failed to retrieve dataset columns. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
+        return { success: false as const, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
+
       const validationResult = z.array(dataSetColumnSchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -101,7 +107,9 @@ export const getDataSetColumns = createTool({
       logger.info({ count: validationResult.data.length }, `Successfully retrieved ${validationResult.data.length} columns for dataset ID: ${dataSetId}.`);
       return {
         success: true as const,
+        message: describePagination(result.pagination, "columns"),
         data: validationResult.data,
+        pagination: result.pagination,
       };
     } catch (error) {
       const message = "An unexpected error occurred while retrieving dataset columns.";
@@ -17,15 +17,23 @@
 import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
 import { dataSetDataSchema } from "./schemas";
 import { logger } from "../../../logger";
-import { decodeErrorMessage, processError } from "../utility/error";
+import { processError } from "../utility/error";
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from "../utility/pagination";
 
 // Schema for a successful response, containing an array of dataset data rows.
 const successResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(dataSetDataSchema),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for a generic error response.
@@ -46,9 +54,10 @@ const outputSchema = z.union([successResponseSchema, errorResponseSchema]);
  */
 export const getDataSetData = createTool({
   id: "get-data-set-data",
-  description: "Retrieves all data rows for a specific dataset.",
+  description: "Retrieves data rows for a specific dataset. Set all=true to retrieve every row across pages.",
   inputSchema: z.object({
     dataSetId: z.number().describe("The ID of the dataset to retrieve data from."),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -59,24 +68,21 @@ export const getDataSetData = createTool({
     }
 
     const url = new URL(`${config.cmsUrl}/api/dataset/data/${context.dataSetId}`);
+    const { pagination } = splitPaginationOptions(context);
     
     try {
-      logger.info({ url: url.toString() }, `Requesting data for dataset ID: ${context.dataSetId}`);
-
-      const response = await fetch(url.toString(), {
-        method: "GET",
-        headers: await getAuthHeaders(),
-      });
+      logger.info({ url: url.toString(), pagination }, `Requesting data for dataset ID: ${context.dataSetId}`);
 
-      const responseData = await response.json();
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseData);
-        const message = `Failed to retrieve dataset data. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: decodedError }, message);
-        return { success: false as const, message, errorData: decodedError };
+      if (!result.success) {
+        const message = `Failed to retrieve dataset data. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
+        return { success: false as const, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
+
       const validationResult = z.array(dataSetDataSchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -93,7 +99,9 @@ export const getDataSetData = createTool({
       logger.info({ count: validationResult.data.length }, `Successfully retrieved ${validationResult.data.length} data rows for dataset ID: ${context.dataSetId}.`);
       return {
         success: true as const,
+        message: describePagination(result.pagination, "data rows"),
         data: validationResult.data,
+        pagination: result.pagination,
       };
     } catch (error) {
       const message = "An unexpected error occurred while retrieving dataset data.";
@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { dataSetRssSchema } from "./schemas";
 import { logger } from "../../../logger"; 
 import { decodeErrorMessage, processError } from "../utility/error";
@@ -63,7 +64,7 @@ export const getDataSetRss = createTool({
     try {
       logger.info({ url: url.toString() }, `Requesting RSS feeds for dataset ID: ${context.dataSetId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "GET",
         headers: await getAuthHeaders(),
       });
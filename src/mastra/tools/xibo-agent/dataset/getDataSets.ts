@@ -18,16 +18,24 @@
 import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
 import { dataSetSchema, dataSetColumnSchema } from "./schemas";
 import { logger } from "../../../logger";
-import { decodeErrorMessage, processError } from "../utility/error";
+import { processError } from "../utility/error";
 import { createTreeViewResponse, TreeNode, treeResponseSchema } from "../utility/treeView";
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from "../utility/pagination";
 
 // Schema for a successful response, containing an array of datasets.
 const successResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(dataSetSchema),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for a generic error response.
@@ -41,7 +49,11 @@ const errorResponseSchema = z.object({
 /**
  * Schema for the tool's output, covering success, error, and tree view responses.
  */
-const outputSchema = z.union([successResponseSchema, errorResponseSchema, treeResponseSchema]);
+const outputSchema = z.union([
+  successResponseSchema,
+  errorResponseSchema,
+  treeResponseSchema.extend({ pagination: paginationSummarySchema.optional() }),
+]);
 
 /**
  * Tool for retrieving a list of datasets from the Xibo CMS.
@@ -59,6 +71,7 @@ export const getDataSets = createTool({
     embed: z.string().optional().describe("Embed related data, such as 'columns'."),
     folderId: z.number().optional().describe("Filter by the ID of the folder containing the datasets."),
     treeView: z.boolean().optional().describe("If true, returns a tree view of datasets and their columns."),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -69,7 +82,8 @@ export const getDataSets = createTool({
     }
     
     const { treeView, ...restOfContext } = context;
-    const requestContext = { ...restOfContext };
+    const { pagination, filters } = splitPaginationOptions(restOfContext);
+    const requestContext = { ...filters };
 
     if (treeView) {
       requestContext.embed = 'columns';
@@ -86,22 +100,18 @@ export const getDataSets = createTool({
     url.search = params.toString();
     
     try {
-      logger.info({ url: url.toString() }, "Requesting datasets from Xibo CMS.");
+      logger.info({ url: url.toString(), pagination }, "Requesting datasets from Xibo CMS.");
       
-      const response = await fetch(url.toString(), {
-        method: "GET",
-        headers: await getAuthHeaders(),
-      });
+      const result = await fetchPaginated(url, pagination);
 
-      const responseData = await response.json();
-
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseData);
-        const message = `Failed to retrieve datasets. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: decodedError }, message);
-        return { success: false as const, message, errorData: decodedError };
+      if (!result.success) {
+        const message = `Failed to retrieve datasets. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
+        return { success: false as const, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
+
       const dataSetWithColumnsSchema = dataSetSchema.extend({
         columns: z.array(dataSetColumnSchema).optional(),
       });
@@ -154,12 +164,14 @@ export const getDataSets = createTool({
           return `${node.type}: ${node.name} (${label}: ${node.id})${status}`;
         };
 
-        return createTreeViewResponse(datasets, tree, nodeFormatter);
+        return { ...createTreeViewResponse(datasets, tree, nodeFormatter), pagination: result.pagination };
       }
 
       return {
         success: true as const,
+        message: describePagination(result.pagination, "datasets"),
         data: datasets,
+        pagination: result.pagination,
       };
     } catch (error) {
       const message = "An unexpected error occurred while retrieving datasets.";
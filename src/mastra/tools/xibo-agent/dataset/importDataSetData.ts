@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
 
@@ -73,7 +74,7 @@ export const importDataSetData = createTool({
         formData.append("overwrite", "1");
       }
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "POST",
         headers: await getAuthHeaders(), // Content-Type is set automatically by fetch for FormData
         body: formData,
@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';  
 import { processError } from '../utility/error';
@@ -84,7 +85,7 @@ export const addDayPart = createTool({
         'Attempting to add a new DayPart'
       );
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'POST',
         headers,
         body,
@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -75,7 +76,7 @@ export const deleteDayPart = createTool({
         `Attempting to delete DayPart ${dayPartId}`
       );
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'DELETE',
         headers: await getAuthHeaders(),
       });
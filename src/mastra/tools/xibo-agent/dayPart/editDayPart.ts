@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger'; 
 import { processError } from '../utility/error';
@@ -87,7 +88,7 @@ export const editDayPart = createTool({
         `Attempting to edit DayPart ${dayPartId}`
       );
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'PUT',
         headers,
         body,
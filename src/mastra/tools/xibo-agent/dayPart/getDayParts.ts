@@ -17,10 +17,16 @@
  */
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
-import { getAuthHeaders } from '../auth';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 import { dayPartSchema } from './schemas';
 
 /**
@@ -28,7 +34,9 @@ import { dayPartSchema } from './schemas';
  */
 const getDayPartsSuccessSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(dayPartSchema),
+  pagination: paginationSummarySchema,
 });
 
 /**
@@ -59,6 +67,7 @@ export const getDayParts = createTool({
     dayPartId: z.number().optional().describe('Filter by a specific DayPart ID.'),
     name: z.string().optional().describe('Filter by DayPart name.'),
     embed: z.string().optional().describe("Embed related data. Use 'exceptions' to include scheduling exceptions."),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -80,27 +89,26 @@ export const getDayParts = createTool({
         url.searchParams.append('embed', context.embed);
       }
 
+      const { pagination } = splitPaginationOptions(context);
+
       logger.debug(
-        { url: url.toString() },
+        { url: url.toString(), pagination },
         'Attempting to get a list of DayParts'
       );
 
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: await getAuthHeaders(),
-      });
-
-      const responseData = await response.json();
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const message = `Failed to get DayParts. API responded with status ${response.status}.`;
+      if (!result.success) {
+        const message = `Failed to get DayParts. API responded with status ${result.status}.`;
         logger.error(
-          { status: response.status, response: responseData },
+          { status: result.status, response: result.errorData },
           message
         );
-        return { success: false as const, message, errorData: responseData };
+        return { success: false as const, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
+
       const validationResult = z.array(dayPartSchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -121,7 +129,12 @@ export const getDayParts = createTool({
         { count: validationResult.data.length },
         `Successfully retrieved ${validationResult.data.length} DayParts.`
       );
-      return { success: true as const, data: validationResult.data };
+      return {
+        success: true as const,
+        message: describePagination(result.pagination, 'DayParts'),
+        data: validationResult.data,
+        pagination: result.pagination,
+      };
     } catch (error) {
       const message =
         'An unexpected error occurred while getting DayParts.';
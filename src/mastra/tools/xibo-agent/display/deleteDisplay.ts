@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -77,7 +78,7 @@ export const deleteDisplay = createTool({
         `Attempting to delete display ${context.displayId}`
       );
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'DELETE',
         headers: authHeaders,
       });
@@ -17,10 +17,16 @@
  */
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
-import { getAuthHeaders } from '../auth';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 import { displaySchema } from './schemas';
 
 /**
@@ -41,7 +47,9 @@ const errorResponseSchema = z.object({
  */
 const getDisplaysSuccessSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(displaySchema),
+  pagination: paginationSummarySchema,
 });
 
 /**
@@ -54,7 +62,7 @@ const outputSchema = z.union([getDisplaysSuccessSchema, errorResponseSchema]);
  */
 export const getDisplays = createTool({
   id: 'get-displays',
-  description: 'Retrieves a list of displays with optional filtering.',
+  description: 'Retrieves a list of displays with optional filtering. Set all=true to retrieve every display across pages.',
   inputSchema: z.object({
     displayId: z.number().optional().describe('Filter by Display Id'),
     displayGroupId: z.number().optional().describe('Filter by DisplayGroup Id'),
@@ -76,6 +84,7 @@ export const getDisplays = createTool({
     folderId: z.number().optional().describe('Filter by Folder ID'),
     xmrRegistered: z.number().optional().describe('Filter by whether XMR is registed (1 or 0)'),
     isPlayerSupported: z.number().optional().describe('Filter by whether the player is supported (1 or 0)'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -89,40 +98,31 @@ export const getDisplays = createTool({
 
     try {
       const url = new URL(`${config.cmsUrl}/api/display`);
+      const { pagination, filters } = splitPaginationOptions(context);
 
-      // Dynamically build the URL query string from the provided context,
+      // Dynamically build the URL query string from the provided filters,
       // excluding any undefined, null, or empty string values.
-      Object.entries(context).forEach(([key, value]) => {
+      Object.entries(filters).forEach(([key, value]) => {
         if (value !== undefined && value !== null && value !== '') {
           url.searchParams.append(key, value.toString());
         }
       });
 
-      const authHeaders = await getAuthHeaders();
-      logger.debug({ url: url.toString() }, 'Fetching displays from CMS');
+      logger.debug({ url: url.toString(), pagination }, 'Fetching displays from CMS');
 
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: authHeaders,
-      });
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const message = `Failed to get displays. Status: ${response.status}`;
-        let errorData: any = await response.text();
-        try {
-          errorData = JSON.parse(errorData);
-        } catch (e) {
-          // Not a JSON response
-        }
-        logger.error({ status: response.status, data: errorData }, message);
+      if (!result.success) {
+        const message = `Failed to get displays. Status: ${result.status}`;
+        logger.error({ status: result.status, data: result.errorData }, message);
         return {
           success: false as const,
           message,
-          errorData,
+          errorData: result.errorData,
         };
       }
 
-      const responseData = await response.json();
+      const responseData = result.items;
       const validationResult = z.array(displaySchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -140,11 +140,16 @@ export const getDisplays = createTool({
       }
 
       logger.info(
-        { count: validationResult.data.length },
+        { count: validationResult.data.length, total: result.pagination.total },
         'Successfully retrieved and validated displays.'
       );
 
-      return { success: true as const, data: validationResult.data };
+      return {
+        success: true as const,
+        message: describePagination(result.pagination, 'displays'),
+        data: validationResult.data,
+        pagination: result.pagination,
+      };
     } catch (error) {
       const processedError = processError(error);
       const message = 'An unexpected error occurred while getting displays.';
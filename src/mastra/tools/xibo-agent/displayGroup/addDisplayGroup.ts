@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger'; 
 import { processError } from '../utility/error';
@@ -106,7 +107,7 @@ export const addDisplayGroup = createTool({
       const headers = { ...authHeaders, 'Content-Type': 'application/x-www-form-urlencoded' };
       
       logger.debug({ url: url.toString(), body: body.toString() }, 'Adding new display group.');
-      const response = await fetch(url.toString(), { method: 'POST', headers, body });
+      const response = await xiboClient.fetch(url.toString(), { method: 'POST', headers, body });
 
       if (!response.ok) {
         const message = `Failed to add display group. Status: ${response.status}`;
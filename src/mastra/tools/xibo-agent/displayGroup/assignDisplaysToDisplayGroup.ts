@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -92,7 +93,7 @@ export const assignDisplaysToDisplayGroup = createTool({
       
       logger.debug({ url: url.toString(), body: body.toString() }, 'Assigning displays to group.');
 
-      const response = await fetch(url.toString(), { method: 'POST', headers, body });
+      const response = await xiboClient.fetch(url.toString(), { method: 'POST', headers, body });
 
       if (!response.ok) {
         const message = `Failed to assign displays to group ${context.displayGroupId}. Status: ${response.status}`;
@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger'; 
 import { processError } from '../utility/error';
@@ -55,7 +56,7 @@ export const collectNowForDisplayGroup = createTool({
     try {
       const url = new URL(`${config.cmsUrl}/api/displaygroup/${context.displayGroupId}/action/collectnow`);
       const authHeaders = await getAuthHeaders();
-      const response = await fetch(url.toString(), { method: 'POST', headers: authHeaders });
+      const response = await xiboClient.fetch(url.toString(), { method: 'POST', headers: authHeaders });
 
       if (response.status !== 204) {
         const message = `Failed to trigger Collect Now for group ${context.displayGroupId}. Status: ${response.status}`;
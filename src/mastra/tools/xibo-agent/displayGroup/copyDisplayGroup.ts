@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -67,7 +68,7 @@ export const copyDisplayGroup = createTool({
       
       const authHeaders = await getAuthHeaders();
       const headers = { ...authHeaders, 'Content-Type': 'application/x-www-form-urlencoded' };
-      const response = await fetch(url.toString(), { method: 'POST', headers, body });
+      const response = await xiboClient.fetch(url.toString(), { method: 'POST', headers, body });
 
       if (!response.ok) {
         const message = `Failed to copy display group ${displayGroupId}. Status: ${response.status}`;
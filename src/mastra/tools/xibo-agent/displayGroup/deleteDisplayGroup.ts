@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -55,7 +56,7 @@ export const deleteDisplayGroup = createTool({
     try {
       const url = new URL(`${config.cmsUrl}/api/displaygroup/${context.displayGroupId}`);
       const authHeaders = await getAuthHeaders();
-      const response = await fetch(url.toString(), { method: 'DELETE', headers: authHeaders });
+      const response = await xiboClient.fetch(url.toString(), { method: 'DELETE', headers: authHeaders });
 
       if (response.status !== 204) {
         const message = `Failed to delete display group ${context.displayGroupId}. Status: ${response.status}`;
@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -104,7 +105,7 @@ export const editDisplayGroup = createTool({
       const headers = { ...authHeaders, 'Content-Type': 'application/x-www-form-urlencoded' };
       
       logger.debug({ url: url.toString(), body: body.toString() }, `Editing display group ${displayGroupId}.`);
-      const response = await fetch(url.toString(), { method: 'PUT', headers, body });
+      const response = await xiboClient.fetch(url.toString(), { method: 'PUT', headers, body });
 
       if (!response.ok) {
         const message = `Failed to edit display group ${displayGroupId}. Status: ${response.status}`;
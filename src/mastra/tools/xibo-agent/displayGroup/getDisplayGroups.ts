@@ -17,10 +17,16 @@
  */
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
-import { getAuthHeaders } from '../auth';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 import { displayGroupSchema } from './schemas';
 
 /**
@@ -41,7 +47,9 @@ const errorResponseSchema = z.object({
  */
 const successResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(displayGroupSchema),
+  pagination: paginationSummarySchema,
 });
 
 /**
@@ -54,7 +62,7 @@ const outputSchema = z.union([successResponseSchema, errorResponseSchema]);
  */
 export const getDisplayGroups = createTool({
   id: 'get-display-groups',
-  description: 'Retrieves a list of Display Groups.',
+  description: 'Retrieves a list of Display Groups. Set all=true to retrieve every group across pages.',
   inputSchema: z.object({
     displayGroupId: z.number().optional().describe('Filter by a specific Display Group ID.'),
     displayGroup: z.string().optional().describe('Filter by Display Group name (with % wildcard support).'),
@@ -67,6 +75,7 @@ export const getDisplayGroups = createTool({
     isDisplaySpecific: z.number().min(0).max(1).optional().describe('Filter by whether the Display Group belongs to a Display or is user created.'),
     forSchedule: z.number().min(0).max(1).optional().describe('Should the list be refined for only those groups the User can Schedule against?'),
     folderId: z.number().optional().describe('Filter by Folder ID.'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -80,35 +89,26 @@ export const getDisplayGroups = createTool({
 
     try {
       const url = new URL(`${config.cmsUrl}/api/displaygroup`);
+      const { pagination, filters } = splitPaginationOptions(context);
 
-      // Dynamically build the URL query string from the provided context.
-      Object.entries(context).forEach(([key, value]) => {
+      // Dynamically build the URL query string from the provided filters.
+      Object.entries(filters).forEach(([key, value]) => {
         if (value) {
           url.searchParams.append(key, value.toString());
         }
       });
 
-      const authHeaders = await getAuthHeaders();
-      logger.debug({ url: url.toString() }, 'Fetching display groups from CMS.');
+      logger.debug({ url: url.toString(), pagination }, 'Fetching display groups from CMS.');
 
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: authHeaders,
-      });
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const message = `Failed to get display groups. Status: ${response.status}`;
-        let errorData: any = await response.text();
-        try {
-          errorData = JSON.parse(errorData);
-        } catch (e) {
-          // Not a JSON response
-        }
-        logger.error({ status: response.status, data: errorData }, message);
-        return { success: false as const, message, errorData };
+      if (!result.success) {
+        const message = `Failed to get display groups. Status: ${result.status}`;
+        logger.error({ status: result.status, data: result.errorData }, message);
+        return { success: false as const, message, errorData: result.errorData };
       }
 
-      const responseData = await response.json();
+      const responseData = result.items;
       const validationResult = z.array(displayGroupSchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -126,10 +126,15 @@ export const getDisplayGroups = createTool({
       }
 
       logger.info(
-        { count: validationResult.data.length },
+        { count: validationResult.data.length, total: result.pagination.total },
         'Successfully retrieved and validated display groups.'
       );
-      return { success: true as const, data: validationResult.data };
+      return {
+        success: true as const,
+        message: describePagination(result.pagination, 'display groups'),
+        data: validationResult.data,
+        pagination: result.pagination,
+      };
     } catch (error) {
       const processedError = processError(error);
       const message = 'An unexpected error occurred while getting display groups.';
@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -60,7 +61,7 @@ export const selectFolderForDisplayGroup = createTool({
 
       const authHeaders = await getAuthHeaders();
       const headers = { ...authHeaders, 'Content-Type': 'application/x-www-form-urlencoded' };
-      const response = await fetch(url.toString(), { method: 'POST', headers, body });
+      const response = await xiboClient.fetch(url.toString(), { method: 'POST', headers, body });
 
       if (!response.ok) {
         const message = `Failed to move display group ${context.displayGroupId} to folder ${context.folderId}. Status: ${response.status}`;
@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';  
 import { processError } from '../utility/error';
@@ -65,7 +66,7 @@ export const sendCommandToDisplayGroup = createTool({
 
       const authHeaders = await getAuthHeaders();
       const headers = { ...authHeaders, 'Content-Type': 'application/x-www-form-urlencoded' };
-      const response = await fetch(url.toString(), { method: 'POST', headers, body });
+      const response = await xiboClient.fetch(url.toString(), { method: 'POST', headers, body });
 
       if (response.status !== 204) {
         const message = `Failed to send command to group ${context.displayGroupId}. Status: ${response.status}`;
@@ -13,11 +13,12 @@
 /**
  * @module triggerWebhookForDisplayGroup
  * @description Provides a tool to trigger a webhook for a display group.
- * It implements the POST /displaygroup/{id}/action/webhook endpoint.
+ * It implements the POST /displaygroup/{id}/action/triggerWebhook endpoint.
  */
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -41,6 +42,7 @@ export const triggerWebhookForDisplayGroup = createTool({
   description: 'Trigger a webhook for a specific display group.',
   inputSchema: z.object({
     displayGroupId: z.number().describe('The ID of the display group to trigger the webhook for.'),
+    triggerCode: z.string().describe('The trigger code that should be sent to the players.'),
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -53,9 +55,13 @@ export const triggerWebhookForDisplayGroup = createTool({
     }
 
     try {
-      const url = new URL(`${config.cmsUrl}/api/displaygroup/${context.displayGroupId}/action/webhook`);
+      const url = new URL(`${config.cmsUrl}/api/displaygroup/${context.displayGroupId}/action/triggerWebhook`);
       const authHeaders = await getAuthHeaders();
-      const response = await fetch(url.toString(), { method: 'POST', headers: authHeaders });
+      const response = await xiboClient.fetch(url.toString(), {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ triggerCode: context.triggerCode }),
+      });
 
       if (response.status !== 204) {
         const message = `Failed to trigger webhook for group ${context.displayGroupId}. Status: ${response.status}`;
@@ -19,6 +19,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
 
@@ -81,7 +82,7 @@ export const getDisplayVenues = createTool({
     try {
       logger.info({ url: url.toString() }, "Requesting all display venues from Xibo CMS.");
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "GET",
         headers: await getAuthHeaders(),
       });
@@ -19,6 +19,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage } from "../utility/error";
 
@@ -63,7 +64,7 @@ export const deleteDisplayProfile = createTool({
     logger.info({ displayProfileId: context.displayProfileId }, 'Attempting to delete display profile.');
 
     try {
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "DELETE",
         headers: await getAuthHeaders(),
       });
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger"; 
 import { decodeErrorMessage } from "../utility/error";
 import { displayProfileSchema } from './schemas';
@@ -73,7 +74,7 @@ export const editDisplayProfile = createTool({
       formData.append("type", context.type);
       formData.append("isDefault", context.isDefault.toString());
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "PUT",
         headers: {
           ...await getAuthHeaders(),
@@ -18,9 +18,14 @@
 import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
 import { logger } from "../../../logger";
-import { decodeErrorMessage } from "../utility/error";
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from "../utility/pagination";
 import { displayProfileSchema } from './schemas';
 
 /**
@@ -33,6 +38,7 @@ const outputSchema = z.union([
     success: z.literal(true),
     data: z.array(displayProfileSchema),
     message: z.string(),
+    pagination: paginationSummarySchema,
   }),
   z.object({
     success: z.literal(false),
@@ -55,6 +61,7 @@ export const getDisplayProfiles = createTool({
     displayProfile: z.string().optional().describe("Filter by DisplayProfile Name"),
     type: z.string().optional().describe("Filter by DisplayProfile Type (windows|android|lg)"),
     embed: z.string().default("config,commands,configWithDefault").optional().describe("Embed related data such as config,commands,configWithDefault"),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -71,24 +78,21 @@ export const getDisplayProfiles = createTool({
     if (context.type) params.append("type", context.type);
     if (context.embed) params.append("embed", context.embed);
     url.search = params.toString();
+    const { pagination } = splitPaginationOptions(context);
 
-    logger.info({ url: url.toString() }, 'Requesting display profiles.');
+    logger.info({ url: url.toString(), pagination }, 'Requesting display profiles.');
 
     try {
-      const response = await fetch(url.toString(), {
-        method: "GET",
-        headers: await getAuthHeaders(),
-      });
+      const result = await fetchPaginated(url, pagination);
 
-      const responseData = await response.json();
-
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseData);
-        const message = `Failed to retrieve display profiles. API responded with status ${response.status}.`;
-        logger.error({ response: decodedError }, message);
-        return { success: false as const, message, errorData: decodedError };
+      if (!result.success) {
+        const message = `Failed to retrieve display profiles. API responded with status ${result.status}.`;
+        logger.error({ response: result.errorData }, message);
+        return { success: false as const, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
+
       const validationResult = z.array(displayProfileSchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -102,12 +106,12 @@ export const getDisplayProfiles = createTool({
         };
       }
       
-      const message = `Successfully retrieved ${validationResult.data.length} display profiles.`;
-      logger.info({ count: validationResult.data.length }, message);
+      logger.info({ count: validationResult.data.length }, `Successfully retrieved ${validationResult.data.length} display profiles.`);
       return {
         success: true as const,
         data: validationResult.data,
-        message,
+        message: describePagination(result.pagination, "display profiles"),
+        pagination: result.pagination,
       };
     } catch (error) {
       const message = "An unexpected error occurred while retrieving display profiles.";
@@ -19,6 +19,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage } from "../utility/error";
 import * as fs from 'fs';
@@ -143,7 +144,7 @@ export const uploadGoogleFonts = createTool({
         formData.append("name", fontNameForXibo);
 
         const uploadUrl = `${config.cmsUrl}/api/fonts`;
-        const uploadResponse = await fetch(uploadUrl, {
+        const uploadResponse = await xiboClient.fetch(uploadUrl, {
             method: "POST",
             headers: await getAuthHeaders(),
             body: formData,
@@ -0,0 +1,111 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module
+ * This module provides a tool that summarizes the current problems of the display fleet
+ * (offline, media inventory, licence, storage) as tracked by the fleet health monitor.
+ */
+
+import { z } from "zod";
+import { createTool } from '@mastra/core/tools';
+import {
+  FLEET_PROBLEMS,
+  getFleetHealthState,
+  listFleetHealthEvents,
+  runFleetHealthCheck,
+} from "../fleetMonitor";
+import { getActiveCmsProfileName } from "../cmsContext";
+import { logger } from '../../../logger';
+
+const problemSchema = z.object({
+  displayId: z.number(),
+  display: z.string(),
+  problem: z.enum(FLEET_PROBLEMS),
+  detail: z.string(),
+  since: z.string().describe("When the problem was first detected (ISO 8601)."),
+  lastSeen: z.string().describe("Last check that still saw the problem (ISO 8601)."),
+});
+
+const eventSchema = z.object({
+  timestamp: z.string(),
+  displayId: z.number(),
+  display: z.string(),
+  problem: z.enum(FLEET_PROBLEMS),
+  transition: z.enum(['raised', 'resolved']),
+  detail: z.string(),
+  since: z.string(),
+});
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    cmsProfile: z.string(),
+    lastCheck: z.object({
+      timestamp: z.string(),
+      displays: z.number(),
+      online: z.number(),
+      error: z.string().nullable(),
+    }).nullable().describe("Most recent poll of the displays."),
+    counts: z.record(z.number()).describe("Number of open problems per type."),
+    problems: z.array(problemSchema),
+    recentEvents: z.array(eventSchema).describe("Latest raised/resolved transitions, newest first."),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for summarizing fleet health.
+ */
+export const getFleetHealth = createTool({
+  id: 'get-fleet-health',
+  description: 'Summarize current display fleet problems (offline, media inventory out of date, licence issues, storage full) and recent alerts.',
+  inputSchema: z.object({
+    refresh: z.boolean().optional().default(false).describe("Poll the displays now instead of using the last background check."),
+    problem: z.enum(FLEET_PROBLEMS).optional().describe("Only return problems of this type."),
+    displayId: z.number().optional().describe("Only return problems and events of this display."),
+    eventLimit: z.number().int().min(0).max(200).optional().default(20).describe("Number of recent transitions to include."),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    const cmsProfile = getActiveCmsProfileName();
+    try {
+      let state = await getFleetHealthState(cmsProfile);
+      if (context.refresh || !state.lastCheck) {
+        await runFleetHealthCheck();
+        state = await getFleetHealthState(cmsProfile);
+      }
+
+      const problems = state.problems
+        .filter((p) => (!context.problem || p.problem === context.problem) && (context.displayId === undefined || p.displayId === context.displayId))
+        .map(({ cmsProfile: _profile, ...problem }) => problem);
+      const counts = Object.fromEntries(FLEET_PROBLEMS.map((type) => [type, state.problems.filter((p) => p.problem === type).length]));
+      const recentEvents = (await listFleetHealthEvents(cmsProfile, { displayId: context.displayId, limit: context.eventLimit ?? 20 }))
+        .map(({ cmsProfile: _profile, ...event }) => event);
+
+      logger.info({ counts, lastCheck: state.lastCheck?.timestamp }, "Retrieved fleet health.");
+      const total = state.problems.length;
+      return {
+        success: true,
+        message: total
+          ? `${total} open problems on ${new Set(state.problems.map((p) => p.displayId)).size} displays.`
+          : 'No open fleet problems.',
+        data: { cmsProfile, lastCheck: state.lastCheck, counts, problems, recentEvents },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "getFleetHealth: Failed to read fleet health");
+      return { success: false, message: `Failed to read fleet health: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
@@ -0,0 +1,577 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Fleet Health Monitor
+ *
+ * Polls the displays of each monitored CMS profile and tracks problems per display:
+ * `offline`, `mediaInventory` (content not up to date), `licence` and `storage` (disk
+ * nearly full). Open problems are kept in `xibo_fleet_health_state`; every transition
+ * (raised / resolved) is appended to `xibo_fleet_health_events` and sent to the alert
+ * channels: a CMS notification, the configured webhooks and any channel registered with
+ * `registerFleetAlertChannel()`. The first check of a profile records the problems it finds
+ * as a baseline (`xibo_fleet_health_baselines`) without alerting.
+ *
+ * The monitor is configured in `fleet-health.json` in the project root (or
+ * `XIBO_FLEET_HEALTH_FILE`):
+ *
+ * ```json
+ * {
+ *   "enabled": true,
+ *   "intervalSeconds": 300,
+ *   "profiles": ["default", "staging"],
+ *   "storageFullPercent": 90,
+ *   "cmsNotification": { "enabled": true, "userGroupIds": [1] },
+ *   "webhooks": [{ "url": "https://hooks.example.com/xibo", "headers": { "Authorization": "Bearer ..." } }]
+ * }
+ * ```
+ *
+ * Without the file the monitor runs only when `XIBO_FLEET_MONITOR=on`, with the defaults
+ * above, on every configured CMS profile.
+ */
+
+import { z } from 'zod';
+import fs from 'fs';
+import { InValue } from '@libsql/client';
+import { config } from './config';
+import { logger } from '../../logger';
+import { ensureTables, getAgentDatabase } from './database';
+import { fetchPaginated } from './utility/pagination';
+import { xiboClient } from './xiboClient';
+import { getActiveCmsProfileName, runWithCmsProfile } from './cmsContext';
+import { getCmsProfile, listCmsProfileSummaries } from './cmsProfiles';
+import { runWithAuditContext } from './auditLog';
+
+export const FLEET_PROBLEMS = ['offline', 'mediaInventory', 'licence', 'storage'] as const;
+
+export type FleetProblem = typeof FLEET_PROBLEMS[number];
+
+/**
+ * An open problem of one display.
+ */
+export interface FleetProblemState {
+  cmsProfile: string;
+  displayId: number;
+  display: string;
+  problem: FleetProblem;
+  detail: string;
+  since: string;
+  lastSeen: string;
+}
+
+/**
+ * A problem being raised or resolved; stored in the history and sent to alert channels.
+ */
+export interface FleetAlert {
+  timestamp: string;
+  cmsProfile: string;
+  displayId: number;
+  display: string;
+  problem: FleetProblem;
+  transition: 'raised' | 'resolved';
+  detail: string;
+  /** When the problem was first seen; for resolved alerts, how long it lasted starts here. */
+  since: string;
+}
+
+/**
+ * Receives fleet alerts. Errors are logged and do not stop other channels.
+ */
+export type FleetAlertChannel = (alert: FleetAlert) => Promise<void>;
+
+/**
+ * Result of one poll of a CMS profile.
+ */
+export interface FleetCheckResult {
+  cmsProfile: string;
+  timestamp: string;
+  displays: number;
+  online: number;
+  problems: number;
+  alerts: FleetAlert[];
+}
+
+const DEFAULT_INTERVAL_SECONDS = 300;
+const DEFAULT_STORAGE_FULL_PERCENT = 90;
+const WEBHOOK_TIMEOUT_MS = 10000;
+const MONITOR_SOURCE = 'fleet-health-monitor';
+
+const webhookSchema = z.object({
+  url: z.string().url(),
+  headers: z.record(z.string()).optional(),
+  transitions: z.array(z.enum(['raised', 'resolved'])).optional(),
+  problems: z.array(z.enum(FLEET_PROBLEMS)).optional(),
+});
+
+const settingsFileSchema = z.object({
+  enabled: z.boolean().optional(),
+  intervalSeconds: z.number().int().min(30).optional(),
+  profiles: z.array(z.string()).optional(),
+  storageFullPercent: z.number().min(1).max(100).optional(),
+  cmsNotification: z.object({
+    enabled: z.boolean().optional(),
+    displayGroupIds: z.array(z.number()).optional(),
+    userGroupIds: z.array(z.number()).optional(),
+  }).optional(),
+  webhooks: z.array(webhookSchema).optional(),
+});
+
+type FleetHealthSettings = z.infer<typeof settingsFileSchema>;
+
+let settings: FleetHealthSettings | null = null;
+
+function getSettings(): FleetHealthSettings {
+  if (settings) return settings;
+  settings = {};
+  if (fs.existsSync(config.fleetHealthFile)) {
+    try {
+      const parsed = settingsFileSchema.safeParse(JSON.parse(fs.readFileSync(config.fleetHealthFile, 'utf-8')));
+      if (parsed.success) {
+        settings = parsed.data;
+      } else {
+        logger.error({ file: config.fleetHealthFile, error: parsed.error.flatten() }, 'Invalid fleet health settings file; using defaults');
+      }
+    } catch (error) {
+      logger.error({ file: config.fleetHealthFile, error: error instanceof Error ? error.message : error }, 'Failed to read fleet health settings file');
+    }
+  }
+  return settings;
+}
+
+/**
+ * Drops the loaded settings so the next check re-reads the file.
+ */
+export function reloadFleetHealthSettings(): void {
+  settings = null;
+}
+
+function ensureSchema(): Promise<void> {
+  return ensureTables('fleet-health', [
+    `CREATE TABLE IF NOT EXISTS xibo_fleet_health_state (
+      cms_profile TEXT NOT NULL,
+      display_id INTEGER NOT NULL,
+      display TEXT NOT NULL,
+      problem TEXT NOT NULL,
+      detail TEXT NOT NULL,
+      since TEXT NOT NULL,
+      last_seen TEXT NOT NULL,
+      PRIMARY KEY (cms_profile, display_id, problem)
+    )`,
+    `CREATE TABLE IF NOT EXISTS xibo_fleet_health_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp TEXT NOT NULL,
+      cms_profile TEXT NOT NULL,
+      display_id INTEGER NOT NULL,
+      display TEXT NOT NULL,
+      problem TEXT NOT NULL,
+      transition TEXT NOT NULL,
+      detail TEXT NOT NULL,
+      since TEXT NOT NULL
+    )`,
+    'CREATE INDEX IF NOT EXISTS xibo_fleet_health_events_timestamp ON xibo_fleet_health_events (timestamp)',
+    `CREATE TABLE IF NOT EXISTS xibo_fleet_health_checks (
+      cms_profile TEXT PRIMARY KEY,
+      timestamp TEXT NOT NULL,
+      displays INTEGER NOT NULL,
+      online INTEGER NOT NULL,
+      error TEXT
+    )`,
+    `CREATE TABLE IF NOT EXISTS xibo_fleet_health_baselines (
+      cms_profile TEXT PRIMARY KEY,
+      timestamp TEXT NOT NULL
+    )`,
+  ]);
+}
+
+// -----------------------------------------------------------------------------
+// Problem detection
+// -----------------------------------------------------------------------------
+
+const UNITS: Record<string, number> = { B: 1, KB: 1e3, MB: 1e6, GB: 1e9, TB: 1e12, KIB: 1024, MIB: 1024 ** 2, GIB: 1024 ** 3, TIB: 1024 ** 4 };
+
+/**
+ * Reads a storage size reported as bytes or as text such as "3.03 GiB".
+ */
+function toBytes(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  const match = typeof value === 'string' ? value.trim().match(/^([\d.]+)\s*([a-z]*)$/i) : null;
+  if (!match) return null;
+  const factor = UNITS[(match[2] || 'B').toUpperCase()];
+  return factor ? Number(match[1]) * factor : null;
+}
+
+/**
+ * Returns the problems of a display with a short description of each.
+ */
+export function detectDisplayProblems(display: Record<string, any>, storageFullPercent = DEFAULT_STORAGE_FULL_PERCENT): Map<FleetProblem, string> {
+  const problems = new Map<FleetProblem, string>();
+  const online = Number(display.loggedIn) === 1;
+
+  if (!online) {
+    problems.set('offline', `Last accessed ${display.lastAccessed ?? 'never'}`);
+  } else if (Number(display.mediaInventoryStatus) !== 1) {
+    // Only meaningful while the player reports in; offline players keep their last status.
+    const status = Number(display.mediaInventoryStatus) === 2 ? 'downloading' : 'out of date';
+    problems.set('mediaInventory', `Media inventory is ${status}`);
+  }
+
+  if (Number(display.licensed) !== 1) {
+    problems.set('licence', 'Display is not authorised');
+  } else if (display.commercialLicence !== undefined && Number(display.commercialLicence) === 0) {
+    problems.set('licence', 'Player has no commercial licence');
+  }
+
+  const total = toBytes(display.storageTotalSpace);
+  const available = toBytes(display.storageAvailableSpace);
+  if (total && available !== null) {
+    const usedPercent = Math.round((1 - available / total) * 100);
+    if (usedPercent >= storageFullPercent) {
+      problems.set('storage', `Storage ${usedPercent}% used (${display.storageAvailableSpace} free of ${display.storageTotalSpace})`);
+    }
+  }
+  return problems;
+}
+
+// -----------------------------------------------------------------------------
+// Alert channels
+// -----------------------------------------------------------------------------
+
+const channels = new Map<string, FleetAlertChannel>();
+
+/**
+ * Adds an alert channel, e.g. chat or e-mail delivery. A channel with the same name is replaced.
+ */
+export function registerFleetAlertChannel(name: string, channel: FleetAlertChannel): void {
+  channels.set(name, channel);
+}
+
+/**
+ * Removes a channel added with `registerFleetAlertChannel()`.
+ */
+export function unregisterFleetAlertChannel(name: string): void {
+  channels.delete(name);
+}
+
+const PROBLEM_LABELS: Record<FleetProblem, string> = {
+  offline: 'offline',
+  mediaInventory: 'media inventory not up to date',
+  licence: 'licence problem',
+  storage: 'storage nearly full',
+};
+
+function alertSubject(alert: FleetAlert): string {
+  return alert.transition === 'raised'
+    ? `[Fleet] ${alert.display}: ${PROBLEM_LABELS[alert.problem]}`
+    : `[Fleet] ${alert.display}: ${PROBLEM_LABELS[alert.problem]} resolved`;
+}
+
+/**
+ * Creates a CMS notification for the alert on the profile it belongs to.
+ */
+async function sendCmsNotification(alert: FleetAlert): Promise<void> {
+  const { cmsNotification = {} } = getSettings();
+  if (cmsNotification.enabled === false) return;
+  const result = await runWithAuditContext({ toolId: MONITOR_SOURCE, input: alert, agent: MONITOR_SOURCE }, () =>
+    xiboClient.request('/notification', {
+      method: 'POST',
+      form: {
+        subject: alertSubject(alert),
+        body: `${alert.detail} (display ${alert.displayId}, since ${alert.since})`,
+        releaseDt: alert.timestamp,
+        isInterrupt: 0,
+        displayGroupIds: cmsNotification.displayGroupIds ?? [],
+        userGroupIds: cmsNotification.userGroupIds ?? [],
+      },
+    })
+  );
+  if (!result.success) {
+    throw new Error(`CMS notification failed: ${result.message}`);
+  }
+}
+
+/**
+ * Posts the alert as JSON to every configured webhook that accepts it.
+ */
+async function sendWebhooks(alert: FleetAlert): Promise<void> {
+  const webhooks = (getSettings().webhooks ?? []).filter((hook) =>
+    (!hook.transitions || hook.transitions.includes(alert.transition)) &&
+    (!hook.problems || hook.problems.includes(alert.problem))
+  );
+  const results = await Promise.allSettled(webhooks.map(async (hook) => {
+    const response = await fetch(hook.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...hook.headers },
+      body: JSON.stringify({ type: 'xibo.fleet.alert', subject: alertSubject(alert), ...alert }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook ${hook.url} answered ${response.status}`);
+    }
+  }));
+  const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failures.length) {
+    throw new Error(failures.map((f) => (f.reason instanceof Error ? f.reason.message : String(f.reason))).join('; '));
+  }
+}
+
+registerFleetAlertChannel('cms-notification', sendCmsNotification);
+registerFleetAlertChannel('webhook', sendWebhooks);
+
+async function dispatchAlert(alert: FleetAlert): Promise<void> {
+  await Promise.all([...channels].map(async ([name, channel]) => {
+    try {
+      await channel(alert);
+    } catch (error) {
+      logger.error(
+        { channel: name, displayId: alert.displayId, problem: alert.problem, error: error instanceof Error ? error.message : error },
+        'Failed to deliver fleet alert'
+      );
+    }
+  }));
+}
+
+// -----------------------------------------------------------------------------
+// Checks
+// -----------------------------------------------------------------------------
+
+const running = new Set<string>();
+
+/**
+ * Polls the displays of the active CMS profile, records problem transitions and sends
+ * alerts for them.
+ *
+ * @throws {Error} If the displays cannot be read; the failure is also recorded.
+ */
+export async function runFleetHealthCheck(): Promise<FleetCheckResult> {
+  const cmsProfile = getActiveCmsProfileName();
+  if (running.has(cmsProfile)) {
+    throw new Error(`A fleet health check of CMS profile "${cmsProfile}" is already running.`);
+  }
+  running.add(cmsProfile);
+  try {
+    await ensureSchema();
+    const db = getAgentDatabase();
+    const timestamp = new Date().toISOString();
+
+    const result = await fetchPaginated(new URL(`${config.cmsUrl}/api/display`), { all: true });
+    if (!result.success) {
+      await db.execute({
+        sql: `INSERT INTO xibo_fleet_health_checks (cms_profile, timestamp, displays, online, error) VALUES (?, ?, 0, 0, ?)
+          ON CONFLICT (cms_profile) DO UPDATE SET timestamp = excluded.timestamp, error = excluded.error`,
+        args: [cmsProfile, timestamp, result.message],
+      });
+      throw new Error(`Reading displays failed: ${result.message}`);
+    }
+
+    const displays = result.items as Record<string, any>[];
+    const storageFullPercent = getSettings().storageFullPercent ?? DEFAULT_STORAGE_FULL_PERCENT;
+    const previous = await db.execute({ sql: 'SELECT * FROM xibo_fleet_health_state WHERE cms_profile = ?', args: [cmsProfile] });
+    const open = new Map(previous.rows.map((row) => [`${row.display_id}:${row.problem}`, row]));
+    // The first check only records the problems the fleet already has, so a fresh start
+    // does not send an alert for every display that was broken before.
+    const baseline = (await db.execute({ sql: 'SELECT 1 FROM xibo_fleet_health_baselines WHERE cms_profile = ?', args: [cmsProfile] })).rows.length === 0;
+    const alerts: FleetAlert[] = [];
+    const statements: { sql: string; args: InValue[] }[] = [];
+
+    for (const display of displays) {
+      if (Number(display.loggedIn) !== 1) {
+        // Offline players keep their last media inventory status: leave an open problem as it is.
+        open.delete(`${display.displayId}:mediaInventory`);
+      }
+      for (const [problem, detail] of detectDisplayProblems(display, storageFullPercent)) {
+        const key = `${display.displayId}:${problem}`;
+        const existing = open.get(key);
+        open.delete(key);
+        if (existing) {
+          statements.push({
+            sql: 'UPDATE xibo_fleet_health_state SET display = ?, detail = ?, last_seen = ? WHERE cms_profile = ? AND display_id = ? AND problem = ?',
+            args: [display.display, detail, timestamp, cmsProfile, display.displayId, problem],
+          });
+          continue;
+        }
+        if (!baseline) {
+          alerts.push({ timestamp, cmsProfile, displayId: display.displayId, display: display.display, problem, transition: 'raised', detail, since: timestamp });
+        }
+        statements.push({
+          sql: 'INSERT INTO xibo_fleet_health_state (cms_profile, display_id, display, problem, detail, since, last_seen) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          args: [cmsProfile, display.displayId, display.display, problem, detail, timestamp, timestamp],
+        });
+      }
+    }
+
+    // Whatever is still open was not seen in this poll: resolved, or the display was removed.
+    const displayIds = new Set(displays.map((d) => Number(d.displayId)));
+    for (const row of open.values()) {
+      const displayId = Number(row.display_id);
+      alerts.push({
+        timestamp,
+        cmsProfile,
+        displayId,
+        display: String(row.display),
+        problem: row.problem as FleetProblem,
+        transition: 'resolved',
+        detail: displayIds.has(displayId) ? `Resolved: ${row.detail}` : 'Display was removed from the CMS',
+        since: String(row.since),
+      });
+      statements.push({
+        sql: 'DELETE FROM xibo_fleet_health_state WHERE cms_profile = ? AND display_id = ? AND problem = ?',
+        args: [cmsProfile, displayId, row.problem],
+      });
+    }
+
+    for (const alert of alerts) {
+      statements.push({
+        sql: `INSERT INTO xibo_fleet_health_events (timestamp, cms_profile, display_id, display, problem, transition, detail, since)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [alert.timestamp, alert.cmsProfile, alert.displayId, alert.display, alert.problem, alert.transition, alert.detail, alert.since],
+      });
+    }
+    if (baseline) {
+      statements.push({ sql: 'INSERT INTO xibo_fleet_health_baselines (cms_profile, timestamp) VALUES (?, ?)', args: [cmsProfile, timestamp] });
+    }
+    const online = displays.filter((d) => Number(d.loggedIn) === 1).length;
+    statements.push({
+      sql: `INSERT INTO xibo_fleet_health_checks (cms_profile, timestamp, displays, online, error) VALUES (?, ?, ?, ?, NULL)
+        ON CONFLICT (cms_profile) DO UPDATE SET timestamp = excluded.timestamp, displays = excluded.displays, online = excluded.online, error = NULL`,
+      args: [cmsProfile, timestamp, displays.length, online],
+    });
+    await db.batch(statements, 'write');
+
+    for (const alert of alerts) {
+      logger[alert.transition === 'raised' ? 'warn' : 'info'](
+        { displayId: alert.displayId, display: alert.display, problem: alert.problem, detail: alert.detail },
+        `Fleet health: ${alert.problem} ${alert.transition}`
+      );
+      await dispatchAlert(alert);
+    }
+
+    const problems = (await db.execute({ sql: 'SELECT COUNT(*) AS total FROM xibo_fleet_health_state WHERE cms_profile = ?', args: [cmsProfile] })).rows[0]?.total;
+    return { cmsProfile, timestamp, displays: displays.length, online, problems: Number(problems ?? 0), alerts };
+  } finally {
+    running.delete(cmsProfile);
+  }
+}
+
+/**
+ * Current fleet state of one CMS profile: the last check and the open problems.
+ */
+export async function getFleetHealthState(cmsProfile: string): Promise<{
+  lastCheck: { timestamp: string; displays: number; online: number; error: string | null } | null;
+  problems: FleetProblemState[];
+}> {
+  await ensureSchema();
+  const db = getAgentDatabase();
+  const check = (await db.execute({ sql: 'SELECT * FROM xibo_fleet_health_checks WHERE cms_profile = ?', args: [cmsProfile] })).rows[0];
+  const rows = await db.execute({
+    sql: 'SELECT * FROM xibo_fleet_health_state WHERE cms_profile = ? ORDER BY since, display_id',
+    args: [cmsProfile],
+  });
+  return {
+    lastCheck: check
+      ? { timestamp: String(check.timestamp), displays: Number(check.displays), online: Number(check.online), error: (check.error as string | null) ?? null }
+      : null,
+    problems: rows.rows.map((row) => ({
+      cmsProfile,
+      displayId: Number(row.display_id),
+      display: String(row.display),
+      problem: row.problem as FleetProblem,
+      detail: String(row.detail),
+      since: String(row.since),
+      lastSeen: String(row.last_seen),
+    })),
+  };
+}
+
+/**
+ * Problem transitions of one CMS profile, newest first.
+ */
+export async function listFleetHealthEvents(cmsProfile: string, options: { displayId?: number; limit?: number } = {}): Promise<FleetAlert[]> {
+  await ensureSchema();
+  const where = ['cms_profile = ?'];
+  const args: InValue[] = [cmsProfile];
+  if (options.displayId !== undefined) {
+    where.push('display_id = ?');
+    args.push(options.displayId);
+  }
+  const rows = await getAgentDatabase().execute({
+    sql: `SELECT * FROM xibo_fleet_health_events WHERE ${where.join(' AND ')} ORDER BY id DESC LIMIT ?`,
+    args: [...args, options.limit ?? 20],
+  });
+  return rows.rows.map((row) => ({
+    timestamp: String(row.timestamp),
+    cmsProfile,
+    displayId: Number(row.display_id),
+    display: String(row.display),
+    problem: row.problem as FleetProblem,
+    transition: row.transition as FleetAlert['transition'],
+    detail: String(row.detail),
+    since: String(row.since),
+  }));
+}
+
+// -----------------------------------------------------------------------------
+// Background monitor
+// -----------------------------------------------------------------------------
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Tells whether the background monitor should run.
+ */
+export function isFleetMonitorEnabled(): boolean {
+  return getSettings().enabled ?? process.env.XIBO_FLEET_MONITOR === 'on';
+}
+
+/**
+ * Runs one check on every monitored profile. Failures are logged per profile.
+ */
+async function checkAllProfiles(): Promise<void> {
+  const configured = getSettings().profiles;
+  const names = configured ?? listCmsProfileSummaries().filter((p) => p.cmsUrl && p.hasCredentials).map((p) => p.name);
+  for (const name of names) {
+    try {
+      const profile = getCmsProfile(name);
+      await runWithCmsProfile(profile, () => runFleetHealthCheck());
+    } catch (error) {
+      logger.error({ profile: name, error: error instanceof Error ? error.message : error }, 'Fleet health check failed');
+    }
+  }
+}
+
+/**
+ * Starts polling in the background when the monitor is enabled. Calling it again
+ * restarts the timer with the current settings.
+ *
+ * @returns True when the monitor was started.
+ */
+export function startFleetHealthMonitor(): boolean {
+  stopFleetHealthMonitor();
+  if (!isFleetMonitorEnabled()) {
+    return false;
+  }
+  const intervalSeconds = getSettings().intervalSeconds ?? DEFAULT_INTERVAL_SECONDS;
+  timer = setInterval(() => void checkAllProfiles(), intervalSeconds * 1000);
+  timer.unref();
+  void checkAllProfiles();
+  logger.info({ intervalSeconds }, 'Fleet health monitor started');
+  return true;
+}
+
+/**
+ * Stops the background polling.
+ */
+export function stopFleetHealthMonitor(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
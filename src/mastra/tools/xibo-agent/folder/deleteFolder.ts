@@ -19,6 +19,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { decodeErrorMessage } from '../utility/error';
 import { errorResponseSchema } from './schemas';
@@ -61,7 +62,7 @@ export const deleteFolder = createTool({
       logger.info({ folderId }, `Attempting to delete folder.`);
 
       const headers = await getAuthHeaders();
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'DELETE',
         headers,
       });
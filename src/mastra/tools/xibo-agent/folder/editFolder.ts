@@ -19,6 +19,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { decodeErrorMessage } from '../utility/error';
 import {
@@ -81,7 +82,7 @@ export const editFolder = createTool({
         'Content-Type': 'application/x-www-form-urlencoded',
       };
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'PUT',
         headers: headers,
         body: formData.toString(),
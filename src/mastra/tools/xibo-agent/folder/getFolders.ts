@@ -19,6 +19,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { decodeErrorMessage } from '../utility/error';
 import {
@@ -146,7 +147,7 @@ export const getFolders = createTool({
       logger.info({ url: url.toString() }, 'Attempting to retrieve folders.');
 
       const headers = await getAuthHeaders();
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'GET',
         headers,
       });
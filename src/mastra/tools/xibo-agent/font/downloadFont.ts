@@ -21,6 +21,7 @@ import * as path from 'path';
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
 
@@ -69,7 +70,7 @@ export const downloadFont = createTool({
     try {
       logger.info({ url: url.toString() }, `Requesting to download font ID: ${context.id}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "GET",
         headers: await getAuthHeaders(),
       });
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
 
@@ -83,7 +84,7 @@ export const getFontDetails = createTool({
     try {
       logger.info({ url: url.toString() }, `Requesting font details for ID: ${context.fontId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "GET",
         headers: await getAuthHeaders(),
       });
@@ -19,9 +19,15 @@
 import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
-import { decodeErrorMessage, processError } from "../utility/error";
+import { processError } from "../utility/error";
 import { logger } from "../../../logger";
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from "../utility/pagination";
 
 // Schema definition for a single font record, based on the Xibo API.
 const fontSchema = z.object({
@@ -41,6 +47,7 @@ const successResponseSchema = z.object({
   success: z.literal(true),
   message: z.string(),
   data: z.array(fontSchema).describe("An array of font records."),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for a failed operation.
@@ -66,6 +73,7 @@ export const getFonts = createTool({
   inputSchema: z.object({
     id: z.number().optional().describe("Filter by a specific Font ID."),
     name: z.string().optional().describe("Filter by Font Name (searches for part of a name)."),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -78,23 +86,20 @@ export const getFonts = createTool({
     const url = new URL(`${config.cmsUrl}/api/fonts`);
     if (context.id) url.searchParams.append("id", context.id.toString());
     if (context.name) url.searchParams.append("name", context.name);
+    const { pagination } = splitPaginationOptions(context);
 
     try {
-      logger.info({ url: url.toString() }, "Requesting fonts from Xibo CMS");
+      logger.info({ url: url.toString(), pagination }, "Requesting fonts from Xibo CMS");
 
-      const response = await fetch(url.toString(), {
-        method: "GET",
-        headers: await getAuthHeaders(),
-      });
-      
-      const responseData = await response.json().catch(() => response.text());
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseData);
-        const message = `Failed to get fonts. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: decodedError }, message);
-        return { success: false as const, message, errorData: decodedError };
+      if (!result.success) {
+        const message = `Failed to get fonts. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
+        return { success: false as const, message, errorData: result.errorData };
       }
+
+      const responseData = result.items;
       
       const validationResult = z.array(fontSchema).safeParse(responseData);
 
@@ -118,8 +123,9 @@ export const getFonts = createTool({
       logger.info({ count: validationResult.data.length }, `Successfully retrieved ${validationResult.data.length} fonts.`);
       return {
         success: true,
-        message: `Successfully retrieved ${validationResult.data.length} fonts.`,
+        message: describePagination(result.pagination, "fonts"),
         data: validationResult.data,
+        pagination: result.pagination,
       };
     } catch (error) {
       const message = "An unexpected error occurred while fetching fonts.";
@@ -19,13 +19,11 @@
 import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage, processError } from "../utility/error";
 import * as fs from 'fs';
 import * as path from 'path';
-import axios, { AxiosError } from 'axios';
-import FormData from 'form-data';
 
 // Schema for the response of a successful font upload.
 const successResponseSchema = z.object({
@@ -88,7 +86,7 @@ export const uploadFont = createTool({
 
         const form = new FormData();
         const fileBuffer = fs.readFileSync(fullPath);
-        form.append('files', fileBuffer, { filename: fileName });
+        form.append('files', new Blob([fileBuffer]), fileName);
         
         if (rest.name) {
             form.append('name', rest.name);
@@ -97,15 +95,21 @@ export const uploadFont = createTool({
         const url = `${config.cmsUrl}/api/fonts`;
         logger.info({ url: url, path: fullPath }, `Uploading font '${fileName}'`);
 
-        const authHeaders = await getAuthHeaders();
-        const response = await axios.post(url, form, {
-            headers: {
-                ...authHeaders,
-                ...form.getHeaders(),
-            },
-        });
-        
-        const responseData = response.data;
+        const response = await xiboClient.fetch(url, { method: 'POST', body: form });
+        const responseText = await response.text();
+        let responseData;
+        try {
+            responseData = JSON.parse(responseText);
+        } catch (e) {
+            responseData = responseText;
+        }
+
+        if (!response.ok) {
+            const message = `HTTP error! status: ${response.status}`;
+            const decodedError = decodeErrorMessage(responseText);
+            logger.error({ status: response.status, response: decodedError }, message);
+            return { success: false as const, message, errorData: decodedError };
+        }
 
         const validationResult = successResponseSchema.safeParse({ success: true, data: responseData });
         if (!validationResult.success) {
@@ -123,22 +127,6 @@ export const uploadFont = createTool({
         return validationResult.data;
 
     } catch (error) {
-        if (error instanceof AxiosError) {
-            const errorDetails = {
-                status: error.response?.status,
-                data: error.response?.data,
-                headers: error.response?.headers,
-            };
-            const message = `HTTP error! status: ${error.response?.status}`;
-            logger.error({ error: error.message, details: errorDetails }, message);
-            return { 
-                success: false as const, 
-                message: message, 
-                error: error.message,
-                errorData: error.response?.data 
-            };
-        }
-
         const message = "An unexpected error occurred during font upload.";
         const processedError = processError(error);
         logger.error({ error: processedError }, message);
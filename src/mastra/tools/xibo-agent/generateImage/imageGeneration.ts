@@ -28,6 +28,7 @@ import * as fs from 'node:fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { startNewGeneration, addImage } from './imageHistory';
+import { fitImage, resolveImageFit, IMAGE_FIT_MODES, ImageFitOptions } from '../utility/imageProcessing';
 
 /**
  * Schema for API response validation
@@ -67,26 +68,24 @@ export const aspectRatioOptions = {
 type AspectRatio = keyof typeof aspectRatioOptions;
 
 /**
- * Crops and resizes an image to match the specified aspect ratio
- * The longer side is fixed at 1024 pixels, and the shorter side is adjusted
- * to maintain the target aspect ratio
+ * Crops and scales an image to the dimensions of the specified aspect ratio, or to
+ * `size` (a Xibo resolution) when one is given.
  *
  * @param buffer - The input image buffer
  * @param aspectRatio - The target aspect ratio
- * @returns The processed image buffer and its dimensions
+ * @param size - Exact output size and fit, overriding the aspect ratio dimensions
+ * @returns The processed PNG buffer and its dimensions
  */
 async function cropToAspectRatio(
   buffer: Buffer,
   aspectRatio: AspectRatio,
+  size?: ImageFitOptions,
 ): Promise<{ buffer: Buffer; width: number; height: number }> {
-  const targetRatio = aspectRatioOptions[aspectRatio];
-
-  // Since sharp is removed, we cannot process the image.
-  // We will return the original buffer and the target dimensions.
+  const processed = await fitImage(buffer, { ...(size ?? aspectRatioOptions[aspectRatio]), format: 'png' });
   return {
-    buffer: buffer,
-    width: targetRatio.width,
-    height: targetRatio.height,
+    buffer: processed.buffer,
+    width: processed.width,
+    height: processed.height,
   };
 }
 
@@ -120,6 +119,14 @@ export const generateImage = createTool({
       .boolean()
       .optional()
       .describe('If true, return PNG Buffer (on-memory) instead of saving to disk.'),
+    resolutionId: z
+      .number()
+      .optional()
+      .describe('Xibo resolution (see getResolutions) to size the image to, e.g. 1920x1080 for a landscape layout. Choose the aspect ratio closest to it.'),
+    fit: z
+      .enum(IMAGE_FIT_MODES)
+      .optional()
+      .describe("How the image is fitted to the resolution: 'cover' (crop, default), 'contain' (letterbox) or 'stretch'."),
   }),
   outputSchema: apiResponseSchema,
   execute: async ({ context }) => {
@@ -128,7 +135,7 @@ export const generateImage = createTool({
     try {
       // Disk cache
       const cacheDir = path.join(config.generatedDir, 'cache', 'images');
-      const keyRaw = JSON.stringify({ prompt: context.prompt, aspectRatio: context.aspectRatio, negativePrompt: context.negativePrompt });
+      const keyRaw = JSON.stringify({ prompt: context.prompt, aspectRatio: context.aspectRatio, negativePrompt: context.negativePrompt, resolutionId: context.resolutionId, fit: context.fit });
       const crypto = await import('node:crypto');
       const key = crypto.createHash('sha1').update(keyRaw, 'utf8').digest('hex');
       const cachePath = path.join(cacheDir, `${key}.bin`);
@@ -143,8 +150,13 @@ export const generateImage = createTool({
         throw new Error('GEMINI_API_KEY is not set in environment variables');
       }
 
+      // Size of a Xibo resolution, when the image is made for one.
+      const size = context.resolutionId !== undefined
+        ? await resolveImageFit({ resolutionId: context.resolutionId, fit: context.fit })
+        : undefined;
+
       // Enhance prompt with aspect ratio and negative prompt information.
-      const dimensions = aspectRatioOptions[context.aspectRatio];
+      const dimensions = size ?? aspectRatioOptions[context.aspectRatio];
       let enhancedPrompt = `${context.prompt} (Aspect ratio: ${context.aspectRatio}, Dimensions: ${dimensions.width}x${dimensions.height})`;
       if (context.negativePrompt) {
         enhancedPrompt += ` --no ${context.negativePrompt}`;
@@ -201,7 +213,7 @@ export const generateImage = createTool({
             buffer: croppedBuffer,
             width: croppedWidth,
             height: croppedHeight,
-          } = await cropToAspectRatio(buffer, context.aspectRatio);
+          } = await cropToAspectRatio(buffer, context.aspectRatio, size);
           logger.info(
             `Image cropped and resized to ${croppedWidth}x${croppedHeight}`,
           );
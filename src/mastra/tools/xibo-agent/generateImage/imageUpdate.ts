@@ -26,11 +26,8 @@ import { logger } from '../../../logger';
 import * as fs from "node:fs";
 import * as path from "path";
 import { v4 as uuidv4 } from 'uuid';
-// import sharp from 'sharp';
 import { getHistory, addImage } from './imageHistory';
-import { aspectRatioOptions } from './imageGeneration';
-
-type AspectRatio = keyof typeof aspectRatioOptions;
+import { fitImage } from '../utility/imageProcessing';
 
 /**
  * Schema for API response validation
@@ -52,26 +49,23 @@ const apiResponseSchema = z.object({
 });
 
 /**
- * Crops and resizes an image to match the specified aspect ratio
- * The longer side is fixed at 1024 pixels, and the shorter side is adjusted
- * to maintain the target aspect ratio
- * 
+ * Crops and scales an image to the dimensions of the original image.
+ *
  * @param buffer - The input image buffer
- * @param aspectRatio - The target aspect ratio
- * @returns The processed image buffer and its dimensions
+ * @param width - Width of the original image
+ * @param height - Height of the original image
+ * @returns The processed PNG buffer and its dimensions
  */
-async function cropToAspectRatio(
+async function cropToSize(
   buffer: Buffer,
-  aspectRatio: AspectRatio
+  width: number,
+  height: number
 ): Promise<{ buffer: Buffer; width: number; height: number }> {
-  const targetRatio = aspectRatioOptions[aspectRatio];
-
-  // Since sharp is removed, we cannot process the image.
-  // We will return the original buffer and the target dimensions.
+  const processed = await fitImage(buffer, { width, height, format: 'png' });
   return {
-    buffer: buffer,
-    width: targetRatio.width,
-    height: targetRatio.height,
+    buffer: processed.buffer,
+    width: processed.width,
+    height: processed.height,
   };
 }
 
@@ -184,7 +178,7 @@ export const updateImage = createTool({
           // Crop and resize the image to match the original aspect ratio
           logger.info('Cropping and resizing image...');
           const { buffer: croppedBuffer, width: croppedWidth, height: croppedHeight } = 
-            await cropToAspectRatio(buffer, originalImage.aspectRatio as AspectRatio);
+            await cropToSize(buffer, originalImage.width, originalImage.height);
           logger.info(`Image cropped and resized to ${croppedWidth}x${croppedHeight}`);
           
           // Determine output directory
@@ -19,8 +19,18 @@
 
 import 'dotenv/config';
 
+import { withCmsProfile } from './cmsProfiles';
+import { withSafeMode } from './safeMode';
+import { withAuditContext } from './auditLog';
+import { withChangeSnapshot } from './changeHistory';
+import { isToolInDomain, type XiboToolDomain } from './toolDomains';
+
 // Import core tools individually to ensure they're always available for getTools()
 import { getCmsTime, getAbout } from './misc';
+import { listCmsProfiles, testCmsConnection } from './cmsProfile';
+import { getAuditTrail } from './audit';
+import { listChanges, revertChange } from './change';
+import { getFleetHealth } from './fleet';
 import { getUser, getUserMe, addUser, deleteUser, editUser, getUserPermissions,
   setUserPermissions,getMultiEntityPermissions, editUserPref, getUserPref,
   addUserPref} from './user';  
@@ -32,7 +42,8 @@ import { getLayouts, addLayout, deleteLayout, retireLayout, unretireLayout,
   clearLayout, getLayoutStatus, checkoutLayout, discardLayout,editLayout,
   setLayoutEnableStat,editLayoutBackground,copyLayout,tagLayout,untagLayout,
   publishLayout,applyLayoutTemplate,addFullscreenLayout,addRegion,editRegion,
-  addDrawerRegion,saveDrawerRegion,deleteRegion,positionAllRegions } from './layout';
+  addDrawerRegion,saveDrawerRegion,deleteRegion,positionAllRegions,
+  exportLayoutBundle,importLayoutBundle } from './layout';
 import { getFolders, addFolder, editFolder, deleteFolder } from './folder';
 import { getResolutions, addResolution, editResolution, deleteResolution } from './resolution';
 import { getGoogleFonts, uploadGoogleFonts, getUploadFiles, deleteUploadFiles,
@@ -42,13 +53,14 @@ import { getUserGroups, addUserGroup, deleteUserGroup, editUserGroup, copyUserGr
   assignUserToGroup, unassignUserFromGroup } from './usergroup';
 import { getPlaylists, addPlaylist, editPlaylist, deletePlaylist, copyPlaylist,
   assignLibraryItems, getPlaylistUsage, getPlaylistUsageByLayouts, setPlaylistEnableStat,
-   selectPlaylistFolder } from './playlist';
-import { getStats, getTimeDisconnected, getExportStatsCount } from './statistics';
+   selectPlaylistFolder, orderWidgets } from './playlist';
+import { getStats, getTimeDisconnected, getExportStatsCount, queryPlayStats } from './statistics';
 import { getTags, addTag, editTag, deleteTag } from './tags';
 import { getLibrary, addMedia, uploadMediaFromURL, downloadThumbnail, editMedia,
   deleteMedia, downloadMedia, assignTagsToMedia, unassignTagsFromMedia,
   setEnableStatToMedia, getMediaUsage, getMediaUsageLayouts, copyMedia, isMediaUsed,
-  selectMediaFolder } from './library';
+  selectMediaFolder, auditLibrary, planLibraryCleanup, applyLibraryCleanup, ingestMedia,
+  autoTagMedia, applyMediaTags, getMediaDescriptions } from './library';
 import { generateImage, updateImage, getImageHistory } from './generateImage';
 import { videoGeneration, videoUpdate, getVideoHistory } from './generateVideo';
 import { getNotifications, deleteNotification, addNotification, editNotification } from './notification';
@@ -61,8 +73,8 @@ import { getLogs, getAgentLog } from './log';
 import { getDayParts, addDayPart, editDayPart, deleteDayPart } from './dayPart';
 import { changePassword } from './compound';
 import { getDisplayVenues } from './displayVenue';
-import { getXiboNews, getGoogleNews } from './news';
-import { getWeather, getWeeklyWeather, getWeatherByCoordinates } from './weather';
+import { getXiboNews, getGoogleNews, syncNewsTicker, getNewsTickerFeeds } from './news';
+import { getWeather, getWeeklyWeather, getWeatherByCoordinates, getWeatherRules, evaluateWeatherRules } from './weather';
 import { getSyncGroups, addSyncGroup, editSyncGroup, deleteSyncGroup, getSyncGroupDisplays,
   assignSyncGroupMembers } from './syncGroup';
 import { deletePlayerVersion, downloadPlayerVersion, editPlayerVersion, uploadPlayerSoftware } from './playerSoftware';
@@ -82,9 +94,11 @@ import { addCampaign, editCampaign, deleteCampaign, getCampaigns, assignLayoutTo
 import { addMenuBoard, addMenuBoardCategory, addMenuBoardProduct, deleteMenuBoard,
   deleteMenuBoardCategory, deleteMenuBoardProduct, editMenuBoard, editMenuBoardCategory,
   editMenuBoardProduct, getMenuBoardCategories, getMenuBoardProducts, getMenuBoards,
-  selectMenuBoardFolder, getMenuBoardTree } from './menuBoard';
+  selectMenuBoardFolder, getMenuBoardTree, planMenuBoardImport, applyMenuBoardImport, exportMenuBoardCsv,
+  setMenuDaypartPrice, deleteMenuDaypartPrice, getMenuDaypartPrices, previewMenuBoardAt, applyMenuDaypartPrices } from './menuBoard';
 import { deleteSchedule, deleteScheduleRecurrence, getSchedule, getScheduleDataEvents,
-  getScheduleDisplayGroupIdEvents, addSchedule, editSchedule } from './schedule';
+  getScheduleDisplayGroupIdEvents, addSchedule, editSchedule, planSchedule, applySchedulePlan,
+  getScheduleTimeline } from './schedule';
 
 // Basic functionality - module exports
 /*
@@ -134,13 +148,31 @@ export * from './campaign';     // Campaign management
  * This function is the recommended way to get all tools at once.
  * It ensures consistent tool IDs and handles proper initialization.
  * 
+ * Every tool is wrapped with `withCmsProfile`, so it accepts an optional `cmsProfile`
+ * input (or reads it from the runtimeContext) to select the target CMS instance.
+ * Destructive tools are also wrapped with `withSafeMode`, which asks for confirmation
+ * before they run.
+ * `withAuditContext` attaches the tool call to the audit log entries of its CMS mutations.
+ * `withChangeSnapshot` stores the previous state of edited layouts, regions and widgets
+ * so `revertChange` can undo the edit.
+ *
+ * @param options.agent - Name of the agent receiving the tools, used for its safe mode policy
+ * @param options.domain - Only return the tools of this domain (see `toolDomains.ts`) and the common tools
  * @returns Object containing all tool instances with their IDs as keys
  */
 
-export function getTools() {
-  return {
+export function getTools(options: { agent?: string; domain?: XiboToolDomain } = {}) {
+  const tools = {
     // Misc
     getCmsTime,getAbout,
+    // CMS profile
+    listCmsProfiles,testCmsConnection,
+    // Audit
+    getAuditTrail,
+    // Change history
+    listChanges,revertChange,
+    // Fleet health
+    getFleetHealth,
     // Log
     getLogs,getAgentLog,
     // User
@@ -157,7 +189,7 @@ export function getTools() {
     getLayoutStatus,checkoutLayout,discardLayout,setLayoutEnableStat,editLayout,
     editLayoutBackground,copyLayout,tagLayout,untagLayout,publishLayout,
     applyLayoutTemplate,addFullscreenLayout,addRegion,editRegion,addDrawerRegion,
-    saveDrawerRegion,deleteRegion,positionAllRegions,
+    saveDrawerRegion,deleteRegion,positionAllRegions,exportLayoutBundle,importLayoutBundle,
     // Folder
     getFolders,addFolder,editFolder,deleteFolder,
     // Resolution
@@ -173,10 +205,10 @@ export function getTools() {
     // Playlist
     getPlaylists,addPlaylist,editPlaylist,deletePlaylist,copyPlaylist,
     assignLibraryItems,getPlaylistUsage,getPlaylistUsageByLayouts,
-    setPlaylistEnableStat,selectPlaylistFolder,
+    setPlaylistEnableStat,selectPlaylistFolder,orderWidgets,
     // Statistics
     getStats,getTimeDisconnected,
-    getExportStatsCount,
+    getExportStatsCount,queryPlayStats,
     // Tags
     getTags,addTag,editTag,deleteTag,
     // Library
@@ -184,6 +216,8 @@ export function getTools() {
       deleteMedia,downloadMedia,assignTagsToMedia,unassignTagsFromMedia,
       setEnableStatToMedia,getMediaUsage,getMediaUsageLayouts,
       copyMedia,isMediaUsed,selectMediaFolder,
+      auditLibrary,planLibraryCleanup,applyLibraryCleanup,ingestMedia,
+      autoTagMedia,applyMediaTags,getMediaDescriptions,
     // Generation
     generateImage,updateImage,getImageHistory,
     videoGeneration, videoUpdate, getVideoHistory,
@@ -205,8 +239,10 @@ export function getTools() {
     getDisplayVenues,
     // News
     getXiboNews,getGoogleNews,
+    syncNewsTicker,getNewsTickerFeeds,
     // Weather
     getWeather,getWeeklyWeather,getWeatherByCoordinates,
+    getWeatherRules,evaluateWeatherRules,
     // Sync group
     getSyncGroups,addSyncGroup,editSyncGroup,deleteSyncGroup,getSyncGroupDisplays,
     assignSyncGroupMembers,
@@ -237,8 +273,17 @@ export function getTools() {
     deleteMenuBoardCategory,deleteMenuBoardProduct,editMenuBoard,editMenuBoardCategory,
     editMenuBoardProduct,getMenuBoardCategories,getMenuBoardProducts,getMenuBoards,
     selectMenuBoardFolder,getMenuBoardTree,
+    planMenuBoardImport,applyMenuBoardImport,exportMenuBoardCsv,
+    setMenuDaypartPrice,deleteMenuDaypartPrice,getMenuDaypartPrices,previewMenuBoardAt,applyMenuDaypartPrices,
     // Schedule
     deleteSchedule,deleteScheduleRecurrence,getSchedule,getScheduleDataEvents,
-    getScheduleDisplayGroupIdEvents,addSchedule,editSchedule,
+    getScheduleDisplayGroupIdEvents,addSchedule,editSchedule,planSchedule,applySchedulePlan,
+    getScheduleTimeline,
   };
+  const { domain } = options;
+  return Object.fromEntries(
+    Object.entries(tools)
+      .filter(([name]) => !domain || isToolInDomain(name, domain))
+      .map(([name, tool]) => [name, withCmsProfile(withAuditContext(withSafeMode(withChangeSnapshot(tool), options), options))])
+  ) as typeof tools;
 }
\ No newline at end of file
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from '../../../logger';
 
 // Schema for region options
@@ -174,7 +175,7 @@ export const addDrawerRegion = createTool({
         method: 'POST'
       });
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers
       });
@@ -22,6 +22,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger'; 
 
@@ -257,7 +258,7 @@ export const addFullscreenLayout = createTool({
       
       logger.debug(`addFullscreenLayout: Sending POST request to ${url}`, { body: formData.toString() });
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers: headers,
         body: formData
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -128,7 +129,7 @@ export const addLayout = createTool({
     });
 
     const url = `${config.cmsUrl}/api/layout`;
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       method: "POST",
       headers: {
         ...headers,
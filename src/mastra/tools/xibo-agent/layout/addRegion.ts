@@ -14,6 +14,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -178,7 +179,7 @@ export const addRegion = createTool({
         body: formData.toString()
       });
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers: headers,
         body: formData
@@ -22,6 +22,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -72,7 +73,7 @@ export const applyLayoutTemplate = createTool({
       }
       
       logger.debug(`Sending PUT request to ${url}`);
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'PUT', // API requires PUT for this endpoint
         headers: headers,
         body: formData.toString()
@@ -22,6 +22,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -263,7 +264,7 @@ export const checkoutLayout = createTool({
     const url = `${config.cmsUrl}/api/layout/checkout/${context.layoutId}`;
 
     // Send checkout request to CMS
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       method: "PUT",
       headers,
     });
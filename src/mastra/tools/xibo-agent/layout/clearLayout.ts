@@ -22,6 +22,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -260,7 +261,7 @@ export const clearLayout = createTool({
     const url = `${config.cmsUrl}/api/layout/clear/${context.layoutId}`;
 
     logger.info(`Sending PUT request to ${url} to clear layout`);
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       method: "PUT",
       headers: {
         ...headers,
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -78,7 +79,7 @@ export const deleteLayout = createTool({
     logger.debug(`Sending DELETE request to ${url}`);
 
     // Make a DELETE request to the Xibo CMS API
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       method: "DELETE",
       headers: headers,
     });
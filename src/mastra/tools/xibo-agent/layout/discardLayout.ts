@@ -22,6 +22,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -255,7 +256,7 @@ export const discardLayout = createTool({
     const headers = await getAuthHeaders();
     const url = `${config.cmsUrl}/api/layout/discard/${context.layoutId}`;
 
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       method: "PUT",
       headers,
     });
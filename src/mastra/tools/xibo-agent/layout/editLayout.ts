@@ -22,6 +22,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { TreeNode, createTreeViewResponse } from "../utility/treeView";
 import { logger } from '../../../logger';
@@ -359,7 +360,7 @@ export const editLayout = createTool({
 
     // Send the update request
     logger.debug(`Sending PUT request to ${url}`);
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       method: "PUT",
       headers: {
         ...headers,
@@ -422,7 +423,7 @@ export const editLayout = createTool({
       const detailUrl = `${config.cmsUrl}/api/layout/${context.layoutId}?embed=regions,playlists,widgets`;
       logger.debug(`Fetching detailed layout data from ${detailUrl}`);
 
-      const detailResponse = await fetch(detailUrl, {
+      const detailResponse = await xiboClient.fetch(detailUrl, {
         method: "GET",
         headers: headers,
       });
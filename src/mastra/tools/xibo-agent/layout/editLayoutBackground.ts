@@ -22,6 +22,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -275,7 +276,7 @@ export const editLayoutBackground = createTool({
       formData.append("resolutionId", context.resolutionId.toString());
     console.log(formData.toString());
     // Send PUT request to update layout background
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       method: "PUT",
       headers: {
         ...headers,
@@ -22,6 +22,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -222,7 +223,7 @@ export const editRegion = createTool({
         body: formData.toString()
       });
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'PUT',
         headers: headers,
         body: formData
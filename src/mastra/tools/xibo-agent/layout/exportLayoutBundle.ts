@@ -0,0 +1,190 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Xibo CMS Layout Bundle Export Tool
+ *
+ * This module exports a layout as a portable JSON bundle that can be recreated on another
+ * CMS instance with `importLayoutBundle`. The bundle contains the layout structure
+ * (regions, playlists, widgets, widget options, actions, background, tags), the referenced
+ * library files and the names of the datasets and menu boards the widgets use.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { xiboClient } from '../xiboClient';
+import { logger } from '../../../logger';
+import {
+  BUNDLE_FILE_NAME,
+  BUNDLE_FORMAT_VERSION,
+  BUNDLE_MEDIA_DIR,
+  LayoutBundle,
+  collectReferences,
+  layoutToBundle,
+  resolveBundleDir,
+} from './layoutBundle';
+
+const LAYOUT_EMBED = 'regions,playlists,widgets,widget_options,tags';
+
+const successSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    bundleName: z.string(),
+    bundlePath: z.string(),
+    regions: z.number(),
+    widgets: z.number(),
+    actions: z.number(),
+    media: z.number(),
+    dataSets: z.number(),
+    menuBoards: z.number(),
+    warnings: z.array(z.string()),
+  }),
+});
+
+const errorSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  error: z.any().optional(),
+  errorData: z.any().optional(),
+});
+
+/**
+ * Tool to export a layout as a portable bundle under persistent_data/layout-bundles.
+ */
+export const exportLayoutBundle = createTool({
+  id: 'export-layout-bundle',
+  description: 'Exports a layout (structure, widget options, actions, background, tags and media files) as a portable JSON bundle for importing into another CMS.',
+  inputSchema: z.object({
+    layoutId: z.number().describe('ID of the layout to export.'),
+    bundleName: z.string().optional().describe('Directory name for the bundle under persistent_data/layout-bundles. Defaults to "<layout name>-<layoutId>".'),
+    includeMedia: z.boolean().optional().default(true).describe('Download the referenced library files into the bundle.'),
+  }),
+  outputSchema: z.union([successSchema, errorSchema]),
+  execute: async ({ context }): Promise<z.infer<typeof successSchema> | z.infer<typeof errorSchema>> => {
+    if (!config.cmsUrl) {
+      logger.error('exportLayoutBundle: CMS URL is not configured');
+      return { success: false, message: 'CMS URL is not configured' };
+    }
+
+    const layoutResult = await xiboClient.get<any[]>('/layout', { layoutId: context.layoutId, embed: LAYOUT_EMBED });
+    if (!layoutResult.success) {
+      return { success: false, message: layoutResult.message, error: layoutResult.error, errorData: layoutResult.errorData };
+    }
+    const layout = Array.isArray(layoutResult.data) ? layoutResult.data[0] : undefined;
+    if (!layout) {
+      return { success: false, message: `Layout ${context.layoutId} was not found.` };
+    }
+
+    const warnings: string[] = [];
+    const actionsResult = await xiboClient.get<any[]>('/action', { layoutId: context.layoutId });
+    if (!actionsResult.success) {
+      warnings.push(`Actions could not be read: ${actionsResult.message}`);
+    }
+    const bundleLayout = layoutToBundle(layout, actionsResult.success && Array.isArray(actionsResult.data) ? actionsResult.data : []);
+
+    const defaultName = `${bundleLayout.name.replace(/[^\w.-]+/g, '_')}-${context.layoutId}`;
+    const bundleName = context.bundleName?.trim() || defaultName;
+    const bundleDir = resolveBundleDir(bundleName);
+    if (!bundleDir) {
+      logger.error({ bundleName }, 'exportLayoutBundle: Path traversal attempt detected');
+      return { success: false, message: 'Invalid bundle name. Path traversal is not allowed.' };
+    }
+
+    try {
+      await fs.mkdir(path.join(bundleDir, BUNDLE_MEDIA_DIR), { recursive: true });
+      const refs = collectReferences(bundleLayout);
+      const bundle: NonNullable<LayoutBundle['bundle']> = {
+        version: BUNDLE_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        sourceCmsUrl: config.cmsUrl,
+        media: [],
+        dataSets: [],
+        menuBoards: [],
+      };
+
+      for (const mediaId of refs.media) {
+        const mediaResult = await xiboClient.get<any[]>('/library', { mediaId });
+        const media = mediaResult.success && Array.isArray(mediaResult.data) ? mediaResult.data[0] : undefined;
+        if (!media) {
+          warnings.push(`Media ${mediaId} could not be found in the library.`);
+          continue;
+        }
+        let file: string | null = null;
+        if (context.includeMedia) {
+          const response = await xiboClient.fetch(`${config.cmsUrl}/api/library/download/${mediaId}`);
+          if (response.ok) {
+            file = path.posix.join(BUNDLE_MEDIA_DIR, `${mediaId}-${String(media.storedAs || media.name).replace(/[^\w.-]+/g, '_')}`);
+            await fs.writeFile(path.join(bundleDir, file), Buffer.from(await response.arrayBuffer()));
+          } else {
+            await response.text().catch(() => undefined);
+            warnings.push(`Media ${mediaId} could not be downloaded (status ${response.status}).`);
+          }
+        }
+        bundle.media.push({ mediaId, name: String(media.name), mediaType: String(media.mediaType), md5: media.md5 ?? null, file });
+      }
+
+      for (const dataSetId of refs.dataSets) {
+        const result = await xiboClient.get<any[]>('/dataset', { dataSetId });
+        const dataSet = result.success && Array.isArray(result.data) ? result.data[0] : undefined;
+        if (dataSet) {
+          bundle.dataSets.push({ dataSetId, name: String(dataSet.dataSet), code: dataSet.code ?? null });
+        } else {
+          warnings.push(`DataSet ${dataSetId} could not be found.`);
+        }
+      }
+
+      for (const menuId of refs.menuBoards) {
+        const result = await xiboClient.get<any[]>('/menuboards', { menuId });
+        const menuBoard = result.success && Array.isArray(result.data) ? result.data[0] : undefined;
+        if (menuBoard) {
+          bundle.menuBoards.push({ menuId, name: String(menuBoard.name), code: menuBoard.code ?? null });
+        } else {
+          warnings.push(`Menu board ${menuId} could not be found.`);
+        }
+      }
+
+      const document: LayoutBundle = { layout: bundleLayout, schedule: {}, bundle };
+      const bundlePath = path.join(bundleDir, BUNDLE_FILE_NAME);
+      await fs.writeFile(bundlePath, JSON.stringify(document, null, 2), 'utf-8');
+
+      const widgets = bundleLayout.regions.reduce(
+        (sum, r) => sum + r.playlists.reduce((n, p) => n + p.widgets.length, 0),
+        0
+      );
+      logger.info({ layoutId: context.layoutId, bundlePath, media: bundle.media.length, warnings: warnings.length }, 'Layout bundle exported');
+
+      return {
+        success: true,
+        message: `Exported layout "${bundleLayout.name}" to bundle "${bundleName}".`,
+        data: {
+          bundleName,
+          bundlePath,
+          regions: bundleLayout.regions.length,
+          widgets,
+          actions: bundleLayout.actions.length,
+          media: bundle.media.length,
+          dataSets: bundle.dataSets.length,
+          menuBoards: bundle.menuBoards.length,
+          warnings,
+        },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ layoutId: context.layoutId, error: errorMessage }, 'exportLayoutBundle: An unexpected error occurred');
+      return { success: false, message: `Failed to export layout bundle: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
@@ -22,6 +22,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { TreeNode, createTreeViewResponse } from "../utility/treeView";
 import { logger } from '../../../logger';
@@ -369,7 +370,7 @@ export const getLayoutStatus = createTool({
     const headers = await getAuthHeaders();
     const url = `${config.cmsUrl}/api/layout/status/${context.layoutId}`;
 
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       headers,
     });
 
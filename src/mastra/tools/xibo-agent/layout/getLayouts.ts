@@ -19,10 +19,15 @@
 import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
-import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 import { parseJsonStrings } from '../utility/jsonParser';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from "../utility/pagination";
 import { 
   TreeNode, 
   treeResponseSchema, 
@@ -36,8 +41,13 @@ import {
  */
 const successSchema = z.union([
   z.string(),
-  treeResponseSchema,
-  z.lazy(() => layoutResponseSchema), // Use z.lazy for recursive schemas
+  treeResponseSchema.extend({ pagination: paginationSummarySchema.optional() }),
+  z.object({
+    success: z.literal(true),
+    message: z.string(),
+    data: z.lazy(() => layoutResponseSchema), // Use z.lazy for recursive schemas
+    pagination: paginationSummarySchema,
+  }),
 ]);
 
 /**
@@ -581,7 +591,7 @@ function layoutNodeFormatter(node: TreeNode): string {
  */
 export const getLayouts = createTool({
   id: 'get-layouts',
-  description: 'Retrieves a list of Xibo layouts with optional filtering',
+  description: 'Retrieves a list of Xibo layouts with optional filtering. Set all=true to retrieve every layout across pages.',
   inputSchema: z.object({
     layoutId: z.string().optional().describe("Filter by Layout ID. Can be a comma-separated list of IDs."),
     parentId: z.number().optional().describe("Filter by parent ID."),
@@ -598,6 +608,7 @@ export const getLayouts = createTool({
     campaignId: z.number().optional().describe("Get all layouts for a given Campaign ID."),
     folderId: z.number().optional().describe("Filter by Folder ID."),
     treeView: z.boolean().optional().describe("Set to true to return layouts in a tree structure."),
+    ...paginationInputSchema.shape,
   }),
   outputSchema: z.union([successSchema, errorSchema]),
   execute: async ({
@@ -619,11 +630,11 @@ export const getLayouts = createTool({
       };
     }
 
-    const headers = await getAuthHeaders();
+    const { pagination, filters } = splitPaginationOptions(context);
 
     // Build query parameters
     const queryParams = new URLSearchParams();
-    Object.entries(context).forEach(([key, value]) => {
+    Object.entries(filters).forEach(([key, value]) => {
       if (value !== undefined) {
         // Skip internal processing parameters from API request
         if (key === "treeView") {
@@ -635,43 +646,40 @@ export const getLayouts = createTool({
     });
 
     // Build URL
-    let url = `${config.cmsUrl}/api/layout`;
-    if (queryParams.toString()) {
-      url = `${url}?${queryParams.toString()}`;
-    }
+    const url = new URL(`${config.cmsUrl}/api/layout`);
+    url.search = queryParams.toString();
 
-    logger.debug(`Requesting layouts from: ${url}`);
+    logger.debug(`Requesting layouts from: ${url.toString()}`);
 
-    const response = await fetch(url, { headers });
+    const result = await fetchPaginated(url, pagination);
 
-    if (!response.ok) {
-      const responseText = await response.text();
-      const decodedText = decodeErrorMessage(responseText);
-      const errorMessage = `Failed to retrieve layouts. API responded with status ${response.status}.`;
-      logger.error(errorMessage, {
-        status: response.status,
+    if (!result.success) {
+      const responseText = typeof result.errorData === 'string' ? result.errorData : JSON.stringify(result.errorData);
+      const errorMessage = `Failed to retrieve layouts. API responded with status ${result.status}.`;
+      logger.error({
+        status: result.status,
         filters: logContext,
-        response: decodedText,
-      });
+        response: responseText,
+      }, errorMessage);
 
       return {
         success: false,
-        message: `${errorMessage} Message: ${decodedText}`,
+        message: `${errorMessage} Message: ${responseText}`,
         error: {
-          statusCode: response.status,
-          responseBody: decodedText,
+          statusCode: result.status,
+          responseBody: result.errorData,
         },
       };
     }
 
     // Parse CMS response data
-    const data = await response.json();
+    const data = result.items;
+    const message = describePagination(result.pagination, 'layouts');
 
     // Handle empty response (layout not found)
-    if (Array.isArray(data) && data.length === 0) {
-      const message = "Layout not found";
-      logger.info(message);
-      return []; // Return an empty array for "not found" cases
+    if (data.length === 0) {
+      logger.info("Layout not found");
+      return { success: true, message, data: [], pagination: result.pagination };
     }
 
     // JSON文字列をパース
@@ -680,16 +688,20 @@ export const getLayouts = createTool({
     // Generate hierarchical tree view if requested
     if (context.treeView) {
       const layoutTree = buildLayoutTree(parsedData);
-      return createTreeViewResponse(parsedData, layoutTree, layoutNodeFormatter);
+      return {
+        ...createTreeViewResponse(parsedData, layoutTree, layoutNodeFormatter),
+        pagination: result.pagination,
+      };
     }
 
     try {
       // Validate and return the response data
-      if (Array.isArray(parsedData)) {
-        return layoutResponseSchema.parse(parsedData);
-      } else {
-        return treeResponseSchema.parse(parsedData);
-      }
+      return {
+        success: true,
+        message,
+        data: layoutResponseSchema.parse(parsedData),
+        pagination: result.pagination,
+      };
     } catch (validationError) {
       const errorMessage = "Layout data validation failed.";
       logger.error(errorMessage, {
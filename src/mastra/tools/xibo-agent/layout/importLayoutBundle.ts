@@ -0,0 +1,418 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Xibo CMS Layout Bundle Import Tool
+ *
+ * This module recreates a layout from a bundle written by `exportLayoutBundle`, or from a
+ * `*.xibo-layout.json` file generated by the signage ads planner. Media files are uploaded
+ * (or matched by name and MD5 when already present), datasets and menu boards are matched
+ * by name, and every ID in widget options, backgrounds and actions is remapped to the
+ * objects on the target CMS.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { xiboClient, XiboResult } from '../xiboClient';
+import { logger } from '../../../logger';
+import { uploadMediaFile } from '../mediaUpload';
+import {
+  BUNDLE_FILE_NAME,
+  LIBRARY_WIDGET_TYPES,
+  LayoutBundle,
+  REFERENCE_OPTION_KEYS,
+  WIDGET_TYPE_ALIASES,
+  layoutBundleSchema,
+  resolveBundleDir,
+} from './layoutBundle';
+
+const REGION_TYPES = new Set(['zone', 'frame', 'playlist', 'canvas']);
+
+const idMapSchema = z.record(z.number());
+
+const successSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    layoutId: z.number().describe('ID of the imported (parent) layout.'),
+    draftLayoutId: z.number(),
+    published: z.boolean(),
+    idMap: z.object({
+      media: idMapSchema,
+      dataSets: idMapSchema,
+      menuBoards: idMapSchema,
+      regions: idMapSchema,
+      widgets: idMapSchema,
+    }).describe('Source ID -> target ID for every remapped object.'),
+    warnings: z.array(z.string()),
+  }),
+});
+
+const errorSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  error: z.any().optional(),
+  errorData: z.any().optional(),
+});
+
+type IdMap = Record<string, number>;
+
+/**
+ * Thrown internally when a CMS call fails; caught at the top of `execute`.
+ */
+class ImportStepError extends Error {
+  constructor(message: string, public readonly errorData?: unknown) {
+    super(message);
+    this.name = 'ImportStepError';
+  }
+}
+
+/**
+ * Returns the data of a successful result or throws `ImportStepError` with the step name.
+ */
+function unwrap<T>(result: XiboResult<T>, step: string): { data: T; headers: Headers } {
+  if (!result.success) {
+    throw new ImportStepError(`${step} failed: ${result.message}`, result.errorData ?? result.error);
+  }
+  return { data: result.data, headers: result.headers };
+}
+
+/**
+ * Reads and validates the bundle (or planner layout file) to import.
+ */
+async function loadBundle(bundleName?: string, layoutFile?: string): Promise<{ bundle: LayoutBundle; baseDir: string }> {
+  let filePath: string;
+  if (bundleName) {
+    const dir = resolveBundleDir(bundleName);
+    if (!dir) throw new ImportStepError('Invalid bundle name. Path traversal is not allowed.');
+    filePath = path.join(dir, BUNDLE_FILE_NAME);
+  } else if (layoutFile) {
+    const root = path.resolve(config.generatedDir);
+    filePath = path.resolve(root, layoutFile);
+    if (!filePath.startsWith(root + path.sep)) throw new ImportStepError('Invalid layout file. Path traversal is not allowed.');
+  } else {
+    throw new ImportStepError('Either bundleName or layoutFile is required.');
+  }
+
+  const parsed = layoutBundleSchema.safeParse(JSON.parse(await fs.readFile(filePath, 'utf-8')));
+  if (!parsed.success) {
+    throw new ImportStepError('The bundle does not match the expected layout bundle format.', parsed.error.format());
+  }
+  return { bundle: parsed.data, baseDir: path.dirname(filePath) };
+}
+
+/**
+ * Tool to import a layout bundle into the CMS with ID remapping.
+ */
+export const importLayoutBundle = createTool({
+  id: 'import-layout-bundle',
+  description: 'Recreates a layout from a bundle made by exportLayoutBundle (or a signage ads *.xibo-layout.json file), uploading media and remapping media, dataset and menu board IDs.',
+  inputSchema: z.object({
+    bundleName: z.string().optional().describe('Bundle directory name under persistent_data/layout-bundles.'),
+    layoutFile: z.string().optional().describe('Alternatively, a *.xibo-layout.json path relative to persistent_data/generated (e.g. "signage-ads/spring.landscape.xibo-layout.json").'),
+    name: z.string().optional().describe('Name for the new layout. Defaults to the name in the bundle.'),
+    folderId: z.number().optional().describe('Folder ID to create the layout (and uploaded media) in.'),
+    publish: z.boolean().optional().default(true).describe('Publish the layout after it has been built.'),
+    reuseExistingMedia: z.boolean().optional().default(true).describe('Reuse library media with the same name and MD5 instead of uploading a copy.'),
+    dataSetMap: idMapSchema.optional().describe('Explicit source dataSetId -> target dataSetId mapping; unmapped datasets are matched by name.'),
+    menuBoardMap: idMapSchema.optional().describe('Explicit source menuId -> target menuId mapping; unmapped menu boards are matched by name.'),
+  }),
+  outputSchema: z.union([successSchema, errorSchema]),
+  execute: async ({ context }): Promise<z.infer<typeof successSchema> | z.infer<typeof errorSchema>> => {
+    if (!config.cmsUrl) {
+      logger.error('importLayoutBundle: CMS URL is not configured');
+      return { success: false, message: 'CMS URL is not configured' };
+    }
+
+    const warnings: string[] = [];
+    const idMap = {
+      media: {} as IdMap,
+      dataSets: { ...(context.dataSetMap ?? {}) } as IdMap,
+      menuBoards: { ...(context.menuBoardMap ?? {}) } as IdMap,
+      regions: {} as IdMap,
+      widgets: {} as IdMap,
+    };
+    let createdLayoutId: number | undefined;
+
+    try {
+      const { bundle, baseDir } = await loadBundle(context.bundleName, context.layoutFile);
+      const { layout } = bundle;
+      const refs = bundle.bundle ?? { media: [], dataSets: [], menuBoards: [] };
+
+      // 1) Media: reuse identical library items or upload the bundled files
+      for (const media of refs.media) {
+        if (context.reuseExistingMedia && media.md5) {
+          const existing = await xiboClient.get<any[]>('/library', { media: media.name });
+          const match = existing.success && Array.isArray(existing.data)
+            ? existing.data.find((m) => m.md5 === media.md5)
+            : undefined;
+          if (match) {
+            idMap.media[media.mediaId] = Number(match.mediaId);
+            continue;
+          }
+        }
+        if (!media.file) {
+          warnings.push(`Media "${media.name}" (${media.mediaId}) is not included in the bundle and was not found in the library.`);
+          continue;
+        }
+        const uploaded = await uploadMediaFile(path.join(baseDir, media.file), { fields: { name: media.name, folderId: context.folderId } });
+        if (!uploaded.success) {
+          throw new ImportStepError(`Uploading media "${media.name}" failed: ${uploaded.message}`, uploaded.errorData ?? uploaded.error);
+        }
+        idMap.media[media.mediaId] = uploaded.media.mediaId;
+      }
+
+      // 2) DataSets and menu boards: explicit mapping first, then exact name match
+      for (const dataSet of refs.dataSets) {
+        if (idMap.dataSets[dataSet.dataSetId]) continue;
+        const found = await xiboClient.get<any[]>('/dataset', { dataSet: dataSet.name });
+        const match = found.success && Array.isArray(found.data) ? found.data.find((d) => d.dataSet === dataSet.name) : undefined;
+        if (match) idMap.dataSets[dataSet.dataSetId] = Number(match.dataSetId);
+        else warnings.push(`DataSet "${dataSet.name}" was not found on the target CMS; widgets using it keep the source ID.`);
+      }
+      for (const menuBoard of refs.menuBoards) {
+        if (idMap.menuBoards[menuBoard.menuId]) continue;
+        const found = await xiboClient.get<any[]>('/menuboards', { name: menuBoard.name });
+        const match = found.success && Array.isArray(found.data) ? found.data.find((m) => m.name === menuBoard.name) : undefined;
+        if (match) idMap.menuBoards[menuBoard.menuId] = Number(match.menuId);
+        else warnings.push(`Menu board "${menuBoard.name}" was not found on the target CMS; widgets using it keep the source ID.`);
+      }
+
+      // Replaces referenced IDs in widget options with their target IDs
+      const remapOptions = (options: Record<string, any>): Record<string, any> => {
+        const remapped = { ...options };
+        for (const [key, kind] of Object.entries(REFERENCE_OPTION_KEYS)) {
+          if (remapped[key] === undefined || remapped[key] === null || remapped[key] === '') continue;
+          const target = idMap[kind][String(remapped[key])];
+          if (target) remapped[key] = target;
+        }
+        return remapped;
+      };
+
+      // 3) Layout, created as a draft at the bundle's resolution
+      const resolutions = unwrap(
+        await xiboClient.get<any[]>('/resolution', { width: layout.width, height: layout.height }),
+        'Resolution lookup'
+      ).data;
+      const resolutionId = Array.isArray(resolutions) ? resolutions[0]?.resolutionId : undefined;
+      if (!resolutionId) {
+        throw new ImportStepError(`No resolution of ${layout.width}x${layout.height} exists on the target CMS.`);
+      }
+
+      const draft = unwrap(
+        await xiboClient.request<any>('/layout', {
+          method: 'POST',
+          form: {
+            name: context.name || layout.name,
+            description: layout.description,
+            resolutionId,
+            code: layout.code ?? undefined,
+            folderId: context.folderId,
+            returnDraft: 'true',
+          },
+        }),
+        'Layout creation'
+      ).data;
+      const draftLayoutId = Number(draft.layoutId);
+      const layoutId = Number(draft.parentId ?? draft.layoutId);
+      createdLayoutId = layoutId;
+
+      // Remove any default region the CMS adds so only the bundle's regions remain
+      for (const region of Array.isArray(draft.regions) ? draft.regions : []) {
+        unwrap(await xiboClient.request(`/region/${region.regionId}`, { method: 'DELETE' }), 'Default region removal');
+      }
+
+      if (layout.backgroundColor || layout.backgroundImageId) {
+        const backgroundImageId = layout.backgroundImageId ? idMap.media[layout.backgroundImageId] : undefined;
+        if (layout.backgroundImageId && !backgroundImageId) {
+          warnings.push('The background image could not be remapped and was not set.');
+        }
+        unwrap(
+          await xiboClient.request(`/layout/background/${draftLayoutId}`, {
+            method: 'PUT',
+            form: {
+              backgroundColor: layout.backgroundColor || '#000000',
+              backgroundImageId,
+              backgroundzIndex: layout.backgroundzIndex ?? 0,
+              resolutionId,
+            },
+          }),
+          'Background update'
+        );
+      }
+
+      // 4) Regions and their widgets
+      for (const region of [...layout.regions].sort((a, b) => a.zIndex - b.zIndex)) {
+        const regionType = region.type && REGION_TYPES.has(region.type) ? region.type : 'playlist';
+        const created = unwrap(
+          await xiboClient.request<any>(`/region/${draftLayoutId}`, {
+            method: 'POST',
+            form: { type: regionType, width: region.width, height: region.height, top: region.top, left: region.left },
+          }),
+          `Region "${region.name}" creation`
+        ).data;
+        const regionId = Number(created.regionId);
+        const playlistId = Number(created.regionPlaylist?.playlistId);
+        if (region.sourceRegionId !== undefined) idMap.regions[region.sourceRegionId] = regionId;
+
+        unwrap(
+          await xiboClient.request(`/region/${regionId}`, {
+            method: 'PUT',
+            form: {
+              name: region.name,
+              type: regionType,
+              width: region.width,
+              height: region.height,
+              top: region.top,
+              left: region.left,
+              zIndex: region.zIndex,
+              loop: region.options.loop ?? 0,
+              transitionType: region.options.transitionType,
+              transitionDuration: region.options.transitionDuration,
+              transitionDirection: region.options.transitionDirection,
+            },
+          }),
+          `Region "${region.name}" update`
+        );
+
+        const widgets = region.playlists.flatMap((playlist) => playlist.widgets);
+        for (const [index, widget] of widgets.entries()) {
+          let widgetId: number;
+          if (LIBRARY_WIDGET_TYPES.has(widget.type)) {
+            const mediaId = widget.mediaIds.length ? idMap.media[widget.mediaIds[0]] : undefined;
+            if (!mediaId) {
+              warnings.push(`A ${widget.type} widget in region "${region.name}" was skipped because its media could not be remapped.`);
+              continue;
+            }
+            const playlist = unwrap(
+              await xiboClient.request<any>(`/playlist/library/assign/${playlistId}`, {
+                method: 'POST',
+                form: { media: [mediaId], duration: widget.duration, useDuration: widget.useDuration ?? 1, displayOrder: index + 1 },
+              }),
+              `Assigning media to region "${region.name}"`
+            ).data;
+            const assigned = (Array.isArray(playlist?.widgets) ? playlist.widgets : []).map((w: any) => Number(w.widgetId));
+            widgetId = Math.max(...assigned);
+          } else {
+            const type = WIDGET_TYPE_ALIASES[widget.type] ?? widget.type;
+            const result = unwrap(
+              await xiboClient.request<any>(`/playlist/widget/${type}/${playlistId}`, {
+                method: 'POST',
+                form: { displayOrder: index + 1 },
+              }),
+              `Adding a ${type} widget to region "${region.name}"`
+            );
+            const location = result.headers.get('Location');
+            widgetId = Number(result.data?.widgetId ?? (location ? location.split('/').pop() : NaN));
+          }
+          if (!Number.isFinite(widgetId)) {
+            throw new ImportStepError(`The CMS did not return an ID for a ${widget.type} widget in region "${region.name}".`);
+          }
+          if (widget.sourceWidgetId !== undefined) idMap.widgets[widget.sourceWidgetId] = widgetId;
+
+          unwrap(
+            await xiboClient.request(`/playlist/widget/${widgetId}`, {
+              method: 'PUT',
+              form: {
+                ...remapOptions(widget.options),
+                name: widget.name ?? undefined,
+                useDuration: widget.useDuration ?? 1,
+                duration: widget.duration,
+              },
+            }),
+            `Updating a ${widget.type} widget in region "${region.name}"`
+          );
+
+          for (const audio of widget.audio) {
+            const audioMediaId = idMap.media[audio.mediaId];
+            if (!audioMediaId) {
+              warnings.push(`Audio for a ${widget.type} widget in region "${region.name}" could not be remapped.`);
+              continue;
+            }
+            unwrap(
+              await xiboClient.request(`/playlist/widget/audio/${widgetId}`, {
+                method: 'PUT',
+                form: { mediaId: audioMediaId, volume: audio.volume, loop: audio.loop },
+              }),
+              'Widget audio update'
+            );
+          }
+        }
+      }
+
+      // 5) Tags and actions
+      if (layout.tags.length > 0) {
+        unwrap(await xiboClient.request(`/layout/${layoutId}/tag`, { method: 'POST', form: { tag: layout.tags } }), 'Tagging');
+      }
+
+      for (const action of layout.actions) {
+        const mapId = (kind: string | null, id: number | null): number | null | undefined => {
+          if (id === null || kind === null || kind === 'screen') return null;
+          if (kind === 'layout') return draftLayoutId;
+          if (kind === 'region') return idMap.regions[id];
+          if (kind === 'widget') return idMap.widgets[id];
+          return undefined;
+        };
+        const sourceId = mapId(action.source, action.sourceId);
+        const targetId = mapId(action.target, action.targetId);
+        const widgetId = action.widgetId !== null ? idMap.widgets[action.widgetId] : null;
+        if (sourceId === undefined || targetId === undefined || widgetId === undefined) {
+          warnings.push(`A ${action.actionType} action could not be remapped and was skipped.`);
+          continue;
+        }
+        unwrap(
+          await xiboClient.request('/action', {
+            method: 'POST',
+            form: {
+              layoutId: draftLayoutId,
+              actionType: action.actionType,
+              target: action.target,
+              targetId: targetId ?? undefined,
+              source: action.source,
+              sourceId: sourceId ?? undefined,
+              triggerType: action.triggerType,
+              triggerCode: action.triggerCode,
+              widgetId: widgetId ?? undefined,
+              layoutCode: action.layoutCode,
+            },
+          }),
+          `Adding a ${action.actionType} action`
+        );
+      }
+
+      // 6) Publish
+      if (context.publish) {
+        unwrap(await xiboClient.request(`/layout/publish/${layoutId}`, { method: 'PUT', form: { publishNow: 1 } }), 'Publishing');
+      }
+
+      logger.info({ layoutId, draftLayoutId, warnings: warnings.length }, 'Layout bundle imported');
+      return {
+        success: true,
+        message: `Imported layout "${context.name || layout.name}" as layout ${layoutId}${context.publish ? '' : ' (draft, not published)'}.`,
+        data: { layoutId, draftLayoutId, published: Boolean(context.publish), idMap, warnings },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const cleanupHint = createdLayoutId ? ` Layout ${createdLayoutId} was partially created and may need to be deleted.` : '';
+      logger.error({ error: errorMessage, createdLayoutId }, 'importLayoutBundle: Import failed');
+      return {
+        success: false,
+        message: `Failed to import layout bundle: ${errorMessage}${cleanupHint}`,
+        error: errorMessage,
+        errorData: error instanceof ImportStepError ? error.errorData : undefined,
+      };
+    }
+  },
+});
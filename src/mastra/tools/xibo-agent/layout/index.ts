@@ -43,6 +43,8 @@ export { deleteRegion } from './deleteRegion';
 export { addDrawerRegion } from './addDrawerRegion';
 export { saveDrawerRegion } from './saveDrawerRegion';
 export { positionAllRegions } from './positionAllRegions';
+export { exportLayoutBundle } from './exportLayoutBundle';
+export { importLayoutBundle } from './importLayoutBundle';
 
 
 
@@ -0,0 +1,246 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Layout Bundle Format
+ *
+ * Shared schema and helpers for `exportLayoutBundle` / `importLayoutBundle`.
+ * A bundle is a directory under `persistent_data/layout-bundles/<bundleName>/` holding
+ * `bundle.json` and a `media/` folder with the referenced library files.
+ *
+ * `bundle.json` uses the same `{ layout, schedule }` shape as the `*.xibo-layout.json`
+ * files written by the signage ads planner, extended with the CMS-specific details
+ * (widget options, actions, background) and a `bundle` section listing the media,
+ * datasets and menu boards the layout depends on so their IDs can be remapped.
+ */
+
+import { z } from 'zod';
+import path from 'path';
+import { config } from '../config';
+
+export const BUNDLE_FILE_NAME = 'bundle.json';
+export const BUNDLE_MEDIA_DIR = 'media';
+export const BUNDLE_FORMAT_VERSION = 1;
+
+/**
+ * Widget option keys whose values are IDs of other CMS objects.
+ */
+export const REFERENCE_OPTION_KEYS = {
+  dataSetId: 'dataSets',
+  menuId: 'menuBoards',
+  mediaId: 'media',
+} as const;
+
+/**
+ * Widget types that are created by assigning a library file to a playlist.
+ */
+export const LIBRARY_WIDGET_TYPES = new Set(['image', 'video', 'audio', 'pdf', 'powerpoint', 'flash', 'genericfile']);
+
+/**
+ * Short widget type names used by the signage ads planner, mapped to Xibo module types.
+ */
+export const WIDGET_TYPE_ALIASES: Record<string, string> = {
+  ticker: 'rss-ticker',
+  clock: 'clock-digital',
+};
+
+const bundleWidgetSchema = z.object({
+  type: z.string(),
+  name: z.string().nullable().optional(),
+  duration: z.number().default(10),
+  useDuration: z.number().optional(),
+  options: z.record(z.any()).default({}),
+  contentHint: z.string().optional(),
+  sourceWidgetId: z.number().optional(),
+  mediaIds: z.array(z.number()).default([]),
+  audio: z.array(z.object({ mediaId: z.number(), volume: z.number(), loop: z.number() })).default([]),
+});
+
+const bundleRegionSchema = z.object({
+  name: z.string(),
+  type: z.string().optional(),
+  left: z.number().default(0),
+  top: z.number().default(0),
+  width: z.number(),
+  height: z.number(),
+  zIndex: z.number().default(0),
+  options: z.record(z.any()).default({}),
+  sourceRegionId: z.number().optional(),
+  playlists: z.array(z.object({
+    name: z.string(),
+    widgets: z.array(bundleWidgetSchema),
+  })),
+});
+
+const bundleActionSchema = z.object({
+  actionType: z.string(),
+  triggerType: z.string().nullable(),
+  triggerCode: z.string().nullable(),
+  source: z.string().nullable(),
+  sourceId: z.number().nullable(),
+  target: z.string().nullable(),
+  targetId: z.number().nullable(),
+  widgetId: z.number().nullable(),
+  layoutCode: z.string().nullable(),
+});
+
+/**
+ * Schema of `bundle.json`.
+ */
+export const layoutBundleSchema = z.object({
+  layout: z.object({
+    name: z.string(),
+    description: z.string().default(''),
+    width: z.number(),
+    height: z.number(),
+    orientation: z.string().optional(),
+    tags: z.array(z.string()).default([]),
+    code: z.string().nullable().optional(),
+    backgroundColor: z.string().nullable().optional(),
+    backgroundImageId: z.number().nullable().optional(),
+    backgroundzIndex: z.number().optional(),
+    sourceLayoutId: z.number().optional(),
+    regions: z.array(bundleRegionSchema),
+    actions: z.array(bundleActionSchema).default([]),
+  }),
+  schedule: z.record(z.any()).default({}),
+  bundle: z.object({
+    version: z.number(),
+    exportedAt: z.string(),
+    sourceCmsUrl: z.string(),
+    media: z.array(z.object({
+      mediaId: z.number(),
+      name: z.string(),
+      mediaType: z.string(),
+      md5: z.string().nullable(),
+      file: z.string().nullable().describe('Path of the file relative to the bundle directory, null if it was not exported.'),
+    })).default([]),
+    dataSets: z.array(z.object({ dataSetId: z.number(), name: z.string(), code: z.string().nullable() })).default([]),
+    menuBoards: z.array(z.object({ menuId: z.number(), name: z.string(), code: z.string().nullable() })).default([]),
+  }).optional().describe('Absent in planner-generated files, which reference no CMS objects.'),
+});
+
+export type LayoutBundle = z.infer<typeof layoutBundleSchema>;
+export type BundleWidget = z.infer<typeof bundleWidgetSchema>;
+
+/**
+ * Resolves a bundle name to its directory, rejecting names that escape the bundles directory.
+ */
+export function resolveBundleDir(bundleName: string): string | null {
+  const root = path.resolve(config.layoutBundlesDir);
+  const dir = path.resolve(root, bundleName);
+  return dir.startsWith(root + path.sep) ? dir : null;
+}
+
+/**
+ * Converts Xibo's `[{ option, value }]` arrays into a plain object.
+ */
+export function optionsToRecord(options: unknown): Record<string, any> {
+  const record: Record<string, any> = {};
+  if (Array.isArray(options)) {
+    for (const o of options) {
+      if (o && typeof o.option === 'string') record[o.option] = o.value;
+    }
+  }
+  return record;
+}
+
+/**
+ * Builds the bundle `layout` section from a layout fetched with regions, playlists,
+ * widgets, widget options and tags embedded.
+ */
+export function layoutToBundle(layout: any, actions: any[]): LayoutBundle['layout'] {
+  const width = Number(layout.width) || 0;
+  const height = Number(layout.height) || 0;
+  const regions = (Array.isArray(layout.regions) ? layout.regions : []).map((region: any) => {
+    const playlist = region.regionPlaylist ?? {};
+    const widgets = (Array.isArray(playlist.widgets) ? playlist.widgets : [])
+      .slice()
+      .sort((a: any, b: any) => Number(a.displayOrder) - Number(b.displayOrder))
+      .map((widget: any): BundleWidget => {
+        const options = optionsToRecord(widget.widgetOptions);
+        return {
+          type: String(widget.type),
+          name: options.name ?? null,
+          duration: Number(widget.duration) || 0,
+          useDuration: Number(widget.useDuration) || 0,
+          options,
+          sourceWidgetId: Number(widget.widgetId),
+          mediaIds: (Array.isArray(widget.mediaIds) ? widget.mediaIds : []).map(Number),
+          audio: (Array.isArray(widget.audio) ? widget.audio : []).map((a: any) => ({
+            mediaId: Number(a.mediaId),
+            volume: Number(a.volume),
+            loop: Number(a.loop),
+          })),
+        };
+      });
+    return {
+      name: String(region.name || `Region ${region.regionId}`),
+      type: region.type ?? undefined,
+      left: Number(region.left) || 0,
+      top: Number(region.top) || 0,
+      width: Number(region.width) || 0,
+      height: Number(region.height) || 0,
+      zIndex: Number(region.zIndex) || 0,
+      options: optionsToRecord(region.regionOptions),
+      sourceRegionId: Number(region.regionId),
+      playlists: [{ name: String(playlist.name || region.name || ''), widgets }],
+    };
+  });
+
+  return {
+    name: String(layout.layout),
+    description: String(layout.description ?? ''),
+    width,
+    height,
+    orientation: layout.orientation || (height > width ? 'portrait' : 'landscape'),
+    tags: (Array.isArray(layout.tags) ? layout.tags : []).map((t: any) => (t.value ? `${t.tag}|${t.value}` : String(t.tag))),
+    code: layout.code ?? null,
+    backgroundColor: layout.backgroundColor ?? null,
+    backgroundImageId: layout.backgroundImageId ? Number(layout.backgroundImageId) : null,
+    backgroundzIndex: Number(layout.backgroundzIndex) || 0,
+    sourceLayoutId: Number(layout.layoutId),
+    regions,
+    actions: actions.map((a: any) => ({
+      actionType: String(a.actionType),
+      triggerType: a.triggerType ?? null,
+      triggerCode: a.triggerCode ?? null,
+      source: a.source ?? null,
+      sourceId: a.sourceId ?? null,
+      target: a.target ?? null,
+      targetId: a.targetId ?? null,
+      widgetId: a.widgetId ?? null,
+      layoutCode: a.layoutCode ?? null,
+    })),
+  };
+}
+
+/**
+ * Collects the IDs of every media item, dataset and menu board the layout refers to.
+ */
+export function collectReferences(layout: LayoutBundle['layout']): { media: number[]; dataSets: number[]; menuBoards: number[] } {
+  const refs = { media: new Set<number>(), dataSets: new Set<number>(), menuBoards: new Set<number>() };
+  if (layout.backgroundImageId) refs.media.add(layout.backgroundImageId);
+  for (const region of layout.regions) {
+    for (const playlist of region.playlists) {
+      for (const widget of playlist.widgets) {
+        widget.mediaIds.forEach((id) => refs.media.add(id));
+        widget.audio.forEach((a) => refs.media.add(a.mediaId));
+        for (const [key, kind] of Object.entries(REFERENCE_OPTION_KEYS)) {
+          const id = Number(widget.options[key]);
+          if (Number.isFinite(id) && id > 0) refs[kind].add(id);
+        }
+      }
+    }
+  }
+  return { media: [...refs.media], dataSets: [...refs.dataSets], menuBoards: [...refs.menuBoards] };
+}
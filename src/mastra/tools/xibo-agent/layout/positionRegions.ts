@@ -14,6 +14,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from "../../../logger";
 
@@ -84,7 +85,7 @@ export const positionRegions = createTool({
       formData.append("regions[]", JSON.stringify(region));
     });
 
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       method: "POST", // This endpoint uses POST, not PUT
       headers,
       body: formData,
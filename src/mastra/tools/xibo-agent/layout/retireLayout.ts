@@ -22,6 +22,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -79,7 +80,7 @@ export const retireLayout = createTool({
     logger.debug(`Sending PUT request to ${url}`);
 
     // Send retirement request to CMS
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       method: 'PUT',
       headers,
     });
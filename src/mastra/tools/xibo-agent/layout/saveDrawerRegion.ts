@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from '../../../logger';
 
 // Schema for region options
@@ -188,7 +189,7 @@ export const saveDrawerRegion = createTool({
         body: formData.toString()
       });
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'PUT',
         headers: {
           ...headers,
@@ -14,6 +14,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -74,7 +75,7 @@ export const setLayoutEnableStat = createTool({
     const formData = new URLSearchParams();
     formData.append('enableStat', context.enableStat.toString());
 
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       method: 'PUT',
       headers: {
         ...headers,
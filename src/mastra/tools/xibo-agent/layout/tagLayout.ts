@@ -22,6 +22,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -85,7 +86,7 @@ export const tagLayout = createTool({
     });
 
     // Send tag request to CMS
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       method: "POST",
       headers: {
         ...headers,
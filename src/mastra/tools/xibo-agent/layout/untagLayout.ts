@@ -22,6 +22,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -87,7 +88,7 @@ export const untagLayout = createTool({
     });
 
     // Send untag request to CMS
-    const response = await fetch(url, {
+    const response = await xiboClient.fetch(url, {
       method: "POST",
       headers: {
         ...headers,
@@ -14,49 +14,16 @@
  * Add Media Tool
  *
  * This module provides a tool to upload a local media file to the Xibo CMS library.
- * It implements the 'POST /library' endpoint and handles the multipart/form-data upload.
+ * It implements the 'POST /library' endpoint with `uploadMediaFile()`, which also resizes
+ * images and checks or transcodes video and audio before the upload.
  */
 import { z } from "zod";
 import { createTool } from '@mastra/core';
-import { logger } from '../../../logger';
-import { getAuthHeaders } from '../auth';
 import { config } from '../config';
-import { librarySchema } from './schemas';
-import * as fs from 'fs/promises';
+import { imageResizeSchema } from '../utility/imageProcessing';
+import { PLAYER_TYPES, TRANSCODE_MODES } from '../mediaCompatibility';
+import { mediaUploadResponseSchema, uploadMediaFile } from '../mediaUpload';
 import * as path from 'path';
-import axios, { AxiosError } from 'axios';
-import FormData from 'form-data';
-
-// Schema for a successful file upload entry in the response
-const uploadSuccessSchema = z.object({
-    name: z.string(),
-    size: z.number(),
-    type: z.string(),
-    mediaId: z.number(),
-    storedas: z.string(),
-    duration: z.number(),
-    retired: z.number(),
-    fileSize: z.number(),
-    md5: z.string(),
-    enableStat: z.string().optional(),
-    width: z.number().optional(),
-    height: z.number().optional(),
-    mediaType: z.string(),
-    fileName: z.string(),
-});
-
-// Schema for a failed file upload entry in the response
-const uploadErrorSchema = z.object({
-    name: z.string(),
-    size: z.number(),
-    type: z.string(),
-    error: z.string(),
-});
-
-// This specific tool has a unique response structure which can contain success and error objects.
-const addMediaResponseSchema = z.object({
-    files: z.array(z.union([uploadSuccessSchema, uploadErrorSchema])),
-});
 
 // Schema for the input, based on the POST /library endpoint parameters
 const inputSchema = z.object({
@@ -74,13 +41,25 @@ const inputSchema = z.object({
     deleteOnExpiry: z.number().optional().describe("Flag (0, 1), set to 1 to remove the Widget from the Playlist when the widgetToDt has been reached."),
     applyToMedia: z.number().optional().describe("Flag (0, 1), set to 1 to apply the widgetFromDt as the expiry date on the Media."),
     folderId: z.number().optional().describe("Folder ID to which this object should be assigned to."),
+    resize: imageResizeSchema.optional().describe("Crop, pad or scale a PNG/JPEG image to a resolution or size before uploading it."),
+    transcode: z.enum(TRANSCODE_MODES).optional().describe("For video/audio: 'ifIncompatible' converts the file to H.264/AAC when a player cannot play it, 'always' converts it anyway, 'never' (default) only checks it."),
+    playerTypes: z.array(z.enum(PLAYER_TYPES)).optional().describe("Player types to check video/audio against. Defaults to the types of the displays in the CMS."),
+    targetLayoutId: z.number().optional().describe("Layout whose resolution transcoded video is scaled and letterboxed to."),
 });
 
 // The API returns an array containing the new media object.
 const outputSchema = z.object({
     success: z.boolean(),
     message: z.string().optional(),
-    data: addMediaResponseSchema.optional(),
+    data: mediaUploadResponseSchema.optional(),
+    inspection: z.object({
+        fileName: z.string().describe("Name of the uploaded file."),
+        transcoded: z.boolean(),
+        duration: z.number().describe("Duration set on the media, in seconds."),
+        original: z.any().describe("Codecs, resolution, frame rate, bitrate and length of the original file."),
+        probe: z.any().describe("The same for the uploaded file."),
+        compatibility: z.array(z.object({ playerType: z.string(), compatible: z.boolean(), problems: z.array(z.string()) })),
+    }).optional().describe("Video/audio inspection and player compatibility."),
     error: z.any().optional(),
     errorData: z.any().optional(),
 });
@@ -89,7 +68,6 @@ const outputSchema = z.object({
  * Tool for Uploading a Local Media File
  *
  * This tool uploads a file from the local filesystem to the Xibo Library.
- * It uses the 'form-data' library for robust multipart/form-data request creation.
  */
 export const addMedia = createTool({
     id: 'add-media',
@@ -97,93 +75,13 @@ export const addMedia = createTool({
     inputSchema,
     outputSchema,
     execute: async ({ context: input }) => {
-        const { fileName, filePath, ...otherParams } = input;
-
-        if (!config.cmsUrl) {
-            logger.error({}, 'addMedia: CMS URL is not configured.');
-            return { success: false, message: 'CMS URL is not configured.' };
-        }
-
-        const absoluteFilePath = path.resolve(config.projectRoot, filePath, fileName);
-
-        try {
-            // Read the file from the local path
-            const fileBuffer = await fs.readFile(absoluteFilePath);
-            
-            const form = new FormData();
-
-            // Append the file with an explicit filename. This is the key to solving the issue.
-            form.append('files', fileBuffer, { filename: fileName });
-
-            // Append other optional parameters
-            for (const [key, value] of Object.entries(otherParams)) {
-                if (value !== undefined) {
-                    form.append(key, String(value));
-                }
-            }
-
-            const url = `${config.cmsUrl}/api/library`;
-            logger.debug(`addMedia: Posting to URL: ${url}`);
-            
-            const authHeaders = await getAuthHeaders();
-            
-            // Use form.getHeaders() to get the correct Content-Type with boundary
-            const response = await axios.post(url, form, {
-                headers: {
-                    ...authHeaders,
-                    ...form.getHeaders(),
-                },
-            });
-
-            // The success response for adding a single media item is an object with a "files" key containing an array.
-            const parsedData = addMediaResponseSchema.safeParse(response.data);
-
-            if (!parsedData.success) {
-                logger.error(
-                    { error: parsedData.error.format(), rawData: response.data },
-                    'addMedia: Zod validation failed'
-                );
-                return { success: false, message: 'Validation failed for the API response.', error: parsedData.error.format(), errorData: response.data };
-            }
-
-            // Check for business logic errors within the successful response
-            const firstError = parsedData.data.files.find(file => 'error' in file && file.error);
-            if (firstError && 'error' in firstError) {
-                logger.warn({ error: firstError.error, rawData: parsedData.data }, 'addMedia: Business logic error reported by CMS');
-                return {
-                    success: false,
-                    message: firstError.error,
-                    errorData: parsedData.data,
-                };
-            }
-
-            return { success: true, data: parsedData.data };
-
-        } catch (error) {
-            if (error instanceof AxiosError) {
-                const errorDetails = {
-                    status: error.response?.status,
-                    data: error.response?.data,
-                    headers: error.response?.headers,
-                };
-                logger.error({ error: error.message, details: errorDetails }, 'addMedia: HTTP error');
-                return { 
-                    success: false, 
-                    message: `HTTP error! status: ${error.response?.status}`, 
-                    error: error.message,
-                    errorData: error.response?.data 
-                };
-            }
-            
-            let errorMessage = "An unexpected error occurred.";
-            if (error instanceof Error) {
-                errorMessage = error.message;
-                if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-                    errorMessage = `File not found at path: ${absoluteFilePath}`;
-                }
-            }
-            logger.error({ error: errorMessage, details: error }, 'addMedia: Unexpected error');
-            return { success: false, message: errorMessage, errorData: error };
+        const { fileName, filePath, resize, transcode, playerTypes, targetLayoutId, ...fields } = input;
+        const result = await uploadMediaFile(path.resolve(config.projectRoot, filePath, fileName), {
+            fileName, fields, resize, transcode, playerTypes, targetLayoutId,
+        });
+        if (!result.success) {
+            return result;
         }
+        return { success: true, message: result.message, data: result.data, inspection: result.inspection };
     },
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,64 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module applyLibraryCleanup
+ * @description Provides a tool that runs the actions of a library cleanup plan made by
+ * auditLibrary or planLibraryCleanup.
+ */
+import { z } from "zod";
+import { createTool } from '@mastra/core';
+import { logger } from '../../../logger';
+import { LIBRARY_ACTIONS, applyLibraryCleanup as runPlan } from '../libraryAudit';
+
+const outputSchema = z.object({
+    success: z.boolean().describe("Indicates whether the operation was successful."),
+    message: z.string().describe("A summary of the actions run."),
+    data: z.object({
+        results: z.array(z.object({
+            mediaId: z.number(),
+            name: z.string(),
+            action: z.enum(LIBRARY_ACTIONS),
+            status: z.enum(['done', 'skipped', 'failed']),
+            message: z.string().optional(),
+        })),
+    }).optional(),
+    error: z.any().optional(),
+});
+
+/**
+ * Tool for applying a library cleanup plan.
+ */
+export const applyLibraryCleanup = createTool({
+    id: 'apply-library-cleanup',
+    description: 'Run the actions of a library cleanup plan from auditLibrary or planLibraryCleanup after the user approved them: tags and folder moves first, then retirements, then deletions. Media deleted or changed since the plan was made are skipped.',
+    inputSchema: z.object({
+        planId: z.string().describe("Plan ID returned by auditLibrary or planLibraryCleanup."),
+        excludeMediaIds: z.array(z.number()).optional().describe("Media whose actions the user did not approve."),
+    }),
+    outputSchema,
+    execute: async ({ context }) => {
+        try {
+            const { results } = await runPlan(context.planId, { excludeMediaIds: context.excludeMediaIds });
+            const count = (status: string) => results.filter((r) => r.status === status).length;
+            return {
+                success: count('failed') === 0,
+                message: `${count('done')} actions done, ${count('skipped')} skipped, ${count('failed')} failed.`,
+                data: { results },
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error({ planId: context.planId, error: errorMessage }, "applyLibraryCleanup: Failed to apply the library cleanup");
+            return { success: false, message: `Failed to apply the library cleanup: ${errorMessage}`, error: errorMessage };
+        }
+    },
+});
@@ -0,0 +1,66 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module applyMediaTags
+ * @description Provides a tool that applies the reviewed tag and description suggestions of
+ * autoTagMedia.
+ */
+import { z } from "zod";
+import { createTool } from '@mastra/core';
+import { logger } from '../../../logger';
+import { applyMediaTagging, mediaTagOverrideSchema } from '../mediaTagging';
+
+const outputSchema = z.object({
+    success: z.boolean().describe("Indicates whether the operation was successful."),
+    message: z.string().describe("A summary of the tags applied."),
+    data: z.object({
+        results: z.array(z.object({
+            mediaId: z.number(),
+            name: z.string(),
+            status: z.enum(['done', 'skipped', 'failed']),
+            tags: z.array(z.string()),
+            description: z.string().nullable(),
+            message: z.string().optional(),
+        })),
+    }).optional(),
+    error: z.any().optional(),
+});
+
+/**
+ * Tool for applying reviewed media tags.
+ */
+export const applyMediaTags = createTool({
+    id: 'apply-media-tags',
+    description: 'Apply the tag and description suggestions of autoTagMedia after the user reviewed them. Media the user rejected can be excluded, and tags or descriptions the user corrected passed as overrides; override tags must be in the vocabulary. Media changed since the suggestions were made are skipped.',
+    inputSchema: z.object({
+        planId: z.string().describe("Plan ID returned by autoTagMedia."),
+        excludeMediaIds: z.array(z.number()).optional().describe("Media whose suggestions the user did not approve."),
+        overrides: z.array(mediaTagOverrideSchema).optional().describe("Corrections made by the user."),
+    }),
+    outputSchema,
+    execute: async ({ context }) => {
+        try {
+            const { results } = await applyMediaTagging(context.planId, { excludeMediaIds: context.excludeMediaIds, overrides: context.overrides });
+            const count = (status: string) => results.filter((r) => r.status === status).length;
+            return {
+                success: count('failed') === 0,
+                message: `${count('done')} media tagged, ${count('skipped')} skipped, ${count('failed')} failed.`,
+                data: { results },
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error({ planId: context.planId, error: errorMessage }, "applyMediaTags: Failed to apply the media tags");
+            return { success: false, message: `Failed to apply the media tags: ${errorMessage}`, error: errorMessage };
+        }
+    },
+});
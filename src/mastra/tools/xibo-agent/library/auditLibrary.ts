@@ -0,0 +1,94 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module auditLibrary
+ * @description Provides a tool that scans the whole media library for unused, unscheduled,
+ * duplicate and oversized media and suggests a cleanup plan.
+ */
+import { z } from "zod";
+import { createTool } from '@mastra/core';
+import { logger } from '../../../logger';
+import { auditLibrary as runAudit, formatLibraryActionTable, libraryActionSchema, libraryAuditSchema } from '../libraryAudit';
+
+const mediaEntrySchema = z.object({
+    mediaId: z.number(),
+    name: z.string(),
+    mediaType: z.string(),
+    fileSize: z.number(),
+    folderId: z.number().nullable(),
+    retired: z.boolean(),
+    createdDt: z.string(),
+    layouts: z.array(z.number()).describe("Layouts using the media."),
+    playlists: z.array(z.number()).describe("Library playlists containing the media."),
+    menuBoards: z.array(z.number()).describe("Menu boards showing the media for a category or product."),
+    dataSets: z.array(z.number()).describe("DataSets holding the media in a library image column."),
+    scheduled: z.boolean().describe("Whether a layout using the media is scheduled now or later."),
+});
+
+const outputSchema = z.object({
+    success: z.boolean().describe("Indicates whether the operation was successful."),
+    message: z.string().describe("A summary of the audit."),
+    data: z.object({
+        scanned: z.number(),
+        totalSize: z.number().describe("Bytes used by the audited media."),
+        reclaimableSize: z.number().describe("Bytes freed by deleting the unused media."),
+        unused: z.array(mediaEntrySchema),
+        unscheduled: z.array(mediaEntrySchema),
+        duplicates: z.array(z.object({ md5: z.string(), fileSize: z.number(), keepMediaId: z.number(), mediaIds: z.array(z.number()) })),
+        nearDuplicates: z.array(z.object({ mediaIds: z.array(z.number()), distance: z.number() })),
+        oversized: z.array(z.object({
+            mediaId: z.number(), name: z.string(), mediaType: z.string(), fileSize: z.number(),
+            width: z.number().nullable(), height: z.number().nullable(), reasons: z.array(z.string()),
+        })),
+        planId: z.string().describe("Pass to applyLibraryCleanup to run the suggested actions once the user approves them."),
+        expiresAt: z.string(),
+        actions: z.array(libraryActionSchema.extend({ name: z.string() })),
+        actionTable: z.string().describe("Markdown table of the suggested actions; show it to the user before applying."),
+        warnings: z.array(z.string()),
+    }).optional(),
+    error: z.any().optional(),
+});
+
+/**
+ * Tool for auditing the media library.
+ */
+export const auditLibrary = createTool({
+    id: 'audit-library',
+    description: 'Scan the whole media library: find media not used by any layout, playlist, menu board or DataSet image column, media only in unscheduled layouts, exact duplicates (same MD5), near-duplicate images (perceptual hash) and files over the size/resolution budgets. Suggests a cleanup plan (retire, delete, tag, move) that applyLibraryCleanup runs after the user approves it. Nothing is changed.',
+    inputSchema: libraryAuditSchema,
+    outputSchema,
+    execute: async ({ context }) => {
+        try {
+            const report = await runAudit(context);
+            const { plan, ...findings } = report;
+            const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+            return {
+                success: true,
+                message: `Scanned ${report.scanned} media (${mb(report.totalSize)} MB): ${report.unused.length} unused (${mb(report.reclaimableSize)} MB), `
+                    + `${report.unscheduled.length} unscheduled, ${report.duplicates.length} duplicate groups, ${report.nearDuplicates.length} near-duplicate groups, `
+                    + `${report.oversized.length} oversized. ${plan.actions.length} actions suggested.`,
+                data: {
+                    ...findings,
+                    planId: plan.planId,
+                    expiresAt: plan.expiresAt,
+                    actions: plan.actions,
+                    actionTable: formatLibraryActionTable(plan.actions),
+                },
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error({ error: errorMessage }, "auditLibrary: Failed to audit the library");
+            return { success: false, message: `Failed to audit the library: ${errorMessage}`, error: errorMessage };
+        }
+    },
+});
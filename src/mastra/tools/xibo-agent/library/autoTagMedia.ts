@@ -0,0 +1,91 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module autoTagMedia
+ * @description Provides a tool that suggests tags and descriptions for library media with
+ * Gemini vision, from a controlled vocabulary, for review before they are applied.
+ */
+import { z } from "zod";
+import { createTool } from '@mastra/core';
+import { logger } from '../../../logger';
+import { applyMediaTagging, formatMediaTagTable, mediaTaggingSchema, planMediaTagging } from '../mediaTagging';
+
+const outputSchema = z.object({
+    success: z.boolean().describe("Indicates whether the operation was successful."),
+    message: z.string().describe("A summary of the suggestions, or of the tags applied."),
+    data: z.object({
+        planId: z.string().optional().describe("Pass to applyMediaTags once the user approved the suggestions. Absent when they were applied right away."),
+        expiresAt: z.string().optional(),
+        suggestions: z.array(z.object({
+            mediaId: z.number(),
+            name: z.string(),
+            mediaType: z.string(),
+            currentTags: z.array(z.string()),
+            tags: z.array(z.string()).describe("Tags to add ('add' mode), or the complete new tag list ('replace' mode)."),
+            removeTags: z.array(z.string()),
+            rejected: z.array(z.string()).describe("Terms the model used that are not in the vocabulary; they are not applied."),
+            description: z.string().nullable(),
+            error: z.string().optional(),
+        })),
+        suggestionTable: z.string().describe("Markdown table of the suggestions; show it to the user for review."),
+        results: z.array(z.object({
+            mediaId: z.number(),
+            name: z.string(),
+            status: z.enum(['done', 'skipped', 'failed']),
+            tags: z.array(z.string()),
+            description: z.string().nullable(),
+            message: z.string().optional(),
+        })).optional().describe("Outcome per media when review is false."),
+    }).optional(),
+    error: z.any().optional(),
+});
+
+/**
+ * Tool for tagging and describing media automatically.
+ */
+export const autoTagMedia = createTool({
+    id: 'auto-tag-media',
+    description: 'Look at library images and videos (original image or thumbnail) with Gemini vision and suggest tags from the controlled vocabulary (objects, season, colours, brands, language of any text) and a description (alt text). By default untagged media are analysed and the suggestions returned for review; apply them with applyMediaTags. Set review to false to apply them right away.',
+    inputSchema: mediaTaggingSchema.extend({
+        review: z.boolean().default(true).describe("Return the suggestions for review instead of applying them."),
+    }),
+    outputSchema,
+    execute: async ({ context }) => {
+        try {
+            const { review, ...options } = context;
+            const plan = await planMediaTagging(options);
+            const failed = plan.suggestions.filter((s) => s.error).length;
+            const data = { suggestions: plan.suggestions, suggestionTable: formatMediaTagTable(plan) };
+            if (review === false) {
+                const { results } = await applyMediaTagging(plan.planId);
+                const done = results.filter((r) => r.status === 'done').length;
+                return {
+                    success: results.every((r) => r.status !== 'failed') && failed === 0,
+                    message: `Tagged ${done} of ${plan.suggestions.length} media; ${failed} could not be analysed.`,
+                    data: { ...data, results },
+                };
+            }
+            return {
+                success: true,
+                message: plan.suggestions.length
+                    ? `Suggested tags for ${plan.suggestions.length - failed} media${failed ? `; ${failed} could not be analysed` : ''}. Show the table to the user and apply the approved suggestions with applyMediaTags.`
+                    : 'No media to tag.',
+                data: { ...data, planId: plan.planId, expiresAt: plan.expiresAt },
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error({ error: errorMessage }, "autoTagMedia: Failed to tag media");
+            return { success: false, message: `Failed to tag media: ${errorMessage}`, error: errorMessage };
+        }
+    },
+});
@@ -22,6 +22,7 @@ import { createTool } from '@mastra/core';
 import { z } from 'zod';
 import { logger } from '../../../logger';   
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { librarySchema } from './schemas';
 
@@ -80,7 +81,7 @@ export const copyMedia = createTool({
 
             logger.info(`copyMedia: Attempting to copy media ${mediaId} to '${name}'.`);
 
-            const response = await fetch(url, {
+            const response = await xiboClient.fetch(url, {
                 method: 'POST',
                 headers,
                 body: formData,
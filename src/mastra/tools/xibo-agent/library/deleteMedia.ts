@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core';
 import { logger } from '../../../logger';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 
 // Schema for the input, based on the DELETE /library/{mediaId} endpoint
@@ -74,7 +75,7 @@ export const deleteMedia = createTool({
                 'Content-Type': 'application/x-www-form-urlencoded',
             };
 
-            const response = await fetch(url, {
+            const response = await xiboClient.fetch(url, {
                 method: 'DELETE',
                 headers,
                 body,
@@ -21,6 +21,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { logger } from '../../../logger';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import fs from 'fs/promises';
 import path from 'path';
@@ -78,7 +79,7 @@ export const downloadMedia = createTool({
 
     try {
       const headers = await getAuthHeaders();
-      const response = await fetch(url, { headers });
+      const response = await xiboClient.fetch(url, { headers });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => response.statusText);
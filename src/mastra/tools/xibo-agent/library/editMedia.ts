@@ -19,6 +19,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core';
 import { logger } from '../../../logger';  
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { librarySchema } from './schemas';
 
@@ -85,7 +86,7 @@ export const editMedia = createTool({
             };
 
             // Send the request using the native fetch API
-            const response = await fetch(url, {
+            const response = await xiboClient.fetch(url, {
                 method: 'PUT',
                 headers,
                 body: params,
@@ -20,10 +20,16 @@
 import { z } from "zod";
 import { createTool } from '@mastra/core';
 import { logger } from '../../../logger';
-import { getAuthHeaders } from '../auth';
 import { config } from '../config';
 import { librarySearchResponseSchema } from './schemas';
 import { createTreeViewResponse, TreeNode } from '../utility/treeView';
+import {
+    paginationInputSchema,
+    paginationSummarySchema,
+    splitPaginationOptions,
+    fetchPaginated,
+    describePagination,
+} from '../utility/pagination';
 
 // Schema for the input, based on the GET /library endpoint parameters
 const inputSchema = z.object({
@@ -40,6 +46,7 @@ const inputSchema = z.object({
     ownerUserGroupId: z.number().optional().describe("Filter by users belonging to a specific User Group ID."),
     folderId: z.number().optional().describe("Filter by Folder ID."),
     treeView: z.boolean().optional().default(false).describe("If true, a tree view of the library structure will be generated."),
+    ...paginationInputSchema.shape,
 });
 
 // Schema for the tool's output, including tree view
@@ -47,6 +54,7 @@ const outputSchema = z.object({
     success: z.boolean(),
     message: z.string().optional(),
     data: librarySearchResponseSchema.optional(),
+    pagination: paginationSummarySchema.optional(),
     tree: z.array(z.any()).optional(),
     treeViewText: z.string().optional(),
     error: z.any().optional(),
@@ -126,30 +134,28 @@ export const getLibrary = createTool({
         }
 
         try {
-            const { treeView, ...mediaInput } = input;
-            const headers = await getAuthHeaders();
+            const { treeView, ...searchInput } = input;
+            const { pagination, filters: mediaInput } = splitPaginationOptions(searchInput);
 
-            // Dynamically build query parameters from the input, excluding 'treeView'.
-            const mediaParams = new URLSearchParams();
+            // Dynamically build query parameters from the input, excluding 'treeView' and pagination.
+            const mediaUrl = new URL(`${config.cmsUrl}/api/library`);
             for (const [key, value] of Object.entries(mediaInput)) {
                 if (value !== undefined) {
-                    mediaParams.append(key, String(value));
+                    mediaUrl.searchParams.append(key, String(value));
                 }
             }
-            const mediaUrl = `${config.cmsUrl}/api/library?${mediaParams.toString()}`;
 
-            logger.debug(`getLibrary: Fetching from URL: ${mediaUrl}`);
+            logger.debug(`getLibrary: Fetching from URL: ${mediaUrl.toString()}`);
 
-            const mediaResponse = await fetch(mediaUrl, { headers });
+            const mediaResult = await fetchPaginated(mediaUrl, pagination);
 
-            if (!mediaResponse.ok) {
-                const errorData = await mediaResponse.json().catch(() => mediaResponse.statusText);
-                logger.error({ status: mediaResponse.status, data: errorData }, 'getLibrary: HTTP error fetching media!');
-                return { success: false, message: `HTTP error fetching media! status: ${mediaResponse.status}`, errorData: errorData };
+            if (!mediaResult.success) {
+                logger.error({ status: mediaResult.status, data: mediaResult.errorData }, 'getLibrary: HTTP error fetching media!');
+                return { success: false, message: `HTTP error fetching media! status: ${mediaResult.status}`, errorData: mediaResult.errorData };
             }
 
-            const mediaData = await mediaResponse.json();
-            logger.info(`Successfully fetched ${Array.isArray(mediaData) ? mediaData.length : 0} media items.`);
+            const mediaData = mediaResult.items;
+            logger.info(`Successfully fetched ${mediaData.length} media items.`);
             
             const parsedMedia = librarySearchResponseSchema.safeParse(mediaData);
 
@@ -171,7 +177,12 @@ export const getLibrary = createTool({
             // If tree view is not requested, return the flat list of media items.
             if (!treeView) {
                 logger.info('Tree view not requested. Returning flat list of media.');
-                return { success: true, data: allMedia };
+                return {
+                    success: true,
+                    message: describePagination(mediaResult.pagination, 'media items'),
+                    data: allMedia,
+                    pagination: mediaResult.pagination,
+                };
             }
             
             // --- Tree View Generation ---
@@ -179,7 +190,7 @@ export const getLibrary = createTool({
             const libraryTree = buildLibraryTree(allMedia);
             
             logger.info('Successfully built library tree. Generating final response.');
-            return createTreeViewResponse(allMedia, libraryTree, (node: TreeNode) => {
+            const treeResponse = createTreeViewResponse(allMedia, libraryTree, (node: TreeNode) => {
               // Custom formatter for the tree nodes to provide a better visual representation.
               if (node.type === 'media') {
                   return `📄 Media: ${node.name} (ID: ${node.id})`;
@@ -192,6 +203,7 @@ export const getLibrary = createTool({
               }
               return node.name;
             });
+            return { ...treeResponse, pagination: mediaResult.pagination };
 
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : "An unexpected error occurred.";
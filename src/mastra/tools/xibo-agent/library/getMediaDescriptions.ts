@@ -0,0 +1,57 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module getMediaDescriptions
+ * @description Provides a tool that reads the descriptions (alt text) written for library
+ * media by autoTagMedia.
+ */
+import { z } from "zod";
+import { createTool } from '@mastra/core';
+import { logger } from '../../../logger';
+import { getMediaDescriptions as readDescriptions } from '../mediaTagging';
+
+const outputSchema = z.object({
+    success: z.boolean().describe("Indicates whether the operation was successful."),
+    message: z.string().describe("A summary of the result."),
+    data: z.array(z.object({
+        mediaId: z.number(),
+        md5: z.string().nullable().describe("MD5 of the file the description was written for."),
+        language: z.string(),
+        description: z.string(),
+        updatedAt: z.string(),
+    })).optional(),
+    error: z.any().optional(),
+});
+
+/**
+ * Tool for reading media descriptions.
+ */
+export const getMediaDescriptions = createTool({
+    id: 'get-media-descriptions',
+    description: 'Read the descriptions (alt text) of library media written by autoTagMedia, for given media or those containing a search text. Xibo has no description field, so they are kept by the agent.',
+    inputSchema: z.object({
+        mediaIds: z.array(z.number()).optional().describe("Media to read the descriptions of."),
+        query: z.string().optional().describe("Only descriptions containing this text."),
+    }),
+    outputSchema,
+    execute: async ({ context }) => {
+        try {
+            const descriptions = await readDescriptions(context);
+            return { success: true, message: `Found ${descriptions.length} media descriptions.`, data: descriptions };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error({ error: errorMessage }, "getMediaDescriptions: Failed to read media descriptions");
+            return { success: false, message: `Failed to read media descriptions: ${errorMessage}`, error: errorMessage };
+        }
+    },
+});
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core';
 import { logger } from '../../../logger';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 
 /**
@@ -79,7 +80,7 @@ export const getMediaUsage = createTool({
             const authHeaders = await getAuthHeaders();
             const headers = { ...authHeaders };
 
-            const response = await fetch(url, {
+            const response = await xiboClient.fetch(url, {
                 method: 'GET',
                 headers,
             });
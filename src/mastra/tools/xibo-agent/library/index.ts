@@ -17,16 +17,23 @@
  * management in the Xibo CMS. It explicitly exports each tool.
  */
 export { addMedia } from './addMedia';
+export { applyLibraryCleanup } from './applyLibraryCleanup';
+export { applyMediaTags } from './applyMediaTags';
 export { assignTagsToMedia } from './assignTagsToMedia';
+export { auditLibrary } from './auditLibrary';
+export { autoTagMedia } from './autoTagMedia';
 export { copyMedia } from './copyMedia';
 export { deleteMedia } from './deleteMedia';
 export { downloadMedia } from './downloadMedia';
 export { downloadThumbnail } from './downloadThumbnail';
+export { ingestMedia } from './ingestMedia';
 export { editMedia } from './editMedia';
 export { getLibrary } from './getLibrary';
+export { getMediaDescriptions } from './getMediaDescriptions';
 export { getMediaUsage } from './getMediaUsage';
 export { getMediaUsageLayouts } from './getMediaUsageLayouts';
 export { isMediaUsed } from './isMediaUsed';
+export { planLibraryCleanup } from './planLibraryCleanup';
 export { selectMediaFolder } from './selectMediaFolder';
 export { setEnableStatToMedia } from './setEnableStatToMedia';
 export { unassignTagsFromMedia } from './unassignTagsFromMedia';
@@ -0,0 +1,81 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module ingestMedia
+ * @description Provides a tool that uploads a whole directory or ZIP package of assets to
+ * the library, mirroring its sub-folders and tagging the files.
+ */
+import { z } from "zod";
+import { createTool } from '@mastra/core';
+import { logger } from '../../../logger';
+import { INGEST_FILE_STATUSES, MediaIngestError, ingestMedia as runIngest, mediaIngestSchema } from '../mediaIngest';
+
+const outputSchema = z.object({
+    success: z.boolean().describe("Indicates whether the operation was successful."),
+    message: z.string().describe("A summary of the ingest."),
+    data: z.object({
+        jobId: z.string().describe("Pass back as jobId to retry the failed files."),
+        source: z.string(),
+        total: z.number(),
+        uploaded: z.number(),
+        existing: z.number().describe("Files whose content was already in the library; they were moved and tagged instead."),
+        skipped: z.number().describe("Files uploaded by an earlier run of the job."),
+        failed: z.number(),
+        ignored: z.number(),
+        foldersCreated: z.array(z.string()),
+        files: z.array(z.object({
+            path: z.string(),
+            status: z.enum(INGEST_FILE_STATUSES),
+            mediaId: z.number().optional(),
+            name: z.string().optional(),
+            folderId: z.number().optional(),
+            tags: z.array(z.string()).optional(),
+            transcoded: z.boolean().optional(),
+            error: z.string().optional(),
+        })),
+    }).optional(),
+    error: z.any().optional(),
+});
+
+/**
+ * Tool for ingesting a folder or ZIP package of media.
+ */
+export const ingestMedia = createTool({
+    id: 'ingest-media',
+    description: 'Upload every file of a directory or ZIP package (in the upload directory) to the library. Sub-folders become library folders, files are tagged with their folder names and the tags of an optional manifest.csv/manifest.json, content already in the library is not uploaded twice, and the outcome of every file is reported. Pass the returned jobId to retry failed files.',
+    inputSchema: mediaIngestSchema,
+    outputSchema,
+    execute: async ({ context }) => {
+        try {
+            const report = await runIngest(context);
+            const parts = [`${report.uploaded} uploaded`, `${report.existing} already in the library`, `${report.failed} failed`];
+            if (report.skipped) parts.push(`${report.skipped} done earlier`);
+            if (report.ignored) parts.push(`${report.ignored} ignored`);
+            return {
+                success: report.failed === 0,
+                message: `Ingested ${report.total} files: ${parts.join(', ')}. ${report.foldersCreated.length} folders created.`
+                    + (report.failed ? ` Fix the failed files and run again with jobId ${report.jobId}.` : ''),
+                data: report,
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            const jobId = error instanceof MediaIngestError ? error.jobId : undefined;
+            logger.error({ jobId, error: errorMessage }, "ingestMedia: Failed to ingest media");
+            return {
+                success: false,
+                message: `Failed to ingest media: ${errorMessage}` + (jobId ? ` Fix the problem and run again with jobId ${jobId}.` : ''),
+                error: errorMessage,
+            };
+        }
+    },
+});
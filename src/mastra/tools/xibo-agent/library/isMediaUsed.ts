@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core';
 import { logger } from '../../../logger';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 
 /**
@@ -69,7 +70,7 @@ export const isMediaUsed = createTool({
             const authHeaders = await getAuthHeaders();
             const headers = { ...authHeaders };
 
-            const response = await fetch(url, {
+            const response = await xiboClient.fetch(url, {
                 method: 'GET',
                 headers,
             });
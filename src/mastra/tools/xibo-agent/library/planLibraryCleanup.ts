@@ -0,0 +1,68 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module planLibraryCleanup
+ * @description Provides a tool that checks a list of library cleanup actions (retire,
+ * delete, tag, move) and stores them as a plan to approve and apply.
+ */
+import { z } from "zod";
+import { createTool } from '@mastra/core';
+import { logger } from '../../../logger';
+import { formatLibraryActionTable, libraryActionSchema, planLibraryCleanup as storePlan } from '../libraryAudit';
+
+const outputSchema = z.object({
+    success: z.boolean().describe("Indicates whether the operation was successful."),
+    message: z.string().describe("A summary of the plan."),
+    data: z.object({
+        planId: z.string().describe("Pass to applyLibraryCleanup to run the actions once the user approves them."),
+        expiresAt: z.string(),
+        actions: z.array(libraryActionSchema.extend({ name: z.string() })),
+        issues: z.array(z.string()).describe("Problems with the actions. The plan cannot be applied until they are corrected."),
+        actionTable: z.string().describe("Markdown table of the actions; show it to the user before applying."),
+    }).optional(),
+    error: z.any().optional(),
+});
+
+/**
+ * Tool for planning a library cleanup.
+ */
+export const planLibraryCleanup = createTool({
+    id: 'plan-library-cleanup',
+    description: 'Check a list of library cleanup actions chosen by the user (retire, delete, tag or move media to a folder), e.g. an edited version of the actions suggested by auditLibrary, and store them as a plan for applyLibraryCleanup. Deleting media that is still used is refused. Nothing is changed.',
+    inputSchema: z.object({
+        actions: z.array(libraryActionSchema).min(1).describe("Actions to plan. 'tag' needs tags, 'move' needs folderId."),
+    }),
+    outputSchema,
+    execute: async ({ context }) => {
+        try {
+            const plan = await storePlan(context.actions);
+            return {
+                success: true,
+                message: plan.issues.length
+                    ? `${plan.issues.length} actions have issues; correct them and plan again.`
+                    : `${plan.actions.length} actions planned.`,
+                data: {
+                    planId: plan.planId,
+                    expiresAt: plan.expiresAt,
+                    actions: plan.actions,
+                    issues: plan.issues,
+                    actionTable: formatLibraryActionTable(plan.actions),
+                },
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error({ error: errorMessage }, "planLibraryCleanup: Failed to plan the library cleanup");
+            return { success: false, message: `Failed to plan the library cleanup: ${errorMessage}`, error: errorMessage };
+        }
+    },
+});
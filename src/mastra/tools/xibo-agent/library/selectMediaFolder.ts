@@ -22,6 +22,7 @@ import { createTool } from '@mastra/core';
 import { z } from 'zod';
 import { logger } from '../../../logger';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { librarySchema } from './schemas';
 
@@ -75,7 +76,7 @@ export const selectMediaFolder = createTool({
 
             logger.info(`selectMediaFolder: Attempting to move media ${mediaId} to folder ${folderId}.`);
 
-            const response = await fetch(url, {
+            const response = await xiboClient.fetch(url, {
                 method: 'PUT',
                 headers,
                 body: formData,
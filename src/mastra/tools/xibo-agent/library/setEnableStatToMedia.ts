@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core';
 import { logger } from '../../../logger';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 
 /**
@@ -74,7 +75,7 @@ export const setEnableStatToMedia = createTool({
                 'Content-Type': 'application/x-www-form-urlencoded',
             };
 
-            const response = await fetch(url, {
+            const response = await xiboClient.fetch(url, {
                 method: 'PUT',
                 headers,
                 body: params,
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core';
 import { logger } from '../../../logger';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { librarySchema } from './schemas';
 
@@ -70,7 +71,7 @@ export const unassignTagsFromMedia = createTool({
                 'Content-Type': 'application/x-www-form-urlencoded',
             };
 
-            const response = await fetch(url, {
+            const response = await xiboClient.fetch(url, {
                 method,
                 headers,
                 body: params,
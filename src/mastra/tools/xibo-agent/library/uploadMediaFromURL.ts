@@ -16,13 +16,24 @@
  * 
  * This module provides a tool to upload a media file to the Xibo CMS library
  * from a given URL. It implements the 'POST /library/uploadUrl' endpoint.
+ * Video and audio that should be checked against the players or transcoded are
+ * downloaded here first, up to 2 GB, and uploaded with `uploadMediaFile()` instead.
  */
 import { z } from "zod";
 import { createTool } from '@mastra/core';
+import crypto from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
 import { logger } from '../../../logger';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { librarySchema } from './schemas';
+import { uploadMediaFile } from '../mediaUpload';
+import { PLAYER_TYPES, TRANSCODE_MODES } from '../mediaCompatibility';
 
 /**
  * @const
@@ -36,6 +47,9 @@ const inputSchema = z.object({
     optionalName: z.string().optional().describe("An optional name for this media file; defaults to the file name if empty."),
     expires: z.string().optional().describe("Date in 'Y-m-d H:i:s' format to set the expiration date on the Media item."),
     folderId: z.number().optional().describe("The ID of the folder to upload the media into."),
+    transcode: z.enum(TRANSCODE_MODES).optional().describe("For video/audio: check the file against the players and 'ifIncompatible' or 'always' convert it to H.264/AAC. The file is then downloaded and uploaded by the agent."),
+    playerTypes: z.array(z.enum(PLAYER_TYPES)).optional().describe("Player types to check video/audio against. Defaults to the types of the displays in the CMS."),
+    targetLayoutId: z.number().optional().describe("Layout whose resolution transcoded video is scaled and letterboxed to."),
 });
 
 /**
@@ -47,6 +61,7 @@ const outputSchema = z.object({
     success: z.boolean(),
     message: z.string().optional(),
     data: librarySchema.optional(),
+    inspection: z.any().optional().describe("Video/audio inspection and player compatibility, when the file was checked."),
     error: z.any().optional(),
     errorData: z.any().optional(),
 });
@@ -69,9 +84,14 @@ export const uploadMediaFromURL = createTool({
             return { success: false, message: 'CMS URL is not configured.' };
         }
 
+        const { transcode, playerTypes, targetLayoutId, ...uploadParams } = input;
+        if ((input.type === 'video' || input.type === 'audio') && (transcode || playerTypes)) {
+            return uploadCheckedMedia(input);
+        }
+
         // Prepare form data from input, excluding undefined values.
         const params = new URLSearchParams();
-        for (const [key, value] of Object.entries(input)) {
+        for (const [key, value] of Object.entries(uploadParams)) {
             if (value !== undefined) {
                 params.append(key, String(value));
             }
@@ -88,7 +108,7 @@ export const uploadMediaFromURL = createTool({
             };
 
             // Make the API request to upload the media from the URL
-            const response = await fetch(url, {
+            const response = await xiboClient.fetch(url, {
                 method: 'POST',
                 headers,
                 body: params,
@@ -127,4 +147,69 @@ export const uploadMediaFromURL = createTool({
             return { success: false, message: errorMessage, errorData: error };
         }
     },
-}); 
\ No newline at end of file
+}); 
+
+/** Largest video or audio file downloaded to check it, in bytes. */
+const MAX_DOWNLOAD_BYTES = 2 * 1024 ** 3;
+
+/**
+ * Streams the body of a response to a file, stopping once it exceeds `maxBytes`.
+ *
+ * @throws {Error} If the body is larger than `maxBytes` or cannot be written.
+ */
+async function saveResponse(response: Response, filePath: string, maxBytes: number): Promise<void> {
+    const declared = Number(response.headers.get('content-length'));
+    if (declared > maxBytes) {
+        throw new Error(`The file is ${declared} bytes; files over ${maxBytes} bytes are not downloaded.`);
+    }
+    let received = 0;
+    const limit = new Transform({
+        transform(chunk: Buffer, _encoding, done) {
+            received += chunk.length;
+            done(received > maxBytes ? new Error(`The file is over ${maxBytes} bytes and was not downloaded.`) : null, chunk);
+        },
+    });
+    await pipeline(Readable.fromWeb(response.body as NodeReadableStream), limit, createWriteStream(filePath));
+}
+
+/**
+ * Downloads a video or audio file into the upload directory and uploads it with
+ * `uploadMediaFile()`, which checks and transcodes it and sets its duration.
+ */
+async function uploadCheckedMedia(input: z.infer<typeof inputSchema>): Promise<z.infer<typeof outputSchema>> {
+    const urlName = path.basename(new URL(input.url).pathname) || 'media';
+    const extension = input.extension ?? path.extname(urlName).slice(1);
+    const fileName = `${crypto.randomUUID()}${extension ? `.${extension}` : ''}`;
+    const localPath = path.join(config.uploadDir, fileName);
+
+    try {
+        const response = await fetch(input.url);
+        if (!response.ok || !response.body) {
+            logger.error({ status: response.status, url: input.url }, 'uploadMediaFromURL: Download failed.');
+            return { success: false, message: `Downloading ${input.url} failed with HTTP status ${response.status}.` };
+        }
+        await fs.mkdir(config.uploadDir, { recursive: true });
+        await saveResponse(response, localPath, MAX_DOWNLOAD_BYTES);
+
+        const result = await uploadMediaFile(localPath, {
+            fileName,
+            fields: { name: input.optionalName || urlName, expires: input.expires, folderId: input.folderId },
+            transcode: input.transcode,
+            playerTypes: input.playerTypes,
+            targetLayoutId: input.targetLayoutId,
+        });
+        if (!result.success) {
+            return { success: false, message: result.message, error: result.error, errorData: result.errorData };
+        }
+
+        const media = await xiboClient.get('/library', { mediaId: result.media.mediaId }, z.array(librarySchema));
+        logger.info(`uploadMediaFromURL: Uploaded checked media from URL as media item ${result.media.mediaId}.`);
+        return { success: true, message: result.message, data: media.success ? media.data[0] : undefined, inspection: result.inspection };
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "An unexpected error occurred.";
+        logger.error({ error: errorMessage, details: error }, 'uploadMediaFromURL: Uploading checked media failed.');
+        return { success: false, message: errorMessage, errorData: error };
+    } finally {
+        await fs.rm(localPath, { force: true });
+    }
+}
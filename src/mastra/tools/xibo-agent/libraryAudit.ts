@@ -0,0 +1,766 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Library Audit
+ *
+ * Scans the whole media library in one pass instead of asking `isMediaUsed` media by media,
+ * and reports what can be tidied:
+ *
+ * - unused media: not in any layout (widgets or background), library playlist, menu board
+ *   (categories and products) nor DataSet library image column;
+ * - unscheduled media: only in layouts that no current or future schedule event shows;
+ * - exact duplicates: the same MD5;
+ * - near duplicates: images whose perceptual hashes (from the CMS thumbnails) are a few
+ *   bits apart, such as re-encoded or resized copies;
+ * - oversized media: over the file size or resolution budgets of the players.
+ *
+ * Usage follows sub-playlist, menu board and DataSet widgets, so media in a library playlist,
+ * menu board or DataSet shown by a scheduled layout count as scheduled. Fonts, modules and player software are not audited.
+ *
+ * `auditLibrary()` suggests a cleanup plan (retire unused media, delete unused copies, tag
+ * the rest for review); `planLibraryCleanup()` builds a plan from the user's own actions.
+ * Plans are kept for a while and run by `applyLibraryCleanup()`, which skips media that
+ * changed since the plan was made. Actions that fail do not stop the others.
+ */
+
+import { z } from 'zod';
+import { config } from './config';
+import { logger } from '../../logger';
+import { getActiveCmsProfileName } from './cmsContext';
+import { xiboClient } from './xiboClient';
+import { scheduleRecordSchema } from './schedulePlanner';
+import { loadRecords } from './utility/pagination';
+import { PlanStore } from './utility/planStore';
+import { differenceHash, hashDistance } from './utility/imageProcessing';
+
+export const LIBRARY_ACTIONS = ['tag', 'move', 'retire', 'delete'] as const;
+
+export type LibraryActionType = typeof LIBRARY_ACTIONS[number];
+
+const MB = 1024 * 1024;
+
+const SKIPPED_MEDIA_TYPES = new Set(['font', 'module', 'playersoftware', 'savedreport']);
+
+/**
+ * Budgets of the players, used to flag oversized media.
+ */
+export const libraryBudgetSchema = z.object({
+  maxImageMb: z.number().positive().optional().default(10).describe('Largest image file in MB.'),
+  maxVideoMb: z.number().positive().optional().default(500).describe('Largest video file in MB.'),
+  maxOtherMb: z.number().positive().optional().default(100).describe('Largest file of other types in MB.'),
+  maxWidth: z.number().int().positive().optional().default(3840).describe('Largest width in pixels (compared with the long side, so portrait media are not penalised).'),
+  maxHeight: z.number().int().positive().optional().default(2160).describe('Largest height in pixels (compared with the short side).'),
+});
+
+export type LibraryBudgets = z.output<typeof libraryBudgetSchema>;
+
+/**
+ * Options of an audit.
+ */
+export const libraryAuditSchema = libraryBudgetSchema.extend({
+  folderId: z.number().optional().describe('Only report media in this folder. Usage is always read from the whole CMS.'),
+  mediaType: z.string().optional().describe("Only report media of this type, e.g. 'image' or 'video'."),
+  minAgeDays: z.number().min(0).optional().default(30).describe('Unused media younger than this are reported but not suggested for retirement.'),
+  nearDuplicates: z.boolean().optional().default(true).describe('Compare image thumbnails to find near duplicates. Downloads one thumbnail per image.'),
+  maxHashDistance: z.number().int().min(0).max(20).optional().default(6).describe('Largest perceptual hash distance (bits out of 64) of near duplicates.'),
+  quarantineFolderId: z.number().optional().describe('When given, unused media are also suggested to be moved to this folder.'),
+});
+
+export type LibraryAuditOptions = z.input<typeof libraryAuditSchema>;
+
+/**
+ * An action of a cleanup plan.
+ */
+export const libraryActionSchema = z.object({
+  mediaId: z.number(),
+  action: z.enum(LIBRARY_ACTIONS),
+  tags: z.array(z.string()).optional().describe("Tags to add, for 'tag'."),
+  folderId: z.number().optional().describe("Target folder, for 'move'."),
+  reason: z.string().optional(),
+});
+
+export type LibraryAction = z.infer<typeof libraryActionSchema>;
+
+/**
+ * A media item with where it is used.
+ */
+export interface LibraryMediaEntry {
+  mediaId: number;
+  name: string;
+  mediaType: string;
+  fileSize: number;
+  folderId: number | null;
+  retired: boolean;
+  createdDt: string;
+  /** Layouts using the media, by their published (parent) layout ID. */
+  layouts: number[];
+  /** Library playlists containing the media. */
+  playlists: number[];
+  /** Menu boards showing the media for a category or product. */
+  menuBoards: number[];
+  /** DataSets holding the media in a library image column. */
+  dataSets: number[];
+  /** Whether a layout using it is shown by a current or future schedule event. */
+  scheduled: boolean;
+}
+
+export interface LibraryDuplicate {
+  md5: string;
+  fileSize: number;
+  /** The copy to keep: the most used one, then the oldest. */
+  keepMediaId: number;
+  mediaIds: number[];
+}
+
+export interface LibraryNearDuplicate {
+  mediaIds: number[];
+  /** Largest hash distance between two images of the group. */
+  distance: number;
+}
+
+export interface LibraryOversized {
+  mediaId: number;
+  name: string;
+  mediaType: string;
+  fileSize: number;
+  width: number | null;
+  height: number | null;
+  reasons: string[];
+}
+
+export interface LibraryCleanupPlan {
+  planId: string;
+  expiresAt: string;
+  cmsProfile: string;
+  actions: Array<LibraryAction & { name: string }>;
+  /** Problems with the actions. Plans with issues cannot be applied. */
+  issues: string[];
+}
+
+export interface LibraryAuditReport {
+  scanned: number;
+  totalSize: number;
+  unused: LibraryMediaEntry[];
+  unscheduled: LibraryMediaEntry[];
+  duplicates: LibraryDuplicate[];
+  nearDuplicates: LibraryNearDuplicate[];
+  oversized: LibraryOversized[];
+  /** Bytes freed by deleting the unused media. */
+  reclaimableSize: number;
+  plan: LibraryCleanupPlan;
+  warnings: string[];
+}
+
+export interface LibraryCleanupResult {
+  results: Array<{ mediaId: number; name: string; action: LibraryActionType; status: 'done' | 'skipped' | 'failed'; message?: string }>;
+}
+
+// -----------------------------------------------------------------------------
+// CMS data
+// -----------------------------------------------------------------------------
+
+const mediaRecordSchema = z.object({
+  mediaId: z.number(),
+  name: z.string(),
+  mediaType: z.string(),
+  duration: z.coerce.number().default(0),
+  fileSize: z.coerce.number().default(0),
+  md5: z.string().nullable().optional(),
+  createdDt: z.string().nullable().optional(),
+  modifiedDt: z.string().nullable().optional(),
+  retired: z.coerce.number().default(0),
+  folderId: z.number().nullable().optional(),
+  width: z.coerce.number().nullable().optional(),
+  height: z.coerce.number().nullable().optional(),
+  tags: z.array(z.object({ tag: z.string(), value: z.string().nullable().optional() }).passthrough()).nullable().optional(),
+}).passthrough();
+
+type MediaRecord = z.infer<typeof mediaRecordSchema>;
+
+const widgetRecordSchema = z.object({
+  type: z.string().optional(),
+  mediaIds: z.array(z.coerce.number()).nullable().optional(),
+  widgetOptions: z.array(z.object({ option: z.string(), value: z.unknown() }).passthrough()).nullable().optional(),
+}).passthrough();
+
+type WidgetRecord = z.infer<typeof widgetRecordSchema>;
+
+const layoutRecordSchema = z.object({
+  layoutId: z.number(),
+  parentId: z.number().nullable().optional(),
+  campaignId: z.number().nullable().optional(),
+  backgroundImageId: z.coerce.number().nullable().optional(),
+  regions: z.array(z.object({
+    regionPlaylist: z.object({ widgets: z.array(widgetRecordSchema).nullable().optional() }).passthrough().nullable().optional(),
+  }).passthrough()).nullable().optional(),
+}).passthrough();
+
+const playlistRecordSchema = z.object({
+  playlistId: z.number(),
+  widgets: z.array(widgetRecordSchema).nullable().optional(),
+}).passthrough();
+
+const menuBoardRecordSchema = z.object({ menuId: z.number() }).passthrough();
+
+const menuBoardItemSchema = z.object({
+  menuCategoryId: z.number(),
+  mediaId: z.coerce.number().nullable().optional(),
+}).passthrough();
+
+const dataSetRecordSchema = z.object({ dataSetId: z.number() }).passthrough();
+
+const dataSetColumnRecordSchema = z.object({
+  heading: z.string(),
+  dataTypeId: z.coerce.number(),
+}).passthrough();
+
+/** `dataTypeId` of DataSet columns holding library media IDs. */
+const LIBRARY_IMAGE_DATA_TYPE = 5;
+
+/**
+ * A numeric widget option, such as the `menuId` of a menu board widget.
+ */
+function widgetOption(widget: WidgetRecord, name: string): number | undefined {
+  const value = Number(widget.widgetOptions?.find((o) => o.option === name)?.value);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Playlists a sub-playlist widget shows, from its `subPlaylists` (CMS 4) or
+ * `subPlaylistIds` option.
+ */
+function subPlaylistIds(widget: WidgetRecord): number[] {
+  const ids: number[] = [];
+  for (const { option, value } of widget.widgetOptions ?? []) {
+    if (option !== 'subPlaylists' && option !== 'subPlaylistIds') continue;
+    try {
+      const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+      for (const item of Array.isArray(parsed) ? parsed : []) {
+        const id = Number(typeof item === 'object' && item !== null ? item.playlistId : item);
+        if (Number.isFinite(id)) ids.push(id);
+      }
+    } catch {
+      // Not JSON; the widget shows no playlist.
+    }
+  }
+  return ids;
+}
+
+interface MediaUsage {
+  layouts: Set<number>;
+  playlists: Set<number>;
+  menuBoards: Set<number>;
+  dataSets: Set<number>;
+  scheduled: boolean;
+}
+
+/**
+ * Media of the categories and products of every menu board, by menu board.
+ */
+async function loadMenuBoardMedia(): Promise<Map<number, number[]>> {
+  const media = new Map<number, number[]>();
+  for (const { menuId } of await loadRecords('/menuboards', menuBoardRecordSchema)) {
+    const categories = await loadRecords(`/menuboard/${menuId}/categories`, menuBoardItemSchema);
+    const ids = categories.map((c) => c.mediaId);
+    for (const category of categories) {
+      const products = await loadRecords(`/menuboard/products?menuCategoryId=${category.menuCategoryId}`, menuBoardItemSchema);
+      ids.push(...products.map((p) => p.mediaId));
+    }
+    media.set(menuId, ids.filter((id): id is number => typeof id === 'number' && id > 0));
+  }
+  return media;
+}
+
+/**
+ * Media in the library image columns of every DataSet, by DataSet.
+ */
+async function loadDataSetMedia(): Promise<Map<number, number[]>> {
+  const media = new Map<number, number[]>();
+  for (const { dataSetId } of await loadRecords('/dataset', dataSetRecordSchema)) {
+    const columns = (await loadRecords(`/dataset/${dataSetId}/column`, dataSetColumnRecordSchema))
+      .filter((c) => c.dataTypeId === LIBRARY_IMAGE_DATA_TYPE);
+    if (!columns.length) continue;
+    const rows = await loadRecords(`/dataset/data/${dataSetId}`, z.record(z.unknown()));
+    media.set(dataSetId, rows
+      .flatMap((row) => columns.map((c) => Number(row[c.heading])))
+      .filter((id) => Number.isInteger(id) && id > 0));
+  }
+  return media;
+}
+
+/**
+ * Reads layouts (drafts included), library playlists, menu boards, DataSets and the
+ * schedule, and returns where every used media item is used.
+ */
+async function loadMediaUsage(): Promise<Map<number, MediaUsage>> {
+  const [layouts, playlists, events, menuBoardMedia, dataSetMedia] = await Promise.all([
+    loadRecords('/layout?showDrafts=1&embed=regions,playlists,widgets', layoutRecordSchema),
+    loadRecords('/playlist?embed=widgets', playlistRecordSchema),
+    loadRecords('/schedule', scheduleRecordSchema),
+    loadMenuBoardMedia(),
+    loadDataSetMedia(),
+  ]);
+
+  // Media a widget shows from a menu board or a DataSet
+  const contentMedia = (widget: WidgetRecord): number[] => {
+    const menuId = widgetOption(widget, 'menuId');
+    const dataSetId = widgetOption(widget, 'dataSetId');
+    return [
+      ...(menuId !== undefined ? menuBoardMedia.get(menuId) ?? [] : []),
+      ...(dataSetId !== undefined ? dataSetMedia.get(dataSetId) ?? [] : []),
+    ];
+  };
+
+  // Media of each library playlist, following nested sub-playlists.
+  const playlistWidgets = new Map(playlists.map((p) => [p.playlistId, p.widgets ?? []]));
+  const playlistMedia = (playlistId: number, seen = new Set<number>()): { media: number[]; playlists: number[] } => {
+    if (seen.has(playlistId)) return { media: [], playlists: [] };
+    seen.add(playlistId);
+    const result = { media: [] as number[], playlists: [playlistId] };
+    for (const widget of playlistWidgets.get(playlistId) ?? []) {
+      result.media.push(...(widget.mediaIds ?? []), ...contentMedia(widget));
+      for (const nested of subPlaylistIds(widget)) {
+        const inner = playlistMedia(nested, seen);
+        result.media.push(...inner.media);
+        result.playlists.push(...inner.playlists);
+      }
+    }
+    return result;
+  };
+
+  const usage = new Map<number, MediaUsage>();
+  const use = (mediaId: number) => {
+    let entry = usage.get(mediaId);
+    if (!entry) {
+      entry = { layouts: new Set(), playlists: new Set(), menuBoards: new Set(), dataSets: new Set(), scheduled: false };
+      usage.set(mediaId, entry);
+    }
+    return entry;
+  };
+
+  for (const [menuId, media] of menuBoardMedia) {
+    for (const mediaId of media) use(mediaId).menuBoards.add(menuId);
+  }
+  for (const [dataSetId, media] of dataSetMedia) {
+    for (const mediaId of media) use(mediaId).dataSets.add(dataSetId);
+  }
+
+  for (const playlist of playlists) {
+    for (const mediaId of playlistMedia(playlist.playlistId).media) use(mediaId).playlists.add(playlist.playlistId);
+  }
+
+  // Campaigns shown now or later. Layout specific campaigns belong to one layout; the
+  // layouts of other campaigns are looked up.
+  const now = Date.now() / 1000;
+  const scheduledCampaigns = new Set(events
+    .filter((e) => e.isAlways || e.toDt === null || e.toDt > now || (e.recurrenceType && (!e.recurrenceRange || e.recurrenceRange > now)))
+    .map((e) => e.campaignId)
+    .filter((id): id is number => typeof id === 'number'));
+  const ownCampaigns = new Set(layouts.map((l) => l.campaignId));
+  const scheduledLayouts = new Set<number>();
+  for (const campaignId of scheduledCampaigns) {
+    if (ownCampaigns.has(campaignId)) continue;
+    const members = await loadRecords(`/layout?campaignId=${campaignId}`, layoutRecordSchema);
+    members.forEach((l) => scheduledLayouts.add(l.parentId || l.layoutId));
+  }
+
+  for (const layout of layouts) {
+    const layoutId = layout.parentId || layout.layoutId;
+    const scheduled = scheduledLayouts.has(layoutId) || (layout.campaignId != null && scheduledCampaigns.has(layout.campaignId));
+    const media: number[] = layout.backgroundImageId ? [layout.backgroundImageId] : [];
+    for (const region of layout.regions ?? []) {
+      for (const widget of region.regionPlaylist?.widgets ?? []) {
+        media.push(...(widget.mediaIds ?? []), ...contentMedia(widget));
+        for (const playlistId of subPlaylistIds(widget)) media.push(...playlistMedia(playlistId).media);
+      }
+    }
+    for (const mediaId of media) {
+      const entry = use(mediaId);
+      entry.layouts.add(layoutId);
+      entry.scheduled ||= scheduled;
+    }
+  }
+  return usage;
+}
+
+const loadLibrary = () => loadRecords('/library', mediaRecordSchema);
+
+function toEntry(media: MediaRecord, usage: MediaUsage | undefined): LibraryMediaEntry {
+  return {
+    mediaId: media.mediaId,
+    name: media.name,
+    mediaType: media.mediaType,
+    fileSize: media.fileSize,
+    folderId: media.folderId ?? null,
+    retired: media.retired === 1,
+    createdDt: media.createdDt ?? '',
+    layouts: [...(usage?.layouts ?? [])].sort((a, b) => a - b),
+    playlists: [...(usage?.playlists ?? [])].sort((a, b) => a - b),
+    menuBoards: [...(usage?.menuBoards ?? [])].sort((a, b) => a - b),
+    dataSets: [...(usage?.dataSets ?? [])].sort((a, b) => a - b),
+    scheduled: usage?.scheduled ?? false,
+  };
+}
+
+const isUsed = (entry: LibraryMediaEntry) =>
+  entry.layouts.length > 0 || entry.playlists.length > 0 || entry.menuBoards.length > 0 || entry.dataSets.length > 0;
+
+// -----------------------------------------------------------------------------
+// Findings
+// -----------------------------------------------------------------------------
+
+/**
+ * Groups media with the same MD5. The first media of each group is the one to keep: the
+ * most used, then scheduled, then not retired, then the oldest.
+ */
+export function findExactDuplicates(entries: Array<LibraryMediaEntry & { md5?: string | null }>): LibraryDuplicate[] {
+  const groups = new Map<string, typeof entries>();
+  for (const entry of entries) {
+    if (!entry.md5 || !entry.fileSize) continue;
+    groups.set(entry.md5, [...(groups.get(entry.md5) ?? []), entry]);
+  }
+  const weight = (e: LibraryMediaEntry) => e.layouts.length + e.playlists.length + e.menuBoards.length + e.dataSets.length;
+  return [...groups.entries()]
+    .filter(([, group]) => group.length > 1)
+    .map(([md5, group]) => {
+      const sorted = [...group].sort((a, b) =>
+        weight(b) - weight(a) || Number(b.scheduled) - Number(a.scheduled) || Number(a.retired) - Number(b.retired) || a.mediaId - b.mediaId);
+      return { md5, fileSize: sorted[0].fileSize, keepMediaId: sorted[0].mediaId, mediaIds: sorted.map((e) => e.mediaId) };
+    });
+}
+
+/**
+ * Groups images whose hashes are at most `maxDistance` bits apart (transitively). Images with
+ * the same MD5 are exact duplicates and only the first of them is compared.
+ */
+export function groupNearDuplicates(images: Array<{ mediaId: number; hash: string; md5?: string | null }>, maxDistance: number): LibraryNearDuplicate[] {
+  const seenMd5 = new Set<string>();
+  const items = images.filter((image) => {
+    if (!image.md5) return true;
+    if (seenMd5.has(image.md5)) return false;
+    seenMd5.add(image.md5);
+    return true;
+  });
+
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (hashDistance(items[i].hash, items[j].hash) <= maxDistance) parent[find(j)] = find(i);
+    }
+  }
+
+  const groups = new Map<number, typeof items>();
+  items.forEach((item, i) => groups.set(find(i), [...(groups.get(find(i)) ?? []), item]));
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => {
+      let distance = 0;
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) distance = Math.max(distance, hashDistance(group[i].hash, group[j].hash));
+      }
+      return { mediaIds: group.map((g) => g.mediaId), distance };
+    });
+}
+
+/**
+ * Reasons a media item is over the budgets; empty when it is within them.
+ */
+export function checkBudgets(media: { mediaType: string; fileSize: number; width?: number | null; height?: number | null }, budgets: LibraryBudgets): string[] {
+  const reasons: string[] = [];
+  const limitMb = media.mediaType === 'image' ? budgets.maxImageMb : media.mediaType === 'video' ? budgets.maxVideoMb : budgets.maxOtherMb;
+  if (media.fileSize > limitMb * MB) {
+    reasons.push(`${(media.fileSize / MB).toFixed(1)} MB is over the ${limitMb} MB ${media.mediaType === 'image' || media.mediaType === 'video' ? media.mediaType : 'file'} budget`);
+  }
+  if (media.width && media.height) {
+    const long = Math.max(media.width, media.height);
+    const short = Math.min(media.width, media.height);
+    if (long > Math.max(budgets.maxWidth, budgets.maxHeight) || short > Math.min(budgets.maxWidth, budgets.maxHeight)) {
+      reasons.push(`${media.width}x${media.height} is over ${budgets.maxWidth}x${budgets.maxHeight}`);
+    }
+  }
+  return reasons;
+}
+
+// Perceptual hashes by MD5 (or media ID and modification date when the CMS has no MD5).
+const imageHashes = new Map<string, string>();
+
+/**
+ * Hashes the thumbnails of the images. Stops at the first failure of the image decoder and
+ * reports it as a warning.
+ */
+async function hashImages(images: MediaRecord[], warnings: string[]): Promise<Array<{ mediaId: number; hash: string; md5?: string | null }>> {
+  const hashed: Array<{ mediaId: number; hash: string; md5?: string | null }> = [];
+  for (const image of images) {
+    const key = image.md5 ? `${getActiveCmsProfileName()}:${image.md5}` : `${getActiveCmsProfileName()}:${image.mediaId}:${image.modifiedDt}`;
+    let hash = imageHashes.get(key);
+    if (!hash) {
+      const response = await xiboClient.fetch(`${config.cmsUrl}/api/library/thumbnail/${image.mediaId}`);
+      if (!response.ok) {
+        await response.text().catch(() => undefined);
+        warnings.push(`The thumbnail of media ${image.mediaId} could not be read (status ${response.status}).`);
+        continue;
+      }
+      try {
+        hash = await differenceHash(Buffer.from(await response.arrayBuffer()));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        warnings.push(`Near duplicates were not searched: decoding images failed (${message}).`);
+        return [];
+      }
+      imageHashes.set(key, hash);
+    }
+    hashed.push({ mediaId: image.mediaId, hash, md5: image.md5 });
+  }
+  return hashed;
+}
+
+// -----------------------------------------------------------------------------
+// Plans
+// -----------------------------------------------------------------------------
+
+interface StoredPlan {
+  plan: LibraryCleanupPlan;
+  /** MD5 and modification date of the media in the plan when it was made. */
+  snapshot: Map<number, string>;
+}
+
+const storedPlans = new PlanStore<StoredPlan>('Library cleanup plan', 'Audit the library again.');
+
+const mediaSignature = (media: MediaRecord) => `${media.md5 ?? ''}|${media.modifiedDt ?? ''}|${media.retired}|${media.folderId ?? ''}`;
+
+function storePlan(actions: LibraryAction[], issues: string[], library: Map<number, MediaRecord>): LibraryCleanupPlan {
+  const order = (a: LibraryAction) => LIBRARY_ACTIONS.indexOf(a.action);
+  const planned = [...actions]
+    .sort((a, b) => a.mediaId - b.mediaId || order(a) - order(b))
+    .map((a) => ({ ...a, name: library.get(a.mediaId)?.name ?? '' }));
+  return storedPlans.put(({ id, expiresAt, cmsProfile }) => ({
+    plan: { planId: id, expiresAt, cmsProfile, actions: planned, issues },
+    snapshot: new Map(planned.map((a) => [a.mediaId, mediaSignature(library.get(a.mediaId)!)])),
+  })).plan;
+}
+
+/**
+ * Adds an action, merging tag actions of the same media.
+ */
+function addAction(actions: LibraryAction[], action: LibraryAction): void {
+  const existing = actions.find((a) => a.mediaId === action.mediaId && a.action === action.action);
+  if (!existing) {
+    actions.push(action);
+  } else if (action.action === 'tag') {
+    existing.tags = [...new Set([...(existing.tags ?? []), ...(action.tags ?? [])])];
+    existing.reason = [existing.reason, action.reason].filter(Boolean).join('; ');
+  }
+}
+
+/**
+ * Scans the library, reports unused, unscheduled, duplicate and oversized media, and
+ * stores the suggested cleanup plan for `applyLibraryCleanup()`.
+ */
+export async function auditLibrary(input: LibraryAuditOptions = {}): Promise<LibraryAuditReport> {
+  const options = libraryAuditSchema.parse(input);
+  const warnings: string[] = [];
+  const [records, usage] = await Promise.all([loadLibrary(), loadMediaUsage()]);
+  const library = new Map(records.map((m) => [m.mediaId, m]));
+
+  const audited = records.filter((m) =>
+    !SKIPPED_MEDIA_TYPES.has(m.mediaType) &&
+    (options.folderId === undefined || m.folderId === options.folderId) &&
+    (options.mediaType === undefined || m.mediaType === options.mediaType));
+  const entries = audited.map((m) => ({ ...toEntry(m, usage.get(m.mediaId)), md5: m.md5 }));
+  const byId = new Map(entries.map((e) => [e.mediaId, e]));
+
+  const unused = entries.filter((e) => !isUsed(e));
+  const unscheduled = entries.filter((e) => isUsed(e) && !e.scheduled);
+  const duplicates = findExactDuplicates(entries);
+  const oversized = audited
+    .map((m) => ({ media: m, reasons: checkBudgets(m, options) }))
+    .filter(({ reasons }) => reasons.length)
+    .map(({ media, reasons }) => ({
+      mediaId: media.mediaId, name: media.name, mediaType: media.mediaType, fileSize: media.fileSize,
+      width: media.width ?? null, height: media.height ?? null, reasons,
+    }));
+  const nearDuplicates = options.nearDuplicates
+    ? groupNearDuplicates(await hashImages(audited.filter((m) => m.mediaType === 'image'), warnings), options.maxHashDistance)
+    : [];
+
+  // Suggested actions: delete unused copies, retire the other unused media, tag the rest
+  // for review.
+  const actions: LibraryAction[] = [];
+  const deleted = new Set<number>();
+  for (const duplicate of duplicates) {
+    for (const mediaId of duplicate.mediaIds.slice(1)) {
+      const reason = `Exact copy of media ${duplicate.keepMediaId}`;
+      if (!isUsed(byId.get(mediaId)!)) {
+        addAction(actions, { mediaId, action: 'delete', reason });
+        deleted.add(mediaId);
+      } else {
+        addAction(actions, { mediaId, action: 'tag', tags: ['duplicate'], reason: `${reason}; replace it in its layouts` });
+      }
+    }
+  }
+  const minCreated = Date.now() - options.minAgeDays * 86400 * 1000;
+  for (const entry of unused) {
+    if (entry.retired || deleted.has(entry.mediaId)) continue;
+    const created = Date.parse(entry.createdDt.replace(' ', 'T'));
+    if (Number.isFinite(created) && created > minCreated) continue;
+    addAction(actions, { mediaId: entry.mediaId, action: 'retire', reason: 'Not used by any layout or playlist' });
+    if (options.quarantineFolderId !== undefined && entry.folderId !== options.quarantineFolderId) {
+      addAction(actions, { mediaId: entry.mediaId, action: 'move', folderId: options.quarantineFolderId, reason: 'Not used by any layout or playlist' });
+    }
+  }
+  for (const group of nearDuplicates) {
+    for (const mediaId of group.mediaIds) {
+      if (deleted.has(mediaId)) continue;
+      const others = group.mediaIds.filter((id) => id !== mediaId).join(', ');
+      addAction(actions, { mediaId, action: 'tag', tags: ['near-duplicate'], reason: `Looks like media ${others}` });
+    }
+  }
+  for (const item of oversized) {
+    if (deleted.has(item.mediaId)) continue;
+    addAction(actions, { mediaId: item.mediaId, action: 'tag', tags: ['oversized'], reason: item.reasons.join('; ') });
+  }
+
+  const plan = storePlan(actions, [], library);
+  const reclaimableSize = unused.reduce((sum, e) => sum + e.fileSize, 0);
+  const strip = ({ md5, ...entry }: LibraryMediaEntry & { md5?: string | null }): LibraryMediaEntry => entry;
+
+  logger.info({
+    planId: plan.planId, scanned: entries.length, unused: unused.length, duplicates: duplicates.length,
+    nearDuplicates: nearDuplicates.length, oversized: oversized.length, actions: actions.length,
+  }, 'Library audited.');
+  return {
+    scanned: entries.length,
+    totalSize: entries.reduce((sum, e) => sum + e.fileSize, 0),
+    unused: unused.map(strip),
+    unscheduled: unscheduled.map(strip),
+    duplicates,
+    nearDuplicates,
+    oversized,
+    reclaimableSize,
+    plan,
+    warnings,
+  };
+}
+
+/**
+ * Checks the user's own cleanup actions and stores them as a plan. Deleting media that is
+ * still used, and tag or move actions without tags or folder, are reported as issues.
+ */
+export async function planLibraryCleanup(actions: LibraryAction[]): Promise<LibraryCleanupPlan> {
+  const [records, usage] = await Promise.all([loadLibrary(), loadMediaUsage()]);
+  const library = new Map(records.map((m) => [m.mediaId, m]));
+  const issues: string[] = [];
+  const planned: LibraryAction[] = [];
+
+  for (const action of actions) {
+    const media = library.get(action.mediaId);
+    if (!media) {
+      issues.push(`Media ${action.mediaId} does not exist.`);
+      continue;
+    }
+    const used = usage.get(action.mediaId);
+    if (action.action === 'delete' && used && (used.layouts.size || used.playlists.size || used.menuBoards.size || used.dataSets.size)) {
+      issues.push(`Media ${action.mediaId} (${media.name}) is used by ${used.layouts.size} layouts, ${used.playlists.size} playlists, ${used.menuBoards.size} menu boards and ${used.dataSets.size} DataSets; retire it or remove it from them first.`);
+    }
+    if (action.action === 'tag' && !action.tags?.length) {
+      issues.push(`Give the tags to add to media ${action.mediaId}.`);
+    }
+    if (action.action === 'move' && action.folderId === undefined) {
+      issues.push(`Give the folder to move media ${action.mediaId} to.`);
+    }
+    planned.push(action);
+  }
+
+  const plan = storePlan(planned, issues, library);
+  logger.info({ planId: plan.planId, actions: plan.actions.length, issues: issues.length }, 'Library cleanup planned.');
+  return plan;
+}
+
+export function getLibraryCleanupPlan(planId: string): LibraryCleanupPlan | undefined {
+  return storedPlans.get(planId)?.plan;
+}
+
+const tagString = (media: MediaRecord) =>
+  (media.tags ?? []).map((t) => (t.value ? `${t.tag}|${t.value}` : t.tag)).join(',');
+
+/**
+ * Runs the actions of a plan: tags, moves, retirements, then deletions. Media that were
+ * deleted or changed since the plan was made are skipped.
+ *
+ * @throws {Error} If the plan does not exist, expired, belongs to another CMS profile or
+ * has issues.
+ */
+export async function applyLibraryCleanup(planId: string, options: { excludeMediaIds?: number[] } = {}): Promise<LibraryCleanupResult> {
+  const stored = storedPlans.require(planId);
+  const { plan } = stored;
+  if (plan.issues.length) {
+    throw new Error(`Library cleanup plan ${planId} has ${plan.issues.length} issues. Correct the actions and plan them again.`);
+  }
+
+  const library = new Map((await loadLibrary()).map((m) => [m.mediaId, m]));
+  const excluded = new Set(options.excludeMediaIds ?? []);
+  const order = (a: LibraryAction) => LIBRARY_ACTIONS.indexOf(a.action);
+  const results: LibraryCleanupResult['results'] = [];
+
+  for (const action of [...plan.actions].sort((a, b) => order(a) - order(b))) {
+    if (excluded.has(action.mediaId)) continue;
+    const media = library.get(action.mediaId);
+    const base = { mediaId: action.mediaId, name: action.name, action: action.action };
+    if (!media) {
+      results.push({ ...base, status: 'skipped', message: 'The media no longer exists.' });
+      continue;
+    }
+    if (mediaSignature(media) !== stored.snapshot.get(action.mediaId)) {
+      results.push({ ...base, status: 'skipped', message: 'The media changed since the plan was made.' });
+      continue;
+    }
+
+    const result = action.action === 'tag'
+      ? await xiboClient.request(`/library/${media.mediaId}/tag`, { method: 'POST', form: { tag: action.tags } })
+      : action.action === 'move'
+        ? await xiboClient.request(`/library/${media.mediaId}/selectfolder`, { method: 'PUT', form: { folderId: action.folderId } })
+        : action.action === 'retire'
+          ? await xiboClient.request(`/library/${media.mediaId}`, {
+            method: 'PUT',
+            form: { name: media.name, duration: media.duration, retired: 1, tags: tagString(media), updateInLayouts: 0 },
+          })
+          : await xiboClient.request(`/library/${media.mediaId}`, { method: 'DELETE', form: { forceDelete: 0 } });
+
+    if (result.success) {
+      results.push({ ...base, status: 'done' });
+    } else {
+      logger.warn({ planId, mediaId: media.mediaId, action: action.action, reason: result.message }, 'Library cleanup action failed.');
+      results.push({ ...base, status: 'failed', message: result.message });
+    }
+  }
+
+  storedPlans.delete(planId);
+  logger.info({ planId, done: results.filter((r) => r.status === 'done').length, actions: results.length }, 'Library cleanup applied.');
+  return { results };
+}
+
+/**
+ * Renders the actions of a plan as a Markdown table for the agent to show before applying.
+ */
+export function formatLibraryActionTable(actions: LibraryCleanupPlan['actions']): string {
+  if (!actions.length) return '';
+  const cell = (value: string) => value.replace(/\|/g, '\\|');
+  const detail = (a: LibraryAction) =>
+    a.action === 'tag' ? (a.tags ?? []).join(', ') : a.action === 'move' ? `folder ${a.folderId}` : '';
+  return [
+    '| media | name | action | detail | reason |',
+    '|--:|:--|:--|:--|:--|',
+    ...actions.map((a) => `| ${a.mediaId} | ${cell(a.name)} | ${a.action} | ${cell(detail(a))} | ${cell(a.reason ?? '')} |`),
+  ].join('\n');
+}
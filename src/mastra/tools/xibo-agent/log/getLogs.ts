@@ -25,9 +25,14 @@
 import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
-import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from "../utility/pagination";
 
 /**
  * Schema for the log entries array from Xibo API.
@@ -46,19 +51,22 @@ const logDataSchema = z.object({
 /**
  * Tool for retrieving Xibo CMS log information
  * 
- * This tool doesn't require any input parameters and returns
+ * This tool only accepts optional pagination parameters and returns
  * a JSON object containing:
  * - log: Array of log entries
+ * - pagination: Total vs. returned record counts
  */
 export const getLogs = createTool({
   id: 'get-logs',
   description: 'Get Xibo CMS log information',
   inputSchema: z.object({
-    _placeholder: z.string().optional().describe('This tool does not require input parameters')
+    _placeholder: z.string().optional().describe('This tool does not require input parameters'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema: z.object({
     success: z.boolean(),
     data: logDataSchema.optional(),
+    pagination: paginationSummarySchema.optional(),
     message: z.string(),
     error: z.string().optional()
   }),
@@ -75,31 +83,26 @@ export const getLogs = createTool({
         };
       }
 
-      // Get authentication headers
-      const headers = await getAuthHeaders();
-      
-      // Call CMS API
-      const response = await fetch(`${config.cmsUrl}/api/log`, {
-        headers,
-      });
+      const { pagination } = splitPaginationOptions(context);
+
+      // Call CMS API, following pages when requested
+      const result = await fetchPaginated(new URL(`${config.cmsUrl}/api/log`), pagination);
       // Handle API errors
-      if (!response.ok) {
-        const text = await response.text();
-        const errorMsg = decodeErrorMessage(text);
-        logger.error("getLogs: API error response", {
-            status: response.status,
+      if (!result.success) {
+        const errorMsg = typeof result.errorData === 'string' ? result.errorData : JSON.stringify(result.errorData);
+        logger.error({
+            status: result.status,
             error: errorMsg
-        });
+        }, "getLogs: API error response");
         return {
           success: false,
-          message: `HTTP error! status: ${response.status}, message: ${errorMsg}`,
+          message: `HTTP error! status: ${result.status}, message: ${errorMsg}`,
           error: errorMsg
         };
       }
 
-      // Parse and validate response
-      const data = await response.json();
-      const validatedLogArray = logArraySchema.parse(data);
+      // Validate response
+      const validatedLogArray = logArraySchema.parse(result.items);
 
       // Return formatted response
       return {
@@ -107,7 +110,8 @@ export const getLogs = createTool({
         data: {
           log: validatedLogArray
         },
-        message: "Successfully retrieved CMS logs"
+        pagination: result.pagination,
+        message: `Successfully retrieved CMS logs. ${describePagination(result.pagination, 'log entries')}`
       };
     } catch (error) {
       // Handle Zod validation errors and other exceptions
@@ -0,0 +1,538 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Media Compatibility
+ *
+ * Inspects video and audio files with `ffprobe` before they are uploaded to the library,
+ * checks them against what each player type can decode, and transcodes them with `ffmpeg`
+ * to H.264/AAC in MP4 when asked to.
+ *
+ * The profiles below are conservative limits of the hardware decoders of each platform:
+ * an Android stick or a Tizen panel may play more, but files within them play everywhere
+ * the platform runs. The player types checked are those of the displays registered in the
+ * CMS (from their client type) unless the caller names them.
+ *
+ * Transcoding keeps the resolution within the strictest selected profile, or letterboxes the
+ * video to the resolution of a layout, caps the frame rate and the bitrate, and writes an
+ * MP4 with the index at the start so players can begin playback while downloading. The
+ * duration of the uploaded media is set from the real length of the file, as the CMS does
+ * not read it for every codec.
+ */
+
+import { z } from 'zod';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import crypto from 'crypto';
+import { execFile } from 'child_process';
+import { logger } from '../../logger';
+import { xiboClient } from './xiboClient';
+import { loadRecords } from './utility/pagination';
+
+export const PLAYER_TYPES = ['android', 'tizen', 'webos', 'windows', 'linux', 'chromeos'] as const;
+
+export type PlayerType = typeof PLAYER_TYPES[number];
+
+export const TRANSCODE_MODES = ['never', 'ifIncompatible', 'always'] as const;
+
+export type TranscodeMode = typeof TRANSCODE_MODES[number];
+
+/**
+ * What a player type can decode.
+ */
+export interface PlayerProfile {
+  label: string;
+  /** File extensions. */
+  containers: string[];
+  /** `ffprobe` codec names. */
+  videoCodecs: string[];
+  audioCodecs: string[];
+  /** H.264 profiles the decoder handles. */
+  h264Profiles: string[];
+  pixelFormats: string[];
+  maxWidth: number;
+  maxHeight: number;
+  maxFps: number;
+  maxVideoKbps: number;
+}
+
+const H264_PROFILES = ['Constrained Baseline', 'Baseline', 'Main', 'High'];
+
+export const PLAYER_PROFILES: Record<PlayerType, PlayerProfile> = {
+  android: {
+    label: 'Android',
+    containers: ['mp4', 'm4v', 'webm', 'mp3', 'm4a', 'aac', 'ogg', 'wav'],
+    videoCodecs: ['h264', 'vp8'],
+    audioCodecs: ['aac', 'mp3', 'vorbis', 'opus', 'pcm_s16le'],
+    h264Profiles: H264_PROFILES,
+    pixelFormats: ['yuv420p', 'yuvj420p'],
+    maxWidth: 3840,
+    maxHeight: 2160,
+    maxFps: 30,
+    maxVideoKbps: 20000,
+  },
+  tizen: {
+    label: 'Tizen (SSSP)',
+    containers: ['mp4', 'm4v', 'mov', 'mkv', 'ts', 'mp3', 'm4a', 'aac', 'wav'],
+    videoCodecs: ['h264', 'hevc'],
+    audioCodecs: ['aac', 'mp3', 'ac3', 'pcm_s16le'],
+    h264Profiles: H264_PROFILES,
+    pixelFormats: ['yuv420p', 'yuvj420p', 'yuv420p10le'],
+    maxWidth: 3840,
+    maxHeight: 2160,
+    maxFps: 60,
+    maxVideoKbps: 40000,
+  },
+  webos: {
+    label: 'webOS (LG)',
+    containers: ['mp4', 'm4v', 'mov', 'mkv', 'ts', 'mp3', 'm4a', 'aac', 'wav'],
+    videoCodecs: ['h264', 'hevc', 'vp9'],
+    audioCodecs: ['aac', 'mp3', 'ac3', 'pcm_s16le'],
+    h264Profiles: H264_PROFILES,
+    pixelFormats: ['yuv420p', 'yuvj420p', 'yuv420p10le'],
+    maxWidth: 3840,
+    maxHeight: 2160,
+    maxFps: 60,
+    maxVideoKbps: 40000,
+  },
+  windows: {
+    label: 'Windows',
+    containers: ['mp4', 'm4v', 'mov', 'mkv', 'webm', 'wmv', 'avi', 'mp3', 'm4a', 'aac', 'wav', 'wma', 'ogg'],
+    videoCodecs: ['h264', 'hevc', 'vp8', 'vp9', 'wmv3', 'mpeg4'],
+    audioCodecs: ['aac', 'mp3', 'ac3', 'wmav2', 'vorbis', 'opus', 'pcm_s16le'],
+    h264Profiles: [...H264_PROFILES, 'High 10'],
+    pixelFormats: ['yuv420p', 'yuvj420p', 'yuv420p10le'],
+    maxWidth: 3840,
+    maxHeight: 2160,
+    maxFps: 60,
+    maxVideoKbps: 60000,
+  },
+  linux: {
+    label: 'Linux',
+    containers: ['mp4', 'm4v', 'mkv', 'webm', 'mp3', 'm4a', 'aac', 'ogg', 'wav'],
+    videoCodecs: ['h264', 'vp8', 'vp9'],
+    audioCodecs: ['aac', 'mp3', 'vorbis', 'opus', 'pcm_s16le'],
+    h264Profiles: H264_PROFILES,
+    pixelFormats: ['yuv420p', 'yuvj420p'],
+    maxWidth: 1920,
+    maxHeight: 1080,
+    maxFps: 60,
+    maxVideoKbps: 20000,
+  },
+  chromeos: {
+    label: 'ChromeOS',
+    containers: ['mp4', 'm4v', 'webm', 'mp3', 'm4a', 'ogg', 'wav'],
+    videoCodecs: ['h264', 'vp8', 'vp9'],
+    audioCodecs: ['aac', 'mp3', 'vorbis', 'opus', 'pcm_s16le'],
+    h264Profiles: H264_PROFILES,
+    pixelFormats: ['yuv420p', 'yuvj420p'],
+    maxWidth: 3840,
+    maxHeight: 2160,
+    maxFps: 60,
+    maxVideoKbps: 20000,
+  },
+};
+
+/**
+ * Player types of the client types the CMS reports for displays.
+ */
+const CLIENT_TYPES: Record<string, PlayerType> = {
+  android: 'android',
+  sssp: 'tizen',
+  tizen: 'tizen',
+  lg: 'webos',
+  webos: 'webos',
+  windows: 'windows',
+  linux: 'linux',
+  chromeos: 'chromeos',
+};
+
+export function playerTypeOfClient(clientType: string | null | undefined): PlayerType | null {
+  return CLIENT_TYPES[String(clientType ?? '').toLowerCase()] ?? null;
+}
+
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'mov', 'mkv', 'webm', 'wmv', 'avi', 'ts', 'mpg', 'mpeg', 'flv', '3gp'];
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'aac', 'wav', 'ogg', 'oga', 'opus', 'wma', 'flac'];
+
+/**
+ * Tells whether a file is video or audio by its extension.
+ */
+export function isTimedMediaFile(fileName: string): boolean {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  return VIDEO_EXTENSIONS.includes(extension) || AUDIO_EXTENSIONS.includes(extension);
+}
+
+// -----------------------------------------------------------------------------
+// Probing
+// -----------------------------------------------------------------------------
+
+export interface MediaProbe {
+  /** File extension, e.g. 'mp4'. */
+  container: string;
+  /** Length in seconds. */
+  duration: number;
+  bitrateKbps: number | null;
+  video: {
+    codec: string;
+    profile: string | null;
+    width: number;
+    height: number;
+    fps: number | null;
+    bitrateKbps: number | null;
+    pixelFormat: string | null;
+  } | null;
+  audio: {
+    codec: string;
+    sampleRate: number | null;
+    channels: number | null;
+    bitrateKbps: number | null;
+  } | null;
+}
+
+const probeStreamSchema = z.object({
+  codec_type: z.string().optional(),
+  codec_name: z.string().optional(),
+  profile: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  avg_frame_rate: z.string().optional(),
+  r_frame_rate: z.string().optional(),
+  pix_fmt: z.string().optional(),
+  bit_rate: z.string().optional(),
+  sample_rate: z.string().optional(),
+  channels: z.number().optional(),
+  disposition: z.object({ attached_pic: z.number().optional() }).passthrough().optional(),
+}).passthrough();
+
+const probeOutputSchema = z.object({
+  streams: z.array(probeStreamSchema).default([]),
+  format: z.object({
+    duration: z.string().optional(),
+    bit_rate: z.string().optional(),
+  }).passthrough().default({}),
+});
+
+const kbps = (bitRate: string | undefined) => {
+  const value = Number(bitRate);
+  return bitRate && Number.isFinite(value) ? Math.round(value / 1000) : null;
+};
+
+const frameRate = (rate: string | undefined) => {
+  const [num, den] = String(rate ?? '').split('/').map(Number);
+  return num > 0 && den > 0 ? Math.round((num / den) * 100) / 100 : null;
+};
+
+/**
+ * Reads the JSON output of `ffprobe -show_format -show_streams`.
+ *
+ * @throws {Error} If the output has neither a video nor an audio stream.
+ */
+export function parseProbeOutput(output: unknown, fileName: string): MediaProbe {
+  const { streams, format } = probeOutputSchema.parse(output);
+  // Cover art of audio files is reported as a video stream.
+  const video = streams.find((s) => s.codec_type === 'video' && !s.disposition?.attached_pic);
+  const audio = streams.find((s) => s.codec_type === 'audio');
+  if (!video && !audio) {
+    throw new Error(`${fileName} has no video or audio stream.`);
+  }
+  return {
+    container: path.extname(fileName).slice(1).toLowerCase(),
+    duration: Number(format.duration) || 0,
+    bitrateKbps: kbps(format.bit_rate),
+    video: video ? {
+      codec: video.codec_name ?? 'unknown',
+      profile: video.profile ?? null,
+      width: video.width ?? 0,
+      height: video.height ?? 0,
+      fps: frameRate(video.avg_frame_rate) ?? frameRate(video.r_frame_rate),
+      bitrateKbps: kbps(video.bit_rate),
+      pixelFormat: video.pix_fmt ?? null,
+    } : null,
+    audio: audio ? {
+      codec: audio.codec_name ?? 'unknown',
+      sampleRate: Number(audio.sample_rate) || null,
+      channels: audio.channels ?? null,
+      bitrateKbps: kbps(audio.bit_rate),
+    } : null,
+  };
+}
+
+/** How long ffprobe may inspect a file, and ffmpeg may transcode one. */
+const COMMAND_TIMEOUT_MS = { ffprobe: 60 * 1000, ffmpeg: 60 * 60 * 1000 };
+
+/**
+ * Runs a command and returns its standard output. The command is killed after
+ * `COMMAND_TIMEOUT_MS`.
+ */
+function run(command: 'ffprobe' | 'ffmpeg', args: string[]): Promise<string> {
+  const timeout = COMMAND_TIMEOUT_MS[command];
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { maxBuffer: 16 * 1024 * 1024, timeout }, (error, stdout, stderr) => {
+      if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+        reject(new Error(`${command} is not installed. Install ffmpeg (e.g. apt install ffmpeg or brew install ffmpeg).`));
+      } else if (error?.killed) {
+        reject(new Error(`${command} did not finish within ${timeout / 1000} seconds.`));
+      } else if (error) {
+        const detail = String(stderr ?? '').trim().split('\n').slice(-3).join(' ');
+        reject(new Error(`${command} failed: ${detail || error.message}`));
+      } else {
+        resolve(String(stdout));
+      }
+    });
+  });
+}
+
+/**
+ * Inspects a video or audio file with `ffprobe`. `fileName` gives the container when the
+ * file is stored under another name.
+ */
+export async function probeMedia(filePath: string, fileName = path.basename(filePath)): Promise<MediaProbe> {
+  const output = await run('ffprobe', ['-v', 'quiet', '-print_format', 'json', '-show_format', '-show_streams', filePath]);
+  return parseProbeOutput(JSON.parse(output), fileName);
+}
+
+// -----------------------------------------------------------------------------
+// Compatibility
+// -----------------------------------------------------------------------------
+
+export interface PlayerCompatibility {
+  playerType: PlayerType;
+  compatible: boolean;
+  problems: string[];
+}
+
+/**
+ * Lists what keeps each player type from playing a file.
+ */
+export function checkPlayerCompatibility(probe: MediaProbe, playerTypes: readonly PlayerType[]): PlayerCompatibility[] {
+  return playerTypes.map((playerType) => {
+    const profile = PLAYER_PROFILES[playerType];
+    const problems: string[] = [];
+    if (!profile.containers.includes(probe.container)) {
+      problems.push(`.${probe.container} files are not supported`);
+    }
+    const { video, audio } = probe;
+    if (video) {
+      if (!profile.videoCodecs.includes(video.codec)) {
+        problems.push(`${video.codec} video is not supported (use ${profile.videoCodecs.join(', ')})`);
+      } else if (video.codec === 'h264' && video.profile && !profile.h264Profiles.includes(video.profile)) {
+        problems.push(`H.264 ${video.profile} profile is not supported`);
+      }
+      if (video.pixelFormat && !profile.pixelFormats.includes(video.pixelFormat)) {
+        problems.push(`${video.pixelFormat} pixel format is not supported`);
+      }
+      const long = Math.max(video.width, video.height);
+      const short = Math.min(video.width, video.height);
+      if (long > Math.max(profile.maxWidth, profile.maxHeight) || short > Math.min(profile.maxWidth, profile.maxHeight)) {
+        problems.push(`${video.width}x${video.height} is over ${profile.maxWidth}x${profile.maxHeight}`);
+      }
+      if (video.fps && video.fps > profile.maxFps) {
+        problems.push(`${video.fps} fps is over ${profile.maxFps} fps`);
+      }
+      const bitrate = video.bitrateKbps ?? probe.bitrateKbps;
+      if (bitrate && bitrate > profile.maxVideoKbps) {
+        problems.push(`${bitrate} kbps is over ${profile.maxVideoKbps} kbps`);
+      }
+    }
+    if (audio && !profile.audioCodecs.includes(audio.codec)) {
+      problems.push(`${audio.codec} audio is not supported (use ${profile.audioCodecs.join(', ')})`);
+    }
+    return { playerType, compatible: problems.length === 0, problems };
+  });
+}
+
+/**
+ * Player types of the displays registered in the CMS; all player types when there are none.
+ */
+export async function resolvePlayerTypes(playerTypes?: readonly PlayerType[]): Promise<PlayerType[]> {
+  if (playerTypes?.length) return [...new Set(playerTypes)];
+  const displays = await loadRecords('/display', z.object({ clientType: z.string().nullable().optional() }).passthrough());
+  const found = new Set(displays.map((d) => playerTypeOfClient(d.clientType)).filter((t): t is PlayerType => t !== null));
+  return found.size ? PLAYER_TYPES.filter((t) => found.has(t)) : [...PLAYER_TYPES];
+}
+
+// -----------------------------------------------------------------------------
+// Transcoding
+// -----------------------------------------------------------------------------
+
+/**
+ * Limits a transcode must stay within: the strictest of the given profiles.
+ */
+export function strictestProfile(playerTypes: readonly PlayerType[]): Pick<PlayerProfile, 'maxWidth' | 'maxHeight' | 'maxFps' | 'maxVideoKbps'> {
+  const profiles = (playerTypes.length ? playerTypes : PLAYER_TYPES).map((t) => PLAYER_PROFILES[t]);
+  return {
+    maxWidth: Math.min(...profiles.map((p) => p.maxWidth)),
+    maxHeight: Math.min(...profiles.map((p) => p.maxHeight)),
+    maxFps: Math.min(...profiles.map((p) => p.maxFps)),
+    maxVideoKbps: Math.min(...profiles.map((p) => p.maxVideoKbps)),
+  };
+}
+
+const even = (value: number) => Math.max(2, Math.floor(value / 2) * 2);
+
+/**
+ * Builds the `ffmpeg` arguments converting a file to H.264/AAC in MP4 (or AAC in M4A for
+ * audio). With `target`, the video is scaled and letterboxed to that size; otherwise it is
+ * only scaled down to the limits.
+ */
+export function buildTranscodeArgs(
+  input: string,
+  output: string,
+  probe: MediaProbe,
+  limits: Pick<PlayerProfile, 'maxWidth' | 'maxHeight' | 'maxFps' | 'maxVideoKbps'>,
+  target?: { width: number; height: number },
+): string[] {
+  const audioArgs = probe.audio ? ['-c:a', 'aac', '-b:a', '160k', '-ac', '2'] : ['-an'];
+  if (!probe.video) {
+    return ['-y', '-i', input, '-vn', ...audioArgs, output];
+  }
+
+  let filter: string;
+  if (target) {
+    const width = even(target.width);
+    const height = even(target.height);
+    filter = `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1`;
+  } else {
+    const { width, height } = probe.video;
+    const scale = Math.min(
+      1,
+      Math.max(limits.maxWidth, limits.maxHeight) / Math.max(width, height),
+      Math.min(limits.maxWidth, limits.maxHeight) / Math.min(width, height),
+    );
+    filter = `scale=${even(width * scale)}:${even(height * scale)},setsar=1`;
+  }
+  const fps = probe.video.fps && probe.video.fps > limits.maxFps ? ['-r', String(limits.maxFps)] : [];
+  return [
+    '-y', '-i', input,
+    '-map', '0:v:0', ...(probe.audio ? ['-map', '0:a:0'] : []),
+    '-vf', filter,
+    '-c:v', 'libx264', '-profile:v', 'high', '-pix_fmt', 'yuv420p',
+    '-preset', 'medium', '-crf', '23',
+    '-maxrate', `${limits.maxVideoKbps}k`, '-bufsize', `${limits.maxVideoKbps * 2}k`,
+    ...fps,
+    ...audioArgs,
+    '-movflags', '+faststart',
+    output,
+  ];
+}
+
+/**
+ * Reads the size of a layout, to transcode video for it.
+ */
+async function layoutSize(layoutId: number): Promise<{ width: number; height: number }> {
+  const result = await xiboClient.get<Array<{ layoutId: number; width: number; height: number }>>('/layout', { layoutId });
+  const layout = result.success && Array.isArray(result.data) ? result.data.find((l) => l.layoutId === layoutId) : undefined;
+  if (!layout) {
+    throw new Error(`Layout ${layoutId} does not exist.`);
+  }
+  return { width: Number(layout.width), height: Number(layout.height) };
+}
+
+export interface MediaUploadPreparation {
+  /** File to upload: the transcoded file when the original was transcoded. */
+  filePath: string;
+  fileName: string;
+  /** Whether `filePath` is a temporary file to remove after the upload. */
+  temporary: boolean;
+  transcoded: boolean;
+  /** The original file. */
+  original: MediaProbe;
+  /** The file to upload. */
+  probe: MediaProbe;
+  playerTypes: PlayerType[];
+  compatibility: PlayerCompatibility[];
+  /** Length of the file in whole seconds, for the media duration. */
+  duration: number;
+}
+
+/**
+ * Inspects a video or audio file and, depending on `transcode`, converts it to H.264/AAC
+ * in a temporary file. The temporary file is removed again when the conversion fails.
+ */
+export async function prepareMediaUpload(
+  filePath: string,
+  options: { transcode?: TranscodeMode; playerTypes?: readonly PlayerType[]; targetLayoutId?: number; fileName?: string } = {},
+): Promise<MediaUploadPreparation> {
+  const fileName = options.fileName ?? path.basename(filePath);
+  const original = await probeMedia(filePath, fileName);
+  const playerTypes = await resolvePlayerTypes(options.playerTypes);
+  const compatibility = checkPlayerCompatibility(original, playerTypes);
+  const mode = options.transcode ?? 'never';
+  const duration = Math.max(1, Math.round(original.duration));
+
+  if (mode === 'never' || (mode === 'ifIncompatible' && compatibility.every((c) => c.compatible))) {
+    return { filePath, fileName, temporary: false, transcoded: false, original, probe: original, playerTypes, compatibility, duration };
+  }
+
+  const target = options.targetLayoutId !== undefined ? await layoutSize(options.targetLayoutId) : undefined;
+  const extension = original.video ? 'mp4' : 'm4a';
+  const output = path.join(os.tmpdir(), `xibo-transcode-${crypto.randomUUID()}.${extension}`);
+  const started = Date.now();
+  const transcodedName = `${path.parse(fileName).name}.${extension}`;
+  let probe: MediaProbe;
+  try {
+    await run('ffmpeg', buildTranscodeArgs(filePath, output, original, strictestProfile(playerTypes), target));
+    probe = await probeMedia(output, transcodedName);
+  } catch (error) {
+    await fs.rm(output, { force: true });
+    throw error;
+  }
+  logger.info({ fileName, transcodedName, seconds: Math.round((Date.now() - started) / 1000), target }, 'Media transcoded for the players.');
+  return {
+    filePath: output,
+    fileName: transcodedName,
+    temporary: true,
+    transcoded: true,
+    original,
+    probe,
+    playerTypes,
+    compatibility: checkPlayerCompatibility(probe, playerTypes),
+    duration: Math.max(1, Math.round(probe.duration || original.duration)),
+  };
+}
+
+const mediaEditSchema = z.object({
+  mediaId: z.number(),
+  name: z.string(),
+  duration: z.coerce.number(),
+  retired: z.coerce.number().default(0),
+  tags: z.array(z.object({ tag: z.string(), value: z.string().nullable().optional() }).passthrough()).nullable().optional(),
+}).passthrough();
+
+/**
+ * Sets the duration of a media item, keeping its other fields, and updates the widgets
+ * showing it.
+ *
+ * @throws {Error} If the media does not exist or the CMS refuses the change.
+ */
+export async function setMediaDuration(mediaId: number, duration: number): Promise<void> {
+  const found = await xiboClient.get('/library', { mediaId }, z.array(mediaEditSchema));
+  const media = found.success ? found.data.find((m) => m.mediaId === mediaId) : undefined;
+  if (!media) {
+    throw new Error(`Media ${mediaId} does not exist.`);
+  }
+  if (media.duration === duration) return;
+  const result = await xiboClient.request(`/library/${mediaId}`, {
+    method: 'PUT',
+    form: {
+      name: media.name,
+      duration,
+      retired: media.retired,
+      tags: (media.tags ?? []).map((t) => (t.value ? `${t.tag}|${t.value}` : t.tag)).join(','),
+      updateInLayouts: 1,
+    },
+  });
+  if (!result.success) {
+    throw new Error(`Setting the duration of media ${mediaId} failed: ${result.message}`);
+  }
+}
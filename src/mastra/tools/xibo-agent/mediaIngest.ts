@@ -0,0 +1,616 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Media Ingest
+ *
+ * Uploads a directory or a ZIP package of assets to the library in one go, the way agencies
+ * deliver them.
+ *
+ * - Sub-folders are mirrored as library folders under `parentFolderId`: existing folders of
+ *   the same name are reused, missing ones are created with the `add-folder` tool.
+ * - Every file is tagged with the names of the folders it is in (`tagsFromPath`), the
+ *   `tags` of the job, and the tags given for it in the manifest.
+ * - A manifest (`manifest.csv` or `manifest.json` at the top of the package) can give each
+ *   file a media name, tags and a folder path. CSV columns: `file`, `name`, `tags`
+ *   (separated by `,` or `;`), `folder`.
+ * - Files whose content is already in the library (same MD5) are not uploaded again; the
+ *   existing media is moved to the folder with the `select-media-folder` tool and tagged.
+ * - Video and audio are checked against the players, and transcoded when asked to, as in
+ *   `addMedia` (see `mediaCompatibility`).
+ *
+ * Uploads run `concurrency` at a time. The outcome of every file is stored in
+ * `xibo_media_ingest_files` as soon as it is known, so a job cut short (or with failed
+ * files) is resumed by passing its `jobId`: files already uploaded are skipped and the
+ * others are tried again. ZIP packages are extracted to `<upload dir>/ingest/<jobId>` and
+ * the extracted files are removed once every file is in the library.
+ */
+
+import { z } from 'zod';
+import crypto from 'crypto';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { config } from './config';
+import { logger } from '../../logger';
+import { getActiveCmsProfileName } from './cmsContext';
+import { ensureTables, getAgentDatabase } from './database';
+import { xiboClient } from './xiboClient';
+import { loadRecords } from './utility/pagination';
+import { parseCsv } from './utility/spreadsheet';
+import { ZipExtractLimits, extractZipFile } from './utility/zipArchive';
+import { executeTool } from './safeMode';
+import { addFolder } from './folder/addFolder';
+import { selectMediaFolder } from './library/selectMediaFolder';
+import {
+  PLAYER_TYPES, TRANSCODE_MODES, MediaUploadPreparation, isTimedMediaFile, prepareMediaUpload, setMediaDuration,
+} from './mediaCompatibility';
+
+export const mediaIngestSchema = z.object({
+  source: z.string().optional().describe('Directory or .zip file to ingest, inside the upload directory (persistent_data/uploads) and relative to it.'),
+  jobId: z.string().optional().describe('ID of an earlier ingest job to resume. Files already uploaded are skipped and the others tried again; the options of that job are used.'),
+  parentFolderId: z.number().int().default(1).describe('Library folder the files, and the mirrored sub-folders, go into. 1 is the root folder.'),
+  mirrorFolders: z.boolean().default(true).describe('Create a library folder for every sub-folder of the package.'),
+  tagsFromPath: z.boolean().default(true).describe('Tag every file with the names of the folders it is in.'),
+  tags: z.array(z.string()).default([]).describe('Tags added to every file.'),
+  manifest: z.string().optional().describe('Manifest file in the package (CSV or JSON) with the name, tags and folder of each file. Defaults to manifest.csv or manifest.json when present.'),
+  concurrency: z.number().int().min(1).max(8).default(3).describe('Number of files uploaded at the same time.'),
+  transcode: z.enum(TRANSCODE_MODES).optional().describe("For video/audio: 'ifIncompatible' or 'always' converts files to H.264/AAC (see addMedia)."),
+  playerTypes: z.array(z.enum(PLAYER_TYPES)).optional().describe('Player types to check video/audio against. Defaults to the types of the displays in the CMS.'),
+});
+
+export type MediaIngestOptions = z.input<typeof mediaIngestSchema>;
+
+export const INGEST_FILE_STATUSES = ['uploaded', 'existing', 'skipped', 'failed', 'ignored'] as const;
+
+export type IngestFileStatus = typeof INGEST_FILE_STATUSES[number];
+
+export interface IngestFileResult {
+  /** Path of the file in the package, with `/` separators. */
+  path: string;
+  /**
+   * 'uploaded', 'existing' (same content already in the library), 'skipped' (uploaded by an
+   * earlier run of the job), 'failed', or 'ignored' (not a file that can be uploaded).
+   */
+  status: IngestFileStatus;
+  mediaId?: number;
+  name?: string;
+  folderId?: number;
+  tags?: string[];
+  transcoded?: boolean;
+  error?: string;
+}
+
+export interface MediaIngestReport {
+  jobId: string;
+  source: string;
+  total: number;
+  uploaded: number;
+  existing: number;
+  skipped: number;
+  failed: number;
+  ignored: number;
+  /** Folder paths created in the library, relative to the parent folder. */
+  foldersCreated: string[];
+  files: IngestFileResult[];
+}
+
+interface ManifestEntry {
+  name?: string;
+  tags: string[];
+  folder?: string;
+}
+
+const MANIFEST_FILES = ['manifest.csv', 'manifest.json'];
+
+/** Largest extracted size of one file of a ZIP package, and of the whole package. */
+const ZIP_LIMITS: ZipExtractLimits = { maxEntryBytes: 2 * 1024 ** 3, maxTotalBytes: 8 * 1024 ** 3 };
+
+/** Written into the extraction directory once a ZIP package is fully extracted. */
+const EXTRACTED_MARKER = '.extracted';
+
+/**
+ * Error raised when an ingest stops after its job was recorded; the job can be resumed.
+ */
+export class MediaIngestError extends Error {
+  constructor(message: string, public readonly jobId: string) {
+    super(message);
+    this.name = 'MediaIngestError';
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Package contents
+// -----------------------------------------------------------------------------
+
+/** Files every OS drops into folders and archives. */
+const isJunk = (relPath: string) =>
+  relPath.split('/').some((part) => part.startsWith('.') || part === '__MACOSX') || /(^|\/)(Thumbs\.db|desktop\.ini)$/i.test(relPath);
+
+/**
+ * Normalizes a path from a package or manifest to `a/b/c.png`; null if it points outside.
+ */
+export function packagePath(name: string): string | null {
+  const normalized = path.posix.normalize(name.replace(/\\/g, '/')).replace(/^(\.\/)+/, '');
+  if (!normalized || normalized === '.' || normalized.startsWith('../') || normalized === '..' || path.posix.isAbsolute(normalized) || /^[A-Za-z]:/.test(normalized)) {
+    return null;
+  }
+  return normalized;
+}
+
+/**
+ * Lists the files of a directory, recursively, as package paths.
+ */
+async function listDirectory(root: string, dir = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(root, dir), { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const relPath = dir ? `${dir}/${entry.name}` : entry.name;
+    if (isJunk(relPath)) continue;
+    if (entry.isDirectory()) files.push(...await listDirectory(root, relPath));
+    else if (entry.isFile()) files.push(relPath);
+  }
+  return files;
+}
+
+/**
+ * Extracts a ZIP package into `target`, one entry at a time. Entries pointing outside of it
+ * are reported as ignored.
+ *
+ * @throws {Error} If the package is not a ZIP archive or extracts to more than the limits.
+ */
+async function extractZip(zipPath: string, target: string): Promise<{ files: string[]; ignored: IngestFileResult[] }> {
+  const files: string[] = [];
+  const ignored: IngestFileResult[] = [];
+  await extractZipFile(zipPath, (name) => {
+    const relPath = packagePath(name);
+    if (!relPath) {
+      ignored.push({ path: name, status: 'ignored', error: 'The path points outside of the package.' });
+      return null;
+    }
+    if (isJunk(relPath)) return null;
+    files.push(relPath);
+    return path.join(target, relPath);
+  }, ZIP_LIMITS);
+  return { files, ignored };
+}
+
+/** Splits a tag list; `|` is kept as it separates a tag from its value. */
+const splitTags = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(String) : String(value ?? '').split(/[,;]/)).map((t) => t.trim()).filter(Boolean);
+
+/**
+ * Reads a manifest: CSV with a `file` (or `path`) column, or JSON, either an array of
+ * `{ file, name?, tags?, folder? }` or `{ files: [...] }`.
+ *
+ * @throws {Error} If the manifest cannot be read or names no files.
+ */
+export function parseManifest(content: string, fileName: string): Map<string, ManifestEntry> {
+  let rows: Record<string, unknown>[];
+  if (fileName.toLowerCase().endsWith('.json')) {
+    const parsed = JSON.parse(content);
+    rows = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.files) ? parsed.files : [];
+  } else {
+    const [header = [], ...lines] = parseCsv(content);
+    const columns = header.map((h) => h.trim().toLowerCase());
+    rows = lines
+      .filter((line) => line.some((cell) => cell.trim()))
+      .map((line) => Object.fromEntries(columns.map((column, i) => [column, line[i] ?? ''])));
+  }
+
+  const entries = new Map<string, ManifestEntry>();
+  for (const row of rows) {
+    const relPath = packagePath(String(row.file ?? row.path ?? ''));
+    if (!relPath) continue;
+    const folder = String(row.folder ?? '').trim();
+    entries.set(relPath, {
+      name: String(row.name ?? '').trim() || undefined,
+      tags: splitTags(row.tags),
+      folder: folder ? (packagePath(folder) ?? undefined) : undefined,
+    });
+  }
+  if (!entries.size) {
+    throw new Error(`${fileName} lists no files; give a 'file' column (CSV) or 'file' fields (JSON).`);
+  }
+  return entries;
+}
+
+/**
+ * Tags of a file from the folders it is in: `summer/menu/burger.png` gives `summer` and `menu`.
+ */
+export function pathTags(relPath: string): string[] {
+  return path.posix.dirname(relPath).split('/').filter((part) => part && part !== '.');
+}
+
+/** Xibo keeps tags comma separated, so a tag cannot contain a comma. */
+const cleanTags = (tags: string[]) => [...new Set(tags.map((t) => t.replace(/,/g, ' ').trim()).filter(Boolean))];
+
+// -----------------------------------------------------------------------------
+// Job state
+// -----------------------------------------------------------------------------
+
+function ensureSchema(): Promise<void> {
+  return ensureTables('media-ingest', [
+    `CREATE TABLE IF NOT EXISTS xibo_media_ingest_jobs (
+      job_id TEXT PRIMARY KEY,
+      cms_profile TEXT NOT NULL,
+      source TEXT NOT NULL,
+      options TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      finished_at TEXT
+    )`,
+    `CREATE TABLE IF NOT EXISTS xibo_media_ingest_files (
+      job_id TEXT NOT NULL,
+      path TEXT NOT NULL,
+      status TEXT NOT NULL,
+      media_id INTEGER,
+      folder_id INTEGER,
+      error TEXT,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (job_id, path)
+    )`,
+  ]);
+}
+
+type StoredJob = { cmsProfile: string; source: string; options: z.infer<typeof mediaIngestSchema> };
+
+async function loadJob(jobId: string): Promise<StoredJob | null> {
+  const result = await getAgentDatabase().execute({
+    sql: 'SELECT cms_profile, source, options FROM xibo_media_ingest_jobs WHERE job_id = ?',
+    args: [jobId],
+  });
+  const row = result.rows[0];
+  return row ? { cmsProfile: String(row.cms_profile), source: String(row.source), options: mediaIngestSchema.parse(JSON.parse(String(row.options))) } : null;
+}
+
+async function loadFileStates(jobId: string): Promise<Map<string, { status: IngestFileStatus; mediaId: number | null; folderId: number | null }>> {
+  const result = await getAgentDatabase().execute({
+    sql: 'SELECT path, status, media_id, folder_id FROM xibo_media_ingest_files WHERE job_id = ?',
+    args: [jobId],
+  });
+  return new Map(result.rows.map((row) => [String(row.path), {
+    status: String(row.status) as IngestFileStatus,
+    mediaId: row.media_id === null ? null : Number(row.media_id),
+    folderId: row.folder_id === null ? null : Number(row.folder_id),
+  }]));
+}
+
+async function saveFileState(jobId: string, file: IngestFileResult): Promise<void> {
+  await getAgentDatabase().execute({
+    sql: `INSERT INTO xibo_media_ingest_files (job_id, path, status, media_id, folder_id, error, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (job_id, path) DO UPDATE SET status = excluded.status, media_id = excluded.media_id,
+        folder_id = excluded.folder_id, error = excluded.error, updated_at = excluded.updated_at`,
+    args: [jobId, file.path, file.status, file.mediaId ?? null, file.folderId ?? null, file.error ?? null, new Date().toISOString()],
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Library folders and media
+// -----------------------------------------------------------------------------
+
+const folderRecordSchema = z.object({
+  id: z.coerce.number(),
+  text: z.string(),
+  parentId: z.coerce.number().nullable().optional(),
+  children: z.unknown().optional(),
+}).passthrough();
+
+type FolderRecord = z.infer<typeof folderRecordSchema>;
+
+/** The CMS returns folders as a list or as a tree of `children`; this flattens both. */
+function flattenFolders(items: unknown[], parentId: number | null = null): FolderRecord[] {
+  return items.flatMap((item) => {
+    const parsed = folderRecordSchema.safeParse(item);
+    if (!parsed.success) return [];
+    const folder = { ...parsed.data, parentId: parsed.data.parentId ?? parentId };
+    return [folder, ...(Array.isArray(folder.children) ? flattenFolders(folder.children, folder.id) : [])];
+  });
+}
+
+/**
+ * Finds or creates library folders for folder paths, creating parents first.
+ */
+class FolderMirror {
+  private readonly ids = new Map<string, number>();
+  readonly created: string[] = [];
+
+  constructor(private readonly folders: FolderRecord[], private readonly parentFolderId: number) {
+    this.ids.set('', parentFolderId);
+  }
+
+  async resolve(folderPath: string): Promise<number> {
+    const known = this.ids.get(folderPath);
+    if (known !== undefined) return known;
+
+    const parentPath = folderPath.includes('/') ? folderPath.slice(0, folderPath.lastIndexOf('/')) : '';
+    const parentId = await this.resolve(parentPath);
+    const text = folderPath.slice(folderPath.lastIndexOf('/') + 1);
+    let id = this.folders.find((f) => f.parentId === parentId && f.text === text)?.id;
+    if (id === undefined) {
+      const result = await executeTool(addFolder, { text, parentId });
+      if (!result.success) {
+        throw new Error(`Creating folder ${folderPath} failed: ${result.message}`);
+      }
+      id = result.data[0].id;
+      this.folders.push({ id, text, parentId });
+      this.created.push(folderPath);
+    }
+    this.ids.set(folderPath, id);
+    return id;
+  }
+}
+
+const libraryRecordSchema = z.object({
+  mediaId: z.number(),
+  name: z.string(),
+  md5: z.string().nullable().optional(),
+  folderId: z.coerce.number().nullable().optional(),
+}).passthrough();
+
+const uploadResponseSchema = z.object({
+  files: z.array(z.object({
+    mediaId: z.number().optional(),
+    name: z.string().optional(),
+    error: z.string().optional(),
+  }).passthrough()),
+});
+
+/**
+ * Uploads one file to the library with its name, tags and folder.
+ */
+async function uploadToLibrary(content: Buffer, fileName: string, fields: { name: string; tags: string[]; folderId: number }): Promise<number> {
+  const form = new FormData();
+  form.append('files', new Blob([content]), fileName);
+  form.append('name', fields.name);
+  if (fields.tags.length) form.append('tags', fields.tags.join(','));
+  form.append('folderId', String(fields.folderId));
+
+  const response = await xiboClient.fetch(`${config.cmsUrl}/api/library`, {
+    method: 'POST',
+    body: form,
+  });
+  const body = await response.json().catch(() => null);
+  const parsed = uploadResponseSchema.safeParse(body);
+  if (!response.ok || !parsed.success) {
+    throw new Error(`The CMS refused the upload (HTTP ${response.status}): ${JSON.stringify(body)?.slice(0, 300)}`);
+  }
+  const uploaded = parsed.data.files[0];
+  if (!uploaded || uploaded.mediaId === undefined) {
+    throw new Error(uploaded?.error ?? 'The CMS did not return the uploaded media.');
+  }
+  return uploaded.mediaId;
+}
+
+/**
+ * Runs tasks with at most `limit` of them at the same time.
+ */
+async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const current = next++;
+      results[current] = await tasks[current]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker));
+  return results;
+}
+
+// -----------------------------------------------------------------------------
+// Ingest
+// -----------------------------------------------------------------------------
+
+/**
+ * Ingests a directory or ZIP package into the library, or resumes an earlier job.
+ *
+ * @throws {MediaIngestError} If the job was recorded but a folder or the library cannot be
+ *   read or created; resume it with its jobId.
+ * @throws {Error} If the source or the manifest cannot be read, or the job does not exist or
+ *   belongs to another CMS. Failures of single files are reported in the result instead.
+ */
+export async function ingestMedia(input: MediaIngestOptions): Promise<MediaIngestReport> {
+  const recorded: { jobId?: string } = {};
+  try {
+    return await runIngest(input, recorded);
+  } catch (error) {
+    if (!recorded.jobId) throw error;
+    throw new MediaIngestError(error instanceof Error ? error.message : String(error), recorded.jobId);
+  }
+}
+
+/**
+ * Runs an ingest, setting `recorded.jobId` once the job is stored.
+ */
+async function runIngest(input: MediaIngestOptions, recorded: { jobId?: string }): Promise<MediaIngestReport> {
+  await ensureSchema();
+  const cmsProfile = getActiveCmsProfileName();
+  const db = getAgentDatabase();
+
+  let jobId: string;
+  let options: z.infer<typeof mediaIngestSchema>;
+  let source: string;
+  if (input.jobId) {
+    const job = await loadJob(input.jobId);
+    if (!job) {
+      throw new Error(`Ingest job ${input.jobId} does not exist.`);
+    }
+    if (job.cmsProfile !== cmsProfile) {
+      throw new Error(`Ingest job ${input.jobId} uploads to CMS profile '${job.cmsProfile}'; switch to it to resume the job.`);
+    }
+    jobId = input.jobId;
+    options = { ...job.options, concurrency: input.concurrency ?? job.options.concurrency };
+    source = job.source;
+  } else {
+    if (!input.source) {
+      throw new Error('Give the directory or ZIP file to ingest, or the jobId of a job to resume.');
+    }
+    options = mediaIngestSchema.parse(input);
+    source = path.resolve(config.uploadDir, input.source);
+    if (!source.startsWith(path.resolve(config.uploadDir) + path.sep)) {
+      throw new Error(`"${input.source}" is outside the upload directory.`);
+    }
+    jobId = crypto.randomUUID();
+  }
+
+  const stat = await fs.stat(source).catch(() => null);
+  const isZip = Boolean(stat?.isFile() && source.toLowerCase().endsWith('.zip'));
+  if (!stat || (!stat.isDirectory() && !isZip)) {
+    throw new Error(`${source} is not a directory or a .zip file.`);
+  }
+
+  // Files of the package, extracting a ZIP first (again, when resuming after a cleanup)
+  const root = isZip ? path.join(config.uploadDir, 'ingest', jobId) : source;
+  const ignored: IngestFileResult[] = [];
+  let files: string[];
+  if (isZip) {
+    // The marker is written last, so an extraction cut short is started over
+    const marker = path.join(root, EXTRACTED_MARKER);
+    const extracted = await fs.stat(marker).then(() => true, () => false);
+    if (extracted) {
+      files = await listDirectory(root);
+    } else {
+      await fs.rm(root, { recursive: true, force: true });
+      const result = await extractZip(source, root);
+      await fs.writeFile(marker, new Date().toISOString());
+      files = result.files;
+      ignored.push(...result.ignored);
+    }
+  } else {
+    files = await listDirectory(root);
+  }
+  files.sort();
+
+  const manifestName = options.manifest ?? MANIFEST_FILES.find((name) => files.includes(name));
+  let manifest = new Map<string, ManifestEntry>();
+  if (manifestName) {
+    const manifestPath = packagePath(manifestName);
+    if (!manifestPath || !files.includes(manifestPath)) {
+      throw new Error(`The manifest ${manifestName} is not in the package.`);
+    }
+    manifest = parseManifest(await fs.readFile(path.join(root, manifestPath), 'utf-8'), manifestPath);
+    files = files.filter((f) => f !== manifestPath);
+  }
+  for (const listed of manifest.keys()) {
+    if (!files.includes(listed)) {
+      ignored.push({ path: listed, status: 'ignored', error: 'Listed in the manifest but not in the package.' });
+    }
+  }
+
+  if (!input.jobId) {
+    await db.execute({
+      sql: 'INSERT INTO xibo_media_ingest_jobs (job_id, cms_profile, source, options, created_at) VALUES (?, ?, ?, ?, ?)',
+      args: [jobId, cmsProfile, source, JSON.stringify(options), new Date().toISOString()],
+    });
+  }
+  recorded.jobId = jobId;
+  const previous = await loadFileStates(jobId);
+
+  // Folders are created one by one before the uploads start, so parallel uploads never race for them
+  const mirror = new FolderMirror(flattenFolders(await loadRecords('/folders', z.unknown())), options.parentFolderId);
+  const folderOf = new Map<string, number>();
+  for (const file of files) {
+    const folderPath = manifest.get(file)?.folder ?? (options.mirrorFolders ? pathTags(file).join('/') : '');
+    folderOf.set(file, await mirror.resolve(folderPath));
+  }
+
+  const library = await loadRecords('/library', libraryRecordSchema);
+  const byMd5 = new Map(library.filter((m) => m.md5).map((m) => [m.md5!, m]));
+  // The CMS wants unique media names, so files of the same name in different folders keep their path
+  const baseNames = files.map((f) => path.posix.basename(f));
+  const defaultName = (file: string) =>
+    baseNames.filter((b) => b === path.posix.basename(file)).length > 1 ? file.replace(/\//g, ' - ') : path.posix.basename(file);
+
+  let done = 0;
+  const ingestFile = async (file: string): Promise<IngestFileResult> => {
+    const entry = manifest.get(file);
+    const folderId = folderOf.get(file)!;
+    const name = entry?.name ?? defaultName(file);
+    const tags = cleanTags([...(options.tagsFromPath ? pathTags(file) : []), ...options.tags, ...(entry?.tags ?? [])]);
+    const earlier = previous.get(file);
+    if (earlier && (earlier.status === 'uploaded' || earlier.status === 'existing' || earlier.status === 'skipped')) {
+      return { path: file, status: 'skipped', mediaId: earlier.mediaId ?? undefined, folderId: earlier.folderId ?? undefined, name };
+    }
+
+    let preparation: MediaUploadPreparation | undefined;
+    let result: IngestFileResult;
+    try {
+      const localPath = path.join(root, file);
+      const original = await fs.readFile(localPath);
+      const md5 = crypto.createHash('md5').update(original).digest('hex');
+      const existing = byMd5.get(md5);
+      if (existing) {
+        if (existing.folderId !== folderId) {
+          const moved = await executeTool(selectMediaFolder, { mediaId: existing.mediaId, folderId });
+          if (!moved.success) throw new Error(`Moving media ${existing.mediaId} failed: ${moved.message}`);
+          existing.folderId = folderId;
+        }
+        if (tags.length) {
+          const tagged = await xiboClient.request(`/library/${existing.mediaId}/tag`, { method: 'POST', form: { tag: tags } });
+          if (!tagged.success) throw new Error(`Tagging media ${existing.mediaId} failed: ${tagged.message}`);
+        }
+        result = { path: file, status: 'existing', mediaId: existing.mediaId, name: existing.name, folderId, tags };
+      } else {
+        if (isTimedMediaFile(file)) {
+          try {
+            preparation = await prepareMediaUpload(localPath, { transcode: options.transcode, playerTypes: options.playerTypes, fileName: path.posix.basename(file) });
+          } catch (error) {
+            if (options.transcode && options.transcode !== 'never') throw error;
+            logger.warn({ file, error: error instanceof Error ? error.message : String(error) }, 'Media ingest: could not inspect the media; uploading it unchecked');
+          }
+        }
+        const content = preparation?.transcoded ? await fs.readFile(preparation.filePath) : original;
+        const mediaId = await uploadToLibrary(content, preparation?.fileName ?? path.posix.basename(file), { name, tags, folderId });
+        byMd5.set(md5, { mediaId, name, md5, folderId });
+        if (preparation) {
+          await setMediaDuration(mediaId, preparation.duration).catch((error) =>
+            logger.warn({ mediaId, error: error instanceof Error ? error.message : String(error) }, 'Media ingest: could not set the media duration'));
+        }
+        result = { path: file, status: 'uploaded', mediaId, name, folderId, tags, transcoded: preparation?.transcoded };
+      }
+    } catch (error) {
+      result = { path: file, status: 'failed', name, folderId, tags, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      if (preparation?.temporary) {
+        await fs.rm(preparation.filePath, { force: true });
+      }
+    }
+
+    await saveFileState(jobId, result);
+    done++;
+    logger.info({ jobId, file, status: result.status, progress: `${done}/${files.length}` }, 'Media ingest: file done');
+    return result;
+  };
+
+  const results = await runWithConcurrency(files.map((file) => () => ingestFile(file)), options.concurrency);
+  const all = [...results, ...ignored];
+  const count = (status: IngestFileStatus) => all.filter((f) => f.status === status).length;
+  const failed = count('failed');
+
+  if (failed === 0) {
+    await db.execute({ sql: 'UPDATE xibo_media_ingest_jobs SET finished_at = ? WHERE job_id = ?', args: [new Date().toISOString(), jobId] });
+    if (isZip) await fs.rm(root, { recursive: true, force: true });
+  }
+  logger.info({ jobId, source, uploaded: count('uploaded'), existing: count('existing'), failed }, 'Media ingest finished');
+
+  return {
+    jobId,
+    source,
+    total: all.length,
+    uploaded: count('uploaded'),
+    existing: count('existing'),
+    skipped: count('skipped'),
+    failed,
+    ignored: count('ignored'),
+    foldersCreated: mirror.created,
+    files: all,
+  };
+}
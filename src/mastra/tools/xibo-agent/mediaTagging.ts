@@ -0,0 +1,575 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Media Tagging
+ *
+ * Tags library media and writes a short description (alt text) of each with Gemini vision.
+ * Images are sent as the original file (or the thumbnail when the file is large or in a
+ * format the model does not read), video as its thumbnail. The model reports what it sees:
+ * objects, season, colours, brands, the language of any text, and a description.
+ *
+ * Tags come from a controlled vocabulary so the library does not collect more spellings of
+ * the same idea. Object tags are plain (`burger`); the other kinds are tags with a value
+ * (`season|summer`, `colour|red`, `brand|Acme`, `language|ja`). Terms outside the vocabulary
+ * are mapped through its synonyms and otherwise reported as rejected, unless `allowNewTags`.
+ * The vocabulary is read from `media-tag-vocabulary.json` in the project root (or
+ * `XIBO_MEDIA_TAG_VOCABULARY_FILE`); every list given there replaces the default one:
+ *
+ * ```json
+ * {
+ *   "objects": ["burger", "fries", "coffee", "person", "storefront"],
+ *   "brands": ["Acme"],
+ *   "synonyms": { "hamburger": "burger", "fall": "autumn" },
+ *   "keepTags": ["oversized", "campaign-2025"],
+ *   "allowNewTags": false
+ * }
+ * ```
+ *
+ * Suggestions are returned as a plan for review and applied by `applyMediaTagging()`: tags
+ * are added with the `assign-tags-to-media` tool, or, in `replace` mode, the whole tag list is
+ * rewritten with the `edit-media` tool, dropping existing tags outside the vocabulary (except
+ * `keepTags`) and renaming synonyms. Xibo media have no description field, so descriptions are
+ * kept in `xibo_media_descriptions` in the agent database and read with
+ * `getMediaDescriptions()`.
+ */
+
+import { z } from 'zod';
+import fs from 'fs';
+import { promises as fsp } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from './config';
+import { logger } from '../../logger';
+import { getActiveCmsProfileName } from './cmsContext';
+import { ensureTables, getAgentDatabase } from './database';
+import { loadRecords } from './utility/pagination';
+import { PlanStore } from './utility/planStore';
+import { detectImageFormat } from './utility/imageProcessing';
+import { executeTool } from './safeMode';
+import { downloadMedia } from './library/downloadMedia';
+import { downloadThumbnail } from './library/downloadThumbnail';
+import { assignTagsToMedia } from './library/assignTagsToMedia';
+import { editMedia } from './library/editMedia';
+
+const TAGGING_MODEL = 'gemini-2.5-flash';
+
+/** Images larger than this are analysed from their thumbnail. */
+const MAX_ORIGINAL_BYTES = 4 * 1024 * 1024;
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = { png: 'image/png', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp' };
+
+export const MEDIA_TAGGING_MODES = ['add', 'replace'] as const;
+
+// -----------------------------------------------------------------------------
+// Vocabulary
+// -----------------------------------------------------------------------------
+
+/** Tag names of the value tags, by kind. Objects are plain tags. */
+const VALUE_TAGS = { seasons: 'season', colours: 'colour', brands: 'brand', languages: 'language' } as const;
+
+type ValueKind = keyof typeof VALUE_TAGS;
+
+export interface MediaTagVocabulary {
+  objects: string[];
+  seasons: string[];
+  colours: string[];
+  brands: string[];
+  /** ISO 639-1 codes of the languages of text in the media. */
+  languages: string[];
+  /** Lower-case term to the vocabulary term it stands for. */
+  synonyms: Record<string, string>;
+  /** Existing tags that `replace` mode keeps although they are not in the vocabulary. */
+  keepTags: string[];
+  allowNewTags: boolean;
+  maxObjectTags: number;
+}
+
+export const DEFAULT_MEDIA_TAG_VOCABULARY: MediaTagVocabulary = {
+  objects: [
+    'food', 'drink', 'dessert', 'coffee', 'person', 'people', 'product', 'package', 'storefront', 'interior',
+    'building', 'cityscape', 'landscape', 'nature', 'flower', 'animal', 'vehicle', 'logo', 'illustration',
+    'chart', 'map', 'menu', 'price', 'event', 'sport',
+  ],
+  seasons: ['spring', 'summer', 'autumn', 'winter'],
+  colours: ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'brown', 'black', 'white', 'grey', 'gold', 'silver'],
+  brands: [],
+  languages: ['ja', 'en', 'zh', 'ko', 'fr', 'de', 'es', 'it', 'pt', 'th', 'vi'],
+  synonyms: {
+    fall: 'autumn', gray: 'grey', beverage: 'drink', beverages: 'drink', sweets: 'dessert', cake: 'dessert',
+    man: 'person', woman: 'person', child: 'person', crowd: 'people', car: 'vehicle', shop: 'storefront', store: 'storefront',
+    japanese: 'ja', english: 'en', chinese: 'zh', korean: 'ko', french: 'fr', german: 'de', spanish: 'es',
+  },
+  keepTags: ['oversized', 'duplicate', 'near-duplicate'],
+  allowNewTags: false,
+  maxObjectTags: 5,
+};
+
+const vocabularyFileSchema = z.object({
+  objects: z.array(z.string()).optional(),
+  seasons: z.array(z.string()).optional(),
+  colours: z.array(z.string()).optional(),
+  brands: z.array(z.string()).optional(),
+  languages: z.array(z.string()).optional(),
+  synonyms: z.record(z.string()).optional(),
+  keepTags: z.array(z.string()).optional(),
+  allowNewTags: z.boolean().optional(),
+  maxObjectTags: z.number().int().min(1).max(20).optional(),
+});
+
+let vocabulary: MediaTagVocabulary | null = null;
+
+export function getMediaTagVocabulary(): MediaTagVocabulary {
+  if (vocabulary) return vocabulary;
+  vocabulary = DEFAULT_MEDIA_TAG_VOCABULARY;
+  if (fs.existsSync(config.mediaTagVocabularyFile)) {
+    try {
+      const parsed = vocabularyFileSchema.safeParse(JSON.parse(fs.readFileSync(config.mediaTagVocabularyFile, 'utf-8')));
+      if (parsed.success) {
+        const { synonyms, ...lists } = parsed.data;
+        vocabulary = {
+          ...DEFAULT_MEDIA_TAG_VOCABULARY,
+          ...lists,
+          synonyms: Object.fromEntries(Object.entries(synonyms ?? DEFAULT_MEDIA_TAG_VOCABULARY.synonyms).map(([k, v]) => [k.toLowerCase(), v])),
+        };
+      } else {
+        logger.error({ file: config.mediaTagVocabularyFile, error: parsed.error.flatten() }, 'Invalid media tag vocabulary file; using the default vocabulary');
+      }
+    } catch (error) {
+      logger.error({ file: config.mediaTagVocabularyFile, error: error instanceof Error ? error.message : error }, 'Failed to read media tag vocabulary file');
+    }
+  }
+  return vocabulary;
+}
+
+/**
+ * Drops the loaded vocabulary so the next run re-reads the file.
+ */
+export function reloadMediaTagVocabulary(): void {
+  vocabulary = null;
+}
+
+/** Xibo separates tags with commas and a tag from its value with `|`. */
+const cleanTerm = (term: string) => term.replace(/[,|]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Maps a term to the vocabulary list, through the synonyms. Returns the term as written in
+ * the list, the cleaned term when new tags are allowed, or null.
+ */
+function matchTerm(term: string, list: string[], vocab: MediaTagVocabulary, allowNew = vocab.allowNewTags): string | null {
+  const lower = cleanTerm(term).toLowerCase();
+  if (!lower) return null;
+  const target = (vocab.synonyms[lower] ?? lower).toLowerCase();
+  const found = list.find((entry) => entry.toLowerCase() === target);
+  return found ?? (allowNew ? cleanTerm(vocab.synonyms[lower] ?? term) : null);
+}
+
+/**
+ * Returns the vocabulary form of an existing or reviewer-given tag (`tag` or `tag|value`):
+ * a plain tag is looked up as an object, then as a season, colour, brand or language.
+ */
+export function canonicalTag(tag: string, vocab: MediaTagVocabulary = getMediaTagVocabulary()): string | null {
+  const [name, ...rest] = tag.split('|');
+  const value = rest.join('|');
+  const kind = (Object.keys(VALUE_TAGS) as ValueKind[]).find((k) => VALUE_TAGS[k] === name.trim().toLowerCase());
+  if (kind && value) {
+    const matched = matchTerm(value, vocab[kind], vocab);
+    return matched ? `${VALUE_TAGS[kind]}|${matched}` : null;
+  }
+  const object = matchTerm(name, vocab.objects, vocab, false);
+  if (object) return object;
+  for (const k of Object.keys(VALUE_TAGS) as ValueKind[]) {
+    const matched = matchTerm(name, vocab[k], vocab, false);
+    if (matched) return `${VALUE_TAGS[k]}|${matched}`;
+  }
+  return vocab.allowNewTags && cleanTerm(name) ? cleanTerm(name) : null;
+}
+
+const analysisSchema = z.object({
+  objects: z.array(z.string()).default([]),
+  season: z.string().nullable().optional(),
+  colours: z.array(z.string()).default([]),
+  brands: z.array(z.string()).default([]),
+  textLanguages: z.array(z.string()).default([]),
+  description: z.string().default(''),
+});
+
+export type MediaAnalysis = z.infer<typeof analysisSchema>;
+
+/**
+ * Turns what the model saw into vocabulary tags; terms outside the vocabulary are returned
+ * as rejected.
+ */
+export function vocabularyTags(analysis: MediaAnalysis, vocab: MediaTagVocabulary = getMediaTagVocabulary()): { tags: string[]; rejected: string[] } {
+  const tags: string[] = [];
+  const rejected: string[] = [];
+  const add = (terms: string[], list: string[], tagName: string | null, max = Infinity) => {
+    let added = 0;
+    for (const term of terms) {
+      const matched = matchTerm(term, list, vocab);
+      if (!matched) {
+        if (cleanTerm(term)) rejected.push(cleanTerm(term));
+        continue;
+      }
+      const tag = tagName ? `${tagName}|${matched}` : matched;
+      if (added < max && !tags.includes(tag)) {
+        tags.push(tag);
+        added++;
+      }
+    }
+  };
+  add(analysis.objects, vocab.objects, null, vocab.maxObjectTags);
+  add(analysis.season ? [analysis.season] : [], vocab.seasons, VALUE_TAGS.seasons);
+  add(analysis.colours, vocab.colours, VALUE_TAGS.colours);
+  add(analysis.brands, vocab.brands, VALUE_TAGS.brands);
+  add(analysis.textLanguages, vocab.languages, VALUE_TAGS.languages);
+  return { tags, rejected: [...new Set(rejected)] };
+}
+
+function buildPrompt(vocab: MediaTagVocabulary, descriptionLanguage: string, describe: boolean): string {
+  const choose = (list: string[]) => (list.length ? `choose from ${JSON.stringify(list)}` : 'none are known; leave empty') +
+    (vocab.allowNewTags ? ', or add a short English term' : '');
+  return `You tag images for a digital signage media library. Look at the image and answer with one JSON object only:
+{
+  "objects": up to ${vocab.maxObjectTags} main subjects, most important first; ${choose(vocab.objects)},
+  "season": the season the image suggests, or null; ${choose(vocab.seasons)},
+  "colours": up to 3 dominant colours; ${choose(vocab.colours)},
+  "brands": brand names or logos that can be read in the image; ${choose(vocab.brands)},
+  "textLanguages": ISO 639-1 codes of the languages of any text in the image,
+  "description": ${describe ? `one or two sentences describing the image for someone who cannot see it, in the language "${descriptionLanguage}"` : '""'}
+}
+Do not guess: leave a field empty when you are not sure.`;
+}
+
+// -----------------------------------------------------------------------------
+// Analysis
+// -----------------------------------------------------------------------------
+
+const mediaRecordSchema = z.object({
+  mediaId: z.number(),
+  name: z.string(),
+  mediaType: z.string(),
+  duration: z.coerce.number(),
+  retired: z.coerce.number().default(0),
+  fileSize: z.coerce.number().default(0),
+  md5: z.string().nullable().optional(),
+  folderId: z.coerce.number().nullable().optional(),
+  tags: z.array(z.object({ tag: z.string(), value: z.string().nullable().optional() }).passthrough()).nullable().optional(),
+}).passthrough();
+
+type MediaRecord = z.infer<typeof mediaRecordSchema>;
+
+const tagList = (media: MediaRecord) => (media.tags ?? []).map((t) => (t.value ? `${t.tag}|${t.value}` : t.tag));
+
+/**
+ * Downloads a file with the `download-media` or `download-thumbnail` tool and reads it back.
+ */
+async function download(tool: typeof downloadMedia | typeof downloadThumbnail, mediaId: number): Promise<Buffer> {
+  const result = await executeTool(tool, { mediaId, destinationPath: 'media-tagging', fileName: `${mediaId}-${crypto.randomUUID()}` });
+  if (!result.success || !result.filePath) {
+    throw new Error(`Downloading media ${mediaId} failed: ${result.message}`);
+  }
+  try {
+    return await fsp.readFile(result.filePath);
+  } finally {
+    await fsp.rm(result.filePath, { force: true });
+  }
+}
+
+/**
+ * Reads the image the model looks at: the original image when it is small and in a format
+ * the model reads, the thumbnail otherwise.
+ */
+async function loadImage(media: MediaRecord): Promise<{ data: Buffer; mediaType: string }> {
+  if (media.mediaType === 'image' && media.fileSize <= MAX_ORIGINAL_BYTES) {
+    const data = await download(downloadMedia, media.mediaId);
+    const format = detectImageFormat(data);
+    if (format && IMAGE_MEDIA_TYPES[format]) return { data, mediaType: IMAGE_MEDIA_TYPES[format] };
+  }
+  const data = await download(downloadThumbnail, media.mediaId);
+  const format = detectImageFormat(data);
+  if (!format || !IMAGE_MEDIA_TYPES[format]) {
+    throw new Error(`The CMS has no thumbnail of media ${media.mediaId} that can be analysed.`);
+  }
+  return { data, mediaType: IMAGE_MEDIA_TYPES[format] };
+}
+
+async function analyseImage(image: { data: Buffer; mediaType: string }, prompt: string): Promise<MediaAnalysis> {
+  // Loaded on demand so the rest of the library tools do not need the model provider.
+  const [{ generateText }, { google }] = await Promise.all([import('ai'), import('../../models')]);
+  const { text } = await generateText({
+    model: google(TAGGING_MODEL),
+    messages: [{ role: 'user', content: [{ type: 'text', text: prompt }, { type: 'image', image: image.data, mediaType: image.mediaType }] }],
+  });
+  const json = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+  return analysisSchema.parse(JSON.parse(json));
+}
+
+// -----------------------------------------------------------------------------
+// Plans
+// -----------------------------------------------------------------------------
+
+export const mediaTaggingSchema = z.object({
+  mediaIds: z.array(z.number()).optional().describe('Media to tag. Defaults to the images and videos of the library (or of folderId).'),
+  folderId: z.number().optional().describe('Only media in this folder.'),
+  onlyUntagged: z.boolean().default(true).describe('Only media without tags. Ignored when mediaIds are given.'),
+  limit: z.number().int().min(1).max(100).default(20).describe('Maximum number of media analysed in one run.'),
+  mode: z.enum(MEDIA_TAGGING_MODES).default('add').describe("'add' adds the suggested tags; 'replace' also removes existing tags outside the vocabulary and renames synonyms."),
+  describe: z.boolean().default(true).describe('Also write a description (alt text) of each media.'),
+  descriptionLanguage: z.string().default('ja').describe('Language of the descriptions, e.g. ja or en.'),
+});
+
+export type MediaTaggingOptions = z.input<typeof mediaTaggingSchema>;
+
+export interface MediaTagSuggestion {
+  mediaId: number;
+  name: string;
+  mediaType: string;
+  currentTags: string[];
+  /** Tags to add ('add' mode), or the complete new tag list ('replace' mode). */
+  tags: string[];
+  /** Existing tags the plan removes ('replace' mode). */
+  removeTags: string[];
+  /** Terms the model used that are not in the vocabulary. */
+  rejected: string[];
+  description: string | null;
+  error?: string;
+}
+
+export interface MediaTaggingPlan {
+  planId: string;
+  expiresAt: string;
+  cmsProfile: string;
+  mode: typeof MEDIA_TAGGING_MODES[number];
+  descriptionLanguage: string;
+  suggestions: MediaTagSuggestion[];
+}
+
+interface StoredPlan {
+  plan: MediaTaggingPlan;
+  /** MD5 and tags of the media when the plan was made. */
+  snapshot: Map<number, string>;
+}
+
+const storedPlans = new PlanStore<StoredPlan>('Media tagging plan', 'Run the tagging again.');
+
+const mediaSignature = (media: MediaRecord) => `${media.md5 ?? ''}|${tagList(media).join(',')}`;
+
+async function loadLibrary(): Promise<MediaRecord[]> {
+  return loadRecords('/library', mediaRecordSchema);
+}
+
+/**
+ * Analyses media with Gemini vision and stores the suggested tags and descriptions as a
+ * plan for `applyMediaTagging()`. Nothing is changed in the CMS.
+ *
+ * @throws {Error} If the library cannot be read. Media that cannot be analysed are
+ *   reported with an error in the plan.
+ */
+export async function planMediaTagging(input: MediaTaggingOptions = {}): Promise<MediaTaggingPlan> {
+  const options = mediaTaggingSchema.parse(input);
+  const vocab = getMediaTagVocabulary();
+  const library = await loadLibrary();
+
+  const candidates = options.mediaIds?.length
+    ? options.mediaIds.map((id) => library.find((m) => m.mediaId === id)).filter((m): m is MediaRecord => Boolean(m))
+    : library.filter((m) =>
+      (m.mediaType === 'image' || m.mediaType === 'video') &&
+      !m.retired &&
+      (options.folderId === undefined || m.folderId === options.folderId) &&
+      (!options.onlyUntagged || !(m.tags ?? []).length));
+
+  const prompt = buildPrompt(vocab, options.descriptionLanguage, options.describe);
+  const suggestions: MediaTagSuggestion[] = [];
+  for (const media of candidates.slice(0, options.limit)) {
+    const currentTags = tagList(media);
+    const base = { mediaId: media.mediaId, name: media.name, mediaType: media.mediaType, currentTags };
+    if (media.mediaType !== 'image' && media.mediaType !== 'video') {
+      suggestions.push({ ...base, tags: [], removeTags: [], rejected: [], description: null, error: `${media.mediaType} media cannot be analysed.` });
+      continue;
+    }
+    try {
+      const analysis = await analyseImage(await loadImage(media), prompt);
+      const { tags, rejected } = vocabularyTags(analysis, vocab);
+      const description = options.describe && analysis.description.trim() ? analysis.description.trim() : null;
+      if (options.mode === 'add') {
+        suggestions.push({ ...base, tags: tags.filter((t) => !currentTags.includes(t)), removeTags: [], rejected, description });
+      } else {
+        const kept = currentTags.map((t) => (vocab.keepTags.includes(t) ? t : canonicalTag(t, vocab))).filter((t): t is string => t !== null);
+        const next = [...new Set([...kept, ...tags])];
+        suggestions.push({ ...base, tags: next, removeTags: currentTags.filter((t) => !next.includes(t)), rejected, description });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn({ mediaId: media.mediaId, error: message }, 'Media tagging: analysis failed');
+      suggestions.push({ ...base, tags: [], removeTags: [], rejected: [], description: null, error: message });
+    }
+  }
+
+  const snapshot = new Map(library.filter((m) => suggestions.some((s) => s.mediaId === m.mediaId)).map((m) => [m.mediaId, mediaSignature(m)]));
+  const { plan } = storedPlans.put(({ id, expiresAt, cmsProfile }) => ({
+    plan: { planId: id, expiresAt, cmsProfile, mode: options.mode, descriptionLanguage: options.descriptionLanguage, suggestions },
+    snapshot,
+  }));
+  logger.info({ planId: plan.planId, media: suggestions.length, failed: suggestions.filter((s) => s.error).length }, 'Media tagging planned.');
+  return plan;
+}
+
+export function getMediaTaggingPlan(planId: string): MediaTaggingPlan | undefined {
+  return storedPlans.get(planId)?.plan;
+}
+
+export const mediaTagOverrideSchema = z.object({
+  mediaId: z.number(),
+  tags: z.array(z.string()).optional().describe("Tags to use instead of the suggested ones ('tag' or 'tag|value'); checked against the vocabulary."),
+  description: z.string().optional().describe('Description to use instead of the suggested one.'),
+});
+
+export interface MediaTaggingResult {
+  results: Array<{ mediaId: number; name: string; status: 'done' | 'skipped' | 'failed'; tags: string[]; description: string | null; message?: string }>;
+}
+
+function ensureSchema(): Promise<void> {
+  return ensureTables('media-descriptions', [
+    `CREATE TABLE IF NOT EXISTS xibo_media_descriptions (
+      cms_profile TEXT NOT NULL,
+      media_id INTEGER NOT NULL,
+      md5 TEXT,
+      language TEXT NOT NULL,
+      description TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (cms_profile, media_id)
+    )`,
+  ]);
+}
+
+/**
+ * Applies a reviewed tagging plan. Media changed since the plan was made are skipped.
+ *
+ * @throws {Error} If the plan does not exist, has expired or was made for another CMS.
+ */
+export async function applyMediaTagging(
+  planId: string,
+  options: { excludeMediaIds?: number[]; overrides?: Array<z.infer<typeof mediaTagOverrideSchema>> } = {},
+): Promise<MediaTaggingResult> {
+  const stored = storedPlans.require(planId);
+  const { plan } = stored;
+  const cmsProfile = getActiveCmsProfileName();
+
+  await ensureSchema();
+  const vocab = getMediaTagVocabulary();
+  const library = new Map((await loadLibrary()).map((m) => [m.mediaId, m]));
+  const excluded = new Set(options.excludeMediaIds ?? []);
+  const overrides = new Map((options.overrides ?? []).map((o) => [o.mediaId, o]));
+  const results: MediaTaggingResult['results'] = [];
+
+  for (const suggestion of plan.suggestions) {
+    if (excluded.has(suggestion.mediaId) || suggestion.error) continue;
+    const override = overrides.get(suggestion.mediaId);
+    let tags = suggestion.tags;
+    const description = override?.description?.trim() || suggestion.description;
+    const base = { mediaId: suggestion.mediaId, name: suggestion.name, description };
+
+    if (override?.tags) {
+      const canonical = override.tags.map((t) => ({ tag: t, canonical: canonicalTag(t, vocab) }));
+      const unknown = canonical.filter((c) => c.canonical === null).map((c) => c.tag);
+      if (unknown.length) {
+        results.push({ ...base, tags: [], status: 'failed', message: `Not in the vocabulary: ${unknown.join(', ')}. Add them to ${path.basename(config.mediaTagVocabularyFile)} first.` });
+        continue;
+      }
+      tags = [...new Set(canonical.map((c) => c.canonical!))];
+    }
+
+    const media = library.get(suggestion.mediaId);
+    if (!media) {
+      results.push({ ...base, tags, status: 'skipped', message: 'The media no longer exists.' });
+      continue;
+    }
+    if (mediaSignature(media) !== stored.snapshot.get(media.mediaId)) {
+      results.push({ ...base, tags, status: 'skipped', message: 'The media changed since the plan was made.' });
+      continue;
+    }
+
+    let result: { success: boolean; message?: string } = { success: true };
+    if (plan.mode === 'add') {
+      tags = tags.filter((t) => !tagList(media).includes(t));
+      if (tags.length) {
+        result = await executeTool(assignTagsToMedia, { mediaId: media.mediaId, tags });
+      }
+    } else if (tags.join(',') !== tagList(media).join(',')) {
+      result = await executeTool(editMedia, {
+        mediaId: media.mediaId, name: media.name, duration: media.duration, retired: media.retired, tags: tags.join(','), updateInLayouts: 0,
+      });
+    }
+    if (!result.success) {
+      logger.warn({ planId, mediaId: media.mediaId, reason: result.message }, 'Media tagging failed.');
+      results.push({ ...base, tags, status: 'failed', message: result.message });
+      continue;
+    }
+
+    if (description) {
+      await getAgentDatabase().execute({
+        sql: `INSERT INTO xibo_media_descriptions (cms_profile, media_id, md5, language, description, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+          ON CONFLICT (cms_profile, media_id) DO UPDATE SET md5 = excluded.md5, language = excluded.language,
+            description = excluded.description, updated_at = excluded.updated_at`,
+        args: [cmsProfile, media.mediaId, media.md5 ?? null, plan.descriptionLanguage, description, new Date().toISOString()],
+      });
+    }
+    results.push({ ...base, tags, status: 'done' });
+  }
+
+  storedPlans.delete(planId);
+  logger.info({ planId, done: results.filter((r) => r.status === 'done').length, media: results.length }, 'Media tagging applied.');
+  return { results };
+}
+
+/**
+ * Reads the stored descriptions of media of the active CMS, optionally only those of the
+ * given media or containing `query`.
+ */
+export async function getMediaDescriptions(options: { mediaIds?: number[]; query?: string } = {}): Promise<Array<{ mediaId: number; md5: string | null; language: string; description: string; updatedAt: string }>> {
+  await ensureSchema();
+  const conditions = ['cms_profile = ?'];
+  const args: Array<string | number> = [getActiveCmsProfileName()];
+  if (options.mediaIds?.length) {
+    conditions.push(`media_id IN (${options.mediaIds.map(() => '?').join(', ')})`);
+    args.push(...options.mediaIds);
+  }
+  if (options.query) {
+    conditions.push('description LIKE ?');
+    args.push(`%${options.query}%`);
+  }
+  const rows = await getAgentDatabase().execute({
+    sql: `SELECT media_id, md5, language, description, updated_at FROM xibo_media_descriptions WHERE ${conditions.join(' AND ')} ORDER BY media_id`,
+    args,
+  });
+  return rows.rows.map((row) => ({
+    mediaId: Number(row.media_id),
+    md5: row.md5 === null ? null : String(row.md5),
+    language: String(row.language),
+    description: String(row.description),
+    updatedAt: String(row.updated_at),
+  }));
+}
+
+/**
+ * Renders the suggestions of a plan as a Markdown table for the agent to show for review.
+ */
+export function formatMediaTagTable(plan: MediaTaggingPlan): string {
+  if (!plan.suggestions.length) return '';
+  const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  return [
+    `| media | name | ${plan.mode === 'add' ? 'add tags' : 'new tags'} | remove | not in vocabulary | description |`,
+    '|--:|:--|:--|:--|:--|:--|',
+    ...plan.suggestions.map((s) => `| ${s.mediaId} | ${cell(s.name)} | ${cell(s.error ? `(${s.error})` : s.tags.join(', '))} | ${cell(s.removeTags.join(', '))} | ${cell(s.rejected.join(', '))} | ${cell(s.description ?? '')} |`),
+  ].join('\n');
+}
@@ -0,0 +1,221 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Media Upload
+ *
+ * Uploads a local file to the library with `POST /library`, for the `add-media` tool and
+ * for code that uploads files it made or downloaded (`upload-media-from-url`, layout bundle
+ * imports). PNG and JPEG images can be cropped, padded or scaled to a display resolution
+ * first. Video and audio files are checked against the players with ffprobe, optionally
+ * transcoded to H.264/AAC, and get their duration from the real length of the file.
+ *
+ * The upload goes through the Xibo client, so it is audited and retried once with a fresh
+ * token on 401.
+ */
+
+import { z } from 'zod';
+import { openAsBlob, promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../../logger';
+import { config } from './config';
+import { xiboClient } from './xiboClient';
+import { ImageResizeInput, detectImageFormat, fitImage, resolveImageFit } from './utility/imageProcessing';
+import {
+  MediaProbe, MediaUploadPreparation, PlayerCompatibility, PlayerType, TranscodeMode, isTimedMediaFile, prepareMediaUpload, setMediaDuration,
+} from './mediaCompatibility';
+
+/** A file the CMS stored, from the response of `POST /library`. */
+export const uploadedMediaSchema = z.object({
+  name: z.string(),
+  size: z.number(),
+  type: z.string(),
+  mediaId: z.number(),
+  storedas: z.string(),
+  duration: z.number(),
+  retired: z.number(),
+  fileSize: z.number(),
+  md5: z.string(),
+  enableStat: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  mediaType: z.string(),
+  fileName: z.string(),
+});
+
+export type UploadedMedia = z.infer<typeof uploadedMediaSchema>;
+
+/** A file the CMS refused. */
+const uploadErrorSchema = z.object({
+  name: z.string(),
+  size: z.number(),
+  type: z.string(),
+  error: z.string(),
+});
+
+/** Response of `POST /library`: every file is either stored or refused. */
+export const mediaUploadResponseSchema = z.object({
+  files: z.array(z.union([uploadedMediaSchema, uploadErrorSchema])),
+});
+
+export type MediaUploadResponse = z.infer<typeof mediaUploadResponseSchema>;
+
+/** Form fields of `POST /library` besides the file. */
+export interface MediaUploadFields {
+  name?: string;
+  oldMediaId?: number;
+  updateInLayouts?: number;
+  deleteOldRevisions?: number;
+  tags?: string;
+  expires?: string;
+  playlistId?: number;
+  widgetFromDt?: string;
+  widgetToDt?: string;
+  deleteOnExpiry?: number;
+  applyToMedia?: number;
+  folderId?: number;
+}
+
+export interface MediaUploadOptions {
+  /** File name given to the CMS; defaults to the name of the local file. */
+  fileName?: string;
+  fields?: MediaUploadFields;
+  /** Crop, pad or scale a PNG/JPEG image first. */
+  resize?: ImageResizeInput;
+  transcode?: TranscodeMode;
+  playerTypes?: readonly PlayerType[];
+  targetLayoutId?: number;
+}
+
+/** How a video or audio file was checked, and converted, before the upload. */
+export interface MediaInspection {
+  fileName: string;
+  transcoded: boolean;
+  /** Duration set on the media, in seconds. */
+  duration: number;
+  original: MediaProbe;
+  probe: MediaProbe;
+  compatibility: PlayerCompatibility[];
+}
+
+export type MediaUploadResult =
+  | { success: true; message?: string; data: MediaUploadResponse; media: UploadedMedia; inspection?: MediaInspection }
+  | { success: false; message: string; error?: unknown; errorData?: unknown };
+
+/**
+ * Uploads a local file to the library. Temporary files made for the upload are removed.
+ * This function never throws; failures are returned as `{ success: false }`.
+ */
+export async function uploadMediaFile(filePath: string, options: MediaUploadOptions = {}): Promise<MediaUploadResult> {
+  const fileName = options.fileName ?? path.basename(filePath);
+  if (!config.cmsUrl) {
+    logger.error({}, 'uploadMediaFile: CMS URL is not configured.');
+    return { success: false, message: 'CMS URL is not configured.' };
+  }
+
+  let preparation: MediaUploadPreparation | undefined;
+  try {
+    // Inspect video and audio, and transcode them when asked to
+    if (isTimedMediaFile(fileName)) {
+      try {
+        preparation = await prepareMediaUpload(filePath, { transcode: options.transcode, playerTypes: options.playerTypes, targetLayoutId: options.targetLayoutId, fileName });
+      } catch (error) {
+        if (options.transcode && options.transcode !== 'never') throw error;
+        logger.warn({ fileName, error: error instanceof Error ? error.message : String(error) }, 'uploadMediaFile: Could not inspect the media; uploading it unchecked');
+      }
+    }
+    const uploadName = preparation?.fileName ?? fileName;
+    const uploadPath = preparation?.filePath ?? filePath;
+
+    let file: Blob;
+    if (options.resize) {
+      const original = await fs.readFile(uploadPath);
+      const format = detectImageFormat(original);
+      if (format !== 'png' && format !== 'jpeg') {
+        return { success: false, message: `Only PNG and JPEG images can be resized; ${fileName} is ${format ?? 'not an image'}.` };
+      }
+      const fit = await resolveImageFit(options.resize);
+      const resized = await fitImage(original, { ...fit, format });
+      file = new Blob([resized.buffer]);
+      logger.info({ fileName, width: resized.width, height: resized.height, fit: fit.fit, resolution: fit.resolution }, 'uploadMediaFile: Resized image before upload');
+    } else {
+      // Read from disk while sending, so large videos are not held in memory
+      file = await openAsBlob(uploadPath);
+    }
+
+    const form = new FormData();
+    form.append('files', file, uploadName);
+    for (const [key, value] of Object.entries(options.fields ?? {})) {
+      if (value !== undefined) form.append(key, String(value));
+    }
+
+    // The client sets the Authorization header and fetch the multipart Content-Type with boundary
+    const response = await xiboClient.fetch(`${config.cmsUrl}/api/library`, { method: 'POST', body: form });
+    const responseData = await response.json().catch(() => response.statusText);
+    if (!response.ok) {
+      logger.error({ status: response.status, data: responseData }, 'uploadMediaFile: HTTP error');
+      return { success: false, message: `HTTP error! status: ${response.status}`, errorData: responseData };
+    }
+
+    const parsed = mediaUploadResponseSchema.safeParse(responseData);
+    if (!parsed.success) {
+      logger.error({ error: parsed.error.format(), rawData: responseData }, 'uploadMediaFile: Zod validation failed');
+      return { success: false, message: 'Validation failed for the API response.', error: parsed.error.format(), errorData: responseData };
+    }
+
+    // The CMS reports refused files in a successful response
+    const refused = parsed.data.files.find((f) => 'error' in f);
+    const media = parsed.data.files.find((f): f is UploadedMedia => 'mediaId' in f);
+    if (refused && 'error' in refused) {
+      logger.warn({ error: refused.error, rawData: parsed.data }, 'uploadMediaFile: Business logic error reported by CMS');
+      return { success: false, message: refused.error, errorData: parsed.data };
+    }
+    if (!media) {
+      return { success: false, message: 'The CMS did not return the uploaded media.', errorData: parsed.data };
+    }
+    if (!preparation) {
+      return { success: true, data: parsed.data, media };
+    }
+
+    // The CMS does not read the length of every codec; set it from the file
+    await setMediaDuration(media.mediaId, preparation.duration).catch((error) =>
+      logger.warn({ mediaId: media.mediaId, error: error instanceof Error ? error.message : String(error) }, 'uploadMediaFile: Could not set the media duration'));
+    const unplayable = preparation.compatibility.filter((c) => !c.compatible);
+    return {
+      success: true,
+      message: unplayable.length
+        ? `Uploaded, but ${unplayable.map((c) => `${c.playerType} players cannot play it (${c.problems.join('; ')})`).join(', ')}. Upload it again with transcode 'ifIncompatible'.`
+        : `Uploaded ${preparation.transcoded ? 'the transcoded file ' : ''}${uploadName}; it plays on ${preparation.playerTypes.join(', ')} players.`,
+      data: parsed.data,
+      media,
+      inspection: {
+        fileName: uploadName,
+        transcoded: preparation.transcoded,
+        duration: preparation.duration,
+        original: preparation.original,
+        probe: preparation.probe,
+        compatibility: preparation.compatibility,
+      },
+    };
+  } catch (error) {
+    let message = error instanceof Error ? error.message : 'An unexpected error occurred.';
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      message = `File not found at path: ${filePath}`;
+    }
+    logger.error({ error: message, details: error }, 'uploadMediaFile: Unexpected error');
+    return { success: false, message, errorData: error };
+  } finally {
+    if (preparation?.temporary) {
+      await fs.rm(preparation.filePath, { force: true });
+    }
+  }
+}
@@ -19,6 +19,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { menuBoardSchema } from './schemas';
 import { decodeErrorMessage } from '../utility/error';
@@ -78,7 +79,7 @@ export const addMenuBoard = createTool({
     try {
       logger.info({ body: params.toString() }, 'Attempting to add new menu board.');
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'POST',
         headers: {
           ...(await getAuthHeaders()),
@@ -19,6 +19,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { menuBoardCategorySchema } from './schemas';
 import { decodeErrorMessage } from '../utility/error';
@@ -80,7 +81,7 @@ export const addMenuBoardCategory = createTool({
     try {
       logger.info({ body: params.toString() }, `Attempting to add new category to menu board ${menuId}.`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'POST',
         headers: {
           ...(await getAuthHeaders()),
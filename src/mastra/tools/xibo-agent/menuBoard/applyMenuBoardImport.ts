@@ -0,0 +1,73 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module applyMenuBoardImport
+ * @description Provides a tool that applies the category and product changes of a previewed
+ * menu board import.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { applyMenuImport, MenuImportError } from '../menuBoardImport';
+import { logger } from '../../../logger';
+
+const appliedChangeSchema = z.object({
+  key: z.string(),
+  action: z.enum(['create', 'update', 'delete']),
+  type: z.enum(['category', 'product']),
+  id: z.number().describe('ID of the created, updated or deleted category or product.'),
+});
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    applied: z.array(appliedChangeSchema),
+    rollback: z.object({
+      undone: z.array(appliedChangeSchema).describe('Applied changes that were undone after a change failed.'),
+      notUndone: z.array(appliedChangeSchema.extend({ reason: z.string() })).describe('Applied changes that remain in the CMS.'),
+    }).optional().describe('Present when a change failed.'),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for applying a previewed menu board import.
+ */
+export const applyMenuBoardImport = createTool({
+  id: 'apply-menu-board-import',
+  description: 'Apply the changes of a menu board import previewed with planMenuBoardImport. The menu board is checked first and the import is refused if it changed since the preview. If a change fails, the creates and updates applied before it are undone.',
+  inputSchema: z.object({
+    importId: z.string().describe("Import ID returned by planMenuBoardImport."),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const result = await applyMenuImport(context.importId);
+      return {
+        success: true,
+        message: `Applied ${result.applied.length} menu board changes.`,
+        data: result,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ importId: context.importId, error: errorMessage }, "applyMenuBoardImport: Failed to apply menu board import");
+      return {
+        success: false,
+        message: `Failed to apply menu board import: ${errorMessage}`,
+        data: error instanceof MenuImportError ? { applied: error.applied, rollback: error.rollback } : undefined,
+        error: errorMessage,
+      };
+    }
+  },
+});
@@ -0,0 +1,68 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+/**
+ * @module applyMenuDaypartPrices
+ * @description Provides a tool that writes the prices and availability of the running day
+ * parts to the menu board products now, instead of waiting for the scheduler.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { applyMenuDayparts } from '../menuDayparts';
+import { logger } from '../../../logger';
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.array(z.object({
+    menuId: z.number(),
+    menuProductId: z.number(),
+    name: z.string(),
+    dayPartId: z.number().nullable(),
+    dayPart: z.string().nullable(),
+    price: z.number().nullable(),
+    availability: z.number().nullable(),
+    action: z.enum(['updated', 'unchanged', 'restored', 'failed']),
+    detail: z.string(),
+  })).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for applying the day part prices now.
+ */
+export const applyMenuDaypartPrices = createTool({
+  id: 'apply-menu-daypart-prices',
+  description: 'Write the price and availability of the running day part to every menu board product with day part prices now. The scheduler does this every minute when XIBO_MENU_DAYPARTS=on.',
+  inputSchema: z.object({
+    dryRun: z.boolean().optional().default(false).describe('Report the changes without editing the products.'),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const changes = await applyMenuDayparts({ dryRun: context.dryRun });
+      const updated = changes.filter((c) => c.action === 'updated' || c.action === 'restored').length;
+      const failed = changes.filter((c) => c.action === 'failed').length;
+      return {
+        success: failed === 0,
+        message: changes.length
+          ? `${context.dryRun ? 'Would update' : 'Updated'} ${updated} of ${changes.length} products${failed ? `; ${failed} failed` : ''}.`
+          : 'No products have day part prices.',
+        data: changes,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "applyMenuDaypartPrices: Failed to apply day part prices");
+      return { success: false, message: `Failed to apply day part prices: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
@@ -19,6 +19,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { decodeErrorMessage } from '../utility/error';
 
@@ -67,7 +68,7 @@ export const deleteMenuBoard = createTool({
     try {
       logger.info({ menuId: context.menuId }, `Attempting to delete menu board.`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'DELETE',
         headers: await getAuthHeaders(),
       });
@@ -0,0 +1,57 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+/**
+ * @module deleteMenuDaypartPrice
+ * @description Provides a tool that removes day part price/availability overrides of a menu
+ * board product.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { deleteMenuDaypartOverride } from '../menuDayparts';
+import { logger } from '../../../logger';
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    removed: z.number().describe('Overrides removed.'),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for removing day part overrides of a product.
+ */
+export const deleteMenuDaypartPrice = createTool({
+  id: 'delete-menu-daypart-price',
+  description: 'Remove the day part override of a menu board product, or all of its overrides when no dayPartId is given. When none are left, the scheduler restores the base price and availability.',
+  inputSchema: z.object({
+    menuProductId: z.number().describe('The ID of the product.'),
+    dayPartId: z.number().optional().describe('The day part to remove; all day parts of the product when omitted.'),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const removed = await deleteMenuDaypartOverride(context);
+      return {
+        success: true,
+        message: removed ? `Removed ${removed} day part overrides.` : 'The product has no such day part override.',
+        data: { removed },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ menuProductId: context.menuProductId, error: errorMessage }, "deleteMenuDaypartPrice: Failed to remove day part overrides");
+      return { success: false, message: `Failed to remove day part overrides: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
@@ -19,6 +19,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { menuBoardCategorySchema } from './schemas';
 import { decodeErrorMessage } from '../utility/error';
@@ -86,7 +87,7 @@ export const editMenuBoardCategory = createTool({
     try {
       logger.info({ menuCategoryId, body: params.toString() }, 'Attempting to edit menu board category.');
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'PUT',
         headers: {
           ...(await getAuthHeaders()),
@@ -19,6 +19,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { menuBoardProductSchema } from './schemas';
 import { decodeErrorMessage } from '../utility/error';
@@ -97,7 +98,7 @@ export const editMenuBoardProduct = createTool({
     try {
       logger.info({ menuProductId, body: params.toString() }, 'Attempting to edit menu board product.');
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'PUT',
         headers: {
           ...(await getAuthHeaders()),
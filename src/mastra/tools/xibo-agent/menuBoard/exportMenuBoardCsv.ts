@@ -0,0 +1,61 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module exportMenuBoardCsv
+ * @description Provides a tool that exports the categories and products of a menu board as
+ * CSV in the format accepted by planMenuBoardImport.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { exportMenuBoardCsv as exportMenu } from '../menuBoardImport';
+import { logger } from '../../../logger';
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    filePath: z.string().describe('The CSV file written to the downloads directory.'),
+    csv: z.string(),
+    categories: z.number(),
+    products: z.number(),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for exporting a menu board as CSV.
+ */
+export const exportMenuBoardCsv = createTool({
+  id: 'export-menu-board-csv',
+  description: 'Export the categories and products of a menu board as CSV (one row per product), in the format planMenuBoardImport reads, so the menu can be edited in a spreadsheet and imported again.',
+  inputSchema: z.object({
+    menuId: z.number().describe('The ID of the menu board to export.'),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const result = await exportMenu(context.menuId);
+      logger.info({ menuId: context.menuId, filePath: result.filePath }, "Exported menu board.");
+      return {
+        success: true,
+        message: `Exported ${result.categories} categories and ${result.products} products to ${result.filePath}.`,
+        data: result,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ menuId: context.menuId, error: errorMessage }, "exportMenuBoardCsv: Failed to export menu board");
+      return { success: false, message: `Failed to export menu board: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
@@ -18,10 +18,15 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
-import { getAuthHeaders } from '../auth';
 import { logger } from '../../../logger';
 import { menuBoardCategorySchema } from './schemas';
-import { decodeErrorMessage } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 
 // Schema for the input of the getMenuBoardCategories tool
 const inputSchema = z.object({
@@ -29,12 +34,15 @@ const inputSchema = z.object({
   menuCategoryId: z.number().optional().describe('Filter by a specific Menu Category ID.'),
   name: z.string().optional().describe('Filter by category name (supports filtering with %).'),
   code: z.string().optional().describe('Filter by category code.'),
+  ...paginationInputSchema.shape,
 });
 
 // Schema for a successful response
 const successResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(menuBoardCategorySchema),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for an error response
@@ -66,7 +74,8 @@ export const getMenuBoardCategories = createTool({
       return { success: false, message };
     }
 
-    const { menuId, ...filterParams } = context;
+    const { menuId, ...rest } = context;
+    const { pagination, filters: filterParams } = splitPaginationOptions(rest);
     const url = new URL(`${config.cmsUrl}/api/menuboard/${menuId}/categories`);
     const params = new URLSearchParams();
 
@@ -78,28 +87,18 @@ export const getMenuBoardCategories = createTool({
     url.search = params.toString();
 
     try {
-      logger.info({ url: url.toString() }, `Attempting to retrieve categories for menu board ${menuId}.`);
-
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: await getAuthHeaders(),
-      });
-
-      const responseText = await response.text();
-      let responseData;
-      try {
-        responseData = JSON.parse(responseText);
-      } catch (e) {
-        responseData = responseText;
-      }
+      logger.info({ url: url.toString(), pagination }, `Attempting to retrieve categories for menu board ${menuId}.`);
+
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseText);
-        const message = `Failed to get menu board categories. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: decodedError }, message);
-        return { success: false, message, errorData: decodedError };
+      if (!result.success) {
+        const message = `Failed to get menu board categories. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
+        return { success: false, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
+
       const validationResult = z.array(menuBoardCategorySchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -109,7 +108,12 @@ export const getMenuBoardCategories = createTool({
       }
 
       logger.info(`Successfully retrieved ${validationResult.data.length} category/categories.`);
-      return { success: true, data: validationResult.data };
+      return {
+        success: true,
+        message: describePagination(result.pagination, 'menu board categories'),
+        data: validationResult.data,
+        pagination: result.pagination,
+      };
 
     } catch (error) {
       const message = error instanceof Error ? error.message : 'An unexpected error occurred.';
@@ -18,10 +18,15 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
-import { getAuthHeaders } from '../auth';
 import { logger } from '../../../logger';
 import { menuBoardProductSchema } from './schemas';
-import { decodeErrorMessage } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 
 // Schema for the input of the getMenuBoardProducts tool
 const inputSchema = z.object({
@@ -29,12 +34,15 @@ const inputSchema = z.object({
   menuId: z.number().optional().describe('Filter by a specific Menu Board ID.'),
   name: z.string().optional().describe('Filter by product name (supports filtering with %).'),
   code: z.string().optional().describe('Filter by product code.'),
+  ...paginationInputSchema.shape,
 });
 
 // Schema for a successful response
 const successResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(menuBoardProductSchema),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for an error response
@@ -66,7 +74,8 @@ export const getMenuBoardProducts = createTool({
       return { success: false, message };
     }
 
-    const { menuCategoryId, ...filterParams } = context;
+    const { menuCategoryId, ...rest } = context;
+    const { pagination, filters: filterParams } = splitPaginationOptions(rest);
     const url = new URL(`${config.cmsUrl}/api/menuboard/products`);
     const params = new URLSearchParams();
 
@@ -81,28 +90,18 @@ export const getMenuBoardProducts = createTool({
     url.search = params.toString();
 
     try {
-      logger.info({ url: url.toString() }, `Attempting to retrieve products for category ${menuCategoryId}.`);
-
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: await getAuthHeaders(),
-      });
-
-      const responseText = await response.text();
-      let responseData;
-      try {
-        responseData = JSON.parse(responseText);
-      } catch (e) {
-        responseData = responseText;
-      }
+      logger.info({ url: url.toString(), pagination }, `Attempting to retrieve products for category ${menuCategoryId}.`);
+
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseText);
-        const message = `Failed to get menu board products. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: decodedError }, message);
-        return { success: false, message, errorData: decodedError };
+      if (!result.success) {
+        const message = `Failed to get menu board products. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
+        return { success: false, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
+
       const validationResult = z.array(menuBoardProductSchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -112,7 +111,12 @@ export const getMenuBoardProducts = createTool({
       }
 
       logger.info(`Successfully retrieved ${validationResult.data.length} product(s).`);
-      return { success: true, data: validationResult.data };
+      return {
+        success: true,
+        message: describePagination(result.pagination, 'menu board products'),
+        data: validationResult.data,
+        pagination: result.pagination,
+      };
 
     } catch (error) {
       const message = error instanceof Error ? error.message : 'An unexpected error occurred.';
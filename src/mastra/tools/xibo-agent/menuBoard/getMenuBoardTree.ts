@@ -70,7 +70,7 @@ export const getMenuBoardTree = createTool({
     try {
       // Step 1: Fetch all relevant menu boards
       const menuBoardsResponse = await getMenuBoards.execute({
-        context: { menuId: input.menuId },
+        context: { menuId: input.menuId, all: true },
         runtimeContext,
       });
 
@@ -103,7 +103,7 @@ export const getMenuBoardTree = createTool({
 
         // Fetch categories for the current menu board
         const categoriesResponse = await getMenuBoardCategories.execute({
-          context: { menuId: menuBoard.menuId },
+          context: { menuId: menuBoard.menuId, all: true },
           runtimeContext,
         });
 
@@ -119,7 +119,7 @@ export const getMenuBoardTree = createTool({
 
             // Fetch products for the current category
             const productsResponse = await getMenuBoardProducts.execute({
-              context: { menuCategoryId: category.menuCategoryId },
+              context: { menuCategoryId: category.menuCategoryId, all: true },
               runtimeContext,
             });
 
@@ -18,10 +18,15 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
-import { getAuthHeaders } from '../auth';
 import { logger } from '../../../logger';
 import { menuBoardSchema } from './schemas';
-import { decodeErrorMessage } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 
 // Schema for the input of the getMenuBoards tool
 const inputSchema = z.object({
@@ -30,12 +35,15 @@ const inputSchema = z.object({
   folderId: z.number().optional().describe('Filter by the parent folder ID.'),
   name: z.string().optional().describe('Filter by menu board name (supports filtering with %).'),
   code: z.string().optional().describe('Filter by menu board code.'),
+  ...paginationInputSchema.shape,
 });
 
 // Schema for a successful response
 const successResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(menuBoardSchema),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for an error response
@@ -69,8 +77,9 @@ export const getMenuBoards = createTool({
 
     const url = new URL(`${config.cmsUrl}/api/menuboards`);
     const params = new URLSearchParams();
+    const { pagination, filters } = splitPaginationOptions(context);
 
-    Object.entries(context).forEach(([key, value]) => {
+    Object.entries(filters).forEach(([key, value]) => {
       if (value !== undefined && value !== null) {
         params.append(key, String(value));
       }
@@ -78,28 +87,18 @@ export const getMenuBoards = createTool({
     url.search = params.toString();
 
     try {
-      logger.info({ url: url.toString() }, 'Attempting to retrieve menu boards.');
-
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: await getAuthHeaders(),
-      });
-
-      const responseText = await response.text();
-      let responseData;
-      try {
-        responseData = JSON.parse(responseText);
-      } catch (e) {
-        responseData = responseText;
-      }
+      logger.info({ url: url.toString(), pagination }, 'Attempting to retrieve menu boards.');
+
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseText);
-        const message = `Failed to get menu boards. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: decodedError }, message);
-        return { success: false, message, errorData: decodedError };
+      if (!result.success) {
+        const message = `Failed to get menu boards. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
+        return { success: false, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
+
       const validationResult = z.array(menuBoardSchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -109,7 +108,12 @@ export const getMenuBoards = createTool({
       }
 
       logger.info(`Successfully retrieved ${validationResult.data.length} menu board(s).`);
-      return { success: true, data: validationResult.data };
+      return {
+        success: true,
+        message: describePagination(result.pagination, 'menu boards'),
+        data: validationResult.data,
+        pagination: result.pagination,
+      };
 
     } catch (error) {
       const message = error instanceof Error ? error.message : 'An unexpected error occurred.';
@@ -0,0 +1,62 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+/**
+ * @module getMenuDaypartPrices
+ * @description Provides a tool that lists the menu board products with day part
+ * price/availability overrides and what the scheduler last wrote to them.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { listMenuDaypartProducts } from '../menuDayparts';
+import { getActiveCmsProfileName } from '../cmsContext';
+import { menuDaypartProductSchema } from './schemas';
+import { logger } from '../../../logger';
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    cmsProfile: z.string(),
+    products: z.array(menuDaypartProductSchema),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for listing day part overrides.
+ */
+export const getMenuDaypartPrices = createTool({
+  id: 'get-menu-daypart-prices',
+  description: 'List the menu board products with day part prices/availability, their base values and the day part last applied.',
+  inputSchema: z.object({
+    menuId: z.number().optional().describe('Only products of this menu board.'),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    const cmsProfile = getActiveCmsProfileName();
+    try {
+      const products = await listMenuDaypartProducts(cmsProfile, { menuId: context.menuId });
+      return {
+        success: true,
+        message: products.length
+          ? `${products.length} products have day part prices.`
+          : 'No products have day part prices.',
+        data: { cmsProfile, products },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "getMenuDaypartPrices: Failed to read day part prices");
+      return { success: false, message: `Failed to read day part prices: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
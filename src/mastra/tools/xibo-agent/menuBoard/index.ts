@@ -23,4 +23,12 @@ export { getMenuBoardCategories } from './getMenuBoardCategories';
 export { getMenuBoardProducts } from './getMenuBoardProducts';
 export { getMenuBoards } from './getMenuBoards';
 export { selectMenuBoardFolder } from './selectMenuBoardFolder';
-export { getMenuBoardTree } from './getMenuBoardTree'; 
\ No newline at end of file
+export { getMenuBoardTree } from './getMenuBoardTree';
+export { planMenuBoardImport } from './planMenuBoardImport';
+export { applyMenuBoardImport } from './applyMenuBoardImport';
+export { exportMenuBoardCsv } from './exportMenuBoardCsv';
+export { setMenuDaypartPrice } from './setMenuDaypartPrice';
+export { deleteMenuDaypartPrice } from './deleteMenuDaypartPrice';
+export { getMenuDaypartPrices } from './getMenuDaypartPrices';
+export { previewMenuBoardAt } from './previewMenuBoardAt';
+export { applyMenuDaypartPrices } from './applyMenuDaypartPrices';
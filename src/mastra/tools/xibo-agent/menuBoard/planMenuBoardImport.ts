@@ -0,0 +1,99 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module planMenuBoardImport
+ * @description Provides a tool that compares a menu spreadsheet (CSV, XLSX or JSON) with a
+ * menu board and previews the category and product changes needed to match it.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { MENU_IMPORT_FORMATS, formatMenuChangeTable, previewMenuImport } from '../menuBoardImport';
+import { logger } from '../../../logger';
+
+const changeSchema = z.object({
+  key: z.string(),
+  action: z.enum(['create', 'update', 'delete']),
+  type: z.enum(['category', 'product']),
+  id: z.number().nullable().describe('ID of the existing category or product.'),
+  category: z.string(),
+  name: z.string(),
+  fields: z.record(z.any()).describe('Fields of a new record, or the changed fields of an update as { from, to }.'),
+  row: z.number().nullable().describe('Row of the file the change comes from.'),
+});
+
+const countsSchema = z.object({ category: z.number(), product: z.number() });
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    importId: z.string().describe("Pass to applyMenuBoardImport to apply the changes."),
+    expiresAt: z.string(),
+    menuId: z.number(),
+    rows: z.number().describe('Rows read from the file.'),
+    summary: z.object({ create: countsSchema, update: countsSchema, delete: countsSchema }),
+    changes: z.array(changeSchema),
+    issues: z.array(z.object({ row: z.number(), message: z.string() }))
+      .describe('Problems in the file. The import cannot be applied until they are corrected.'),
+    changeTable: z.string().describe("Markdown table of the changes; show it to the user before applying."),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for previewing a menu board import.
+ */
+export const planMenuBoardImport = createTool({
+  id: 'plan-menu-board-import',
+  description: 'Read a menu spreadsheet (CSV/XLSX in the upload directory, or CSV/JSON content) with categories, products, prices, allergens, availability and images, and preview the creates, updates and deletes needed to make a menu board match it. Nothing is changed; use applyMenuBoardImport with the returned importId.',
+  inputSchema: z.object({
+    menuId: z.number().describe('The ID of the menu board to import into.'),
+    fileName: z.string().optional().describe('Name of a .csv, .xlsx or .json file in the upload directory (persistent_data/uploads).'),
+    content: z.string().optional().describe('CSV or JSON content given inline, when there is no file.'),
+    format: z.enum(MENU_IMPORT_FORMATS).optional().describe('Format of the file; detected from the extension or content when omitted.'),
+    sheet: z.string().optional().describe('Worksheet of an XLSX file; the first one when omitted.'),
+    deleteMissing: z.boolean().optional().default(false)
+      .describe('Also delete categories and products of the menu board that are not in the file.'),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const preview = await previewMenuImport(context);
+      const { create, update, delete: remove } = preview.summary;
+      const total = preview.changes.length;
+      return {
+        success: true,
+        message: preview.issues.length
+          ? `${preview.issues.length} rows have issues; correct the file and preview it again.`
+          : total
+            ? `${total} changes: ${create.category + create.product} creates, ${update.category + update.product} updates, ${remove.category + remove.product} deletes.`
+            : 'The menu board already matches the file.',
+        data: {
+          importId: preview.importId,
+          expiresAt: preview.expiresAt,
+          menuId: preview.menuId,
+          rows: preview.rows,
+          summary: preview.summary,
+          changes: preview.changes,
+          issues: preview.issues,
+          changeTable: formatMenuChangeTable(preview.changes),
+        },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "planMenuBoardImport: Failed to preview menu board import");
+      return { success: false, message: `Failed to preview menu board import: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
@@ -0,0 +1,79 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+/**
+ * @module previewMenuBoardAt
+ * @description Provides a tool that shows the prices and availability of a menu board at a
+ * given time, with the day part prices applied.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { formatMenuPreviewTable, previewMenuBoardAt as previewMenu } from '../menuDayparts';
+import { toUnixSeconds } from '../utility/dateTime';
+import { logger } from '../../../logger';
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    menuId: z.number(),
+    at: z.string(),
+    dayParts: z.array(z.string()).describe('Day parts with overrides running at that time.'),
+    categories: z.array(z.object({
+      menuCategoryId: z.number(),
+      name: z.string(),
+      products: z.array(z.object({
+        menuProductId: z.number(),
+        name: z.string(),
+        displayOrder: z.number(),
+        dayPartId: z.number().nullable(),
+        dayPart: z.string().nullable().describe('Day part the values come from; null for the base or unmanaged values.'),
+        price: z.number().nullable(),
+        availability: z.number().nullable(),
+        currentPrice: z.number().nullable().describe('Price in the CMS now.'),
+        currentAvailability: z.number().nullable().describe('Availability in the CMS now.'),
+      })),
+    })),
+    table: z.string().describe("Markdown table of the board; values differing from the CMS now are bold."),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for previewing a menu board at a given time.
+ */
+export const previewMenuBoardAt = createTool({
+  id: 'preview-menu-board-at',
+  description: 'Show the prices and availability a menu board will have at a given time (e.g. tomorrow 07:30), with the day part prices applied. Nothing is changed.',
+  inputSchema: z.object({
+    menuId: z.number().describe('The ID of the menu board.'),
+    at: z.string().optional().describe("Local time as 'YYYY-MM-DD HH:mm[:ss]'; now when omitted."),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const at = context.at ? new Date(toUnixSeconds(context.at) * 1000) : new Date();
+      const preview = await previewMenu(context.menuId, at);
+      return {
+        success: true,
+        message: preview.dayParts.length
+          ? `Menu board ${preview.menuId} at ${preview.at} with day parts: ${preview.dayParts.join(', ')}.`
+          : `Menu board ${preview.menuId} at ${preview.at} shows its base values.`,
+        data: { ...preview, table: formatMenuPreviewTable(preview) },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ menuId: context.menuId, error: errorMessage }, "previewMenuBoardAt: Failed to preview menu board");
+      return { success: false, message: `Failed to preview menu board: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
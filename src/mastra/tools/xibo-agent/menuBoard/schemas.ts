@@ -56,4 +56,24 @@ export const menuBoardProductSchema = z.object({
   calories: z.number().nullable().optional().describe('Calorie count for the product.'),
   mediaId: z.number().nullable().optional().describe('The ID of the media associated with the product.'),
   productOptions: z.array(z.string()).nullable().optional().describe('An array of product options.'),
-}); 
\ No newline at end of file
+});
+
+// Schema for a product with day part price/availability overrides (see menuDayparts.ts).
+export const menuDaypartProductSchema = z.object({
+  menuProductId: z.number(),
+  menuId: z.number(),
+  name: z.string(),
+  basePrice: z.number().nullable().describe('Price outside the day parts.'),
+  baseAvailability: z.number().nullable().describe('Availability outside the day parts.'),
+  overrides: z.array(z.object({
+    dayPartId: z.number(),
+    price: z.number().nullable().describe('Price during the day part; null keeps the base price.'),
+    availability: z.number().nullable().describe('Availability during the day part; null keeps the base availability.'),
+    updatedAt: z.string(),
+  })),
+  appliedDayPartId: z.number().nullable().describe('Day part whose values were last written to the CMS; null for the base.'),
+  appliedPrice: z.number().nullable(),
+  appliedAvailability: z.number().nullable(),
+  appliedAt: z.string().nullable(),
+  error: z.string().nullable().describe('Error of the last attempt to write the product.'),
+});
@@ -19,6 +19,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { menuBoardSchema } from './schemas';
 import { decodeErrorMessage } from '../utility/error';
@@ -71,7 +72,7 @@ export const selectMenuBoardFolder = createTool({
     try {
       logger.info({ menuId, folderId }, 'Attempting to move menu board to new folder.');
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'PUT',
         headers: {
           ...(await getAuthHeaders()),
@@ -0,0 +1,62 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+/**
+ * @module setMenuDaypartPrice
+ * @description Provides a tool that sets the price and/or availability a menu board product
+ * takes during a day part, or its base values outside its day parts.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { setMenuDaypartOverride } from '../menuDayparts';
+import { menuDaypartProductSchema } from './schemas';
+import { logger } from '../../../logger';
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: menuDaypartProductSchema.optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for setting a day part price or availability of a product.
+ */
+export const setMenuDaypartPrice = createTool({
+  id: 'set-menu-daypart-price',
+  description: 'Set the price and/or availability (sold out) of a menu board product during a day part, e.g. a breakfast price. Without dayPartId the base values used outside the day parts are set. The scheduler writes the values to the product at the day part boundaries; use previewMenuBoardAt to check the result.',
+  inputSchema: z.object({
+    menuId: z.number().describe('The ID of the menu board.'),
+    menuProductId: z.number().describe('The ID of the product.'),
+    dayPartId: z.number().optional().describe('The day part the values apply to; omit to set the base values.'),
+    price: z.number().nullable().optional().describe('Price during the day part; null keeps the base price.'),
+    availability: z.number().int().min(0).max(1).nullable().optional()
+      .describe('1 available, 0 sold out during the day part; null keeps the base availability.'),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const product = await setMenuDaypartOverride(context);
+      return {
+        success: true,
+        message: context.dayPartId !== undefined
+          ? `Set the values of "${product.name}" for day part ${context.dayPartId}; ${product.overrides.length} day parts have overrides.`
+          : `Set the base values of "${product.name}".`,
+        data: product,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ menuProductId: context.menuProductId, error: errorMessage }, "setMenuDaypartPrice: Failed to set day part values");
+      return { success: false, message: `Failed to set day part values: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
@@ -0,0 +1,708 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Menu Board Import
+ *
+ * Synchronises a menu board with a spreadsheet: a CSV or XLSX file (or JSON) with one row per
+ * product, as restaurants keep their menus or POS systems export them. Rows name the category
+ * and the product with its price, description, allergens, calories, availability and image;
+ * rows without a product only declare a category.
+ *
+ * `previewMenuImport()` matches the rows against the categories and products of the menu
+ * board (by code when both sides have one, otherwise by name) and returns the creates,
+ * updates and, with `deleteMissing`, deletes. The preview is kept for a while;
+ * `applyMenuImport()` checks that the menu board did not change since and applies the
+ * changes in order: categories first, then products, then deletions. When one fails, the
+ * creates and updates applied before it are undone in reverse order and `MenuImportError`
+ * lists what was applied and what could not be undone (deleted records stay deleted).
+ *
+ * Empty cells leave a field unchanged. Products are ordered as they appear in the file
+ * unless a `displayOrder` column is given. Images are library media IDs or media names.
+ * `exportMenuBoardCsv()` writes the same columns, so an exported file can be edited and
+ * imported again.
+ */
+
+import { z } from 'zod';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from './config';
+import { logger } from '../../logger';
+import { xiboClient, XiboResult } from './xiboClient';
+import { loadRecords } from './utility/pagination';
+import { PlanStore } from './utility/planStore';
+import { menuBoardCategorySchema, menuBoardProductSchema } from './menuBoard/schemas';
+import { parseCsv, readXlsxRows, toCsv } from './utility/spreadsheet';
+
+export const MENU_IMPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+
+export type MenuImportFormat = typeof MENU_IMPORT_FORMATS[number];
+
+/**
+ * Columns of an import file, with the headings each one is recognised by (compared without
+ * case, spaces, hyphens and underscores).
+ */
+export const MENU_COLUMNS = {
+  category: ['category', 'categoryname'],
+  categoryCode: ['categorycode'],
+  categoryDescription: ['categorydescription'],
+  categoryImage: ['categoryimage', 'categorymedia', 'categorymediaid'],
+  product: ['product', 'productname', 'name', 'item', 'itemname'],
+  code: ['code', 'productcode', 'sku', 'plu'],
+  description: ['description', 'productdescription'],
+  price: ['price'],
+  calories: ['calories', 'kcal'],
+  allergyInfo: ['allergyinfo', 'allergens', 'allergies'],
+  availability: ['availability', 'available'],
+  displayOrder: ['displayorder', 'order', 'sortorder'],
+  image: ['image', 'media', 'mediaid'],
+} as const;
+
+type MenuColumn = keyof typeof MENU_COLUMNS;
+
+const EXPORT_COLUMNS = Object.keys(MENU_COLUMNS) as MenuColumn[];
+
+
+const CATEGORY_FIELDS = ['name', 'code', 'description', 'mediaId'] as const;
+const PRODUCT_FIELDS = ['name', 'code', 'description', 'price', 'calories', 'allergyInfo', 'availability', 'displayOrder', 'mediaId'] as const;
+
+type CategoryFields = Partial<Record<typeof CATEGORY_FIELDS[number], string | number | null>>;
+type ProductFields = Partial<Record<typeof PRODUCT_FIELDS[number], string | number | null>>;
+
+type Category = z.infer<typeof menuBoardCategorySchema>;
+type Product = z.infer<typeof menuBoardProductSchema>;
+
+/**
+ * A change to the menu board.
+ */
+export interface MenuChange {
+  key: string;
+  action: 'create' | 'update' | 'delete';
+  type: 'category' | 'product';
+  id: number | null;
+  category: string;
+  name: string;
+  /** Fields of a new record, or the changed fields of an update as `{ from, to }`. */
+  fields: Record<string, unknown>;
+  row: number | null;
+}
+
+/**
+ * A problem with a row of the file. Previews with issues cannot be applied.
+ */
+export interface MenuImportIssue {
+  row: number;
+  message: string;
+}
+
+export interface MenuImportPreview {
+  importId: string;
+  expiresAt: string;
+  cmsProfile: string;
+  menuId: number;
+  rows: number;
+  changes: MenuChange[];
+  issues: MenuImportIssue[];
+  summary: Record<'create' | 'update' | 'delete', { category: number; product: number }>;
+}
+
+/**
+ * A change written to the CMS, with the ID of the created, updated or deleted record.
+ */
+export interface AppliedMenuChange {
+  key: string;
+  action: MenuChange['action'];
+  type: MenuChange['type'];
+  id: number;
+}
+
+export interface MenuImportApplyResult {
+  applied: AppliedMenuChange[];
+}
+
+/**
+ * Outcome of undoing the applied changes after a change failed.
+ */
+export interface MenuImportRollback {
+  undone: AppliedMenuChange[];
+  notUndone: Array<AppliedMenuChange & { reason: string }>;
+}
+
+/**
+ * Error raised when a change of an import fails after others were applied.
+ */
+export class MenuImportError extends Error {
+  constructor(
+    message: string,
+    public readonly applied: AppliedMenuChange[],
+    public readonly rollback: MenuImportRollback
+  ) {
+    super(message);
+    this.name = 'MenuImportError';
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Reading the file
+// -----------------------------------------------------------------------------
+
+interface MenuRow extends Partial<Record<MenuColumn, string>> {
+  row: number;
+}
+
+const normaliseHeading = (heading: string) => heading.toLowerCase().replace(/[\s_-]/g, '');
+
+/**
+ * Maps spreadsheet rows (header first) to menu rows.
+ *
+ * @throws {Error} If the header has no category or product column.
+ */
+function rowsFromTable(table: string[][]): MenuRow[] {
+  const headerIndex = table.findIndex((row) => row.some((cell) => cell.trim() !== ''));
+  if (headerIndex < 0) return [];
+  const columns = table[headerIndex].map((heading) => {
+    const normalised = normaliseHeading(heading);
+    return (Object.keys(MENU_COLUMNS) as MenuColumn[]).find((column) =>
+      (MENU_COLUMNS[column] as readonly string[]).includes(normalised)
+    );
+  });
+  for (const required of ['category', 'product'] as const) {
+    if (!columns.includes(required)) {
+      throw new Error(`The file has no "${required}" column. Recognised headings: ${MENU_COLUMNS[required].join(', ')}.`);
+    }
+  }
+
+  const rows: MenuRow[] = [];
+  table.slice(headerIndex + 1).forEach((cells, i) => {
+    if (!cells.some((cell) => cell.trim() !== '')) return;
+    const row: MenuRow = { row: headerIndex + i + 2 };
+    columns.forEach((column, index) => {
+      const value = cells[index]?.trim();
+      if (column && value) row[column] = value;
+    });
+    rows.push(row);
+  });
+  return rows;
+}
+
+const jsonValue = (value: unknown) => (value === undefined || value === null || value === '' ? undefined : String(value));
+
+/**
+ * Maps a JSON import: an array of rows, or `{ categories: [{ name, code, description, image,
+ * products: [{ name, price, ... }] }] }`.
+ */
+function rowsFromJson(data: unknown): MenuRow[] {
+  if (Array.isArray(data)) {
+    const keys = Object.keys(Object.assign({}, ...data));
+    return rowsFromTable([keys, ...data.map((item) => keys.map((key) => jsonValue(item?.[key]) ?? ''))]);
+  }
+  const parsed = z.object({
+    categories: z.array(z.object({
+      name: z.string(),
+      products: z.array(z.record(z.unknown())).optional(),
+    }).passthrough()),
+  }).parse(data);
+
+  const rows: MenuRow[] = [];
+  let row = 0;
+  for (const category of parsed.categories) {
+    const categoryFields = {
+      category: category.name,
+      categoryCode: jsonValue(category.code),
+      categoryDescription: jsonValue(category.description),
+      categoryImage: jsonValue(category.image ?? category.mediaId),
+    };
+    if (!category.products?.length) rows.push({ row: ++row, ...categoryFields });
+    for (const product of category.products ?? []) {
+      const fields: MenuRow = { row: ++row, ...categoryFields, product: jsonValue(product.name ?? product.product) };
+      for (const column of ['code', 'description', 'price', 'calories', 'allergyInfo', 'availability', 'displayOrder'] as const) {
+        fields[column] = jsonValue(product[column]);
+      }
+      fields.image = jsonValue(product.image ?? product.mediaId);
+      rows.push(fields);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Reads the rows of an import file.
+ *
+ * @param source.fileName File in the upload directory; the format follows the extension.
+ * @param source.content CSV or JSON text (or a base64 XLSX workbook) given inline.
+ */
+export function readMenuRows(source: { fileName?: string; content?: string; format?: MenuImportFormat; sheet?: string }): MenuRow[] {
+  let format = source.format;
+  let data: Buffer;
+  if (source.fileName) {
+    const filePath = path.resolve(config.uploadDir, source.fileName);
+    if (!filePath.startsWith(path.resolve(config.uploadDir) + path.sep)) {
+      throw new Error(`"${source.fileName}" is outside the upload directory.`);
+    }
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File "${source.fileName}" was not found in the upload directory.`);
+    }
+    data = fs.readFileSync(filePath);
+    format ??= MENU_IMPORT_FORMATS.find((f) => path.extname(filePath).toLowerCase() === `.${f}`);
+  } else if (source.content !== undefined) {
+    format ??= /^\s*[[{]/.test(source.content) ? 'json' : 'csv';
+    data = format === 'xlsx' ? Buffer.from(source.content, 'base64') : Buffer.from(source.content, 'utf-8');
+  } else {
+    throw new Error('Give either fileName or content.');
+  }
+
+  switch (format) {
+    case 'xlsx': return rowsFromTable(readXlsxRows(data, source.sheet));
+    case 'json': return rowsFromJson(JSON.parse(data.toString('utf-8')));
+    case 'csv': return rowsFromTable(parseCsv(data.toString('utf-8')));
+    default: throw new Error(`Cannot tell the format of "${source.fileName}". Set format to csv, xlsx or json.`);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Values
+// -----------------------------------------------------------------------------
+
+/** Parses a price such as `¥1,200`, `$3.50` or `3,50 €`. */
+function parsePrice(value: string): number | undefined {
+  let digits = value.replace(/[^\d.,-]/g, '');
+  // A single comma followed by one or two digits is a decimal comma.
+  if (/^-?\d+,\d{1,2}$/.test(digits)) digits = digits.replace(',', '.');
+  const parsed = Number(digits.replace(/,/g, ''));
+  return digits && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+const AVAILABLE = new Set(['1', 'yes', 'y', 'true', 'available', 'on', '○', '◯']);
+const UNAVAILABLE = new Set(['0', 'no', 'n', 'false', 'unavailable', 'soldout', 'off', '×', '✕']);
+
+function parseAvailability(value: string): number | undefined {
+  const normalised = value.toLowerCase().replace(/[\s_-]/g, '');
+  if (AVAILABLE.has(normalised)) return 1;
+  if (UNAVAILABLE.has(normalised)) return 0;
+  return undefined;
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Treats empty strings like null so that a cleared field in the CMS matches an empty cell. */
+const comparable = (value: unknown) => (value === '' || value === undefined ? null : value);
+
+// -----------------------------------------------------------------------------
+// Diff
+// -----------------------------------------------------------------------------
+
+/**
+ * Categories and products of a menu board.
+ */
+export interface MenuBoardContents {
+  categories: Category[];
+  products: Product[];
+}
+
+/**
+ * Reads the categories and products of a menu board.
+ *
+ * @throws {Error} If the menu board does not exist or cannot be read.
+ */
+export async function loadMenuBoard(menuId: number): Promise<MenuBoardContents> {
+  const boards = await loadRecords(`/menuboards?menuId=${menuId}`, z.object({ menuId: z.number() }).passthrough());
+  if (!boards.some((b) => b.menuId === menuId)) {
+    throw new Error(`Menu board ${menuId} does not exist.`);
+  }
+  const categories = await loadRecords(`/menuboard/${menuId}/categories`, menuBoardCategorySchema);
+  const products: Product[] = [];
+  for (const category of categories) {
+    products.push(...await loadRecords(`/menuboard/products?menuCategoryId=${category.menuCategoryId}`, menuBoardProductSchema));
+  }
+  return { categories, products };
+}
+
+const menuSignature = (menu: MenuBoardContents) =>
+  crypto.createHash('sha256').update(JSON.stringify([
+    menu.categories.map((c) => [c.menuCategoryId, ...CATEGORY_FIELDS.map((f) => comparable(c[f]))]),
+    menu.products.map((p) => [p.menuProductId, p.menuCategoryId, ...PRODUCT_FIELDS.map((f) => comparable(p[f]))]),
+  ])).digest('hex');
+
+function matchRecord<T extends { name: string; code?: string | null }>(records: T[], name: string, code: string | undefined): T | undefined {
+  if (code) {
+    const byCode = records.find((r) => r.code && sameText(r.code, code));
+    if (byCode) return byCode;
+  }
+  return records.find((r) => sameText(r.name, name) && !(code && r.code && !sameText(r.code, code)));
+}
+
+function diffFields<F extends Record<string, unknown>>(current: Record<string, unknown>, wanted: F): Record<string, { from: unknown; to: unknown }> {
+  const changed: Record<string, { from: unknown; to: unknown }> = {};
+  for (const [field, value] of Object.entries(wanted)) {
+    if (value === undefined) continue;
+    if (comparable(current[field]) !== comparable(value)) changed[field] = { from: current[field] ?? null, to: value };
+  }
+  return changed;
+}
+
+async function evaluateImport(rows: MenuRow[], deleteMissing: boolean, menu: MenuBoardContents) {
+  const issues: MenuImportIssue[] = [];
+  const changes: MenuChange[] = [];
+
+  // Images named by media name are looked up in the library once.
+  const mediaIds = new Map<string, number | null>();
+  const names = [...new Set(rows.flatMap((r) => [r.image, r.categoryImage]).filter((v): v is string => Boolean(v) && !/^\d+$/.test(v!)))];
+  for (const name of names) {
+    const media = await loadRecords(`/library?media=${encodeURIComponent(name)}`, z.object({ mediaId: z.number(), name: z.string() }).passthrough());
+    mediaIds.set(name, media.find((m) => sameText(m.name, name))?.mediaId ?? null);
+  }
+  const resolveMedia = (value: string | undefined, row: number): number | undefined => {
+    if (!value) return undefined;
+    if (/^\d+$/.test(value)) return Number(value);
+    const mediaId = mediaIds.get(value);
+    if (mediaId == null) issues.push({ row, message: `Image "${value}" was not found in the library.` });
+    return mediaId ?? undefined;
+  };
+
+  // Group the rows by category, keeping the file order.
+  const groups: Array<{ name: string; rows: MenuRow[] }> = [];
+  for (const row of rows) {
+    if (!row.category) {
+      issues.push({ row: row.row, message: 'The row has no category.' });
+      continue;
+    }
+    const group = groups.find((g) => sameText(g.name, row.category!));
+    if (group) group.rows.push(row);
+    else groups.push({ name: row.category, rows: [row] });
+  }
+
+  let key = 0;
+  const keptCategories = new Set<number>();
+  const keptProducts = new Set<number>();
+  for (const group of groups) {
+    const first = (column: MenuColumn) => group.rows.find((r) => r[column])?.[column];
+    const categoryFields: CategoryFields = {
+      name: group.name,
+      code: first('categoryCode'),
+      description: first('categoryDescription'),
+      mediaId: resolveMedia(first('categoryImage'), group.rows[0].row),
+    };
+    const category = matchRecord(menu.categories, group.name, categoryFields.code as string | undefined);
+    if (category) {
+      keptCategories.add(category.menuCategoryId);
+      const changed = diffFields(category, categoryFields);
+      if (Object.keys(changed).length) {
+        changes.push({ key: `${++key}`, action: 'update', type: 'category', id: category.menuCategoryId, category: group.name, name: group.name, fields: changed, row: group.rows[0].row });
+      }
+    } else {
+      changes.push({ key: `${++key}`, action: 'create', type: 'category', id: null, category: group.name, name: group.name, fields: definedFields(categoryFields), row: group.rows[0].row });
+    }
+
+    const existing = category ? menu.products.filter((p) => p.menuCategoryId === category.menuCategoryId) : [];
+    const seen = new Set<string>();
+    let position = 0;
+    for (const row of group.rows.filter((r) => r.product)) {
+      position++;
+      const identity = (row.code ?? row.product!).toLowerCase();
+      if (seen.has(identity)) {
+        issues.push({ row: row.row, message: `"${row.product}" appears more than once in category "${group.name}".` });
+        continue;
+      }
+      seen.add(identity);
+
+      const price = row.price !== undefined ? parsePrice(row.price) : undefined;
+      if (row.price !== undefined && price === undefined) issues.push({ row: row.row, message: `Price "${row.price}" is not a number.` });
+      const calories = row.calories !== undefined ? Number(row.calories) : undefined;
+      if (calories !== undefined && !Number.isFinite(calories)) issues.push({ row: row.row, message: `Calories "${row.calories}" is not a number.` });
+      const availability = row.availability !== undefined ? parseAvailability(row.availability) : undefined;
+      if (row.availability !== undefined && availability === undefined) issues.push({ row: row.row, message: `Availability "${row.availability}" is not yes/no.` });
+      const displayOrder = row.displayOrder !== undefined ? Number(row.displayOrder) : position;
+      if (!Number.isInteger(displayOrder)) issues.push({ row: row.row, message: `Display order "${row.displayOrder}" is not a whole number.` });
+
+      const productFields: ProductFields = {
+        name: row.product,
+        code: row.code,
+        description: row.description,
+        price,
+        calories: Number.isFinite(calories) ? calories : undefined,
+        allergyInfo: row.allergyInfo,
+        availability,
+        displayOrder,
+        mediaId: resolveMedia(row.image, row.row),
+      };
+      const product = matchRecord(existing, row.product!, row.code);
+      if (product) {
+        keptProducts.add(product.menuProductId);
+        const changed = diffFields(product, productFields);
+        if (Object.keys(changed).length) {
+          changes.push({ key: `${++key}`, action: 'update', type: 'product', id: product.menuProductId, category: group.name, name: row.product!, fields: changed, row: row.row });
+        }
+      } else {
+        changes.push({ key: `${++key}`, action: 'create', type: 'product', id: null, category: group.name, name: row.product!, fields: definedFields({ availability: 1, ...productFields }), row: row.row });
+      }
+    }
+  }
+
+  if (deleteMissing) {
+    for (const product of menu.products) {
+      if (keptProducts.has(product.menuProductId) || !keptCategories.has(product.menuCategoryId)) continue;
+      const category = menu.categories.find((c) => c.menuCategoryId === product.menuCategoryId)!;
+      changes.push({ key: `${++key}`, action: 'delete', type: 'product', id: product.menuProductId, category: category.name, name: product.name, fields: {}, row: null });
+    }
+    for (const category of menu.categories) {
+      if (keptCategories.has(category.menuCategoryId)) continue;
+      const products = menu.products.filter((p) => p.menuCategoryId === category.menuCategoryId).length;
+      changes.push({ key: `${++key}`, action: 'delete', type: 'category', id: category.menuCategoryId, category: category.name, name: category.name, fields: { products }, row: null });
+    }
+  }
+
+  issues.sort((a, b) => a.row - b.row);
+  return { changes, issues };
+}
+
+function definedFields(fields: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+// -----------------------------------------------------------------------------
+// Preview and apply
+// -----------------------------------------------------------------------------
+
+interface StoredImport {
+  preview: MenuImportPreview;
+  signature: string;
+}
+
+const storedImports = new PlanStore<StoredImport>('Menu import', 'Preview the import again.');
+
+/**
+ * Reads an import file, compares it with the menu board and stores the changes for
+ * `applyMenuImport()`.
+ */
+export async function previewMenuImport(input: {
+  menuId: number;
+  fileName?: string;
+  content?: string;
+  format?: MenuImportFormat;
+  sheet?: string;
+  deleteMissing?: boolean;
+}): Promise<MenuImportPreview> {
+  const rows = readMenuRows(input);
+  const menu = await loadMenuBoard(input.menuId);
+  const { changes, issues } = await evaluateImport(rows, Boolean(input.deleteMissing), menu);
+
+  const summary = { create: { category: 0, product: 0 }, update: { category: 0, product: 0 }, delete: { category: 0, product: 0 } };
+  for (const change of changes) summary[change.action][change.type]++;
+  const { preview } = storedImports.put(({ id, expiresAt, cmsProfile }) => ({
+    preview: { importId: id, expiresAt, cmsProfile, menuId: input.menuId, rows: rows.length, changes, issues, summary },
+    signature: menuSignature(menu),
+  }));
+  logger.info({ importId: preview.importId, menuId: input.menuId, changes: changes.length, issues: issues.length }, 'Menu board import previewed.');
+  return preview;
+}
+
+const formValue = (value: unknown) => (value === null || value === undefined ? '' : value);
+
+const productForm = (fields: Record<string, unknown>) =>
+  Object.fromEntries(PRODUCT_FIELDS.map((f) => [f, formValue(fields[f])]));
+
+/**
+ * Applies the changes of a previewed import.
+ *
+ * @throws {Error} If the preview expired, has issues, or the menu board changed since the
+ * preview.
+ * @throws {MenuImportError} When a change fails, after undoing the changes applied before it.
+ */
+export async function applyMenuImport(importId: string): Promise<MenuImportApplyResult> {
+  const stored = storedImports.require(importId);
+  const { preview } = stored;
+  if (preview.issues.length) {
+    throw new Error(`Menu import ${importId} has ${preview.issues.length} issues. Correct the file and preview it again.`);
+  }
+  const menu = await loadMenuBoard(preview.menuId);
+  if (menuSignature(menu) !== stored.signature) {
+    storedImports.delete(importId);
+    throw new Error(`Menu board ${preview.menuId} changed since the import was previewed. Preview the import again.`);
+  }
+
+  const order = (c: MenuChange) =>
+    c.action === 'delete' ? (c.type === 'product' ? 2 : 3) : c.type === 'category' ? 0 : 1;
+  const categoryIds = new Map(menu.categories.map((c) => [c.name.toLowerCase(), c.menuCategoryId]));
+  const applied: AppliedMenuChange[] = [];
+  // Requests restoring the state before each applied change; null for deletions
+  const undo: Array<(() => Promise<XiboResult<unknown>>) | null> = [];
+
+  for (const change of [...preview.changes].sort((a, b) => order(a) - order(b))) {
+    let result;
+    if (change.type === 'category') {
+      const current = menu.categories.find((c) => c.menuCategoryId === change.id);
+      const fields = change.action === 'update' ? merge(current!, CATEGORY_FIELDS, change.fields) : change.fields;
+      const form = Object.fromEntries(CATEGORY_FIELDS.map((f) => [f, formValue(fields[f])]));
+      result = change.action === 'create'
+        ? await xiboClient.request<{ menuCategoryId: number }>(`/menuboard/${preview.menuId}/category`, { method: 'POST', form })
+        : change.action === 'update'
+          ? await xiboClient.request(`/menuboard/category/${change.id}`, { method: 'PUT', form })
+          : await xiboClient.request(`/menuboard/category/${change.id}`, { method: 'DELETE' });
+      if (result.success && change.action === 'create') {
+        const { menuCategoryId } = result.data as { menuCategoryId: number };
+        categoryIds.set(change.name.toLowerCase(), menuCategoryId);
+        undo.push(() => xiboClient.request(`/menuboard/category/${menuCategoryId}`, { method: 'DELETE' }));
+      } else if (result.success && change.action === 'update') {
+        categoryIds.set(change.name.toLowerCase(), change.id!);
+        const previous = Object.fromEntries(CATEGORY_FIELDS.map((f) => [f, formValue(current![f])]));
+        undo.push(() => xiboClient.request(`/menuboard/category/${change.id}`, { method: 'PUT', form: previous }));
+      } else if (result.success) {
+        undo.push(null);
+      }
+    } else {
+      const current = menu.products.find((p) => p.menuProductId === change.id);
+      const fields = change.action === 'update' ? merge(current!, PRODUCT_FIELDS, change.fields) : change.fields;
+      const form = productForm(fields);
+      result = change.action === 'create'
+        ? await xiboClient.request<{ menuProductId: number }>(`/menuboard/${categoryIds.get(change.category.toLowerCase())}/product`, { method: 'POST', form })
+        : change.action === 'update'
+          ? await xiboClient.request(`/menuboard/product/${change.id}`, { method: 'PUT', form })
+          : await xiboClient.request(`/menuboard/product/${change.id}`, { method: 'DELETE' });
+      if (result.success && change.action === 'create') {
+        const { menuProductId } = result.data as { menuProductId: number };
+        undo.push(() => xiboClient.request(`/menuboard/product/${menuProductId}`, { method: 'DELETE' }));
+      } else if (result.success && change.action === 'update') {
+        undo.push(() => updateMenuProduct(current!, {}));
+      } else if (result.success) {
+        undo.push(null);
+      }
+    }
+
+    if (!result.success) {
+      logger.error({ importId, change: change.key, reason: result.message }, 'Applying a menu import change failed.');
+      const rollback = await rollBack(applied, undo);
+      throw new MenuImportError(
+        `${change.action} ${change.type} "${change.name}" failed (${result.message}); ` +
+          `${rollback.undone.length} of ${applied.length} applied changes were undone.`,
+        applied,
+        rollback
+      );
+    }
+    const data = result.data as { menuCategoryId?: number; menuProductId?: number } | undefined;
+    applied.push({ key: change.key, action: change.action, type: change.type, id: change.id ?? data?.menuCategoryId ?? data?.menuProductId ?? 0 });
+  }
+
+  storedImports.delete(importId);
+  logger.info({ importId, applied: applied.length }, 'Menu board import applied.');
+  return { applied };
+}
+
+/**
+ * Undoes applied changes, newest first, so created products go before their category.
+ */
+async function rollBack(
+  applied: AppliedMenuChange[],
+  undo: Array<(() => Promise<XiboResult<unknown>>) | null>
+): Promise<MenuImportRollback> {
+  const rollback: MenuImportRollback = { undone: [], notUndone: [] };
+  for (let i = applied.length - 1; i >= 0; i--) {
+    const step = undo[i];
+    if (!step) {
+      rollback.notUndone.push({ ...applied[i], reason: 'Deleted records cannot be restored.' });
+      continue;
+    }
+    const result = await step();
+    if (result.success) {
+      rollback.undone.push(applied[i]);
+    } else {
+      logger.error({ change: applied[i].key, reason: result.message }, 'Undoing a menu import change failed.');
+      rollback.notUndone.push({ ...applied[i], reason: result.message });
+    }
+  }
+  return rollback;
+}
+
+/**
+ * The fields of a record with the changes of an update applied. The CMS edit forms replace
+ * every field, so unchanged values are sent again.
+ */
+function merge(current: Record<string, unknown>, fields: readonly string[], changed: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(fields.map((f) => [f, f in changed ? (changed[f] as { to: unknown }).to : current[f]]));
+}
+
+/**
+ * Changes fields of a product, sending its other fields again as the CMS edit form expects.
+ */
+export function updateMenuProduct(product: Product, changed: Partial<Product>): Promise<XiboResult<unknown>> {
+  return xiboClient.request(`/menuboard/product/${product.menuProductId}`, {
+    method: 'PUT',
+    form: productForm({ ...product, ...changed }),
+  });
+}
+
+/**
+ * Renders the changes as a Markdown table for the agent to show before applying.
+ */
+export function formatMenuChangeTable(changes: MenuChange[]): string {
+  if (!changes.length) return '';
+  const cell = (value: unknown) => String(value ?? '').replace(/\|/g, '\\|');
+  const describe = (change: MenuChange) => Object.entries(change.fields)
+    .map(([field, value]) => change.action === 'update'
+      ? `${field}: ${cell((value as { from: unknown }).from)} → ${cell((value as { to: unknown }).to)}`
+      : `${field}: ${cell(value)}`)
+    .join(', ');
+  return [
+    '| key | action | type | category | name | fields |',
+    '|:--|:--|:--|:--|:--|:--|',
+    ...changes.map((c) => `| ${c.key} | ${c.action} | ${c.type} | ${cell(c.category)} | ${cell(c.name)} | ${describe(c)} |`),
+  ].join('\n');
+}
+
+// -----------------------------------------------------------------------------
+// Export
+// -----------------------------------------------------------------------------
+
+/**
+ * Writes the menu board as CSV with the import columns: one row per product, ordered like
+ * the board, and one row for each empty category.
+ *
+ * @returns The CSV text and the path of the file written to the downloads directory.
+ */
+export async function exportMenuBoardCsv(menuId: number): Promise<{ csv: string; filePath: string; categories: number; products: number }> {
+  const menu = await loadMenuBoard(menuId);
+  const table: Array<Array<string | number | null | undefined>> = [EXPORT_COLUMNS];
+  for (const category of menu.categories) {
+    const categoryCells = {
+      category: category.name,
+      categoryCode: category.code,
+      categoryDescription: category.description,
+      categoryImage: category.mediaId,
+    };
+    const products = menu.products
+      .filter((p) => p.menuCategoryId === category.menuCategoryId)
+      .sort((a, b) => a.displayOrder - b.displayOrder);
+    if (!products.length) table.push(EXPORT_COLUMNS.map((column) => categoryCells[column as keyof typeof categoryCells]));
+    for (const product of products) {
+      const cells: Partial<Record<MenuColumn, string | number | null | undefined>> = {
+        ...categoryCells,
+        product: product.name,
+        code: product.code,
+        description: product.description,
+        price: product.price,
+        calories: product.calories,
+        allergyInfo: product.allergyInfo,
+        availability: product.availability,
+        displayOrder: product.displayOrder,
+        image: product.mediaId,
+      };
+      table.push(EXPORT_COLUMNS.map((column) => cells[column]));
+    }
+  }
+
+  const csv = toCsv(table);
+  fs.mkdirSync(config.downloadsDir, { recursive: true });
+  const filePath = path.join(config.downloadsDir, `menu-board-${menuId}.csv`);
+  // A BOM lets Excel open the file as UTF-8.
+  fs.writeFileSync(filePath, `\uFEFF${csv}`);
+  return { csv, filePath, categories: menu.categories.length, products: menu.products.length };
+}
@@ -0,0 +1,663 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Menu Daypart Pricing
+ *
+ * Changes the price and availability of menu board products by time of day. An override
+ * gives the price and/or availability a product takes while a day part (breakfast, lunch,
+ * happy hour ...) is running; the values it has outside its day parts are its base. Both
+ * are stored in `xibo_menu_daypart_products` and `xibo_menu_daypart_overrides`; the base
+ * is read from the CMS when the first override of a product is set.
+ *
+ * When several day parts of a product are running, the one that started last wins, so a
+ * "Lunch" inside an "All day" day part takes over at noon and the Always day part loses to
+ * every other. Day part exceptions replace the start and end time on their weekday; custom
+ * day parts have no times and cannot be used. Times are the agent's local time, which is
+ * expected to match the CMS timezone.
+ *
+ * `applyMenuDayparts()` edits each product whose price or availability should differ from
+ * what it last wrote, so an edit made in the CMS stands until the next day part boundary.
+ * When the last override of a product is removed, the next run restores its base and
+ * forgets it. `previewMenuBoardAt()` shows how a menu board will look at a given time.
+ *
+ * The background scheduler is configured in `menu-dayparts.json` in the project root (or
+ * `XIBO_MENU_DAYPARTS_FILE`):
+ *
+ * ```json
+ * {
+ *   "enabled": true,
+ *   "intervalSeconds": 60,
+ *   "profiles": ["default"]
+ * }
+ * ```
+ *
+ * Without the file the scheduler runs only when `XIBO_MENU_DAYPARTS=on`, every minute, on
+ * every CMS profile that has overrides.
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import { InValue } from '@libsql/client';
+import { config } from './config';
+import { logger } from '../../logger';
+import { ensureTables, getAgentDatabase } from './database';
+import { getActiveCmsProfileName, runWithCmsProfile } from './cmsContext';
+import { getCmsProfile } from './cmsProfiles';
+import { runWithAuditContext } from './auditLog';
+import { formatDateTime } from './utility/dateTime';
+import { loadRecords } from './utility/pagination';
+import { loadMenuBoard, MenuBoardContents, updateMenuProduct } from './menuBoardImport';
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+const SCHEDULER_SOURCE = 'menu-daypart-scheduler';
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const dayPartSchema = z.object({
+  dayPartId: z.number(),
+  name: z.string(),
+  isAlways: z.number(),
+  isCustom: z.number(),
+  startTime: z.string().nullable().optional(),
+  endTime: z.string().nullable().optional(),
+  exceptions: z.array(z.object({ day: z.string(), start: z.string(), end: z.string() })).nullable().optional(),
+}).passthrough();
+
+export type MenuDayPart = z.infer<typeof dayPartSchema>;
+
+/**
+ * Price and/or availability of a product while a day part is running. Null values keep
+ * the base value.
+ */
+export interface MenuDaypartOverride {
+  dayPartId: number;
+  price: number | null;
+  availability: number | null;
+  updatedAt: string;
+}
+
+/**
+ * A product with day part overrides.
+ */
+export interface MenuDaypartProduct {
+  cmsProfile: string;
+  menuProductId: number;
+  menuId: number;
+  name: string;
+  basePrice: number | null;
+  baseAvailability: number | null;
+  overrides: MenuDaypartOverride[];
+  /** Day part whose values were last written; null for the base. */
+  appliedDayPartId: number | null;
+  appliedPrice: number | null;
+  appliedAvailability: number | null;
+  appliedAt: string | null;
+  error: string | null;
+}
+
+/**
+ * Price and availability a product takes at a given time.
+ */
+export interface MenuProductValues {
+  dayPartId: number | null;
+  dayPart: string | null;
+  price: number | null;
+  availability: number | null;
+}
+
+/**
+ * Outcome of applying the day parts to one product.
+ */
+export interface MenuDaypartChange extends MenuProductValues {
+  menuId: number;
+  menuProductId: number;
+  name: string;
+  action: 'updated' | 'unchanged' | 'restored' | 'failed';
+  detail: string;
+}
+
+/**
+ * A menu board as it looks at a given time.
+ */
+export interface MenuBoardPreview {
+  menuId: number;
+  at: string;
+  dayParts: string[];
+  categories: Array<{
+    menuCategoryId: number;
+    name: string;
+    products: Array<MenuProductValues & {
+      menuProductId: number;
+      name: string;
+      displayOrder: number;
+      currentPrice: number | null;
+      currentAvailability: number | null;
+    }>;
+  }>;
+}
+
+function ensureSchema(): Promise<void> {
+  return ensureTables('menu-dayparts', [
+    `CREATE TABLE IF NOT EXISTS xibo_menu_daypart_products (
+      cms_profile TEXT NOT NULL,
+      menu_product_id INTEGER NOT NULL,
+      menu_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      base_price REAL,
+      base_availability INTEGER,
+      applied_day_part_id INTEGER,
+      applied_price REAL,
+      applied_availability INTEGER,
+      applied_at TEXT,
+      error TEXT,
+      PRIMARY KEY (cms_profile, menu_product_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS xibo_menu_daypart_overrides (
+      cms_profile TEXT NOT NULL,
+      menu_product_id INTEGER NOT NULL,
+      day_part_id INTEGER NOT NULL,
+      price REAL,
+      availability INTEGER,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (cms_profile, menu_product_id, day_part_id)
+    )`,
+  ]);
+}
+
+// -----------------------------------------------------------------------------
+// Day part times
+// -----------------------------------------------------------------------------
+
+/** Milliseconds of `time` (HH:mm[:ss]) on the day of `day`, `dayOffset` days later. */
+function atTime(day: Date, time: string, dayOffset = 0): number {
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + dayOffset, hours, minutes || 0, seconds || 0).getTime();
+}
+
+/**
+ * Returns when the current run of a day part started, or null when it is not running at
+ * `at`. The Always day part counts as started before any other.
+ */
+export function dayPartStartedAt(dayPart: MenuDayPart, at: Date): number | null {
+  if (dayPart.isAlways) return -Infinity;
+  if (dayPart.isCustom) return null;
+  // A day part running past midnight may have started the day before.
+  for (const offset of [0, -1]) {
+    const day = new Date(at.getFullYear(), at.getMonth(), at.getDate() + offset);
+    const exception = (dayPart.exceptions ?? []).find((e) => e.day.slice(0, 3).toLowerCase() === WEEKDAYS[day.getDay()]);
+    const startTime = exception ? exception.start : dayPart.startTime;
+    const endTime = exception ? exception.end : dayPart.endTime;
+    if (!startTime || !endTime) continue;
+    const start = atTime(day, startTime);
+    const end = atTime(day, endTime, atTime(day, endTime) <= start ? 1 : 0);
+    if (start <= at.getTime() && at.getTime() < end) return start;
+  }
+  return null;
+}
+
+/**
+ * Resolves the price and availability of a product at `at` from its base and overrides.
+ */
+export function resolveMenuProduct(
+  product: Pick<MenuDaypartProduct, 'basePrice' | 'baseAvailability' | 'overrides'>,
+  dayParts: Map<number, MenuDayPart>,
+  at: Date
+): MenuProductValues {
+  let winner: { override: MenuDaypartOverride; dayPart: MenuDayPart; startedAt: number } | null = null;
+  for (const override of product.overrides) {
+    const dayPart = dayParts.get(override.dayPartId);
+    const startedAt = dayPart ? dayPartStartedAt(dayPart, at) : null;
+    if (!dayPart || startedAt === null) continue;
+    if (!winner || startedAt > winner.startedAt || (startedAt === winner.startedAt && override.dayPartId > winner.override.dayPartId)) {
+      winner = { override, dayPart, startedAt };
+    }
+  }
+  if (!winner) {
+    return { dayPartId: null, dayPart: null, price: product.basePrice, availability: product.baseAvailability };
+  }
+  return {
+    dayPartId: winner.dayPart.dayPartId,
+    dayPart: winner.dayPart.name,
+    price: winner.override.price ?? product.basePrice,
+    availability: winner.override.availability ?? product.baseAvailability,
+  };
+}
+
+async function loadDayParts(): Promise<Map<number, MenuDayPart>> {
+  const dayParts = await loadRecords('/daypart?embed=exceptions', dayPartSchema);
+  return new Map(dayParts.map((d) => [d.dayPartId, d]));
+}
+
+// -----------------------------------------------------------------------------
+// Stored overrides
+// -----------------------------------------------------------------------------
+
+const nullableNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+/**
+ * Products with day part overrides of one CMS profile.
+ */
+export async function listMenuDaypartProducts(cmsProfile: string, options: { menuId?: number; menuProductId?: number } = {}): Promise<MenuDaypartProduct[]> {
+  await ensureSchema();
+  const where = ['cms_profile = ?'];
+  const args: InValue[] = [cmsProfile];
+  if (options.menuId !== undefined) {
+    where.push('menu_id = ?');
+    args.push(options.menuId);
+  }
+  if (options.menuProductId !== undefined) {
+    where.push('menu_product_id = ?');
+    args.push(options.menuProductId);
+  }
+  const db = getAgentDatabase();
+  const products = await db.execute({ sql: `SELECT * FROM xibo_menu_daypart_products WHERE ${where.join(' AND ')} ORDER BY menu_id, menu_product_id`, args });
+  const overrides = await db.execute({ sql: 'SELECT * FROM xibo_menu_daypart_overrides WHERE cms_profile = ? ORDER BY day_part_id', args: [cmsProfile] });
+
+  return products.rows.map((row) => ({
+    cmsProfile,
+    menuProductId: Number(row.menu_product_id),
+    menuId: Number(row.menu_id),
+    name: String(row.name),
+    basePrice: nullableNumber(row.base_price),
+    baseAvailability: nullableNumber(row.base_availability),
+    overrides: overrides.rows
+      .filter((o) => Number(o.menu_product_id) === Number(row.menu_product_id))
+      .map((o) => ({
+        dayPartId: Number(o.day_part_id),
+        price: nullableNumber(o.price),
+        availability: nullableNumber(o.availability),
+        updatedAt: String(o.updated_at),
+      })),
+    appliedDayPartId: nullableNumber(row.applied_day_part_id),
+    appliedPrice: nullableNumber(row.applied_price),
+    appliedAvailability: nullableNumber(row.applied_availability),
+    appliedAt: (row.applied_at as string | null) ?? null,
+    error: (row.error as string | null) ?? null,
+  }));
+}
+
+/**
+ * Sets the price and/or availability of a product during a day part, or its base values
+ * when no day part is given.
+ *
+ * @throws {Error} If the product is not on the menu board, the day part does not exist or
+ * has no times, or neither a price nor an availability is given.
+ */
+export async function setMenuDaypartOverride(input: {
+  menuId: number;
+  menuProductId: number;
+  dayPartId?: number;
+  price?: number | null;
+  availability?: number | null;
+}): Promise<MenuDaypartProduct> {
+  if (input.price === undefined && input.availability === undefined) {
+    throw new Error('Give a price, an availability or both.');
+  }
+  await ensureSchema();
+  const cmsProfile = getActiveCmsProfileName();
+  const menu = await loadMenuBoard(input.menuId);
+  const product = menu.products.find((p) => p.menuProductId === input.menuProductId);
+  if (!product) {
+    throw new Error(`Product ${input.menuProductId} is not on menu board ${input.menuId}.`);
+  }
+  if (input.dayPartId !== undefined) {
+    const dayPart = (await loadDayParts()).get(input.dayPartId);
+    if (!dayPart) {
+      throw new Error(`Day part ${input.dayPartId} does not exist.`);
+    }
+    if (dayPart.isCustom) {
+      throw new Error(`Day part "${dayPart.name}" is custom and has no times. Use a day part with a start and end time.`);
+    }
+  }
+
+  const db = getAgentDatabase();
+  const [existing] = await listMenuDaypartProducts(cmsProfile, { menuProductId: input.menuProductId });
+  if (!existing) {
+    await db.execute({
+      sql: `INSERT INTO xibo_menu_daypart_products (cms_profile, menu_product_id, menu_id, name, base_price, base_availability)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+      args: [cmsProfile, product.menuProductId, input.menuId, product.name, product.price ?? null, product.availability ?? null],
+    });
+  } else {
+    await db.execute({
+      sql: 'UPDATE xibo_menu_daypart_products SET menu_id = ?, name = ? WHERE cms_profile = ? AND menu_product_id = ?',
+      args: [input.menuId, product.name, cmsProfile, product.menuProductId],
+    });
+  }
+
+  if (input.dayPartId === undefined) {
+    const base = existing ?? { basePrice: product.price ?? null, baseAvailability: product.availability ?? null };
+    await db.execute({
+      sql: 'UPDATE xibo_menu_daypart_products SET base_price = ?, base_availability = ? WHERE cms_profile = ? AND menu_product_id = ?',
+      args: [
+        input.price !== undefined ? input.price : base.basePrice,
+        input.availability !== undefined ? input.availability : base.baseAvailability,
+        cmsProfile,
+        product.menuProductId,
+      ],
+    });
+  } else {
+    const current = existing?.overrides.find((o) => o.dayPartId === input.dayPartId);
+    await db.execute({
+      sql: `INSERT INTO xibo_menu_daypart_overrides (cms_profile, menu_product_id, day_part_id, price, availability, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (cms_profile, menu_product_id, day_part_id) DO UPDATE SET price = excluded.price,
+          availability = excluded.availability, updated_at = excluded.updated_at`,
+      args: [
+        cmsProfile,
+        product.menuProductId,
+        input.dayPartId,
+        input.price !== undefined ? input.price : current?.price ?? null,
+        input.availability !== undefined ? input.availability : current?.availability ?? null,
+        new Date().toISOString(),
+      ],
+    });
+  }
+
+  logger.info({ menuProductId: product.menuProductId, dayPartId: input.dayPartId ?? null }, 'Menu day part override set.');
+  const [saved] = await listMenuDaypartProducts(cmsProfile, { menuProductId: product.menuProductId });
+  return saved;
+}
+
+/**
+ * Removes the override of a product for one day part, or all of its overrides. The base
+ * values are restored by the next run of the scheduler.
+ *
+ * @returns The number of overrides removed.
+ */
+export async function deleteMenuDaypartOverride(input: { menuProductId: number; dayPartId?: number }): Promise<number> {
+  await ensureSchema();
+  const cmsProfile = getActiveCmsProfileName();
+  const db = getAgentDatabase();
+  const args: InValue[] = [cmsProfile, input.menuProductId];
+  if (input.dayPartId !== undefined) args.push(input.dayPartId);
+  const result = await db.execute({
+    sql: `DELETE FROM xibo_menu_daypart_overrides WHERE cms_profile = ? AND menu_product_id = ?${input.dayPartId !== undefined ? ' AND day_part_id = ?' : ''}`,
+    args,
+  });
+
+  // A product showing its base needs no restore and is forgotten right away.
+  const [product] = await listMenuDaypartProducts(cmsProfile, { menuProductId: input.menuProductId });
+  if (product && !product.overrides.length && product.appliedDayPartId === null) {
+    await forgetProduct(cmsProfile, input.menuProductId);
+  }
+  logger.info({ menuProductId: input.menuProductId, dayPartId: input.dayPartId ?? null, removed: result.rowsAffected }, 'Menu day part overrides removed.');
+  return result.rowsAffected;
+}
+
+async function forgetProduct(cmsProfile: string, menuProductId: number): Promise<void> {
+  await getAgentDatabase().batch([
+    { sql: 'DELETE FROM xibo_menu_daypart_overrides WHERE cms_profile = ? AND menu_product_id = ?', args: [cmsProfile, menuProductId] },
+    { sql: 'DELETE FROM xibo_menu_daypart_products WHERE cms_profile = ? AND menu_product_id = ?', args: [cmsProfile, menuProductId] },
+  ], 'write');
+}
+
+// -----------------------------------------------------------------------------
+// Preview and apply
+// -----------------------------------------------------------------------------
+
+/**
+ * Shows how a menu board looks at `at`: products with overrides take the values of their
+ * winning day part, the others keep their current values.
+ */
+export async function previewMenuBoardAt(menuId: number, at: Date): Promise<MenuBoardPreview> {
+  const cmsProfile = getActiveCmsProfileName();
+  const [menu, dayParts, managed] = await Promise.all([
+    loadMenuBoard(menuId),
+    loadDayParts(),
+    listMenuDaypartProducts(cmsProfile, { menuId }),
+  ]);
+  const managedById = new Map(managed.map((p) => [p.menuProductId, p]));
+  const usedDayParts = new Set(managed.flatMap((p) => p.overrides.map((o) => o.dayPartId)));
+
+  return {
+    menuId,
+    at: formatDateTime(Math.floor(at.getTime() / 1000)),
+    dayParts: [...dayParts.values()]
+      .filter((d) => usedDayParts.has(d.dayPartId) && dayPartStartedAt(d, at) !== null)
+      .map((d) => d.name),
+    categories: menu.categories.map((category) => ({
+      menuCategoryId: category.menuCategoryId,
+      name: category.name,
+      products: menu.products
+        .filter((p) => p.menuCategoryId === category.menuCategoryId)
+        .sort((a, b) => a.displayOrder - b.displayOrder)
+        .map((product) => {
+          const stored = managedById.get(product.menuProductId);
+          const values = stored
+            ? resolveMenuProduct(stored, dayParts, at)
+            : { dayPartId: null, dayPart: null, price: product.price ?? null, availability: product.availability ?? null };
+          return {
+            menuProductId: product.menuProductId,
+            name: product.name,
+            displayOrder: product.displayOrder,
+            ...values,
+            currentPrice: product.price ?? null,
+            currentAvailability: product.availability ?? null,
+          };
+        }),
+    })),
+  };
+}
+
+/**
+ * Renders a menu board preview as a Markdown table, marking values that differ from the
+ * ones currently in the CMS.
+ */
+export function formatMenuPreviewTable(preview: MenuBoardPreview): string {
+  const cell = (value: unknown) => String(value ?? '').replace(/\|/g, '\\|');
+  const rows = preview.categories.flatMap((category) => category.products.map((p) => {
+    const price = p.price !== p.currentPrice ? `**${cell(p.price)}** (now ${cell(p.currentPrice)})` : cell(p.price);
+    const available = (value: number | null) => (value === 0 ? 'sold out' : 'yes');
+    const availability = p.availability !== p.currentAvailability ? `**${available(p.availability)}**` : available(p.availability);
+    return `| ${cell(category.name)} | ${cell(p.name)} | ${price} | ${availability} | ${cell(p.dayPart ?? '-')} |`;
+  }));
+  if (!rows.length) return '';
+  return [
+    '| category | product | price | available | day part |',
+    '|:--|:--|--:|:--|:--|',
+    ...rows,
+  ].join('\n');
+}
+
+async function saveApplied(cmsProfile: string, product: MenuDaypartProduct, values: MenuProductValues, error: string | null): Promise<void> {
+  await getAgentDatabase().execute({
+    sql: `UPDATE xibo_menu_daypart_products SET applied_day_part_id = ?, applied_price = ?, applied_availability = ?, applied_at = ?, error = ?
+      WHERE cms_profile = ? AND menu_product_id = ?`,
+    args: [values.dayPartId, values.price, values.availability, new Date().toISOString(), error, cmsProfile, product.menuProductId],
+  });
+}
+
+const running = new Set<string>();
+
+/**
+ * Writes the price and availability of the current day part of each product with
+ * overrides of the active CMS profile.
+ *
+ * @param options.dryRun Report what would change without touching the CMS or the stored state.
+ * @throws {Error} If the day parts are already being applied for the profile.
+ */
+export async function applyMenuDayparts(options: { dryRun?: boolean } = {}): Promise<MenuDaypartChange[]> {
+  const cmsProfile = getActiveCmsProfileName();
+  if (running.has(cmsProfile)) {
+    throw new Error(`Menu day parts of CMS profile "${cmsProfile}" are already being applied.`);
+  }
+  running.add(cmsProfile);
+  try {
+    const products = await listMenuDaypartProducts(cmsProfile);
+    if (!products.length) return [];
+    const now = new Date();
+    const dayParts = await loadDayParts();
+    const menus = new Map<number, Promise<MenuBoardContents>>();
+    const changes: MenuDaypartChange[] = [];
+
+    for (const product of products) {
+      // Without overrides left the product goes back to its base and is forgotten.
+      const retiring = !product.overrides.length;
+      const target: MenuProductValues = retiring
+        ? { dayPartId: null, dayPart: null, price: product.basePrice, availability: product.baseAvailability }
+        : resolveMenuProduct(product, dayParts, now);
+      const change = { menuId: product.menuId, menuProductId: product.menuProductId, name: product.name, ...target };
+
+      const unchanged = product.appliedAt !== null && !product.error &&
+        product.appliedDayPartId === target.dayPartId &&
+        product.appliedPrice === target.price &&
+        product.appliedAvailability === target.availability;
+      if (unchanged && !retiring) {
+        changes.push({ ...change, action: 'unchanged', detail: `Shows ${target.dayPart ?? 'its base values'}.` });
+        continue;
+      }
+
+      try {
+        if (!menus.has(product.menuId)) menus.set(product.menuId, loadMenuBoard(product.menuId));
+        const current = (await menus.get(product.menuId)!).products.find((p) => p.menuProductId === product.menuProductId);
+        if (!current) {
+          throw new Error(`Product ${product.menuProductId} is no longer on menu board ${product.menuId}.`);
+        }
+        const needsWrite = (current.price ?? null) !== target.price || (current.availability ?? null) !== target.availability;
+        if (needsWrite && !options.dryRun) {
+          const result = await updateMenuProduct(current, { price: target.price, availability: target.availability });
+          if (!result.success) {
+            throw new Error(`Editing product ${product.menuProductId} failed: ${result.message}`);
+          }
+        }
+        if (!options.dryRun) {
+          if (retiring) await forgetProduct(cmsProfile, product.menuProductId);
+          else await saveApplied(cmsProfile, product, target, null);
+        }
+        const values = `price ${target.price ?? '-'}, ${target.availability === 0 ? 'sold out' : 'available'}`;
+        changes.push(retiring
+          ? { ...change, action: 'restored', detail: `No overrides left; base values restored (${values}).` }
+          : { ...change, action: needsWrite ? 'updated' : 'unchanged', detail: `${target.dayPart ?? 'Base values'}: ${values}.` });
+      } catch (error) {
+        const detail = error instanceof Error ? error.message : String(error);
+        logger.error({ menuProductId: product.menuProductId, error: detail }, 'Applying menu day part failed');
+        if (!options.dryRun) {
+          await saveApplied(cmsProfile, product, {
+            dayPartId: product.appliedDayPartId, dayPart: null, price: product.appliedPrice, availability: product.appliedAvailability,
+          }, detail);
+        }
+        changes.push({ ...change, action: 'failed', detail });
+      }
+    }
+
+    const updated = changes.filter((c) => c.action === 'updated' || c.action === 'restored').length;
+    if (updated) logger.info({ cmsProfile, updated, dryRun: Boolean(options.dryRun) }, 'Menu day parts applied.');
+    return changes;
+  } finally {
+    running.delete(cmsProfile);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Background scheduler
+// -----------------------------------------------------------------------------
+
+const settingsFileSchema = z.object({
+  enabled: z.boolean().optional(),
+  intervalSeconds: z.number().int().min(60).optional(),
+  profiles: z.array(z.string()).optional(),
+});
+
+type MenuDaypartSettings = z.infer<typeof settingsFileSchema>;
+
+let settings: MenuDaypartSettings | null = null;
+let timer: NodeJS.Timeout | null = null;
+
+function getSettings(): MenuDaypartSettings {
+  if (settings) return settings;
+  settings = {};
+  if (fs.existsSync(config.menuDaypartsFile)) {
+    try {
+      const parsed = settingsFileSchema.safeParse(JSON.parse(fs.readFileSync(config.menuDaypartsFile, 'utf-8')));
+      if (parsed.success) {
+        settings = parsed.data;
+      } else {
+        logger.error({ file: config.menuDaypartsFile, error: parsed.error.flatten() }, 'Invalid menu day part settings file; using defaults');
+      }
+    } catch (error) {
+      logger.error({ file: config.menuDaypartsFile, error: error instanceof Error ? error.message : error }, 'Failed to read menu day part settings file');
+    }
+  }
+  return settings;
+}
+
+/**
+ * Drops the loaded settings so the next start re-reads the file.
+ */
+export function reloadMenuDaypartSettings(): void {
+  settings = null;
+}
+
+/**
+ * Tells whether the day parts should be applied in the background.
+ */
+export function isMenuDaypartSchedulerEnabled(): boolean {
+  return getSettings().enabled ?? process.env.XIBO_MENU_DAYPARTS === 'on';
+}
+
+/**
+ * Applies the day parts of every CMS profile that has overrides, or of the configured
+ * profiles. Failures are logged per profile.
+ */
+async function applyAllProfiles(): Promise<void> {
+  let names: string[];
+  try {
+    await ensureSchema();
+    const rows = await getAgentDatabase().execute('SELECT DISTINCT cms_profile FROM xibo_menu_daypart_products');
+    const configured = getSettings().profiles;
+    names = rows.rows.map((row) => String(row.cms_profile)).filter((name) => !configured || configured.includes(name));
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : error }, 'Reading menu day part profiles failed');
+    return;
+  }
+  for (const name of names) {
+    try {
+      const profile = getCmsProfile(name);
+      await runWithCmsProfile(profile, () =>
+        runWithAuditContext({ toolId: SCHEDULER_SOURCE, input: {}, agent: SCHEDULER_SOURCE }, () => applyMenuDayparts())
+      );
+    } catch (error) {
+      logger.error({ profile: name, error: error instanceof Error ? error.message : error }, 'Applying menu day parts failed');
+    }
+  }
+}
+
+/**
+ * Starts applying the day parts at the configured interval (every minute by default) when
+ * the scheduler is enabled. Calling it again restarts the timer with the current settings.
+ *
+ * @returns True when the scheduler was started.
+ */
+export function startMenuDaypartScheduler(): boolean {
+  stopMenuDaypartScheduler();
+  if (!isMenuDaypartSchedulerEnabled()) {
+    return false;
+  }
+  const intervalSeconds = getSettings().intervalSeconds ?? DEFAULT_INTERVAL_SECONDS;
+  timer = setInterval(() => void applyAllProfiles(), intervalSeconds * 1000);
+  timer.unref();
+  void applyAllProfiles();
+  logger.info({ intervalSeconds, profiles: getSettings().profiles ?? 'all' }, 'Menu day part scheduler started');
+  return true;
+}
+
+/**
+ * Stops the background scheduler.
+ */
+export function stopMenuDaypartScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
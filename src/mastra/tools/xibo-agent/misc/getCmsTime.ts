@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 
@@ -74,7 +75,7 @@ export const getCmsTime = createTool({
       const url = `${config.cmsUrl}/api/clock`;
       logger.debug({ url }, "Sending GET request for CMS time.");
       
-      const response = await fetch(url, { headers });
+      const response = await xiboClient.fetch(url, { headers });
 
       if (!response.ok) {
         const text = await response.text();
@@ -0,0 +1,21 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Offline mock of the Xibo CMS API for development and tests.
+ * Not registered as agent tools.
+ */
+
+export { MockXiboState } from './mockState';
+export { startMockXiboServer } from './mockXiboServer';
+export type { MockXiboServer, MockXiboServerOptions, MockRequest } from './mockXiboServer';
+export { sampleFromSchema } from './schemaSample';
@@ -0,0 +1,697 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Mock Xibo CMS State
+ *
+ * In-memory data behind the mock CMS server. Records are shaped like real API responses:
+ * entities with a `schemas.ts` (display, display group, library, campaign, dataset,
+ * menu board, schedule) are built with `sampleFromSchema`, while layouts, regions, playlists and
+ * widgets follow the structure the layout tools validate. Layouts keep the draft model
+ * of the CMS: editing happens on a draft (`parentId` set) that `publishLayout` swaps in.
+ */
+
+import { displaySchema } from '../display/schemas';
+import { displayGroupSchema } from '../displayGroup/schemas';
+import { librarySchema } from '../library/schemas';
+import { campaignSchema } from '../campaign/schemas';
+import { dataSetSchema, dataSetColumnSchema } from '../dataset/schemas';
+import { scheduleEventSchema } from '../schedule/schemas';
+import { dayPartSchema } from '../dayPart/schemas';
+import { resolutionSchema } from '../resolution/schemas';
+import { notificationSchema } from '../notification/schemas';
+import { menuBoardSchema, menuBoardCategorySchema, menuBoardProductSchema } from '../menuBoard/schemas';
+import { sampleFromSchema } from './schemaSample';
+
+type XiboRecord = Record<string, any>;
+
+const PUBLISHED = 1;
+const DRAFT = 2;
+
+const now = () => new Date().toISOString().replace('T', ' ').slice(0, 19);
+
+/**
+ * In-memory store of the mock CMS. Tests can read and modify the collections directly.
+ */
+export class MockXiboState {
+  displays = new Map<number, XiboRecord>();
+  displayGroups = new Map<number, XiboRecord>();
+  /** Display IDs assigned to each (non display specific) display group. */
+  displayGroupMembers = new Map<number, number[]>();
+  layouts = new Map<number, XiboRecord>();
+  playlists = new Map<number, XiboRecord>();
+  media = new Map<number, XiboRecord & { content?: Buffer }>();
+  campaigns = new Map<number, XiboRecord>();
+  dataSets = new Map<number, XiboRecord>();
+  dataSetRows = new Map<number, XiboRecord[]>();
+  menuBoards = new Map<number, XiboRecord>();
+  menuCategories = new Map<number, XiboRecord>();
+  menuProducts = new Map<number, XiboRecord>();
+  schedules = new Map<number, XiboRecord>();
+  dayParts = new Map<number, XiboRecord>();
+  resolutions = new Map<number, XiboRecord>();
+  notifications = new Map<number, XiboRecord>();
+  /** Library folders. Folder IDs count up separately from the entity IDs; 1 is the root. */
+  folders = new Map<number, XiboRecord>([[1, { id: 1, type: null, text: 'Root', parentId: null, isRoot: 1 }]]);
+  stats: XiboRecord[] = [];
+  /** Web hook trigger codes sent to display groups, oldest first. */
+  webhookTriggers: { displayGroupId: number; triggerCode: string }[] = [];
+
+  private nextId = 1;
+
+  /**
+   * Returns a new ID. IDs are unique across all entity types, which keeps test
+   * assertions unambiguous.
+   */
+  newId(): number {
+    return this.nextId++;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Displays
+  // ---------------------------------------------------------------------------
+
+  addDisplayGroup(fields: XiboRecord = {}): XiboRecord {
+    const displayGroupId = this.newId();
+    const group = sampleFromSchema(displayGroupSchema, {
+      displayGroupId,
+      displayGroup: `Display Group ${displayGroupId}`,
+      createdDt: now(),
+      modifiedDt: now(),
+      ...fields,
+    });
+    this.displayGroups.set(displayGroupId, group);
+    return group;
+  }
+
+  addDisplay(fields: XiboRecord = {}): XiboRecord {
+    const name = fields.display ?? `Display ${this.nextId}`;
+    const group = this.addDisplayGroup({ displayGroup: name, isDisplaySpecific: 1 });
+    const displayId = this.newId();
+    const display = sampleFromSchema(displaySchema, {
+      displayId,
+      display: name,
+      displayGroupId: group.displayGroupId,
+      licensed: 1,
+      commercialLicence: 1,
+      loggedIn: 1,
+      lastAccessed: now(),
+      clientType: 'android',
+      mediaInventoryStatus: 1,
+      xmrChannel: `channel-${displayId}`,
+      createdDt: now(),
+      modifiedDt: now(),
+      osVersion: '13',
+      osSdk: '33',
+      currentMacAddress: `00:00:00:00:00:${String(displayId % 100).padStart(2, '0')}`,
+      ...fields,
+    });
+    this.displays.set(displayId, display);
+    return display;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Campaigns
+  // ---------------------------------------------------------------------------
+
+  addCampaign(fields: XiboRecord = {}): XiboRecord {
+    const campaignId = this.newId();
+    const campaign = sampleFromSchema(campaignSchema, {
+      campaignId,
+      campaign: `Campaign ${campaignId}`,
+      type: 'list',
+      createdDt: now(),
+      modifiedDt: now(),
+      ...fields,
+    });
+    this.campaigns.set(campaignId, campaign);
+    return campaign;
+  }
+
+  /**
+   * Layouts assigned to a campaign, in assignment order.
+   */
+  campaignLayoutIds(campaignId: number): number[] {
+    const campaign = this.campaigns.get(campaignId);
+    if (campaign?.isLayoutSpecific) {
+      return [...this.layouts.values()]
+        .filter((l) => l.campaignId === campaignId && !l.parentId)
+        .map((l) => l.layoutId);
+    }
+    return (campaign?.layouts ?? []).map((l: XiboRecord) => l.layoutId);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Layouts, regions, playlists and widgets
+  // ---------------------------------------------------------------------------
+
+  private newPlaylist(fields: XiboRecord = {}): XiboRecord {
+    const playlistId = this.newId();
+    const playlist: XiboRecord = {
+      playlistId,
+      ownerId: 1,
+      name: `Playlist ${playlistId}`,
+      regionId: 0,
+      isDynamic: 0,
+      filterMediaName: null,
+      filterMediaNameLogicalOperator: null,
+      filterMediaTags: null,
+      filterExactTags: 0,
+      filterMediaTagsLogicalOperator: null,
+      filterFolderId: 0,
+      maxNumberOfItems: 0,
+      createdDt: now(),
+      modifiedDt: now(),
+      duration: 0,
+      requiresDurationUpdate: 0,
+      enableStat: 'Inherit',
+      tags: [],
+      widgets: [],
+      permissions: [],
+      folderId: 1,
+      permissionsFolderId: 1,
+      ...fields,
+    };
+    this.playlists.set(playlistId, playlist);
+    return playlist;
+  }
+
+  addPlaylist(fields: XiboRecord = {}): XiboRecord {
+    return this.newPlaylist(fields);
+  }
+
+  addRegion(layout: XiboRecord, fields: XiboRecord = {}): XiboRecord {
+    const regionId = this.newId();
+    const region: XiboRecord = {
+      regionId,
+      layoutId: layout.layoutId,
+      ownerId: 1,
+      type: 'playlist',
+      name: `Region ${regionId}`,
+      width: layout.width,
+      height: layout.height,
+      top: 0,
+      left: 0,
+      zIndex: 0,
+      syncKey: null,
+      regionOptions: [],
+      permissions: [],
+      duration: 0,
+      isDrawer: 0,
+      ...fields,
+    };
+    region.regionPlaylist = this.newPlaylist({ name: region.name, regionId });
+    layout.regions.push(region);
+    return region;
+  }
+
+  addWidget(playlist: XiboRecord, type: string, fields: XiboRecord = {}, options: Record<string, unknown> = {}): XiboRecord {
+    const widgetId = this.newId();
+    const widget: XiboRecord = {
+      widgetId,
+      playlistId: playlist.playlistId,
+      ownerId: 1,
+      type,
+      duration: 10,
+      displayOrder: playlist.widgets.length + 1,
+      useDuration: 0,
+      calculatedDuration: 10,
+      createdDt: now(),
+      modifiedDt: now(),
+      fromDt: 0,
+      toDt: 2147483647,
+      schemaVersion: 1,
+      transitionIn: null,
+      transitionOut: null,
+      transitionDurationIn: null,
+      transitionDurationOut: null,
+      widgetOptions: [],
+      mediaIds: [],
+      audio: [],
+      permissions: [],
+      playlist: playlist.name,
+      ...fields,
+    };
+    this.setWidgetOptions(widget, options);
+    playlist.widgets.push(widget);
+    return widget;
+  }
+
+  setWidgetOptions(widget: XiboRecord, options: Record<string, unknown>): void {
+    for (const [option, value] of Object.entries(options)) {
+      const existing = widget.widgetOptions.find((o: XiboRecord) => o.option === option);
+      const stored = value === null || value === undefined ? null : typeof value === 'object' ? value : String(value);
+      if (existing) {
+        existing.value = stored;
+      } else {
+        widget.widgetOptions.push({ widgetId: widget.widgetId, type: 'attrib', option, value: stored });
+      }
+    }
+  }
+
+  /**
+   * Creates a layout with one full-screen region and its draft, like the CMS does.
+   */
+  addLayout(fields: XiboRecord = {}): { layout: XiboRecord; draft: XiboRecord } {
+    const layoutId = this.newId();
+    const name = fields.layout ?? `Layout ${layoutId}`;
+    const campaign = this.addCampaign({ campaign: name, isLayoutSpecific: 1, type: 'layout' });
+    const layout: XiboRecord = {
+      layoutId,
+      ownerId: 1,
+      campaignId: campaign.campaignId,
+      parentId: null,
+      publishedStatusId: DRAFT,
+      publishedStatus: 'Draft',
+      publishedDate: null,
+      backgroundImageId: null,
+      schemaVersion: 4,
+      layout: name,
+      description: null,
+      backgroundColor: '#000000',
+      createdDt: now(),
+      modifiedDt: now(),
+      status: 1,
+      retired: 0,
+      backgroundzIndex: 0,
+      width: 1920,
+      height: 1080,
+      orientation: 'landscape',
+      displayOrder: null,
+      duration: 10,
+      statusMessage: null,
+      enableStat: 0,
+      autoApplyTransitions: 0,
+      code: null,
+      isLocked: false,
+      regions: [],
+      tags: [],
+      folderId: 1,
+      permissionsFolderId: 1,
+      ...fields,
+    };
+    layout.layout = name;
+    this.layouts.set(layoutId, layout);
+    this.addRegion(layout);
+    const draft = this.checkoutLayout(layout);
+    return { layout, draft };
+  }
+
+  /**
+   * Returns the draft of a parent layout, if any.
+   */
+  findDraft(parentId: number): XiboRecord | undefined {
+    return [...this.layouts.values()].find((l) => l.parentId === parentId);
+  }
+
+  /**
+   * Copies a layout into a new draft with new region, playlist and widget IDs.
+   */
+  checkoutLayout(parent: XiboRecord): XiboRecord {
+    const draftId = this.newId();
+    const draft: XiboRecord = {
+      ...structuredClone({ ...parent, regions: [] }),
+      layoutId: draftId,
+      parentId: parent.layoutId,
+      publishedStatusId: DRAFT,
+      publishedStatus: 'Draft',
+      modifiedDt: now(),
+    };
+    this.layouts.set(draftId, draft);
+    for (const region of parent.regions) {
+      const { regionId, regionPlaylist, layoutId, ...regionFields } = region;
+      const copy = this.addRegion(draft, structuredClone(regionFields));
+      for (const widget of [...(regionPlaylist?.widgets ?? [])].sort((a, b) => a.displayOrder - b.displayOrder)) {
+        const { widgetId, playlistId, widgetOptions, ...widgetFields } = structuredClone(widget);
+        const widgetCopy = this.addWidget(copy.regionPlaylist, widget.type, widgetFields);
+        widgetCopy.widgetOptions = widgetOptions.map((o: XiboRecord) => ({ ...o, widgetId: widgetCopy.widgetId }));
+      }
+    }
+    return draft;
+  }
+
+  /**
+   * Replaces a parent layout with its draft. The draft keeps its ID and the campaign.
+   */
+  publishLayout(parentId: number): XiboRecord | undefined {
+    const parent = this.layouts.get(parentId);
+    const draft = this.findDraft(parentId);
+    if (!parent || !draft) return undefined;
+    this.deleteLayout(parentId);
+    Object.assign(draft, {
+      parentId: null,
+      publishedStatusId: PUBLISHED,
+      publishedStatus: 'Published',
+      publishedDate: now(),
+      modifiedDt: now(),
+    });
+    for (const campaign of this.campaigns.values()) {
+      for (const assigned of campaign.layouts ?? []) {
+        if (assigned.layoutId === parentId) assigned.layoutId = draft.layoutId;
+      }
+    }
+    return draft;
+  }
+
+  deleteLayout(layoutId: number): void {
+    const layout = this.layouts.get(layoutId);
+    if (!layout) return;
+    for (const region of layout.regions) {
+      this.playlists.delete(region.regionPlaylist?.playlistId);
+    }
+    this.layouts.delete(layoutId);
+  }
+
+  findRegion(regionId: number): { layout: XiboRecord; region: XiboRecord } | undefined {
+    for (const layout of this.layouts.values()) {
+      const region = layout.regions.find((r: XiboRecord) => r.regionId === regionId);
+      if (region) return { layout, region };
+    }
+    return undefined;
+  }
+
+  findWidget(widgetId: number): { playlist: XiboRecord; widget: XiboRecord } | undefined {
+    for (const playlist of this.playlists.values()) {
+      const widget = playlist.widgets.find((w: XiboRecord) => w.widgetId === widgetId);
+      if (widget) return { playlist, widget };
+    }
+    return undefined;
+  }
+
+  /**
+   * Layout that owns a playlist through one of its regions, if any.
+   */
+  layoutOfPlaylist(playlistId: number): XiboRecord | undefined {
+    return [...this.layouts.values()].find((l) =>
+      l.regions.some((r: XiboRecord) => r.regionPlaylist?.playlistId === playlistId)
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Library
+  // ---------------------------------------------------------------------------
+
+  addMedia(fields: XiboRecord = {}, content: Buffer = Buffer.alloc(0)): XiboRecord {
+    const mediaId = this.newId();
+    const name = fields.name ?? `Media ${mediaId}`;
+    const media = sampleFromSchema(librarySchema, {
+      mediaId,
+      ownerId: 1,
+      name,
+      mediaType: 'image',
+      duration: 10,
+      fileSize: content.length,
+      storedAs: `${mediaId}.${String(fields.fileName ?? name).split('.').pop() || 'bin'}`,
+      md5: null,
+      createdDt: now(),
+      modifiedDt: now(),
+      folderId: 1,
+      tags: [],
+      ...fields,
+    });
+    delete media.fileName;
+    this.media.set(mediaId, Object.assign(media, { content }));
+    return media;
+  }
+
+  // ---------------------------------------------------------------------------
+  // DataSets
+  // ---------------------------------------------------------------------------
+
+  addDataSet(fields: XiboRecord = {}): XiboRecord {
+    const dataSetId = this.newId();
+    const dataSet = sampleFromSchema(dataSetSchema, {
+      dataSetId,
+      dataSet: `DataSet ${dataSetId}`,
+      userId: 1,
+      folderId: 1,
+      permissionsFolderId: 1,
+      columns: [],
+      ...fields,
+    });
+    this.dataSets.set(dataSetId, dataSet);
+    this.dataSetRows.set(dataSetId, []);
+    return dataSet;
+  }
+
+  addDataSetColumn(dataSet: XiboRecord, fields: XiboRecord = {}): XiboRecord {
+    const dataSetColumnId = this.newId();
+    const column = sampleFromSchema(dataSetColumnSchema, {
+      dataSetColumnId,
+      dataSetId: dataSet.dataSetId,
+      heading: `Column${dataSetColumnId}`,
+      dataTypeId: 1,
+      dataSetColumnTypeId: 1,
+      columnOrder: dataSet.columns.length + 1,
+      dataType: 'String',
+      dataSetColumnType: 'Value',
+      ...fields,
+    });
+    dataSet.columns.push(column);
+    return column;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Menu boards
+  // ---------------------------------------------------------------------------
+
+  addMenuBoard(fields: XiboRecord = {}): XiboRecord {
+    const menuId = this.newId();
+    const menuBoard = sampleFromSchema(menuBoardSchema, {
+      menuId,
+      name: `Menu Board ${menuId}`,
+      userId: 1,
+      modifiedDt: Math.floor(Date.now() / 1000),
+      folderId: 1,
+      permissionsFolderId: 1,
+      groupsWithPermissions: null,
+      ...fields,
+    });
+    this.menuBoards.set(menuId, menuBoard);
+    return menuBoard;
+  }
+
+  addMenuBoardCategory(menuBoard: XiboRecord, fields: XiboRecord = {}): XiboRecord {
+    const menuCategoryId = this.newId();
+    const category = sampleFromSchema(menuBoardCategorySchema, {
+      menuCategoryId,
+      menuId: menuBoard.menuId,
+      name: `Category ${menuCategoryId}`,
+      description: null,
+      code: null,
+      mediaId: null,
+      ...fields,
+    });
+    this.menuCategories.set(menuCategoryId, category);
+    return category;
+  }
+
+  addMenuBoardProduct(category: XiboRecord, fields: XiboRecord = {}): XiboRecord {
+    const menuProductId = this.newId();
+    const product = sampleFromSchema(menuBoardProductSchema, {
+      menuProductId,
+      menuCategoryId: category.menuCategoryId,
+      menuId: category.menuId,
+      name: `Product ${menuProductId}`,
+      price: null,
+      description: null,
+      code: null,
+      displayOrder: 1,
+      availability: 1,
+      allergyInfo: null,
+      calories: null,
+      mediaId: null,
+      productOptions: [],
+      ...fields,
+    });
+    this.menuProducts.set(menuProductId, product);
+    return product;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Schedule
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Display groups of an event, in the shape embedded in schedule responses.
+   */
+  scheduleDisplayGroups(displayGroupIds: number[]): XiboRecord[] {
+    const displayGroupEventSchema = scheduleEventSchema.shape.displayGroups.element;
+    return displayGroupIds
+      .map((id) => this.displayGroups.get(id))
+      .filter((g): g is XiboRecord => Boolean(g))
+      .map((g) => sampleFromSchema(displayGroupEventSchema, {
+        displayGroupId: g.displayGroupId,
+        displayGroup: g.displayGroup,
+        isDisplaySpecific: g.isDisplaySpecific,
+      }));
+  }
+
+  addSchedule(fields: XiboRecord = {}, displayGroupIds: number[] = []): XiboRecord {
+    const eventId = this.newId();
+    const displayGroups = this.scheduleDisplayGroups(displayGroupIds);
+    const campaign = this.campaigns.get(Number(fields.campaignId));
+    const event = sampleFromSchema(scheduleEventSchema, {
+      eventId,
+      eventTypeId: 1,
+      displayGroups,
+      userId: 1,
+      campaign: campaign?.campaign ?? null,
+      createdOn: now(),
+      updatedOn: now(),
+      ...fields,
+    });
+    this.schedules.set(eventId, event);
+    return event;
+  }
+
+  addDayPart(fields: XiboRecord = {}): XiboRecord {
+    const dayPartId = this.newId();
+    const dayPart = sampleFromSchema(dayPartSchema, {
+      dayPartId,
+      name: `Day Part ${dayPartId}`,
+      description: null,
+      isAlways: 0,
+      isCustom: 0,
+      startTime: '00:00:00',
+      endTime: '00:00:00',
+      exceptions: [],
+      ...fields,
+    });
+    this.dayParts.set(dayPartId, dayPart);
+    return dayPart;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Resolutions
+  // ---------------------------------------------------------------------------
+
+  addResolution(fields: XiboRecord = {}): XiboRecord {
+    const resolutionId = this.newId();
+    const width = fields.width ?? 1920;
+    const height = fields.height ?? 1080;
+    const resolution = sampleFromSchema(resolutionSchema, {
+      resolutionId,
+      resolution: `${width}x${height}`,
+      width,
+      height,
+      designerWidth: width,
+      designerHeight: height,
+      version: 2,
+      enabled: 1,
+      userId: 1,
+      ...fields,
+    });
+    this.resolutions.set(resolutionId, resolution);
+    return resolution;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Folders
+  // ---------------------------------------------------------------------------
+
+  addFolder(fields: XiboRecord = {}): XiboRecord {
+    const id = Math.max(...this.folders.keys()) + 1;
+    const folder = { id, type: null, text: `Folder ${id}`, parentId: 1, isRoot: 0, ...fields };
+    this.folders.set(id, folder);
+    return folder;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Notifications
+  // ---------------------------------------------------------------------------
+
+  addNotification(fields: XiboRecord = {}): XiboRecord {
+    const notificationId = this.newId();
+    const notification = sampleFromSchema(notificationSchema, {
+      notificationId,
+      subject: `Notification ${notificationId}`,
+      body: '',
+      createDt: now(),
+      userId: 1,
+      ...fields,
+    });
+    this.notifications.set(notificationId, notification);
+    return notification;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statistics
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Records a proof-of-play stat. Stat IDs count up separately from the entity IDs,
+   * like the CMS stat table.
+   */
+  addStat(fields: XiboRecord = {}): XiboRecord {
+    const stat = { id: this.stats.length + 1, type: 'Layout', numberPlays: 1, duration: 0, ...fields };
+    this.stats.push(stat);
+    return stat;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Seed
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Fills the store with a small, consistent CMS: two displays in a group, a published
+   * layout with an image widget, a campaign, a dataset with rows, a schedule and stats.
+   */
+  seed(): this {
+    const lobby = this.addDisplay({ display: 'Lobby Screen', tags: [{ tagId: 1, tag: 'lobby', value: '' }] });
+    const entrance = this.addDisplay({ display: 'Entrance Screen', loggedIn: 0 });
+    const group = this.addDisplayGroup({ displayGroup: 'All Screens' });
+    this.displayGroupMembers.set(group.displayGroupId, [lobby.displayId, entrance.displayId]);
+
+    const logo = this.addMedia({ name: 'logo.png', mediaType: 'image', fileName: 'logo.png' }, Buffer.from('mock-png'));
+    this.addMedia({ name: 'promo.mp4', mediaType: 'video', duration: 30, fileName: 'promo.mp4' }, Buffer.from('mock-mp4'));
+
+    const { layout } = this.addLayout({ layout: 'Welcome' });
+    const draft = this.findDraft(layout.layoutId)!;
+    this.addWidget(draft.regions[0].regionPlaylist, 'image', { mediaIds: [logo.mediaId] }, { name: 'Logo' });
+    const welcome = this.publishLayout(layout.layoutId)!;
+    lobby.defaultLayoutId = welcome.layoutId;
+    entrance.defaultLayoutId = welcome.layoutId;
+
+    const campaign = this.addCampaign({ campaign: 'Spring Campaign', numberLayouts: 1, layouts: [] });
+    campaign.layouts = [{ layoutId: welcome.layoutId, layout: welcome.layout, displayOrder: 1 }];
+
+    const menu = this.addDataSet({ dataSet: 'Menu', code: 'menu' });
+    this.addDataSetColumn(menu, { heading: 'Item' });
+    this.addDataSetColumn(menu, { heading: 'Price', dataTypeId: 2, dataType: 'Number' });
+    this.dataSetRows.get(menu.dataSetId)!.push({ id: 1, Item: 'Coffee', Price: 3.5 }, { id: 2, Item: 'Tea', Price: 3 });
+
+    this.addDayPart({ name: 'Custom', isCustom: 1, startTime: '', endTime: '' });
+    this.addDayPart({ name: 'Always', isAlways: 1, startTime: '', endTime: '' });
+
+    const start = Math.floor(Date.UTC(2025, 0, 1) / 1000);
+    this.addSchedule({ campaignId: welcome.campaignId, fromDt: start, toDt: start + 86400 * 30 }, [group.displayGroupId, lobby.displayGroupId]);
+
+    for (const display of [lobby, entrance]) {
+      this.addStat({
+        type: 'Layout',
+        display: display.display,
+        displayId: display.displayId,
+        layout: welcome.layout,
+        layoutId: welcome.layoutId,
+        parentCampaign: campaign.campaign,
+        parentCampaignId: campaign.campaignId,
+        numberPlays: 12,
+        duration: 120,
+        start: '2025-01-01 09:00:00',
+        end: '2025-01-01 10:00:00',
+        statDate: '2025-01-01 10:00:00',
+      });
+    }
+    return this;
+  }
+}
@@ -0,0 +1,993 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Mock Xibo CMS Server
+ *
+ * In-process HTTP server that imitates the parts of the Xibo REST API the agent tools use
+ * (authorize, display, layout, region, playlist, widget, library, schedule, daypart, dataset,
+ * menu board, campaign, notification, stats), backed by a `MockXiboState`. Point `CMS_URL` (or a CMS profile) at
+ * `server.url` to run tools and workflows without a real CMS:
+ *
+ * ```ts
+ * const server = await startMockXiboServer();
+ * process.env.CMS_URL = server.url;
+ * // ... run tools ...
+ * await server.close();
+ * ```
+ *
+ * Behaviour follows the real CMS where the tools depend on it: OAuth client credentials,
+ * 401 for missing or revoked tokens, `start`/`length` paging with `X-Total-Count`, form
+ * or multipart bodies with `key[]` arrays, the layout draft/publish model and the
+ * `Location` header of new widgets. Errors use the CMS shape `{ error: { message, code } }`.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { MockXiboState } from './mockState';
+
+type XiboRecord = Record<string, any>;
+
+/**
+ * Options for `startMockXiboServer()`.
+ */
+export interface MockXiboServerOptions {
+  /** Port to listen on. Defaults to a free port. */
+  port?: number;
+  /** Accepted OAuth client ID. Defaults to "mock-client". */
+  clientId?: string;
+  /** Accepted OAuth client secret. Defaults to "mock-secret". */
+  clientSecret?: string;
+  /** Lifetime of issued access tokens in seconds. Defaults to 3600. */
+  tokenTtlSeconds?: number;
+  /** State to serve. Defaults to a new, seeded `MockXiboState`. */
+  state?: MockXiboState;
+}
+
+/**
+ * A request received by the mock server (token requests included).
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: XiboRecord;
+}
+
+/**
+ * A running mock server.
+ */
+export interface MockXiboServer {
+  /** Base URL to use as `CMS_URL`, without the `/api` suffix. */
+  url: string;
+  state: MockXiboState;
+  /** Every request received, oldest first. */
+  requests: MockRequest[];
+  /** Invalidates all issued tokens, e.g. to test the client's 401 refresh. */
+  revokeTokens(): void;
+  close(): Promise<void>;
+}
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: XiboRecord;
+  state: MockXiboState;
+}
+
+interface RouteResult {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+type RouteHandler = (ctx: RouteContext) => RouteResult;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * Error answered with the CMS error shape.
+ */
+class MockHttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+const notFound = (entity: string): never => {
+  throw new MockHttpError(404, `${entity} not found`);
+};
+
+const num = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Reads an array parameter sent as `key[]`, a repeated key, a comma-joined string or a
+ * JSON array string.
+ */
+const numList = (value: unknown): number[] => {
+  if (value === undefined || value === null || value === '') return [];
+  const items = Array.isArray(value) ? value : String(value).replace(/^\[|\]$/g, '').split(',');
+  return items.map(Number).filter(Number.isFinite);
+};
+
+const queryNumList = (query: URLSearchParams, key: string): number[] =>
+  [...query.getAll(key), ...query.getAll(`${key}[]`)].flatMap((value) => numList(value));
+
+const toTimestamp = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (/^\d+$/.test(String(value))) return Number(value);
+  const time = Date.parse(String(value).replace(' ', 'T'));
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+};
+
+/**
+ * Converts parsed form data into a record, collecting `key[]` entries into arrays.
+ */
+function formToRecord(entries: Iterable<[string, FormDataEntryValue | string]>): XiboRecord {
+  const record: XiboRecord = {};
+  for (const [rawKey, value] of entries) {
+    const key = rawKey.endsWith('[]') ? rawKey.slice(0, -2) : rawKey;
+    if (rawKey.endsWith('[]') || record[key] !== undefined) {
+      record[key] = [...(record[key] === undefined ? [] : [record[key]].flat()), value];
+    } else {
+      record[key] = value;
+    }
+  }
+  return record;
+}
+
+/**
+ * Parses a request body. The format is detected from the content because some tools send
+ * form bodies with a JSON Content-Type header.
+ */
+async function parseBody(raw: Buffer, contentType = ''): Promise<XiboRecord> {
+  if (raw.length === 0) return {};
+  const text = raw.toString('utf-8');
+  const boundary = contentType.match(/boundary=([^;]+)/)?.[1] ?? text.match(/^--([^\r\n]+)\r?\n/)?.[1];
+  if (boundary && text.startsWith(`--${boundary}`)) {
+    const request = new Request('http://mock/', {
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+      body: raw,
+    });
+    const form = await request.formData();
+    const record = formToRecord(form.entries());
+    for (const [key, value] of Object.entries(record)) {
+      const files = [value].flat().filter((item): item is File => item instanceof File);
+      if (files.length) {
+        record[key] = await Promise.all(files.map(async (file) => ({ name: file.name, content: Buffer.from(await file.arrayBuffer()) })));
+      }
+    }
+    return record;
+  }
+  if (/^\s*[[{]/.test(text)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Not JSON; fall through to form parsing.
+    }
+  }
+  return formToRecord(new URLSearchParams(text).entries());
+}
+
+/**
+ * Applies `start`/`length` paging and sets `X-Total-Count`, like CMS list endpoints.
+ */
+function page(query: URLSearchParams, items: unknown[]): RouteResult {
+  const start = num(query.get('start')) ?? 0;
+  const length = num(query.get('length'));
+  const slice = length === undefined ? items.slice(start) : items.slice(start, start + length);
+  return { body: slice, headers: { 'X-Total-Count': String(items.length) } };
+}
+
+/**
+ * Applies form fields to a record, keeping the type of existing numeric fields.
+ */
+function applyFields(target: XiboRecord, fields: XiboRecord, mapping: Record<string, string> = {}): void {
+  for (const [key, value] of Object.entries(fields)) {
+    const field = mapping[key] ?? key;
+    if (!(field in target) || Array.isArray(target[field]) || typeof value === 'object') continue;
+    target[field] = typeof target[field] === 'number' ? num(value) ?? target[field] : value;
+  }
+  if ('modifiedDt' in target) target.modifiedDt = new Date().toISOString().replace('T', ' ').slice(0, 19);
+}
+
+const strip = ({ content, ...record }: XiboRecord) => record;
+
+/** Tags of a comma separated `tag|value` list, as sent by the media forms. */
+const parseMediaTags = (state: MockXiboState, tags: unknown): XiboRecord[] =>
+  String(tags ?? '').split(',').filter(Boolean).map((tag) => {
+    const [name, ...value] = tag.split('|');
+    return { tagId: state.newId(), tag: name, value: value.length ? value.join('|') : null };
+  });
+
+/**
+ * Product fields of a menu board product form. Like the CMS, the edit form replaces every field.
+ */
+const productFields = (body: XiboRecord): XiboRecord => ({
+  name: body.name,
+  displayOrder: num(body.displayOrder) ?? 1,
+  description: body.description ?? null,
+  price: num(body.price) ?? null,
+  allergyInfo: body.allergyInfo ?? null,
+  calories: num(body.calories) ?? null,
+  availability: num(body.availability) ?? 0,
+  mediaId: num(body.mediaId) ?? null,
+  code: body.code ?? null,
+});
+
+function requireEditableLayout(layout: XiboRecord | undefined): XiboRecord {
+  if (!layout) return notFound('Layout');
+  if (layout.publishedStatusId !== 2) {
+    throw new MockHttpError(422, 'Layout is not a draft, please checkout the layout first');
+  }
+  return layout;
+}
+
+function editablePlaylist(state: MockXiboState, playlistId: number): XiboRecord {
+  const playlist = state.playlists.get(playlistId) ?? notFound('Playlist');
+  const layout = state.layoutOfPlaylist(playlistId);
+  if (layout) requireEditableLayout(layout);
+  return playlist;
+}
+
+function route(method: string, path: string, handler: RouteHandler): Route {
+  const keys: string[] = [];
+  const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_, key) => {
+    keys.push(key);
+    return '([^/]+)';
+  })}/?$`);
+  return { method, pattern, keys, handler };
+}
+
+const routes: Route[] = [
+  // ---------------------------------------------------------------------------
+  // Misc
+  // ---------------------------------------------------------------------------
+  route('GET', '/about', () => ({ body: { version: '4.0.0-mock', sourceUrl: null } })),
+  route('GET', '/clock', () => ({ body: { time: new Date().toISOString().replace('T', ' ').slice(0, 19) } })),
+  route('GET', '/folders', ({ query, state }) => {
+    const folderId = num(query.get('folderId'));
+    const name = query.get('folderName');
+    const items = [...state.folders.values()]
+      .filter((f) => (folderId === undefined || f.id === folderId) && (!name || String(f.text).includes(name)))
+      .map((f) => ({
+        ...f,
+        folderId: f.id,
+        folderName: f.text,
+        children: [...state.folders.values()].filter((c) => c.parentId === f.id).map((c) => c.id).join(','),
+      }));
+    return page(query, items);
+  }),
+  route('POST', '/folders', ({ body, state }) => {
+    if (!body.text) throw new MockHttpError(422, 'Folder name is required');
+    const parentId = num(body.parentId) ?? 1;
+    if (!state.folders.has(parentId)) notFound('Folder');
+    const folder = state.addFolder({ text: body.text, parentId });
+    return { status: 201, body: [{ ...folder, children: '' }] };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // Display and display group
+  // ---------------------------------------------------------------------------
+  route('GET', '/display', ({ query, state }) => {
+    const displayId = num(query.get('displayId'));
+    const displayGroupId = num(query.get('displayGroupId'));
+    const name = query.get('display');
+    const items = [...state.displays.values()].filter((d) =>
+      (displayId === undefined || d.displayId === displayId) &&
+      (displayGroupId === undefined || d.displayGroupId === displayGroupId ||
+        Boolean(state.displayGroupMembers.get(displayGroupId)?.includes(d.displayId))) &&
+      (!name || String(d.display).includes(name))
+    );
+    return page(query, items);
+  }),
+  route('PUT', '/display/:id', ({ params, body, state }) => {
+    const display = state.displays.get(Number(params.id)) ?? notFound('Display');
+    applyFields(display, body);
+    return { body: display };
+  }),
+  route('DELETE', '/display/:id', ({ params, state }) => {
+    const display = state.displays.get(Number(params.id)) ?? notFound('Display');
+    state.displays.delete(display.displayId);
+    state.displayGroups.delete(display.displayGroupId);
+    return { status: 204 };
+  }),
+  route('PUT', '/display/authorise/:id', ({ params, state }) => {
+    const display = state.displays.get(Number(params.id)) ?? notFound('Display');
+    display.licensed = display.licensed ? 0 : 1;
+    return { status: 204 };
+  }),
+  route('GET', '/displaygroup', ({ query, state }) => {
+    const displayGroupId = num(query.get('displayGroupId'));
+    const display = state.displays.get(num(query.get('displayId')) ?? NaN);
+    if (query.get('displayId') && !display) return page(query, []);
+    const items = [...state.displayGroups.values()].filter((g) =>
+      (displayGroupId === undefined || g.displayGroupId === displayGroupId) &&
+      (!display || g.displayGroupId === display.displayGroupId ||
+        Boolean(state.displayGroupMembers.get(g.displayGroupId)?.includes(display.displayId))) &&
+      (query.get('isDisplaySpecific') === null || g.isDisplaySpecific === num(query.get('isDisplaySpecific')))
+    );
+    return page(query, items);
+  }),
+  route('POST', '/displaygroup/:id/action/triggerWebhook', ({ params, body, state }) => {
+    const group = state.displayGroups.get(Number(params.id)) ?? notFound('Display Group');
+    if (!body.triggerCode) throw new MockHttpError(422, 'Please provide a trigger code');
+    state.webhookTriggers.push({ displayGroupId: group.displayGroupId, triggerCode: String(body.triggerCode) });
+    return { status: 204 };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // Layout
+  // ---------------------------------------------------------------------------
+  route('GET', '/layout', ({ query, state }) => {
+    const layoutIds = numList(query.get('layoutId'));
+    const parentId = num(query.get('parentId'));
+    const campaignId = num(query.get('campaignId'));
+    const regionId = num(query.get('regionId'));
+    const playlistId = num(query.get('playlistId'));
+    const publishedStatusId = num(query.get('publishedStatusId'));
+    const showDrafts = query.get('showDrafts') === '1';
+    const name = query.get('layout');
+    const items = [...state.layouts.values()].filter((l) =>
+      (!layoutIds.length || layoutIds.includes(l.layoutId)) &&
+      (parentId === undefined || l.parentId === parentId) &&
+      (campaignId === undefined || l.campaignId === campaignId || state.campaignLayoutIds(campaignId).includes(l.layoutId)) &&
+      (regionId === undefined || l.regions.some((r: XiboRecord) => r.regionId === regionId)) &&
+      (playlistId === undefined || l.regions.some((r: XiboRecord) => r.regionPlaylist?.playlistId === playlistId)) &&
+      (publishedStatusId === undefined || l.publishedStatusId === publishedStatusId) &&
+      (showDrafts || layoutIds.length > 0 || parentId !== undefined || !l.parentId) &&
+      (!name || String(l.layout).includes(name))
+    );
+    return page(query, items);
+  }),
+  route('POST', '/layout', ({ body, state }) => {
+    if (!body.name) throw new MockHttpError(422, 'Layout name is required');
+    const { layout, draft } = state.addLayout({
+      layout: body.name,
+      description: body.description ?? null,
+      code: body.code ?? null,
+      folderId: num(body.folderId) ?? 1,
+    });
+    return { status: 201, body: body.returnDraft === 'true' || body.returnDraft === '1' ? draft : layout };
+  }),
+  route('PUT', '/layout/checkout/:id', ({ params, state }) => {
+    const layout = state.layouts.get(Number(params.id)) ?? notFound('Layout');
+    if (layout.parentId || state.findDraft(layout.layoutId)) {
+      throw new MockHttpError(422, 'Layout is already checked out');
+    }
+    return { body: state.checkoutLayout(layout) };
+  }),
+  route('PUT', '/layout/publish/:id', ({ params, state }) => {
+    const published = state.publishLayout(Number(params.id));
+    if (!published) throw new MockHttpError(422, 'Layout has no draft to publish');
+    return { body: published };
+  }),
+  route('PUT', '/layout/discard/:id', ({ params, state }) => {
+    const draft = state.findDraft(Number(params.id));
+    if (!draft) throw new MockHttpError(422, 'Layout has no draft to discard');
+    state.deleteLayout(draft.layoutId);
+    return { body: state.layouts.get(Number(params.id)) };
+  }),
+  route('PUT', '/layout/background/:id', ({ params, body, state }) => {
+    const layout = requireEditableLayout(state.layouts.get(Number(params.id)));
+    applyFields(layout, body);
+    layout.backgroundImageId = num(body.backgroundImageId) ?? null;
+    return { body: layout };
+  }),
+  route('GET', '/layout/status/:id', ({ params, state }) => ({
+    body: state.layouts.get(Number(params.id)) ?? notFound('Layout'),
+  })),
+  route('PUT', '/layout/:id', ({ params, body, state }) => {
+    const layout = state.layouts.get(Number(params.id)) ?? notFound('Layout');
+    applyFields(layout, body, { name: 'layout' });
+    return { body: layout };
+  }),
+  route('DELETE', '/layout/:id', ({ params, state }) => {
+    const layout = state.layouts.get(Number(params.id)) ?? notFound('Layout');
+    const draft = state.findDraft(layout.layoutId);
+    if (draft) state.deleteLayout(draft.layoutId);
+    state.deleteLayout(layout.layoutId);
+    return { status: 204 };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // Region
+  // ---------------------------------------------------------------------------
+  route('POST', '/region/:layoutId', ({ params, body, state }) => {
+    const layout = requireEditableLayout(state.layouts.get(Number(params.layoutId)));
+    const region = state.addRegion(layout, {
+      type: body.type ?? 'playlist',
+      width: num(body.width) ?? layout.width,
+      height: num(body.height) ?? layout.height,
+      top: num(body.top) ?? 0,
+      left: num(body.left) ?? 0,
+    });
+    return { status: 201, body: region };
+  }),
+  route('PUT', '/region/:id', ({ params, body, state }) => {
+    const found = state.findRegion(Number(params.id)) ?? notFound('Region');
+    requireEditableLayout(found.layout);
+    applyFields(found.region, body);
+    return { body: found.region };
+  }),
+  route('DELETE', '/region/:id', ({ params, state }) => {
+    const found = state.findRegion(Number(params.id)) ?? notFound('Region');
+    requireEditableLayout(found.layout);
+    found.layout.regions = found.layout.regions.filter((r: XiboRecord) => r !== found.region);
+    state.playlists.delete(found.region.regionPlaylist?.playlistId);
+    return { status: 204 };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // Playlist and widget
+  // ---------------------------------------------------------------------------
+  route('GET', '/playlist', ({ query, state }) => {
+    const playlistId = num(query.get('playlistId'));
+    const embedWidgets = (query.get('embed') ?? '').includes('widgets');
+    const items = [...state.playlists.values()]
+      .filter((p) => (playlistId === undefined || p.playlistId === playlistId) && (playlistId !== undefined || !p.regionId))
+      .map((p) => (embedWidgets ? p : { ...p, widgets: [] }));
+    return page(query, items);
+  }),
+  route('POST', '/playlist', ({ body, state }) => {
+    if (!body.name) throw new MockHttpError(422, 'Playlist name is required');
+    return { status: 201, body: state.addPlaylist({ name: body.name }) };
+  }),
+  route('POST', '/playlist/order/:id', ({ params, body, state }) => {
+    const playlist = editablePlaylist(state, Number(params.id));
+    for (const [key, value] of Object.entries(body)) {
+      const widgetId = Number(key.match(/^widgets\[(\d+)\]$/)?.[1]);
+      const widget = playlist.widgets.find((w: XiboRecord) => w.widgetId === widgetId);
+      if (widget) widget.displayOrder = Number(value);
+    }
+    playlist.widgets.sort((a: XiboRecord, b: XiboRecord) => a.displayOrder - b.displayOrder);
+    return { body: playlist };
+  }),
+  route('POST', '/playlist/library/assign/:id', ({ params, body, state }) => {
+    const playlist = editablePlaylist(state, Number(params.id));
+    for (const mediaId of numList(body.media)) {
+      const media = state.media.get(mediaId) ?? notFound('Media');
+      state.addWidget(playlist, media.mediaType, {
+        mediaIds: [mediaId],
+        duration: num(body.duration) ?? media.duration,
+        useDuration: num(body.useDuration) ?? 0,
+      }, { name: media.name });
+    }
+    return { body: playlist };
+  }),
+  route('GET', '/playlist/widget', ({ query, state }) => {
+    const widgetId = num(query.get('widgetId'));
+    const playlistId = num(query.get('playlistId'));
+    const items = [...state.playlists.values()]
+      .filter((p) => playlistId === undefined || p.playlistId === playlistId)
+      .flatMap((p) => p.widgets)
+      .filter((w: XiboRecord) => widgetId === undefined || w.widgetId === widgetId);
+    return page(query, items);
+  }),
+  route('POST', '/playlist/widget/:type/:playlistId', ({ params, body, state }) => {
+    const playlist = editablePlaylist(state, Number(params.playlistId));
+    const widget = state.addWidget(playlist, params.type, {}, body.templateId ? { templateId: body.templateId } : {});
+    const displayOrder = num(body.displayOrder);
+    if (displayOrder !== undefined) widget.displayOrder = displayOrder;
+    return { status: 201, body: widget, headers: { Location: `/playlist/widget/${widget.widgetId}` } };
+  }),
+  route('PUT', '/playlist/widget/:id', ({ params, body, state }) => {
+    const found = state.findWidget(Number(params.id)) ?? notFound('Widget');
+    editablePlaylist(state, found.playlist.playlistId);
+    const { duration, useDuration, ...options } = body;
+    if (num(duration) !== undefined) found.widget.duration = found.widget.calculatedDuration = num(duration);
+    if (num(useDuration) !== undefined) found.widget.useDuration = num(useDuration);
+    state.setWidgetOptions(found.widget, options);
+    found.widget.modifiedDt = new Date().toISOString().replace('T', ' ').slice(0, 19);
+    return { body: found.widget };
+  }),
+  route('DELETE', '/playlist/widget/:id', ({ params, state }) => {
+    const found = state.findWidget(Number(params.id)) ?? notFound('Widget');
+    editablePlaylist(state, found.playlist.playlistId);
+    found.playlist.widgets = found.playlist.widgets.filter((w: XiboRecord) => w !== found.widget);
+    return { status: 204 };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // Library
+  // ---------------------------------------------------------------------------
+  route('GET', '/library', ({ query, state }) => {
+    const mediaId = num(query.get('mediaId'));
+    const name = query.get('media');
+    const type = query.get('type');
+    const items = [...state.media.values()]
+      .filter((m) =>
+        (mediaId === undefined || m.mediaId === mediaId) &&
+        (!name || String(m.name).includes(name)) &&
+        (!type || m.mediaType === type)
+      )
+      .map(strip);
+    return page(query, items);
+  }),
+  route('POST', '/library', ({ body, state }) => {
+    const uploads: { name: string; content: Buffer }[] = [body.files ?? []].flat().filter((file) => file?.content);
+    if (!uploads.length) throw new MockHttpError(422, 'No file uploaded');
+    const files = uploads.map((file) => {
+      const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+      const mediaType = ['mp4', 'webm', 'mov'].includes(extension) ? 'video'
+        : ['mp3', 'wav', 'ogg'].includes(extension) ? 'audio'
+        : ['pdf'].includes(extension) ? 'pdf'
+        : 'image';
+      // Like the CMS, names are unique among the media of a user.
+      if ([...state.media.values()].some((m) => m.name === (body.name || file.name))) {
+        return { name: body.name || file.name, size: file.content.length, type: mediaType, error: 'Media you own already has this name. Please choose another.' };
+      }
+      const media = state.addMedia({
+        name: body.name || file.name,
+        fileName: file.name,
+        mediaType,
+        md5: crypto.createHash('md5').update(file.content).digest('hex'),
+        folderId: num(body.folderId) ?? 1,
+        tags: parseMediaTags(state, body.tags),
+      }, file.content);
+      return {
+        name: media.name,
+        size: file.content.length,
+        type: mediaType,
+        mediaId: media.mediaId,
+        storedas: media.storedAs,
+        duration: media.duration,
+        retired: media.retired,
+        fileSize: media.fileSize,
+        md5: media.md5,
+        mediaType,
+        fileName: file.name,
+      };
+    });
+    return { body: { files } };
+  }),
+  route('GET', '/library/download/:id', ({ params, state }) => {
+    const media = state.media.get(Number(params.id)) ?? notFound('Media');
+    return { body: media.content ?? Buffer.alloc(0), headers: { 'Content-Type': 'application/octet-stream' } };
+  }),
+  route('GET', '/library/thumbnail/:id', ({ params, state }) => {
+    const media = state.media.get(Number(params.id)) ?? notFound('Media');
+    return { body: media.content ?? Buffer.alloc(0), headers: { 'Content-Type': 'image/png' } };
+  }),
+  route('POST', '/library/:id/tag', ({ params, body, state }) => {
+    const media = state.media.get(Number(params.id)) ?? notFound('Media');
+    for (const tag of [body.tag ?? []].flat().map(String)) {
+      const [name, ...value] = tag.split('|');
+      if (!media.tags.some((t: XiboRecord) => t.tag === name)) {
+        media.tags.push({ tagId: state.newId(), tag: name, value: value.length ? value.join('|') : null });
+      }
+    }
+    return { body: strip(media) };
+  }),
+  route('PUT', '/library/:id/selectfolder', ({ params, body, state }) => {
+    const media = state.media.get(Number(params.id)) ?? notFound('Media');
+    media.folderId = num(body.folderId) ?? media.folderId;
+    return { status: 204 };
+  }),
+  route('PUT', '/library/:id', ({ params, body, state }) => {
+    const media = state.media.get(Number(params.id)) ?? notFound('Media');
+    applyFields(media, body);
+    // The edit form replaces all tags with its comma separated list.
+    if (body.tags !== undefined) media.tags = parseMediaTags(state, body.tags);
+    return { body: strip(media) };
+  }),
+  route('DELETE', '/library/:id', ({ params, state }) => {
+    const media = state.media.get(Number(params.id)) ?? notFound('Media');
+    state.media.delete(media.mediaId);
+    return { status: 204 };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // Schedule
+  // ---------------------------------------------------------------------------
+  route('GET', '/schedule', ({ query, state }) => {
+    const displayGroupIds = queryNumList(query, 'displayGroupIds');
+    const campaignId = num(query.get('campaignId'));
+    const eventTypeId = num(query.get('eventTypeId'));
+    const from = toTimestamp(query.get('fromDt'));
+    const to = toTimestamp(query.get('toDt'));
+    const items = [...state.schedules.values()].filter((e) =>
+      (!displayGroupIds.length || e.displayGroups.some((g: XiboRecord) => displayGroupIds.includes(g.displayGroupId))) &&
+      (campaignId === undefined || e.campaignId === campaignId) &&
+      (eventTypeId === undefined || e.eventTypeId === eventTypeId) &&
+      (from === undefined || e.toDt >= from) &&
+      (to === undefined || e.fromDt <= to)
+    );
+    return page(query, items);
+  }),
+  route('POST', '/schedule', ({ body, state }) => {
+    const displayGroupIds = numList(body.displayGroupIds);
+    if (!displayGroupIds.length) throw new MockHttpError(422, 'Please select one or more displays');
+    const unknown = displayGroupIds.find((id) => !state.displayGroups.has(id));
+    if (unknown !== undefined) throw new MockHttpError(404, `Display Group ${unknown} not found`);
+    const event = state.addSchedule({
+      eventTypeId: num(body.eventTypeId) ?? 1,
+      campaignId: num(body.campaignId) ?? 0,
+      fromDt: toTimestamp(body.fromDt) ?? 0,
+      toDt: toTimestamp(body.toDt) ?? 0,
+      isPriority: num(body.isPriority) ?? 0,
+      displayOrder: num(body.displayOrder) ?? 0,
+      dayPartId: num(body.dayPartId ?? body.daypartId) ?? null,
+      recurrenceType: body.recurrenceType ?? null,
+      recurrenceDetail: num(body.recurrenceDetail) ?? null,
+      recurrenceRange: toTimestamp(body.recurrenceRange) ?? null,
+      recurrenceRepeatsOn: numList(body.recurrenceRepeatsOn).join(',') || null,
+      name: body.name ?? null,
+    }, displayGroupIds);
+    return { status: 201, body: event };
+  }),
+  route('PUT', '/schedule/:id', ({ params, body, state }) => {
+    const event = state.schedules.get(Number(params.id)) ?? notFound('Event');
+    const { fromDt, toDt, displayGroupIds, ...fields } = body;
+    applyFields(event, fields);
+    if (fromDt !== undefined) event.fromDt = toTimestamp(fromDt) ?? event.fromDt;
+    if (toDt !== undefined) event.toDt = toTimestamp(toDt) ?? event.toDt;
+    if (displayGroupIds !== undefined) {
+      event.displayGroups = state.scheduleDisplayGroups(numList(displayGroupIds));
+    }
+    return { body: event };
+  }),
+  route('DELETE', '/schedule/:id', ({ params, state }) => {
+    if (!state.schedules.delete(Number(params.id))) notFound('Event');
+    return { status: 204 };
+  }),
+
+  route('GET', '/daypart', ({ query, state }) => page(query, [...state.dayParts.values()])),
+
+  route('GET', '/resolution', ({ query, state }) => {
+    const resolutionId = num(query.get('resolutionId'));
+    const width = num(query.get('width'));
+    const height = num(query.get('height'));
+    return page(query, [...state.resolutions.values()].filter((r) =>
+      (resolutionId === undefined || r.resolutionId === resolutionId) &&
+      (width === undefined || r.width === width) &&
+      (height === undefined || r.height === height)));
+  }),
+
+  // ---------------------------------------------------------------------------
+  // DataSet
+  // ---------------------------------------------------------------------------
+  route('GET', '/dataset', ({ query, state }) => {
+    const dataSetId = num(query.get('dataSetId'));
+    const name = query.get('dataSet');
+    const code = query.get('code');
+    const items = [...state.dataSets.values()].filter((d) =>
+      (dataSetId === undefined || d.dataSetId === dataSetId) &&
+      (!name || String(d.dataSet).includes(name)) &&
+      (!code || d.code === code)
+    );
+    return page(query, items);
+  }),
+  route('POST', '/dataset', ({ body, state }) => {
+    if (!body.dataSet) throw new MockHttpError(422, 'DataSet name is required');
+    const dataSet = state.addDataSet({ dataSet: body.dataSet, description: body.description ?? null, code: body.code ?? null });
+    return { status: 201, body: dataSet };
+  }),
+  route('PUT', '/dataset/:id', ({ params, body, state }) => {
+    const dataSet = state.dataSets.get(Number(params.id)) ?? notFound('DataSet');
+    applyFields(dataSet, body);
+    return { body: dataSet };
+  }),
+  route('DELETE', '/dataset/:id', ({ params, state }) => {
+    if (!state.dataSets.delete(Number(params.id))) notFound('DataSet');
+    state.dataSetRows.delete(Number(params.id));
+    return { status: 204 };
+  }),
+  route('GET', '/dataset/:id/column', ({ params, query, state }) => {
+    const dataSet = state.dataSets.get(Number(params.id)) ?? notFound('DataSet');
+    return page(query, dataSet.columns);
+  }),
+  route('POST', '/dataset/:id/column', ({ params, body, state }) => {
+    const dataSet = state.dataSets.get(Number(params.id)) ?? notFound('DataSet');
+    if (!body.heading) throw new MockHttpError(422, 'Column heading is required');
+    const column = state.addDataSetColumn(dataSet, {
+      heading: body.heading,
+      dataTypeId: num(body.dataTypeId) ?? 1,
+      dataSetColumnTypeId: num(body.dataSetColumnTypeId) ?? 1,
+      ...(num(body.columnOrder) !== undefined ? { columnOrder: num(body.columnOrder) } : {}),
+    });
+    return { status: 201, body: column };
+  }),
+  route('PUT', '/dataset/:id/column/:columnId', ({ params, body, state }) => {
+    const dataSet = state.dataSets.get(Number(params.id)) ?? notFound('DataSet');
+    const column = dataSet.columns.find((c: XiboRecord) => c.dataSetColumnId === Number(params.columnId)) ?? notFound('Column');
+    applyFields(column, body);
+    return { body: column };
+  }),
+  route('DELETE', '/dataset/:id/column/:columnId', ({ params, state }) => {
+    const dataSet = state.dataSets.get(Number(params.id)) ?? notFound('DataSet');
+    dataSet.columns = dataSet.columns.filter((c: XiboRecord) => c.dataSetColumnId !== Number(params.columnId));
+    return { status: 204 };
+  }),
+  route('GET', '/dataset/data/:id', ({ params, query, state }) => {
+    const rows = state.dataSetRows.get(Number(params.id)) ?? notFound('DataSet');
+    return page(query, rows);
+  }),
+  route('POST', '/dataset/data/:id', ({ params, body, state }) => {
+    const dataSet = state.dataSets.get(Number(params.id)) ?? notFound('DataSet');
+    const rows = state.dataSetRows.get(dataSet.dataSetId)!;
+    const row: XiboRecord = { id: rows.reduce((max, r) => Math.max(max, r.id), 0) + 1 };
+    for (const column of dataSet.columns) {
+      const value = body[`dataSetColumnId_${column.dataSetColumnId}`];
+      row[column.heading] = value === undefined ? null : column.dataTypeId === 2 ? num(value) ?? null : value;
+    }
+    rows.push(row);
+    return { status: 201, body: row };
+  }),
+  route('PUT', '/dataset/data/:id/:rowId', ({ params, body, state }) => {
+    const dataSet = state.dataSets.get(Number(params.id)) ?? notFound('DataSet');
+    const row = state.dataSetRows.get(dataSet.dataSetId)!.find((r) => r.id === Number(params.rowId)) ?? notFound('Row');
+    for (const column of dataSet.columns) {
+      const value = body[`dataSetColumnId_${column.dataSetColumnId}`];
+      if (value !== undefined) row[column.heading] = column.dataTypeId === 2 ? num(value) ?? null : value;
+    }
+    return { body: row };
+  }),
+  route('DELETE', '/dataset/data/:id/:rowId', ({ params, state }) => {
+    const rows = state.dataSetRows.get(Number(params.id)) ?? notFound('DataSet');
+    const index = rows.findIndex((r) => r.id === Number(params.rowId));
+    if (index < 0) notFound('Row');
+    rows.splice(index, 1);
+    return { status: 204 };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // Menu board
+  // ---------------------------------------------------------------------------
+  route('GET', '/menuboards', ({ query, state }) => {
+    const menuId = num(query.get('menuId'));
+    const name = query.get('name');
+    const items = [...state.menuBoards.values()].filter((m) =>
+      (menuId === undefined || m.menuId === menuId) &&
+      (!name || String(m.name).includes(name))
+    );
+    return page(query, items);
+  }),
+  route('GET', '/menuboard/products', ({ query, state }) => {
+    const menuCategoryId = num(query.get('menuCategoryId'));
+    const items = [...state.menuProducts.values()]
+      .filter((p) => menuCategoryId === undefined || p.menuCategoryId === menuCategoryId)
+      .sort((a, b) => a.displayOrder - b.displayOrder);
+    return page(query, items);
+  }),
+  route('GET', '/menuboard/:id/categories', ({ params, query, state }) => {
+    const menuBoard = state.menuBoards.get(Number(params.id)) ?? notFound('Menu Board');
+    return page(query, [...state.menuCategories.values()].filter((c) => c.menuId === menuBoard.menuId));
+  }),
+  route('POST', '/menuboard/:id/category', ({ params, body, state }) => {
+    const menuBoard = state.menuBoards.get(Number(params.id)) ?? notFound('Menu Board');
+    if (!body.name) throw new MockHttpError(422, 'Name is required');
+    const category = state.addMenuBoardCategory(menuBoard, {
+      name: body.name,
+      description: body.description ?? null,
+      code: body.code ?? null,
+      mediaId: num(body.mediaId) ?? null,
+    });
+    return { status: 201, body: category };
+  }),
+  route('PUT', '/menuboard/category/:id', ({ params, body, state }) => {
+    const category = state.menuCategories.get(Number(params.id)) ?? notFound('Menu Board Category');
+    if (!body.name) throw new MockHttpError(422, 'Name is required');
+    Object.assign(category, {
+      name: body.name,
+      description: body.description ?? null,
+      code: body.code ?? null,
+      mediaId: num(body.mediaId) ?? null,
+    });
+    return { body: category };
+  }),
+  route('DELETE', '/menuboard/category/:id', ({ params, state }) => {
+    if (!state.menuCategories.delete(Number(params.id))) notFound('Menu Board Category');
+    for (const product of state.menuProducts.values()) {
+      if (product.menuCategoryId === Number(params.id)) state.menuProducts.delete(product.menuProductId);
+    }
+    return { status: 204 };
+  }),
+  route('POST', '/menuboard/:id/product', ({ params, body, state }) => {
+    const category = state.menuCategories.get(Number(params.id)) ?? notFound('Menu Board Category');
+    if (!body.name) throw new MockHttpError(422, 'Name is required');
+    const product = state.addMenuBoardProduct(category, productFields(body));
+    return { status: 201, body: product };
+  }),
+  route('PUT', '/menuboard/product/:id', ({ params, body, state }) => {
+    const product = state.menuProducts.get(Number(params.id)) ?? notFound('Menu Board Product');
+    if (!body.name) throw new MockHttpError(422, 'Name is required');
+    Object.assign(product, productFields(body));
+    return { body: product };
+  }),
+  route('DELETE', '/menuboard/product/:id', ({ params, state }) => {
+    if (!state.menuProducts.delete(Number(params.id))) notFound('Menu Board Product');
+    return { status: 204 };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // Campaign
+  // ---------------------------------------------------------------------------
+  route('GET', '/campaign', ({ query, state }) => {
+    const campaignId = num(query.get('campaignId'));
+    const name = query.get('name');
+    const isLayoutSpecific = num(query.get('isLayoutSpecific')) ?? 0;
+    const items = [...state.campaigns.values()].filter((c) =>
+      (campaignId === undefined || c.campaignId === campaignId) &&
+      (campaignId !== undefined || (c.isLayoutSpecific ?? 0) === isLayoutSpecific) &&
+      (!name || String(c.campaign).includes(name))
+    );
+    return page(query, items);
+  }),
+  route('POST', '/campaign', ({ body, state }) => {
+    if (!body.name) throw new MockHttpError(422, 'Campaign name is required');
+    const campaign = state.addCampaign({ campaign: body.name, type: body.type ?? 'list', layouts: [] });
+    for (const layoutId of numList(body.layoutIds)) {
+      const layout = state.layouts.get(layoutId) ?? notFound('Layout');
+      campaign.layouts.push({ layoutId, layout: layout.layout, displayOrder: campaign.layouts.length + 1 });
+    }
+    campaign.numberLayouts = campaign.layouts.length;
+    return { status: 201, body: campaign };
+  }),
+  route('POST', '/campaign/layout/assign/:id', ({ params, body, state }) => {
+    const campaign = state.campaigns.get(Number(params.id)) ?? notFound('Campaign');
+    campaign.layouts ??= [];
+    for (const layoutId of numList(body.layoutId)) {
+      const layout = state.layouts.get(layoutId) ?? notFound('Layout');
+      campaign.layouts.push({ layoutId, layout: layout.layout, displayOrder: campaign.layouts.length + 1 });
+    }
+    campaign.numberLayouts = campaign.layouts.length;
+    return { status: 204 };
+  }),
+  route('PUT', '/campaign/:id', ({ params, body, state }) => {
+    const campaign = state.campaigns.get(Number(params.id)) ?? notFound('Campaign');
+    applyFields(campaign, body, { name: 'campaign' });
+    return { body: campaign };
+  }),
+  route('DELETE', '/campaign/:id', ({ params, state }) => {
+    if (!state.campaigns.delete(Number(params.id))) notFound('Campaign');
+    return { status: 204 };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // Notification
+  // ---------------------------------------------------------------------------
+  route('GET', '/notification', ({ query, state }) => page(query, [...state.notifications.values()])),
+  route('POST', '/notification', ({ body, state }) => {
+    if (!body.subject) throw new MockHttpError(422, 'Notification subject is required');
+    const notification = state.addNotification({
+      subject: body.subject,
+      body: body.body ?? '',
+      releaseDt: body.releaseDt,
+      isInterrupt: num(body.isInterrupt) ?? 0,
+      displayGroupIds: numList(body.displayGroupIds),
+    });
+    return { status: 201, body: notification };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // Statistics
+  // ---------------------------------------------------------------------------
+  route('GET', '/stats', ({ query, state }) => {
+    const type = query.get('type');
+    const displayIds = [...queryNumList(query, 'displayId'), ...queryNumList(query, 'displayIds')];
+    const layoutIds = queryNumList(query, 'layoutId');
+    const mediaIds = queryNumList(query, 'mediaId');
+    const parentCampaignIds = queryNumList(query, 'parentCampaignId');
+    const statId = num(query.get('statId'));
+    const embed = (query.get('embed') ?? '').split(',');
+    const from = query.get('fromDt');
+    const to = query.get('toDt');
+    const items = state.stats.filter((s) =>
+      (!type || s.type === type) &&
+      (!displayIds.length || displayIds.includes(s.displayId)) &&
+      (!layoutIds.length || layoutIds.includes(s.layoutId)) &&
+      (!mediaIds.length || mediaIds.includes(s.mediaId)) &&
+      (!parentCampaignIds.length || parentCampaignIds.includes(s.parentCampaignId)) &&
+      (statId === undefined || s.id > statId) &&
+      (!from || s.end >= from) &&
+      (!to || s.start <= to)
+    ).map((s) => embed.includes('layoutTags') && s.layoutId
+      ? { ...s, layoutTags: state.layouts.get(s.layoutId)?.tags ?? [] }
+      : s);
+    return page(query, items);
+  }),
+];
+
+/**
+ * Starts the mock CMS server.
+ */
+export async function startMockXiboServer(options: MockXiboServerOptions = {}): Promise<MockXiboServer> {
+  const clientId = options.clientId ?? 'mock-client';
+  const clientSecret = options.clientSecret ?? 'mock-secret';
+  const tokenTtlSeconds = options.tokenTtlSeconds ?? 3600;
+  const state = options.state ?? new MockXiboState().seed();
+  const tokens = new Map<string, number>();
+  const requests: MockRequest[] = [];
+
+  const send = (res: http.ServerResponse, result: RouteResult) => {
+    const status = result.status ?? 200;
+    const headers = { ...result.headers };
+    if (Buffer.isBuffer(result.body)) {
+      res.writeHead(status, headers).end(result.body);
+    } else if (result.body === undefined || status === 204) {
+      res.writeHead(status, headers).end();
+    } else {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(result.body));
+    }
+  };
+  const sendError = (res: http.ServerResponse, status: number, message: string) =>
+    send(res, { status, body: { error: { message, code: status, data: [] } } });
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const url = new URL(req.url ?? '/', 'http://mock');
+      const method = (req.method ?? 'GET').toUpperCase();
+      const body = await parseBody(Buffer.concat(chunks), req.headers['content-type']);
+      const path = url.pathname.replace(/^\/api(?=\/)/, '');
+      requests.push({ method, path, query: Object.fromEntries(url.searchParams), body });
+
+      if (method === 'POST' && path === '/authorize/access_token') {
+        if (body.grant_type !== 'client_credentials' || body.client_id !== clientId || body.client_secret !== clientSecret) {
+          return send(res, { status: 401, body: { error: 'invalid_client', message: 'Client authentication failed' } });
+        }
+        const token = crypto.randomBytes(16).toString('hex');
+        tokens.set(token, Date.now() + tokenTtlSeconds * 1000);
+        return send(res, { body: { token_type: 'Bearer', expires_in: tokenTtlSeconds, access_token: token } });
+      }
+
+      const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+      if (!token || (tokens.get(token) ?? 0) < Date.now()) {
+        return sendError(res, 401, 'Access token is missing or invalid');
+      }
+
+      for (const candidate of routes) {
+        const match = candidate.method === method ? path.match(candidate.pattern) : null;
+        if (!match) continue;
+        const params = Object.fromEntries(candidate.keys.map((key, index) => [key, decodeURIComponent(match[index + 1])]));
+        return send(res, candidate.handler({ params, query: url.searchParams, body, state }));
+      }
+      return sendError(res, 404, `Route ${method} ${path} is not implemented by the mock CMS`);
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return sendError(res, error.status, error.message);
+      }
+      return sendError(res, 500, error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    state,
+    requests,
+    revokeTokens: () => tokens.clear(),
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close((error) => (error ? reject(error) : resolve()));
+    }),
+  };
+}
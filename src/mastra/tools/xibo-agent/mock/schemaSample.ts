@@ -0,0 +1,102 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Schema-based Sample Records
+ *
+ * Builds records for the mock CMS from the Zod schemas the tools validate responses with
+ * (the `schemas.ts` of each category), so seeded data always passes the tools' validation.
+ * Optional fields are left out, nullable fields are null and other fields get a neutral
+ * value (0, '', false, []) unless an override is given.
+ */
+
+import { z } from 'zod';
+
+function sample(schema: z.ZodTypeAny): unknown {
+  const def = schema._def;
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return undefined;
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return null;
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return def.defaultValue();
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return sample(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const kinds = (def.checks ?? []).map((check: { kind: string }) => check.kind);
+      if (kinds.includes('datetime')) return new Date(0).toISOString();
+      if (kinds.includes('email')) return 'user@example.com';
+      if (kinds.includes('url')) return 'http://localhost/';
+      return '';
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return 0;
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return BigInt(0);
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return false;
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return new Date(0);
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return def.value;
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return def.values[0];
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return Object.values(def.values)[0];
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return [];
+    case z.ZodFirstPartyTypeKind.ZodTuple:
+      return def.items.map((item: z.ZodTypeAny) => sample(item));
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+    case z.ZodFirstPartyTypeKind.ZodMap:
+      return {};
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const result: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(def.shape() as Record<string, z.ZodTypeAny>)) {
+        const value = sample(field);
+        if (value !== undefined) result[key] = value;
+      }
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return sample(Array.isArray(def.options) ? def.options[0] : [...def.options.values()][0]);
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return { ...(sample(def.left) as object), ...(sample(def.right) as object) };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return sample(def.schema);
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return sample(def.in);
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return sample(def.type);
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return sample(def.getter());
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns a record that satisfies `schema`, with `overrides` applied on top.
+ *
+ * The raw (unparsed) object is returned so it looks like a CMS response; the merged
+ * record is validated against the schema to catch overrides of the wrong type.
+ *
+ * @throws {z.ZodError} If the overrides make the record invalid.
+ */
+export function sampleFromSchema<T extends z.ZodTypeAny>(schema: T, overrides: Record<string, unknown> = {}): Record<string, any> {
+  const record = { ...(sample(schema) as Record<string, unknown>), ...overrides };
+  schema.parse(record);
+  return record;
+}
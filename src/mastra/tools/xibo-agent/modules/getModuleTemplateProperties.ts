@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -71,7 +72,7 @@ export const getModuleTemplateProperties = createTool({
       const url = new URL(`${config.cmsUrl}/api/module/template/${dataType}/properties/${id}`);
       logger.debug({ url: url.toString() }, `Attempting to get template properties for dataType '${dataType}', id '${id}'`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'GET',
         headers: await getAuthHeaders(),
       });
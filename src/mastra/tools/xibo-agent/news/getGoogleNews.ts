@@ -83,12 +83,73 @@ const errorSchema = z.object({
 /**
  * Language and country parameters for the Google News RSS feed.
  */
-const languageEnum = z.enum(['ja', 'en-US', 'en-GB', 'zh-CN', 'de', 'es-419', 'ar']);
+export const googleNewsLanguageEnum = z.enum(['ja', 'en-US', 'en-GB', 'zh-CN', 'de', 'es-419', 'ar']);
 
 /**
  * Topics available for topic-based search in Google News.
  */
-const topicEnum = z.enum(['WORLD', 'NATION', 'BUSINESS', 'TECHNOLOGY', 'ENTERTAINMENT', 'SPORTS', 'SCIENCE', 'HEALTH']);
+export const googleNewsTopicEnum = z.enum(['WORLD', 'NATION', 'BUSINESS', 'TECHNOLOGY', 'ENTERTAINMENT', 'SPORTS', 'SCIENCE', 'HEALTH']);
+
+export type GoogleNewsItem = z.infer<typeof googleNewsItemSchema>;
+
+/**
+ * A Google News search: a topic section, a geographic section or a keyword query.
+ */
+export interface GoogleNewsSearch {
+  searchType: 'topic' | 'geo' | 'query';
+  topic?: string;
+  location?: string;
+  query?: string;
+  language: z.infer<typeof googleNewsLanguageEnum>;
+}
+
+const langParamsMap: Record<z.infer<typeof googleNewsLanguageEnum>, string> = {
+  'ja': 'hl=ja&gl=JP&ceid=JP:ja',
+  'en-US': 'hl=en-US&gl=US&ceid=US:en',
+  'en-GB': 'hl=en-GB&gl=GB&ceid=GB:en',
+  'zh-CN': 'hl=zh-CN&gl=CN&ceid=CN:zh-Hans',
+  'de': 'hl=de&gl=DE&ceid=DE:de',
+  'es-419': 'hl=es-419&gl=US&ceid=US:es-419',
+  'ar': 'hl=ar&gl=EG&ceid=EG:ar'
+};
+
+/**
+ * Builds the RSS URL of a Google News search.
+ */
+export function buildGoogleNewsUrl(search: GoogleNewsSearch): string {
+  let path: string;
+  switch (search.searchType) {
+    case 'topic':
+      path = `/headlines/section/topic/${search.topic}`;
+      break;
+    case 'geo':
+      path = `/headlines/section/geo/${encodeURIComponent(search.location ?? '')}`;
+      break;
+    case 'query':
+      path = `/search?q=${encodeURIComponent(search.query ?? '')}`;
+      break;
+  }
+  const separator = path.includes('?') ? '&' : '?';
+  return `https://news.google.com/rss${path}${separator}${langParamsMap[search.language]}`;
+}
+
+/**
+ * Fetches and parses the items of a Google News search.
+ *
+ * @throws {Error} If the feed cannot be fetched or does not match the expected structure.
+ */
+export async function fetchGoogleNews(search: GoogleNewsSearch): Promise<GoogleNewsItem[]> {
+  const rssUrl = buildGoogleNewsUrl(search);
+  const response = await fetch(rssUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Google News RSS feed. Status: ${response.status} ${response.statusText}`);
+  }
+  const parsed = rssFeedSchema.safeParse(new XMLParser({ ignoreAttributes: false }).parse(await response.text()));
+  if (!parsed.success) {
+    throw new Error(`Google News RSS feed validation failed: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+  return parsed.data.rss.channel.item;
+}
 
 /**
  * Input schema for the getGoogleNews tool, allowing search by topic, geo, or query.
@@ -101,7 +162,7 @@ const inputSchema = z.object({
   location: z.string().optional().describe("The geographic location to search for (used when searchType is 'geo')."),
   query: z.string().optional().describe("A keyword query to search for (used when searchType is 'query')."),
   limit: z.number().int().positive().optional().default(10).describe('Maximum number of news items to return.'),
-  language: languageEnum.optional().default('ja').describe("The language and region for the news search."),
+  language: googleNewsLanguageEnum.optional().default('ja').describe("The language and region for the news search."),
 });
 
 /**
@@ -139,36 +200,13 @@ export const getGoogleNews = createTool({
     // --- End Manual Input Validation ---
 
     const { limit, language } = input;
-    
-    const langParamsMap: Record<z.infer<typeof languageEnum>, string> = {
-        'ja': 'hl=ja&gl=JP&ceid=JP:ja',
-        'en-US': 'hl=en-US&gl=US&ceid=US:en',
-        'en-GB': 'hl=en-GB&gl=GB&ceid=GB:en',
-        'zh-CN': 'hl=zh-CN&gl=CN&ceid=CN:zh-Hans',
-        'de': 'hl=de&gl=DE&ceid=DE:de',
-        'es-419': 'hl=es-419&gl=US&ceid=US:es-419',
-        'ar': 'hl=ar&gl=EG&ceid=EG:ar'
-    };
-    const langQuery = langParamsMap[language];
-
-    let path: string;
-    switch (input.searchType) {
-        case 'topic':
-            path = `/headlines/section/topic/${input.topic!}`;
-            break;
-        case 'geo':
-            path = `/headlines/section/geo/${encodeURIComponent(input.location!)}`;
-            break;
-        case 'query':
-            path = `/search?q=${encodeURIComponent(input.query!)}`;
-            break;
-        default:
-             // This case should be unreachable due to the manual validation above.
-            return { success: false, message: `Internal error: Unhandled searchType '${input.searchType}'`};
-    }
-    
-    const separator = path.includes('?') ? '&' : '?';
-    const rssUrl = `https://news.google.com/rss${path}${separator}${langQuery}`;
+    const rssUrl = buildGoogleNewsUrl({
+      searchType: input.searchType as GoogleNewsSearch['searchType'],
+      topic: input.topic,
+      location: input.location,
+      query: input.query,
+      language,
+    });
 
     logger.info(`Fetching Google News from ${rssUrl} with a limit of ${limit}.`);
     
@@ -0,0 +1,95 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module getNewsTickerFeeds
+ * @description Provides a tool that lists the news ticker feeds of the active CMS profile
+ * with the outcome of their last sync and the headlines currently in their DataSets.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { getNewsTickerStates, listNewsTickerFeeds, listNewsTickerItems } from '../newsTicker';
+import { getActiveCmsProfileName } from '../cmsContext';
+import { logger } from '../../../logger';
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    cmsProfile: z.string(),
+    feeds: z.array(z.object({
+      feedId: z.string(),
+      name: z.string(),
+      enabled: z.boolean(),
+      feed: z.any().describe('The feed as declared in news-ticker.json.'),
+      lastSync: z.string().nullable(),
+      added: z.number().describe('Headlines added by the last sync.'),
+      expired: z.number().describe('Rows deleted by the last sync.'),
+      error: z.string().nullable(),
+      items: z.array(z.object({
+        guid: z.string(),
+        rowId: z.number(),
+        title: z.string(),
+        addedAt: z.string(),
+        expiresAt: z.string(),
+      })).describe('Headlines added by the sync that are still in the DataSet, newest first.'),
+    })),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for listing news ticker feeds and their headlines.
+ */
+export const getNewsTickerFeeds = createTool({
+  id: 'get-news-ticker-feeds',
+  description: 'List the news ticker feeds (Google News searches synced into DataSets) with their last sync and the headlines currently shown.',
+  inputSchema: z.object({
+    feedId: z.string().optional().describe("Only this feed."),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    const cmsProfile = getActiveCmsProfileName();
+    try {
+      const states = new Map((await getNewsTickerStates(cmsProfile)).map((s) => [s.feedId, s]));
+      const feeds = [];
+      for (const feed of listNewsTickerFeeds(cmsProfile).filter((f) => !context.feedId || f.id === context.feedId)) {
+        const state = states.get(feed.id);
+        feeds.push({
+          feedId: feed.id,
+          name: feed.name ?? feed.id,
+          enabled: feed.enabled,
+          feed,
+          lastSync: state?.lastSync ?? null,
+          added: state?.added ?? 0,
+          expired: state?.expired ?? 0,
+          error: state?.error ?? null,
+          items: await listNewsTickerItems(cmsProfile, feed.id),
+        });
+      }
+
+      logger.info({ feeds: feeds.length }, "Retrieved news ticker feeds.");
+      return {
+        success: true,
+        message: feeds.length
+          ? `${feeds.length} news ticker feeds, ${feeds.reduce((sum, f) => sum + f.items.length, 0)} headlines shown.`
+          : 'No news ticker feeds are declared for this CMS profile.',
+        data: { cmsProfile, feeds },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "getNewsTickerFeeds: Failed to read news ticker feeds");
+      return { success: false, message: `Failed to read news ticker feeds: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
@@ -20,4 +20,6 @@
 
 export { getXiboNews } from './getXiboNews';
 export { getGoogleNews } from './getGoogleNews';
+export { syncNewsTicker } from './syncNewsTicker';
+export { getNewsTickerFeeds } from './getNewsTickerFeeds';
 
@@ -0,0 +1,78 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module syncNewsTicker
+ * @description Provides a tool that syncs the configured Google News feeds of the active
+ * CMS profile into their ticker DataSets.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { syncNewsTicker as runNewsTickerSync } from '../newsTicker';
+import { logger } from '../../../logger';
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.array(z.object({
+    feedId: z.string(),
+    name: z.string(),
+    dataSetId: z.number(),
+    added: z.array(z.object({
+      guid: z.string(),
+      title: z.string(),
+      source: z.string().nullable(),
+      link: z.string(),
+      published: z.string().describe('Publication time (CMS local time).'),
+      expires: z.string().describe('When the row is deleted again (ISO 8601).'),
+    })).describe('Headlines added to the DataSet.'),
+    expired: z.number().describe('Rows deleted because their time to live ran out.'),
+    skipped: z.number().describe('Feed items already in the DataSet or too old.'),
+    rewritten: z.boolean().describe('Whether the headlines were summarised or translated by the LLM.'),
+    error: z.string().nullable(),
+  })).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for syncing news ticker feeds now.
+ */
+export const syncNewsTicker = createTool({
+  id: 'sync-news-ticker',
+  description: 'Fetch the configured Google News feeds now and add new headlines to their ticker DataSets, deleting expired ones. Use dryRun to only preview.',
+  inputSchema: z.object({
+    feedIds: z.array(z.string()).optional().describe("Only sync these feeds."),
+    dryRun: z.boolean().optional().default(false).describe("Report what would change without changing the DataSets."),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const results = await runNewsTickerSync({ feedIds: context.feedIds, dryRun: context.dryRun });
+      const added = results.reduce((sum, r) => sum + r.added.length, 0);
+      const expired = results.reduce((sum, r) => sum + r.expired, 0);
+      const failed = results.filter((r) => r.error).length;
+      logger.info({ feeds: results.length, added, expired, failed, dryRun: context.dryRun }, "Synced news ticker feeds.");
+      return {
+        success: failed === 0,
+        message: results.length
+          ? `${results.length} feeds synced: ${added} headlines ${context.dryRun ? 'would be added' : 'added'}, ${expired} ${context.dryRun ? 'would expire' : 'expired'}, ${failed} failed.`
+          : 'No enabled news ticker feeds are declared for this CMS profile.',
+        data: results,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "syncNewsTicker: Failed to sync news ticker feeds");
+      return { success: false, message: `Failed to sync news ticker feeds: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
@@ -0,0 +1,538 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * News Ticker Sync
+ *
+ * Keeps DataSets used by ticker widgets filled with Google News headlines. Each feed names a
+ * Google News search (topic, geo or keyword query) and a DataSet; every sync adds the
+ * headlines that are not in the DataSet yet and deletes the rows whose time to live ran out.
+ *
+ * - Headlines are de-duplicated by the RSS guid, which is written to the `guid` column.
+ * - A row expires `ttlHours` after the article was published; articles that are already
+ *   older than that are not added at all.
+ * - With `rewrite`, new headlines are summarised or translated by the LLM before they are
+ *   added. If the model fails, the original headlines are used.
+ *
+ * The rows added by the sync are tracked in `xibo_news_ticker_items` so expired ones can be
+ * deleted; rows added by hand are never touched. The outcome of the last sync of each feed
+ * is kept in `xibo_news_ticker_sync`.
+ *
+ * Feeds are declared in `news-ticker.json` in the project root (or `XIBO_NEWS_TICKER_FILE`):
+ *
+ * ```json
+ * {
+ *   "enabled": true,
+ *   "intervalSeconds": 1800,
+ *   "feeds": [{
+ *     "id": "business",
+ *     "dataSetId": 14,
+ *     "searchType": "topic",
+ *     "topic": "BUSINESS",
+ *     "language": "ja",
+ *     "limit": 10,
+ *     "ttlHours": 12,
+ *     "rewrite": { "mode": "summarize", "maxLength": 40 }
+ *   }]
+ * }
+ * ```
+ *
+ * The DataSet needs `guid` and `title` columns; `source`, `link` and `published` are filled
+ * when present. Other headings can be mapped with `columns`. Without `enabled` the feeds are
+ * synced in the background only when `XIBO_NEWS_TICKER=on`.
+ */
+
+import { z } from 'zod';
+import fs from 'fs';
+import { config } from './config';
+import { logger } from '../../logger';
+import { ensureTables, getAgentDatabase } from './database';
+import { xiboClient } from './xiboClient';
+import { getActiveCmsProfileName, runWithCmsProfile } from './cmsContext';
+import { getCmsProfile } from './cmsProfiles';
+import { runWithAuditContext } from './auditLog';
+import { fetchPaginated } from './utility/pagination';
+import { formatDateTime } from './utility/dateTime';
+import { fetchGoogleNews, googleNewsLanguageEnum, googleNewsTopicEnum, type GoogleNewsItem } from './news/getGoogleNews';
+
+const DEFAULT_INTERVAL_SECONDS = 1800;
+const SYNC_SOURCE = 'news-ticker-sync';
+const REWRITE_MODEL = 'gemini-2.5-flash';
+
+const feedSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  cmsProfile: z.string().optional().describe('CMS profile of the DataSet; the default profile when omitted.'),
+  enabled: z.boolean().default(true),
+  dataSetId: z.number().int().positive(),
+  searchType: z.enum(['topic', 'geo', 'query']),
+  topic: googleNewsTopicEnum.optional(),
+  location: z.string().optional(),
+  query: z.string().optional(),
+  language: googleNewsLanguageEnum.default('ja'),
+  limit: z.number().int().min(1).max(100).default(10).describe('Headlines taken from the feed per sync.'),
+  ttlHours: z.number().positive().default(24).describe('Hours after publication a headline stays in the DataSet.'),
+  rewrite: z.object({
+    mode: z.enum(['summarize', 'translate']),
+    language: z.string().optional().describe('Language of the rewritten headline; the feed language when omitted.'),
+    maxLength: z.number().int().min(10).optional().describe('Maximum number of characters of a rewritten headline.'),
+  }).optional(),
+  columns: z.object({
+    guid: z.string().default('guid'),
+    title: z.string().default('title'),
+    source: z.string().default('source'),
+    link: z.string().default('link'),
+    published: z.string().default('published'),
+  }).default({}).describe('DataSet column headings the headline fields are written to.'),
+}).superRefine((feed, ctx) => {
+  const required = { topic: 'topic', geo: 'location', query: 'query' } as const;
+  const field = required[feed.searchType];
+  if (!feed[field]) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `"${field}" is required when searchType is "${feed.searchType}".` });
+  }
+});
+
+export type NewsTickerFeed = z.infer<typeof feedSchema>;
+
+const settingsFileSchema = z.object({
+  enabled: z.boolean().optional(),
+  intervalSeconds: z.number().int().min(300).optional(),
+  feeds: z.array(feedSchema).optional(),
+});
+
+type NewsTickerSettings = z.infer<typeof settingsFileSchema>;
+
+/**
+ * A headline as written to the DataSet.
+ */
+export interface NewsHeadline {
+  guid: string;
+  title: string;
+  source: string | null;
+  link: string;
+  published: string;
+  expires: string;
+}
+
+/**
+ * Stored outcome of the last sync of a feed.
+ */
+export interface NewsTickerSyncState {
+  feedId: string;
+  lastSync: string | null;
+  added: number;
+  expired: number;
+  error: string | null;
+}
+
+/**
+ * Outcome of syncing one feed.
+ */
+export interface NewsTickerSyncResult {
+  feedId: string;
+  name: string;
+  dataSetId: number;
+  added: NewsHeadline[];
+  expired: number;
+  skipped: number;
+  rewritten: boolean;
+  error: string | null;
+}
+
+let settings: NewsTickerSettings | null = null;
+
+function getSettings(): NewsTickerSettings {
+  if (settings) return settings;
+  settings = {};
+  if (fs.existsSync(config.newsTickerFile)) {
+    try {
+      const parsed = settingsFileSchema.safeParse(JSON.parse(fs.readFileSync(config.newsTickerFile, 'utf-8')));
+      if (parsed.success) {
+        settings = parsed.data;
+      } else {
+        logger.error({ file: config.newsTickerFile, error: parsed.error.flatten() }, 'Invalid news ticker file; no feeds loaded');
+      }
+    } catch (error) {
+      logger.error({ file: config.newsTickerFile, error: error instanceof Error ? error.message : error }, 'Failed to read news ticker file');
+    }
+  }
+  return settings;
+}
+
+/**
+ * Drops the loaded feeds so the next sync re-reads the file.
+ */
+export function reloadNewsTickerSettings(): void {
+  settings = null;
+}
+
+/**
+ * Returns the feeds of a CMS profile.
+ */
+export function listNewsTickerFeeds(cmsProfile: string): NewsTickerFeed[] {
+  const defaultProfile = getCmsProfile().name;
+  return (getSettings().feeds ?? []).filter((feed) => (feed.cmsProfile ?? defaultProfile) === cmsProfile);
+}
+
+function ensureSchema(): Promise<void> {
+  return ensureTables('news-ticker', [
+    `CREATE TABLE IF NOT EXISTS xibo_news_ticker_items (
+      cms_profile TEXT NOT NULL,
+      feed_id TEXT NOT NULL,
+      guid TEXT NOT NULL,
+      data_set_id INTEGER NOT NULL,
+      row_id INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      added_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      PRIMARY KEY (cms_profile, feed_id, guid)
+    )`,
+    `CREATE TABLE IF NOT EXISTS xibo_news_ticker_sync (
+      cms_profile TEXT NOT NULL,
+      feed_id TEXT NOT NULL,
+      last_sync TEXT,
+      added INTEGER NOT NULL,
+      expired INTEGER NOT NULL,
+      error TEXT,
+      PRIMARY KEY (cms_profile, feed_id)
+    )`,
+  ]);
+}
+
+// -----------------------------------------------------------------------------
+// Headlines
+// -----------------------------------------------------------------------------
+
+/**
+ * Turns an RSS item into a headline. Google News appends " - <source>" to every title,
+ * which is dropped because the source has a column of its own.
+ */
+export function toHeadline(item: GoogleNewsItem, ttlHours: number, now: number): NewsHeadline {
+  const guid = typeof item.guid === 'string' ? item.guid : item.guid['#text'];
+  const source = item.source?.['#text'] ?? null;
+  const suffix = source ? ` - ${source}` : null;
+  const title = suffix && item.title.endsWith(suffix) ? item.title.slice(0, -suffix.length) : item.title;
+  const publishedMs = Date.parse(item.pubDate);
+  const published = Number.isNaN(publishedMs) ? now : publishedMs;
+  return {
+    guid,
+    title: title.trim(),
+    source,
+    link: item.link,
+    published: formatDateTime(Math.floor(published / 1000)),
+    expires: new Date(published + ttlHours * 3600 * 1000).toISOString(),
+  };
+}
+
+/**
+ * Summarises or translates headlines with the LLM in one request.
+ *
+ * @returns The rewritten titles in the same order, or null when the model failed.
+ */
+async function rewriteHeadlines(headlines: NewsHeadline[], feed: NewsTickerFeed): Promise<string[] | null> {
+  const rewrite = feed.rewrite!;
+  const language = rewrite.language ?? feed.language;
+  const task = rewrite.mode === 'translate'
+    ? `Translate each headline into the language "${language}".`
+    : `Summarise each headline as a short ticker line in the language "${language}".`;
+  const length = rewrite.maxLength ? ` Keep every line within ${rewrite.maxLength} characters.` : '';
+  const prompt = `${task}${length}
+Answer with a JSON array of strings only, one entry per headline, in the same order.
+
+${JSON.stringify(headlines.map((h) => h.title))}`;
+
+  try {
+    // Loaded on demand so feeds without rewriting do not need the model provider.
+    const [{ generateText }, { google }] = await Promise.all([import('ai'), import('../../models')]);
+    const { text } = await generateText({ model: google(REWRITE_MODEL), prompt });
+    const json = text.slice(text.indexOf('['), text.lastIndexOf(']') + 1);
+    const titles = z.array(z.string()).length(headlines.length).parse(JSON.parse(json));
+    return titles.map((title, i) => title.trim() || headlines[i].title);
+  } catch (error) {
+    logger.warn({ feedId: feed.id, error: error instanceof Error ? error.message : error }, 'Rewriting headlines failed; using the original titles');
+    return null;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// DataSet
+// -----------------------------------------------------------------------------
+
+interface ColumnMap {
+  guid: { id: number; heading: string };
+  fields: Partial<Record<keyof NewsTickerFeed['columns'], number>>;
+}
+
+/**
+ * Resolves the column IDs of the headline fields by heading (case-insensitive).
+ *
+ * @throws {Error} If the DataSet cannot be read or has no guid or title column.
+ */
+async function resolveColumns(feed: NewsTickerFeed): Promise<ColumnMap> {
+  const result = await xiboClient.request<Array<{ dataSetColumnId: number; heading: string }>>(`/dataset/${feed.dataSetId}/column`);
+  if (!result.success) {
+    throw new Error(`Reading the columns of DataSet ${feed.dataSetId} failed: ${result.message}`);
+  }
+  const byHeading = new Map(result.data.map((c) => [c.heading.toLowerCase(), c]));
+  const fields: ColumnMap['fields'] = {};
+  for (const [field, heading] of Object.entries(feed.columns) as Array<[keyof NewsTickerFeed['columns'], string]>) {
+    const column = byHeading.get(heading.toLowerCase());
+    if (column) fields[field] = column.dataSetColumnId;
+  }
+  for (const field of ['guid', 'title'] as const) {
+    if (fields[field] === undefined) {
+      throw new Error(`DataSet ${feed.dataSetId} has no "${feed.columns[field]}" column for the headline ${field}.`);
+    }
+  }
+  const guid = byHeading.get(feed.columns.guid.toLowerCase())!;
+  return { guid: { id: guid.dataSetColumnId, heading: guid.heading }, fields };
+}
+
+/**
+ * Reads the guids already present in the DataSet, including rows added by hand.
+ */
+async function readDataSetGuids(feed: NewsTickerFeed, guidHeading: string): Promise<Set<string>> {
+  const result = await fetchPaginated(new URL(`${config.cmsUrl}/api/dataset/data/${feed.dataSetId}`), { all: true });
+  if (!result.success) {
+    throw new Error(`Reading the rows of DataSet ${feed.dataSetId} failed: ${result.message}`);
+  }
+  return new Set((result.items as Array<Record<string, unknown>>).map((row) => String(row[guidHeading] ?? '')).filter(Boolean));
+}
+
+async function addRow(feed: NewsTickerFeed, columns: ColumnMap, headline: NewsHeadline): Promise<number> {
+  const form: Record<string, unknown> = {};
+  for (const [field, columnId] of Object.entries(columns.fields)) {
+    const value = headline[field as keyof NewsHeadline];
+    if (value !== null) form[`dataSetColumnId_${columnId}`] = value;
+  }
+  const result = await xiboClient.request<{ id: number }>(`/dataset/data/${feed.dataSetId}`, { method: 'POST', form });
+  if (!result.success || typeof result.data?.id !== 'number') {
+    throw new Error(`Adding "${headline.title}" to DataSet ${feed.dataSetId} failed: ${result.success ? 'the CMS did not return a row ID' : result.message}`);
+  }
+  return result.data.id;
+}
+
+/**
+ * Deletes a row added by the sync. Rows already removed in the CMS are ignored.
+ */
+async function deleteRow(dataSetId: number, rowId: number): Promise<void> {
+  const result = await xiboClient.request(`/dataset/data/${dataSetId}/${rowId}`, { method: 'DELETE' });
+  if (!result.success && result.status !== 404) {
+    throw new Error(`Deleting row ${rowId} of DataSet ${dataSetId} failed: ${result.message}`);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Sync
+// -----------------------------------------------------------------------------
+
+/**
+ * Stored state of the feeds of one CMS profile.
+ */
+export async function getNewsTickerStates(cmsProfile: string): Promise<NewsTickerSyncState[]> {
+  await ensureSchema();
+  const rows = await getAgentDatabase().execute({ sql: 'SELECT * FROM xibo_news_ticker_sync WHERE cms_profile = ? ORDER BY feed_id', args: [cmsProfile] });
+  return rows.rows.map((row) => ({
+    feedId: String(row.feed_id),
+    lastSync: (row.last_sync as string | null) ?? null,
+    added: Number(row.added),
+    expired: Number(row.expired),
+    error: (row.error as string | null) ?? null,
+  }));
+}
+
+/**
+ * Headlines currently in the DataSet of a feed, as tracked by the sync, newest first.
+ */
+export async function listNewsTickerItems(cmsProfile: string, feedId: string): Promise<Array<{ guid: string; rowId: number; title: string; addedAt: string; expiresAt: string }>> {
+  await ensureSchema();
+  const rows = await getAgentDatabase().execute({
+    sql: 'SELECT * FROM xibo_news_ticker_items WHERE cms_profile = ? AND feed_id = ? ORDER BY added_at DESC, row_id DESC',
+    args: [cmsProfile, feedId],
+  });
+  return rows.rows.map((row) => ({
+    guid: String(row.guid),
+    rowId: Number(row.row_id),
+    title: String(row.title),
+    addedAt: String(row.added_at),
+    expiresAt: String(row.expires_at),
+  }));
+}
+
+async function saveSyncState(cmsProfile: string, feedId: string, state: { lastSync: string; added: number; expired: number; error: string | null }): Promise<void> {
+  await getAgentDatabase().execute({
+    sql: `INSERT INTO xibo_news_ticker_sync (cms_profile, feed_id, last_sync, added, expired, error) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (cms_profile, feed_id) DO UPDATE SET last_sync = excluded.last_sync, added = excluded.added,
+        expired = excluded.expired, error = excluded.error`,
+    args: [cmsProfile, feedId, state.lastSync, state.added, state.expired, state.error],
+  });
+}
+
+async function syncFeed(cmsProfile: string, feed: NewsTickerFeed, dryRun: boolean): Promise<Omit<NewsTickerSyncResult, 'feedId' | 'name' | 'dataSetId' | 'error'>> {
+  const db = getAgentDatabase();
+  const now = Date.now();
+  const nowIso = new Date(now).toISOString();
+  const columns = await resolveColumns(feed);
+
+  // Expire first so a headline that ran out is not counted as present.
+  const due = await db.execute({
+    sql: 'SELECT guid, row_id FROM xibo_news_ticker_items WHERE cms_profile = ? AND feed_id = ? AND expires_at <= ?',
+    args: [cmsProfile, feed.id, nowIso],
+  });
+  for (const row of due.rows) {
+    if (dryRun) continue;
+    await deleteRow(feed.dataSetId, Number(row.row_id));
+    await db.execute({
+      sql: 'DELETE FROM xibo_news_ticker_items WHERE cms_profile = ? AND feed_id = ? AND guid = ?',
+      args: [cmsProfile, feed.id, String(row.guid)],
+    });
+  }
+
+  const tracked = await db.execute({ sql: 'SELECT guid FROM xibo_news_ticker_items WHERE cms_profile = ? AND feed_id = ?', args: [cmsProfile, feed.id] });
+  const known = await readDataSetGuids(feed, columns.guid.heading);
+  for (const row of tracked.rows) known.add(String(row.guid));
+
+  const items = (await fetchGoogleNews(feed)).slice(0, feed.limit);
+  const fresh: NewsHeadline[] = [];
+  for (const item of items) {
+    const headline = toHeadline(item, feed.ttlHours, now);
+    if (known.has(headline.guid) || headline.expires <= nowIso) continue;
+    known.add(headline.guid);
+    fresh.push(headline);
+  }
+
+  let rewritten = false;
+  if (feed.rewrite && fresh.length > 0) {
+    const titles = await rewriteHeadlines(fresh, feed);
+    if (titles) {
+      titles.forEach((title, i) => { fresh[i].title = title; });
+      rewritten = true;
+    }
+  }
+
+  if (!dryRun) {
+    for (const headline of fresh) {
+      const rowId = await addRow(feed, columns, headline);
+      await db.execute({
+        sql: `INSERT INTO xibo_news_ticker_items (cms_profile, feed_id, guid, data_set_id, row_id, title, added_at, expires_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [cmsProfile, feed.id, headline.guid, feed.dataSetId, rowId, headline.title, nowIso, headline.expires],
+      });
+    }
+  }
+
+  return { added: fresh, expired: due.rows.length, skipped: items.length - fresh.length, rewritten };
+}
+
+const running = new Set<string>();
+
+/**
+ * Syncs the news feeds of the active CMS profile into their DataSets.
+ *
+ * @param options.feedIds Only sync these feeds.
+ * @param options.dryRun Report what would be added and expired without touching the CMS or the stored state.
+ * @throws {Error} If a sync of the profile is already running.
+ */
+export async function syncNewsTicker(options: { feedIds?: string[]; dryRun?: boolean } = {}): Promise<NewsTickerSyncResult[]> {
+  const cmsProfile = getActiveCmsProfileName();
+  if (running.has(cmsProfile)) {
+    throw new Error(`News feeds of CMS profile "${cmsProfile}" are already being synced.`);
+  }
+  running.add(cmsProfile);
+  try {
+    await ensureSchema();
+    const feeds = listNewsTickerFeeds(cmsProfile).filter((f) => f.enabled && (!options.feedIds || options.feedIds.includes(f.id)));
+    const results: NewsTickerSyncResult[] = [];
+
+    for (const feed of feeds) {
+      const base = { feedId: feed.id, name: feed.name ?? feed.id, dataSetId: feed.dataSetId };
+      try {
+        const outcome = await runWithAuditContext({ toolId: SYNC_SOURCE, input: { feedId: feed.id }, agent: SYNC_SOURCE }, () =>
+          syncFeed(cmsProfile, feed, Boolean(options.dryRun))
+        );
+        if (!options.dryRun) {
+          await saveSyncState(cmsProfile, feed.id, { lastSync: new Date().toISOString(), added: outcome.added.length, expired: outcome.expired, error: null });
+        }
+        logger.info({ feedId: feed.id, added: outcome.added.length, expired: outcome.expired, dryRun: options.dryRun }, 'Synced news ticker feed');
+        results.push({ ...base, ...outcome, error: null });
+      } catch (error) {
+        const detail = error instanceof Error ? error.message : String(error);
+        logger.error({ feedId: feed.id, error: detail }, 'News ticker sync failed');
+        if (!options.dryRun) {
+          await saveSyncState(cmsProfile, feed.id, { lastSync: new Date().toISOString(), added: 0, expired: 0, error: detail });
+        }
+        results.push({ ...base, added: [], expired: 0, skipped: 0, rewritten: false, error: detail });
+      }
+    }
+    return results;
+  } finally {
+    running.delete(cmsProfile);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Background sync
+// -----------------------------------------------------------------------------
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Tells whether the feeds should be synced in the background.
+ */
+export function isNewsTickerSyncEnabled(): boolean {
+  return getSettings().enabled ?? process.env.XIBO_NEWS_TICKER === 'on';
+}
+
+/**
+ * Syncs the feeds of every CMS profile that has feeds. Failures are logged per profile.
+ */
+async function syncAllProfiles(): Promise<void> {
+  const defaultProfile = getCmsProfile().name;
+  const names = new Set((getSettings().feeds ?? []).map((feed) => feed.cmsProfile ?? defaultProfile));
+  for (const name of names) {
+    try {
+      const profile = getCmsProfile(name);
+      await runWithCmsProfile(profile, () => syncNewsTicker());
+    } catch (error) {
+      logger.error({ profile: name, error: error instanceof Error ? error.message : error }, 'News ticker sync failed');
+    }
+  }
+}
+
+/**
+ * Starts syncing the feeds in the background when the sync is enabled. Calling it again
+ * restarts the timer with the current settings.
+ *
+ * @returns True when the sync was started.
+ */
+export function startNewsTickerSync(): boolean {
+  stopNewsTickerSync();
+  if (!isNewsTickerSyncEnabled()) {
+    return false;
+  }
+  const intervalSeconds = getSettings().intervalSeconds ?? DEFAULT_INTERVAL_SECONDS;
+  timer = setInterval(() => void syncAllProfiles(), intervalSeconds * 1000);
+  timer.unref();
+  void syncAllProfiles();
+  logger.info({ intervalSeconds, feeds: getSettings().feeds?.length ?? 0 }, 'News ticker sync started');
+  return true;
+}
+
+/**
+ * Stops the background sync.
+ */
+export function stopNewsTickerSync(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 import { decodeErrorMessage } from "../utility/error";
 import { notificationSchema } from './schemas';
@@ -79,7 +80,7 @@ export const addNotification = createTool({
       context.displayGroupIds.forEach(id => formData.append('displayGroupIds[]', id.toString()));
       context.userGroupIds.forEach(id => formData.append('userGroupIds[]', id.toString()));
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'POST',
         headers: {
           ...await getAuthHeaders(),
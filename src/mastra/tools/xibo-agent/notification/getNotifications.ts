@@ -19,9 +19,14 @@
 import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
 import { logger } from '../../../logger';
-import { decodeErrorMessage } from "../utility/error";
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from "../utility/pagination";
 import { notificationSchema } from './schemas';
 import { createTreeViewResponse, TreeNode } from '../utility/treeView';
 
@@ -37,6 +42,7 @@ const outputSchema = z.union([
     message: z.string(),
     tree: z.array(z.any()).optional(),
     treeViewText: z.string().optional(),
+    pagination: paginationSummarySchema,
   }),
   z.object({
     success: z.literal(false),
@@ -58,6 +64,7 @@ export const getNotifications = createTool({
     subject: z.string().optional().describe('Filter notifications by subject (supports LIKE %...%).'),
     embed: z.string().optional().describe('Embed related data, e.g., "userGroups,displayGroups".'),
     treeView: z.boolean().optional().describe('If true, generates a tree view of notifications and their assigned groups.'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -88,28 +95,24 @@ export const getNotifications = createTool({
         params.append('embed', embedValue);
       }
       url.search = params.toString();
+      const { pagination } = splitPaginationOptions(context);
       
-      logger.info({ url: url.toString() }, "Attempting to retrieve notifications.");
+      logger.info({ url: url.toString(), pagination }, "Attempting to retrieve notifications.");
 
-      const headers = await getAuthHeaders();
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers
-      });
-      
-      const responseData = await response.json();
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseData);
-        const message = `Failed to retrieve notifications. API responded with status ${response.status}.`;
-        logger.error({ response: decodedError, status: response.status }, message);
+      if (!result.success) {
+        const message = `Failed to retrieve notifications. API responded with status ${result.status}.`;
+        logger.error({ response: result.errorData, status: result.status }, message);
         return {
           success: false as const,
           message,
-          errorData: decodedError,
+          errorData: result.errorData,
         };
       }
 
+      const responseData = result.items;
+
       const validationResult = z.array(notificationSchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -123,8 +126,8 @@ export const getNotifications = createTool({
         };
       }
 
-      const message = `Successfully retrieved ${validationResult.data.length} notifications.`;
-      logger.info({ count: validationResult.data.length }, message);
+      logger.info({ count: validationResult.data.length }, `Successfully retrieved ${validationResult.data.length} notifications.`);
+      const message = describePagination(result.pagination, "notifications");
 
       if (context.treeView) {
         const tree: TreeNode[] = validationResult.data.map(notification => {
@@ -190,10 +193,11 @@ export const getNotifications = createTool({
           ...restOfTreeResponse,
           success: true as const,
           message,
+          pagination: result.pagination,
         };
       }
 
-      return { success: true as const, data: validationResult.data, message };
+      return { success: true as const, data: validationResult.data, message, pagination: result.pagination };
 
     } catch (error: unknown) {
       const message = "An unexpected error occurred while retrieving notifications.";
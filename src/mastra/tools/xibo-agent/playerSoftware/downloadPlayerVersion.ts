@@ -20,6 +20,7 @@ import { createTool } from '@mastra/core';
 import fs from 'fs/promises';
 import path from 'path';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -77,7 +78,7 @@ export const downloadPlayerVersion = createTool({
         `Attempting to download player software version ${versionId}`
       );
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'GET',
         headers: await getAuthHeaders(),
       });
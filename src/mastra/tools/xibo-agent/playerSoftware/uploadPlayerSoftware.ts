@@ -17,14 +17,12 @@
  */
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
-import axios from 'axios';
-import FormData from 'form-data';
 import fs from 'fs';
 import path from 'path';
-import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
-import { processError } from '../utility/error';
+import { decodeErrorMessage, processError } from '../utility/error';
 
 /**
  * Schema for a successfully uploaded file object.
@@ -127,28 +125,30 @@ export const uploadPlayerSoftware = createTool({
       }
 
       const form = new FormData();
-      form.append('files', fs.createReadStream(resolvedPath));
+      form.append('files', new Blob([await fs.promises.readFile(resolvedPath)]), context.fileName);
 
       const url = new URL(`${config.cmsUrl}/api/playersoftware`);
-      const authHeaders = await getAuthHeaders();
-      const formHeaders = form.getHeaders();
-
-      const headers = {
-        ...authHeaders,
-        ...formHeaders,
-      };
 
       logger.debug(
         { url: url.toString() },
         `Attempting to upload player software from ${resolvedPath}`
       );
 
-      const response = await axios.post(url.toString(), form, { headers });
-      const responseData = response.data;
+      const response = await xiboClient.fetch(url.toString(), { method: 'POST', body: form });
+      const responseText = await response.text();
+      let responseData;
+      try {
+        responseData = JSON.parse(responseText);
+      } catch (e) {
+        responseData = responseText;
+      }
 
-      // Axios considers non-2xx statuses as errors and throws,
-      // so we mostly handle success cases here.
-      // The validation a few lines below will handle if the response body is not what we expect
+      if (!response.ok) {
+        const decodedError = decodeErrorMessage(responseText);
+        const message = `Failed to upload player software. API responded with status ${response.status}.`;
+        logger.error({ status: response.status, response: decodedError }, message);
+        return { success: false as const, message, errorData: decodedError };
+      }
 
       const validationResult = apiResponseSchema.safeParse(responseData);
       if (!validationResult.success) {
@@ -203,16 +203,6 @@ export const uploadPlayerSoftware = createTool({
       const message = 'An unexpected error occurred while uploading player software.';
       logger.error({ error: processedError }, message);
       
-      // If the error is from axios, it might contain response data
-      if (axios.isAxiosError(error) && error.response) {
-        return {
-          success: false as const,
-          message: error.response.data?.message || message,
-          error: processedError,
-          errorData: error.response.data
-        };
-      }
-      
       return { success: false as const, message, error: processedError };
     }
   },
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from '../../../logger';
 
 // Schema for tags that can be associated with a playlist
@@ -130,7 +131,7 @@ export const addPlaylist = createTool({
       logger.debug({ params: params.toString() }, `addPlaylist: Sending request to ${url}`);
 
       // Send the POST request to create the playlist
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers: {
             ...headers,
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 // Schema for the successful response after assigning media
@@ -73,7 +74,7 @@ export const assignLibraryItems = createTool({
       if (context.displayOrder !== undefined) formData.append('displayOrder', context.displayOrder.toString());
 
       // Make the POST request to assign the library items.
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers: {
             ...headers,
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 // A simple schema for the successful conversion response.
@@ -59,7 +60,7 @@ export const convertPlaylist = createTool({
       const formData = new URLSearchParams();
       if (context.name) formData.append('name', context.name);
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers: {
             ...headers,
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 // Sub-schemas for the main playlist object
@@ -145,7 +146,7 @@ export const copyPlaylist = createTool({
       formData.append('copyMediaFiles', context.copyMediaFiles.toString());
 
       // Make the POST request to the Xibo API to copy the playlist.
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers: {
             ...headers,
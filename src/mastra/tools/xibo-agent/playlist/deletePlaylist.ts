@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 /**
@@ -50,7 +51,7 @@ export const deletePlaylist = createTool({
       logger.debug(`deletePlaylist: Request URL = ${url}`);
 
       // Make the DELETE request to the Xibo API.
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'DELETE',
         headers
       });
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 // Schema for tags associated with a playlist
@@ -135,7 +136,7 @@ export const editPlaylist = createTool({
       }, "editPlaylist: Request details");
 
       // Make the API call to the Xibo CMS to edit the playlist.
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'PUT',
         headers: {
             ...headers,
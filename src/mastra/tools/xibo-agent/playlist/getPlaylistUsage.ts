@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 // Schema for an individual layout entry in the usage report
@@ -63,7 +64,7 @@ export const getPlaylistUsage = createTool({
       logger.debug(`getPlaylistUsage: Request URL = ${url}`);
 
       // Make the GET request to the Xibo API.
-      const response = await fetch(url, { method: 'GET', headers });
+      const response = await xiboClient.fetch(url, { method: 'GET', headers });
 
       // Handle non-2xx responses from the API.
       if (!response.ok) {
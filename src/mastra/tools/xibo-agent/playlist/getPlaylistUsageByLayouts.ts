@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 // Schema for the array of layouts returned directly by the API when usage exists.
@@ -68,7 +69,7 @@ export const getPlaylistUsageByLayouts = createTool({
       logger.debug(`getPlaylistUsageByLayouts: Request URL = ${url}`);
 
       // Make the GET request to the Xibo API.
-      const response = await fetch(url, { method: 'GET', headers });
+      const response = await xiboClient.fetch(url, { method: 'GET', headers });
 
       // Handle non-2xx responses from the API.
       if (!response.ok) {
@@ -19,10 +19,16 @@
 import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
 import { logger } from '../../../logger';
 import { parseJsonStrings } from '../utility/jsonParser';
 import { TreeNode, treeResponseSchema, createTreeViewResponse } from '../utility/treeView';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 
 // Schema for tags associated with a playlist
 const tagSchema = z.object({
@@ -236,7 +242,7 @@ function playlistNodeFormatter(node: TreeNode): string {
  */
 export const getPlaylists = createTool({
   id: 'get-playlists',
-  description: 'Search and retrieve playlists from Xibo CMS',
+  description: 'Search and retrieve playlists from Xibo CMS. Set all=true to retrieve every playlist across pages.',
   inputSchema: z.object({
     playlistId: z.number().optional().describe('Filter by playlist ID.'),
     name: z.string().optional().describe('Filter by playlist name (partial match).'),
@@ -250,11 +256,13 @@ export const getPlaylists = createTool({
       z.array(z.string()).describe('Include related data as an array of values.')
     ]).optional().default('regions,widgets,permissions,tags'),
     folderId: z.number().optional().describe('Filter by folder ID.'),
-    treeView: z.boolean().optional().describe('Set to true to return playlists in a tree structure.')
+    treeView: z.boolean().optional().describe('Set to true to return playlists in a tree structure.'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema: z.object({
     success: z.boolean(),
     data: z.union([z.array(playlistSchema), treeResponseSchema]).optional(),
+    pagination: paginationSummarySchema.optional(),
     message: z.string().optional(),
     errorData: z.any().optional(),
   }),
@@ -268,11 +276,11 @@ export const getPlaylists = createTool({
         return { success: false, message: "CMS URL is not configured" };
       }
 
-      const headers = await getAuthHeaders();
-      
-      // Dynamically construct query parameters from the input context
+      const { pagination, filters } = splitPaginationOptions(context);
+
+      // Dynamically construct query parameters from the input filters
       const queryParams = new URLSearchParams();
-      Object.entries(context).forEach(([key, value]) => {
+      Object.entries(filters).forEach(([key, value]) => {
         if (value !== undefined) {
           // Exclude treeView from query params as it's a client-side flag
           if (key === 'treeView') return;
@@ -286,32 +294,24 @@ export const getPlaylists = createTool({
         }
       });
       
-      let url = `${config.cmsUrl}/api/playlist`;
-      if (queryParams.toString()) {
-        url = `${url}?${queryParams.toString()}`;
-      }
+      const url = new URL(`${config.cmsUrl}/api/playlist`);
+      url.search = queryParams.toString();
       
-      logger.debug({}, `Requesting playlists from: ${url}`);
+      logger.debug({ pagination }, `Requesting playlists from: ${url.toString()}`);
       
-      const response = await fetch(url, { headers });
+      const result = await fetchPaginated(url, pagination);
       
-      if (!response.ok) {
-        const responseText = await response.text();
-        let parsedError: any;
-        try {
-            parsedError = JSON.parse(responseText);
-        } catch (e) {
-            parsedError = responseText;
-        }
-        logger.error({ status: response.status, error: parsedError }, "getPlaylists: API error response");
-        return { success: false, message: `HTTP error! status: ${response.status}`, errorData: parsedError };
+      if (!result.success) {
+        logger.error({ status: result.status, error: result.errorData }, "getPlaylists: API error response");
+        return { success: false, message: `HTTP error! status: ${result.status}`, errorData: result.errorData };
       }
 
-      const data = await response.json();
+      const data = result.items;
+      const message = describePagination(result.pagination, 'playlists');
       
       // Return early with an empty array if the API provides no data
-      if (Array.isArray(data) && data.length === 0) {
-        return { success: true, data: [] };
+      if (data.length === 0) {
+        return { success: true, data: [], message, pagination: result.pagination };
       }
 
       // The API may return JSON strings within the data, so parse them
@@ -321,13 +321,13 @@ export const getPlaylists = createTool({
       if (context.treeView) {
         const playlistTree = buildPlaylistTree(parsedData);
         const treeViewData = createTreeViewResponse(parsedData, playlistTree, playlistNodeFormatter);
-        return { success: true, data: treeViewData };
+        return { success: true, data: treeViewData, message, pagination: result.pagination };
       }
       
       // Validate the final data against the playlist schema before returning
       try {
         const validatedData = z.array(playlistSchema).parse(parsedData);
-        return { success: true, data: validatedData };
+        return { success: true, data: validatedData, message, pagination: result.pagination };
       } catch (validationError) {
         logger.warn({
           error: validationError,
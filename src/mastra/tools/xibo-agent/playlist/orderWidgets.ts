@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 // Schema for the widget position data in the input
@@ -73,7 +74,7 @@ export const orderWidgets = createTool({
         formData.append(`widgets[${widget.widgetId}]`, widget.position.toString());
       });
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers: {
             ...headers,
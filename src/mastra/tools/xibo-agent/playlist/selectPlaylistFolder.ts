@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 /**
@@ -55,7 +56,7 @@ export const selectPlaylistFolder = createTool({
       formData.append('folderId', context.folderId.toString());
 
       // Make the PUT request to the Xibo API.
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'PUT',
         headers: {
             ...headers,
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from '../../../logger';
 import { decodeErrorMessage } from "../utility/error";
 import { resolutionSchema } from "./schemas";
@@ -69,7 +70,7 @@ export const addResolution = createTool({
       const headers = await getAuthHeaders();
       headers['Content-Type'] = 'application/x-www-form-urlencoded';
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "POST",
         headers,
         body: formData.toString(),
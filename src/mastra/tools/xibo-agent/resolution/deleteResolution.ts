@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from '../../../logger';
 import { decodeErrorMessage } from "../utility/error";
 
@@ -58,7 +59,7 @@ export const deleteResolution = createTool({
 
       const headers = await getAuthHeaders();
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: "DELETE",
         headers,
       });
@@ -19,9 +19,14 @@
 import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
 import { logger } from '../../../logger';
-import { decodeErrorMessage } from "../utility/error";
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from "../utility/pagination";
 import { resolutionSchema } from "./schemas";
 
 /**
@@ -33,6 +38,7 @@ const outputSchema = z.object({
   message: z.string().optional().describe("A message providing details about the operation outcome."),
   error: z.any().optional().describe("Error details if the operation failed."),
   errorData: z.any().optional().describe("Raw error data from the API."),
+  pagination: paginationSummarySchema.optional(),
 });
 
 /**
@@ -48,6 +54,7 @@ export const getResolutions = createTool({
     enabled: z.number().optional().describe('Filter by enabled status (1 for enabled, 0 for disabled)'),
     width: z.number().optional().describe('Filter by exact width'),
     height: z.number().optional().describe('Filter by exact height'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -61,7 +68,8 @@ export const getResolutions = createTool({
 
     try {
       const params = new URLSearchParams();
-      Object.entries(context).forEach(([key, value]) => {
+      const { pagination, filters } = splitPaginationOptions(context);
+      Object.entries(filters).forEach(([key, value]) => {
         if (value !== undefined) {
           params.append(key, String(value));
         }
@@ -70,31 +78,17 @@ export const getResolutions = createTool({
       const url = new URL(`${config.cmsUrl}/api/resolution`);
       url.search = params.toString();
       
-      logger.debug({ url: url.toString() }, "Sending GET request to retrieve resolutions.");
+      logger.debug({ url: url.toString(), pagination }, "Sending GET request to retrieve resolutions.");
 
-      const headers = await getAuthHeaders();
-      const response = await fetch(url.toString(), {
-        method: "GET",
-        headers,
-      });
+      const result = await fetchPaginated(url, pagination);
 
-      const responseText = await response.text();
-      
-      if (!response.ok) {
-        const errorData = decodeErrorMessage(responseText);
-        const message = `API request failed with status ${response.status}.`;
-        logger.error({ status: response.status, errorData, context }, message);
-        return { success: false, message, errorData };
-      }
-      
-      let responseData;
-      try {
-        responseData = JSON.parse(responseText);
-      } catch (e) {
-        const message = "Invalid JSON response from server.";
-        logger.error({ responseText, context }, message);
-        return { success: false, message, errorData: responseText, };
+      if (!result.success) {
+        const message = `API request failed with status ${result.status}.`;
+        logger.error({ status: result.status, errorData: result.errorData, context }, message);
+        return { success: false, message, errorData: result.errorData };
       }
+
+      const responseData = result.items;
       
       const validationResult = z.array(resolutionSchema).safeParse(responseData);
 
@@ -105,7 +99,12 @@ export const getResolutions = createTool({
       }
 
       logger.info({ count: validationResult.data.length }, "Successfully retrieved resolutions.");
-      return { success: true, data: validationResult.data };
+      return {
+        success: true,
+        message: describePagination(result.pagination, "resolutions"),
+        data: validationResult.data,
+        pagination: result.pagination,
+      };
 
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
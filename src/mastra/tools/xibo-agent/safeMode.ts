@@ -0,0 +1,308 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Safe Mode Confirmation Gate
+ *
+ * Classifies every Xibo tool as `read`, `write` or `destructive` and, while safe mode is
+ * enabled, stops destructive tools (delete, purge, clear ...) from running straight from a
+ * chat message. The first call only returns a plan with a `confirmationId`; the tool runs
+ * when it is called again with the same input in a request the user approved.
+ *
+ * The approval is not a tool input, so the agent cannot give it itself: the client sends it
+ * with the user's next message in the `X-Safe-Mode-Approval` (confirmation IDs) and
+ * `X-Safe-Mode-Approved-By` headers, which the server copies into the runtime context
+ * (`safeModeApproval` and `safeModeApprovedBy`, also settable in the playground).
+ * Code that calls a tool directly goes through the same gate with `executeTool()`.
+ *
+ * The policy is read from `safe-mode.json` in the project root (or `XIBO_SAFE_MODE_FILE`):
+ *
+ * ```json
+ * {
+ *   "enabled": true,
+ *   "tokenTtlSeconds": 600,
+ *   "destructiveTools": ["retire-layout"],
+ *   "nonDestructiveTools": ["delete-upload-files"],
+ *   "profiles": { "staging": { "enabled": false } },
+ *   "agents": { "xibo-agent": { "enabled": true } }
+ * }
+ * ```
+ *
+ * The most specific setting wins: agent, then CMS profile, then `enabled`, then the
+ * `XIBO_SAFE_MODE` variable ("off" disables it). Safe mode is on by default.
+ */
+
+import { z } from 'zod';
+import fs from 'fs';
+import crypto from 'crypto';
+import { Tool } from '@mastra/core/tools';
+import type { Tool as ToolType, ToolExecutionContext } from '@mastra/core/tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { config } from './config';
+import { logger } from '../../logger';
+import { getActiveCmsProfileName } from './cmsContext';
+import type { XiboTool, XiboToolContext } from './xiboTool';
+
+export type ToolRisk = 'read' | 'write' | 'destructive';
+
+const READ_TOOL_PREFIXES = ['get-', 'list-', 'check-', 'is-', 'search-', 'test-', 'download-', 'export-'];
+const DESTRUCTIVE_TOOL_PREFIXES = ['delete-', 'purge-', 'clear-', 'discard-'];
+const DESTRUCTIVE_TOOL_IDS = ['tidy-library', 'change-password', 'apply-library-cleanup', 'apply-menu-board-import'];
+
+const DEFAULT_TOKEN_TTL_SECONDS = 600;
+
+const policySettingSchema = z.object({
+  enabled: z.boolean().optional(),
+});
+
+const policyFileSchema = z.object({
+  enabled: z.boolean().optional(),
+  tokenTtlSeconds: z.number().int().positive().optional(),
+  destructiveTools: z.array(z.string()).optional(),
+  nonDestructiveTools: z.array(z.string()).optional(),
+  profiles: z.record(policySettingSchema).optional(),
+  agents: z.record(policySettingSchema).optional(),
+});
+
+type SafeModePolicy = z.infer<typeof policyFileSchema>;
+
+let policy: SafeModePolicy | null = null;
+
+function getPolicy(): SafeModePolicy {
+  if (policy) return policy;
+  policy = {};
+  if (fs.existsSync(config.safeModeFile)) {
+    try {
+      const parsed = policyFileSchema.safeParse(JSON.parse(fs.readFileSync(config.safeModeFile, 'utf-8')));
+      if (parsed.success) {
+        policy = parsed.data;
+      } else {
+        logger.error({ file: config.safeModeFile, error: parsed.error.flatten() }, 'Invalid safe mode policy file; using defaults');
+      }
+    } catch (error) {
+      logger.error({ file: config.safeModeFile, error: error instanceof Error ? error.message : error }, 'Failed to read safe mode policy file');
+    }
+  }
+  return policy;
+}
+
+/**
+ * Drops the loaded policy so the next check re-reads the file.
+ */
+export function reloadSafeModePolicy(): void {
+  policy = null;
+}
+
+/**
+ * Returns the risk class of a tool from its ID.
+ */
+export function classifyTool(toolId: string): ToolRisk {
+  const { destructiveTools = [], nonDestructiveTools = [] } = getPolicy();
+  if (destructiveTools.includes(toolId)) return 'destructive';
+  const isDestructive = DESTRUCTIVE_TOOL_IDS.includes(toolId) || DESTRUCTIVE_TOOL_PREFIXES.some((prefix) => toolId.startsWith(prefix));
+  if (isDestructive && !nonDestructiveTools.includes(toolId)) return 'destructive';
+  return READ_TOOL_PREFIXES.some((prefix) => toolId.startsWith(prefix)) ? 'read' : 'write';
+}
+
+/**
+ * Tells whether destructive tools need confirmation for the given CMS profile and agent.
+ */
+export function isSafeModeEnabled(cmsProfile: string, agent?: string): boolean {
+  const current = getPolicy();
+  const agentSetting = agent ? current.agents?.[agent]?.enabled : undefined;
+  const profileSetting = current.profiles?.[cmsProfile]?.enabled;
+  return agentSetting ?? profileSetting ?? current.enabled ?? process.env.XIBO_SAFE_MODE !== 'off';
+}
+
+/**
+ * RuntimeContext key holding the confirmation IDs the user approved (comma separated).
+ */
+export const SAFE_MODE_APPROVAL_CONTEXT_KEY = 'safeModeApproval';
+
+/**
+ * RuntimeContext key holding the name of the person who approved them.
+ */
+export const SAFE_MODE_APPROVED_BY_CONTEXT_KEY = 'safeModeApprovedBy';
+
+interface PendingConfirmation {
+  toolId: string;
+  inputHash: string;
+  cmsProfile: string;
+  agent?: string;
+  expiresAt: number;
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+function hashInput(input: unknown): string {
+  const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.keys(value).sort().map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(sortKeys(input ?? {}))).digest('hex');
+}
+
+function purgeExpiredConfirmations(now: number): void {
+  for (const [id, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) pendingConfirmations.delete(id);
+  }
+}
+
+const confirmationRequiredSchema = z.object({
+  success: z.literal(false),
+  requiresConfirmation: z.literal(true),
+  message: z.string(),
+  data: z.object({
+    confirmationId: z.string(),
+    tool: z.string(),
+    risk: z.literal('destructive'),
+    cmsProfile: z.string(),
+    input: z.any(),
+    expiresAt: z.string(),
+  }),
+});
+
+const confirmationErrorSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+});
+
+export type SafeModeRefusal = z.infer<typeof confirmationRequiredSchema> | z.infer<typeof confirmationErrorSchema>;
+
+/** Runtime context as far as the gate reads it; tests pass a Map. */
+type ApprovalSource = Pick<RuntimeContext, 'get'> | undefined;
+
+function readApproval(runtimeContext: ApprovalSource): { confirmationIds: string[]; approvedBy?: string } {
+  const ids = runtimeContext?.get(SAFE_MODE_APPROVAL_CONTEXT_KEY);
+  const approvedBy = runtimeContext?.get(SAFE_MODE_APPROVED_BY_CONTEXT_KEY);
+  return {
+    confirmationIds: typeof ids === 'string' ? ids.split(',').map((id) => id.trim()).filter(Boolean) : [],
+    approvedBy: typeof approvedBy === 'string' && approvedBy.trim() ? approvedBy.trim() : undefined,
+  };
+}
+
+/**
+ * Decides whether a destructive tool call may run. Returns null when it may, otherwise the
+ * plan to show the user (first call) or the reason the approval was rejected.
+ *
+ * @param toolId - ID of the tool about to run
+ * @param input - The validated input of the call
+ * @param runtimeContext - Runtime context of the request, holding the user's approval
+ * @param agent - Name of the agent calling the tool, used to look up its policy
+ */
+export function checkSafeMode(toolId: string, input: unknown, runtimeContext: ApprovalSource, agent?: string): SafeModeRefusal | null {
+  const cmsProfile = getActiveCmsProfileName();
+  if (classifyTool(toolId) !== 'destructive' || !isSafeModeEnabled(cmsProfile, agent)) {
+    return null;
+  }
+
+  const now = Date.now();
+  purgeExpiredConfirmations(now);
+  const inputHash = hashInput(input);
+  const { confirmationIds, approvedBy } = readApproval(runtimeContext);
+  const approved = confirmationIds
+    .map((id) => ({ id, pending: pendingConfirmations.get(id) }))
+    .filter(({ pending }) => pending?.toolId === toolId && pending.cmsProfile === cmsProfile && pending.agent === agent);
+
+  if (approved.length === 0) {
+    if (confirmationIds.some((id) => !pendingConfirmations.has(id))) {
+      logger.warn({ tool: toolId, agent }, 'Rejected destructive operation with an unknown or expired confirmation');
+      return { success: false, message: 'The approved confirmation is unknown or has expired. Call the tool again to get a new plan for the user to approve.' };
+    }
+    const confirmationId = crypto.randomUUID();
+    const ttlSeconds = getPolicy().tokenTtlSeconds ?? DEFAULT_TOKEN_TTL_SECONDS;
+    const expiresAt = now + ttlSeconds * 1000;
+    pendingConfirmations.set(confirmationId, { toolId, inputHash, cmsProfile, agent, expiresAt });
+    logger.info({ tool: toolId, agent, input }, 'Destructive operation planned; waiting for confirmation');
+    return {
+      success: false,
+      requiresConfirmation: true,
+      message: `"${toolId}" is a destructive operation on CMS profile "${cmsProfile}" and was not executed. Show this plan and its confirmationId to the user. Once the user approves it (their client sends the confirmationId with the next message), call the tool again with the same input.`,
+      data: {
+        confirmationId,
+        tool: toolId,
+        risk: 'destructive',
+        cmsProfile,
+        input,
+        expiresAt: new Date(expiresAt).toISOString(),
+      },
+    };
+  }
+
+  const match = approved.find(({ pending }) => pending!.inputHash === inputHash);
+  if (!match) {
+    logger.warn({ tool: toolId, agent }, 'Rejected destructive operation whose input differs from the approved plan');
+    return { success: false, message: 'The input differs from the approved plan. Call the tool again with the planned input, or get a new plan approved.' };
+  }
+  if (!approvedBy) {
+    return { success: false, message: 'The approval does not name the person who approved it; the client must send it with the confirmationId.' };
+  }
+
+  pendingConfirmations.delete(match.id);
+  logger.warn({ tool: toolId, agent, approvedBy, input }, 'Destructive operation approved');
+  return null;
+}
+
+/**
+ * Wraps a tool with the confirmation gate. Tools that are not destructive are returned
+ * unchanged.
+ *
+ * @param tool - The tool to wrap
+ * @param options.agent - Name of the agent the tool is given to, used to look up its policy
+ */
+export function withSafeMode(tool: XiboTool, options: { agent?: string } = {}): XiboTool {
+  if (classifyTool(tool.id) !== 'destructive') {
+    return tool;
+  }
+
+  const outputSchema = tool.outputSchema instanceof z.ZodType
+    ? z.union([tool.outputSchema, confirmationRequiredSchema, confirmationErrorSchema])
+    : tool.outputSchema;
+
+  return new Tool({
+    ...tool,
+    outputSchema,
+    execute: async (args: XiboToolContext, invocation) => {
+      const refusal = checkSafeMode(tool.id, args.context, args.runtimeContext, options.agent);
+      return refusal ?? tool.execute!(args, invocation);
+    },
+  });
+}
+
+/**
+ * Calls a tool from code, with typed input and output, through the same confirmation gate
+ * as the agent's calls. Use it instead of calling `execute` of another tool directly.
+ *
+ * @param tool - The tool to run
+ * @param input - Its input; defaults of the input schema are applied
+ * @param runtimeContext - Runtime context of the calling tool or workflow step
+ */
+export async function executeTool<TIn extends z.ZodTypeAny, TOut extends z.ZodTypeAny>(
+  tool: ToolType<TIn, TOut, any, any, ToolExecutionContext<TIn>>,
+  input: z.input<TIn>,
+  runtimeContext: RuntimeContext = new RuntimeContext(),
+): Promise<z.infer<TOut> | SafeModeRefusal> {
+  let context: z.infer<TIn> = input;
+  if (tool.inputSchema) {
+    const parsed = tool.inputSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, message: `Invalid input for ${tool.id}: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}` };
+    }
+    context = parsed.data;
+  }
+  const refusal = checkSafeMode(tool.id, context, runtimeContext);
+  if (refusal) return refusal;
+  return tool.execute!({ context, runtimeContext });
+}
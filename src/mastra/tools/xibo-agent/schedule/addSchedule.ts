@@ -19,6 +19,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core';
 import { logger } from '../../../logger';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { scheduleEventSchema } from './schemas';
 
@@ -84,7 +85,7 @@ export const addSchedule = createTool({
                 }
             }
 
-            const response = await fetch(url, {
+            const response = await xiboClient.fetch(url, {
                 method: 'POST',
                 headers,
                 body: params,
@@ -0,0 +1,60 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module
+ * This module provides a tool that creates the events of a previewed schedule plan
+ * as one unit, deleting the already created events again if any creation fails.
+ */
+
+import { z } from "zod";
+import { createTool } from '@mastra/core/tools';
+import { applySchedulePlan as applyPlan, formatConflictTable } from "../schedulePlanner";
+import { logger } from '../../../logger';
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    created: z.array(z.object({ key: z.string(), eventId: z.number() })),
+    conflictTable: z.string(),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for applying a previewed schedule plan.
+ */
+export const applySchedulePlan = createTool({
+  id: 'apply-schedule-plan',
+  description: 'Create all events of a schedule plan previewed with planSchedule. The schedule is checked again first; if any event fails, the created events are rolled back.',
+  inputSchema: z.object({
+    planId: z.string().describe("Plan ID returned by planSchedule."),
+    acceptConflicts: z.boolean().optional().default(false)
+      .describe("Apply even though planned events are hidden by higher priority events. Only after the user agreed."),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const result = await applyPlan(context.planId, { acceptConflicts: context.acceptConflicts });
+      return {
+        success: true,
+        message: `Created ${result.created.length} schedule events.`,
+        data: { created: result.created, conflictTable: formatConflictTable(result.conflicts) },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ planId: context.planId, error: errorMessage }, "applySchedulePlan: Failed to apply schedule plan");
+      return { success: false, message: `Failed to apply schedule plan: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
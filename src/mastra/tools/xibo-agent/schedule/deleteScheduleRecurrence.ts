@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core';
 import { logger } from '../../../logger';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 
 // Schema for the overall response
@@ -56,7 +57,7 @@ export const deleteScheduleRecurrence = createTool({
 
         try {
             const headers = await getAuthHeaders();
-            const response = await fetch(url, {
+            const response = await xiboClient.fetch(url, {
                 method: 'DELETE',
                 headers,
             });
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core';
 import { logger } from '../../../logger';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { scheduleEventSchema } from './schemas';
 
@@ -96,7 +97,7 @@ export const editSchedule = createTool({
                 }
             }
 
-            const response = await fetch(url, {
+            const response = await xiboClient.fetch(url, {
                 method,
                 headers,
                 body: params,
@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core';
 import { logger } from '../../../logger';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { scheduleEventSchema } from './schemas';
 
@@ -60,7 +61,7 @@ export const getScheduleDataEvents = createTool({
 
         try {
             const headers = await getAuthHeaders();
-            const response = await fetch(url, { headers });
+            const response = await xiboClient.fetch(url, { headers });
 
             if (!response.ok) {
                 const errorData = await response.json().catch(() => response.statusText);
@@ -0,0 +1,89 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module
+ * This module provides a tool that shows what displays will actually play over a time
+ * range, as a table, a Gantt chart image and optionally an iCalendar file.
+ */
+
+import { z } from "zod";
+import { createTool } from '@mastra/core/tools';
+import {
+  renderScheduleTimelinePng,
+  resolveScheduleTimeline,
+  saveScheduleTimelineIcs,
+} from "../scheduleTimeline";
+import { logger } from '../../../logger';
+
+const segmentSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  source: z.enum(['schedule', 'default', 'none']).describe("schedule: scheduled events, default: the display's default layout, none: nothing to play."),
+  playing: z.array(z.string()).describe("Campaigns/layouts playing; several entries share the airtime."),
+  eventIds: z.array(z.number()),
+  priority: z.number().nullable(),
+  hiddenEventIds: z.array(z.number()).describe("Events active at the same time but hidden by a higher priority."),
+});
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    from: z.string(),
+    to: z.string(),
+    displays: z.array(z.object({
+      displayId: z.number(),
+      display: z.string(),
+      defaultLayout: z.string().nullable(),
+      segments: z.array(segmentSchema),
+    })),
+    imageUrl: z.string().optional().describe("Gantt chart of the timeline (PNG)."),
+    icsUrl: z.string().optional().describe("Download URL of the iCalendar export."),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for resolving and visualizing the effective schedule of displays.
+ */
+export const getScheduleTimeline = createTool({
+  id: 'get-schedule-timeline',
+  description: 'Show what displays will actually play over a date range (recurrences, day parts, priorities and default layouts resolved), rendered as a Gantt chart image and optionally exported as an iCalendar (.ics) file.',
+  inputSchema: z.object({
+    displayIds: z.array(z.number()).optional().describe("Displays to show."),
+    displayGroupIds: z.array(z.number()).optional().describe("Display groups whose member displays are shown."),
+    fromDt: z.string().describe("Start of the range, 'YYYY-MM-DD HH:mm:ss'."),
+    toDt: z.string().describe("End of the range, 'YYYY-MM-DD HH:mm:ss' (at most 31 days after fromDt)."),
+    image: z.boolean().optional().default(true).describe("Render the Gantt chart image."),
+    ics: z.boolean().optional().default(false).describe("Export the timeline as an iCalendar file."),
+    title: z.string().optional().describe("Chart title. Defaults to the range."),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const timeline = await resolveScheduleTimeline(context);
+      const image = context.image !== false ? await renderScheduleTimelinePng(timeline, context.title) : undefined;
+      const ics = context.ics ? await saveScheduleTimelineIcs(timeline) : undefined;
+      const segments = timeline.displays.reduce((sum, d) => sum + d.segments.length, 0);
+      return {
+        success: true,
+        message: `Resolved ${segments} timeline segments for ${timeline.displays.length} displays.`,
+        data: { ...timeline, imageUrl: image?.imageUrl, icsUrl: ics?.icsUrl },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "getScheduleTimeline: Failed to resolve the schedule timeline");
+      return { success: false, message: `Failed to resolve the schedule timeline: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
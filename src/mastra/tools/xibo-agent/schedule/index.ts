@@ -24,4 +24,7 @@ export { getScheduleDataEvents } from './getScheduleDataEvents';
 export { getScheduleDisplayGroupIdEvents } from './getScheduleDisplayGroupIdEvents';
 export { addSchedule } from './addSchedule';
 export { editSchedule } from './editSchedule';
-export { scheduleEventSchema } from './schemas';
\ No newline at end of file
+export { planSchedule } from './planSchedule';
+export { applySchedulePlan } from './applySchedulePlan';
+export { getScheduleTimeline } from './getScheduleTimeline';
+export { scheduleEventSchema } from './schemas';
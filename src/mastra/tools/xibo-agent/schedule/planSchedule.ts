@@ -0,0 +1,109 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module
+ * This module provides a tool that expands a bulk schedule plan into Xibo events and
+ * checks them for overlaps and priority conflicts with the existing schedule.
+ */
+
+import { z } from "zod";
+import { createTool } from '@mastra/core/tools';
+import {
+  CONFLICT_TYPES,
+  formatConflictTable,
+  previewSchedulePlan,
+  schedulePlanSchema,
+} from "../schedulePlanner";
+import { logger } from '../../../logger';
+
+const plannedEventSchema = z.object({
+  key: z.string().describe("Reference of the event within the plan (item.number)."),
+  campaignId: z.number(),
+  campaign: z.string(),
+  displayGroupIds: z.array(z.number()),
+  eventTypeId: z.number(),
+  fromDt: z.string(),
+  toDt: z.string(),
+  dayPartId: z.number().optional(),
+  isPriority: z.number(),
+  displayOrder: z.number().optional(),
+  recurrenceType: z.string().optional(),
+  recurrenceDetail: z.number().optional(),
+  recurrenceRepeatsOn: z.array(z.number()).optional(),
+  recurrenceRange: z.string().optional(),
+  name: z.string().optional(),
+});
+
+const conflictSchema = z.object({
+  type: z.enum(CONFLICT_TYPES),
+  severity: z.enum(['error', 'warning']),
+  displayGroupId: z.number(),
+  displayGroup: z.string(),
+  planned: z.string(),
+  plannedCampaign: z.string(),
+  other: z.string().describe("Conflicting event: 'event <id>' for existing events, 'planned <key>' for events of the plan."),
+  otherCampaign: z.string(),
+  otherIsPlanned: z.boolean(),
+  firstOverlap: z.string(),
+  occurrences: z.number(),
+  overlapMinutes: z.number(),
+});
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    planId: z.string().describe("Pass to applySchedulePlan to create the events."),
+    expiresAt: z.string(),
+    horizon: z.object({ from: z.string(), to: z.string() }),
+    events: z.array(plannedEventSchema),
+    conflicts: z.array(conflictSchema),
+    conflictTable: z.string().describe("Markdown table of the conflicts; show it to the user before applying."),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for previewing a bulk schedule plan.
+ */
+export const planSchedule = createTool({
+  id: 'plan-schedule',
+  description: 'Expand a bulk schedule plan (campaigns x display groups x time windows, with recurrence or day parts) and detect overlaps and priority conflicts with the existing schedule. Nothing is created; use applySchedulePlan with the returned planId.',
+  inputSchema: schedulePlanSchema,
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const preview = await previewSchedulePlan(context);
+      const errors = preview.conflicts.filter((c) => c.severity === 'error').length;
+      const warnings = preview.conflicts.length - errors;
+      return {
+        success: true,
+        message: preview.conflicts.length
+          ? `${preview.events.length} events planned with ${errors} blocking and ${warnings} warning conflicts.`
+          : `${preview.events.length} events planned without conflicts.`,
+        data: {
+          planId: preview.planId,
+          expiresAt: preview.expiresAt,
+          horizon: preview.horizon,
+          events: preview.events,
+          conflicts: preview.conflicts,
+          conflictTable: formatConflictTable(preview.conflicts),
+        },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "planSchedule: Failed to plan schedule");
+      return { success: false, message: `Failed to plan schedule: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
@@ -0,0 +1,580 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Bulk Schedule Planner
+ *
+ * Turns a schedule plan (campaigns x display groups x time windows, optionally
+ * recurring or bound to a day part) into Xibo schedule events, checks them against the
+ * events already scheduled on the same display groups and applies them as one unit.
+ *
+ * Conflicts are detected per display group by expanding the recurrences of planned and
+ * existing layout/campaign events over the planning horizon:
+ * - `overlap`: same priority, the campaigns share airtime while both are active
+ * - `shadowed`: a higher priority event hides the planned event
+ * - `shadows`: the planned event hides a lower priority event
+ *
+ * `previewSchedulePlan()` returns the events and conflicts and keeps the plan for a
+ * while; `applySchedulePlan()` re-checks the conflicts, creates the events and deletes
+ * the ones already created if any creation fails.
+ *
+ * Times are 'YYYY-MM-DD HH:mm:ss' strings in the CMS timezone, which is assumed to be
+ * the timezone the agent runs in (set TZ accordingly). Nested display groups and day
+ * part exceptions are not considered.
+ */
+
+import { z } from 'zod';
+import { config } from './config';
+import { logger } from '../../logger';
+import { getActiveCmsProfileName } from './cmsContext';
+import { xiboClient } from './xiboClient';
+import { fetchPaginated, loadRecords } from './utility/pagination';
+import { formatDateTime, toUnixSeconds } from './utility/dateTime';
+import { PlanStore } from './utility/planStore';
+
+export const RECURRENCE_TYPES = ['Minute', 'Hour', 'Day', 'Week', 'Month', 'Year'] as const;
+
+export type RecurrenceType = typeof RECURRENCE_TYPES[number];
+
+export const CONFLICT_TYPES = ['overlap', 'shadowed', 'shadows'] as const;
+
+export type ScheduleConflictType = typeof CONFLICT_TYPES[number];
+
+const dateTimeSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2})?$/, "Use 'YYYY-MM-DD HH:mm:ss'.");
+
+/**
+ * Schema of a plan accepted by `previewSchedulePlan()`.
+ */
+export const schedulePlanSchema = z.object({
+  items: z.array(z.object({
+    campaignIds: z.array(z.number()).min(1).describe("Campaigns (or layout campaign IDs) to schedule."),
+    displayGroupIds: z.array(z.number()).min(1).describe("Display groups every campaign is scheduled on."),
+    windows: z.array(z.object({
+      fromDt: dateTimeSchema.describe("Start, 'YYYY-MM-DD HH:mm:ss'. With a day part only the date is used."),
+      toDt: dateTimeSchema.optional().describe("End, 'YYYY-MM-DD HH:mm:ss'. Not needed with a day part."),
+    })).min(1).describe("Time windows; one event is created per campaign and window."),
+    dayPartId: z.number().optional().describe("Day part to use instead of the window times."),
+    eventTypeId: z.number().optional().default(1).describe("1=Layout, 5=Campaign."),
+    isPriority: z.number().int().min(0).optional().default(0).describe("Priority; higher priorities hide lower ones."),
+    displayOrder: z.number().optional().describe("Order among events with the same priority."),
+    recurrence: z.object({
+      type: z.enum(RECURRENCE_TYPES),
+      interval: z.number().int().min(1).optional().default(1).describe("Repeat every N units."),
+      repeatsOn: z.array(z.number().int().min(1).max(7)).optional().describe("Weekly only: ISO weekdays (1=Mon ... 7=Sun)."),
+      until: dateTimeSchema.optional().describe("Last date of the recurrence. Repeats forever when omitted."),
+    }).optional(),
+    name: z.string().optional().describe("Event name."),
+  })).min(1),
+  horizonDays: z.number().int().min(1).max(366).optional().default(60)
+    .describe("How many days of recurring events are checked for conflicts."),
+});
+
+export type SchedulePlan = z.input<typeof schedulePlanSchema>;
+
+/**
+ * A schedule event the plan will create.
+ */
+export interface PlannedEvent {
+  key: string;
+  campaignId: number;
+  campaign: string;
+  displayGroupIds: number[];
+  eventTypeId: number;
+  fromDt: string;
+  toDt: string;
+  dayPartId?: number;
+  isPriority: number;
+  displayOrder?: number;
+  recurrenceType?: RecurrenceType;
+  recurrenceDetail?: number;
+  recurrenceRepeatsOn?: number[];
+  recurrenceRange?: string;
+  name?: string;
+}
+
+/**
+ * One conflicting pair of events on a display group, aggregated over all occurrences.
+ */
+export interface ScheduleConflict {
+  type: ScheduleConflictType;
+  severity: 'error' | 'warning';
+  displayGroupId: number;
+  displayGroup: string;
+  planned: string;
+  plannedCampaign: string;
+  other: string;
+  otherCampaign: string;
+  otherIsPlanned: boolean;
+  firstOverlap: string;
+  occurrences: number;
+  overlapMinutes: number;
+}
+
+export interface SchedulePlanPreview {
+  planId: string;
+  cmsProfile: string;
+  horizon: { from: string; to: string };
+  events: PlannedEvent[];
+  conflicts: ScheduleConflict[];
+  expiresAt: string;
+}
+
+export interface SchedulePlanApplyResult {
+  created: { key: string; eventId: number }[];
+  conflicts: ScheduleConflict[];
+}
+
+// Events are compared as half-open intervals in unix seconds.
+interface Occurrence { start: number; end: number }
+
+// The fields of a schedule event used for expansion, for both existing and planned events.
+interface EventTiming {
+  fromDt: number;
+  toDt: number;
+  isAlways?: boolean;
+  recurrenceType?: string | null;
+  recurrenceDetail?: number | null;
+  recurrenceRange?: number | null;
+  recurrenceRepeatsOn?: string | number[] | null;
+}
+
+const MAX_OCCURRENCES = 2000;
+// Xibo stores "always" events with these bounds.
+const ALWAYS_END = 2147483647;
+
+// -----------------------------------------------------------------------------
+// Time helpers
+// -----------------------------------------------------------------------------
+
+function addUnits(date: Date, type: string, amount: number): Date {
+  const next = new Date(date);
+  switch (type) {
+    case 'Minute': next.setMinutes(next.getMinutes() + amount); break;
+    case 'Hour': next.setHours(next.getHours() + amount); break;
+    case 'Day': next.setDate(next.getDate() + amount); break;
+    case 'Week': next.setDate(next.getDate() + amount * 7); break;
+    case 'Month': next.setMonth(next.getMonth() + amount); break;
+    case 'Year': next.setFullYear(next.getFullYear() + amount); break;
+    default: throw new Error(`Unsupported recurrence type '${type}'`);
+  }
+  return next;
+}
+
+const FIXED_UNIT_SECONDS: Record<string, number> = { Minute: 60, Hour: 3600, Day: 86400, Week: 604800 };
+
+const isoWeekday = (date: Date) => ((date.getDay() + 6) % 7) + 1;
+
+function parseRepeatsOn(value: EventTiming['recurrenceRepeatsOn']): number[] {
+  if (!value) return [];
+  const days = Array.isArray(value) ? value : String(value).split(',');
+  return days.map(Number).filter((day) => day >= 1 && day <= 7);
+}
+
+// -----------------------------------------------------------------------------
+// Recurrence expansion
+// -----------------------------------------------------------------------------
+
+/**
+ * Expands an event into the occurrences that intersect `[from, to)`.
+ * Weekly events with `recurrenceRepeatsOn` occur on each listed ISO weekday of every
+ * N-th week, starting with the week of the first occurrence.
+ */
+export function expandOccurrences(event: EventTiming, from: number, to: number): Occurrence[] {
+  if (event.isAlways || (event.fromDt <= 0 && event.toDt >= ALWAYS_END)) {
+    return [{ start: from, end: to }];
+  }
+  const duration = event.toDt - event.fromDt;
+  if (duration <= 0) return [];
+  if (!event.recurrenceType) {
+    return event.fromDt < to && event.toDt > from ? [{ start: event.fromDt, end: event.toDt }] : [];
+  }
+
+  const interval = Math.max(1, Number(event.recurrenceDetail) || 1);
+  const until = Math.min(to, event.recurrenceRange ? event.recurrenceRange : to);
+  const repeatsOn = event.recurrenceType === 'Week' ? parseRepeatsOn(event.recurrenceRepeatsOn) : [];
+  const first = new Date(event.fromDt * 1000);
+  const occurrences: Occurrence[] = [];
+
+  const push = (start: number) => {
+    if (start >= event.fromDt && start < until && start + duration > from) {
+      occurrences.push({ start, end: start + duration });
+    }
+  };
+
+  // Skip the repetitions that end before the window (approximately, for fixed-length units).
+  const unitSeconds = FIXED_UNIT_SECONDS[event.recurrenceType];
+  const skip = unitSeconds
+    ? Math.max(0, Math.floor((from - duration - event.fromDt) / (unitSeconds * interval)) - 2)
+    : 0;
+
+  for (let i = skip; occurrences.length < MAX_OCCURRENCES; i++) {
+    const base = addUnits(first, event.recurrenceType, i * interval);
+    if (repeatsOn.length) {
+      // Monday of this recurrence week, keeping the time of day.
+      const monday = new Date(base);
+      monday.setDate(monday.getDate() - (isoWeekday(base) - 1));
+      if (Math.floor(monday.getTime() / 1000) >= until) break;
+      for (const day of [...repeatsOn].sort()) {
+        const start = new Date(monday);
+        start.setDate(monday.getDate() + day - 1);
+        push(Math.floor(start.getTime() / 1000));
+      }
+    } else {
+      if (Math.floor(base.getTime() / 1000) >= until) break;
+      push(Math.floor(base.getTime() / 1000));
+    }
+  }
+  return occurrences;
+}
+
+const overlapSeconds = (a: Occurrence, b: Occurrence) => Math.min(a.end, b.end) - Math.max(a.start, b.start);
+
+// -----------------------------------------------------------------------------
+// CMS data
+// -----------------------------------------------------------------------------
+
+/**
+ * Lenient schema of the events returned by `GET /schedule`.
+ */
+export const scheduleRecordSchema = z.object({
+  eventId: z.number(),
+  eventTypeId: z.number(),
+  campaignId: z.number().nullable().optional(),
+  campaign: z.string().nullable().optional(),
+  displayGroups: z.array(z.object({ displayGroupId: z.number(), displayGroup: z.string() }).passthrough()).default([]),
+  fromDt: z.number().nullable(),
+  toDt: z.number().nullable(),
+  isPriority: z.number().nullable().optional(),
+  isAlways: z.number().nullable().optional(),
+  recurrenceType: z.string().nullable().optional(),
+  recurrenceDetail: z.number().nullable().optional(),
+  recurrenceRange: z.number().nullable().optional(),
+  recurrenceRepeatsOn: z.union([z.string(), z.array(z.number())]).nullable().optional(),
+}).passthrough();
+
+export type ScheduleRecord = z.infer<typeof scheduleRecordSchema>;
+
+const dayPartSchema = z.object({
+  dayPartId: z.number(),
+  name: z.string(),
+  isAlways: z.number(),
+  isCustom: z.number(),
+  startTime: z.string().nullable().optional(),
+  endTime: z.string().nullable().optional(),
+}).passthrough();
+
+type DayPart = z.infer<typeof dayPartSchema>;
+
+// Layout and campaign events compete for the main screen; overlays, commands etc. do not.
+const COMPETING_EVENT_TYPES = new Set([1, 5]);
+
+/**
+ * Loads the layout and campaign events scheduled on any of the display groups.
+ */
+export async function loadScheduleEvents(displayGroupIds: number[]): Promise<ScheduleRecord[]> {
+  const url = new URL(`${config.cmsUrl}/api/schedule`);
+  displayGroupIds.forEach((id) => url.searchParams.append('displayGroupIds[]', String(id)));
+  const result = await fetchPaginated(url, { all: true });
+  if (!result.success) {
+    throw new Error(`Reading the existing schedule failed: ${result.message}`);
+  }
+  return result.items
+    .map((item) => scheduleRecordSchema.safeParse(item))
+    .filter((parsed) => parsed.success)
+    .map((parsed) => parsed.data!)
+    .filter((event) => COMPETING_EVENT_TYPES.has(event.eventTypeId));
+}
+
+// -----------------------------------------------------------------------------
+// Plan building and conflict detection
+// -----------------------------------------------------------------------------
+
+/**
+ * Resolves the event times of a window, applying the day part if one is given.
+ */
+function windowTiming(window: { fromDt: string; toDt?: string }, dayPart?: DayPart): { fromDt: number; toDt: number; isAlways?: boolean } {
+  if (dayPart?.isAlways) {
+    return { fromDt: 0, toDt: ALWAYS_END, isAlways: true };
+  }
+  if (dayPart && !dayPart.isCustom && dayPart.startTime && dayPart.endTime) {
+    const date = window.fromDt.slice(0, 10);
+    const fromDt = toUnixSeconds(`${date} ${dayPart.startTime}`);
+    let toDt = toUnixSeconds(`${date} ${dayPart.endTime}`);
+    if (toDt <= fromDt) toDt += 86400; // day part runs past midnight
+    return { fromDt, toDt };
+  }
+  if (!window.toDt) {
+    throw new Error(`Window starting ${window.fromDt} needs a toDt (or a day part).`);
+  }
+  const fromDt = toUnixSeconds(window.fromDt);
+  const toDt = toUnixSeconds(window.toDt);
+  if (toDt <= fromDt) {
+    throw new Error(`Window ${window.fromDt} - ${window.toDt} ends before it starts.`);
+  }
+  return { fromDt, toDt };
+}
+
+interface TimedEvent {
+  key: string;
+  label: string;
+  campaign: string;
+  priority: number;
+  planned: boolean;
+  displayGroupIds: number[];
+  occurrences: Occurrence[];
+}
+
+function detectConflicts(planned: TimedEvent[], existing: TimedEvent[], groupNames: Map<number, string>): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  planned.forEach((event, index) => {
+    // Planned pairs are reported once, from the first event's side.
+    const others = [...existing, ...planned.slice(index + 1)];
+    for (const groupId of event.displayGroupIds) {
+      for (const other of others) {
+        if (!other.displayGroupIds.includes(groupId)) continue;
+        let occurrences = 0;
+        let overlap = 0;
+        let first = Infinity;
+        for (const a of event.occurrences) {
+          for (const b of other.occurrences) {
+            const seconds = overlapSeconds(a, b);
+            if (seconds <= 0) continue;
+            occurrences++;
+            overlap += seconds;
+            first = Math.min(first, Math.max(a.start, b.start));
+          }
+        }
+        if (!occurrences) continue;
+        const type: ScheduleConflictType =
+          other.priority > event.priority ? 'shadowed' : other.priority < event.priority ? 'shadows' : 'overlap';
+        conflicts.push({
+          type,
+          severity: type === 'shadowed' ? 'error' : 'warning',
+          displayGroupId: groupId,
+          displayGroup: groupNames.get(groupId) ?? `#${groupId}`,
+          planned: event.label,
+          plannedCampaign: event.campaign,
+          other: other.label,
+          otherCampaign: other.campaign,
+          otherIsPlanned: other.planned,
+          firstOverlap: formatDateTime(first),
+          occurrences,
+          overlapMinutes: Math.round(overlap / 60),
+        });
+      }
+    }
+  });
+  return conflicts;
+}
+
+interface StoredPlan {
+  preview: SchedulePlanPreview;
+  plan: z.output<typeof schedulePlanSchema>;
+}
+
+const storedPlans = new PlanStore<StoredPlan>('Schedule plan', 'Preview the plan again.');
+
+async function evaluatePlan(plan: z.output<typeof schedulePlanSchema>): Promise<Omit<SchedulePlanPreview, 'planId' | 'expiresAt'>> {
+  const cmsProfile = getActiveCmsProfileName();
+  const needsDayParts = plan.items.some((item) => item.dayPartId !== undefined);
+  const [campaigns, groups, dayParts] = await Promise.all([
+    loadRecords('/campaign', z.object({ campaignId: z.number(), campaign: z.string() }).passthrough()),
+    loadRecords('/displaygroup', z.object({ displayGroupId: z.number(), displayGroup: z.string() }).passthrough()),
+    needsDayParts ? loadRecords('/daypart', dayPartSchema) : Promise.resolve([] as DayPart[]),
+  ]);
+  const campaignNames = new Map(campaigns.map((c) => [c.campaignId, c.campaign]));
+  const groupNames = new Map(groups.map((g) => [g.displayGroupId, g.displayGroup]));
+
+  const events: PlannedEvent[] = [];
+  const timings: EventTiming[] = [];
+  plan.items.forEach((item, itemIndex) => {
+    const dayPart = item.dayPartId !== undefined ? dayParts.find((d) => d.dayPartId === item.dayPartId) : undefined;
+    if (item.dayPartId !== undefined && !dayPart) {
+      throw new Error(`Day part ${item.dayPartId} does not exist.`);
+    }
+    const recurrence = item.recurrence;
+    let eventIndex = 0;
+    for (const campaignId of item.campaignIds) {
+      for (const window of item.windows) {
+        const timing = windowTiming(window, dayPart);
+        events.push({
+          key: `${itemIndex + 1}.${++eventIndex}`,
+          campaignId,
+          campaign: campaignNames.get(campaignId) ?? `#${campaignId}`,
+          displayGroupIds: item.displayGroupIds,
+          eventTypeId: item.eventTypeId,
+          // Xibo ignores the times of "always" day part events but still requires them.
+          fromDt: timing.isAlways ? window.fromDt : formatDateTime(timing.fromDt),
+          toDt: timing.isAlways ? (window.toDt ?? window.fromDt) : formatDateTime(timing.toDt),
+          dayPartId: item.dayPartId,
+          isPriority: item.isPriority,
+          displayOrder: item.displayOrder,
+          recurrenceType: recurrence?.type,
+          recurrenceDetail: recurrence?.interval,
+          recurrenceRepeatsOn: recurrence?.repeatsOn,
+          recurrenceRange: recurrence?.until,
+          name: item.name,
+        });
+        timings.push({
+          ...timing,
+          recurrenceType: recurrence?.type,
+          recurrenceDetail: recurrence?.interval,
+          recurrenceRange: recurrence?.until ? toUnixSeconds(recurrence.until) : null,
+          recurrenceRepeatsOn: recurrence?.repeatsOn,
+        });
+      }
+    }
+  });
+
+  const starts = timings.filter((t) => !t.isAlways).map((t) => t.fromDt);
+  const horizonFrom = starts.length ? Math.min(...starts) : Math.floor(Date.now() / 1000);
+  const horizonTo = horizonFrom + plan.horizonDays * 86400;
+
+  const unknownGroups = [...new Set(events.flatMap((e) => e.displayGroupIds))].filter((id) => !groupNames.has(id));
+  if (unknownGroups.length) {
+    logger.warn({ unknownGroups }, 'Schedule plan targets display groups that were not found.');
+  }
+
+  const existing = await loadScheduleEvents([...new Set(events.flatMap((e) => e.displayGroupIds))]);
+  const existingTimed: TimedEvent[] = existing.map((event) => ({
+    key: `event-${event.eventId}`,
+    label: `event ${event.eventId}`,
+    campaign: event.campaign ?? campaignNames.get(event.campaignId ?? -1) ?? `#${event.campaignId}`,
+    priority: event.isPriority ?? 0,
+    planned: false,
+    displayGroupIds: event.displayGroups.map((g) => g.displayGroupId),
+    occurrences: expandOccurrences({
+      fromDt: event.fromDt ?? 0,
+      toDt: event.toDt ?? 0,
+      isAlways: event.isAlways === 1,
+      recurrenceType: event.recurrenceType,
+      recurrenceDetail: event.recurrenceDetail,
+      recurrenceRange: event.recurrenceRange,
+      recurrenceRepeatsOn: event.recurrenceRepeatsOn,
+    }, horizonFrom, horizonTo),
+  }));
+  const plannedTimed: TimedEvent[] = events.map((event, i) => ({
+    key: event.key,
+    label: `planned ${event.key}`,
+    campaign: event.campaign,
+    priority: event.isPriority,
+    planned: true,
+    displayGroupIds: event.displayGroupIds,
+    occurrences: expandOccurrences(timings[i], horizonFrom, horizonTo),
+  }));
+
+  return {
+    cmsProfile,
+    horizon: { from: formatDateTime(horizonFrom), to: formatDateTime(horizonTo) },
+    events,
+    conflicts: detectConflicts(plannedTimed, existingTimed, groupNames),
+  };
+}
+
+const conflictSignature = (conflicts: ScheduleConflict[]) =>
+  conflicts.map((c) => `${c.displayGroupId}:${c.planned}:${c.other}:${c.type}`).sort().join('|');
+
+/**
+ * Expands a plan, checks it against the current schedule and stores it for `applySchedulePlan()`.
+ */
+export async function previewSchedulePlan(input: SchedulePlan): Promise<SchedulePlanPreview> {
+  const plan = schedulePlanSchema.parse(input);
+  const evaluated = await evaluatePlan(plan);
+  const { preview } = storedPlans.put(({ id, expiresAt }) => ({ preview: { ...evaluated, planId: id, expiresAt }, plan }));
+  logger.info({ planId: preview.planId, events: preview.events.length, conflicts: preview.conflicts.length }, 'Schedule plan previewed.');
+  return preview;
+}
+
+/**
+ * Returns a previewed plan that has not expired.
+ */
+export function getSchedulePlan(planId: string): SchedulePlanPreview | undefined {
+  return storedPlans.get(planId)?.preview;
+}
+
+function eventForm(event: PlannedEvent): Record<string, unknown> {
+  return {
+    eventTypeId: event.eventTypeId,
+    campaignId: event.campaignId,
+    displayGroupIds: event.displayGroupIds,
+    fromDt: event.fromDt,
+    toDt: event.toDt,
+    dayPartId: event.dayPartId,
+    isPriority: event.isPriority,
+    displayOrder: event.displayOrder,
+    recurrenceType: event.recurrenceType,
+    recurrenceDetail: event.recurrenceDetail,
+    recurrenceRepeatsOn: event.recurrenceRepeatsOn,
+    recurrenceRange: event.recurrenceRange,
+    name: event.name,
+  };
+}
+
+/**
+ * Creates the events of a previewed plan. The schedule is checked again first: the plan is
+ * refused if the conflicts differ from the preview, or if it has `shadowed` conflicts and
+ * `acceptConflicts` is not set. When an event cannot be created, the events created so far
+ * are deleted again and the error is thrown.
+ */
+export async function applySchedulePlan(planId: string, options: { acceptConflicts?: boolean } = {}): Promise<SchedulePlanApplyResult> {
+  const stored = storedPlans.require(planId);
+
+  const current = await evaluatePlan(stored.plan);
+  if (conflictSignature(current.conflicts) !== conflictSignature(stored.preview.conflicts)) {
+    storedPlans.delete(planId);
+    throw new Error('The schedule changed since the plan was previewed. Preview the plan again.');
+  }
+  if (current.conflicts.some((c) => c.severity === 'error') && !options.acceptConflicts) {
+    throw new Error('The plan has events hidden by higher priority events. Set acceptConflicts to apply it anyway.');
+  }
+
+  const created: { key: string; eventId: number }[] = [];
+  for (const event of stored.preview.events) {
+    const result = await xiboClient.request<{ eventId: number }>('/schedule', { method: 'POST', form: eventForm(event) });
+    if (result.success && typeof result.data?.eventId === 'number') {
+      created.push({ key: event.key, eventId: result.data.eventId });
+      continue;
+    }
+
+    const reason = result.success ? 'the CMS did not return an event ID' : result.message;
+    logger.error({ planId, event: event.key, reason }, 'Creating a planned event failed; rolling back.');
+    const leftovers: number[] = [];
+    for (const { eventId } of [...created].reverse()) {
+      const removed = await xiboClient.request(`/schedule/${eventId}`, { method: 'DELETE' });
+      if (!removed.success) leftovers.push(eventId);
+    }
+    if (leftovers.length) {
+      throw new Error(`Creating event ${event.key} failed (${reason}) and events ${leftovers.join(', ')} could not be rolled back.`);
+    }
+    throw new Error(`Creating event ${event.key} failed (${reason}); ${created.length} created events were rolled back.`);
+  }
+
+  storedPlans.delete(planId);
+  logger.info({ planId, created: created.length }, 'Schedule plan applied.');
+  return { created, conflicts: current.conflicts };
+}
+
+/**
+ * Renders conflicts as a Markdown table for the agent to show before applying.
+ */
+export function formatConflictTable(conflicts: ScheduleConflict[]): string {
+  if (!conflicts.length) return '';
+  const cell = (value: string) => value.replace(/\|/g, '\\|');
+  const rows = conflicts.map((c) =>
+    `| ${c.severity} | ${c.type} | ${cell(c.displayGroup)} | ${c.planned} (${cell(c.plannedCampaign)}) | ${c.other} (${cell(c.otherCampaign)}) | ${c.firstOverlap} | ${c.occurrences} | ${c.overlapMinutes} |`
+  );
+  return [
+    '| severity | type | display group | planned | conflicts with | first overlap | occurrences | minutes |',
+    '|:--|:--|:--|:--|:--|:--|--:|--:|',
+    ...rows,
+  ].join('\n');
+}
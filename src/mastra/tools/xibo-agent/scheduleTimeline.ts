@@ -0,0 +1,389 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Schedule Timeline
+ *
+ * Resolves what each display actually plays over a time range. The layout and campaign
+ * events of every display group the display belongs to are expanded (recurrences,
+ * "always" day parts) and, at each point in time, the events with the highest priority
+ * win; events of equal priority share the airtime. When nothing is scheduled the
+ * display plays its default layout.
+ *
+ * The resolved timeline can be rendered as a Gantt chart (PNG, served through
+ * `/ext-api/getImage`) and exported as an iCalendar file (served through
+ * `/ext-api/download/schedule`).
+ *
+ * Times follow the conventions of `schedulePlanner.ts`: 'YYYY-MM-DD HH:mm:ss' in the
+ * timezone of the CMS, assumed to be the timezone the agent runs in.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { z } from 'zod';
+import type { ChartConfiguration } from 'chart.js';
+import { config } from './config';
+import { logger } from '../../logger';
+import { expandOccurrences, loadScheduleEvents } from './schedulePlanner';
+import { formatDateTime, toUnixSeconds } from './utility/dateTime';
+import { loadRecords } from './utility/pagination';
+import { GET_IMAGE_API, DOWNLOAD_API_SCHEDULE } from '../../config/constants';
+
+// Longest range a timeline may cover.
+const MAX_RANGE_DAYS = 31;
+const CHART_WIDTH = 1600;
+const ROW_HEIGHT = 48;
+const PALETTE = ['#4e79a7', '#f28e2b', '#59a14f', '#e15759', '#76b7b2', '#edc948', '#b07aa1', '#ff9da7', '#9c755f'];
+const DEFAULT_LAYOUT_COLOR = '#bab0ac';
+
+/**
+ * A stretch of time during which a display plays the same thing.
+ */
+export interface TimelineSegment {
+  from: string;
+  to: string;
+  /** `schedule`: scheduled events, `default`: the default layout, `none`: nothing to play. */
+  source: 'schedule' | 'default' | 'none';
+  /** Campaigns or layouts playing, sharing airtime when more than one. */
+  playing: string[];
+  eventIds: number[];
+  priority: number | null;
+  /** Events active at the same time but hidden by a higher priority. */
+  hiddenEventIds: number[];
+}
+
+export interface DisplayTimeline {
+  displayId: number;
+  display: string;
+  defaultLayout: string | null;
+  segments: TimelineSegment[];
+}
+
+export interface ScheduleTimeline {
+  from: string;
+  to: string;
+  displays: DisplayTimeline[];
+}
+
+const displayRecordSchema = z.object({
+  displayId: z.number(),
+  display: z.string(),
+  displayGroupId: z.number(),
+  defaultLayoutId: z.number().nullable().optional(),
+}).passthrough();
+
+const displayGroupRecordSchema = z.object({
+  displayGroupId: z.number(),
+  displayGroup: z.string(),
+}).passthrough();
+
+const layoutRecordSchema = z.object({
+  layoutId: z.number(),
+  layout: z.string(),
+}).passthrough();
+
+type DisplayRecord = z.infer<typeof displayRecordSchema>;
+
+/**
+ * Finds the displays to show: the given displays plus the members of the given groups.
+ */
+async function loadTargetDisplays(displayIds: number[], displayGroupIds: number[]): Promise<DisplayRecord[]> {
+  const displays = new Map<number, DisplayRecord>();
+  for (const displayId of displayIds) {
+    const [display] = await loadRecords(`/display?displayId=${displayId}`, displayRecordSchema);
+    if (!display) throw new Error(`Display ${displayId} does not exist.`);
+    displays.set(display.displayId, display);
+  }
+  for (const displayGroupId of displayGroupIds) {
+    const members = await loadRecords(`/display?displayGroupId=${displayGroupId}`, displayRecordSchema);
+    if (!members.length) {
+      logger.warn({ displayGroupId }, 'Display group has no displays.');
+    }
+    members.forEach((display) => displays.set(display.displayId, display));
+  }
+  return [...displays.values()].sort((a, b) => a.display.localeCompare(b.display));
+}
+
+interface ActiveOccurrence {
+  start: number;
+  end: number;
+  eventId: number;
+  playing: string;
+  priority: number;
+}
+
+/**
+ * Splits the range at every event boundary and picks the winning events of each piece.
+ */
+function resolveSegments(occurrences: ActiveOccurrence[], from: number, to: number, defaultLayout: string | null): TimelineSegment[] {
+  const points = [...new Set([from, to, ...occurrences.flatMap((o) => [o.start, o.end])])]
+    .filter((p) => p >= from && p <= to)
+    .sort((a, b) => a - b);
+
+  const segments: (TimelineSegment & { start: number; end: number; key: string })[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const [start, end] = [points[i], points[i + 1]];
+    const active = occurrences.filter((o) => o.start < end && o.end > start);
+    const priority = active.length ? Math.max(...active.map((o) => o.priority)) : null;
+    const winners = active.filter((o) => o.priority === priority);
+    const segment: TimelineSegment = active.length
+      ? {
+        from: '', to: '', source: 'schedule',
+        playing: [...new Set(winners.map((o) => o.playing))],
+        eventIds: [...new Set(winners.map((o) => o.eventId))],
+        priority,
+        hiddenEventIds: [...new Set(active.filter((o) => o.priority !== priority).map((o) => o.eventId))],
+      }
+      : {
+        from: '', to: '', source: defaultLayout ? 'default' : 'none',
+        playing: defaultLayout ? [defaultLayout] : [], eventIds: [], priority: null, hiddenEventIds: [],
+      };
+    const key = JSON.stringify([segment.source, segment.eventIds, segment.hiddenEventIds, segment.playing]);
+    const previous = segments[segments.length - 1];
+    if (previous && previous.key === key && previous.end === start) {
+      previous.end = end;
+    } else {
+      segments.push({ ...segment, start, end, key });
+    }
+  }
+  return segments.map(({ start, end, key: _key, ...segment }) => ({
+    ...segment,
+    from: formatDateTime(start),
+    to: formatDateTime(end),
+  }));
+}
+
+/**
+ * Resolves the effective playback of displays over a time range.
+ * @param options Displays and/or display groups (expanded to their members) and the range.
+ */
+export async function resolveScheduleTimeline(options: {
+  displayIds?: number[];
+  displayGroupIds?: number[];
+  fromDt: string;
+  toDt: string;
+}): Promise<ScheduleTimeline> {
+  const from = toUnixSeconds(options.fromDt);
+  const to = toUnixSeconds(options.toDt);
+  if (to <= from) {
+    throw new Error('toDt must be after fromDt.');
+  }
+  if (to - from > MAX_RANGE_DAYS * 86400) {
+    throw new Error(`The range may cover at most ${MAX_RANGE_DAYS} days.`);
+  }
+
+  const displays = await loadTargetDisplays(options.displayIds ?? [], options.displayGroupIds ?? []);
+  if (!displays.length) {
+    throw new Error('No displays found. Specify displayIds or displayGroupIds.');
+  }
+
+  // Groups each display belongs to: its own display specific group and any groups it is a member of.
+  const groupsByDisplay = new Map<number, number[]>();
+  for (const display of displays) {
+    const groups = await loadRecords(`/displaygroup?displayId=${display.displayId}`, displayGroupRecordSchema);
+    groupsByDisplay.set(display.displayId, [...new Set([display.displayGroupId, ...groups.map((g) => g.displayGroupId)])]);
+  }
+
+  const events = await loadScheduleEvents([...new Set([...groupsByDisplay.values()].flat())]);
+  const layouts = await loadRecords('/layout', layoutRecordSchema);
+  const layoutNames = new Map(layouts.map((l) => [l.layoutId, l.layout]));
+
+  const expanded = events.map((event) => ({
+    event,
+    occurrences: expandOccurrences({
+      fromDt: event.fromDt ?? 0,
+      toDt: event.toDt ?? 0,
+      isAlways: event.isAlways === 1,
+      recurrenceType: event.recurrenceType,
+      recurrenceDetail: event.recurrenceDetail,
+      recurrenceRange: event.recurrenceRange,
+      recurrenceRepeatsOn: event.recurrenceRepeatsOn,
+    }, from, to),
+  }));
+
+  return {
+    from: formatDateTime(from),
+    to: formatDateTime(to),
+    displays: displays.map((display) => {
+      const groups = groupsByDisplay.get(display.displayId) ?? [];
+      const occurrences: ActiveOccurrence[] = expanded
+        .filter(({ event }) => event.displayGroups.some((g) => groups.includes(g.displayGroupId)))
+        .flatMap(({ event, occurrences }) => occurrences.map((o) => ({
+          start: Math.max(o.start, from),
+          end: Math.min(o.end, to),
+          eventId: event.eventId,
+          playing: event.campaign ?? `Campaign ${event.campaignId}`,
+          priority: event.isPriority ?? 0,
+        })));
+      const defaultLayout = display.defaultLayoutId
+        ? layoutNames.get(display.defaultLayoutId) ?? `Layout ${display.defaultLayoutId}`
+        : null;
+      return {
+        displayId: display.displayId,
+        display: display.display,
+        defaultLayout,
+        segments: resolveSegments(occurrences, from, to, defaultLayout),
+      };
+    }),
+  };
+}
+
+const fileStamp = () => `${new Date().toISOString().replace(/[-:]/g, '').replace(/\..+$/, '')}-${crypto.randomBytes(3).toString('hex')}`;
+
+/**
+ * Chooses a tick step (hours) that keeps the axis readable for the range.
+ */
+function tickStepHours(rangeHours: number): number {
+  const steps = [1, 2, 3, 6, 12, 24, 48, 72, 168];
+  return steps.find((step) => rangeHours / step <= 16) ?? 168;
+}
+
+/** A floating bar of the Gantt chart: hours from the start of the range on one display row. */
+interface TimelineBar {
+  x: [number, number];
+  y: string;
+}
+
+/**
+ * Renders the timeline as a Gantt chart and saves it in the generated images directory.
+ * @returns The file name and the URL it is served under.
+ */
+export async function renderScheduleTimelinePng(timeline: ScheduleTimeline, title?: string): Promise<{ fileName: string; imageUrl: string }> {
+  // Loaded lazily so the native canvas binding is only needed when an image is rendered.
+  const { ChartJSNodeCanvas } = await import('chartjs-node-canvas');
+
+  const from = toUnixSeconds(timeline.from);
+  const rangeHours = (toUnixSeconds(timeline.to) - from) / 3600;
+  const hoursOf = (value: string) => (toUnixSeconds(value) - from) / 3600;
+  const rows = timeline.displays.map((d) => d.display);
+
+  const datasets = new Map<string, { label: string; data: TimelineBar[]; backgroundColor: string }>();
+  for (const display of timeline.displays) {
+    for (const segment of display.segments) {
+      if (segment.source === 'none') continue;
+      const label = segment.source === 'default' ? `Default: ${segment.playing[0]}` : segment.playing.join(' / ');
+      if (!datasets.has(label)) {
+        const color = segment.source === 'default'
+          ? DEFAULT_LAYOUT_COLOR
+          : PALETTE[[...datasets.keys()].filter((l) => !l.startsWith('Default: ')).length % PALETTE.length];
+        datasets.set(label, { label, data: [], backgroundColor: color });
+      }
+      datasets.get(label)!.data.push({ x: [hoursOf(segment.from), hoursOf(segment.to)], y: display.display });
+    }
+  }
+
+  const canvas = new ChartJSNodeCanvas({ width: CHART_WIDTH, height: 160 + rows.length * ROW_HEIGHT, backgroundColour: 'white' });
+  const chartConfig: ChartConfiguration<'bar', TimelineBar[], string> = {
+    type: 'bar',
+    data: {
+      labels: rows,
+      datasets: [...datasets.values()].map((d) => ({ ...d, grouped: false, borderSkipped: false, barPercentage: 0.7 })),
+    },
+    options: {
+      indexAxis: 'y',
+      plugins: {
+        title: { display: true, text: title || `${timeline.from} - ${timeline.to}`, font: { family: 'Noto Sans JP', size: 20 } },
+        legend: { position: 'bottom', labels: { font: { family: 'Noto Sans JP' } } },
+      },
+      scales: {
+        x: {
+          type: 'linear',
+          min: 0,
+          max: rangeHours,
+          ticks: {
+            stepSize: tickStepHours(rangeHours),
+            callback: (value: number | string) => formatDateTime(from + Number(value) * 3600).slice(5, 16),
+            font: { family: 'Noto Sans JP' },
+          },
+        },
+        y: { type: 'category', labels: rows, ticks: { font: { family: 'Noto Sans JP', size: 14 } } },
+      },
+    },
+  };
+  // renderToBuffer() is typed for the default data points only; Chart.js parses the
+  // `{ x: [from, to], y }` objects of floating bars at runtime.
+  const buffer = await canvas.renderToBuffer(chartConfig as unknown as ChartConfiguration, 'image/png');
+
+  const fileName = `schedule-timeline-${fileStamp()}.png`;
+  await fs.mkdir(config.generatedDir, { recursive: true });
+  await fs.writeFile(path.join(config.generatedDir, fileName), buffer);
+  logger.info({ fileName, displays: rows.length }, 'Rendered schedule timeline.');
+  return { fileName, imageUrl: `${GET_IMAGE_API}/${fileName}` };
+}
+
+const icsDate = (value: string) => new Date(toUnixSeconds(value) * 1000).toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+const icsText = (value: string) => value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Folds a content line at 75 octets as required by RFC 5545.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length ? 74 : 75;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Builds an iCalendar document with one event per played segment.
+ */
+export function buildScheduleTimelineIcs(timeline: ScheduleTimeline): string {
+  const stamp = icsDate(formatDateTime(Math.floor(Date.now() / 1000)));
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//OpenSignage//Xibo Agent Schedule Timeline//EN', 'CALSCALE:GREGORIAN'];
+  for (const display of timeline.displays) {
+    for (const segment of display.segments) {
+      if (segment.source === 'none') continue;
+      const what = segment.source === 'default' ? `${segment.playing[0]} (default layout)` : segment.playing.join(' / ');
+      const details = [
+        `Display: ${display.display}`,
+        segment.eventIds.length ? `Events: ${segment.eventIds.join(', ')}` : '',
+        segment.priority !== null ? `Priority: ${segment.priority}` : '',
+        segment.hiddenEventIds.length ? `Hidden events: ${segment.hiddenEventIds.join(', ')}` : '',
+      ].filter(Boolean).join('\n');
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${display.displayId}-${icsDate(segment.from)}@xibo-agent`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsDate(segment.from)}`,
+        `DTEND:${icsDate(segment.to)}`,
+        `SUMMARY:${icsText(`${display.display}: ${what}`)}`,
+        `DESCRIPTION:${icsText(details)}`,
+        'END:VEVENT',
+      );
+    }
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Saves the iCalendar export of the timeline for download.
+ * @returns The file name and the download URL.
+ */
+export async function saveScheduleTimelineIcs(timeline: ScheduleTimeline): Promise<{ fileName: string; icsUrl: string }> {
+  const dir = path.join(config.generatedDir, 'schedules');
+  const fileName = `schedule-timeline-${fileStamp()}.ics`;
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, fileName), buildScheduleTimelineIcs(timeline), 'utf-8');
+  logger.info({ fileName }, 'Exported schedule timeline as iCalendar.');
+  return { fileName, icsUrl: `${DOWNLOAD_API_SCHEDULE}/${fileName}` };
+}
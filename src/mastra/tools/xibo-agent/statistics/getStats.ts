@@ -18,12 +18,18 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
-import { getAuthHeaders } from '../auth';
 import { logger } from '../../../logger';
-import { decodeErrorMessage } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 
 // Schema for a single statistics data record.
 const statisticsDataSchema = z.object({
+  id: z.union([z.number(), z.string()]).optional().describe('The ID of the stat record; pass the highest one as `statId` to read only newer records.'),
   type: z.string().describe("The type of stat record (e.g., 'Layout', 'Media')."),
   display: z.string().describe('The name of the display.'),
   displayId: z.number().describe('The ID of the display.'),
@@ -46,6 +52,7 @@ const successResponseSchema = z.object({
   success: z.literal(true),
   data: z.array(statisticsDataSchema),
   message: z.string(),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for an error response.
@@ -68,7 +75,7 @@ const outputSchema = z.union([successResponseSchema, errorResponseSchema]);
  */
 export const getStats = createTool({
   id: 'get-stats',
-  description: 'Search and retrieve statistics data from Xibo CMS.',
+  description: 'Search and retrieve statistics data from Xibo CMS. Set all=true to retrieve every record across pages.',
   inputSchema: z.object({
     type: z.enum(['Layout', 'Media', 'Widget']).optional().describe("The type of stat to return. Can be 'Layout', 'Media', or 'Widget'."),
     fromDt: z.string().optional().describe("The start date for the filter (e.g., 'YYYY-MM-DD HH:MM:SS'). Defaults to 24 hours ago."),
@@ -84,6 +91,7 @@ export const getStats = createTool({
     returnDisplayLocalTime: z.string().optional().describe("Return results in the display's local time. Use 'on', '1', or 'true'."),
     returnDateFormat: z.string().optional().describe('A PHP-style date format string for how the returned dates should be formatted.'),
     embed: z.array(z.enum(['layoutTags', 'displayTags', 'mediaTags'])).optional().describe("Embed additional data. Options include: 'layoutTags', 'displayTags', 'mediaTags'."),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -95,9 +103,10 @@ export const getStats = createTool({
 
     const url = new URL(`${config.cmsUrl}/api/stats`);
     const params = new URLSearchParams();
+    const { pagination, filters } = splitPaginationOptions(context);
 
-    // Dynamically build the query string from the tool's input context.
-    Object.entries(context).forEach(([key, value]) => {
+    // Dynamically build the query string from the tool's input filters.
+    Object.entries(filters).forEach(([key, value]) => {
       if (value !== undefined && value !== null) {
         params.append(key, String(value));
       }
@@ -105,25 +114,21 @@ export const getStats = createTool({
     url.search = params.toString();
 
     try {
-        logger.info({ url: url.toString() }, 'Requesting statistics.');
+        logger.info({ url: url.toString(), pagination }, 'Requesting statistics.');
 
-        const response = await fetch(url.toString(), {
-            method: 'GET',
-            headers: await getAuthHeaders(),
-        });
+        const result = await fetchPaginated(url, pagination);
     
-        const responseData = await response.json();
-    
-        if (!response.ok) {
-            const decodedError = decodeErrorMessage(responseData);
-            const message = `Failed to get statistics. API responded with status ${response.status}.`;
-            logger.error({ status: response.status, response: decodedError }, message);
+        if (!result.success) {
+            const message = `Failed to get statistics. API responded with status ${result.status}.`;
+            logger.error({ status: result.status, response: result.errorData }, message);
             return {
                 success: false as const,
                 message: message,
-                errorData: decodedError,
+                errorData: result.errorData,
             };
         }
+
+        const responseData = result.items;
     
         const validationResult = z.array(statisticsDataSchema).safeParse(responseData);
     
@@ -138,12 +143,13 @@ export const getStats = createTool({
             };
         }
     
-        const message = `Successfully retrieved ${validationResult.data.length} statistics records.`;
-        logger.info({ count: validationResult.data.length }, message);
+        const message = describePagination(result.pagination, 'statistics records');
+        logger.info({ count: validationResult.data.length, total: result.pagination.total }, message);
         return {
             success: true as const,
             data: validationResult.data,
             message: message,
+            pagination: result.pagination,
         };
     } catch (error: unknown) {
         const message = 'An unexpected error occurred while getting statistics.';
@@ -17,9 +17,14 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
-import { getAuthHeaders } from '../auth';
 import { logger } from '../../../logger';
-import { decodeErrorMessage } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 
 // Schema for a single disconnected time record.
 const disconnectedTimeSchema = z.object({
@@ -35,6 +40,7 @@ const successResponseSchema = z.object({
   success: z.literal(true),
   data: z.array(disconnectedTimeSchema),
   message: z.string(),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for an error response.
@@ -65,6 +71,7 @@ export const getTimeDisconnected = createTool({
     displayIds: z.array(z.number()).optional().describe('Filter by a list of Display IDs.'),
     returnDisplayLocalTime: z.string().optional().describe("Return results in the display's local time. Use 'on', '1', or 'true'."),
     returnDateFormat: z.string().optional().describe('A PHP-style date format string for how the returned dates should be formatted.'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -76,8 +83,9 @@ export const getTimeDisconnected = createTool({
 
     const url = new URL(`${config.cmsUrl}/api/stats/timeDisconnected`);
     const params = new URLSearchParams();
+    const { pagination, filters } = splitPaginationOptions(context);
 
-    Object.entries(context).forEach(([key, value]) => {
+    Object.entries(filters).forEach(([key, value]) => {
       if (value !== undefined && value !== null) {
         params.append(key, String(value));
       }
@@ -85,26 +93,22 @@ export const getTimeDisconnected = createTool({
     url.search = params.toString();
 
     try {
-      logger.info({ url: url.toString() }, 'Requesting disconnected time stats.');
+      logger.info({ url: url.toString(), pagination }, 'Requesting disconnected time stats.');
       
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: await getAuthHeaders(),
-      });
+      const result = await fetchPaginated(url, pagination);
 
-      const responseData = await response.json();
-
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseData);
-        const message = `Failed to get disconnected time. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: decodedError }, message);
+      if (!result.success) {
+        const message = `Failed to get disconnected time. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
         return {
           success: false as const,
           message,
-          errorData: decodedError,
+          errorData: result.errorData,
         };
       }
 
+      const responseData = result.items;
+
       const validationResult = z.array(disconnectedTimeSchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -118,12 +122,12 @@ export const getTimeDisconnected = createTool({
         };
       }
 
-      const message = `Successfully retrieved disconnected time for ${validationResult.data.length} display(s).`;
-      logger.info({ count: validationResult.data.length }, message);
+      logger.info({ count: validationResult.data.length }, `Successfully retrieved disconnected time for ${validationResult.data.length} display(s).`);
       return {
         success: true as const,
         data: validationResult.data,
-        message,
+        message: describePagination(result.pagination, 'disconnected time records'),
+        pagination: result.pagination,
       };
     } catch (error: unknown) {
       const message = 'An unexpected error occurred while getting disconnected time.';
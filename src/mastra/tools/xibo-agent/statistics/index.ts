@@ -14,8 +14,10 @@
  * @module StatisticsTools
  * @description This module aggregates and exports all statistics-related tools
  * for the Xibo CMS. It provides a single point of access for functionalities
- * such as retrieving proof-of-play stats, disconnected time, and export counts.
+ * such as retrieving proof-of-play stats, disconnected time, export counts and
+ * aggregating the local statistics warehouse.
  */
 export { getExportStatsCount } from './getExportStatsCount';
 export { getStats } from './getStats';
-export { getTimeDisconnected } from './getTimeDisconnected';
\ No newline at end of file
+export { getTimeDisconnected } from './getTimeDisconnected';
+export { queryPlayStats } from './queryPlayStats';
@@ -0,0 +1,104 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module queryPlayStats
+ * @description Provides a tool that aggregates proof-of-play statistics from the local
+ * statistics warehouse (by display, layout, media, campaign, tag, day or hour of day)
+ * instead of reading every record from the CMS.
+ */
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import {
+  STAT_TYPES,
+  getStatsWarehouseState,
+  playStatsQuerySchema,
+  queryPlayStats as aggregatePlayStats,
+  syncStatsWarehouse,
+} from '../statsWarehouse';
+import { getActiveCmsProfileName } from '../cmsContext';
+import { logger } from '../../../logger';
+
+const rowSchema = z.object({
+  displayId: z.number().nullable().optional(),
+  display: z.string().nullable().optional(),
+  layoutId: z.number().nullable().optional(),
+  layout: z.string().nullable().optional(),
+  mediaId: z.number().nullable().optional(),
+  media: z.string().nullable().optional(),
+  widgetId: z.number().nullable().optional(),
+  campaignId: z.number().nullable().optional(),
+  campaign: z.string().nullable().optional(),
+  displayTag: z.string().nullable().optional(),
+  layoutTag: z.string().nullable().optional(),
+  mediaTag: z.string().nullable().optional(),
+  day: z.string().optional().describe('YYYY-MM-DD in CMS time.'),
+  hour: z.number().optional().describe('Hour of day (0-23) in CMS time.'),
+  plays: z.number(),
+  airtimeSeconds: z.number(),
+  records: z.number().describe('Number of stat records in the group.'),
+});
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    cmsProfile: z.string(),
+    rows: z.array(rowSchema),
+    totals: z.object({ plays: z.number(), airtimeSeconds: z.number(), records: z.number() })
+      .describe('Totals of all matching records, not only the returned rows.'),
+    warehouse: z.array(z.object({
+      type: z.enum(STAT_TYPES),
+      lastSync: z.string().nullable(),
+      lastStatId: z.string().nullable(),
+      records: z.number(),
+      error: z.string().nullable(),
+    })).describe('How current the local copy of each stat type is.'),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for aggregating play statistics from the warehouse.
+ */
+export const queryPlayStats = createTool({
+  id: 'query-play-stats',
+  description: 'Aggregate proof-of-play statistics (plays and airtime) by display, layout, media, widget, campaign, display/layout/media tag, day or hour of day from the local statistics warehouse. Prefer this over getStats for analytics.',
+  inputSchema: playStatsQuerySchema.extend({
+    sync: z.boolean().optional().default(false).describe('Copy new statistics from the CMS before aggregating.'),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    const cmsProfile = getActiveCmsProfileName();
+    try {
+      const { sync, ...query } = context;
+      let state = await getStatsWarehouseState(cmsProfile);
+      if (sync || !state.some((s) => s.lastSync)) {
+        await syncStatsWarehouse();
+        state = await getStatsWarehouseState(cmsProfile);
+      }
+
+      const { rows, totals } = await aggregatePlayStats(cmsProfile, query);
+      const warehouse = state.map(({ type, lastSync, lastStatId, records, error }) => ({ type, lastSync, lastStatId, records, error }));
+      logger.info({ groupBy: query.groupBy, rows: rows.length, plays: totals.plays }, "Aggregated play statistics.");
+      return {
+        success: true,
+        message: `${rows.length} groups, ${totals.plays} plays in ${totals.records} records.`,
+        data: { cmsProfile, rows, totals, warehouse },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "queryPlayStats: Failed to aggregate play statistics");
+      return { success: false, message: `Failed to aggregate play statistics: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
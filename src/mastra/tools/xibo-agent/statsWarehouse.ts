@@ -0,0 +1,618 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Statistics Warehouse
+ *
+ * Copies the proof-of-play records of each CMS profile into the agent database so play
+ * statistics can be aggregated locally, and are kept after the CMS purges them.
+ *
+ * - `xibo_stats_records` holds the Layout, Media and Widget stats. Each sync asks the CMS
+ *   only for records with a `statId` above the cursor stored per profile and type in
+ *   `xibo_stats_sync`; the cursor is moved once all pages of a run were stored.
+ * - `xibo_stats_entities` keeps the names of displays, layouts, media and campaigns, and
+ *   `xibo_stats_tags` the tags of displays (read from `/display`) and of layouts and media
+ *   (embedded in the stats).
+ *
+ * `queryPlayStats()` aggregates the stored records by display, layout, media, campaign,
+ * tag, day or hour of day. Dates are stored as returned by the CMS, so days and hours are
+ * those of the CMS timezone.
+ *
+ * The background sync is configured in `stats-warehouse.json` in the project root (or
+ * `XIBO_STATS_WAREHOUSE_FILE`):
+ *
+ * ```json
+ * {
+ *   "enabled": true,
+ *   "intervalSeconds": 3600,
+ *   "profiles": ["default"],
+ *   "types": ["Layout", "Media", "Widget"],
+ *   "initialDays": 30,
+ *   "retentionDays": 730
+ * }
+ * ```
+ *
+ * Without the file the sync runs only when `XIBO_STATS_WAREHOUSE=on`, with the defaults
+ * above (no retention limit), on every configured CMS profile.
+ */
+
+import { z } from 'zod';
+import fs from 'fs';
+import { InValue } from '@libsql/client';
+import { config } from './config';
+import { logger } from '../../logger';
+import { ensureTables, getAgentDatabase } from './database';
+import { fetchPaginated, iteratePages } from './utility/pagination';
+import { getActiveCmsProfileName, runWithCmsProfile } from './cmsContext';
+import { getCmsProfile, listCmsProfileSummaries } from './cmsProfiles';
+import { formatDateTime } from './utility/dateTime';
+
+export const STAT_TYPES = ['Layout', 'Media', 'Widget'] as const;
+
+export type StatType = typeof STAT_TYPES[number];
+
+export const PLAY_STATS_DIMENSIONS = ['display', 'layout', 'media', 'widget', 'campaign', 'displayTag', 'layoutTag', 'mediaTag', 'day', 'hour'] as const;
+
+export type PlayStatsDimension = typeof PLAY_STATS_DIMENSIONS[number];
+
+/**
+ * Cursor and last run of one stat type of a CMS profile.
+ */
+export interface StatsSyncState {
+  type: StatType;
+  lastStatId: string | null;
+  fromDt: string;
+  lastSync: string | null;
+  records: number;
+  error: string | null;
+}
+
+/**
+ * Result of one sync of a CMS profile.
+ */
+export interface StatsSyncResult {
+  cmsProfile: string;
+  timestamp: string;
+  displays: number;
+  types: { type: StatType; added: number; lastStatId: string | null }[];
+  purged: number;
+}
+
+/**
+ * Filters and grouping accepted by `queryPlayStats()` and the `queryPlayStats` tool.
+ */
+export const playStatsQuerySchema = z.object({
+  groupBy: z.array(z.enum(PLAY_STATS_DIMENSIONS)).min(1).max(3)
+    .describe('Dimensions to group by. At most one tag dimension, since a record can have several tags.'),
+  type: z.enum(STAT_TYPES).optional().default('Layout')
+    .describe('Stat type to count. Layout, Media and Widget plays overlap, so they are never added up.'),
+  fromDt: z.string().optional().describe("Only plays starting at or after this time ('YYYY-MM-DD HH:mm:ss', CMS time)."),
+  toDt: z.string().optional().describe("Only plays starting before this time ('YYYY-MM-DD HH:mm:ss', CMS time)."),
+  displayIds: z.array(z.number()).optional().describe('Only these displays.'),
+  layoutIds: z.array(z.number()).optional().describe('Only these layouts.'),
+  mediaIds: z.array(z.number()).optional().describe('Only these media items.'),
+  campaignIds: z.array(z.number()).optional().describe('Only plays of these (parent) campaigns.'),
+  displayTags: z.array(z.string()).optional().describe('Only displays having at least one of these tags.'),
+  orderBy: z.enum(['plays', 'airtime', 'key']).optional().default('plays').describe('Sort by plays or airtime (descending) or by the group keys.'),
+  limit: z.number().int().min(1).max(1000).optional().default(100).describe('Maximum number of rows to return.'),
+});
+
+export type PlayStatsQuery = z.input<typeof playStatsQuerySchema>;
+
+/**
+ * One aggregated row. Keys are set for the requested dimensions only.
+ */
+export interface PlayStatsRow {
+  displayId?: number | null;
+  display?: string | null;
+  layoutId?: number | null;
+  layout?: string | null;
+  mediaId?: number | null;
+  media?: string | null;
+  widgetId?: number | null;
+  campaignId?: number | null;
+  campaign?: string | null;
+  displayTag?: string | null;
+  layoutTag?: string | null;
+  mediaTag?: string | null;
+  day?: string;
+  hour?: number;
+  plays: number;
+  airtimeSeconds: number;
+  records: number;
+}
+
+const DEFAULT_INTERVAL_SECONDS = 3600;
+const DEFAULT_INITIAL_DAYS = 30;
+const PAGE_SIZE = 1000;
+
+const settingsFileSchema = z.object({
+  enabled: z.boolean().optional(),
+  intervalSeconds: z.number().int().min(60).optional(),
+  profiles: z.array(z.string()).optional(),
+  types: z.array(z.enum(STAT_TYPES)).optional(),
+  initialDays: z.number().int().min(1).optional(),
+  retentionDays: z.number().int().min(1).optional(),
+});
+
+type StatsWarehouseSettings = z.infer<typeof settingsFileSchema>;
+
+let settings: StatsWarehouseSettings | null = null;
+
+function getSettings(): StatsWarehouseSettings {
+  if (settings) return settings;
+  settings = {};
+  if (fs.existsSync(config.statsWarehouseFile)) {
+    try {
+      const parsed = settingsFileSchema.safeParse(JSON.parse(fs.readFileSync(config.statsWarehouseFile, 'utf-8')));
+      if (parsed.success) {
+        settings = parsed.data;
+      } else {
+        logger.error({ file: config.statsWarehouseFile, error: parsed.error.flatten() }, 'Invalid stats warehouse settings file; using defaults');
+      }
+    } catch (error) {
+      logger.error({ file: config.statsWarehouseFile, error: error instanceof Error ? error.message : error }, 'Failed to read stats warehouse settings file');
+    }
+  }
+  return settings;
+}
+
+/**
+ * Drops the loaded settings so the next sync re-reads the file.
+ */
+export function reloadStatsWarehouseSettings(): void {
+  settings = null;
+}
+
+function ensureSchema(): Promise<void> {
+  return ensureTables('stats-warehouse', [
+    `CREATE TABLE IF NOT EXISTS xibo_stats_records (
+      cms_profile TEXT NOT NULL,
+      type TEXT NOT NULL,
+      stat_id TEXT NOT NULL,
+      display_id INTEGER NOT NULL,
+      layout_id INTEGER,
+      media_id INTEGER,
+      widget_id INTEGER,
+      campaign_id INTEGER,
+      schedule_id INTEGER,
+      tag TEXT,
+      number_plays INTEGER NOT NULL,
+      duration INTEGER NOT NULL,
+      start_dt TEXT NOT NULL,
+      end_dt TEXT NOT NULL,
+      stat_date TEXT,
+      PRIMARY KEY (cms_profile, type, stat_id)
+    )`,
+    'CREATE INDEX IF NOT EXISTS xibo_stats_records_start ON xibo_stats_records (cms_profile, type, start_dt)',
+    `CREATE TABLE IF NOT EXISTS xibo_stats_entities (
+      cms_profile TEXT NOT NULL,
+      entity_type TEXT NOT NULL,
+      entity_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (cms_profile, entity_type, entity_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS xibo_stats_tags (
+      cms_profile TEXT NOT NULL,
+      entity_type TEXT NOT NULL,
+      entity_id INTEGER NOT NULL,
+      tag TEXT NOT NULL,
+      value TEXT,
+      PRIMARY KEY (cms_profile, entity_type, entity_id, tag)
+    )`,
+    `CREATE TABLE IF NOT EXISTS xibo_stats_sync (
+      cms_profile TEXT NOT NULL,
+      type TEXT NOT NULL,
+      last_stat_id TEXT,
+      from_dt TEXT NOT NULL,
+      last_sync TEXT,
+      records INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      PRIMARY KEY (cms_profile, type)
+    )`,
+  ]);
+}
+
+// -----------------------------------------------------------------------------
+// Sync
+// -----------------------------------------------------------------------------
+
+type Statement = { sql: string; args: InValue[] };
+
+const optionalId = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' || Number(value) === 0 ? null : Number(value);
+
+/**
+ * Reads tags given as `[{ tag, value }]` or as "tag|value,tag2" text.
+ */
+function readTags(value: unknown): { tag: string; value: string | null }[] {
+  const entries = Array.isArray(value)
+    ? value.map((t) => (typeof t === 'string' ? t : t?.value ? `${t.tag}|${t.value}` : t?.tag))
+    : typeof value === 'string' ? value.split(',') : [];
+  const tags = new Map<string, string | null>();
+  for (const entry of entries) {
+    if (typeof entry !== 'string' || !entry.trim()) continue;
+    const [tag, ...rest] = entry.trim().split('|');
+    tags.set(tag, rest.length ? rest.join('|') : null);
+  }
+  return [...tags].map(([tag, tagValue]) => ({ tag, value: tagValue }));
+}
+
+/**
+ * Orders stat IDs: numerically for MySQL IDs, as text for MongoDB object IDs.
+ */
+function isAfter(id: string, cursor: string | null): boolean {
+  if (cursor === null) return true;
+  if (/^\d+$/.test(id) && /^\d+$/.test(cursor)) return Number(id) > Number(cursor);
+  return id > cursor;
+}
+
+function entityStatement(cmsProfile: string, entityType: string, entityId: number, name: string, timestamp: string): Statement {
+  return {
+    sql: `INSERT INTO xibo_stats_entities (cms_profile, entity_type, entity_id, name, updated_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (cms_profile, entity_type, entity_id) DO UPDATE SET name = excluded.name, updated_at = excluded.updated_at`,
+    args: [cmsProfile, entityType, entityId, name, timestamp],
+  };
+}
+
+function tagStatements(cmsProfile: string, entityType: string, entityId: number, tags: { tag: string; value: string | null }[]): Statement[] {
+  return [
+    { sql: 'DELETE FROM xibo_stats_tags WHERE cms_profile = ? AND entity_type = ? AND entity_id = ?', args: [cmsProfile, entityType, entityId] },
+    ...tags.map(({ tag, value }) => ({
+      sql: 'INSERT INTO xibo_stats_tags (cms_profile, entity_type, entity_id, tag, value) VALUES (?, ?, ?, ?, ?)',
+      args: [cmsProfile, entityType, entityId, tag, value],
+    })),
+  ];
+}
+
+/**
+ * Stores the names and tags of all displays of the active profile.
+ */
+async function syncDisplays(cmsProfile: string, timestamp: string): Promise<number> {
+  const result = await fetchPaginated(new URL(`${config.cmsUrl}/api/display`), { all: true });
+  if (!result.success) {
+    throw new Error(`Reading displays failed: ${result.message}`);
+  }
+  const statements: Statement[] = [];
+  for (const display of result.items as Record<string, any>[]) {
+    const displayId = Number(display.displayId);
+    statements.push(entityStatement(cmsProfile, 'display', displayId, String(display.display ?? displayId), timestamp));
+    statements.push(...tagStatements(cmsProfile, 'display', displayId, readTags(display.tags)));
+  }
+  await getAgentDatabase().batch(statements, 'write');
+  return result.items.length;
+}
+
+/**
+ * Turns one page of stats into insert statements. Entities and tags are written once
+ * per page.
+ */
+function recordStatements(cmsProfile: string, type: StatType, items: Record<string, any>[], timestamp: string): { statements: Statement[]; records: number; maxId: string | null } {
+  const statements: Statement[] = [];
+  const entities = new Map<string, Statement>();
+  const tags = new Map<string, Statement[]>();
+  let maxId: string | null = null;
+
+  for (const item of items) {
+    const statId = item.id ?? item.statId;
+    if (statId === undefined || statId === null) continue;
+    const id = String(statId);
+    if (isAfter(id, maxId)) maxId = id;
+
+    const layoutId = optionalId(item.layoutId);
+    const mediaId = optionalId(item.mediaId);
+    const campaignId = optionalId(item.parentCampaignId);
+    statements.push({
+      sql: `INSERT INTO xibo_stats_records
+        (cms_profile, type, stat_id, display_id, layout_id, media_id, widget_id, campaign_id, schedule_id, tag, number_plays, duration, start_dt, end_dt, stat_date)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (cms_profile, type, stat_id) DO NOTHING`,
+      args: [
+        cmsProfile, type, id, Number(item.displayId), layoutId, mediaId, optionalId(item.widgetId), campaignId,
+        optionalId(item.scheduleId), item.tag || null, Number(item.numberPlays) || 0, Number(item.duration) || 0,
+        String(item.start), String(item.end), item.statDate ?? null,
+      ],
+    });
+
+    if (item.display) entities.set(`display:${item.displayId}`, entityStatement(cmsProfile, 'display', Number(item.displayId), String(item.display), timestamp));
+    if (layoutId && item.layout) entities.set(`layout:${layoutId}`, entityStatement(cmsProfile, 'layout', layoutId, String(item.layout), timestamp));
+    if (mediaId && item.media) entities.set(`media:${mediaId}`, entityStatement(cmsProfile, 'media', mediaId, String(item.media), timestamp));
+    if (campaignId && item.parentCampaign) entities.set(`campaign:${campaignId}`, entityStatement(cmsProfile, 'campaign', campaignId, String(item.parentCampaign), timestamp));
+    if (layoutId && item.layoutTags !== undefined) tags.set(`layout:${layoutId}`, tagStatements(cmsProfile, 'layout', layoutId, readTags(item.layoutTags)));
+    if (mediaId && item.mediaTags !== undefined) tags.set(`media:${mediaId}`, tagStatements(cmsProfile, 'media', mediaId, readTags(item.mediaTags)));
+  }
+  const records = statements.length;
+  statements.push(...entities.values(), ...[...tags.values()].flat());
+  return { statements, records, maxId };
+}
+
+async function readSyncState(cmsProfile: string): Promise<Map<StatType, StatsSyncState>> {
+  const rows = await getAgentDatabase().execute({ sql: 'SELECT * FROM xibo_stats_sync WHERE cms_profile = ?', args: [cmsProfile] });
+  return new Map(rows.rows.map((row) => [row.type as StatType, {
+    type: row.type as StatType,
+    lastStatId: (row.last_stat_id as string | null) ?? null,
+    fromDt: String(row.from_dt),
+    lastSync: (row.last_sync as string | null) ?? null,
+    records: Number(row.records),
+    error: (row.error as string | null) ?? null,
+  }]));
+}
+
+/**
+ * Copies one stat type from the CMS, starting after the stored cursor.
+ */
+async function syncType(cmsProfile: string, type: StatType, state: StatsSyncState | undefined, timestamp: string): Promise<{ added: number; lastStatId: string | null }> {
+  const db = getAgentDatabase();
+  const now = Math.floor(Date.now() / 1000);
+  // The first sync reaches back `initialDays`; later runs keep that lower bound and rely on
+  // the cursor, so stats uploaded late by players that were offline are still picked up.
+  const fromDt = state?.fromDt ?? formatDateTime(now - (getSettings().initialDays ?? DEFAULT_INITIAL_DAYS) * 86400);
+  const cursor = state?.lastStatId ?? null;
+
+  const url = new URL(`${config.cmsUrl}/api/stats`);
+  url.searchParams.set('type', type);
+  url.searchParams.set('fromDt', fromDt);
+  url.searchParams.set('toDt', formatDateTime(now));
+  url.searchParams.set('embed', 'layoutTags,mediaTags');
+  if (cursor !== null) url.searchParams.set('statId', cursor);
+
+  let lastStatId = cursor;
+  let added = 0;
+  try {
+    for await (const page of iteratePages(url, { all: true, length: PAGE_SIZE })) {
+      const { statements, records, maxId } = recordStatements(cmsProfile, type, page.items as Record<string, any>[], timestamp);
+      if (!statements.length) continue;
+      const results = await db.batch(statements, 'write');
+      added += results.slice(0, records).reduce((sum, r) => sum + r.rowsAffected, 0);
+      if (maxId !== null && isAfter(maxId, lastStatId)) lastStatId = maxId;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await db.execute({
+      sql: `INSERT INTO xibo_stats_sync (cms_profile, type, last_stat_id, from_dt, last_sync, records, error) VALUES (?, ?, ?, ?, NULL, 0, ?)
+        ON CONFLICT (cms_profile, type) DO UPDATE SET error = excluded.error`,
+      args: [cmsProfile, type, cursor, fromDt, message],
+    });
+    throw new Error(`Reading ${type} statistics failed: ${message}`);
+  }
+
+  await db.execute({
+    sql: `INSERT INTO xibo_stats_sync (cms_profile, type, last_stat_id, from_dt, last_sync, records, error) VALUES (?, ?, ?, ?, ?, ?, NULL)
+      ON CONFLICT (cms_profile, type) DO UPDATE SET last_stat_id = excluded.last_stat_id, last_sync = excluded.last_sync,
+        records = xibo_stats_sync.records + excluded.records, error = NULL`,
+    args: [cmsProfile, type, lastStatId, fromDt, timestamp, added],
+  });
+  return { added, lastStatId };
+}
+
+const running = new Set<string>();
+
+/**
+ * Copies new statistics of the active CMS profile into the warehouse.
+ *
+ * @throws {Error} If the displays or stats cannot be read. Types synced before the
+ * failure keep their progress.
+ */
+export async function syncStatsWarehouse(): Promise<StatsSyncResult> {
+  const cmsProfile = getActiveCmsProfileName();
+  if (running.has(cmsProfile)) {
+    throw new Error(`A statistics sync of CMS profile "${cmsProfile}" is already running.`);
+  }
+  running.add(cmsProfile);
+  try {
+    await ensureSchema();
+    const timestamp = new Date().toISOString();
+    const displays = await syncDisplays(cmsProfile, timestamp);
+    const state = await readSyncState(cmsProfile);
+    const types: StatsSyncResult['types'] = [];
+    for (const type of getSettings().types ?? STAT_TYPES) {
+      types.push({ type, ...(await syncType(cmsProfile, type, state.get(type), timestamp)) });
+    }
+
+    let purged = 0;
+    const retentionDays = getSettings().retentionDays;
+    if (retentionDays) {
+      const cutoff = formatDateTime(Math.floor(Date.now() / 1000) - retentionDays * 86400);
+      const result = await getAgentDatabase().execute({
+        sql: 'DELETE FROM xibo_stats_records WHERE cms_profile = ? AND start_dt < ?',
+        args: [cmsProfile, cutoff],
+      });
+      purged = result.rowsAffected;
+    }
+
+    logger.info({ cmsProfile, displays, types, purged }, 'Statistics warehouse synced');
+    return { cmsProfile, timestamp, displays, types, purged };
+  } finally {
+    running.delete(cmsProfile);
+  }
+}
+
+/**
+ * Sync state of each stat type of one CMS profile.
+ */
+export async function getStatsWarehouseState(cmsProfile: string): Promise<StatsSyncState[]> {
+  await ensureSchema();
+  return [...(await readSyncState(cmsProfile)).values()];
+}
+
+// -----------------------------------------------------------------------------
+// Aggregation
+// -----------------------------------------------------------------------------
+
+const TAG_DIMENSIONS: Partial<Record<PlayStatsDimension, { entityType: string; column: string }>> = {
+  displayTag: { entityType: 'display', column: 'display_id' },
+  layoutTag: { entityType: 'layout', column: 'layout_id' },
+  mediaTag: { entityType: 'media', column: 'media_id' },
+};
+
+const ENTITY_DIMENSIONS: Partial<Record<PlayStatsDimension, { entityType: string; column: string }>> = {
+  display: { entityType: 'display', column: 'display_id' },
+  layout: { entityType: 'layout', column: 'layout_id' },
+  media: { entityType: 'media', column: 'media_id' },
+  campaign: { entityType: 'campaign', column: 'campaign_id' },
+};
+
+/**
+ * Aggregates the stored plays of one CMS profile.
+ *
+ * @throws {Error} If more than one tag dimension is requested.
+ */
+export async function queryPlayStats(cmsProfile: string, input: PlayStatsQuery): Promise<{ rows: PlayStatsRow[]; totals: { plays: number; airtimeSeconds: number; records: number } }> {
+  const query = playStatsQuerySchema.parse(input);
+  const dimensions = [...new Set(query.groupBy)];
+  if (dimensions.filter((d) => TAG_DIMENSIONS[d]).length > 1) {
+    throw new Error('Only one tag dimension can be grouped at a time.');
+  }
+  await ensureSchema();
+
+  const joins: string[] = [];
+  const joinArgs: InValue[] = [];
+  const select: string[] = [];
+  const groupBy: string[] = [];
+  for (const dimension of dimensions) {
+    const entity = ENTITY_DIMENSIONS[dimension];
+    const tag = TAG_DIMENSIONS[dimension];
+    if (entity) {
+      const alias = `e_${dimension}`;
+      joins.push(`LEFT JOIN xibo_stats_entities ${alias} ON ${alias}.cms_profile = s.cms_profile AND ${alias}.entity_type = ? AND ${alias}.entity_id = s.${entity.column}`);
+      joinArgs.push(entity.entityType);
+      select.push(`s.${entity.column} AS ${dimension}Id`, `MAX(${alias}.name) AS ${dimension}`);
+      groupBy.push(`s.${entity.column}`);
+    } else if (tag) {
+      joins.push(`LEFT JOIN xibo_stats_tags t ON t.cms_profile = s.cms_profile AND t.entity_type = ? AND t.entity_id = s.${tag.column}`);
+      joinArgs.push(tag.entityType);
+      select.push(`t.tag AS ${dimension}`);
+      groupBy.push('t.tag');
+    } else if (dimension === 'widget') {
+      select.push('s.widget_id AS widgetId');
+      groupBy.push('s.widget_id');
+    } else if (dimension === 'day') {
+      select.push('substr(s.start_dt, 1, 10) AS day');
+      groupBy.push('day');
+    } else {
+      select.push('CAST(substr(s.start_dt, 12, 2) AS INTEGER) AS hour');
+      groupBy.push('hour');
+    }
+  }
+
+  const where = ['s.cms_profile = ?', 's.type = ?'];
+  const whereArgs: InValue[] = [cmsProfile, query.type];
+  if (query.fromDt) {
+    where.push('s.start_dt >= ?');
+    whereArgs.push(query.fromDt);
+  }
+  if (query.toDt) {
+    where.push('s.start_dt < ?');
+    whereArgs.push(query.toDt);
+  }
+  const inList = (column: string, values?: (number | string)[]) => {
+    if (!values?.length) return;
+    where.push(`${column} IN (${values.map(() => '?').join(', ')})`);
+    whereArgs.push(...values);
+  };
+  inList('s.display_id', query.displayIds);
+  inList('s.layout_id', query.layoutIds);
+  inList('s.media_id', query.mediaIds);
+  inList('s.campaign_id', query.campaignIds);
+  if (query.displayTags?.length) {
+    where.push(`s.display_id IN (SELECT entity_id FROM xibo_stats_tags WHERE cms_profile = s.cms_profile AND entity_type = 'display'
+      AND tag IN (${query.displayTags.map(() => '?').join(', ')}))`);
+    whereArgs.push(...query.displayTags);
+  }
+
+  const order = query.orderBy === 'key' ? groupBy.join(', ') : query.orderBy === 'airtime' ? 'airtimeSeconds DESC' : 'plays DESC';
+  const db = getAgentDatabase();
+  const rows = await db.execute({
+    sql: `SELECT ${select.join(', ')}, SUM(s.number_plays) AS plays, SUM(s.duration) AS airtimeSeconds, COUNT(*) AS records
+      FROM xibo_stats_records s ${joins.join(' ')}
+      WHERE ${where.join(' AND ')}
+      GROUP BY ${groupBy.join(', ')}
+      ORDER BY ${order}
+      LIMIT ?`,
+    args: [...joinArgs, ...whereArgs, query.limit],
+  });
+  const totals = (await db.execute({
+    sql: `SELECT COALESCE(SUM(s.number_plays), 0) AS plays, COALESCE(SUM(s.duration), 0) AS airtimeSeconds, COUNT(*) AS records
+      FROM xibo_stats_records s WHERE ${where.join(' AND ')}`,
+    args: whereArgs,
+  })).rows[0];
+
+  return {
+    rows: rows.rows.map((row) => {
+      const result: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(row)) {
+        result[key] = typeof value === 'bigint' ? Number(value) : value;
+      }
+      return result as unknown as PlayStatsRow;
+    }),
+    totals: { plays: Number(totals?.plays ?? 0), airtimeSeconds: Number(totals?.airtimeSeconds ?? 0), records: Number(totals?.records ?? 0) },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Background sync
+// -----------------------------------------------------------------------------
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Tells whether the background sync should run.
+ */
+export function isStatsWarehouseEnabled(): boolean {
+  return getSettings().enabled ?? process.env.XIBO_STATS_WAREHOUSE === 'on';
+}
+
+/**
+ * Runs one sync on every configured profile. Failures are logged per profile.
+ */
+async function syncAllProfiles(): Promise<void> {
+  const configured = getSettings().profiles;
+  const names = configured ?? listCmsProfileSummaries().filter((p) => p.cmsUrl && p.hasCredentials).map((p) => p.name);
+  for (const name of names) {
+    try {
+      const profile = getCmsProfile(name);
+      await runWithCmsProfile(profile, () => syncStatsWarehouse());
+    } catch (error) {
+      logger.error({ profile: name, error: error instanceof Error ? error.message : error }, 'Statistics warehouse sync failed');
+    }
+  }
+}
+
+/**
+ * Starts syncing in the background when the warehouse is enabled. Calling it again
+ * restarts the timer with the current settings.
+ *
+ * @returns True when the sync was started.
+ */
+export function startStatsWarehouseSync(): boolean {
+  stopStatsWarehouseSync();
+  if (!isStatsWarehouseEnabled()) {
+    return false;
+  }
+  const intervalSeconds = getSettings().intervalSeconds ?? DEFAULT_INTERVAL_SECONDS;
+  timer = setInterval(() => void syncAllProfiles(), intervalSeconds * 1000);
+  timer.unref();
+  void syncAllProfiles();
+  logger.info({ intervalSeconds }, 'Statistics warehouse sync started');
+  return true;
+}
+
+/**
+ * Stops the background sync.
+ */
+export function stopStatsWarehouseSync(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -69,7 +70,7 @@ export const assignSyncGroupMembers = createTool({
       
       logger.debug({ url: url.toString(), params: params.toString() }, `Attempting to assign members to sync group ID: ${syncGroupId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'POST',
         headers: {
           ...headers,
@@ -17,10 +17,16 @@
  */
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
-import { getAuthHeaders } from '../auth';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 import { syncGroupSchema, errorResponseSchema } from './schemas';
 
 /**
@@ -28,7 +34,9 @@ import { syncGroupSchema, errorResponseSchema } from './schemas';
  */
 const getSyncGroupsResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(syncGroupSchema),
+  pagination: paginationSummarySchema,
 });
 
 /**
@@ -45,6 +53,7 @@ export const getSyncGroups = createTool({
   inputSchema: z.object({
     name: z.string().optional().describe('Filter by sync group name.'),
     syncGroupId: z.number().optional().describe('Filter by sync group ID.'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -55,7 +64,6 @@ export const getSyncGroups = createTool({
     }
 
     try {
-      const headers = await getAuthHeaders();
       const url = new URL(`${config.cmsUrl}/api/syncgroups`);
       
       if (context.name) {
@@ -65,21 +73,19 @@ export const getSyncGroups = createTool({
         url.searchParams.append('syncGroupId', String(context.syncGroupId));
       }
 
-      logger.debug({ url: url.toString() }, 'Attempting to get sync groups');
+      const { pagination } = splitPaginationOptions(context);
 
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers,
-      });
+      logger.debug({ url: url.toString(), pagination }, 'Attempting to get sync groups');
 
-      const responseData = await response.json();
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const message = `Failed to get sync groups. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: responseData }, message);
-        return { success: false as const, message, errorData: responseData };
+      if (!result.success) {
+        const message = `Failed to get sync groups. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
+        return { success: false as const, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
       const validationResult = z.array(syncGroupSchema).safeParse(responseData);
       if (!validationResult.success) {
         const message = 'Get sync groups response validation failed.';
@@ -93,7 +99,12 @@ export const getSyncGroups = createTool({
       }
 
       logger.info(`Successfully retrieved ${validationResult.data.length} sync groups.`);
-      return { success: true as const, data: validationResult.data };
+      return {
+        success: true as const,
+        message: describePagination(result.pagination, 'sync groups'),
+        data: validationResult.data,
+        pagination: result.pagination,
+      };
 
     } catch (error) {
       const message = 'An unexpected error occurred while getting sync groups.';
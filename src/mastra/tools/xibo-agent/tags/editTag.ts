@@ -19,6 +19,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { decodeErrorMessage } from '../utility/error';
 import { tagSchema } from './schemas';
@@ -100,7 +101,7 @@ export const editTag = createTool({
     try {
       logger.info({ tagId: context.tagId, body: params.toString() }, 'Attempting to edit tag.');
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'PUT',
         headers: {
           ...(await getAuthHeaders()),
@@ -18,9 +18,14 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
-import { getAuthHeaders } from '../auth';
 import { logger } from '../../../logger';
-import { decodeErrorMessage } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 import { tagSchema } from './schemas';
 
 /**
@@ -28,7 +33,9 @@ import { tagSchema } from './schemas';
  */
 const successResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(tagSchema).describe('An array of tag records.'),
+  pagination: paginationSummarySchema,
 });
 
 /**
@@ -63,6 +70,7 @@ export const getTags = createTool({
     isSystem: z.number().min(0).max(1).optional().describe('Filter by system tag status (0 for non-system, 1 for system).'),
     isRequired: z.number().min(0).max(1).optional().describe('Filter by required tag status (0 for optional, 1 for required).'),
     haveOptions: z.number().min(0).max(1).optional().describe('Filter for tags that have predefined options (1 for yes).'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }): Promise<Output> => {
@@ -74,9 +82,10 @@ export const getTags = createTool({
 
     const url = new URL(`${config.cmsUrl}/api/tag`);
     const params = new URLSearchParams();
+    const { pagination, filters } = splitPaginationOptions(context);
     
-    // Dynamically build the query string from the tool's input context.
-    Object.entries(context).forEach(([key, value]) => {
+    // Dynamically build the query string from the tool's input filters.
+    Object.entries(filters).forEach(([key, value]) => {
         if (value !== undefined) {
             params.append(key, String(value));
         }
@@ -84,27 +93,17 @@ export const getTags = createTool({
     url.search = params.toString();
 
     try {
-      logger.info({ url: url.toString() }, 'Attempting to retrieve tags.');
+      logger.info({ url: url.toString(), pagination }, 'Attempting to retrieve tags.');
 
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: await getAuthHeaders(),
-      });
-
-      const responseText = await response.text();
-      let responseData;
-      try {
-        responseData = JSON.parse(responseText);
-      } catch (e) {
-        responseData = responseText;
-      }
+      const result = await fetchPaginated(url, pagination);
       
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseText);
-        const message = `Failed to get tags. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: decodedError }, message);
-        return { success: false, message, errorData: decodedError };
+      if (!result.success) {
+        const message = `Failed to get tags. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
+        return { success: false, message, errorData: result.errorData };
       }
+
+      const responseData = result.items;
       
       const validationResult = z.array(tagSchema).safeParse(responseData);
 
@@ -115,7 +114,12 @@ export const getTags = createTool({
       }
 
       logger.info(`Successfully retrieved ${validationResult.data.length} tag(s).`);
-      return { success: true, data: validationResult.data };
+      return {
+        success: true,
+        message: describePagination(result.pagination, 'tags'),
+        data: validationResult.data,
+        pagination: result.pagination,
+      };
       
     } catch (error) {
       const message = error instanceof Error ? error.message : 'An unexpected error occurred.';
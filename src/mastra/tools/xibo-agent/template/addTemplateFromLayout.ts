@@ -20,6 +20,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
 import { templateSchema } from "./schemas";
@@ -62,7 +63,7 @@ export const addTemplateFromLayout = createTool({
       const url = `${config.cmsUrl}/api/template/layout/${context.layoutId}`;
 
       logger.debug({ url, body: params.toString() }, "Sending POST request to add template from layout.");
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers,
         body: params.toString()
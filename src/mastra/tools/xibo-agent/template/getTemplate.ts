@@ -19,9 +19,14 @@
 import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
-import { getAuthHeaders } from "../auth";
-import { decodeErrorMessage } from "../utility/error";
 import { logger } from '../../../logger';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from "../utility/pagination";
 import { templateSchema } from "./schemas";
 
 /**
@@ -34,12 +39,14 @@ export const getTemplate = createTool({
     // Adding optional filters based on typical API patterns
     templateId: z.number().optional().describe("Filter by a specific Template ID."),
     name: z.string().optional().describe("Filter templates by name (supports filtering with %)."),
+    ...paginationInputSchema.shape,
   }),
   outputSchema: z.object({
     success: z.boolean().describe("Indicates whether the operation was successful."),
     message: z.string().optional().describe("A message providing details about the operation outcome."),
     data: z.array(templateSchema).optional().describe("An array of template objects on success."),
     error: z.any().optional().describe("Error details if the operation failed."),
+    pagination: paginationSummarySchema.optional(),
   }),
   execute: async ({ context }) => {
     logger.info({ context }, "Executing getTemplate tool.");
@@ -50,38 +57,37 @@ export const getTemplate = createTool({
         throw new Error(message);
       }
       
-      const headers = await getAuthHeaders();
       const params = new URLSearchParams();
+      const { pagination, filters } = splitPaginationOptions(context);
 
       // Append provided context filters to the search params
-      Object.entries(context).forEach(([key, value]) => {
+      Object.entries(filters).forEach(([key, value]) => {
         if (value !== undefined && value !== null) {
             params.append(key, String(value));
         }
       });
 
-      const url = `${config.cmsUrl}/api/template?${params.toString()}`;
+      const url = new URL(`${config.cmsUrl}/api/template?${params.toString()}`);
 
-      logger.debug({ url }, "Sending GET request to fetch templates.");
-      const response = await fetch(url, {
-        method: 'GET',
-        headers
-      });
-
-      const data = await response.json();
+      logger.debug({ url: url.toString(), pagination }, "Sending GET request to fetch templates.");
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const errorMessage = decodeErrorMessage(JSON.stringify(data));
+      if (!result.success) {
         const message = "Failed to search templates.";
-        logger.error({ status: response.status, error: errorMessage }, message);
+        logger.error({ status: result.status, error: result.message }, message);
 
-        return { success: false, message, error: { status: response.status, message: errorMessage, details: data }};
+        return { success: false, message, error: { status: result.status, message: result.message, details: result.errorData }};
       }
       
-      const validatedData = z.array(templateSchema).parse(data);
+      const validatedData = z.array(templateSchema).parse(result.items);
       logger.info({ count: validatedData.length }, "Successfully retrieved templates.");
 
-      return { success: true, data: validatedData, message: "Successfully retrieved templates." };
+      return {
+        success: true,
+        data: validatedData,
+        message: describePagination(result.pagination, "templates"),
+        pagination: result.pagination,
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
       logger.error({ error }, "An unexpected error occurred in getTemplate.");
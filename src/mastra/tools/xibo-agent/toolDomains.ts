@@ -0,0 +1,140 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Xibo Tool Domains
+ *
+ * Groups the tools returned by `getTools()` into the functional domains handled by
+ * the Xibo sub-agents. A sub-agent only receives the tools of its own domain plus the
+ * common tools, which keeps its prompt small and avoids picking a similarly named tool
+ * from another area (e.g. `getPlaylists` vs `getPlaylistUsage`).
+ */
+
+export const XIBO_TOOL_DOMAINS = ['displays', 'layouts', 'library', 'scheduling', 'datasets', 'users'] as const;
+
+export type XiboToolDomain = typeof XIBO_TOOL_DOMAINS[number];
+
+/**
+ * Tools given to every domain: CMS information, profiles, folders, tags and history.
+ */
+export const COMMON_TOOLS: readonly string[] = [
+  'getCmsTime', 'getAbout',
+  'listCmsProfiles', 'testCmsConnection',
+  'getAuditTrail', 'getLogs', 'getAgentLog',
+  'getFolders', 'getTags',
+];
+
+/**
+ * Tools of each domain. Tools used by several domains may be listed more than once.
+ */
+export const DOMAIN_TOOLS: Record<XiboToolDomain, readonly string[]> = {
+  // Displays, display groups, sync groups, players and fleet health
+  displays: [
+    'getFleetHealth',
+    'getDisplays', 'wakeDisplayOnLan', 'toggleAuthoriseForDisplay', 'setDefaultLayoutForDisplay',
+    'checkDisplayLicence', 'getDisplayStatus', 'purgeAllMediaFromDisplay', 'editDisplay',
+    'requestDisplayScreenshot', 'deleteDisplay',
+    'getDisplayGroups', 'addDisplayGroup', 'editDisplayGroup', 'deleteDisplayGroup',
+    'assignDisplaysToDisplayGroup', 'unassignDisplaysFromDisplayGroup', 'collectNowForDisplayGroup',
+    'clearStatsAndLogsForDisplayGroup', 'revertDisplayGroupToSchedule', 'sendCommandToDisplayGroup',
+    'copyDisplayGroup', 'selectFolderForDisplayGroup', 'triggerWebhookForDisplayGroup',
+    'getDisplayProfiles', 'addDisplayProfile', 'editDisplayProfile', 'deleteDisplayProfile',
+    'getSyncGroups', 'addSyncGroup', 'editSyncGroup', 'deleteSyncGroup', 'getSyncGroupDisplays',
+    'assignSyncGroupMembers',
+    'getLatestPlayer', 'deletePlayerVersion', 'downloadPlayerVersion', 'editPlayerVersion', 'uploadPlayerSoftware',
+    'addCommand', 'deleteCommand', 'editCommand', 'getCommands',
+    'getDisplayVenues', 'getTimeDisconnected', 'getScheduleTimeline',
+    'getLayouts',
+  ],
+  // Layouts, regions, widgets, playlists and templates
+  layouts: [
+    'getLayouts', 'addLayout', 'deleteLayout', 'retireLayout', 'unretireLayout', 'clearLayout',
+    'getLayoutStatus', 'checkoutLayout', 'discardLayout', 'setLayoutEnableStat', 'editLayout',
+    'editLayoutBackground', 'copyLayout', 'tagLayout', 'untagLayout', 'publishLayout',
+    'applyLayoutTemplate', 'addFullscreenLayout', 'addRegion', 'editRegion', 'addDrawerRegion',
+    'saveDrawerRegion', 'deleteRegion', 'positionAllRegions', 'exportLayoutBundle', 'importLayoutBundle',
+    'addWidget', 'editWidget', 'deleteWidget', 'editWidgetTransition', 'editWidgetAudio', 'deleteWidgetAudio',
+    'setWidgetRegion', 'saveWidgetElements', 'setWidgetDataType', 'getWidgetData', 'addWidgetData',
+    'editWidgetData', 'deleteWidgetData',
+    'getPlaylists', 'addPlaylist', 'editPlaylist', 'deletePlaylist', 'copyPlaylist',
+    'assignLibraryItems', 'getPlaylistUsage', 'getPlaylistUsageByLayouts',
+    'setPlaylistEnableStat', 'selectPlaylistFolder', 'orderWidgets',
+    'getTemplate', 'addTemplate', 'addTemplateFromLayout',
+    'getModules', 'getModuleProperties', 'getModuleTemplateProperties', 'getModuleTemplates',
+    'getResolutions', 'addResolution', 'editResolution', 'deleteResolution',
+    'addAction', 'deleteAction', 'getActions',
+    'listChanges', 'revertChange',
+    'getLibrary', 'getDataSets', 'getMenuBoards',
+    'getWeather', 'getWeeklyWeather', 'getWeatherByCoordinates',
+  ],
+  // Media library, fonts and AI image/video generation
+  library: [
+    'getLibrary', 'addMedia', 'uploadMediaFromURL', 'downloadThumbnail', 'editMedia',
+    'deleteMedia', 'downloadMedia', 'assignTagsToMedia', 'unassignTagsFromMedia',
+    'setEnableStatToMedia', 'getMediaUsage', 'getMediaUsageLayouts',
+    'copyMedia', 'isMediaUsed', 'selectMediaFolder',
+    'auditLibrary', 'planLibraryCleanup', 'applyLibraryCleanup', 'ingestMedia',
+    'autoTagMedia', 'applyMediaTags', 'getMediaDescriptions',
+    'getUploadFiles', 'deleteUploadFiles',
+    'getFonts', 'getFontDetails', 'uploadFont', 'downloadFont', 'deleteFont',
+    'getGoogleFonts', 'uploadGoogleFonts',
+    'generateImage', 'updateImage', 'getImageHistory', 'getResolutions',
+    'videoGeneration', 'videoUpdate', 'getVideoHistory',
+    'addTag', 'editTag', 'deleteTag',
+    'addFolder', 'editFolder', 'deleteFolder',
+  ],
+  // Schedules, campaigns, day parts and proof of play
+  scheduling: [
+    'getSchedule', 'getScheduleDataEvents', 'getScheduleDisplayGroupIdEvents', 'addSchedule',
+    'editSchedule', 'deleteSchedule', 'deleteScheduleRecurrence', 'planSchedule', 'applySchedulePlan',
+    'getScheduleTimeline', 'getWeatherRules', 'evaluateWeatherRules',
+    'getCampaigns', 'addCampaign', 'editCampaign', 'deleteCampaign',
+    'assignLayoutToCampaign', 'removeLayoutFromCampaign', 'selectCampaignFolder',
+    'getDayParts', 'addDayPart', 'editDayPart', 'deleteDayPart',
+    'getStats', 'getExportStatsCount', 'queryPlayStats',
+    'getLayouts', 'getDisplayGroups', 'getDisplays',
+  ],
+  // DataSets, menu boards and external data feeds
+  datasets: [
+    'getDataSets', 'addDataSet', 'editDataSet', 'deleteDataSet',
+    'getDataSetColumns', 'addDataSetColumn', 'editDataSetColumn', 'deleteDataSetColumn',
+    'getDataSetData', 'addDataSetData', 'editDataSetData', 'importDataSetDataJson',
+    'deleteDataSetData', 'importDataSetData', 'exportDataSetData', 'copyDataSet',
+    'selectDataSetFolder', 'getDataSetRss', 'addDataSetRss', 'editDataSetRss',
+    'deleteDataSetRss', 'editDataSetConnector',
+    'addMenuBoard', 'addMenuBoardCategory', 'addMenuBoardProduct', 'deleteMenuBoard',
+    'deleteMenuBoardCategory', 'deleteMenuBoardProduct', 'editMenuBoard', 'editMenuBoardCategory',
+    'editMenuBoardProduct', 'getMenuBoardCategories', 'getMenuBoardProducts', 'getMenuBoards',
+    'selectMenuBoardFolder', 'getMenuBoardTree', 'planMenuBoardImport', 'applyMenuBoardImport',
+    'exportMenuBoardCsv', 'setMenuDaypartPrice', 'deleteMenuDaypartPrice', 'getMenuDaypartPrices',
+    'previewMenuBoardAt', 'applyMenuDaypartPrices', 'getDayParts',
+    'getXiboNews', 'getGoogleNews', 'syncNewsTicker', 'getNewsTickerFeeds',
+    'getWeather', 'getWeeklyWeather', 'getWeatherByCoordinates',
+  ],
+  // Users, user groups, permissions and notifications
+  users: [
+    'getUser', 'getUserMe', 'addUser', 'deleteUser', 'editUser', 'getUserPermissions',
+    'setUserPermissions', 'getMultiEntityPermissions', 'editUserPref', 'getUserPref', 'addUserPref',
+    'getUserGroups', 'addUserGroup', 'deleteUserGroup', 'editUserGroup', 'copyUserGroup',
+    'assignUserToGroup', 'unassignUserFromGroup',
+    'changePassword',
+    'getNotifications', 'deleteNotification', 'addNotification', 'editNotification',
+    'addFolder', 'editFolder', 'deleteFolder',
+  ],
+};
+
+/**
+ * Tells whether a tool belongs to the given domain (or is common to all domains).
+ */
+export function isToolInDomain(toolName: string, domain: XiboToolDomain): boolean {
+  return COMMON_TOOLS.includes(toolName) || DOMAIN_TOOLS[domain].includes(toolName);
+}
@@ -18,6 +18,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import {
   userSchema,
@@ -106,7 +107,7 @@ export const addUser = createTool({
         'Content-Type': 'application/x-www-form-urlencoded',
       };
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'POST',
         headers,
         body: formData.toString(),
@@ -18,6 +18,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { decodeErrorMessage } from '../utility/error';
 import {
@@ -66,7 +67,7 @@ export const addUserPref = createTool({
     try {
       logger.info({ preferences: context.preferences }, 'Attempting to add or update user preferences.');
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'POST',
         headers: {
           ...(await getAuthHeaders()),
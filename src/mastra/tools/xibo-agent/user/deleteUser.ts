@@ -18,6 +18,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { decodeErrorMessage } from '../utility/error';
 
@@ -77,7 +78,7 @@ export const deleteUser = createTool({
     try {
       logger.info({ userId, deleteItems, reassignTo }, 'Attempting to delete user.');
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'DELETE',
         headers: {
             ...(await getAuthHeaders()),
@@ -18,6 +18,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { decodeErrorMessage } from '../utility/error';
 import { base64Encode } from '../utility/encoding';
@@ -106,7 +107,7 @@ export const editUser = createTool({
     try {
       logger.info({ userId }, 'Attempting to edit user.');
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'PUT',
         headers: {
             ...(await getAuthHeaders()),
@@ -18,10 +18,15 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
-import { getAuthHeaders } from '../auth';
 import { TreeNode, createTreeViewResponse } from '../utility/treeView';
 import { logger } from '../../../logger';
-import { decodeErrorMessage } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 import {
   userSchema,
 } from './schemas';
@@ -29,7 +34,9 @@ import {
 // Schema for a successful response with a list of users.
 const userSuccessResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(userSchema),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for a successful response with a tree view.
@@ -38,6 +45,7 @@ const treeViewSuccessResponseSchema = z.object({
   data: z.array(userSchema),
   tree: z.array(z.any()),
   treeViewText: z.string(),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for a generic error response.
@@ -134,6 +142,7 @@ export const getUser = createTool({
     userName: z.string().optional().describe('A username to find (case-insensitive).'),
     embed: z.string().optional().describe('Embed related data, e.g., "permissions,groups".'),
     treeView: z.boolean().optional().describe('Set to true to return users in a structured, hierarchical tree view.'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -150,23 +159,21 @@ export const getUser = createTool({
     if (context.userName) params.append('userName', context.userName);
     if (context.embed) params.append('embed', context.embed);
     url.search = params.toString();
+    const { pagination } = splitPaginationOptions(context);
 
     try {
-      logger.info({ url: url.toString() }, 'Attempting to retrieve user(s).');
+      logger.info({ url: url.toString(), pagination }, 'Attempting to retrieve user(s).');
       
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: await getAuthHeaders(),
-      });
-
-      const responseData = await response.json();
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseData);
-        const message = `Failed to get user(s). API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: decodedError }, message);
-        return { success: false as const, message, errorData: decodedError };
+      const result = await fetchPaginated(url, pagination);
+
+      if (!result.success) {
+        const message = `Failed to get user(s). API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
+        return { success: false as const, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
+
       const validationResult = z.array(userSchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -180,10 +187,15 @@ export const getUser = createTool({
       if (context.treeView) {
         const userTree = buildUserTree(users);
         const treeResponse = createTreeViewResponse(users, userTree, userNodeFormatter);
-        return { ...treeResponse, success: true as const };
+        return { ...treeResponse, success: true as const, pagination: result.pagination };
       }
 
-      return { success: true as const, data: users };
+      return {
+        success: true as const,
+        message: describePagination(result.pagination, 'users'),
+        data: users,
+        pagination: result.pagination,
+      };
     } catch (error: unknown) {
       const message = 'An unexpected error occurred while retrieving users.';
       logger.error({ error }, message);
@@ -19,6 +19,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { TreeNode, createTreeViewResponse } from '../utility/treeView';
 import { logger } from '../../../logger';
 import { decodeErrorMessage } from '../utility/error';
@@ -147,7 +148,7 @@ export const getUserMe = createTool({
     try {
         logger.info({ url: url.toString() }, "Attempting to retrieve current user's information.");
 
-        const response = await fetch(url.toString(), {
+        const response = await xiboClient.fetch(url.toString(), {
             method: 'GET',
             headers: await getAuthHeaders(),
         });
@@ -18,9 +18,14 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
-import { getAuthHeaders } from '../auth';
 import { logger } from '../../../logger';
-import { decodeErrorMessage } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 import {
   permissionSchema,
 } from './schemas';
@@ -28,7 +33,9 @@ import {
 // Schema for a successful response, containing an array of permissions.
 const successResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(permissionSchema),
+  pagination: paginationSummarySchema,
 });
 
 // Schema for a generic error response.
@@ -54,6 +61,7 @@ export const getUserPermissions = createTool({
   inputSchema: z.object({
     entity: z.string().describe("The type of entity (e.g., 'layout', 'campaign')."),
     objectId: z.number().describe('The ID of the object to get permissions for.'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -65,24 +73,21 @@ export const getUserPermissions = createTool({
 
     const { entity, objectId } = context;
     const url = new URL(`${config.cmsUrl}/api/user/permissions/${entity}/${objectId}`);
+    const { pagination } = splitPaginationOptions(context);
 
     try {
-      logger.info({ entity, objectId }, 'Attempting to retrieve permissions.');
-
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: await getAuthHeaders(),
-      });
+      logger.info({ entity, objectId, pagination }, 'Attempting to retrieve permissions.');
 
-      const responseData = await response.json();
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const decodedError = decodeErrorMessage(responseData);
-        const message = `Failed to get permissions. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: decodedError, entity, objectId }, message);
-        return { success: false as const, message, errorData: decodedError };
+      if (!result.success) {
+        const message = `Failed to get permissions. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData, entity, objectId }, message);
+        return { success: false as const, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
+
       const validationResult = z.array(permissionSchema).safeParse(responseData);
 
       if (!validationResult.success) {
@@ -92,7 +97,12 @@ export const getUserPermissions = createTool({
       }
 
       logger.info({ count: validationResult.data.length }, `Successfully retrieved ${validationResult.data.length} permission records.`);
-      return { success: true as const, data: validationResult.data };
+      return {
+        success: true as const,
+        message: describePagination(result.pagination, 'permission records'),
+        data: validationResult.data,
+        pagination: result.pagination,
+      };
     } catch (error: unknown) {
       const message = 'An unexpected error occurred while retrieving permissions.';
       logger.error({ error, entity, objectId }, message);
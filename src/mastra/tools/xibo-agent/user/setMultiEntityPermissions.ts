@@ -18,6 +18,7 @@ import { z } from 'zod';
 import { createTool } from '@mastra/core/tools';
 import { config } from '../config';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { logger } from '../../../logger';
 import { decodeErrorMessage } from '../utility/error';
 
@@ -75,7 +76,7 @@ export const setMultiEntityPermissions = createTool({
     try {
       logger.info({ entity, ids, groupIds, ownerId }, 'Attempting to set multi-entity permissions.');
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'POST',
         headers: {
             ...(await getAuthHeaders()),
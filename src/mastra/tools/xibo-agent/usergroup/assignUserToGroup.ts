@@ -18,6 +18,7 @@
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
 import { getAuthHeaders } from '../auth';
+import { xiboClient } from '../xiboClient';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
@@ -68,7 +69,7 @@ export const assignUserToGroup = createTool({
 
       logger.debug({ url: url.toString(), userGroupId, userIds }, `Attempting to assign ${userIds.length} user(s) to group ID: ${userGroupId}`);
 
-      const response = await fetch(url.toString(), {
+      const response = await xiboClient.fetch(url.toString(), {
         method: 'POST',
         headers: {
           ...headers,
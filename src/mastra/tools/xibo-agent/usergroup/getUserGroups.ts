@@ -17,10 +17,16 @@
  */
 import { z } from 'zod';
 import { createTool } from '@mastra/core';
-import { getAuthHeaders } from '../auth';
 import { config } from '../config';
 import { logger } from '../../../logger';
 import { processError } from '../utility/error';
+import {
+  paginationInputSchema,
+  paginationSummarySchema,
+  splitPaginationOptions,
+  fetchPaginated,
+  describePagination,
+} from '../utility/pagination';
 import { userGroupSchema, errorResponseSchema } from './schemas';
 
 /**
@@ -28,7 +34,9 @@ import { userGroupSchema, errorResponseSchema } from './schemas';
  */
 const getUserGroupsResponseSchema = z.object({
   success: z.literal(true),
+  message: z.string(),
   data: z.array(userGroupSchema),
+  pagination: paginationSummarySchema,
 });
 
 /**
@@ -45,6 +53,7 @@ export const getUserGroups = createTool({
   inputSchema: z.object({
     userGroupId: z.number().optional().describe('Filter by a specific User Group ID.'),
     userGroup: z.string().optional().describe('Filter by a user group name (partial match supported).'),
+    ...paginationInputSchema.shape,
   }),
   outputSchema,
   execute: async ({ context }) => {
@@ -55,7 +64,6 @@ export const getUserGroups = createTool({
     }
 
     try {
-      const headers = await getAuthHeaders();
       const url = new URL(`${config.cmsUrl}/api/group`);
 
       if (context.userGroupId) {
@@ -65,21 +73,19 @@ export const getUserGroups = createTool({
         url.searchParams.append('userGroup', context.userGroup);
       }
 
-      logger.debug({ url: url.toString() }, 'Attempting to get user groups');
+      const { pagination } = splitPaginationOptions(context);
 
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers,
-      });
+      logger.debug({ url: url.toString(), pagination }, 'Attempting to get user groups');
 
-      const responseData = await response.json();
+      const result = await fetchPaginated(url, pagination);
 
-      if (!response.ok) {
-        const message = `Failed to get user groups. API responded with status ${response.status}.`;
-        logger.error({ status: response.status, response: responseData }, message);
-        return { success: false as const, message, errorData: responseData };
+      if (!result.success) {
+        const message = `Failed to get user groups. API responded with status ${result.status}.`;
+        logger.error({ status: result.status, response: result.errorData }, message);
+        return { success: false as const, message, errorData: result.errorData };
       }
 
+      const responseData = result.items;
       const validationResult = z.array(userGroupSchema).safeParse(responseData);
       if (!validationResult.success) {
         const message = 'Get user groups response validation failed.';
@@ -93,7 +99,12 @@ export const getUserGroups = createTool({
       }
 
       logger.info(`Successfully retrieved ${validationResult.data.length} user group(s).`);
-      return { success: true as const, data: validationResult.data };
+      return {
+        success: true as const,
+        message: describePagination(result.pagination, 'user groups'),
+        data: validationResult.data,
+        pagination: result.pagination,
+      };
     } catch (error) {
       const message = 'An unexpected error occurred while getting user groups.';
       const processedError = processError(error);
@@ -0,0 +1,38 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Date and time helpers for CMS times
+ *
+ * The CMS takes and returns times as 'YYYY-MM-DD HH:mm:ss' strings in its timezone,
+ * which is assumed to be the timezone the agent runs in (set TZ accordingly).
+ */
+
+/**
+ * Parses 'YYYY-MM-DD HH:mm[:ss]' as local time into unix seconds.
+ */
+export function toUnixSeconds(value: string): number {
+  const time = Date.parse(value.trim().replace(' ', 'T'));
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date '${value}'`);
+  }
+  return Math.floor(time / 1000);
+}
+
+/**
+ * Formats unix seconds as 'YYYY-MM-DD HH:mm:ss' in local time.
+ */
+export function formatDateTime(seconds: number): string {
+  const d = new Date(seconds * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
@@ -0,0 +1,262 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module imageProcessing
+ * @description Crops, pads and scales images to the exact size of a layout or display
+ * resolution, using the `canvas` package:
+ *
+ * - `cover` fills the target and crops what does not fit, keeping the focal point (the
+ *   centre by default) in view.
+ * - `contain` fits the whole image and pads the rest with a background colour (letterbox).
+ * - `stretch` scales both sides to the target, ignoring the aspect ratio.
+ *
+ * The geometry is computed by `planImageFit()` without touching pixels; `fitImage()` draws
+ * it. Large reductions are done in halving steps so fine detail does not alias.
+ *
+ * `differenceHash()` computes a perceptual hash used to find images that look the same but
+ * are not byte-identical (re-encoded, resized or slightly edited copies).
+ */
+
+import { z } from 'zod';
+import type { Canvas, Image } from 'canvas';
+import { xiboClient } from '../xiboClient';
+import { resolutionSchema } from '../resolution/schemas';
+
+export const IMAGE_FIT_MODES = ['cover', 'contain', 'stretch'] as const;
+
+export type ImageFitMode = typeof IMAGE_FIT_MODES[number];
+
+export type ImageFormat = 'png' | 'jpeg';
+
+/**
+ * Target of a resize.
+ */
+export interface ImageFitOptions {
+  width: number;
+  height: number;
+  /** How the image is fitted; `cover` when omitted. */
+  fit?: ImageFitMode;
+  /** Point to keep in view when cropping, from 0 to 1 on each axis; the centre when omitted. */
+  focus?: { x: number; y: number };
+  /** CSS colour of the padding and of transparent pixels; black padding and kept transparency when omitted. */
+  background?: string;
+  /** Output format; the format of the input when omitted. */
+  format?: ImageFormat;
+  /** JPEG quality from 0 to 1. */
+  quality?: number;
+}
+
+/**
+ * Zod schema of the resize options tools accept. Either a Xibo resolution or a size.
+ */
+export const imageResizeSchema = z.object({
+  resolutionId: z.number().optional().describe('Xibo resolution (see getResolutions) to size the image to.'),
+  width: z.number().int().min(1).max(8192).optional().describe('Target width in pixels, when no resolution is given.'),
+  height: z.number().int().min(1).max(8192).optional().describe('Target height in pixels, when no resolution is given.'),
+  fit: z.enum(IMAGE_FIT_MODES).optional().default('cover')
+    .describe("'cover' crops to fill, 'contain' letterboxes with the background colour, 'stretch' ignores the aspect ratio."),
+  focusX: z.number().min(0).max(1).optional().describe('Horizontal focal point kept when cropping (0 left, 1 right); centre by default.'),
+  focusY: z.number().min(0).max(1).optional().describe('Vertical focal point kept when cropping (0 top, 1 bottom); centre by default.'),
+  background: z.string().optional().describe("Padding colour for 'contain', e.g. '#000000'."),
+});
+
+export type ImageResizeInput = z.input<typeof imageResizeSchema>;
+
+/**
+ * Source rectangle of the image and destination rectangle on the target, as taken by
+ * `drawImage()`.
+ */
+export interface ImagePlacement {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Computes where an image of `source` size is drawn on the target.
+ */
+export function planImageFit(source: { width: number; height: number }, options: Pick<ImageFitOptions, 'width' | 'height' | 'fit' | 'focus'>): ImagePlacement {
+  const { width, height } = options;
+  const full = { sx: 0, sy: 0, sw: source.width, sh: source.height };
+
+  switch (options.fit ?? 'cover') {
+    case 'stretch':
+      return { ...full, dx: 0, dy: 0, dw: width, dh: height };
+    case 'contain': {
+      const scale = Math.min(width / source.width, height / source.height);
+      const dw = Math.max(1, Math.round(source.width * scale));
+      const dh = Math.max(1, Math.round(source.height * scale));
+      return { ...full, dx: Math.floor((width - dw) / 2), dy: Math.floor((height - dh) / 2), dw, dh };
+    }
+    case 'cover': {
+      const focus = options.focus ?? { x: 0.5, y: 0.5 };
+      const targetRatio = width / height;
+      let sw = source.width;
+      let sh = source.height;
+      if (source.width / source.height > targetRatio) {
+        sw = Math.max(1, Math.round(source.height * targetRatio));
+      } else {
+        sh = Math.max(1, Math.round(source.width / targetRatio));
+      }
+      // Centre the crop on the focal point, moved inwards where it would leave the image.
+      const sx = Math.round(clamp(focus.x * source.width - sw / 2, 0, source.width - sw));
+      const sy = Math.round(clamp(focus.y * source.height - sh / 2, 0, source.height - sh));
+      return { sx, sy, sw, sh, dx: 0, dy: 0, dw: width, dh: height };
+    }
+  }
+}
+
+/**
+ * Tells the format of an encoded image from its first bytes.
+ */
+export function detectImageFormat(buffer: Buffer): ImageFormat | 'gif' | 'webp' | null {
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg';
+  if (buffer.subarray(0, 4).toString('ascii') === 'GIF8') return 'gif';
+  if (buffer.subarray(0, 4).toString('ascii') === 'RIFF' && buffer.subarray(8, 12).toString('ascii') === 'WEBP') return 'webp';
+  return null;
+}
+
+/**
+ * Crops, pads and scales an image to exactly `options.width` x `options.height`.
+ *
+ * @throws {Error} If the image cannot be decoded or `canvas` is not available.
+ */
+export async function fitImage(buffer: Buffer, options: ImageFitOptions): Promise<{ buffer: Buffer; width: number; height: number; format: ImageFormat }> {
+  const { createCanvas, loadImage } = await import('canvas');
+  const image = await loadImage(buffer);
+  const placement = planImageFit({ width: image.width, height: image.height }, options);
+  const format = options.format ?? (detectImageFormat(buffer) === 'jpeg' ? 'jpeg' : 'png');
+
+  let source: Image | Canvas = image;
+  let { sx, sy, sw, sh } = placement;
+  while (sw / 2 >= placement.dw && sh / 2 >= placement.dh) {
+    const step = createCanvas(Math.round(sw / 2), Math.round(sh / 2));
+    const stepContext = step.getContext('2d');
+    stepContext.imageSmoothingEnabled = true;
+    stepContext.quality = 'best';
+    stepContext.drawImage(source, sx, sy, sw, sh, 0, 0, step.width, step.height);
+    source = step;
+    sx = 0;
+    sy = 0;
+    sw = step.width;
+    sh = step.height;
+  }
+
+  const canvas = createCanvas(options.width, options.height);
+  const context = canvas.getContext('2d');
+  if (options.background !== undefined || options.fit === 'contain' || format === 'jpeg') {
+    context.fillStyle = options.background ?? '#000000';
+    context.fillRect(0, 0, options.width, options.height);
+  }
+  context.imageSmoothingEnabled = true;
+  context.quality = 'best';
+  context.drawImage(source, sx, sy, sw, sh, placement.dx, placement.dy, placement.dw, placement.dh);
+
+  return {
+    buffer: format === 'jpeg' ? canvas.toBuffer('image/jpeg', { quality: options.quality ?? 0.9 }) : canvas.toBuffer('image/png'),
+    width: options.width,
+    height: options.height,
+    format,
+  };
+}
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Difference hash of a 9x8 RGBA thumbnail: one bit per pixel telling whether it is brighter
+ * than its right neighbour, as 16 hex digits.
+ */
+export function differenceHashFromPixels(rgba: ArrayLike<number>): string {
+  const grey = (i: number) => 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let half = 0; half < 2; half++) {
+      let nibble = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const i = y * HASH_WIDTH + half * 4 + bit;
+        nibble = (nibble << 1) | (grey(i) > grey(i + 1) ? 1 : 0);
+      }
+      hash += nibble.toString(16);
+    }
+  }
+  return hash;
+}
+
+/**
+ * Perceptual (difference) hash of an image. Images that look alike have hashes only a few
+ * bits apart; see `hashDistance()`.
+ *
+ * @throws {Error} If the image cannot be decoded or `canvas` is not available.
+ */
+export async function differenceHash(buffer: Buffer): Promise<string> {
+  const { createCanvas, loadImage } = await import('canvas');
+  const image = await loadImage(buffer);
+  const canvas = createCanvas(HASH_WIDTH, HASH_HEIGHT);
+  const context = canvas.getContext('2d');
+  context.imageSmoothingEnabled = true;
+  context.quality = 'best';
+  context.drawImage(image, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  return differenceHashFromPixels(context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data);
+}
+
+/**
+ * Number of bits in which two hashes of `differenceHash()` differ (0 to 64).
+ */
+export function hashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Turns resize input into fit options, reading the size of a Xibo resolution from the CMS.
+ *
+ * @throws {Error} If the resolution does not exist or neither a resolution nor a size is given.
+ */
+export async function resolveImageFit(input: ImageResizeInput): Promise<ImageFitOptions & { resolution?: string }> {
+  const common = {
+    fit: input.fit ?? 'cover',
+    focus: input.focusX !== undefined || input.focusY !== undefined ? { x: input.focusX ?? 0.5, y: input.focusY ?? 0.5 } : undefined,
+    background: input.background,
+  };
+  if (input.resolutionId !== undefined) {
+    const result = await xiboClient.get('/resolution', { resolutionId: input.resolutionId }, z.array(resolutionSchema));
+    if (!result.success) {
+      throw new Error(`Reading resolution ${input.resolutionId} failed: ${result.message}`);
+    }
+    const resolution = result.data.find((r) => r.resolutionId === input.resolutionId);
+    if (!resolution) {
+      throw new Error(`Resolution ${input.resolutionId} does not exist.`);
+    }
+    return { ...common, width: resolution.width, height: resolution.height, resolution: resolution.resolution };
+  }
+  if (input.width === undefined || input.height === undefined) {
+    throw new Error('Give a resolutionId, or both width and height.');
+  }
+  return { ...common, width: input.width, height: input.height };
+}
@@ -0,0 +1,245 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Pagination utilities for Xibo CMS list endpoints
+ *
+ * Xibo list endpoints accept `start`/`length` query parameters and report the
+ * total number of matching records in the `X-Total-Count` response header.
+ * This module provides a shared pager that follows those pages, either as a
+ * stream (`iteratePages`) or collected into one array (`fetchPaginated`, or
+ * `loadRecords` for code that needs every record), and the input/output schema
+ * fragments every list tool uses to expose it.
+ */
+
+import { z } from 'zod';
+import { logger } from '../../../logger';
+import { config } from '../config';
+import { xiboClient } from '../xiboClient';
+import { decodeErrorMessage } from './error';
+
+/**
+ * Page size used when the caller asks for all records without giving `length`.
+ */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Input fields shared by every list tool. Spread `.shape` into a tool's input schema.
+ */
+export const paginationInputSchema = z.object({
+  start: z.number().int().min(0).optional().describe('Zero-based offset of the first record to return.'),
+  length: z.number().int().min(1).optional().describe('Number of records per page requested from the CMS.'),
+  all: z.boolean().optional().describe('If true, follow every page and return all matching records.'),
+  maxItems: z.number().int().min(1).optional().describe('Stop after this many records, following pages as needed.'),
+});
+
+export type PaginationOptions = z.infer<typeof paginationInputSchema>;
+
+/**
+ * Summary of how many records were returned versus how many the CMS holds.
+ */
+export const paginationSummarySchema = z.object({
+  total: z.number().nullable().describe('Total matching records reported by the CMS (null if unknown).'),
+  returned: z.number().describe('Number of records returned by this call.'),
+  start: z.number().describe('Offset of the first returned record.'),
+  pages: z.number().describe('Number of CMS pages fetched.'),
+  complete: z.boolean().describe('True when every matching record from `start` onward was returned.'),
+});
+
+export type PaginationSummary = z.infer<typeof paginationSummarySchema>;
+
+/**
+ * A single page yielded by `iteratePages`.
+ */
+export interface XiboPage {
+  items: unknown[];
+  total: number | null;
+  start: number;
+}
+
+export type PaginatedResult =
+  | { success: true; items: unknown[]; pagination: PaginationSummary }
+  | { success: false; message: string; status?: number; errorData?: unknown };
+
+/**
+ * Error thrown by `iteratePages` when the CMS rejects a page request.
+ */
+export class PaginationError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly errorData: unknown
+  ) {
+    super(message);
+    this.name = 'PaginationError';
+  }
+}
+
+/**
+ * Separates the pagination fields from a tool's input so the remaining filters
+ * can be turned into query parameters.
+ */
+export function splitPaginationOptions<T extends PaginationOptions>(
+  input: T
+): { pagination: PaginationOptions; filters: Omit<T, keyof PaginationOptions> } {
+  const { start, length, all, maxItems, ...filters } = input;
+  return { pagination: { start, length, all, maxItems }, filters };
+}
+
+/**
+ * Returns true when the options ask the pager to follow more than one page.
+ */
+function followsPages(options: PaginationOptions): boolean {
+  return Boolean(options.all || options.maxItems);
+}
+
+/**
+ * Reads the items and total count from a list response. Xibo returns a bare
+ * array with `X-Total-Count`, or `{ data, recordsTotal }` when enveloped.
+ */
+function readPage(body: unknown, headers: Headers): { items: unknown[]; total: number | null } {
+  const header = headers.get('X-Total-Count');
+  const headerTotal = header !== null && header !== '' ? Number(header) : NaN;
+
+  if (Array.isArray(body)) {
+    return { items: body, total: Number.isFinite(headerTotal) ? headerTotal : null };
+  }
+  if (body && typeof body === 'object' && Array.isArray((body as any).data)) {
+    const recordsTotal = Number((body as any).recordsTotal);
+    const total = Number.isFinite(headerTotal) ? headerTotal : Number.isFinite(recordsTotal) ? recordsTotal : null;
+    return { items: (body as any).data, total };
+  }
+  return { items: [], total: Number.isFinite(headerTotal) ? headerTotal : null };
+}
+
+/**
+ * Streams pages from a Xibo list endpoint.
+ *
+ * Without `all`/`maxItems` a single page is fetched, exactly as the CMS returns it.
+ * Otherwise pages of `length` (default `DEFAULT_PAGE_SIZE`) are requested until
+ * the CMS returns a short page, the reported total is reached or `maxItems` is hit.
+ *
+ * @param url Endpoint URL including any filter query parameters.
+ * @param options Pagination options from the tool input.
+ * @param init Extra fetch options (e.g. headers).
+ * @throws {PaginationError} If the CMS answers with a non-2xx status.
+ */
+export async function* iteratePages(
+  url: URL,
+  options: PaginationOptions = {},
+  init: RequestInit = {}
+): AsyncGenerator<XiboPage> {
+  const following = followsPages(options);
+  const pageSize = options.length ?? (following ? DEFAULT_PAGE_SIZE : undefined);
+  let offset = options.start ?? 0;
+  let collected = 0;
+
+  while (true) {
+    const pageUrl = new URL(url.toString());
+    if (options.start !== undefined || following) {
+      pageUrl.searchParams.set('start', String(offset));
+    }
+    if (pageSize !== undefined) {
+      pageUrl.searchParams.set('length', String(pageSize));
+    }
+
+    logger.debug({ url: pageUrl.toString() }, 'Fetching page from CMS');
+    const response = await xiboClient.fetch(pageUrl, { ...init, method: 'GET' });
+    const text = await response.text();
+
+    if (!response.ok) {
+      const decoded = decodeErrorMessage(text);
+      let errorData: unknown = decoded;
+      try {
+        errorData = JSON.parse(decoded);
+      } catch (e) {
+        // Not a JSON response
+      }
+      throw new PaginationError(`HTTP error! status: ${response.status}`, response.status, errorData);
+    }
+
+    const { items, total } = readPage(text ? JSON.parse(text) : [], response.headers);
+    const remaining = options.maxItems !== undefined ? options.maxItems - collected : Infinity;
+    const pageItems = items.length > remaining ? items.slice(0, remaining) : items;
+
+    yield { items: pageItems, total, start: offset };
+
+    collected += pageItems.length;
+    offset += items.length;
+
+    if (!following || items.length === 0) break;
+    if (pageSize !== undefined && items.length < pageSize) break;
+    if (total !== null && offset >= total) break;
+    if (options.maxItems !== undefined && collected >= options.maxItems) break;
+  }
+}
+
+/**
+ * Collects all pages from `iteratePages` into one array with a summary.
+ * This function never throws; failures are returned as `{ success: false }`.
+ */
+export async function fetchPaginated(
+  url: URL,
+  options: PaginationOptions = {},
+  init: RequestInit = {}
+): Promise<PaginatedResult> {
+  const items: unknown[] = [];
+  let total: number | null = null;
+  let pages = 0;
+
+  try {
+    for await (const page of iteratePages(url, options, init)) {
+      items.push(...page.items);
+      total = page.total ?? total;
+      pages++;
+    }
+  } catch (error) {
+    if (error instanceof PaginationError) {
+      logger.error({ url: url.toString(), status: error.status, errorData: error.errorData }, error.message);
+      return { success: false, message: error.message, status: error.status, errorData: error.errorData };
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error({ url: url.toString(), error: message }, 'Unexpected error while paginating');
+    return { success: false, message };
+  }
+
+  const start = options.start ?? 0;
+  // Without a total we can only be sure when every page was followed and maxItems did not cut it short.
+  const complete =
+    total !== null
+      ? start + items.length >= total
+      : followsPages(options) && (options.maxItems === undefined || items.length < options.maxItems);
+  const pagination: PaginationSummary = { total, returned: items.length, start, pages, complete };
+  logger.info({ url: url.pathname, ...pagination }, 'Paginated fetch finished');
+
+  return { success: true, items, pagination };
+}
+
+/**
+ * Loads all records of a list endpoint, skipping the ones that do not match the schema.
+ */
+export async function loadRecords<T>(path: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T[]> {
+  const result = await fetchPaginated(new URL(`${config.cmsUrl}/api${path}`), { all: true });
+  if (!result.success) {
+    throw new Error(`Reading ${path} failed: ${result.message}`);
+  }
+  return result.items.map((item) => schema.safeParse(item)).filter((p) => p.success).map((p) => p.data as T);
+}
+
+/**
+ * Builds a one-line human readable summary, e.g. "Returned 100 of 812 records (more available: set all=true)."
+ */
+export function describePagination(summary: PaginationSummary, noun = 'records'): string {
+  const totalText = summary.total === null ? '' : ` of ${summary.total}`;
+  const hint = summary.complete ? '' : ' (more available: set all=true or raise maxItems)';
+  return `Returned ${summary.returned}${totalText} ${noun}${hint}.`;
+}
@@ -0,0 +1,106 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Reviewed plans kept in memory
+ *
+ * Tools that change many things at once (schedule plans, menu board imports, library
+ * cleanups, media tagging) first return a plan for the user to review, then apply it by
+ * its ID. A `PlanStore` keeps those plans for a while, tied to the CMS profile they were
+ * made for, so a plan is never applied to another CMS.
+ */
+
+import crypto from 'crypto';
+import { getActiveCmsProfileName } from '../cmsContext';
+
+/**
+ * How long a plan can be applied after it was made.
+ */
+const PLAN_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Identity of a stored plan, given to the plan when it is stored.
+ */
+export interface PlanTicket {
+  id: string;
+  /** ISO time after which the plan can no longer be applied. */
+  expiresAt: string;
+  /** CMS profile that was active when the plan was made. */
+  cmsProfile: string;
+}
+
+export class PlanStore<T> {
+  private readonly plans = new Map<string, { ticket: PlanTicket; plan: T }>();
+
+  /**
+   * @param label How the plans are named in errors, e.g. 'Schedule plan'.
+   * @param retry What to do when a plan is gone, e.g. 'Preview the plan again.'
+   */
+  constructor(private readonly label: string, private readonly retry: string, private readonly ttlMs = PLAN_TTL_MS) {}
+
+  /**
+   * Stores a plan for the active CMS profile.
+   *
+   * @param build Builds the plan from its new ID, expiry and CMS profile.
+   */
+  put(build: (ticket: PlanTicket) => T): T {
+    this.prune();
+    const ticket: PlanTicket = {
+      id: crypto.randomUUID(),
+      expiresAt: new Date(Date.now() + this.ttlMs).toISOString(),
+      cmsProfile: getActiveCmsProfileName(),
+    };
+    const plan = build(ticket);
+    this.plans.set(ticket.id, { ticket, plan });
+    return plan;
+  }
+
+  /**
+   * Returns a plan that has not expired.
+   */
+  get(id: string): T | undefined {
+    this.prune();
+    return this.plans.get(id)?.plan;
+  }
+
+  /**
+   * Returns a plan to apply.
+   *
+   * @throws {Error} If the plan does not exist, has expired or was made for another CMS
+   * profile.
+   */
+  require(id: string): T {
+    this.prune();
+    const stored = this.plans.get(id);
+    if (!stored) {
+      throw new Error(`${this.label} ${id} does not exist or has expired. ${this.retry}`);
+    }
+    const cmsProfile = getActiveCmsProfileName();
+    if (stored.ticket.cmsProfile !== cmsProfile) {
+      throw new Error(`${this.label} ${id} was made for CMS profile '${stored.ticket.cmsProfile}', not '${cmsProfile}'.`);
+    }
+    return stored.plan;
+  }
+
+  delete(id: string): void {
+    this.plans.delete(id);
+  }
+
+  /**
+   * Drops the plans that have expired.
+   */
+  prune(now = Date.now()): void {
+    for (const [id, { ticket }] of this.plans) {
+      if (Date.parse(ticket.expiresAt) <= now) this.plans.delete(id);
+    }
+  }
+}
@@ -0,0 +1,154 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module spreadsheet
+ * @description Reads and writes the tabular files users keep their data in: CSV (RFC 4180,
+ * with quoted fields and an optional BOM) and the first or a named sheet of an XLSX workbook.
+ * Every row is returned as an array of cell strings, blank rows included so row numbers
+ * match the file; the caller maps the header row.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { unzip } from './zipArchive';
+
+/**
+ * Parses CSV text. The delimiter is detected from the first line (comma, semicolon or tab).
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Formats rows as CSV, quoting fields that contain the delimiter, quotes or line breaks.
+ */
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  const cell = (value: string | number | null | undefined) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(cell).join(',')).join('\r\n') + '\r\n';
+}
+
+// -----------------------------------------------------------------------------
+// XLSX
+// -----------------------------------------------------------------------------
+
+const xml = new XMLParser({
+  ignoreAttributes: false,
+  parseTagValue: false,
+  trimValues: false,
+  isArray: (name) => ['sheet', 'Relationship', 'si', 'r', 'row', 'c'].includes(name),
+});
+
+/** Text of a `<t>` element, which has attributes when it preserves spaces. */
+const text = (node: unknown): string =>
+  node === undefined || node === null ? '' : typeof node === 'object' ? String((node as Record<string, unknown>)['#text'] ?? '') : String(node);
+
+/** Text of a shared or inline string: plain `<t>` or rich text runs `<r><t>`. */
+const stringItem = (item: any): string =>
+  item?.t !== undefined ? text(item.t) : (item?.r ?? []).map((run: any) => text(run.t)).join('');
+
+/** Zero-based column index of a cell reference such as `AB12`. */
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const char of ref.replace(/\d+$/, '')) index = index * 26 + (char.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+/**
+ * Reads the rows of a worksheet of an XLSX workbook.
+ *
+ * @param sheet Name of the worksheet; the first one when omitted.
+ * @throws {Error} If the workbook cannot be read or has no such sheet.
+ */
+export function readXlsxRows(buffer: Buffer, sheet?: string): string[][] {
+  const files = unzip(buffer, 'an XLSX workbook');
+  const read = (name: string) => {
+    const file = files.get(name);
+    if (!file) throw new Error(`The XLSX workbook has no ${name}.`);
+    return xml.parse(file.toString('utf-8'));
+  };
+
+  const sheets: Array<Record<string, string>> = read('xl/workbook.xml').workbook?.sheets?.sheet ?? [];
+  const target = sheet ? sheets.find((s) => s['@_name'] === sheet) : sheets[0];
+  if (!target) {
+    throw new Error(sheet ? `The XLSX workbook has no sheet "${sheet}".` : 'The XLSX workbook has no sheets.');
+  }
+  const relations: Array<Record<string, string>> = read('xl/_rels/workbook.xml.rels').Relationships?.Relationship ?? [];
+  const relation = relations.find((r) => r['@_Id'] === target['@_r:id']);
+  const path = relation?.['@_Target'].replace(/^\/?(xl\/)?/, 'xl/') ?? 'xl/worksheets/sheet1.xml';
+
+  const sharedStrings: string[] = files.has('xl/sharedStrings.xml')
+    ? (read('xl/sharedStrings.xml').sst?.si ?? []).map(stringItem)
+    : [];
+
+  const rows: string[][] = [];
+  for (const row of read(path).worksheet?.sheetData?.row ?? []) {
+    const cells: string[] = [];
+    (row.c ?? []).forEach((cell: any, position: number) => {
+      const index = cell['@_r'] ? columnIndex(cell['@_r']) : position;
+      const raw = text(cell.v);
+      let value: string;
+      switch (cell['@_t']) {
+        case 's': value = sharedStrings[Number(raw)] ?? ''; break;
+        case 'inlineStr': value = stringItem(cell.is); break;
+        case 'b': value = raw === '1' ? 'TRUE' : 'FALSE'; break;
+        default: value = raw;
+      }
+      while (cells.length < index) cells.push('');
+      cells[index] = value;
+    });
+    rows[Number(row['@_r'] ?? rows.length + 1) - 1] = cells;
+  }
+  return Array.from(rows, (cells) => cells ?? []);
+}
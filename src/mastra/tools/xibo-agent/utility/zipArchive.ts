@@ -0,0 +1,212 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module zipArchive
+ * @description Reads ZIP archives: XLSX workbooks held in memory, and the asset packages
+ * agencies send, which are extracted entry by entry from disk. Only stored and deflated
+ * entries are supported, and no ZIP64.
+ */
+
+import zlib from 'zlib';
+import fs from 'fs';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+const shiftJis = new TextDecoder('shift_jis');
+
+/** Size of the end of central directory record without its comment. */
+const END_RECORD_SIZE = 22;
+
+/** A file or directory listed in the central directory. */
+interface ZipEntry {
+  name: string;
+  flags: number;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+}
+
+/**
+ * Decodes an entry name. Names without the UTF-8 flag are usually UTF-8 anyway; archives
+ * made by the Windows Explorer of a Japanese system use Shift_JIS.
+ */
+function entryName(bytes: Buffer, flags: number): string {
+  if (flags & 0x0800) return bytes.toString('utf-8');
+  try {
+    return utf8.decode(bytes);
+  } catch {
+    return shiftJis.decode(bytes);
+  }
+}
+
+/**
+ * Finds the end of central directory record in the tail of an archive.
+ */
+function readEndRecord(tail: Buffer, what: string): { count: number; size: number; offset: number } {
+  let end = tail.length - END_RECORD_SIZE;
+  while (end >= 0 && tail.readUInt32LE(end) !== 0x06054b50) end--;
+  if (end < 0) {
+    throw new Error(`The file is not ${what} (no ZIP directory found).`);
+  }
+  const count = tail.readUInt16LE(end + 10);
+  const size = tail.readUInt32LE(end + 12);
+  const offset = tail.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives (over 4 GB or 65535 files) are not supported; send a directory or smaller archives.');
+  }
+  return { count, size, offset };
+}
+
+/**
+ * Reads the entries of the central directory.
+ */
+function readDirectory(directory: Buffer, count: number, what: string): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error(`The file is not ${what} (damaged ZIP directory).`);
+    }
+    const flags = directory.readUInt16LE(offset + 8);
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const name = entryName(directory.subarray(offset + 46, offset + 46 + nameLength), flags);
+    entries.push({
+      name,
+      flags,
+      method: directory.readUInt16LE(offset + 10),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      localOffset: directory.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 0x0001) {
+      throw new Error(`${name} is encrypted; send the archive without a password.`);
+    }
+    if (entries[i].method !== 0 && entries[i].method !== 8) {
+      throw new Error(`${name} uses an unsupported compression method (${entries[i].method}).`);
+    }
+  }
+  return entries;
+}
+
+/** Offset of the data of an entry, from the start of its local header. */
+const dataOffset = (localHeader: Buffer) => 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+
+/**
+ * Extracts the entries of a ZIP archive held in memory. Directory entries are included with
+ * empty contents and names ending in `/`.
+ *
+ * @param what How to call the file in errors, e.g. 'an XLSX workbook'.
+ * @throws {Error} If the file is not a ZIP archive or uses features not supported here.
+ */
+export function unzip(buffer: Buffer, what = 'a ZIP archive'): Map<string, Buffer> {
+  const end = readEndRecord(buffer, what);
+  const files = new Map<string, Buffer>();
+  for (const entry of readDirectory(buffer.subarray(end.offset, end.offset + end.size), end.count, what)) {
+    const dataStart = entry.localOffset + dataOffset(buffer.subarray(entry.localOffset, entry.localOffset + 30));
+    const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+    files.set(entry.name, entry.method === 0 ? data : zlib.inflateRawSync(data));
+  }
+  return files;
+}
+
+/**
+ * Limits on the extracted size of an archive, so a damaged archive or a zip bomb cannot
+ * fill the disk.
+ */
+export interface ZipExtractLimits {
+  /** Largest extracted size of one entry, in bytes. */
+  maxEntryBytes: number;
+  /** Largest extracted size of all entries together, in bytes. */
+  maxTotalBytes: number;
+}
+
+/**
+ * Extracts a ZIP file on disk entry by entry, streaming every entry to its file, so the
+ * archive is never held in memory. Directory entries are skipped.
+ *
+ * @param zipPath The archive to extract
+ * @param destination Returns the file an entry is written to, or null to skip the entry
+ * @param limits Largest extracted size of an entry and of the whole archive
+ * @throws {Error} If the file is not a ZIP archive, uses features not supported here, or
+ *   exceeds a limit. Files written before the error are left in place.
+ */
+export async function extractZipFile(
+  zipPath: string,
+  destination: (name: string) => string | null,
+  limits: ZipExtractLimits,
+  what = 'a ZIP archive',
+): Promise<void> {
+  const handle = await fs.promises.open(zipPath, 'r');
+  let entries: ZipEntry[];
+  try {
+    const { size: fileSize } = await handle.stat();
+    const tailSize = Math.min(fileSize, END_RECORD_SIZE + 0xffff);
+    const read = async (position: number, length: number) => {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, position);
+      return buffer.subarray(0, bytesRead);
+    };
+    const end = readEndRecord(await read(fileSize - tailSize, tailSize), what);
+    entries = readDirectory(await read(end.offset, end.size), end.count, what);
+    for (const entry of entries) {
+      entry.localOffset += dataOffset(await read(entry.localOffset, 30));
+    }
+  } finally {
+    await handle.close();
+  }
+
+  let total = 0;
+  for (const entry of entries) {
+    if (entry.name.endsWith('/')) continue;
+    const target = destination(entry.name);
+    if (!target) continue;
+    if (entry.size > limits.maxEntryBytes) {
+      throw new Error(`${entry.name} is larger than ${limits.maxEntryBytes} bytes when extracted.`);
+    }
+
+    let written = 0;
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, done) {
+        written += chunk.length;
+        total += chunk.length;
+        if (written > limits.maxEntryBytes) {
+          done(new Error(`${entry.name} is larger than ${limits.maxEntryBytes} bytes when extracted.`));
+        } else if (total > limits.maxTotalBytes) {
+          done(new Error(`The archive is larger than ${limits.maxTotalBytes} bytes when extracted.`));
+        } else {
+          done(null, chunk);
+        }
+      },
+    });
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    if (entry.compressedSize === 0) {
+      await fs.promises.writeFile(target, '');
+      continue;
+    }
+    const input = fs.createReadStream(zipPath, { start: entry.localOffset, end: entry.localOffset + entry.compressedSize - 1 });
+    const output = fs.createWriteStream(target);
+    if (entry.method === 8) {
+      await pipeline(input, zlib.createInflateRaw(), limit, output);
+    } else {
+      await pipeline(input, limit, output);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module evaluateWeatherRules
+ * @description Provides a tool that evaluates the weather rules of the active CMS profile
+ * against the current forecast and applies the resulting schedule or web hook changes.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { WEATHER_RULE_TRANSITIONS, evaluateWeatherRules as runWeatherRules } from '../weatherRules';
+import { logger } from '../../../logger';
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.array(z.object({
+    ruleId: z.string(),
+    name: z.string(),
+    matched: z.boolean().describe('Whether the forecast meets the conditions now.'),
+    active: z.boolean().describe('Whether the rule is active after the evaluation.'),
+    transition: z.enum(WEATHER_RULE_TRANSITIONS).nullable().describe('What changed; null when nothing did.'),
+    detail: z.string(),
+    observed: z.array(z.object({
+      metric: z.string(),
+      value: z.number().nullable(),
+      time: z.string().nullable(),
+      label: z.string().optional(),
+    })),
+  })).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for evaluating weather rules now.
+ */
+export const evaluateWeatherRules = createTool({
+  id: 'evaluate-weather-rules',
+  description: 'Evaluate the weather rules now against the Open-Meteo forecast and schedule or clear their campaigns (or send their web hook triggers). Use dryRun to only preview.',
+  inputSchema: z.object({
+    ruleIds: z.array(z.string()).optional().describe("Only evaluate these rules."),
+    dryRun: z.boolean().optional().default(false).describe("Report what would change without changing the CMS."),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    try {
+      const results = await runWeatherRules({ ruleIds: context.ruleIds, dryRun: context.dryRun });
+      const changed = results.filter((r) => r.transition && r.transition !== 'failed').length;
+      const failed = results.filter((r) => r.transition === 'failed').length;
+      logger.info({ rules: results.length, changed, failed, dryRun: context.dryRun }, "Evaluated weather rules.");
+      return {
+        success: failed === 0,
+        message: results.length
+          ? `${results.length} rules evaluated: ${changed} ${context.dryRun ? 'would change' : 'changed'}, ${failed} failed.`
+          : 'No enabled weather rules are declared for this CMS profile.',
+        data: results,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "evaluateWeatherRules: Failed to evaluate weather rules");
+      return { success: false, message: `Failed to evaluate weather rules: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
@@ -0,0 +1,114 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * @module getWeatherRules
+ * @description Provides a tool that lists the weather rules of the active CMS profile with
+ * their current state and the history of triggered rules.
+ */
+
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import {
+  WEATHER_RULE_TRANSITIONS,
+  getWeatherRuleStates,
+  listWeatherRuleEvents,
+  listWeatherRules,
+} from '../weatherRules';
+import { getActiveCmsProfileName } from '../cmsContext';
+import { logger } from '../../../logger';
+
+const observedSchema = z.object({
+  metric: z.string(),
+  value: z.number().nullable(),
+  time: z.string().nullable().describe('Forecast hour (local time of the location).'),
+  label: z.string().optional(),
+});
+
+const outputSchema = z.object({
+  success: z.boolean().describe("Indicates whether the operation was successful."),
+  message: z.string().describe("A message providing details about the operation outcome."),
+  data: z.object({
+    cmsProfile: z.string(),
+    rules: z.array(z.object({
+      ruleId: z.string(),
+      name: z.string(),
+      enabled: z.boolean(),
+      rule: z.any().describe('The rule as declared in weather-rules.json.'),
+      active: z.boolean(),
+      since: z.string().nullable().describe('When the rule was last activated or cleared (ISO 8601).'),
+      eventIds: z.array(z.number()).describe('Schedule events currently created by the rule.'),
+      lastEvaluated: z.string().nullable(),
+      observed: z.array(observedSchema),
+      error: z.string().nullable(),
+    })),
+    history: z.array(z.object({
+      timestamp: z.string(),
+      ruleId: z.string(),
+      transition: z.enum(WEATHER_RULE_TRANSITIONS),
+      detail: z.string(),
+      observed: z.array(observedSchema),
+    })).describe("Triggered rules, newest first."),
+  }).optional(),
+  error: z.any().optional(),
+});
+
+/**
+ * Tool for listing weather rules and their history.
+ */
+export const getWeatherRules = createTool({
+  id: 'get-weather-rules',
+  description: 'List the weather rules (weather-triggered schedules and web hook triggers) with their current state and the history of triggered rules.',
+  inputSchema: z.object({
+    ruleId: z.string().optional().describe("Only this rule and its history."),
+    historyLimit: z.number().int().min(0).max(200).optional().default(20).describe("Number of history entries to include."),
+  }),
+  outputSchema,
+  execute: async ({ context }) => {
+    const cmsProfile = getActiveCmsProfileName();
+    try {
+      const states = new Map((await getWeatherRuleStates(cmsProfile)).map((s) => [s.ruleId, s]));
+      const rules = listWeatherRules(cmsProfile)
+        .filter((rule) => !context.ruleId || rule.id === context.ruleId)
+        .map((rule) => {
+          const state = states.get(rule.id);
+          return {
+            ruleId: rule.id,
+            name: rule.name ?? rule.id,
+            enabled: rule.enabled,
+            rule,
+            active: state?.active ?? false,
+            since: state?.since ?? null,
+            eventIds: state?.eventIds ?? [],
+            lastEvaluated: state?.lastEvaluated ?? null,
+            observed: state?.observed ?? [],
+            error: state?.error ?? null,
+          };
+        });
+      const history = (await listWeatherRuleEvents(cmsProfile, { ruleId: context.ruleId, limit: context.historyLimit ?? 20 }))
+        .map(({ cmsProfile: _profile, ...event }) => event);
+
+      logger.info({ rules: rules.length, active: rules.filter((r) => r.active).length }, "Retrieved weather rules.");
+      return {
+        success: true,
+        message: rules.length
+          ? `${rules.length} weather rules, ${rules.filter((r) => r.active).length} active.`
+          : 'No weather rules are declared for this CMS profile.',
+        data: { cmsProfile, rules, history },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ error: errorMessage }, "getWeatherRules: Failed to read weather rules");
+      return { success: false, message: `Failed to read weather rules: ${errorMessage}`, error: errorMessage };
+    }
+  },
+});
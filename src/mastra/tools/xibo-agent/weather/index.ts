@@ -19,6 +19,8 @@
 export { getWeather } from './getWeather';
 export { getWeatherByCoordinates } from './getWeatherByCoordinates';
 export { getWeeklyWeather } from './getWeeklyWeather'; 
+export { getWeatherRules } from './getWeatherRules';
+export { evaluateWeatherRules } from './evaluateWeatherRules';
 export {
   geocodingResponseSchema,
   type GeocodingResponse,
@@ -26,5 +28,7 @@ export {
   type WeatherResponse,
   weeklyWeatherResponseSchema,
   type WeeklyWeatherResponse,
+  hourlyWeatherResponseSchema,
+  type HourlyWeatherResponse,
   weatherConditions,
 } from './weatherTypes';
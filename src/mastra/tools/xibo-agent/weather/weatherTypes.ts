@@ -65,6 +65,17 @@ export const weeklyWeatherResponseSchema = z.object({
 });
 export type WeeklyWeatherResponse = z.infer<typeof weeklyWeatherResponseSchema>;
 
+/**
+ * Schema for validating hourly forecast data from the Open-Meteo Forecast API.
+ * Values may be null for hours the model does not cover.
+ */
+export const hourlyWeatherResponseSchema = z.object({
+  hourly: z.object({
+    time: z.array(z.string()),
+  }).catchall(z.array(z.number().nullable())),
+});
+export type HourlyWeatherResponse = z.infer<typeof hourlyWeatherResponseSchema>;
+
 /**
  * A mapping of WMO weather codes to human-readable descriptions.
  */
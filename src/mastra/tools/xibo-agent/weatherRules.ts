@@ -0,0 +1,753 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Weather Rule Engine
+ *
+ * Switches content by the weather at a display. Each rule names a location (coordinates,
+ * or a display whose latitude/longitude is read from the CMS), conditions on the Open-Meteo
+ * hourly forecast and an action:
+ *
+ * - `schedule`: while the rule is active, a campaign event is scheduled on the display
+ *   groups (usually as priority). The event is deleted when the rule clears, and replaced
+ *   by a new one before it runs out while the rule stays active.
+ * - `webhook`: the trigger code is sent to the display groups when the rule activates
+ *   (and `clearTriggerCode`, if given, when it clears), for players using web hook triggers.
+ *
+ * A rule is active while at least one forecast hour in `forecastHours` (starting with the
+ * current hour) meets all conditions, and stays active for at least `minActiveMinutes` so
+ * values around a threshold do not flap the schedule. A rule disabled or removed while active
+ * is cleared on the next evaluation. The state of each rule is kept in
+ * `xibo_weather_rule_state`; every activation, renewal, clear and failure is appended to
+ * `xibo_weather_rule_events`.
+ *
+ * Rules are declared in `weather-rules.json` in the project root (or `XIBO_WEATHER_RULES_FILE`):
+ *
+ * ```json
+ * {
+ *   "enabled": true,
+ *   "intervalSeconds": 900,
+ *   "rules": [{
+ *     "id": "rain-umbrellas",
+ *     "name": "Umbrella promotion when rain is likely",
+ *     "location": { "displayId": 12 },
+ *     "conditions": [{ "metric": "precipitationProbability", "operator": ">", "value": 60 }],
+ *     "forecastHours": 3,
+ *     "action": { "type": "schedule", "campaignId": 5, "displayGroupIds": [7], "isPriority": 1 }
+ *   }]
+ * }
+ * ```
+ *
+ * Without `enabled` the rules are evaluated in the background only when `XIBO_WEATHER_RULES=on`.
+ */
+
+import { z } from 'zod';
+import fs from 'fs';
+import { InValue } from '@libsql/client';
+import { config } from './config';
+import { logger } from '../../logger';
+import { ensureTables, getAgentDatabase } from './database';
+import { xiboClient } from './xiboClient';
+import { getActiveCmsProfileName, runWithCmsProfile } from './cmsContext';
+import { getCmsProfile } from './cmsProfiles';
+import { runWithAuditContext } from './auditLog';
+import { formatDateTime } from './utility/dateTime';
+import { hourlyWeatherResponseSchema, weatherConditions } from './weather/weatherTypes';
+
+/**
+ * Forecast values a condition can test, with the Open-Meteo hourly variable of each.
+ */
+export const WEATHER_METRICS = {
+  temperature: 'temperature_2m',
+  apparentTemperature: 'apparent_temperature',
+  precipitationProbability: 'precipitation_probability',
+  precipitation: 'precipitation',
+  windSpeed: 'wind_speed_10m',
+  windGust: 'wind_gusts_10m',
+  weatherCode: 'weather_code',
+} as const;
+
+export type WeatherMetric = keyof typeof WEATHER_METRICS;
+
+const METRIC_NAMES = Object.keys(WEATHER_METRICS) as [WeatherMetric, ...WeatherMetric[]];
+
+export const WEATHER_RULE_TRANSITIONS = ['activated', 'renewed', 'cleared', 'failed'] as const;
+
+export type WeatherRuleTransition = typeof WEATHER_RULE_TRANSITIONS[number];
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const FORECAST_TIMEOUT_MS = 10000;
+const DEFAULT_INTERVAL_SECONDS = 900;
+const ENGINE_SOURCE = 'weather-rule-engine';
+
+const conditionSchema = z.object({
+  metric: z.enum(METRIC_NAMES).describe('Forecast value to test.'),
+  operator: z.enum(['>', '>=', '<', '<=', '=', 'in']),
+  value: z.union([z.number(), z.array(z.number())]).describe("Threshold, or a list of WMO weather codes for 'in'."),
+}).refine((c) => (c.operator === 'in') === Array.isArray(c.value), { message: "Use a list of values with 'in' and a single value otherwise." });
+
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('schedule'),
+    campaignId: z.number(),
+    displayGroupIds: z.array(z.number()).min(1),
+    isPriority: z.number().int().min(0).optional().default(1),
+    displayOrder: z.number().int().min(0).optional().default(0),
+    maxHours: z.number().min(1).max(168).optional().default(12).describe('Length of each scheduled event; renewed while the rule stays active.'),
+  }),
+  z.object({
+    type: z.literal('webhook'),
+    displayGroupIds: z.array(z.number()).min(1),
+    triggerCode: z.string().min(1),
+    clearTriggerCode: z.string().min(1).optional(),
+  }),
+]);
+
+export const weatherRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  enabled: z.boolean().optional().default(true),
+  cmsProfile: z.string().optional().describe('CMS profile the rule acts on; the default profile when omitted.'),
+  location: z.union([
+    z.object({ latitude: z.number(), longitude: z.number() }),
+    z.object({ displayId: z.number() }),
+  ]),
+  conditions: z.array(conditionSchema).min(1).describe('All conditions must hold in the same forecast hour.'),
+  forecastHours: z.number().int().min(1).max(48).optional().default(1),
+  minActiveMinutes: z.number().int().min(0).optional().default(60),
+  action: actionSchema,
+});
+
+export type WeatherRule = z.infer<typeof weatherRuleSchema>;
+export type WeatherCondition = z.infer<typeof conditionSchema>;
+
+const settingsFileSchema = z.object({
+  enabled: z.boolean().optional(),
+  intervalSeconds: z.number().int().min(60).optional(),
+  rules: z.array(weatherRuleSchema).optional(),
+});
+
+type WeatherRuleSettings = z.infer<typeof settingsFileSchema>;
+
+/**
+ * Stored state of one rule.
+ */
+export interface WeatherRuleState {
+  cmsProfile: string;
+  ruleId: string;
+  active: boolean;
+  since: string | null;
+  eventIds: number[];
+  eventsUntil: string | null;
+  /** Trigger to send when the rule clears, kept from activation so it is sent even after the rule is removed. */
+  clearTrigger: { displayGroupIds: number[]; triggerCode: string } | null;
+  lastEvaluated: string | null;
+  observed: ObservedValue[];
+  error: string | null;
+}
+
+/**
+ * A forecast value that decided a condition.
+ */
+export interface ObservedValue {
+  metric: WeatherMetric;
+  value: number | null;
+  time: string | null;
+  label?: string;
+}
+
+/**
+ * An entry of the rule history.
+ */
+export interface WeatherRuleEvent {
+  timestamp: string;
+  cmsProfile: string;
+  ruleId: string;
+  transition: WeatherRuleTransition;
+  detail: string;
+  observed: ObservedValue[];
+}
+
+/**
+ * Outcome of evaluating one rule.
+ */
+export interface WeatherRuleResult {
+  ruleId: string;
+  name: string;
+  matched: boolean;
+  active: boolean;
+  transition: WeatherRuleTransition | null;
+  detail: string;
+  observed: ObservedValue[];
+}
+
+let settings: WeatherRuleSettings | null = null;
+
+function getSettings(): WeatherRuleSettings {
+  if (settings) return settings;
+  settings = {};
+  if (fs.existsSync(config.weatherRulesFile)) {
+    try {
+      const parsed = settingsFileSchema.safeParse(JSON.parse(fs.readFileSync(config.weatherRulesFile, 'utf-8')));
+      if (parsed.success) {
+        settings = parsed.data;
+      } else {
+        logger.error({ file: config.weatherRulesFile, error: parsed.error.flatten() }, 'Invalid weather rules file; no rules loaded');
+      }
+    } catch (error) {
+      logger.error({ file: config.weatherRulesFile, error: error instanceof Error ? error.message : error }, 'Failed to read weather rules file');
+    }
+  }
+  return settings;
+}
+
+/**
+ * Drops the loaded rules so the next evaluation re-reads the file.
+ */
+export function reloadWeatherRules(): void {
+  settings = null;
+}
+
+/**
+ * Returns the rules of a CMS profile.
+ */
+export function listWeatherRules(cmsProfile: string): WeatherRule[] {
+  const defaultProfile = getCmsProfile().name;
+  return (getSettings().rules ?? []).filter((rule) => (rule.cmsProfile ?? defaultProfile) === cmsProfile);
+}
+
+function ensureSchema(): Promise<void> {
+  return ensureTables('weather-rules', [
+    `CREATE TABLE IF NOT EXISTS xibo_weather_rule_state (
+      cms_profile TEXT NOT NULL,
+      rule_id TEXT NOT NULL,
+      active INTEGER NOT NULL,
+      since TEXT,
+      event_ids TEXT NOT NULL,
+      events_until TEXT,
+      clear_trigger TEXT,
+      last_evaluated TEXT,
+      observed TEXT NOT NULL,
+      error TEXT,
+      PRIMARY KEY (cms_profile, rule_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS xibo_weather_rule_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp TEXT NOT NULL,
+      cms_profile TEXT NOT NULL,
+      rule_id TEXT NOT NULL,
+      transition TEXT NOT NULL,
+      detail TEXT NOT NULL,
+      observed TEXT NOT NULL
+    )`,
+    'CREATE INDEX IF NOT EXISTS xibo_weather_rule_events_rule ON xibo_weather_rule_events (cms_profile, rule_id)',
+  ]);
+}
+
+// -----------------------------------------------------------------------------
+// Forecast and conditions
+// -----------------------------------------------------------------------------
+
+/**
+ * Hourly forecast: the hour labels and the values of each metric.
+ */
+export interface HourlyForecast {
+  time: string[];
+  values: Record<WeatherMetric, (number | null)[]>;
+}
+
+/**
+ * Reads the hourly forecast from the current hour on.
+ *
+ * @throws {Error} If Open-Meteo does not answer with a forecast.
+ */
+export async function fetchHourlyForecast(latitude: number, longitude: number, hours: number): Promise<HourlyForecast> {
+  const url = new URL(FORECAST_URL);
+  url.searchParams.set('latitude', String(latitude));
+  url.searchParams.set('longitude', String(longitude));
+  url.searchParams.set('hourly', Object.values(WEATHER_METRICS).join(','));
+  url.searchParams.set('forecast_hours', String(hours));
+  url.searchParams.set('timezone', 'auto');
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(FORECAST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Open-Meteo answered ${response.status}`);
+  }
+  const parsed = hourlyWeatherResponseSchema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error('Open-Meteo returned an unexpected forecast');
+  }
+  const { hourly } = parsed.data;
+  const values = Object.fromEntries(
+    METRIC_NAMES.map((metric) => [metric, (hourly[WEATHER_METRICS[metric]] as (number | null)[] | undefined) ?? []])
+  ) as HourlyForecast['values'];
+  return { time: hourly.time.slice(0, hours), values };
+}
+
+function holds(condition: WeatherCondition, value: number | null): boolean {
+  if (value === null || value === undefined) return false;
+  const target = condition.value;
+  switch (condition.operator) {
+    case '>': return value > (target as number);
+    case '>=': return value >= (target as number);
+    case '<': return value < (target as number);
+    case '<=': return value <= (target as number);
+    case '=': return value === target;
+    case 'in': return (target as number[]).includes(value);
+  }
+}
+
+function observe(metric: WeatherMetric, forecast: HourlyForecast, hour: number): ObservedValue {
+  const value = forecast.values[metric][hour] ?? null;
+  return {
+    metric,
+    value,
+    time: forecast.time[hour] ?? null,
+    ...(metric === 'weatherCode' && value !== null ? { label: weatherConditions[value] ?? 'Unknown' } : {}),
+  };
+}
+
+/**
+ * Tests the conditions against each forecast hour. Returns the first hour meeting all of
+ * them, or, when none does, the value of each metric closest to its threshold.
+ */
+export function matchConditions(conditions: WeatherCondition[], forecast: HourlyForecast): { matched: boolean; observed: ObservedValue[] } {
+  for (let hour = 0; hour < forecast.time.length; hour++) {
+    if (conditions.every((c) => holds(c, forecast.values[c.metric][hour] ?? null))) {
+      return { matched: true, observed: conditions.map((c) => observe(c.metric, forecast, hour)) };
+    }
+  }
+  const observed = conditions.map((c) => {
+    const hours = forecast.time.map((_, hour) => hour).filter((hour) => forecast.values[c.metric][hour] != null);
+    if (!hours.length) return { metric: c.metric, value: null, time: null };
+    const closest = c.operator === '<' || c.operator === '<='
+      ? hours.reduce((best, hour) => (forecast.values[c.metric][hour]! < forecast.values[c.metric][best]! ? hour : best))
+      : c.operator === '>' || c.operator === '>='
+        ? hours.reduce((best, hour) => (forecast.values[c.metric][hour]! > forecast.values[c.metric][best]! ? hour : best))
+        : hours[0];
+    return observe(c.metric, forecast, closest);
+  });
+  return { matched: false, observed };
+}
+
+function describeObserved(observed: ObservedValue[]): string {
+  return observed.map((o) => `${o.metric}=${o.label ?? o.value ?? 'n/a'}${o.time ? ` at ${o.time}` : ''}`).join(', ');
+}
+
+// -----------------------------------------------------------------------------
+// Actions
+// -----------------------------------------------------------------------------
+
+type ScheduleAction = Extract<WeatherRule['action'], { type: 'schedule' }>;
+
+/**
+ * Schedules the rule's campaign from now for `maxHours`.
+ */
+async function scheduleCampaign(rule: WeatherRule, action: ScheduleAction): Promise<{ eventId: number; until: string }> {
+  const now = Math.floor(Date.now() / 1000);
+  const until = formatDateTime(now + action.maxHours * 3600);
+  const result = await xiboClient.request<{ eventId: number }>('/schedule', {
+    method: 'POST',
+    form: {
+      eventTypeId: 1,
+      campaignId: action.campaignId,
+      displayGroupIds: action.displayGroupIds,
+      fromDt: formatDateTime(now),
+      toDt: until,
+      isPriority: action.isPriority,
+      displayOrder: action.displayOrder,
+      name: `Weather rule: ${rule.name ?? rule.id}`,
+    },
+  });
+  if (!result.success || typeof result.data?.eventId !== 'number') {
+    throw new Error(`Scheduling campaign ${action.campaignId} failed: ${result.success ? 'the CMS did not return an event ID' : result.message}`);
+  }
+  return { eventId: result.data.eventId, until };
+}
+
+/**
+ * Deletes events created for a rule. Events already removed in the CMS are ignored.
+ */
+async function deleteEvents(eventIds: number[]): Promise<void> {
+  for (const eventId of eventIds) {
+    const result = await xiboClient.request(`/schedule/${eventId}`, { method: 'DELETE' });
+    if (!result.success && result.status !== 404) {
+      throw new Error(`Deleting event ${eventId} failed: ${result.message}`);
+    }
+  }
+}
+
+/**
+ * Deletes events one by one and returns the IDs that could not be deleted.
+ */
+async function deleteEventsKeepingFailures(eventIds: number[]): Promise<number[]> {
+  const failed: number[] = [];
+  for (const eventId of eventIds) {
+    try {
+      await deleteEvents([eventId]);
+    } catch (error) {
+      logger.warn({ eventId, error: error instanceof Error ? error.message : error }, 'Could not delete a replaced weather rule event');
+      failed.push(eventId);
+    }
+  }
+  return failed;
+}
+
+async function triggerWebhook(displayGroupIds: number[], triggerCode: string): Promise<void> {
+  for (const displayGroupId of displayGroupIds) {
+    const result = await xiboClient.request(`/displaygroup/${displayGroupId}/action/triggerWebhook`, {
+      method: 'POST',
+      form: { triggerCode },
+    });
+    if (!result.success) {
+      throw new Error(`Triggering "${triggerCode}" on display group ${displayGroupId} failed: ${result.message}`);
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Evaluation
+// -----------------------------------------------------------------------------
+
+function toState(row: Record<string, unknown>): WeatherRuleState {
+  return {
+    cmsProfile: String(row.cms_profile),
+    ruleId: String(row.rule_id),
+    active: Number(row.active) === 1,
+    since: (row.since as string | null) ?? null,
+    eventIds: JSON.parse(String(row.event_ids)),
+    eventsUntil: (row.events_until as string | null) ?? null,
+    clearTrigger: row.clear_trigger ? JSON.parse(String(row.clear_trigger)) : null,
+    lastEvaluated: (row.last_evaluated as string | null) ?? null,
+    observed: JSON.parse(String(row.observed)),
+    error: (row.error as string | null) ?? null,
+  };
+}
+
+/**
+ * Stored state of the rules of one CMS profile.
+ */
+export async function getWeatherRuleStates(cmsProfile: string): Promise<WeatherRuleState[]> {
+  await ensureSchema();
+  const rows = await getAgentDatabase().execute({ sql: 'SELECT * FROM xibo_weather_rule_state WHERE cms_profile = ? ORDER BY rule_id', args: [cmsProfile] });
+  return rows.rows.map((row) => toState(row as unknown as Record<string, unknown>));
+}
+
+/**
+ * History of the rules of one CMS profile, newest first.
+ */
+export async function listWeatherRuleEvents(cmsProfile: string, options: { ruleId?: string; limit?: number } = {}): Promise<WeatherRuleEvent[]> {
+  await ensureSchema();
+  const where = ['cms_profile = ?'];
+  const args: InValue[] = [cmsProfile];
+  if (options.ruleId) {
+    where.push('rule_id = ?');
+    args.push(options.ruleId);
+  }
+  const rows = await getAgentDatabase().execute({
+    sql: `SELECT * FROM xibo_weather_rule_events WHERE ${where.join(' AND ')} ORDER BY id DESC LIMIT ?`,
+    args: [...args, options.limit ?? 20],
+  });
+  return rows.rows.map((row) => ({
+    timestamp: String(row.timestamp),
+    cmsProfile,
+    ruleId: String(row.rule_id),
+    transition: row.transition as WeatherRuleTransition,
+    detail: String(row.detail),
+    observed: JSON.parse(String(row.observed)),
+  }));
+}
+
+async function saveState(state: WeatherRuleState): Promise<void> {
+  await getAgentDatabase().execute({
+    sql: `INSERT INTO xibo_weather_rule_state (cms_profile, rule_id, active, since, event_ids, events_until, clear_trigger, last_evaluated, observed, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (cms_profile, rule_id) DO UPDATE SET active = excluded.active, since = excluded.since, event_ids = excluded.event_ids,
+        events_until = excluded.events_until, clear_trigger = excluded.clear_trigger, last_evaluated = excluded.last_evaluated,
+        observed = excluded.observed, error = excluded.error`,
+    args: [
+      state.cmsProfile, state.ruleId, state.active ? 1 : 0, state.since, JSON.stringify(state.eventIds),
+      state.eventsUntil, state.clearTrigger ? JSON.stringify(state.clearTrigger) : null, state.lastEvaluated,
+      JSON.stringify(state.observed), state.error,
+    ],
+  });
+}
+
+async function recordEvent(event: WeatherRuleEvent): Promise<void> {
+  await getAgentDatabase().execute({
+    sql: 'INSERT INTO xibo_weather_rule_events (timestamp, cms_profile, rule_id, transition, detail, observed) VALUES (?, ?, ?, ?, ?, ?)',
+    args: [event.timestamp, event.cmsProfile, event.ruleId, event.transition, event.detail, JSON.stringify(event.observed)],
+  });
+  logger[event.transition === 'failed' ? 'error' : 'info'](
+    { ruleId: event.ruleId, detail: event.detail },
+    `Weather rule ${event.transition}`
+  );
+}
+
+/**
+ * Resolves the coordinates of a rule, reading the display from the CMS when needed.
+ */
+async function resolveLocation(rule: WeatherRule, displays: Map<number, { latitude: number; longitude: number }>): Promise<{ latitude: number; longitude: number }> {
+  if ('latitude' in rule.location) return rule.location;
+  const { displayId } = rule.location;
+  const cached = displays.get(displayId);
+  if (cached) return cached;
+  const result = await xiboClient.get<any[]>('/display', { displayId });
+  if (!result.success) {
+    throw new Error(`Reading display ${displayId} failed: ${result.message}`);
+  }
+  const display = Array.isArray(result.data) ? result.data[0] : undefined;
+  const latitude = display?.latitude;
+  const longitude = display?.longitude;
+  if (latitude === null || latitude === undefined || latitude === '' || longitude === null || longitude === undefined || longitude === '') {
+    throw new Error(`Display ${displayId} has no latitude/longitude set in the CMS.`);
+  }
+  const location = { latitude: Number(latitude), longitude: Number(longitude) };
+  displays.set(displayId, location);
+  return location;
+}
+
+/**
+ * Undoes the action of an active rule from its stored state, so rules changed or removed
+ * since they were activated are cleared as they were applied.
+ */
+async function clearAction(state: WeatherRuleState): Promise<void> {
+  await deleteEvents(state.eventIds);
+  if (state.clearTrigger) {
+    await triggerWebhook(state.clearTrigger.displayGroupIds, state.clearTrigger.triggerCode);
+  }
+}
+
+/**
+ * Applies the transition a rule needs and returns its new state. Nothing is changed
+ * in the CMS or stored when `dryRun` is set.
+ */
+async function evaluateRule(
+  rule: WeatherRule,
+  previous: WeatherRuleState | undefined,
+  matched: boolean,
+  observed: ObservedValue[],
+  dryRun: boolean
+): Promise<{ state: WeatherRuleState; transition: WeatherRuleTransition | null; detail: string }> {
+  const timestamp = new Date().toISOString();
+  const cmsProfile = getActiveCmsProfileName();
+  const state: WeatherRuleState = previous
+    ? { ...previous, lastEvaluated: timestamp, observed, error: null }
+    : { cmsProfile, ruleId: rule.id, active: false, since: null, eventIds: [], eventsUntil: null, clearTrigger: null, lastEvaluated: timestamp, observed, error: null };
+  const values = describeObserved(observed);
+  const { action } = rule;
+
+  if (matched && !state.active) {
+    if (!dryRun) {
+      if (action.type === 'schedule') {
+        const { eventId, until } = await scheduleCampaign(rule, action);
+        state.eventIds = [eventId];
+        state.eventsUntil = until;
+      } else {
+        await triggerWebhook(action.displayGroupIds, action.triggerCode);
+        state.clearTrigger = action.clearTriggerCode ? { displayGroupIds: action.displayGroupIds, triggerCode: action.clearTriggerCode } : null;
+      }
+    }
+    state.active = true;
+    state.since = timestamp;
+    const what = action.type === 'schedule'
+      ? `scheduled campaign ${action.campaignId} on display groups ${action.displayGroupIds.join(', ')}`
+      : `sent trigger "${action.triggerCode}" to display groups ${action.displayGroupIds.join(', ')}`;
+    return { state, transition: 'activated', detail: `Conditions met (${values}); ${what}.` };
+  }
+
+  if (matched && state.active) {
+    // Replace the event before it ends so the campaign keeps playing without a gap.
+    const renewBefore = formatDateTime(Math.floor(Date.now() / 1000) + (getSettings().intervalSeconds ?? DEFAULT_INTERVAL_SECONDS) * 2);
+    if (action.type === 'schedule' && (!state.eventsUntil || state.eventsUntil <= renewBefore)) {
+      let kept: number[] = [];
+      if (!dryRun) {
+        const { eventId, until } = await scheduleCampaign(rule, action);
+        // Events that cannot be deleted now stay in the state with the new one, so they are
+        // deleted on the next renewal or when the rule clears instead of being lost.
+        kept = await deleteEventsKeepingFailures(state.eventIds);
+        state.eventIds = [...kept, eventId];
+        state.eventsUntil = until;
+      }
+      const leftover = kept.length ? ` Deleting previous events ${kept.join(', ')} failed; they are retried later.` : '';
+      return { state, transition: 'renewed', detail: `Conditions still met (${values}); event renewed${dryRun ? '' : ` until ${state.eventsUntil}`}.${leftover}` };
+    }
+    return { state, transition: null, detail: `Conditions still met (${values}).` };
+  }
+
+  if (!matched && state.active) {
+    const activeMinutes = state.since ? (Date.now() - Date.parse(state.since)) / 60000 : Infinity;
+    if (activeMinutes < rule.minActiveMinutes) {
+      return { state, transition: null, detail: `Conditions no longer met (${values}); kept active for at least ${rule.minActiveMinutes} minutes.` };
+    }
+    if (!dryRun) {
+      await clearAction(state);
+    }
+    state.active = false;
+    state.since = timestamp;
+    state.eventIds = [];
+    state.eventsUntil = null;
+    state.clearTrigger = null;
+    return { state, transition: 'cleared', detail: `Conditions no longer met (${values}).` };
+  }
+
+  return { state, transition: null, detail: `Conditions not met (${values}).` };
+}
+
+const running = new Set<string>();
+
+/**
+ * Evaluates the rules of the active CMS profile and applies their actions.
+ *
+ * @param options.ruleIds Only evaluate these rules.
+ * @param options.dryRun Report what would change without touching the CMS or the stored state.
+ * @throws {Error} If an evaluation of the profile is already running.
+ */
+export async function evaluateWeatherRules(options: { ruleIds?: string[]; dryRun?: boolean } = {}): Promise<WeatherRuleResult[]> {
+  const cmsProfile = getActiveCmsProfileName();
+  if (running.has(cmsProfile)) {
+    throw new Error(`Weather rules of CMS profile "${cmsProfile}" are already being evaluated.`);
+  }
+  running.add(cmsProfile);
+  try {
+    await ensureSchema();
+    const states = new Map((await getWeatherRuleStates(cmsProfile)).map((s) => [s.ruleId, s]));
+    const rules = listWeatherRules(cmsProfile).filter((r) => r.enabled && (!options.ruleIds || options.ruleIds.includes(r.id)));
+    const displays = new Map<number, { latitude: number; longitude: number }>();
+    const forecasts = new Map<string, Promise<HourlyForecast>>();
+    const results: WeatherRuleResult[] = [];
+
+    for (const rule of rules) {
+      const name = rule.name ?? rule.id;
+      const previous = states.get(rule.id);
+      let observed: ObservedValue[] = previous?.observed ?? [];
+      let matched = false;
+      try {
+        const { latitude, longitude } = await resolveLocation(rule, displays);
+        const key = `${latitude.toFixed(2)},${longitude.toFixed(2)}:${rule.forecastHours}`;
+        if (!forecasts.has(key)) forecasts.set(key, fetchHourlyForecast(latitude, longitude, rule.forecastHours));
+        ({ matched, observed } = matchConditions(rule.conditions, await forecasts.get(key)!));
+
+        const outcome = await runWithAuditContext({ toolId: ENGINE_SOURCE, input: { ruleId: rule.id, observed }, agent: ENGINE_SOURCE }, () =>
+          evaluateRule(rule, previous, matched, observed, Boolean(options.dryRun))
+        );
+        if (!options.dryRun) {
+          await saveState(outcome.state);
+          if (outcome.transition) {
+            await recordEvent({ timestamp: outcome.state.lastEvaluated!, cmsProfile, ruleId: rule.id, transition: outcome.transition, detail: outcome.detail, observed });
+          }
+        }
+        results.push({ ruleId: rule.id, name, matched, active: outcome.state.active, transition: outcome.transition, detail: outcome.detail, observed });
+      } catch (error) {
+        const detail = error instanceof Error ? error.message : String(error);
+        if (!options.dryRun) {
+          const timestamp = new Date().toISOString();
+          await saveState({
+            ...(previous ?? { cmsProfile, ruleId: rule.id, active: false, since: null, eventIds: [], eventsUntil: null, clearTrigger: null, observed }),
+            lastEvaluated: timestamp,
+            error: detail,
+          });
+          await recordEvent({ timestamp, cmsProfile, ruleId: rule.id, transition: 'failed', detail, observed });
+        }
+        results.push({ ruleId: rule.id, name, matched, active: previous?.active ?? false, transition: 'failed', detail, observed });
+      }
+    }
+
+    // Rules disabled or removed while active would otherwise leave their events in the CMS for good.
+    const configured = new Map(listWeatherRules(cmsProfile).map((r) => [r.id, r]));
+    for (const state of states.values()) {
+      const rule = configured.get(state.ruleId);
+      if (!state.active || rule?.enabled || (options.ruleIds && !options.ruleIds.includes(state.ruleId))) continue;
+      const reason = rule ? 'Rule disabled' : 'Rule removed from the configuration';
+      const detail = `${reason}; its action ${options.dryRun ? 'would be' : 'was'} undone.`;
+      const timestamp = new Date().toISOString();
+      try {
+        if (!options.dryRun) {
+          await runWithAuditContext({ toolId: ENGINE_SOURCE, input: { ruleId: state.ruleId, reason }, agent: ENGINE_SOURCE }, () => clearAction(state));
+          await saveState({ ...state, active: false, since: timestamp, eventIds: [], eventsUntil: null, clearTrigger: null, lastEvaluated: timestamp, error: null });
+          await recordEvent({ timestamp, cmsProfile, ruleId: state.ruleId, transition: 'cleared', detail, observed: state.observed });
+        }
+        results.push({ ruleId: state.ruleId, name: rule?.name ?? state.ruleId, matched: false, active: false, transition: 'cleared', detail, observed: state.observed });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await saveState({ ...state, lastEvaluated: timestamp, error: message });
+        await recordEvent({ timestamp, cmsProfile, ruleId: state.ruleId, transition: 'failed', detail: message, observed: state.observed });
+        results.push({ ruleId: state.ruleId, name: rule?.name ?? state.ruleId, matched: false, active: true, transition: 'failed', detail: message, observed: state.observed });
+      }
+    }
+    return results;
+  } finally {
+    running.delete(cmsProfile);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Background evaluation
+// -----------------------------------------------------------------------------
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Tells whether the rules should be evaluated in the background.
+ */
+export function isWeatherRuleEngineEnabled(): boolean {
+  return getSettings().enabled ?? process.env.XIBO_WEATHER_RULES === 'on';
+}
+
+/**
+ * Evaluates the rules of every CMS profile that has rules. Failures are logged per profile.
+ */
+async function evaluateAllProfiles(): Promise<void> {
+  const defaultProfile = getCmsProfile().name;
+  const names = new Set((getSettings().rules ?? []).map((rule) => rule.cmsProfile ?? defaultProfile));
+  // Profiles whose active rules were all removed still need their events deleted.
+  await ensureSchema();
+  const active = await getAgentDatabase().execute('SELECT DISTINCT cms_profile FROM xibo_weather_rule_state WHERE active = 1');
+  active.rows.forEach((row) => names.add(String(row.cms_profile)));
+  for (const name of names) {
+    try {
+      const profile = getCmsProfile(name);
+      await runWithCmsProfile(profile, () => evaluateWeatherRules());
+    } catch (error) {
+      logger.error({ profile: name, error: error instanceof Error ? error.message : error }, 'Weather rule evaluation failed');
+    }
+  }
+}
+
+/**
+ * Starts evaluating the rules in the background when the engine is enabled. Calling it
+ * again restarts the timer with the current settings.
+ *
+ * @returns True when the engine was started.
+ */
+export function startWeatherRuleEngine(): boolean {
+  stopWeatherRuleEngine();
+  if (!isWeatherRuleEngineEnabled()) {
+    return false;
+  }
+  const intervalSeconds = getSettings().intervalSeconds ?? DEFAULT_INTERVAL_SECONDS;
+  timer = setInterval(() => void evaluateAllProfiles(), intervalSeconds * 1000);
+  timer.unref();
+  void evaluateAllProfiles();
+  logger.info({ intervalSeconds, rules: getSettings().rules?.length ?? 0 }, 'Weather rule engine started');
+  return true;
+}
+
+/**
+ * Stops the background evaluation.
+ */
+export function stopWeatherRuleEngine(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
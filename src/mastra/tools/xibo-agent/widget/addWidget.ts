@@ -19,6 +19,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 export const addWidget = createTool({
@@ -52,7 +53,7 @@ export const addWidget = createTool({
       if (context.displayOrder !== undefined) formData.append('displayOrder', context.displayOrder.toString());
       if (context.templateId) formData.append('templateId', context.templateId);
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers,
         body: formData
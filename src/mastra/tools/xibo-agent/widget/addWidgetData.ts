@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 export const addWidgetData = createTool({
@@ -61,7 +62,7 @@ export const addWidgetData = createTool({
       
       if (context.displayOrder !== undefined) formData.append('displayOrder', context.displayOrder.toString());
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'POST',
         headers,
         body: formData
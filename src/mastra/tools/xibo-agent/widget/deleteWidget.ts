@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 export const deleteWidget = createTool({
@@ -42,7 +43,7 @@ export const deleteWidget = createTool({
       const url = `${config.cmsUrl}/api/playlist/widget/${context.widgetId}`;
       logger.debug(`deleteWidget: Request URL = ${url}`);
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'DELETE',
         headers
       });
@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 export const deleteWidgetAudio = createTool({
@@ -42,7 +43,7 @@ export const deleteWidgetAudio = createTool({
       const url = `${config.cmsUrl}/api/playlist/widget/audio/${context.widgetId}`;
       logger.debug(`deleteWidgetAudio: Request URL = ${url}`);
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'DELETE',
         headers
       });
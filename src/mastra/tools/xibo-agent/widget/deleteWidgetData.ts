@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 export const deleteWidgetData = createTool({
@@ -43,7 +44,7 @@ export const deleteWidgetData = createTool({
       const url = `${config.cmsUrl}/api/playlist/widget/data/${context.widgetId}/${context.dataId}`;
       logger.debug(`deleteWidgetData: Request URL = ${url}`);
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'DELETE',
         headers
       });
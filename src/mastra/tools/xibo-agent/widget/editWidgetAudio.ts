@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 const audioSchema = z.object({
@@ -58,7 +59,7 @@ export const editWidgetAudio = createTool({
       if (context.volume !== undefined) formData.append('volume', context.volume.toString());
       if (context.loop !== undefined) formData.append('loop', context.loop.toString());
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'PUT',
         headers,
         body: formData
@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 export const editWidgetTransition = createTool({
@@ -51,7 +52,7 @@ export const editWidgetTransition = createTool({
       if (context.transitionDuration !== undefined) formData.append('transitionDuration', context.transitionDuration.toString());
       if (context.transitionDirection) formData.append('transitionDirection', context.transitionDirection);
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'PUT',
         headers,
         body: formData
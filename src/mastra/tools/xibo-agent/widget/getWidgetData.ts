@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 const widgetDataSchema = z.object({
@@ -58,7 +59,7 @@ export const getWidgetData = createTool({
       const url = `${config.cmsUrl}/api/playlist/widget/data/${context.widgetId}`;
       logger.debug(`getWidgetData: Request URL = ${url}`);
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'GET',
         headers
       });
@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 const dataTypeSchema = z.record(z.object({
@@ -53,7 +54,7 @@ export const getWidgetDataTypes = createTool({
       const url = `${config.cmsUrl}/api/playlist/widget/data/types`;
       logger.debug(`getWidgetDataTypes: Request URL = ${url}`);
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'GET',
         headers
       });
@@ -18,6 +18,7 @@ import { z } from "zod";
 import { createTool } from '@mastra/core/tools';
 import { config } from "../config";
 import { getAuthHeaders } from "../auth";
+import { xiboClient } from "../xiboClient";
 import { logger } from "../../../logger";
 
 export const setWidgetRegion = createTool({
@@ -46,7 +47,7 @@ export const setWidgetRegion = createTool({
       const formData = new FormData();
       formData.append('targetRegionId', context.targetRegionId.toString());
 
-      const response = await fetch(url, {
+      const response = await xiboClient.fetch(url, {
         method: 'PUT',
         headers,
         body: formData
@@ -0,0 +1,443 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Xibo CMS API Client
+ *
+ * This module provides the shared HTTP client used by every Xibo tool.
+ * It caches the OAuth2 access token until it expires, refreshes it transparently
+ * when the CMS answers 401, and retries idempotent requests with exponential
+ * backoff when the CMS is rate limiting (429) or temporarily failing (5xx).
+ *
+ * Tools can either use `xiboClient.fetch()` as a drop-in replacement for `fetch()`
+ * or `xiboClient.request()` to get a typed, already-parsed result.
+ *
+ * Each CMS profile gets its own `XiboClient` instance, so tokens and credentials are
+ * never shared between CMS instances. The exported `xiboClient` routes every call to
+ * the client of the profile that is active for the current call chain.
+ *
+ * Every non-GET request is written to the audit log (see `auditLog.ts`).
+ */
+
+import { z } from 'zod';
+import { logger } from '../../logger';
+import { decodeErrorMessage, processError } from './utility/error';
+import { CmsProfile, getActiveCmsProfile } from './cmsProfiles';
+import { recordCmsMutation } from './auditLog';
+
+/**
+ * Tuning options for the client. All values have sensible defaults.
+ */
+export interface XiboClientOptions {
+  /** Maximum number of retries for idempotent requests on 429/5xx or network errors. */
+  maxRetries?: number;
+  /** Base delay in milliseconds for exponential backoff. */
+  baseDelayMs?: number;
+  /** Upper bound in milliseconds for a single backoff delay. */
+  maxDelayMs?: number;
+  /** Seconds subtracted from `expires_in` so a token is renewed before the CMS rejects it. */
+  tokenExpirySkewSec?: number;
+}
+
+/**
+ * Options accepted by `XiboClient.request()`.
+ */
+export interface XiboRequestOptions<T> {
+  /** HTTP method. Defaults to GET. */
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  /** Query string parameters. Undefined, null and empty values are skipped. */
+  query?: Record<string, unknown>;
+  /** Form parameters, sent as application/x-www-form-urlencoded (the format Xibo expects). */
+  form?: Record<string, unknown> | URLSearchParams;
+  /** JSON body, sent as application/json. Ignored when `form` is given. */
+  json?: unknown;
+  /** Optional Zod schema used to validate the parsed response body. */
+  schema?: z.ZodType<T, z.ZodTypeDef, unknown>;
+}
+
+/**
+ * Typed result of `XiboClient.request()`, shaped like the tools' own responses.
+ */
+export type XiboResult<T> =
+  | { success: true; status: number; data: T; headers: Headers }
+  | { success: false; status?: number; message: string; error?: unknown; errorData?: unknown };
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Reads a request or response body into a plain object for the audit log.
+ * Files of multipart bodies are recorded by name and size; binary bodies are not recorded.
+ */
+function parseBody(body: unknown): unknown {
+  if (body instanceof URLSearchParams) {
+    return Object.fromEntries(body.entries());
+  }
+  if (body instanceof FormData) {
+    // Uploads: record the form fields and only the name and size of the files
+    return Object.fromEntries([...body.entries()].map(([key, value]) =>
+      [key, typeof value === 'string' ? value : `(file ${value.name}, ${value.size} bytes)`]));
+  }
+  if (typeof body !== 'string' || !body) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body.includes('=') ? Object.fromEntries(new URLSearchParams(body).entries()) : undefined;
+  }
+}
+
+/**
+ * Appends a value to URLSearchParams, skipping empty values and expanding arrays
+ * into `key[]` entries as the Xibo API expects.
+ */
+function appendParam(params: URLSearchParams, key: string, value: unknown): void {
+  if (value === undefined || value === null || value === '') {
+    return;
+  }
+  if (Array.isArray(value)) {
+    const arrayKey = key.endsWith('[]') ? key : `${key}[]`;
+    value.forEach((item) => appendParam(params, arrayKey, item));
+    return;
+  }
+  if (typeof value === 'object') {
+    params.append(key, JSON.stringify(value));
+    return;
+  }
+  params.append(key, String(value));
+}
+
+/**
+ * Converts a plain object to URLSearchParams using `appendParam`.
+ */
+export function toSearchParams(values: Record<string, unknown>): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(values).forEach(([key, value]) => appendParam(params, key, value));
+  return params;
+}
+
+/**
+ * Client for one CMS instance with token caching, 401 refresh and retry/backoff.
+ */
+export class XiboClient {
+  private accessToken: string | null = null;
+  private tokenExpiresAt = 0;
+  private pendingToken: Promise<string> | null = null;
+  private readonly options: Required<XiboClientOptions>;
+
+  constructor(readonly profile: CmsProfile, options: XiboClientOptions = {}) {
+    this.options = {
+      maxRetries: options.maxRetries ?? 3,
+      baseDelayMs: options.baseDelayMs ?? 500,
+      maxDelayMs: options.maxDelayMs ?? 10000,
+      tokenExpirySkewSec: options.tokenExpirySkewSec ?? 30,
+    };
+  }
+
+  /**
+   * Returns a valid access token, requesting a new one only when the cached
+   * token is missing or about to expire. Concurrent callers share one request.
+   *
+   * @param forceRefresh Ignore the cached token and request a new one.
+   */
+  async getAccessToken(forceRefresh = false): Promise<string> {
+    if (!forceRefresh && this.accessToken && Date.now() < this.tokenExpiresAt) {
+      return this.accessToken;
+    }
+    if (!this.pendingToken) {
+      this.pendingToken = this.requestAccessToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+    return this.pendingToken;
+  }
+
+  /**
+   * Drops the cached token so the next request obtains a fresh one.
+   */
+  invalidateToken(): void {
+    this.accessToken = null;
+    this.tokenExpiresAt = 0;
+  }
+
+  /**
+   * Returns JSON request headers carrying the cached bearer token.
+   */
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    const accessToken = await this.getAccessToken();
+    return {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+    };
+  }
+
+  /**
+   * Drop-in replacement for `fetch()` against the CMS.
+   *
+   * The Authorization header is always set from the token cache. A 401 response
+   * triggers one token refresh and replay. GET/HEAD/OPTIONS requests are retried
+   * with exponential backoff on 429, 5xx and network errors, honouring Retry-After.
+   * Other methods are recorded in the audit log.
+   */
+  async fetch(input: string | URL, init: RequestInit = {}): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    const retryable = IDEMPOTENT_METHODS.has(method);
+    if (retryable) {
+      return this.send(input, init, method, true);
+    }
+
+    try {
+      const response = await this.send(input, init, method, false);
+      const copy = response.clone();
+      void copy.text()
+        .then((text) =>
+          recordCmsMutation({ method, url: input.toString(), status: response.status, requestBody: parseBody(init.body), responseBody: parseBody(text) })
+        )
+        .catch((error) =>
+          logger.warn({ method, url: input.toString(), error: processError(error) }, 'XiboClient: could not record the request in the audit log')
+        );
+      return response;
+    } catch (error) {
+      void recordCmsMutation({ method, url: input.toString(), status: null, requestBody: parseBody(init.body), error: processError(error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Sends a request with token refresh and, when `retryable`, backoff retries.
+   */
+  private async send(input: string | URL, init: RequestInit, method: string, retryable: boolean): Promise<Response> {
+    let refreshedToken = false;
+    let attempt = 0;
+
+    while (true) {
+      const headers = new Headers(init.headers);
+      headers.set('Authorization', `Bearer ${await this.getAccessToken()}`);
+
+      let response: Response;
+      try {
+        response = await fetch(input, { ...init, method, headers });
+      } catch (error) {
+        if (retryable && attempt < this.options.maxRetries) {
+          const delay = this.backoffDelay(attempt);
+          logger.warn(
+            { url: input.toString(), attempt: attempt + 1, delay, error: processError(error) },
+            'XiboClient: network error, retrying request'
+          );
+          attempt++;
+          await sleep(delay);
+          continue;
+        }
+        throw error;
+      }
+
+      if (response.status === 401 && !refreshedToken) {
+        logger.info({ url: input.toString() }, 'XiboClient: received 401, refreshing access token');
+        await response.text().catch(() => undefined);
+        this.invalidateToken();
+        refreshedToken = true;
+        attempt = 0;
+        continue;
+      }
+
+      if (retryable && (response.status === 429 || response.status >= 500) && attempt < this.options.maxRetries) {
+        const delay = this.retryAfterDelay(response) ?? this.backoffDelay(attempt);
+        logger.warn(
+          { url: input.toString(), status: response.status, attempt: attempt + 1, delay },
+          'XiboClient: retryable status received, backing off'
+        );
+        await response.text().catch(() => undefined);
+        attempt++;
+        await sleep(delay);
+        continue;
+      }
+
+      return response;
+    }
+  }
+
+  /**
+   * Performs a request against `${cmsUrl}/api${path}` and returns a parsed, typed result.
+   * This method never throws; failures are returned as `{ success: false }`.
+   *
+   * @param path API path starting with a slash, e.g. `/display`.
+   * @param options Method, query, body and optional response schema.
+   */
+  async request<T = unknown>(path: string, options: XiboRequestOptions<T> = {}): Promise<XiboResult<T>> {
+    if (!this.profile.cmsUrl) {
+      return { success: false, message: 'CMS URL is not configured.' };
+    }
+
+    const method = options.method || 'GET';
+    const url = new URL(`${this.profile.cmsUrl}/api${path}`);
+    if (options.query) {
+      Object.entries(options.query).forEach(([key, value]) => appendParam(url.searchParams, key, value));
+    }
+
+    const headers: Record<string, string> = {};
+    let body: BodyInit | undefined;
+    if (options.form) {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+      body = options.form instanceof URLSearchParams ? options.form : toSearchParams(options.form);
+    } else if (options.json !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(options.json);
+    }
+
+    try {
+      logger.debug({ method, url: url.toString() }, 'XiboClient: sending request');
+      const response = await this.fetch(url, { method, headers, body });
+      const text = await response.text();
+
+      if (!response.ok) {
+        const decoded = decodeErrorMessage(text);
+        let errorData: unknown = decoded;
+        try {
+          errorData = JSON.parse(decoded);
+        } catch (e) {
+          // Not a JSON response
+        }
+        const message = `HTTP error! status: ${response.status}`;
+        logger.error({ method, url: url.toString(), status: response.status, errorData }, `XiboClient: ${message}`);
+        return { success: false, status: response.status, message, errorData };
+      }
+
+      let data: unknown = null;
+      if (text) {
+        try {
+          data = JSON.parse(text);
+        } catch (e) {
+          data = text;
+        }
+      }
+
+      if (options.schema) {
+        const validated = options.schema.safeParse(data);
+        if (!validated.success) {
+          const message = 'Validation error occurred';
+          logger.error({ url: url.toString(), error: validated.error.flatten() }, `XiboClient: ${message}`);
+          return { success: false, status: response.status, message, error: validated.error.flatten(), errorData: data };
+        }
+        return { success: true, status: response.status, data: validated.data, headers: response.headers };
+      }
+
+      return { success: true, status: response.status, data: data as T, headers: response.headers };
+    } catch (error) {
+      const processedError = processError(error);
+      logger.error({ method, url: url.toString(), error: processedError }, 'XiboClient: unexpected error');
+      return { success: false, message: processedError.message, error: processedError };
+    }
+  }
+
+  /**
+   * Shorthand for a GET request.
+   */
+  get<T = unknown>(path: string, query?: Record<string, unknown>, schema?: z.ZodType<T, z.ZodTypeDef, unknown>) {
+    return this.request<T>(path, { method: 'GET', query, schema });
+  }
+
+  /**
+   * Performs the OAuth2 client-credentials request and stores the result.
+   */
+  private async requestAccessToken(): Promise<string> {
+    const tokenUrl = `${this.profile.cmsUrl}/api/authorize/access_token`;
+    logger.debug(`Requesting access token from: ${tokenUrl}`);
+
+    const response = await fetch(tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: this.profile.clientId,
+        client_secret: this.profile.clientSecret,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error(
+        { url: tokenUrl, statusCode: response.status, response: errorText },
+        `Access token request failed: ${response.status} ${response.statusText}`
+      );
+      throw new Error(`Failed to obtain access token: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    const expiresIn = Number(data.expires_in) || 3600;
+    this.accessToken = data.access_token;
+    this.tokenExpiresAt = Date.now() + Math.max(expiresIn - this.options.tokenExpirySkewSec, 0) * 1000;
+    logger.info({ expiresIn }, 'Access token obtained successfully');
+
+    return data.access_token;
+  }
+
+  /**
+   * Exponential backoff with full jitter.
+   */
+  private backoffDelay(attempt: number): number {
+    const exponential = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  /**
+   * Reads the Retry-After header (seconds or HTTP date) into milliseconds.
+   */
+  private retryAfterDelay(response: Response): number | undefined {
+    const header = response.headers.get('Retry-After');
+    if (!header) {
+      return undefined;
+    }
+    const seconds = Number(header);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : new Date(header).getTime() - Date.now();
+    if (!Number.isFinite(delay) || delay < 0) {
+      return undefined;
+    }
+    return Math.min(delay, this.options.maxDelayMs);
+  }
+}
+
+const clients = new Map<string, XiboClient>();
+
+/**
+ * Returns the client for `profile` (default: the active profile), creating it on first use.
+ * A client is replaced when the profile's URL or credentials change.
+ */
+export function getXiboClient(profile: CmsProfile = getActiveCmsProfile()): XiboClient {
+  const existing = clients.get(profile.name);
+  if (
+    existing &&
+    existing.profile.cmsUrl === profile.cmsUrl &&
+    existing.profile.clientId === profile.clientId &&
+    existing.profile.clientSecret === profile.clientSecret
+  ) {
+    return existing;
+  }
+  const client = new XiboClient(profile);
+  clients.set(profile.name, client);
+  return client;
+}
+
+/**
+ * Shared entry point used by all Xibo tools. Every call is routed to the client of
+ * the CMS profile active for the current call chain.
+ */
+export const xiboClient = {
+  getAccessToken: (forceRefresh?: boolean) => getXiboClient().getAccessToken(forceRefresh),
+  invalidateToken: () => getXiboClient().invalidateToken(),
+  getAuthHeaders: () => getXiboClient().getAuthHeaders(),
+  fetch: (input: string | URL, init?: RequestInit) => getXiboClient().fetch(input, init),
+  request: <T = unknown>(path: string, options?: XiboRequestOptions<T>) => getXiboClient().request<T>(path, options),
+  get: <T = unknown>(path: string, query?: Record<string, unknown>, schema?: z.ZodType<T, z.ZodTypeDef, unknown>) =>
+    getXiboClient().get<T>(path, query, schema),
+};
@@ -0,0 +1,26 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Xibo Tool Type
+ *
+ * The shape shared by every Xibo tool, whatever its input and output schemas. The
+ * wrappers in `cmsProfiles.ts`, `safeMode.ts`, `auditLog.ts` and `changeHistory.ts` take
+ * and return this type.
+ */
+
+import { z } from 'zod';
+import type { Tool, ToolExecutionContext } from '@mastra/core/tools';
+
+export type XiboToolContext = ToolExecutionContext<z.ZodTypeAny>;
+
+export type XiboTool = Tool<z.ZodTypeAny, z.ZodTypeAny, any, any, XiboToolContext>;
@@ -14,8 +14,8 @@
  * Configuration for the Xibo Manual Tool
  *
  * This module defines configuration settings for the xiboManualTool,
- * including base URLs for the manual and images, and paths to local
- * manual content files.
+ * including base URLs for the manual and images, paths to local
+ * manual content files, and the retrieval index settings.
  */
 import path from 'path';
 
@@ -40,6 +40,14 @@ export const config = {
     // The manual content is treated as persistent data, separate from source code.
     contents: path.join(projectRoot, 'persistent_data/manual-contents'),
   },
+  retrieval: {
+    // LibSQL database holding the embedded manual sections.
+    indexDbUrl: process.env.XIBO_MANUAL_INDEX_DB_URL || `file:${path.join(projectRoot, 'persistent_data/manual-index.db')}`,
+    // Vector index name inside the database.
+    indexName: 'xibo_manual_sections',
+    // Number of sections passed to the model for each question.
+    topK: 6,
+  },
 } as const;
 
 // Exports the configuration type for use in other modules.
@@ -12,6 +12,8 @@
 
 /**
  * Entry point for the Xibo Manual tool.
- * This file exports the tool defined in manual.ts.
+ * This file exports the tool defined in manual.ts and the retrieval index
+ * it answers from.
  */
 export { xiboManualTool } from './manual';
+export { searchManual, syncManualIndex, startManualIndexer, stopManualIndexer } from './manualIndex';
@@ -14,96 +14,35 @@ import { z } from 'zod';
 import { generateText } from 'ai';
 import { google } from '../../models';
 import { config } from './config';
-import fs from 'fs';
-import path from 'path';
+import { searchManual, type ManualSearchResult } from './manualIndex';
 import { logger } from '../../logger';
 
-// config.tsで定義された、常に正しいソースディレクトリを指すパスを使用します。
-const CONTENTS_DIR = config.paths.contents;
 const MANUAL_BASE_URL = config.baseUrl;
 
-let manualContents: Record<string, string> = {};
-
-function loadManualContents() {
-  try {
-    const files = fs.readdirSync(CONTENTS_DIR);
-    for (const file of files) {
-      if (file.endsWith('.md')) {
-        const key = file.replace('.md', '');
-        const content = fs.readFileSync(path.join(CONTENTS_DIR, file), 'utf-8');
-        manualContents[key] = content;
-      }
-    }
-  } catch (error) {
-    //logger.error(`Failed to load manual contents from '${CONTENTS_DIR}'`, { error });
-    throw new Error(`Failed to load manual contents from '${CONTENTS_DIR}'`);
-  }
+// A section of the manual cited by an answer.
+interface ManualSection {
+  title: string;
+  url: string;
+  description: string;
 }
 
-// アプリケーション起動時に一度だけマニュアルを読み込む
-try {
-  loadManualContents();
-} catch (error) {
-  // 起動時の読み込みエラーは致命的であるため、コンソールにも表示
-  console.error(error);
-  // process.exit(1); // or handle it gracefully
-}
-
-// Function to parse front matter
-const parseFrontMatter = (content: string) => {
-  const frontMatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-  if (!frontMatterMatch) return null;
-
-  const frontMatter = frontMatterMatch[1];
-  const excerptMatch = frontMatter.match(/excerpt:\s*(.*)/);
-  const keywordsMatch = frontMatter.match(/keywords:\s*(.*)/);
-
-  return {
-    excerpt: excerptMatch ? excerptMatch[1].trim() : '',
-    keywords: keywordsMatch ? keywordsMatch[1].split(',').map(k => k.trim()) : []
-  };
-};
-
-// Generate manual section information
-const generateManualSections = () => {
-  const sections: Record<string, { title: string; url: string; description: string; keywords: string[] }> = {};
-
-  for (const [key, content] of Object.entries(manualContents)) {
-    const frontMatter = parseFrontMatter(content);
-    if (!frontMatter) continue;
-
-    const titleMatch = content.match(/#\s+(.*)/);
-    const title = titleMatch ? titleMatch[1].trim() : key;
-
-    sections[key] = {
-      title,
-      url: `${MANUAL_BASE_URL}${key}.html`,
-      description: frontMatter.excerpt,
-      keywords: frontMatter.keywords
-    };
-  }
-
-  return sections;
+// Returned when no section could be retrieved.
+const FALLBACK_SECTION: ManualSection = {
+  title: 'Introduction',
+  url: `${MANUAL_BASE_URL}introduction.html`,
+  description: '',
 };
 
-const manualSections = generateManualSections();
-
-// Load the manual content
-const loadManualContent = () => {
-  let content = '';
-  for (const [section, text] of Object.entries(manualContents)) {
-    content += `\n\n${text}`;
-  }
-
-  return content;
-};
-
-const MANUAL_CONTENT = loadManualContent();
+const toSection = (result: ManualSearchResult): ManualSection => ({
+  title: result.headingPath.join(' > '),
+  url: result.url,
+  description: result.excerpt,
+});
 
 // Interface for cache entries
 interface CacheEntry {
   answer: string;
-  relevantSection: any;
+  sections: ManualSection[];
   timestamp: number;
 }
 
@@ -124,16 +63,22 @@ const getCachedAnswer = (query: string): CacheEntry | null => {
 };
 
 // Function to save an answer to the cache
-const cacheAnswer = (query: string, answer: string, relevantSection: any) => {
+const cacheAnswer = (query: string, answer: string, sections: ManualSection[]) => {
   answerCache.set(query, {
     answer,
-    relevantSection,
+    sections,
     timestamp: Date.now()
   });
   logger.info({ query }, "Cached new answer for manual query.");
 };
 
-const findRelevantSection = async (query: string) => {
+// Formats retrieved sections as numbered sources for the prompt.
+const formatSources = (results: ManualSearchResult[]) =>
+  results
+    .map((r, i) => `[${i + 1}] ${r.headingPath.join(' > ')}\n${r.text}`)
+    .join('\n\n---\n\n');
+
+const findRelevantSections = async (query: string): Promise<{ answer: string; sections: ManualSection[] }> => {
   try {
 
     // Check cache
@@ -141,19 +86,30 @@ const findRelevantSection = async (query: string) => {
     if (cached) {
       return {
         answer: cached.answer,
-        relevantSection: cached.relevantSection
+        sections: cached.sections
+      };
+    }
+
+    const results = await searchManual(query, config.retrieval.topK);
+    if (results.length === 0) {
+      logger.warn({ query }, 'No manual sections matched the query');
+      return {
+        answer: '申し訳ありません。マニュアルに該当する記述が見つかりませんでした。',
+        sections: [FALLBACK_SECTION]
       };
     }
+    logger.debug({ query, sections: results.map(r => ({ url: r.url, score: r.score })) }, 'Retrieved manual sections.');
 
-    const prompt = `あなたはXibo-CMSの専門家です。以下のマニュアルの内容を基に、ユーザーの質問に回答してください。
+    const prompt = `あなたはXibo-CMSの専門家です。以下のマニュアルの抜粋だけを根拠に、ユーザーの質問に回答してください。
+抜粋には番号が振られています。根拠にした抜粋は文中に [1] のように番号で示してください。抜粋に答えがない場合は、その旨を正直に伝えてください。
 マニュアルには \`![代替テキスト](img/ファイル名.png)\` という形式で画像への参照が含まれています。回答を生成する際、関連する画像があれば、そのMarkdown形式のリンク文字列を、一切変更せずにそのまま回答に含めてください。
 
-マニュアルの内容:
-${MANUAL_CONTENT}
+マニュアルの抜粋:
+${formatSources(results)}
 
 ユーザーの質問: ${query}
 
-回答は日本語で、簡潔かつ具体的にお願いします。また、回答の最後に、参考にしたマニュアルのセクション名を記載してください。`;
+回答は日本語で、簡潔かつ具体的にお願いします。`;
 
     const { text } = await generateText({
       model: google('gemini-2.5-pro'),
@@ -165,36 +121,43 @@ ${MANUAL_CONTENT}
       logger.warn('No answer generated');
       return {
         answer: '申し訳ありません。回答を生成できませんでした。',
-        relevantSection: manualSections.introduction
+        sections: [toSection(results[0])]
       };
     }
     
     // Replace relative image paths with absolute URLs
     answer = answer.replace(/\(img\//g, `(https://xibosignage.com/img/manual/en/`);
 
-    // Identify the relevant section
-    const sectionMatch = Object.entries(manualSections).find(([_, section]) => 
-      answer.toLowerCase().includes(section.title.toLowerCase())
-    );
-
-    const relevantSection = sectionMatch ? manualSections[sectionMatch[0] as keyof typeof manualSections] : manualSections.introduction;
+    // Cite the sections the answer refers to; fall back to all retrieved sections.
+    const cited = new Set([...answer.matchAll(/\[(\d+)\]/g)].map(m => Number(m[1]) - 1));
+    const citedResults = results.filter((_, i) => cited.has(i));
+    const sections: ManualSection[] = [];
+    for (const result of citedResults.length ? citedResults : results) {
+      if (!sections.some(s => s.url === result.url)) sections.push(toSection(result));
+    }
 
     // Cache the answer
-    // cacheAnswer(query, answer, relevantSection);
+    // cacheAnswer(query, answer, sections);
 
     return {
       answer,
-      relevantSection
+      sections
     };
   } catch (error) {
     logger.error({ error }, 'An error occurred while generating an answer with AI');
     return {
       answer: 'I apologize, but I cannot currently generate an answer.',
-      relevantSection: manualSections.introduction
+      sections: [FALLBACK_SECTION]
     };
   }
 };
 
+const sectionSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  description: z.string()
+});
+
 export const xiboManualTool = createTool({
   id: 'xibo-manual',
   description: 'Refer to the Xibo user manual to provide an answer',
@@ -203,19 +166,18 @@ export const xiboManualTool = createTool({
   }),
   outputSchema: z.object({
     answer: z.string(),
-    relevantSection: z.object({
-      title: z.string(),
-      url: z.string(),
-      description: z.string()
-    })
+    relevantSection: sectionSchema.describe('The most relevant section.'),
+    sections: z.array(sectionSchema).describe('All manual sections the answer is based on, with anchored URLs.')
   }),
   execute: async ({ context }) => {
     logger.info({ query: context.query }, "Executing xiboManualTool.");
-    const { answer, relevantSection } = await findRelevantSection(context.query);
-    
+    const { answer, sections } = await findRelevantSections(context.query);
+    const references = sections.map(s => `- [${s.title}](${s.url})`).join('\n');
+
     return {
-      answer: `${answer}\n\n詳細は以下のページをご確認ください：\n${relevantSection.url}`,
-      relevantSection
+      answer: `${answer}\n\n詳細は以下のページをご確認ください：\n${references}`,
+      relevantSection: sections[0],
+      sections
     };
   },
 });
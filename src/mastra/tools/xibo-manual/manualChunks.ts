@@ -0,0 +1,149 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Manual Chunking
+ *
+ * Splits a manual page (markdown with front matter) into one chunk per heading
+ * section using the markdown header strategy of `@mastra/rag`. Each chunk
+ * carries the heading path and a URL with the section anchor, so answers can
+ * cite the exact section they were based on.
+ */
+import { MDocument } from '@mastra/rag';
+import { config } from './config';
+
+/**
+ * Front matter fields used by the manual pages.
+ */
+export interface ManualFrontMatter {
+  excerpt: string;
+  keywords: string[];
+}
+
+/**
+ * A heading section of a manual page, ready to be embedded.
+ */
+export interface ManualChunk {
+  /** Manual page key (file name without `.md`). */
+  page: string;
+  /** Page title (first `#` heading). */
+  pageTitle: string;
+  /** Heading of the section, or the page title for text before the first sub-heading. */
+  section: string;
+  /** Headings from the page title down to this section. */
+  headingPath: string[];
+  /** Page URL including the section anchor. */
+  url: string;
+  /** Page excerpt from the front matter. */
+  excerpt: string;
+  /** Section text (headings stripped). */
+  text: string;
+}
+
+const HEADERS: [string, string][] = [
+  ['#', 'h1'],
+  ['##', 'h2'],
+  ['###', 'h3'],
+];
+
+// Sections longer than this are split further so each embedding stays focused.
+const MAX_CHUNK_SIZE = 1500;
+const CHUNK_OVERLAP = 150;
+
+/**
+ * Parses the front matter block of a manual page.
+ */
+export function parseFrontMatter(content: string): ManualFrontMatter | null {
+  const frontMatterMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  if (!frontMatterMatch) return null;
+
+  const frontMatter = frontMatterMatch[1];
+  const excerptMatch = frontMatter.match(/excerpt:\s*(.*)/);
+  const keywordsMatch = frontMatter.match(/keywords:\s*(.*)/);
+
+  return {
+    excerpt: excerptMatch ? excerptMatch[1].trim() : '',
+    keywords: keywordsMatch ? keywordsMatch[1].split(',').map(k => k.trim()).filter(Boolean) : [],
+  };
+}
+
+/**
+ * Returns the heading text and its anchor. Explicit kramdown ids (`## Title {#id}`)
+ * are used as-is; otherwise the anchor is derived the same way the manual site does.
+ */
+export function headingAnchor(heading: string): { title: string; anchor: string } {
+  const explicit = heading.match(/^(.*?)\s*\{#([^}]+)\}\s*$/);
+  if (explicit) {
+    return { title: explicit[1].trim(), anchor: explicit[2].trim() };
+  }
+  const title = heading.trim();
+  const anchor = title
+    .toLowerCase()
+    .replace(/<[^>]+>/g, '')
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-');
+  return { title, anchor };
+}
+
+/**
+ * Splits a manual page into heading sections.
+ * @param page The page key (file name without `.md`).
+ * @param content The raw markdown including front matter.
+ */
+export async function chunkManualPage(page: string, content: string): Promise<ManualChunk[]> {
+  const frontMatter = parseFrontMatter(content);
+  const body = content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '');
+  const titleMatch = body.match(/^#\s+(.*)$/m);
+  const pageTitle = titleMatch ? headingAnchor(titleMatch[1]).title : page;
+  const pageUrl = `${config.baseUrl}${page}.html`;
+
+  const sections = await MDocument.fromMarkdown(body).chunk({
+    strategy: 'markdown',
+    headers: HEADERS,
+    stripHeaders: true,
+  });
+
+  const chunks: ManualChunk[] = [];
+  for (const section of sections) {
+    const text = section.text.trim();
+    if (!text) continue;
+
+    const headings = HEADERS
+      .map(([, name]) => section.metadata[name] as string | undefined)
+      .filter((h): h is string => Boolean(h))
+      .map(headingAnchor);
+    const deepest = headings.length > 1 ? headings[headings.length - 1] : undefined;
+    const base = {
+      page,
+      pageTitle,
+      section: deepest?.title ?? pageTitle,
+      headingPath: headings.length ? headings.map((h) => h.title) : [pageTitle],
+      url: deepest ? `${pageUrl}#${deepest.anchor}` : pageUrl,
+      excerpt: frontMatter?.excerpt ?? '',
+    };
+
+    if (text.length <= MAX_CHUNK_SIZE) {
+      chunks.push({ ...base, text });
+      continue;
+    }
+    const parts = await MDocument.fromMarkdown(text).chunk({
+      strategy: 'recursive',
+      maxSize: MAX_CHUNK_SIZE,
+      overlap: CHUNK_OVERLAP,
+    });
+    for (const part of parts) {
+      if (part.text.trim()) chunks.push({ ...base, text: part.text.trim() });
+    }
+  }
+  return chunks;
+}
@@ -0,0 +1,287 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Manual Retrieval Index
+ *
+ * Embeds the heading sections of the manual pages with fastembed and stores
+ * them in a LibSQL vector index. The index is built at startup and kept up to
+ * date incrementally: a small manifest table records the content hash of each
+ * page, so only added, changed or removed pages are re-embedded when the
+ * contents directory changes.
+ */
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { createClient, type Client } from '@libsql/client';
+import { LibSQLVector } from '@mastra/libsql';
+import { fastembed } from '@mastra/fastembed';
+import { config } from './config';
+import { chunkManualPage, type ManualChunk } from './manualChunks';
+import { logger } from '../../logger';
+
+const CONTENTS_DIR = config.paths.contents;
+const { indexDbUrl, indexName } = config.retrieval;
+
+// Number of texts passed to the embedding model per call.
+const EMBED_BATCH_SIZE = 32;
+// Wait for bursts of file events (editors, git checkouts) to settle before re-indexing.
+const WATCH_DEBOUNCE_MS = 2000;
+
+/**
+ * A manual section returned by `searchManual()`.
+ */
+export interface ManualSearchResult extends ManualChunk {
+  /** Cosine similarity to the question. */
+  score: number;
+}
+
+/**
+ * Outcome of an index synchronisation.
+ */
+export interface ManualIndexSyncResult {
+  indexed: string[];
+  removed: string[];
+  unchanged: number;
+  chunks: number;
+}
+
+const vectorStore = new LibSQLVector({ connectionUrl: indexDbUrl });
+
+let client: Client | null = null;
+let manifestReady: Promise<void> | null = null;
+
+async function getManifest(): Promise<Client> {
+  if (!client) {
+    client = createClient({ url: indexDbUrl });
+  }
+  if (!manifestReady) {
+    manifestReady = client.execute(`
+      CREATE TABLE IF NOT EXISTS xibo_manual_files (
+        page TEXT PRIMARY KEY,
+        hash TEXT NOT NULL,
+        chunk_count INTEGER NOT NULL,
+        indexed_at TEXT NOT NULL
+      )`).then(() => undefined);
+    manifestReady.catch(() => { manifestReady = null; });
+  }
+  await manifestReady;
+  return client;
+}
+
+async function embedTexts(values: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let i = 0; i < values.length; i += EMBED_BATCH_SIZE) {
+    const result = await fastembed.doEmbed({ values: values.slice(i, i + EMBED_BATCH_SIZE) });
+    embeddings.push(...result.embeddings);
+  }
+  return embeddings;
+}
+
+/**
+ * Creates the vector index, recreating it (and forgetting the manifest) when the
+ * embedding dimension no longer matches, e.g. after switching embedding models.
+ */
+async function ensureVectorIndex(dimension: number): Promise<void> {
+  const indexes = await vectorStore.listIndexes();
+  if (indexes.includes(indexName)) {
+    const stats = await vectorStore.describeIndex({ indexName });
+    if (stats.dimension === dimension) return;
+    logger.warn({ indexName, from: stats.dimension, to: dimension }, 'Manual index dimension changed, rebuilding the index.');
+    await vectorStore.deleteIndex({ indexName });
+    await (await getManifest()).execute('DELETE FROM xibo_manual_files');
+    // Pages already skipped as unchanged in this pass are picked up by the follow-up sync.
+    resyncRequested = true;
+  }
+  await vectorStore.createIndex({ indexName, dimension, metric: 'cosine' });
+}
+
+const chunkId = (page: string, index: number) => `${page}#${index}`;
+
+async function deletePageVectors(page: string, chunkCount: number): Promise<void> {
+  if (!chunkCount || !(await vectorStore.listIndexes()).includes(indexName)) return;
+  for (let i = 0; i < chunkCount; i++) {
+    await vectorStore.deleteVector({ indexName, id: chunkId(page, i) });
+  }
+}
+
+function readManualPages(): Map<string, { content: string; hash: string }> {
+  const pages = new Map<string, { content: string; hash: string }>();
+  if (!fs.existsSync(CONTENTS_DIR)) {
+    logger.warn({ dir: CONTENTS_DIR }, 'Manual contents directory does not exist.');
+    return pages;
+  }
+  for (const file of fs.readdirSync(CONTENTS_DIR)) {
+    if (!file.endsWith('.md')) continue;
+    const content = fs.readFileSync(path.join(CONTENTS_DIR, file), 'utf-8');
+    pages.set(file.replace(/\.md$/, ''), {
+      content,
+      hash: crypto.createHash('sha256').update(content).digest('hex'),
+    });
+  }
+  return pages;
+}
+
+async function indexPage(page: string, content: string, hash: string, previousChunks: number): Promise<number> {
+  const chunks = await chunkManualPage(page, content);
+  await deletePageVectors(page, previousChunks);
+
+  if (chunks.length) {
+    // Headings are prepended so short sections still embed with their context.
+    const vectors = await embedTexts(chunks.map((c) => `${c.headingPath.join(' > ')}\n\n${c.text}`));
+    await ensureVectorIndex(vectors[0].length);
+    await vectorStore.upsert({
+      indexName,
+      vectors,
+      ids: chunks.map((_, i) => chunkId(page, i)),
+      metadata: chunks.map((c) => ({ ...c })),
+    });
+  }
+
+  await (await getManifest()).execute({
+    sql: `INSERT INTO xibo_manual_files (page, hash, chunk_count, indexed_at) VALUES (?, ?, ?, ?)
+          ON CONFLICT(page) DO UPDATE SET hash = excluded.hash, chunk_count = excluded.chunk_count, indexed_at = excluded.indexed_at`,
+    args: [page, hash, chunks.length, new Date().toISOString()],
+  });
+  return chunks.length;
+}
+
+async function syncOnce(): Promise<ManualIndexSyncResult> {
+  const db = await getManifest();
+  const pages = readManualPages();
+  const known = new Map(
+    (await db.execute('SELECT page, hash, chunk_count FROM xibo_manual_files')).rows
+      .map((row) => [String(row.page), { hash: String(row.hash), chunkCount: Number(row.chunk_count) }])
+  );
+
+  const result: ManualIndexSyncResult = { indexed: [], removed: [], unchanged: 0, chunks: 0 };
+  for (const [page, { content, hash }] of pages) {
+    const previous = known.get(page);
+    if (previous?.hash === hash) {
+      result.unchanged++;
+      continue;
+    }
+    try {
+      result.chunks += await indexPage(page, content, hash, previous?.chunkCount ?? 0);
+      result.indexed.push(page);
+    } catch (error) {
+      logger.error({ page, error: error instanceof Error ? error.message : error }, 'Failed to index manual page.');
+    }
+  }
+
+  for (const [page, { chunkCount }] of known) {
+    if (pages.has(page)) continue;
+    await deletePageVectors(page, chunkCount);
+    await db.execute({ sql: 'DELETE FROM xibo_manual_files WHERE page = ?', args: [page] });
+    result.removed.push(page);
+  }
+
+  logger.info(
+    { indexed: result.indexed.length, removed: result.removed.length, unchanged: result.unchanged, chunks: result.chunks },
+    'Manual index synchronised.'
+  );
+  return result;
+}
+
+let syncing: Promise<ManualIndexSyncResult> | null = null;
+let resyncRequested = false;
+let initialSync: Promise<ManualIndexSyncResult> | null = null;
+
+/**
+ * Brings the vector index in line with the contents directory. Calls made while a
+ * sync is running are folded into one follow-up sync.
+ */
+export function syncManualIndex(): Promise<ManualIndexSyncResult> {
+  if (syncing) {
+    resyncRequested = true;
+    return syncing;
+  }
+  syncing = syncOnce().finally(() => {
+    syncing = null;
+    if (resyncRequested) {
+      resyncRequested = false;
+      void syncManualIndex().catch(() => undefined);
+    }
+  });
+  return syncing;
+}
+
+/**
+ * Waits until the index has been built at least once in this process.
+ */
+export function ensureManualIndex(): Promise<ManualIndexSyncResult> {
+  if (!initialSync) {
+    initialSync = syncManualIndex();
+    initialSync.catch(() => { initialSync = null; });
+  }
+  return initialSync;
+}
+
+/**
+ * Returns the manual sections most similar to the question.
+ * @param query The user's question.
+ * @param topK Maximum number of sections to return.
+ */
+export async function searchManual(query: string, topK: number = config.retrieval.topK): Promise<ManualSearchResult[]> {
+  await ensureManualIndex();
+  if (!(await vectorStore.listIndexes()).includes(indexName)) {
+    return [];
+  }
+  const [queryVector] = await embedTexts([query]);
+  const results = await vectorStore.query({ indexName, queryVector, topK });
+  return results
+    .filter((r) => r.metadata)
+    .map((r) => ({ ...(r.metadata as ManualChunk), score: r.score }));
+}
+
+let watcher: fs.FSWatcher | null = null;
+let debounceTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Builds the index in the background and re-indexes changed pages whenever the
+ * contents directory changes. Returns false if the directory cannot be watched.
+ */
+export function startManualIndexer(): boolean {
+  ensureManualIndex().catch((error) => {
+    logger.error({ error: error instanceof Error ? error.message : error }, 'Initial manual indexing failed.');
+  });
+  if (watcher) return true;
+  try {
+    watcher = fs.watch(CONTENTS_DIR, (_event, file) => {
+      if (file && !String(file).endsWith('.md')) return;
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => {
+        debounceTimer = null;
+        syncManualIndex().catch((error) => {
+          logger.error({ error: error instanceof Error ? error.message : error }, 'Manual re-indexing failed.');
+        });
+      }, WATCH_DEBOUNCE_MS);
+      debounceTimer.unref();
+    });
+    watcher.unref();
+    logger.info({ dir: CONTENTS_DIR }, 'Watching manual contents for changes.');
+    return true;
+  } catch (error) {
+    logger.warn({ dir: CONTENTS_DIR, error: error instanceof Error ? error.message : error }, 'Cannot watch manual contents; changes require a restart.');
+    return false;
+  }
+}
+
+/**
+ * Stops watching the contents directory.
+ */
+export function stopManualIndexer(): void {
+  watcher?.close();
+  watcher = null;
+  if (debounceTimer) clearTimeout(debounceTimer);
+  debounceTimer = null;
+}
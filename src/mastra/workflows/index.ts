@@ -18,4 +18,5 @@ export { productAnalysisWorkflow } from './product-analysis/productAnalysis';
 export { intelligentPresenterWorkflow } from './presenter/intelligentPresenter';
 export { recipeToPptxWorkflow } from './presenter/recipeToPptx';
 export { podcastPlannerWorkflow } from './podcast/podcastPlanner';
-export { signageAdsPlannerWorkflow } from './signage-ads/signageAdsPlanner';
\ No newline at end of file
+export { signageAdsPlannerWorkflow } from './signage-ads/signageAdsPlanner';
+export { proofOfPlayReportWorkflow } from './proof-of-play/proofOfPlayReport';
@@ -0,0 +1,310 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+import { createWorkflow, createStep } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../../logger';
+import { config } from '../../tools/xibo-agent/config';
+import { generateChartTool } from '../../tools/presenter/generateChart';
+import { createPowerpointTool } from '../../tools/presenter/createPowerpoint';
+import { saveReportTool } from '../../tools/util/saveReport';
+import { DOWNLOAD_API_REPORT, DOWNLOAD_API_PRESENTATION } from '../../config/constants';
+import { CMS_PROFILE_CONTEXT_KEY } from '../../tools/xibo-agent/cmsProfiles';
+import {
+  MAX_REPORT_DAYS,
+  PROOF_OF_PLAY_SUBJECTS,
+  fetchProofOfPlayStats,
+  formatAirtime,
+  listDates,
+  proofOfPlaySummarySchema,
+  summarizeProofOfPlay,
+  type ProofOfPlaySummary,
+} from './proofOfPlayStats';
+
+const chartSchema = z.object({
+  title: z.string(),
+  fileName: z.string(),
+  imagePath: z.string(),
+});
+
+const successOutputSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    summary: proofOfPlaySummarySchema,
+    mdFileName: z.string(),
+    pdfFileName: z.string(),
+    pptxFileName: z.string().optional(),
+    downloads: z.object({
+      markdown: z.string(),
+      pdf: z.string(),
+      pptx: z.string().optional(),
+    }),
+  }),
+});
+const errorOutputSchema = z.object({ success: z.literal(false), message: z.string() });
+const finalOutputSchema = z.union([successOutputSchema, errorOutputSchema]);
+
+const statsOutputSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    summary: proofOfPlaySummarySchema,
+    title: z.string(),
+    createPresentation: z.boolean(),
+  }),
+  errorOutputSchema,
+]);
+
+const chartsOutputSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    summary: proofOfPlaySummarySchema,
+    title: z.string(),
+    createPresentation: z.boolean(),
+    charts: z.array(chartSchema),
+  }),
+  errorOutputSchema,
+]);
+
+const SUBJECT_LABELS: Record<ProofOfPlaySummary['subject'], string> = {
+  campaign: 'キャンペーン',
+  layout: 'レイアウト',
+  media: 'メディア',
+};
+
+const period = (summary: ProofOfPlaySummary) => `${summary.fromDt.slice(0, 10)} 〜 ${summary.toDt.slice(0, 10)}`;
+
+/**
+ * Builds the Markdown report. Numbers come straight from the aggregation; no AI is involved
+ * so the figures handed to advertisers are exactly those recorded by the CMS.
+ */
+function buildReportMarkdown(title: string, summary: ProofOfPlaySummary, charts: z.infer<typeof chartSchema>[]): string {
+  const { totals } = summary;
+  const chartMarkdown = (index: number) => charts[index] ? `![${charts[index].title}](${charts[index].fileName})\n\n` : '';
+  const lines = [
+    `# ${title}`,
+    '',
+    '## 概要',
+    '',
+    '| 項目 | 値 |',
+    '|:--|--:|',
+    `| 対象 | ${SUBJECT_LABELS[summary.subject]}: ${summary.subjectName} (ID ${summary.subjectId}) |`,
+    `| 期間 | ${summary.fromDt} 〜 ${summary.toDt} |`,
+    `| 再生回数 | ${totals.plays.toLocaleString('ja-JP')} 回 |`,
+    `| 放映時間 | ${formatAirtime(totals.airtimeSeconds)} |`,
+    `| ディスプレイ数 | ${totals.displays} 台 |`,
+    `| 再生のあった日数 | ${totals.activeDays} / ${summary.byDay.length} 日 |`,
+    '',
+    '## ディスプレイ別',
+    '',
+    chartMarkdown(0) + '| ディスプレイ | 再生回数 | 放映時間 |',
+    '|:--|--:|--:|',
+    ...summary.byDisplay.map((d) => `| ${d.display.replace(/\|/g, '\\|')} | ${d.plays.toLocaleString('ja-JP')} | ${formatAirtime(d.airtimeSeconds)} |`),
+    '',
+    '## 日別',
+    '',
+    chartMarkdown(1) + '| 日付 | 再生回数 | 放映時間 |',
+    '|:--|--:|--:|',
+    ...summary.byDay.map((d) => `| ${d.date} | ${d.plays.toLocaleString('ja-JP')} | ${formatAirtime(d.airtimeSeconds)} |`),
+    '',
+    '## 時間帯別',
+    '',
+    chartMarkdown(2) + '| 時間帯 | 再生回数 | 放映時間 |',
+    '|:--|--:|--:|',
+    ...summary.byHour.map((h) => `| ${String(h.hour).padStart(2, '0')}:00 | ${h.plays.toLocaleString('ja-JP')} | ${formatAirtime(h.airtimeSeconds)} |`),
+    '',
+    '---',
+    '',
+    `集計元: Xibo CMS 再生実績（${summary.records} 件の統計レコード）。日時はCMSのタイムゾーンです。`,
+    '',
+  ];
+  return lines.join('\n');
+}
+
+const reportInputSchema = z.object({
+  subject: z.enum(PROOF_OF_PLAY_SUBJECTS).describe('What the report is about.'),
+  subjectId: z.number().describe('Campaign ID, layout ID or media ID.'),
+  fromDt: z.string().describe("Start of the period, 'YYYY-MM-DD HH:mm:ss'."),
+  toDt: z.string().describe("End of the period, 'YYYY-MM-DD HH:mm:ss'."),
+  displayIds: z.array(z.number()).optional().describe('Only count these displays.'),
+  title: z.string().optional().describe('Report title. Defaults to the subject and period.'),
+  createPresentation: z.boolean().optional().default(false).describe('Also create a PowerPoint deck.'),
+  cmsProfile: z.string().optional().describe('CMS profile to read the statistics from.'),
+});
+
+/**
+ * @workflow proof-of-play-report-workflow
+ * 広告主向けの再生実績（Proof of Play）レポートを作成します。
+ * CMSの統計を全ページ取得してディスプレイ別・日別・時間帯別に集計し、グラフ付きの
+ * Markdown/PDFレポートと、必要に応じてPowerPointを出力します。
+ */
+export const proofOfPlayReportWorkflow = createWorkflow({
+  id: 'proof-of-play-report-workflow',
+  description: 'Creates a proof-of-play report (Markdown/PDF, optionally PPTX) with plays and airtime per display, day and hour for a campaign, layout or media item.',
+  inputSchema: reportInputSchema,
+  outputSchema: finalOutputSchema,
+})
+.then(createStep({
+  /**
+   * Reads the statistics of the period and aggregates them.
+   */
+  id: 'fetch-and-aggregate-stats',
+  inputSchema: reportInputSchema,
+  outputSchema: statsOutputSchema,
+  execute: async ({ inputData, runtimeContext }) => {
+    try {
+      const days = listDates(inputData.fromDt, inputData.toDt).length;
+      if (!days || days > MAX_REPORT_DAYS) {
+        return { success: false, message: `The period must cover 1 to ${MAX_REPORT_DAYS} days.` } as const;
+      }
+      // Use the CMS profile of the agent thread unless one is given explicitly.
+      const cmsProfile = inputData.cmsProfile || (runtimeContext?.get(CMS_PROFILE_CONTEXT_KEY) as string | undefined);
+      const records = await fetchProofOfPlayStats({ ...inputData, cmsProfile });
+      const summary = summarizeProofOfPlay(inputData, records);
+      const title = inputData.title || `再生実績レポート ${summary.subjectName} ${period(summary)}`;
+      return { success: true, summary, title, createPresentation: inputData.createPresentation ?? false } as const;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({ error: message }, 'Proof of play: failed to read statistics');
+      return { success: false, message } as const;
+    }
+  },
+}))
+.then(createStep({
+  /**
+   * Renders the per display, per day and per hour charts next to the report.
+   */
+  id: 'render-charts',
+  inputSchema: statsOutputSchema,
+  outputSchema: chartsOutputSchema,
+  execute: async (params) => {
+    const input = params.inputData;
+    if (!input.success) return input;
+    const { summary } = input;
+    if (!summary.records) {
+      return { ...input, charts: [] };
+    }
+
+    const base = `proof-of-play-${summary.subject}-${summary.subjectId}-${summary.fromDt.slice(0, 10)}-${summary.toDt.slice(0, 10)}`;
+    const specs = [
+      {
+        key: 'displays', chartType: 'horizontalBar', title: 'ディスプレイ別 再生回数',
+        labels: summary.byDisplay.map((d) => d.display), data: summary.byDisplay.map((d) => d.plays),
+      },
+      {
+        key: 'days', chartType: 'line', title: '日別 再生回数',
+        labels: summary.byDay.map((d) => d.date.slice(5)), data: summary.byDay.map((d) => d.plays),
+      },
+      {
+        key: 'hours', chartType: 'bar', title: '時間帯別 再生回数',
+        labels: summary.byHour.map((h) => `${h.hour}時`), data: summary.byHour.map((h) => h.plays),
+      },
+    ] as const;
+
+    await fs.mkdir(config.reportsDir, { recursive: true });
+    const charts: z.infer<typeof chartSchema>[] = [];
+    for (const spec of specs) {
+      const result = await generateChartTool.execute({
+        ...params,
+        context: { chartType: spec.chartType, title: spec.title, labels: spec.labels, data: spec.data, returnBuffer: true },
+      });
+      const buffer = result.success && 'buffer' in result.data && Buffer.isBuffer(result.data.buffer) ? result.data.buffer : undefined;
+      if (!buffer) {
+        logger.warn({ chart: spec.key }, 'Proof of play: chart generation failed, continuing without it.');
+        continue;
+      }
+      const fileName = `${base}-${spec.key}.png`;
+      const imagePath = path.join(config.reportsDir, fileName);
+      await fs.writeFile(imagePath, buffer);
+      charts.push({ title: spec.title, fileName, imagePath });
+    }
+    return { ...input, charts };
+  },
+}))
+.then(createStep({
+  /**
+   * Writes the Markdown/PDF report and, if requested, the PowerPoint deck.
+   */
+  id: 'write-report',
+  inputSchema: chartsOutputSchema,
+  outputSchema: finalOutputSchema,
+  execute: async (params) => {
+    const input = params.inputData;
+    if (!input.success) return input;
+    const { summary, title, charts, createPresentation } = input;
+
+    const saved = await saveReportTool.execute({ ...params, context: { title, content: buildReportMarkdown(title, summary, charts) } });
+    if (!saved.success) {
+      return { success: false, message: `Failed to save the report: ${saved.message}` } as const;
+    }
+    const mdFileName = path.basename(saved.data.filePath);
+    const pdfFileName = saved.data.pdfFileName;
+
+    let pptxFileName: string | undefined;
+    if (createPresentation) {
+      const chartSlides = charts.map((chart) => ({
+        title: chart.title,
+        bullets: [] as string[],
+        imagePath: chart.imagePath,
+        layout: 'visual_only' as const,
+      }));
+      const deck = await createPowerpointTool.execute({
+        ...params,
+        context: {
+          fileName: mdFileName.replace(/\.md$/i, ''),
+          slides: [
+            { title, bullets: [period(summary)], layout: 'title_slide' },
+            {
+              title: '概要',
+              layout: 'content_only',
+              bullets: [
+                `${SUBJECT_LABELS[summary.subject]}: ${summary.subjectName}`,
+                `再生回数: ${summary.totals.plays.toLocaleString('ja-JP')} 回`,
+                `放映時間: ${formatAirtime(summary.totals.airtimeSeconds)}`,
+                `ディスプレイ数: ${summary.totals.displays} 台`,
+                `再生のあった日数: ${summary.totals.activeDays} / ${summary.byDay.length} 日`,
+              ],
+            },
+            ...chartSlides,
+            {
+              title: '再生回数の多いディスプレイ',
+              layout: 'content_only',
+              bullets: summary.byDisplay.slice(0, 8).map((d) => `${d.display}: ${d.plays.toLocaleString('ja-JP')} 回 / ${formatAirtime(d.airtimeSeconds)}`),
+            },
+          ],
+        },
+      });
+      if (deck.success) {
+        pptxFileName = path.basename(deck.data.filePath);
+      } else {
+        logger.warn({ message: deck.message }, 'Proof of play: PowerPoint creation failed; returning the report only.');
+      }
+    }
+
+    logger.info({ mdFileName, pdfFileName, pptxFileName }, 'Proof of play report created.');
+    return {
+      success: true,
+      data: {
+        summary,
+        mdFileName,
+        pdfFileName,
+        pptxFileName,
+        downloads: {
+          markdown: `${DOWNLOAD_API_REPORT}/${encodeURIComponent(mdFileName)}`,
+          pdf: `${DOWNLOAD_API_REPORT}/${encodeURIComponent(pdfFileName)}`,
+          pptx: pptxFileName ? `${DOWNLOAD_API_PRESENTATION}/${encodeURIComponent(pptxFileName)}` : undefined,
+        },
+      },
+    } as const;
+  },
+}))
+.commit();
@@ -0,0 +1,193 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Proof of Play Statistics
+ * Overview: Reads the proof-of-play records of one campaign, layout or media item from
+ * `GET /stats` (all pages) and aggregates plays and airtime per display, per day and
+ * per hour of day for the proof-of-play report workflow.
+ *
+ * Dates are taken as returned by the CMS ('YYYY-MM-DD HH:mm:ss'), so days and hours are
+ * those of the CMS timezone.
+ */
+
+import { z } from 'zod';
+import { config } from '../../tools/xibo-agent/config';
+import { fetchPaginated } from '../../tools/xibo-agent/utility/pagination';
+import { getActiveCmsProfile, getCmsProfile, runWithCmsProfile } from '../../tools/xibo-agent/cmsProfiles';
+import { logger } from '../../logger';
+
+export const PROOF_OF_PLAY_SUBJECTS = ['campaign', 'layout', 'media'] as const;
+
+export type ProofOfPlaySubject = typeof PROOF_OF_PLAY_SUBJECTS[number];
+
+// Longest period one report may cover.
+export const MAX_REPORT_DAYS = 93;
+
+const statRecordSchema = z.object({
+  type: z.string(),
+  display: z.string(),
+  displayId: z.number(),
+  layout: z.string().nullable().optional(),
+  layoutId: z.number().nullable().optional(),
+  media: z.string().nullable().optional(),
+  mediaId: z.number().nullable().optional(),
+  parentCampaign: z.string().nullable().optional(),
+  parentCampaignId: z.number().nullable().optional(),
+  numberPlays: z.number(),
+  duration: z.number(),
+  start: z.string(),
+  end: z.string(),
+}).passthrough();
+
+export type StatRecord = z.infer<typeof statRecordSchema>;
+
+export const proofOfPlaySummarySchema = z.object({
+  subject: z.enum(PROOF_OF_PLAY_SUBJECTS),
+  subjectId: z.number(),
+  subjectName: z.string(),
+  fromDt: z.string(),
+  toDt: z.string(),
+  records: z.number(),
+  totals: z.object({
+    plays: z.number(),
+    airtimeSeconds: z.number(),
+    displays: z.number(),
+    activeDays: z.number(),
+  }),
+  byDisplay: z.array(z.object({ displayId: z.number(), display: z.string(), plays: z.number(), airtimeSeconds: z.number() })),
+  byDay: z.array(z.object({ date: z.string(), plays: z.number(), airtimeSeconds: z.number() })),
+  byHour: z.array(z.object({ hour: z.number(), plays: z.number(), airtimeSeconds: z.number() })),
+});
+
+export type ProofOfPlaySummary = z.infer<typeof proofOfPlaySummarySchema>;
+
+export interface ProofOfPlayQuery {
+  subject: ProofOfPlaySubject;
+  subjectId: number;
+  fromDt: string;
+  toDt: string;
+  displayIds?: number[];
+  cmsProfile?: string;
+}
+
+/**
+ * Lists the dates from `fromDt` to `toDt` (inclusive) as 'YYYY-MM-DD'.
+ */
+export function listDates(fromDt: string, toDt: string): string[] {
+  const dates: string[] = [];
+  const day = new Date(`${fromDt.slice(0, 10)}T00:00:00Z`);
+  const last = new Date(`${toDt.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(day.getTime()) || Number.isNaN(last.getTime())) {
+    throw new Error(`Invalid period ${fromDt} - ${toDt}`);
+  }
+  while (day <= last) {
+    dates.push(day.toISOString().slice(0, 10));
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * Reads all stat records of the subject in the period.
+ */
+export async function fetchProofOfPlayStats(query: ProofOfPlayQuery): Promise<StatRecord[]> {
+  const profile = query.cmsProfile ? getCmsProfile(query.cmsProfile) : getActiveCmsProfile();
+  return runWithCmsProfile(profile, async () => {
+    const url = new URL(`${config.cmsUrl}/api/stats`);
+    url.searchParams.set('type', query.subject === 'media' ? 'Media' : 'Layout');
+    url.searchParams.set('fromDt', query.fromDt);
+    url.searchParams.set('toDt', query.toDt);
+    const idParam = { campaign: 'parentCampaignId[]', layout: 'layoutId[]', media: 'mediaId[]' }[query.subject];
+    url.searchParams.append(idParam, String(query.subjectId));
+    (query.displayIds ?? []).forEach((id) => url.searchParams.append('displayIds[]', String(id)));
+
+    const result = await fetchPaginated(url, { all: true });
+    if (!result.success) {
+      throw new Error(`Failed to read statistics: ${result.message}`);
+    }
+    const records: StatRecord[] = [];
+    let skipped = 0;
+    for (const item of result.items) {
+      const parsed = statRecordSchema.safeParse(item);
+      if (parsed.success) records.push(parsed.data);
+      else skipped++;
+    }
+    if (skipped) {
+      logger.warn({ skipped }, 'Skipped statistics records that could not be read.');
+    }
+    logger.info({ subject: query.subject, subjectId: query.subjectId, records: records.length }, 'Read proof-of-play statistics.');
+    return records;
+  });
+}
+
+/**
+ * Aggregates stat records into the totals and breakdowns shown in the report.
+ * Every day of the period and every hour of the day is listed, including the ones
+ * without plays.
+ */
+export function summarizeProofOfPlay(query: ProofOfPlayQuery, records: StatRecord[]): ProofOfPlaySummary {
+  const byDisplay = new Map<number, { displayId: number; display: string; plays: number; airtimeSeconds: number }>();
+  const byDay = new Map(listDates(query.fromDt, query.toDt).map((date) => [date, { date, plays: 0, airtimeSeconds: 0 }]));
+  const byHour = Array.from({ length: 24 }, (_, hour) => ({ hour, plays: 0, airtimeSeconds: 0 }));
+
+  for (const record of records) {
+    const display = byDisplay.get(record.displayId) ?? { displayId: record.displayId, display: record.display, plays: 0, airtimeSeconds: 0 };
+    display.plays += record.numberPlays;
+    display.airtimeSeconds += record.duration;
+    byDisplay.set(record.displayId, display);
+
+    const day = byDay.get(record.start.slice(0, 10));
+    if (day) {
+      day.plays += record.numberPlays;
+      day.airtimeSeconds += record.duration;
+    }
+    const hour = byHour[Number(record.start.slice(11, 13))];
+    if (hour) {
+      hour.plays += record.numberPlays;
+      hour.airtimeSeconds += record.duration;
+    }
+  }
+
+  const first = records[0];
+  const subjectName = (query.subject === 'campaign' ? first?.parentCampaign
+    : query.subject === 'layout' ? first?.layout
+    : first?.media) ?? `${query.subject} ${query.subjectId}`;
+  const days = [...byDay.values()];
+  return {
+    subject: query.subject,
+    subjectId: query.subjectId,
+    subjectName,
+    fromDt: query.fromDt,
+    toDt: query.toDt,
+    records: records.length,
+    totals: {
+      plays: records.reduce((sum, r) => sum + r.numberPlays, 0),
+      airtimeSeconds: records.reduce((sum, r) => sum + r.duration, 0),
+      displays: byDisplay.size,
+      activeDays: days.filter((d) => d.plays > 0).length,
+    },
+    byDisplay: [...byDisplay.values()].sort((a, b) => b.plays - a.plays),
+    byDay: days,
+    byHour,
+  };
+}
+
+/**
+ * Formats seconds as "H:MM:SS".
+ */
+export function formatAirtime(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.round(seconds % 60);
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
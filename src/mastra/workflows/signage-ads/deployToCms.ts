@@ -0,0 +1,342 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * This software is licensed under the Elastic License 2.0 (ELv2).
+ */
+
+import { z } from 'zod';
+import path from 'path';
+import { promises as fs } from 'fs';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { logger } from '../../logger';
+import { config } from '../../tools/xibo-agent/config';
+import { executeTool } from '../../tools/xibo-agent/safeMode';
+import type { XiboTool } from '../../tools/xibo-agent/xiboTool';
+import { getResolutions } from '../../tools/xibo-agent/resolution/getResolutions';
+import { addLayout } from '../../tools/xibo-agent/layout/addLayout';
+import { addRegion } from '../../tools/xibo-agent/layout/addRegion';
+import { publishLayout } from '../../tools/xibo-agent/layout/publishLayout';
+import { addWidget } from '../../tools/xibo-agent/widget/addWidget';
+import { editWidget } from '../../tools/xibo-agent/widget/editWidget';
+import { addMedia } from '../../tools/xibo-agent/library/addMedia';
+import { assignLibraryItems } from '../../tools/xibo-agent/playlist/assignLibraryItems';
+import { addCampaign } from '../../tools/xibo-agent/campaign/addCampaign';
+import { addSchedule } from '../../tools/xibo-agent/schedule/addSchedule';
+import { WIDGET_TYPE_ALIASES } from '../../tools/xibo-agent/layout/layoutBundle';
+
+/**
+ * deployToCms
+ * Overview: Turns the `*.xibo-layout.json` files written by the signage ads planner into
+ * real CMS objects by chaining the existing Xibo tools:
+ *   getResolutions -> addLayout (draft) -> addMedia (mock PNG) -> addRegion -> addWidget/editWidget
+ *   or assignLibraryItems -> publishLayout -> addCampaign -> addSchedule.
+ * Each layout file becomes its own layout, campaign and schedule so landscape and portrait
+ * screens can be targeted with different display groups.
+ *
+ * In dry-run mode no request is sent; every call is recorded with its endpoint and parameters,
+ * using placeholders such as `<landscape.layoutId>` for IDs that the CMS would assign.
+ */
+
+/**
+ * Recorded API call (planned in dry-run, executed otherwise).
+ */
+export const deployCallSchema = z.object({
+  layoutFile: z.string(),
+  tool: z.string(),
+  method: z.enum(['GET', 'POST', 'PUT']),
+  endpoint: z.string(),
+  params: z.record(z.any()),
+  status: z.enum(['planned', 'ok', 'failed', 'skipped']),
+  result: z.record(z.any()).optional(),
+  message: z.string().optional(),
+});
+
+export type DeployCall = z.infer<typeof deployCallSchema>;
+
+export const deploymentSchema = z.object({
+  dryRun: z.boolean(),
+  success: z.boolean(),
+  message: z.string(),
+  calls: z.array(deployCallSchema),
+  layouts: z.array(z.object({
+    layoutFile: z.string(),
+    layoutId: z.union([z.number(), z.string()]).optional(),
+    campaignId: z.union([z.number(), z.string()]).optional(),
+    eventIds: z.array(z.union([z.number(), z.string()])),
+    success: z.boolean(),
+  })),
+});
+
+export type Deployment = z.infer<typeof deploymentSchema>;
+
+export interface DeployOptions {
+  xiboLayoutPaths: string[];
+  mockImagePaths: string[];
+  campaignBaseName: string;
+  dryRun: boolean;
+  /** Display groups to schedule each orientation on; scheduling is skipped when empty. */
+  displayGroupIds?: { landscape?: number[]; portrait?: number[] };
+  runtimeContext?: RuntimeContext;
+}
+
+// Planner widget types that can be created as empty module widgets
+const MODULE_WIDGET_TYPES = new Set(['text', 'ticker', 'clock', 'embedded']);
+
+// Widget types that need a library file; the layout mock image is used as a placeholder
+const MEDIA_WIDGET_TYPES = new Set(['image', 'video']);
+
+const ISO_DAYS: Record<string, number> = { mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6, sun: 7 };
+
+/** Thrown internally to stop deploying the current layout after a failed call. */
+class DeployStepError extends Error {}
+
+const toXiboDateTime = (value: string): string => {
+  const trimmed = String(value || '').trim().replace('T', ' ');
+  return /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}$/.test(trimmed) ? `${trimmed}:00` : trimmed;
+};
+
+const withTime = (dateTime: string, time: string): string => {
+  const date = toXiboDateTime(dateTime).slice(0, 10);
+  const [h, m] = String(time || '00:00').split(':');
+  return `${date} ${String(parseInt(h, 10) || 0).padStart(2, '0')}:${String(parseInt(m, 10) || 0).padStart(2, '0')}:00`;
+};
+
+/**
+ * Runs (or plans) the CMS deployment for every layout file.
+ * This function never throws; failures are reported in the returned calls.
+ */
+export async function deploySignagePlan(options: DeployOptions): Promise<Deployment> {
+  const { xiboLayoutPaths, mockImagePaths, campaignBaseName, dryRun, displayGroupIds, runtimeContext } = options;
+  const calls: DeployCall[] = [];
+  const layouts: Deployment['layouts'] = [];
+
+  for (const layoutFile of xiboLayoutPaths) {
+    const orientation: 'landscape' | 'portrait' = /\.portrait\.xibo-layout\.json$/i.test(layoutFile) ? 'portrait' : 'landscape';
+    const fileName = path.basename(layoutFile);
+    const summary: Deployment['layouts'][number] = { layoutFile: fileName, eventIds: [], success: false };
+    layouts.push(summary);
+
+    // Executes one tool call, or records it as planned and returns placeholder IDs.
+    const call = async (
+      tool: XiboTool,
+      method: DeployCall['method'],
+      endpoint: string,
+      params: Record<string, any>,
+      pick: (res: any) => Record<string, any> | null,
+      placeholders: Record<string, any>,
+    ): Promise<Record<string, any>> => {
+      if (dryRun) {
+        calls.push({ layoutFile: fileName, tool: tool.id, method, endpoint, params, status: 'planned', result: placeholders });
+        return placeholders;
+      }
+      let res: any;
+      try {
+        res = await executeTool(tool, params, runtimeContext);
+      } catch (error) {
+        res = { success: false, message: error instanceof Error ? error.message : String(error) };
+      }
+      const picked = res && res.success !== false ? pick(res) : null;
+      if (!picked) {
+        const message = String(res?.message || 'Unexpected response from CMS');
+        calls.push({ layoutFile: fileName, tool: tool.id, method, endpoint, params, status: 'failed', message });
+        logger.error({ layoutFile: fileName, tool: tool.id, endpoint, message }, 'Signage ads deployment call failed');
+        throw new DeployStepError(message);
+      }
+      calls.push({ layoutFile: fileName, tool: tool.id, method, endpoint, params, status: 'ok', result: picked });
+      return picked;
+    };
+
+    const skip = (tool: { id: string }, method: DeployCall['method'], endpoint: string, params: Record<string, any>, message: string) => {
+      calls.push({ layoutFile: fileName, tool: tool.id, method, endpoint, params, status: 'skipped', message });
+    };
+
+    try {
+      const doc = JSON.parse(await fs.readFile(layoutFile, 'utf-8'));
+      const layout = doc?.layout ?? {};
+      const schedule = doc?.schedule ?? {};
+      const width = Number(layout.width) || (orientation === 'portrait' ? 1080 : 1920);
+      const height = Number(layout.height) || (orientation === 'portrait' ? 1920 : 1080);
+      const tags = (Array.isArray(layout.tags) ? layout.tags : []).map((t: any) => String(t)).filter(Boolean);
+
+      // 1) Resolution matching the planned canvas
+      const { resolutionId } = await call(
+        getResolutions, 'GET', `/resolution?width=${width}&height=${height}`, { width, height },
+        (res) => (Array.isArray(res.data) && res.data[0]?.resolutionId ? { resolutionId: res.data[0].resolutionId } : null),
+        { resolutionId: `<${orientation}.resolutionId>` },
+      );
+
+      // 2) Layout, returned as its draft so regions can be added before publishing
+      const created = await call(
+        addLayout, 'POST', '/layout',
+        { name: String(layout.name || `${campaignBaseName} ${orientation}`), description: String(layout.description || ''), resolutionId, returnDraft: true },
+        (res) => (res.layoutId ? { draftLayoutId: res.layoutId, layoutId: res.parentId ?? res.layoutId } : null),
+        { draftLayoutId: `<${orientation}.draftLayoutId>`, layoutId: `<${orientation}.layoutId>` },
+      );
+      summary.layoutId = created.layoutId;
+
+      // 3) Mock image, used as placeholder content for image/video widgets
+      const mockPath = mockImagePaths.find((p) => p.toLowerCase().endsWith(`.${orientation}.mock.png`));
+      const needsMedia = (Array.isArray(layout.regions) ? layout.regions : []).some((r: any) =>
+        (Array.isArray(r.playlists) ? r.playlists : []).some((pl: any) =>
+          (Array.isArray(pl.widgets) ? pl.widgets : []).some((w: any) => MEDIA_WIDGET_TYPES.has(String(w.type || '').toLowerCase()))));
+      let mediaId: any = null;
+      if (mockPath) {
+        const mediaParams = {
+          fileName: path.basename(mockPath),
+          filePath: path.relative(config.projectRoot, path.dirname(mockPath)),
+          name: `${campaignBaseName} ${orientation} mock`,
+          tags: tags.join(',') || undefined,
+        };
+        ({ mediaId } = await call(
+          addMedia, 'POST', '/library', mediaParams,
+          (res) => {
+            const file = res.data?.files?.find((f: any) => 'mediaId' in f);
+            return file ? { mediaId: file.mediaId } : null;
+          },
+          { mediaId: `<${orientation}.mockMediaId>` },
+        ));
+      } else if (needsMedia) {
+        skip(addMedia, 'POST', '/library', {}, 'No mock image was rendered for this orientation; image/video widgets will be left empty.');
+      }
+
+      // 4) Regions in z-order, each with its playlist of widgets
+      const regions = (Array.isArray(layout.regions) ? [...layout.regions] : [])
+        .sort((a: any, b: any) => (Number(a.zIndex) || 0) - (Number(b.zIndex) || 0));
+      for (const [ri, region] of regions.entries()) {
+        const { playlistId } = await call(
+          addRegion, 'POST', `/region/${created.draftLayoutId}`,
+          {
+            id: created.draftLayoutId,
+            type: 'playlist',
+            width: Math.round(Number(region.width) || width),
+            height: Math.round(Number(region.height) || height),
+            top: Math.round(Number(region.top) || 0),
+            left: Math.round(Number(region.left) || 0),
+          },
+          (res) => (res.data?.regionPlaylist?.playlistId ? { regionId: res.data.regionId, playlistId: res.data.regionPlaylist.playlistId } : null),
+          { regionId: `<${orientation}.region${ri}.regionId>`, playlistId: `<${orientation}.region${ri}.playlistId>` },
+        );
+
+        const widgets = (Array.isArray(region.playlists) ? region.playlists : [])
+          .flatMap((pl: any) => (Array.isArray(pl.widgets) ? pl.widgets : []));
+        for (const [wi, widget] of widgets.entries()) {
+          const type = String(widget.type || '').toLowerCase();
+          const duration = Math.max(1, Math.round(Number(widget.duration) || 10));
+          const displayOrder = wi + 1;
+
+          if (MEDIA_WIDGET_TYPES.has(type)) {
+            const assignParams = { playlistId, media: [mediaId], duration, useDuration: 1, displayOrder };
+            if (mediaId === null) {
+              skip(assignLibraryItems, 'POST', `/playlist/library/assign/${playlistId}`, assignParams, 'No placeholder media available.');
+              continue;
+            }
+            await call(
+              assignLibraryItems, 'POST', `/playlist/library/assign/${playlistId}`, assignParams,
+              (res) => (res.data ? { playlistId: res.data.playlistId } : null),
+              { playlistId },
+            );
+            continue;
+          }
+
+          const moduleType = MODULE_WIDGET_TYPES.has(type) ? WIDGET_TYPE_ALIASES[type] ?? type : undefined;
+          if (!moduleType) {
+            skip(addWidget, 'POST', `/playlist/widget/${type}/${playlistId}`, { type, playlistId }, `Unsupported widget type "${type}".`);
+            continue;
+          }
+          const { widgetId } = await call(
+            addWidget, 'POST', `/playlist/widget/${moduleType}/${playlistId}`, { type: moduleType, playlistId, displayOrder },
+            (res) => (res.widgetId ? { widgetId: res.widgetId } : null),
+            { widgetId: `<${orientation}.region${ri}.widget${wi}.widgetId>` },
+          );
+          const properties = widget.options && typeof widget.options === 'object' ? widget.options : undefined;
+          await call(
+            editWidget, 'PUT', `/playlist/widget/${widgetId}`,
+            { widgetId, useDuration: 1, duration, name: String(region.name || `${type} ${displayOrder}`), properties },
+            () => ({ widgetId }),
+            { widgetId },
+          );
+        }
+      }
+
+      // 5) Publish the draft so the layout can be scheduled
+      await call(
+        publishLayout, 'PUT', `/layout/publish/${created.layoutId}`, { layoutId: created.layoutId, publishNow: 1 },
+        () => ({ layoutId: created.layoutId }),
+        { layoutId: created.layoutId },
+      );
+
+      // 6) One campaign per orientation
+      const campaignName = `${String(schedule.campaignName || campaignBaseName)} (${orientation})`;
+      const { campaignId } = await call(
+        addCampaign, 'POST', '/campaign', { type: 'list', name: campaignName, layoutIds: [created.layoutId] },
+        (res) => (res.data?.campaignId ? { campaignId: res.data.campaignId } : null),
+        { campaignId: `<${orientation}.campaignId>` },
+      );
+      summary.campaignId = campaignId;
+
+      // 7) Weekly recurring events, one per time window
+      const groups = displayGroupIds?.[orientation] ?? [];
+      if (!schedule.fromDt || !schedule.toDt) {
+        skip(addSchedule, 'POST', '/schedule', {}, 'The plan has no schedule period (fromDt/toDt).');
+      } else {
+        const days = (Array.isArray(schedule.daysOfWeek) ? schedule.daysOfWeek : [])
+          .map((d: any) => ISO_DAYS[String(d).slice(0, 3).toLowerCase()])
+          .filter((d: number | undefined): d is number => d !== undefined);
+        const times = Array.isArray(schedule.times) && schedule.times.length > 0 ? schedule.times : [null];
+        const rangeEnd = Math.floor(new Date(toXiboDateTime(schedule.toDt).replace(' ', 'T')).getTime() / 1000);
+        for (const [ti, window] of times.entries()) {
+          const params: Record<string, any> = window
+            ? {
+                campaignId,
+                displayGroupIds: groups,
+                fromDt: withTime(schedule.fromDt, window.start),
+                toDt: withTime(schedule.fromDt, window.end),
+                isPriority: Number(schedule.priority) || 0,
+                eventTypeId: 1,
+                recurrenceType: 'Week',
+                recurrenceDetail: '1',
+                recurrenceRepeatsOn: (days.length ? days : [1, 2, 3, 4, 5, 6, 7]).join(','),
+                recurrenceRange: Number.isFinite(rangeEnd) ? rangeEnd : undefined,
+              }
+            : {
+                campaignId,
+                displayGroupIds: groups,
+                fromDt: toXiboDateTime(schedule.fromDt),
+                toDt: toXiboDateTime(schedule.toDt),
+                isPriority: Number(schedule.priority) || 0,
+                eventTypeId: 1,
+              };
+          if (groups.length === 0) {
+            skip(addSchedule, 'POST', '/schedule', params, `No display groups were given for ${orientation} layouts.`);
+            continue;
+          }
+          const { eventId } = await call(
+            addSchedule, 'POST', '/schedule', params,
+            (res) => (res.data?.eventId ? { eventId: res.data.eventId } : null),
+            { eventId: `<${orientation}.event${ti}.eventId>` },
+          );
+          summary.eventIds.push(eventId);
+        }
+      }
+
+      summary.success = true;
+    } catch (error) {
+      if (!(error instanceof DeployStepError)) {
+        const message = error instanceof Error ? error.message : String(error);
+        calls.push({ layoutFile: fileName, tool: 'read-layout-file', method: 'GET', endpoint: layoutFile, params: {}, status: 'failed', message });
+        logger.error({ layoutFile, error: message }, 'Failed to read layout file for deployment');
+      }
+    }
+  }
+
+  const success = layouts.length > 0 && layouts.every((l) => l.success);
+  const executed = calls.filter((c) => c.status === 'ok').length;
+  const message = dryRun
+    ? `Dry run: ${calls.filter((c) => c.status === 'planned').length} API calls planned for ${layouts.length} layouts.`
+    : success
+      ? `Deployed ${layouts.length} layouts with ${executed} API calls.`
+      : `Deployment stopped on errors after ${executed} successful API calls; objects already created were left in the CMS.`;
+  logger.info({ dryRun, success, layouts: layouts.length, calls: calls.length }, message);
+
+  return { dryRun, success, message, calls, layouts };
+}
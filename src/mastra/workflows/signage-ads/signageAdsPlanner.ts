@@ -12,6 +12,18 @@ import { logger } from '../../logger';
 import { summarizeAndAnalyzeTool } from '../../tools/market-research/summarizeAndAnalyze';
 import { config } from '../../tools/xibo-agent/config';
 import { parseJsonStrings } from '../../tools/xibo-agent/utility/jsonParser';
+import { deploySignagePlan, deploymentSchema } from './deployToCms';
+import { CMS_PROFILE_CONTEXT_KEY, getActiveCmsProfile, getCmsProfile, runWithCmsProfile } from '../../tools/xibo-agent/cmsProfiles';
+
+/** Workflow inputs read by the final deploy-to-cms step. */
+const deployOptionsSchema = z.object({
+  deployToCms: z.boolean().optional().default(false).describe('Create the planned layouts, campaigns and schedules in the CMS.'),
+  deployDryRun: z.boolean().optional().default(true).describe('With deployToCms, only report the API calls that would be made.'),
+  deployDisplayGroupIds: z.object({
+    landscape: z.array(z.number()).optional(),
+    portrait: z.array(z.number()).optional(),
+  }).optional().describe('Display groups to schedule each orientation on; scheduling is skipped when omitted.'),
+});
 
 /**
  * signageAdsPlannerWorkflow
@@ -19,6 +31,8 @@ import { parseJsonStrings } from '../../tools/xibo-agent/utility/jsonParser';
  * a product or service via DOOH/digital signage. The plan includes campaign goals,
  * audience, messages, creative/layered layout recommendations, durations, schedule,
  * variants, and an asset checklist. Outputs Markdown and optionally JSON.
+ * With `deployToCms`, the generated layout JSON is also built in the CMS (layouts, regions,
+ * widgets, mock media, campaigns, schedules); `deployDryRun` only reports the API calls.
  */
 export const signageAdsPlannerWorkflow = createWorkflow({
   id: 'signage-ads-planner-workflow',
@@ -30,7 +44,7 @@ export const signageAdsPlannerWorkflow = createWorkflow({
     savePlanMarkdown: z.boolean().optional().default(true),
     planJsonFileName: z.string().optional(),
     planMarkdownFileName: z.string().optional(),
-  }),
+  }).merge(deployOptionsSchema),
   outputSchema: z.object({
     success: z.literal(true),
     campaignBaseName: z.string(),
@@ -42,6 +56,7 @@ export const signageAdsPlannerWorkflow = createWorkflow({
     buildGuidePath: z.string().optional(),
     regionTimelinePaths: z.array(z.string()).optional(),
     scheduleChartPaths: z.array(z.string()).optional(),
+    deployment: deploymentSchema.optional(),
   }),
 })
 .then(createStep({
@@ -54,7 +69,7 @@ export const signageAdsPlannerWorkflow = createWorkflow({
     savePlanMarkdown: z.boolean().optional().default(true),
     planJsonFileName: z.string().optional(),
     planMarkdownFileName: z.string().optional(),
-  }),
+  }).merge(deployOptionsSchema),
   outputSchema: z.object({
     reportText: z.string(),
     campaignBaseName: z.string(),
@@ -1443,5 +1458,53 @@ dynamicSections + '\n\n' +
     };
   },
 }))
+.then(createStep({
+  id: 'deploy-to-cms',
+  // Overview: Opt-in. Build the generated layout JSON in the CMS using the Xibo tools,
+  // or with deployDryRun (the default) only report the API calls that would be made.
+  inputSchema: z.object({
+    success: z.literal(true),
+    campaignBaseName: z.string(),
+    planMarkdownPath: z.string().optional(),
+    planJsonPath: z.string().optional(),
+    planMarkdown: z.string(),
+    xiboLayoutPaths: z.array(z.string()).optional(),
+    mockImagePaths: z.array(z.string()).optional(),
+    buildGuidePath: z.string().optional(),
+    regionTimelinePaths: z.array(z.string()).optional(),
+    scheduleChartPaths: z.array(z.string()).optional(),
+  }),
+  outputSchema: z.object({
+    success: z.literal(true),
+    campaignBaseName: z.string(),
+    planMarkdownPath: z.string().optional(),
+    planJsonPath: z.string().optional(),
+    planMarkdown: z.string(),
+    xiboLayoutPaths: z.array(z.string()).optional(),
+    mockImagePaths: z.array(z.string()).optional(),
+    buildGuidePath: z.string().optional(),
+    regionTimelinePaths: z.array(z.string()).optional(),
+    scheduleChartPaths: z.array(z.string()).optional(),
+    deployment: deploymentSchema.optional(),
+  }),
+  execute: async ({ inputData, getInitData, runtimeContext }) => {
+    const init = deployOptionsSchema.parse(getInitData());
+    if (!init.deployToCms) {
+      return inputData;
+    }
+    // Deploy to the CMS profile selected for this thread, if any
+    const selectedProfile = runtimeContext?.get?.(CMS_PROFILE_CONTEXT_KEY) as string | undefined;
+    const profile = selectedProfile ? getCmsProfile(selectedProfile) : getActiveCmsProfile();
+    const deployment = await runWithCmsProfile(profile, () => deploySignagePlan({
+      xiboLayoutPaths: inputData.xiboLayoutPaths || [],
+      mockImagePaths: inputData.mockImagePaths || [],
+      campaignBaseName: inputData.campaignBaseName,
+      dryRun: init.deployDryRun,
+      displayGroupIds: init.deployDisplayGroupIds,
+      runtimeContext,
+    }));
+    return { ...inputData, deployment };
+  },
+}))
 .commit();
 
@@ -0,0 +1,44 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { afterAll, beforeAll } from 'vitest';
+import { startMockXiboServer, MockXiboServer } from '../../src/mastra/tools/xibo-agent/mock';
+import { reloadCmsProfiles } from '../../src/mastra/tools/xibo-agent/cmsProfiles';
+
+/**
+ * Starts a seeded mock CMS for the current test file and points the default CMS
+ * profile at it. Call at the top level of a test file.
+ */
+export function useMockCms(): { readonly server: MockXiboServer } {
+  const context = {} as { server: MockXiboServer };
+
+  beforeAll(async () => {
+    context.server = await startMockXiboServer();
+    process.env.CMS_URL = context.server.url;
+    process.env.XIBO_CLIENT_ID = 'mock-client';
+    process.env.XIBO_CLIENT_SECRET = 'mock-secret';
+    reloadCmsProfiles();
+  });
+
+  afterAll(async () => {
+    await context.server?.close();
+  });
+
+  return context;
+}
+
+/**
+ * Calls a tool the way the agent does, with an empty runtime context.
+ */
+export async function runTool(tool: { execute?: (...args: any[]) => any }, context: Record<string, unknown> = {}): Promise<any> {
+  return tool.execute!({ context, runtimeContext: new Map() });
+}
@@ -0,0 +1,31 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+/**
+ * Keeps test runs away from the developer's files: logs, the agent database and the
+ * policy files live in a temporary project root, and no CMS profiles file is read.
+ * Runs before the tools (and their config) are imported.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'xibo-agent-test-'));
+
+process.env.XIBO_PROJECT_ROOT = root;
+process.env.XIBO_AUDIT_DB_URL = `file:${path.join(root, 'agent.db')}`;
+process.env.XIBO_UPLOAD_DIR = path.join(root, 'uploads');
+process.env.XIBO_CMS_PROFILES_FILE = path.join(root, 'cms-profiles.json');
+process.env.XIBO_SAFE_MODE_FILE = path.join(root, 'safe-mode.json');
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+delete process.env.CMS_URL;
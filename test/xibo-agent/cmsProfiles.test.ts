@@ -0,0 +1,75 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { startMockXiboServer, MockXiboServer } from '../../src/mastra/tools/xibo-agent/mock';
+import { CMS_PROFILE_CONTEXT_KEY, getCmsProfile, reloadCmsProfiles, withCmsProfile } from '../../src/mastra/tools/xibo-agent/cmsProfiles';
+import { getXiboClient } from '../../src/mastra/tools/xibo-agent/xiboClient';
+import { getDisplays } from '../../src/mastra/tools/xibo-agent/display/getDisplays';
+
+const mock = useMockCms();
+
+const STAGING_ENV_KEYS = ['XIBO_PROFILE_STAGING_CMS_URL', 'XIBO_PROFILE_STAGING_CLIENT_ID', 'XIBO_PROFILE_STAGING_CLIENT_SECRET'];
+
+describe('CMS profiles', () => {
+  let staging: MockXiboServer;
+  const tool = withCmsProfile(getDisplays);
+  const displayNames = (result: any): string[] => result.data.map((d: any) => d.display);
+
+  beforeAll(async () => {
+    staging = await startMockXiboServer({ clientId: 'staging-client', clientSecret: 'staging-secret' });
+    staging.state.addDisplay({ display: 'Staging Screen' });
+    process.env.XIBO_PROFILE_STAGING_CMS_URL = staging.url;
+    process.env.XIBO_PROFILE_STAGING_CLIENT_ID = 'staging-client';
+    process.env.XIBO_PROFILE_STAGING_CLIENT_SECRET = 'staging-secret';
+    reloadCmsProfiles();
+  });
+
+  afterAll(async () => {
+    STAGING_ENV_KEYS.forEach((key) => delete process.env[key]);
+    reloadCmsProfiles();
+    await staging?.close();
+  });
+
+  it('runs a tool against the profile of its input or of the thread', async () => {
+    expect(displayNames(await runTool(tool, {}))).not.toContain('Staging Screen');
+    expect(displayNames(await runTool(tool, { cmsProfile: 'staging' }))).toContain('Staging Screen');
+
+    const runtimeContext = new RuntimeContext();
+    runtimeContext.set(CMS_PROFILE_CONTEXT_KEY, 'staging');
+    expect(displayNames(await tool.execute!({ context: {}, runtimeContext }))).toContain('Staging Screen');
+  });
+
+  it('keeps a separate client and access token per profile', async () => {
+    const defaultClient = getXiboClient(getCmsProfile('default'));
+    const stagingClient = getXiboClient(getCmsProfile('staging'));
+    expect(stagingClient).not.toBe(defaultClient);
+    expect(getXiboClient(getCmsProfile('staging'))).toBe(stagingClient);
+
+    // Each mock CMS only accepts its own credentials and tokens
+    const defaultToken = await defaultClient.getAccessToken();
+    const stagingToken = await stagingClient.getAccessToken();
+    expect(stagingToken).not.toBe(defaultToken);
+    await expect(stagingClient.getAccessToken()).resolves.toBe(stagingToken);
+    expect(staging.requests.filter((r) => r.path === '/authorize/access_token').map((r) => r.body.client_id)).toEqual(['staging-client']);
+    expect(mock.server.requests.some((r) => r.body.client_id === 'staging-client')).toBe(false);
+  });
+
+  it('refuses an unknown profile', async () => {
+    await expect(runTool(tool, { cmsProfile: 'production' })).resolves.toMatchObject({
+      success: false,
+      message: expect.stringMatching(/Unknown CMS profile "production"/),
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { getLibrary } from '../../src/mastra/tools/xibo-agent/library/getLibrary';
+import { getDataSets } from '../../src/mastra/tools/xibo-agent/dataset/getDataSets';
+import { addDataSet } from '../../src/mastra/tools/xibo-agent/dataset/addDataSet';
+import { addDataSetColumn } from '../../src/mastra/tools/xibo-agent/dataset/addDataSetColumn';
+import { addDataSetData } from '../../src/mastra/tools/xibo-agent/dataset/addDataSetData';
+import { getDataSetData } from '../../src/mastra/tools/xibo-agent/dataset/getDataSetData';
+import { getCampaigns } from '../../src/mastra/tools/xibo-agent/campaign/getCampaigns';
+import { addCampaign } from '../../src/mastra/tools/xibo-agent/campaign/addCampaign';
+import { addSchedule } from '../../src/mastra/tools/xibo-agent/schedule/addSchedule';
+import { getSchedule } from '../../src/mastra/tools/xibo-agent/schedule/getSchedule';
+import { getStats } from '../../src/mastra/tools/xibo-agent/statistics/getStats';
+import { getAuditTrail } from '../../src/mastra/tools/xibo-agent/audit/getAuditTrail';
+import { runWithAuditContext } from '../../src/mastra/tools/xibo-agent/auditLog';
+import { addMedia } from '../../src/mastra/tools/xibo-agent/library/addMedia';
+import { config } from '../../src/mastra/tools/xibo-agent/config';
+
+const mock = useMockCms();
+
+describe('library', () => {
+  it('lists and filters media', async () => {
+    const all = await runTool(getLibrary);
+    expect(all.success).toBe(true);
+    expect(all.data.map((m: any) => m.name).sort()).toEqual(['logo.png', 'promo.mp4']);
+
+    const videos = await runTool(getLibrary, { type: 'video' });
+    expect(videos.data).toHaveLength(1);
+    expect(videos.data[0]).toMatchObject({ name: 'promo.mp4', mediaType: 'video' });
+  });
+});
+
+describe('datasets', () => {
+  it('creates a dataset with a column and a row', async () => {
+    const created = await runTool(addDataSet, { dataSet: 'Prices', code: 'prices' });
+    expect(created.success).toBe(true);
+    const { dataSetId } = created.data;
+
+    const column = await runTool(addDataSetColumn, {
+      dataSetId, heading: 'Item', dataTypeId: 1, columnOrder: 1, showFilter: 0, showSort: 0, dataSetColumnTypeId: 1,
+    });
+    expect(column.success).toBe(true);
+
+    const row = await runTool(addDataSetData, { dataSetId, rowData: [{ columnId: column.data.dataSetColumnId, value: 'Soup' }] });
+    expect(row.success).toBe(true);
+
+    const rows = await runTool(getDataSetData, { dataSetId });
+    expect(rows.success).toBe(true);
+    expect(rows.data).toEqual([expect.objectContaining({ Item: 'Soup' })]);
+
+    const found = await runTool(getDataSets, { code: 'prices' });
+    expect(found.success).toBe(true);
+    expect(found.data.map((d: any) => d.dataSetId)).toEqual([dataSetId]);
+  });
+});
+
+describe('campaigns and schedule', () => {
+  it('schedules a new campaign on a display group', async () => {
+    const layout = [...mock.server.state.layouts.values()].find((l) => l.layout === 'Welcome')!;
+    const group = [...mock.server.state.displayGroups.values()].find((g) => g.displayGroup === 'All Screens')!;
+
+    const campaign = await runTool(addCampaign, { name: 'Summer Campaign', type: 'list', layoutIds: [layout.layoutId] });
+    expect(campaign.success).toBe(true);
+
+    const campaigns = await runTool(getCampaigns, { name: 'Summer' });
+    expect(campaigns.success).toBe(true);
+    expect(campaigns.data).toEqual([expect.objectContaining({ campaign: 'Summer Campaign', numberLayouts: 1 })]);
+
+    const event = await runTool(addSchedule, {
+      campaignId: campaign.data.campaignId,
+      displayGroupIds: [group.displayGroupId],
+      fromDt: '2025-07-01 00:00:00',
+      toDt: '2025-07-31 23:59:59',
+    });
+    expect(event.success).toBe(true);
+    expect(event.data.displayGroups).toEqual([expect.objectContaining({ displayGroupId: group.displayGroupId })]);
+
+    const events = await runTool(getSchedule, { campaignId: campaign.data.campaignId });
+    expect(events.success).toBe(true);
+    expect(events.data.map((e: any) => e.eventId)).toEqual([event.data.eventId]);
+  });
+});
+
+describe('statistics', () => {
+  it('filters proof of play records by display', async () => {
+    const lobby = [...mock.server.state.displays.values()].find((d) => d.display === 'Lobby Screen')!;
+    const result = await runTool(getStats, { type: 'Layout', displayId: lobby.displayId });
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([expect.objectContaining({ display: 'Lobby Screen', numberPlays: 12 })]);
+  });
+});
+
+describe('audit log', () => {
+  it('records mutations made against the mock CMS', async () => {
+    await runWithAuditContext({ toolId: 'add-data-set', input: { dataSet: 'Audited' } }, () =>
+      runTool(addDataSet, { dataSet: 'Audited' })
+    );
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const trail = await runTool(getAuditTrail, { toolId: 'add-data-set' });
+    expect(trail.success).toBe(true);
+    expect(trail.data.entries[0]).toMatchObject({ method: 'POST', endpoint: '/dataset', status: 201, cmsProfile: 'default' });
+  });
+
+  it('records file uploads with their form fields', async () => {
+    fs.mkdirSync(config.uploadDir, { recursive: true });
+    fs.writeFileSync(path.join(config.uploadDir, 'audited.png'), 'audited');
+    const upload = await runWithAuditContext({ toolId: 'add-media', input: { fileName: 'audited.png' } }, () =>
+      runTool(addMedia, { fileName: 'audited.png', filePath: path.relative(config.projectRoot, config.uploadDir), tags: 'audit' })
+    );
+    expect(upload.success).toBe(true);
+    expect([...mock.server.state.media.values()].some((m) => m.name === 'audited.png')).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const trail = await runTool(getAuditTrail, { toolId: 'add-media' });
+    expect(trail.data.entries[0]).toMatchObject({ method: 'POST', endpoint: '/library', status: 200 });
+  });
+});
@@ -0,0 +1,106 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { afterAll, describe, expect, it } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { getFleetHealth } from '../../src/mastra/tools/xibo-agent/fleet/getFleetHealth';
+import {
+  detectDisplayProblems,
+  registerFleetAlertChannel,
+  unregisterFleetAlertChannel,
+  type FleetAlert,
+} from '../../src/mastra/tools/xibo-agent/fleetMonitor';
+
+const mock = useMockCms();
+
+describe('detectDisplayProblems', () => {
+  const healthy = { loggedIn: 1, licensed: 1, mediaInventoryStatus: 1 };
+
+  it('reports nothing for a healthy display', () => {
+    expect([...detectDisplayProblems(healthy).keys()]).toEqual([]);
+  });
+
+  it('only checks the media inventory of online displays', () => {
+    expect([...detectDisplayProblems({ ...healthy, mediaInventoryStatus: 3 }).keys()]).toEqual(['mediaInventory']);
+    expect([...detectDisplayProblems({ ...healthy, loggedIn: 0, mediaInventoryStatus: 3 }).keys()]).toEqual(['offline']);
+  });
+
+  it('parses storage sizes against the threshold', () => {
+    const display = { ...healthy, storageTotalSpace: '10 GiB', storageAvailableSpace: '512 MiB' };
+    expect(detectDisplayProblems(display, 90).get('storage')).toMatch(/95% used/);
+    expect(detectDisplayProblems(display, 99).has('storage')).toBe(false);
+  });
+});
+
+describe('fleet health check', () => {
+  const alerts: FleetAlert[] = [];
+  registerFleetAlertChannel('test', async (alert) => { alerts.push(alert); });
+  afterAll(() => unregisterFleetAlertChannel('test'));
+
+  const display = (name: string) => [...mock.server.state.displays.values()].find((d) => d.display === name)!;
+  const entrance = () => display('Entrance Screen');
+  const lobby = () => display('Lobby Screen');
+
+  it('records the problems of the first check without alerting', async () => {
+    const result = await runTool(getFleetHealth, { refresh: true });
+    expect(result.success).toBe(true);
+    expect(result.data.counts.offline).toBe(1);
+    expect(result.data.problems).toEqual([
+      expect.objectContaining({ displayId: entrance().displayId, problem: 'offline' }),
+    ]);
+    expect(alerts).toEqual([]);
+    expect([...mock.server.state.notifications.values()]).toEqual([]);
+  });
+
+  it('raises a problem for a display that goes offline', async () => {
+    lobby().loggedIn = 0;
+    await runTool(getFleetHealth, { refresh: true });
+    expect(alerts).toEqual([expect.objectContaining({ display: 'Lobby Screen', problem: 'offline', transition: 'raised' })]);
+    expect([...mock.server.state.notifications.values()]).toEqual([
+      expect.objectContaining({ subject: '[Fleet] Lobby Screen: offline' }),
+    ]);
+  });
+
+  it('does not alert again while the problem persists', async () => {
+    await runTool(getFleetHealth, { refresh: true });
+    expect(alerts).toHaveLength(1);
+  });
+
+  it('resolves the problem once the display reports in', async () => {
+    entrance().loggedIn = 1;
+    const result = await runTool(getFleetHealth, { refresh: true });
+    expect(result.data.problems).toEqual([expect.objectContaining({ display: 'Lobby Screen', problem: 'offline' })]);
+    expect(result.data.recentEvents[0]).toMatchObject({ display: 'Entrance Screen', problem: 'offline', transition: 'resolved' });
+    expect(alerts.map((a) => a.transition)).toEqual(['raised', 'resolved']);
+  });
+
+  it('keeps a media inventory problem open while the display is offline', async () => {
+    Object.assign(lobby(), { loggedIn: 1, mediaInventoryStatus: 3 });
+    await runTool(getFleetHealth, { refresh: true });
+    lobby().loggedIn = 0;
+    await runTool(getFleetHealth, { refresh: true });
+    Object.assign(lobby(), { loggedIn: 1, mediaInventoryStatus: 1 });
+    await runTool(getFleetHealth, { refresh: true });
+    expect(alerts.slice(2).map((a) => `${a.problem} ${a.transition}`)).toEqual([
+      'mediaInventory raised', 'offline resolved',
+      'offline raised',
+      'mediaInventory resolved', 'offline resolved',
+    ]);
+  });
+
+  it('filters by problem type', async () => {
+    Object.assign(entrance(), { storageTotalSpace: '8 GiB', storageAvailableSpace: '100 MiB' });
+    const result = await runTool(getFleetHealth, { refresh: true, problem: 'offline' });
+    expect(result.data.counts.storage).toBe(1);
+    expect(result.data.problems).toEqual([]);
+  });
+});
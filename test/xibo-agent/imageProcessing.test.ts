@@ -0,0 +1,63 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { useMockCms } from '../helpers/mockCms';
+import { detectImageFormat, planImageFit, resolveImageFit } from '../../src/mastra/tools/xibo-agent/utility/imageProcessing';
+
+const mock = useMockCms();
+
+describe('planImageFit', () => {
+  const square = { width: 1024, height: 1024 };
+
+  it('crops around the centre or the focal point, kept inside the image', () => {
+    expect(planImageFit(square, { width: 1920, height: 1080 }))
+      .toEqual({ sx: 0, sy: 224, sw: 1024, sh: 576, dx: 0, dy: 0, dw: 1920, dh: 1080 });
+    expect(planImageFit(square, { width: 1920, height: 1080, focus: { x: 0.5, y: 0.1 } }))
+      .toMatchObject({ sx: 0, sy: 0, sh: 576 });
+    expect(planImageFit(square, { width: 1080, height: 1920, focus: { x: 0.7, y: 0.5 } }))
+      .toMatchObject({ sx: 429, sy: 0, sw: 576, sh: 1024 });
+    expect(planImageFit(square, { width: 1080, height: 1920, focus: { x: 1, y: 0.5 } }))
+      .toMatchObject({ sx: 448, sw: 576 });
+  });
+
+  it('letterboxes or stretches the whole image', () => {
+    expect(planImageFit(square, { width: 1920, height: 1080, fit: 'contain' }))
+      .toEqual({ sx: 0, sy: 0, sw: 1024, sh: 1024, dx: 420, dy: 0, dw: 1080, dh: 1080 });
+    expect(planImageFit({ width: 1280, height: 720 }, { width: 1080, height: 1920, fit: 'contain' }))
+      .toMatchObject({ dx: 0, dy: 656, dw: 1080, dh: 608 });
+    expect(planImageFit(square, { width: 1920, height: 1080, fit: 'stretch' }))
+      .toEqual({ sx: 0, sy: 0, sw: 1024, sh: 1024, dx: 0, dy: 0, dw: 1920, dh: 1080 });
+  });
+});
+
+describe('detectImageFormat', () => {
+  it('tells the format from the first bytes', () => {
+    expect(detectImageFormat(Buffer.from('89504e470d0a1a0a0000000d', 'hex'))).toBe('png');
+    expect(detectImageFormat(Buffer.from('ffd8ffe000104a46', 'hex'))).toBe('jpeg');
+    expect(detectImageFormat(Buffer.from('GIF89a'))).toBe('gif');
+    expect(detectImageFormat(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('webp');
+    expect(detectImageFormat(Buffer.from('%PDF-1.7'))).toBeNull();
+  });
+});
+
+describe('resolveImageFit', () => {
+  it('reads the size of a resolution from the CMS', async () => {
+    const portrait = mock.server.state.addResolution({ resolution: 'Full HD Portrait', width: 1080, height: 1920 });
+    await expect(resolveImageFit({ resolutionId: portrait.resolutionId, fit: 'contain', background: '#FFFFFF' }))
+      .resolves.toEqual({ width: 1080, height: 1920, fit: 'contain', focus: undefined, background: '#FFFFFF', resolution: 'Full HD Portrait' });
+    await expect(resolveImageFit({ width: 640, height: 480, focusY: 0.2 }))
+      .resolves.toMatchObject({ width: 640, height: 480, fit: 'cover', focus: { x: 0.5, y: 0.2 } });
+    await expect(resolveImageFit({ resolutionId: 999999 })).rejects.toThrow(/does not exist/);
+    await expect(resolveImageFit({ width: 640 })).rejects.toThrow(/both width and height/);
+  });
+});
@@ -0,0 +1,89 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { exportLayoutBundle } from '../../src/mastra/tools/xibo-agent/layout/exportLayoutBundle';
+import { importLayoutBundle } from '../../src/mastra/tools/xibo-agent/layout/importLayoutBundle';
+
+const mock = useMockCms();
+
+const widgetOption = (widget: any, option: string) =>
+  widget.widgetOptions.find((o: any) => o.option === option)?.value;
+
+const widgetsOf = (layout: any) => layout.regions.flatMap((r: any) => r.regionPlaylist.widgets);
+
+describe('layout bundles', () => {
+  const content = Buffer.from('spring banner image');
+  let source: { mediaId: number; dataSetId: number; menuId: number };
+  let target: { dataSetId: number; menuId: number };
+  let importedMediaId: number;
+
+  it('exports a layout with its media, DataSet and menu board references', async () => {
+    const { state } = mock.server;
+    const media = state.addMedia({ name: 'Spring Banner', fileName: 'spring.png', md5: crypto.createHash('md5').update(content).digest('hex') }, content);
+    const dataSet = state.addDataSet({ dataSet: 'Bundle Prices' });
+    const menuBoard = state.addMenuBoard({ name: 'Bundle Lunch' });
+    source = { mediaId: media.mediaId, dataSetId: dataSet.dataSetId, menuId: menuBoard.menuId };
+
+    const { draft } = state.addLayout({ layout: 'Bundle Source' });
+    const playlist = draft.regions[0].regionPlaylist;
+    state.addWidget(playlist, 'image', { mediaIds: [media.mediaId] }, { name: 'Banner' });
+    state.addWidget(playlist, 'dataset', {}, { dataSetId: dataSet.dataSetId });
+    state.addWidget(playlist, 'menuboard-category', {}, { menuId: menuBoard.menuId });
+    const published = state.publishLayout(draft.parentId)!;
+
+    const result = await runTool(exportLayoutBundle, { layoutId: published.layoutId, bundleName: 'round-trip' });
+    expect(result).toMatchObject({ success: true, data: { widgets: 3, media: 1, dataSets: 1, menuBoards: 1 } });
+  });
+
+  it('imports the bundle on a CMS with other IDs and remaps every reference', async () => {
+    // Make the CMS look like another one: the same names under new IDs, and no copy of the media
+    const { state } = mock.server;
+    state.media.delete(source.mediaId);
+    state.dataSets.delete(source.dataSetId);
+    state.menuBoards.delete(source.menuId);
+    state.addResolution({ width: 1920, height: 1080 });
+    target = {
+      dataSetId: state.addDataSet({ dataSet: 'Bundle Prices' }).dataSetId,
+      menuId: state.addMenuBoard({ name: 'Bundle Lunch' }).menuId,
+    };
+
+    const result = await runTool(importLayoutBundle, { bundleName: 'round-trip', name: 'Bundle Copy', publish: true, reuseExistingMedia: true });
+    expect(result.success).toBe(true);
+    expect(result.data.warnings).toEqual([]);
+    importedMediaId = result.data.idMap.media[source.mediaId];
+    expect(importedMediaId).not.toBe(source.mediaId);
+    expect(state.media.get(importedMediaId)).toMatchObject({ name: 'Spring Banner', content });
+    expect(result.data.idMap).toMatchObject({
+      dataSets: { [source.dataSetId]: target.dataSetId },
+      menuBoards: { [source.menuId]: target.menuId },
+    });
+
+    // Publishing replaces the layout with its draft
+    const imported = state.layouts.get(result.data.draftLayoutId)!;
+    expect(imported).toMatchObject({ layout: 'Bundle Copy', parentId: null, publishedStatusId: 1 });
+    const [image, dataSet, menuBoard] = widgetsOf(imported);
+    expect(image).toMatchObject({ type: 'image', mediaIds: [importedMediaId] });
+    expect(Number(widgetOption(dataSet, 'dataSetId'))).toBe(target.dataSetId);
+    expect(Number(widgetOption(menuBoard, 'menuId'))).toBe(target.menuId);
+  });
+
+  it('reuses library media with the same name and MD5 instead of uploading it again', async () => {
+    const mediaCount = mock.server.state.media.size;
+    const result = await runTool(importLayoutBundle, { bundleName: 'round-trip', name: 'Bundle Second Copy', publish: false, reuseExistingMedia: true });
+    expect(result.success).toBe(true);
+    expect(result.data.idMap.media[source.mediaId]).toBe(importedMediaId);
+    expect(mock.server.state.media.size).toBe(mediaCount);
+  });
+});
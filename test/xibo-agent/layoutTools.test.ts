@@ -0,0 +1,146 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { addLayout } from '../../src/mastra/tools/xibo-agent/layout/addLayout';
+import { getLayouts } from '../../src/mastra/tools/xibo-agent/layout/getLayouts';
+import { addRegion } from '../../src/mastra/tools/xibo-agent/layout/addRegion';
+import { publishLayout } from '../../src/mastra/tools/xibo-agent/layout/publishLayout';
+import { checkoutLayout } from '../../src/mastra/tools/xibo-agent/layout/checkoutLayout';
+import { discardLayout } from '../../src/mastra/tools/xibo-agent/layout/discardLayout';
+import { addWidget } from '../../src/mastra/tools/xibo-agent/widget/addWidget';
+import { editWidget } from '../../src/mastra/tools/xibo-agent/widget/editWidget';
+import { editLayout } from '../../src/mastra/tools/xibo-agent/layout/editLayout';
+import { editRegion } from '../../src/mastra/tools/xibo-agent/layout/editRegion';
+import { withChangeSnapshot, listChangeRecords, revertChangeRecord } from '../../src/mastra/tools/xibo-agent/changeHistory';
+
+const mock = useMockCms();
+
+const widgetOption = (widget: any, option: string) =>
+  widget.widgetOptions.find((o: any) => o.option === option)?.value;
+
+describe('layout editing', () => {
+  let parentId: number;
+  let widgetId: number;
+
+  it('creates a layout with a draft', async () => {
+    const layout = await runTool(addLayout, { name: 'Lunch Menu' });
+    expect(layout).toMatchObject({ layout: 'Lunch Menu', parentId: null, publishedStatusId: 2 });
+    parentId = layout.layoutId;
+
+    const drafts = await runTool(getLayouts, { parentId });
+    expect(drafts.success).toBe(true);
+    expect(drafts.data).toHaveLength(1);
+    expect(drafts.data[0].regions).toHaveLength(1);
+  });
+
+  it('adds a region and a widget to the draft', async () => {
+    const draft = mock.server.state.findDraft(parentId)!;
+
+    const region = await runTool(addRegion, { id: draft.layoutId, type: 'frame', width: 960, height: 540, top: 0, left: 0 });
+    expect(region.success).toBe(true);
+    expect(region.data.regionPlaylist.widgets).toEqual([]);
+
+    const added = await runTool(addWidget, { type: 'text', playlistId: region.data.regionPlaylist.playlistId });
+    expect(added).toMatchObject({ success: true, widgetId: expect.any(Number) });
+    widgetId = added.widgetId;
+
+    const edited = await runTool(editWidget, { widgetId, duration: 20, useDuration: 1, properties: { text: 'Curry 800 yen' } });
+    expect(edited.success).toBe(true);
+    const { widget } = mock.server.state.findWidget(widgetId)!;
+    expect(widget.duration).toBe(20);
+    expect(widgetOption(widget, 'text')).toBe('Curry 800 yen');
+  });
+
+  it('publishes the draft in place of the parent', async () => {
+    const draftId = mock.server.state.findDraft(parentId)!.layoutId;
+    const result = await runTool(publishLayout, { layoutId: parentId, publishNow: 1 });
+    expect(result.success).not.toBe(false);
+
+    const layouts = await runTool(getLayouts, { layout: 'Lunch Menu' });
+    expect(layouts.data).toHaveLength(1);
+    expect(layouts.data[0]).toMatchObject({ layoutId: draftId, parentId: null, publishedStatusId: 1 });
+    expect(layouts.data[0].regions).toHaveLength(2);
+    parentId = draftId;
+  });
+
+  it('refuses edits to a published layout until it is checked out', async () => {
+    const refused = await runTool(addRegion, { id: parentId, type: 'frame', width: 100, height: 100, top: 0, left: 0 });
+    expect(refused.success).toBe(false);
+
+    const draft = await runTool(checkoutLayout, { layoutId: parentId });
+    expect(draft.success).not.toBe(false);
+    expect(mock.server.state.findDraft(parentId)).toBeDefined();
+
+    const discarded = await runTool(discardLayout, { layoutId: parentId });
+    expect(discarded.success).not.toBe(false);
+    expect(mock.server.state.findDraft(parentId)).toBeUndefined();
+  });
+});
+
+describe('change history', () => {
+  it('reverts a widget edit on a published layout', async () => {
+    const { draft } = mock.server.state.addLayout({ layout: 'Revert Test' });
+    mock.server.state.addWidget(draft.regions[0].regionPlaylist, 'text', {}, { text: 'before' });
+    const published = mock.server.state.publishLayout(draft.parentId)!;
+    mock.server.state.checkoutLayout(published);
+    const draftWidget = mock.server.state.findDraft(published.layoutId)!.regions[0].regionPlaylist.widgets[0];
+
+    const tracked = withChangeSnapshot(editWidget);
+    const edited = await runTool(tracked, { widgetId: draftWidget.widgetId, properties: { text: 'after' } });
+    expect(edited.success).toBe(true);
+    await runTool(publishLayout, { layoutId: published.layoutId, publishNow: 1 });
+
+    const [change] = await listChangeRecords({ entityType: 'widget', limit: 1 });
+    expect(change.snapshot.entityId).toBe(draftWidget.widgetId);
+
+    await revertChangeRecord(change.changeId, { publish: true, revertedBy: 'tester' });
+
+    const current = [...mock.server.state.layouts.values()].find((l) => l.layout === 'Revert Test' && !l.parentId)!;
+    expect(current.publishedStatusId).toBe(1);
+    expect(widgetOption(current.regions[0].regionPlaylist.widgets[0], 'text')).toBe('before');
+  });
+
+  it('reverts a region edit on the draft it was made on', async () => {
+    const { draft } = mock.server.state.addLayout({ layout: 'Region Revert' });
+    const region = draft.regions[0];
+    const before = { width: region.width, height: region.height };
+
+    const tracked = withChangeSnapshot(editRegion);
+    const edited = await runTool(tracked, { regionId: region.regionId, name: 'Banner', type: 'zone', width: 640, height: 200, top: 0, left: 0, zIndex: 1, loop: 0 });
+    expect(edited.success).toBe(true);
+    expect(region.width).toBe(640);
+
+    const [change] = await listChangeRecords({ entityType: 'region', limit: 1 });
+    expect(change.snapshot.location).toMatchObject({ layoutId: draft.layoutId, regionIndex: 0 });
+
+    await revertChangeRecord(change.changeId, { revertedBy: 'tester' });
+    expect(mock.server.state.findRegion(region.regionId)!.region).toMatchObject(before);
+  });
+
+  it('reverts a layout edit', async () => {
+    const { draft } = mock.server.state.addLayout({ layout: 'Breakfast Menu', description: 'Mornings' });
+    const layout = mock.server.state.publishLayout(draft.parentId)!;
+
+    const tracked = withChangeSnapshot(editLayout);
+    const edited = await runTool(tracked, { layoutId: layout.layoutId, name: 'Brunch Menu', description: 'Weekends', includeTree: false });
+    expect(edited).toMatchObject({ layout: 'Brunch Menu' });
+    expect(layout.layout).toBe('Brunch Menu');
+
+    const [change] = await listChangeRecords({ entityType: 'layout', limit: 1 });
+    expect(change.snapshot.entityId).toBe(layout.layoutId);
+
+    await revertChangeRecord(change.changeId, { revertedBy: 'tester' });
+    expect(layout).toMatchObject({ layout: 'Breakfast Menu', description: 'Mornings' });
+  });
+});
@@ -0,0 +1,166 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { checkBudgets, groupNearDuplicates, libraryBudgetSchema } from '../../src/mastra/tools/xibo-agent/libraryAudit';
+import { differenceHashFromPixels, hashDistance } from '../../src/mastra/tools/xibo-agent/utility/imageProcessing';
+import { auditLibrary } from '../../src/mastra/tools/xibo-agent/library/auditLibrary';
+import { planLibraryCleanup } from '../../src/mastra/tools/xibo-agent/library/planLibraryCleanup';
+import { applyLibraryCleanup } from '../../src/mastra/tools/xibo-agent/library/applyLibraryCleanup';
+
+const mock = useMockCms();
+
+const MB = 1024 * 1024;
+
+describe('library audit helpers', () => {
+  it('hashes brightness gradients and measures hash distance', () => {
+    // 9x8 RGBA pixels getting darker to the right: every bit is set.
+    const pixels = Array.from({ length: 72 }, (_, i) => { const v = 255 - (i % 9) * 20; return [v, v, v, 255]; }).flat();
+    expect(differenceHashFromPixels(pixels)).toBe('ffffffffffffffff');
+    expect(hashDistance('ffffffffffffffff', 'fffffffffffffff0')).toBe(4);
+    expect(hashDistance('0123456789abcdef', '0123456789abcdef')).toBe(0);
+  });
+
+  it('groups near duplicates transitively and compares one copy of exact duplicates', () => {
+    const groups = groupNearDuplicates([
+      { mediaId: 1, hash: 'ffffffffffffffff' },
+      { mediaId: 2, hash: 'fffffffffffffff7' },
+      { mediaId: 3, hash: 'fffffffffffff777' },
+      { mediaId: 4, hash: '0000000000000000' },
+      { mediaId: 5, hash: 'ffffffffffffffff', md5: 'a' },
+      { mediaId: 6, hash: 'ffffffffffffffff', md5: 'a' },
+    ], 3);
+    expect(groups).toEqual([{ mediaIds: [1, 2, 3, 5], distance: 3 }]);
+  });
+
+  it('checks file size and resolution budgets regardless of orientation', () => {
+    const budgets = libraryBudgetSchema.parse({});
+    expect(checkBudgets({ mediaType: 'image', fileSize: 12 * MB, width: 2160, height: 3840 }, budgets)).toEqual(['12.0 MB is over the 10 MB image budget']);
+    expect(checkBudgets({ mediaType: 'image', fileSize: MB, width: 7680, height: 4320 }, budgets)).toEqual(['7680x4320 is over 3840x2160']);
+    expect(checkBudgets({ mediaType: 'video', fileSize: 400 * MB }, budgets)).toEqual([]);
+  });
+});
+
+describe('library cleanup', () => {
+  const ids: Record<string, number> = {};
+  const media = (name: string) => mock.server.state.media.get(ids[name]);
+
+  beforeAll(() => {
+    const { state } = mock.server;
+    const find = (name: string) => [...state.media.values()].find((m) => m.name === name)!;
+    ids.logo = find('logo.png').mediaId;
+    ids.promo = find('promo.mp4').mediaId;
+    find('logo.png').md5 = 'md5-logo';
+
+    ids.copy = state.addMedia({ name: 'logo-copy.png', md5: 'md5-logo', fileSize: 2048, createdDt: '2024-01-01 00:00:00' }).mediaId;
+    ids.old = state.addMedia({ name: 'old-sale.png', md5: 'md5-old', fileSize: 4096, createdDt: '2024-01-01 00:00:00' }).mediaId;
+    ids.poster = state.addMedia({ name: 'poster.png', md5: 'md5-poster', fileSize: MB, width: 7680, height: 4320 }).mediaId;
+    ids.movie = state.addMedia({ name: 'movie.mp4', mediaType: 'video', md5: 'md5-movie', fileSize: 600 * MB }).mediaId;
+    ids.font = state.addMedia({ name: 'brand.ttf', mediaType: 'font', md5: 'md5-font', fileSize: 1024, createdDt: '2024-01-01 00:00:00' }).mediaId;
+
+    const playlist = state.addPlaylist({ name: 'Posters' });
+    state.addWidget(playlist, 'image', { mediaIds: [ids.poster] });
+    state.addWidget(playlist, 'video', { mediaIds: [ids.movie] });
+
+    // The seeded schedule of the Welcome layout has ended; the campaign showing it runs on.
+    const campaign = [...state.campaigns.values()].find((c) => c.campaign === 'Spring Campaign')!;
+    const group = [...state.displayGroups.values()].find((g) => g.displayGroup === 'All Screens')!;
+    const now = Math.floor(Date.now() / 1000);
+    state.addSchedule({ campaignId: campaign.campaignId, fromDt: now - 86400, toDt: now + 86400 * 30 }, [group.displayGroupId]);
+  });
+
+  it('reports unused, unscheduled, duplicate and oversized media with a suggested plan', async () => {
+    const audit = await runTool(auditLibrary, { minAgeDays: 30, nearDuplicates: true, maxHashDistance: 6 });
+    expect(audit.success).toBe(true);
+    const { data } = audit;
+
+    expect(data.unused.map((m: any) => m.name).sort()).toEqual(['logo-copy.png', 'old-sale.png', 'promo.mp4']);
+    expect(data.unscheduled.map((m: any) => [m.name, m.playlists.length])).toEqual([['poster.png', 1], ['movie.mp4', 1]]);
+    expect(data.duplicates).toEqual([{ md5: 'md5-logo', fileSize: 8, keepMediaId: ids.logo, mediaIds: [ids.logo, ids.copy] }]);
+    expect(data.oversized.map((m: any) => [m.name, m.reasons.length])).toEqual([['poster.png', 1], ['movie.mp4', 1]]);
+    expect(data.warnings.some((w: string) => /Near duplicates were not searched|thumbnail/.test(w))).toBe(true);
+
+    // The recent promo is reported but not retired; the font is not audited.
+    expect(data.actions.map((a: any) => [a.name, a.action, a.tags ?? null])).toEqual([
+      ['logo-copy.png', 'delete', null],
+      ['old-sale.png', 'retire', null],
+      ['poster.png', 'tag', ['oversized']],
+      ['movie.mp4', 'tag', ['oversized']],
+    ]);
+    expect(data.actionTable).toContain(`| ${ids.copy} | logo-copy.png | delete |  | Exact copy of media ${ids.logo} |`);
+
+    const applied = await runTool(applyLibraryCleanup, { planId: data.planId, excludeMediaIds: [ids.movie] });
+    expect(applied.message).toBe('3 actions done, 0 skipped, 0 failed.');
+    expect(media('copy')).toBeUndefined();
+    expect(media('old')).toMatchObject({ retired: 1 });
+    expect(media('poster')!.tags.map((t: any) => t.tag)).toEqual(['oversized']);
+    expect(media('movie')!.tags).toEqual([]);
+
+    const again = await runTool(applyLibraryCleanup, { planId: data.planId });
+    expect(again.message).toMatch(/does not exist or has expired/);
+  });
+
+  it('refuses to delete used media and skips media changed after planning', async () => {
+    const refused = await runTool(planLibraryCleanup, { actions: [{ mediaId: ids.logo, action: 'delete' }, { mediaId: ids.promo, action: 'tag' }] });
+    expect(refused.data.issues).toEqual([
+      `Media ${ids.logo} (logo.png) is used by 1 layouts, 0 playlists, 0 menu boards and 0 DataSets; retire it or remove it from them first.`,
+      `Give the tags to add to media ${ids.promo}.`,
+    ]);
+    const blocked = await runTool(applyLibraryCleanup, { planId: refused.data.planId });
+    expect(blocked.message).toMatch(/has 2 issues/);
+
+    const plan = await runTool(planLibraryCleanup, {
+      actions: [
+        { mediaId: ids.promo, action: 'move', folderId: 7 },
+        { mediaId: ids.promo, action: 'retire' },
+        { mediaId: ids.movie, action: 'tag', tags: ['review'] },
+      ],
+    });
+    expect(plan.data.issues).toEqual([]);
+    media('movie')!.md5 = 'md5-movie-replaced';
+
+    const applied = await runTool(applyLibraryCleanup, { planId: plan.data.planId });
+    expect(applied.data.results.map((r: any) => [r.name, r.action, r.status])).toEqual([
+      ['movie.mp4', 'tag', 'skipped'],
+      ['promo.mp4', 'move', 'done'],
+      ['promo.mp4', 'retire', 'done'],
+    ]);
+    expect(media('promo')).toMatchObject({ folderId: 7, retired: 1 });
+    expect(media('movie')!.tags).toEqual([]);
+  });
+
+  it('counts images of menu boards and DataSet library image columns as used', async () => {
+    const { state } = mock.server;
+    const burger = state.addMedia({ name: 'burger.png', md5: 'md5-burger', createdDt: '2024-01-01 00:00:00' });
+    const staff = state.addMedia({ name: 'staff.png', md5: 'md5-staff', createdDt: '2024-01-01 00:00:00' });
+    const menuBoard = state.addMenuBoard({ name: 'Lunch' });
+    state.addMenuBoardProduct(state.addMenuBoardCategory(menuBoard, { name: 'Burgers' }), { name: 'Cheeseburger', mediaId: burger.mediaId });
+    const dataSet = state.addDataSet({ dataSet: 'Staff' });
+    state.addDataSetColumn(dataSet, { heading: 'Photo', dataTypeId: 5, dataType: 'Library Image' });
+    state.dataSetRows.get(dataSet.dataSetId)!.push({ id: 1, Photo: String(staff.mediaId) });
+
+    const audit = await runTool(auditLibrary, { minAgeDays: 30 });
+    const names = (entries: any[]) => entries.map((m) => m.name);
+    expect(names(audit.data.unused)).not.toContain('burger.png');
+    expect(names(audit.data.unused)).not.toContain('staff.png');
+    expect(audit.data.unscheduled).toEqual(expect.arrayContaining([
+      expect.objectContaining({ name: 'burger.png', layouts: [], menuBoards: [menuBoard.menuId], dataSets: [] }),
+      expect.objectContaining({ name: 'staff.png', layouts: [], menuBoards: [], dataSets: [dataSet.dataSetId] }),
+    ]));
+
+    const refused = await runTool(planLibraryCleanup, { actions: [{ mediaId: burger.mediaId, action: 'delete' }] });
+    expect(refused.data.issues).toEqual([
+      `Media ${burger.mediaId} (burger.png) is used by 0 layouts, 0 playlists, 1 menu boards and 0 DataSets; retire it or remove it from them first.`,
+    ]);
+  });
+});
@@ -0,0 +1,197 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+
+// ffmpeg is not installed where the tests run: ffprobe answers from `probes` (or the
+// 'default' probe), ffmpeg records its arguments and writes a partial file when it fails.
+const probes = new Map<string, unknown>();
+const ffmpegCalls: string[][] = [];
+const ffmpeg = { fails: false };
+vi.mock('child_process', () => ({
+  execFile: (command: string, args: string[], _options: unknown, callback: (error: Error | null, stdout: string, stderr: string) => void) => {
+    const file = args[args.length - 1];
+    if (command === 'ffmpeg') {
+      ffmpegCalls.push(args);
+      if (ffmpeg.fails) {
+        fs.writeFileSync(file, 'partial');
+        callback(new Error('Command failed'), '', 'Conversion failed!');
+        return;
+      }
+      probes.set(file, probes.get(args[args.indexOf('-i') + 1]));
+    }
+    callback(null, command === 'ffprobe' ? JSON.stringify(probes.get(file) ?? probes.get('default')) : '', '');
+  },
+}));
+
+import {
+  buildTranscodeArgs, checkPlayerCompatibility, parseProbeOutput, playerTypeOfClient, prepareMediaUpload, setMediaDuration, strictestProfile,
+} from '../../src/mastra/tools/xibo-agent/mediaCompatibility';
+import { config } from '../../src/mastra/tools/xibo-agent/config';
+import { uploadMediaFromURL } from '../../src/mastra/tools/xibo-agent/library/uploadMediaFromURL';
+
+const mock = useMockCms();
+
+const hevcProbe = {
+  streams: [
+    { codec_type: 'video', codec_name: 'hevc', profile: 'Main 10', width: 3840, height: 2160, avg_frame_rate: '60000/1001', pix_fmt: 'yuv420p10le', bit_rate: '45000000' },
+    { codec_type: 'audio', codec_name: 'ac3', sample_rate: '48000', channels: 6, bit_rate: '384000' },
+  ],
+  format: { duration: '12.480000', bit_rate: '45400000' },
+};
+
+describe('media probing and compatibility', () => {
+  it('reads codecs, size, frame rate, bitrate and length and ignores cover art', () => {
+    expect(parseProbeOutput(hevcProbe, 'Clip.MOV')).toEqual({
+      container: 'mov',
+      duration: 12.48,
+      bitrateKbps: 45400,
+      video: { codec: 'hevc', profile: 'Main 10', width: 3840, height: 2160, fps: 59.94, bitrateKbps: 45000, pixelFormat: 'yuv420p10le' },
+      audio: { codec: 'ac3', sampleRate: 48000, channels: 6, bitrateKbps: 384 },
+    });
+    const song = parseProbeOutput({
+      streams: [{ codec_type: 'audio', codec_name: 'mp3' }, { codec_type: 'video', codec_name: 'mjpeg', disposition: { attached_pic: 1 } }],
+      format: { duration: '3.2' },
+    }, 'song.mp3');
+    expect(song.video).toBeNull();
+    expect(() => parseProbeOutput({ streams: [] }, 'empty.mp4')).toThrow(/no video or audio stream/);
+  });
+
+  it('lists what each player type cannot play', () => {
+    const probe = parseProbeOutput(hevcProbe, 'clip.mov');
+    expect(checkPlayerCompatibility(probe, ['android', 'tizen'])).toEqual([
+      {
+        playerType: 'android',
+        compatible: false,
+        problems: [
+          '.mov files are not supported',
+          'hevc video is not supported (use h264, vp8)',
+          'yuv420p10le pixel format is not supported',
+          '59.94 fps is over 30 fps',
+          '45000 kbps is over 20000 kbps',
+          'ac3 audio is not supported (use aac, mp3, vorbis, opus, pcm_s16le)',
+        ],
+      },
+      { playerType: 'tizen', compatible: false, problems: ['45000 kbps is over 40000 kbps'] },
+    ]);
+    expect(playerTypeOfClient('sssp')).toBe('tizen');
+    expect(playerTypeOfClient('LG')).toBe('webos');
+    expect(playerTypeOfClient(null)).toBeNull();
+  });
+
+  it('builds H.264/AAC arguments within the strictest limits or letterboxed to a layout', () => {
+    const probe = parseProbeOutput(hevcProbe, 'clip.mov');
+    const limits = strictestProfile(['android', 'linux']);
+    expect(limits).toEqual({ maxWidth: 1920, maxHeight: 1080, maxFps: 30, maxVideoKbps: 20000 });
+
+    const args = buildTranscodeArgs('in.mov', 'out.mp4', probe, limits);
+    expect(args).toEqual(expect.arrayContaining(['-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-c:a', 'aac', '-r', '30', '-maxrate', '20000k']));
+    expect(args[args.indexOf('-vf') + 1]).toBe('scale=1920:1080,setsar=1');
+
+    const portrait = buildTranscodeArgs('in.mov', 'out.mp4', probe, limits, { width: 1080, height: 1920 });
+    expect(portrait[portrait.indexOf('-vf') + 1])
+      .toBe('scale=1080:1920:force_original_aspect_ratio=decrease,pad=1080:1920:(ow-iw)/2:(oh-ih)/2,setsar=1');
+    expect(buildTranscodeArgs('in.wav', 'out.m4a', parseProbeOutput({ streams: [{ codec_type: 'audio', codec_name: 'pcm_s16le' }] }, 'in.wav'), limits))
+      .toEqual(['-y', '-i', 'in.wav', '-vn', '-c:a', 'aac', '-b:a', '160k', '-ac', '2', 'out.m4a']);
+  });
+});
+
+describe('prepareMediaUpload', () => {
+  it('transcodes only files the players of the CMS cannot play', async () => {
+    probes.set('/uploads/clip.mov', hevcProbe);
+    probes.set('/uploads/ok.mp4', {
+      streams: [{ codec_type: 'video', codec_name: 'h264', profile: 'High', width: 1920, height: 1080, avg_frame_rate: '25/1', pix_fmt: 'yuv420p' }],
+      format: { duration: '7.6', bit_rate: '6000000' },
+    });
+
+    // The seeded displays are Android players.
+    const ok = await prepareMediaUpload('/uploads/ok.mp4', { transcode: 'ifIncompatible' });
+    expect(ok).toMatchObject({ filePath: '/uploads/ok.mp4', transcoded: false, playerTypes: ['android'], duration: 8 });
+    expect(ffmpegCalls).toEqual([]);
+
+    const layout = [...mock.server.state.layouts.values()][0];
+    const prepared = await prepareMediaUpload('/uploads/clip.mov', { transcode: 'ifIncompatible', targetLayoutId: layout.layoutId });
+    expect(prepared).toMatchObject({ fileName: 'clip.mp4', temporary: true, transcoded: true, duration: 12 });
+    expect(prepared.filePath).toMatch(/xibo-transcode-.*\.mp4$/);
+    expect(ffmpegCalls[0]).toEqual(expect.arrayContaining(['-vf', `scale=${layout.width}:${layout.height}:force_original_aspect_ratio=decrease,pad=${layout.width}:${layout.height}:(ow-iw)/2:(oh-ih)/2,setsar=1`]));
+  });
+
+  it('removes the partial file when transcoding fails', async () => {
+    probes.set('/uploads/broken.mov', hevcProbe);
+    ffmpeg.fails = true;
+    try {
+      await expect(prepareMediaUpload('/uploads/broken.mov', { transcode: 'always' })).rejects.toThrow(/ffmpeg failed: Conversion failed!/);
+    } finally {
+      ffmpeg.fails = false;
+    }
+    const output = ffmpegCalls[ffmpegCalls.length - 1].at(-1)!;
+    expect(output).toMatch(/xibo-transcode-.*\.mp4$/);
+    expect(fs.existsSync(output)).toBe(false);
+  });
+});
+
+describe('uploadMediaFromURL', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/huge.mp4') {
+        res.writeHead(200, { 'Content-Length': String(3 * 1024 ** 3) });
+        res.flushHeaders();
+      } else {
+        res.end('mock-video');
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('downloads video to check it, uploads it with its real length and removes the download', async () => {
+    probes.set('default', {
+      streams: [{ codec_type: 'video', codec_name: 'h264', profile: 'High', width: 1920, height: 1080, avg_frame_rate: '25/1', pix_fmt: 'yuv420p' }],
+      format: { duration: '14.6', bit_rate: '6000000' },
+    });
+    try {
+      const result = await runTool(uploadMediaFromURL, { url: `${baseUrl}/spring.mp4`, type: 'video', optionalName: 'Spring clip', transcode: 'ifIncompatible' });
+      expect(result).toMatchObject({ success: true, inspection: { transcoded: false, duration: 15 } });
+      expect(mock.server.state.media.get(result.data.mediaId)).toMatchObject({ name: 'Spring clip', duration: 15 });
+    } finally {
+      probes.delete('default');
+    }
+    expect(fs.readdirSync(config.uploadDir).filter((f) => f.endsWith('.mp4'))).toEqual([]);
+  });
+
+  it('refuses downloads over the size limit', async () => {
+    const result = await runTool(uploadMediaFromURL, { url: `${baseUrl}/huge.mp4`, type: 'video', transcode: 'ifIncompatible' });
+    expect(result).toMatchObject({ success: false, message: expect.stringMatching(/are not downloaded/) });
+    expect(fs.readdirSync(config.uploadDir).filter((f) => f.endsWith('.mp4'))).toEqual([]);
+  });
+});
+
+describe('setMediaDuration', () => {
+  it('sets the duration and keeps the name and tags', async () => {
+    const media = mock.server.state.addMedia({ name: 'intro.mp4', mediaType: 'video', duration: 10, tags: [{ tagId: 1, tag: 'promo', value: null }] });
+    await setMediaDuration(media.mediaId, 31);
+    expect(mock.server.state.media.get(media.mediaId)).toMatchObject({ name: 'intro.mp4', duration: 31 });
+    await expect(setMediaDuration(999999, 5)).rejects.toThrow(/does not exist/);
+  });
+});
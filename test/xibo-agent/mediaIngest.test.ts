@@ -0,0 +1,156 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { zip } from '../helpers/zip';
+import { config } from '../../src/mastra/tools/xibo-agent/config';
+import { packagePath, parseManifest, pathTags } from '../../src/mastra/tools/xibo-agent/mediaIngest';
+import { ingestMedia } from '../../src/mastra/tools/xibo-agent/library/ingestMedia';
+import { extractZipFile } from '../../src/mastra/tools/xibo-agent/utility/zipArchive';
+
+const mock = useMockCms();
+
+const md5 = (content: string) => crypto.createHash('md5').update(content).digest('hex');
+
+describe('media ingest helpers', () => {
+  it('reads CSV and JSON manifests and normalizes their paths', () => {
+    const csv = parseManifest('File,Name,Tags,Folder\r\n./menu\\burger.png,Burger,"food, promo";menu,Specials\r\n,,,\r\n', 'manifest.csv');
+    expect([...csv]).toEqual([['menu/burger.png', { name: 'Burger', tags: ['food', 'promo', 'menu'], folder: 'Specials' }]]);
+
+    const json = parseManifest(JSON.stringify({ files: [{ file: 'a.png', tags: ['x', 'y'] }, { path: '../b.png' }] }), 'manifest.json');
+    expect([...json]).toEqual([['a.png', { name: undefined, tags: ['x', 'y'], folder: undefined }]]);
+    expect(() => parseManifest('name,tags\nx,y', 'manifest.csv')).toThrow(/lists no files/);
+  });
+
+  it('derives tags from folders and rejects paths leaving the package', () => {
+    expect(pathTags('spring/menu/burger.png')).toEqual(['spring', 'menu']);
+    expect(pathTags('logo.png')).toEqual([]);
+    expect(packagePath('a/../../etc/passwd')).toBeNull();
+    expect(packagePath('/etc/passwd')).toBeNull();
+    expect(packagePath('C:\\temp\\x.png')).toBeNull();
+  });
+
+  it('streams ZIP entries to disk and stops past the size limits', async () => {
+    fs.mkdirSync(config.uploadDir, { recursive: true });
+    const dir = fs.mkdtempSync(path.join(config.uploadDir, 'zip-'));
+    const zipPath = path.join(dir, 'package.zip');
+    fs.writeFileSync(zipPath, zip({ 'a/one.txt': 'x'.repeat(600), 'two.txt': 'y'.repeat(600), 'skip.txt': 'z' }));
+    const target = (name: string) => (name === 'skip.txt' ? null : path.join(dir, 'out', name));
+
+    await extractZipFile(zipPath, target, { maxEntryBytes: 1000, maxTotalBytes: 2000 });
+    expect(fs.readFileSync(path.join(dir, 'out', 'a', 'one.txt'), 'utf-8')).toBe('x'.repeat(600));
+    expect(fs.existsSync(path.join(dir, 'out', 'skip.txt'))).toBe(false);
+
+    await expect(extractZipFile(zipPath, target, { maxEntryBytes: 500, maxTotalBytes: 2000 })).rejects.toThrow(/a\/one\.txt is larger than 500 bytes/);
+    await expect(extractZipFile(zipPath, target, { maxEntryBytes: 1000, maxTotalBytes: 1000 })).rejects.toThrow(/archive is larger than 1000 bytes/);
+  });
+});
+
+describe('ingestMedia', () => {
+  it('mirrors folders, tags files, reuses existing content and resumes failed files', async () => {
+    const { state } = mock.server;
+    const logo = [...state.media.values()].find((m) => m.name === 'logo.png')!;
+    logo.md5 = md5('mock-png');
+    const blocker = state.addMedia({ name: 'fries.png' });
+    const spring = state.addFolder({ text: 'spring', parentId: 1 });
+
+    fs.mkdirSync(config.uploadDir, { recursive: true });
+    fs.writeFileSync(path.join(config.uploadDir, 'agency.zip'), zip({
+      'spring/menu/burger.png': 'burger',
+      'spring/menu/fries.png': 'fries',
+      'spring/logo.png': 'mock-png',
+      'summer/banner.png': 'summer banner',
+      'winter/banner.png': 'winter banner',
+      '__MACOSX/spring/._logo.png': 'resource fork',
+      '.DS_Store': 'finder',
+      '../outside.png': 'nope',
+      'manifest.csv': 'file,name,tags\nspring/menu/burger.png,Burger,food;promo\nspring/menu/salad.png,Salad,food\n',
+    }));
+
+    const first = await runTool(ingestMedia, { source: 'agency.zip', tags: ['agency'], concurrency: 2, parentFolderId: 1, mirrorFolders: true, tagsFromPath: true });
+    expect(first.success).toBe(false);
+    const { data } = first;
+    expect(data.files.map((f: any) => [f.path, f.status])).toEqual([
+      ['spring/logo.png', 'existing'],
+      ['spring/menu/burger.png', 'uploaded'],
+      ['spring/menu/fries.png', 'failed'],
+      ['summer/banner.png', 'uploaded'],
+      ['winter/banner.png', 'uploaded'],
+      ['../outside.png', 'ignored'],
+      ['spring/menu/salad.png', 'ignored'],
+    ]);
+    expect(data.foldersCreated).toEqual(['spring/menu', 'summer', 'winter']);
+    expect(first.message).toContain(`run again with jobId ${data.jobId}`);
+
+    const folder = (text: string) => [...state.folders.values()].find((f) => f.text === text)!;
+    const media = (name: string) => [...state.media.values()].find((m) => m.name === name)!;
+    expect(folder('menu').parentId).toBe(spring.id);
+    expect(media('Burger')).toMatchObject({ folderId: folder('menu').id });
+    expect(media('Burger').tags.map((t: any) => t.tag)).toEqual(['spring', 'menu', 'agency', 'food', 'promo']);
+    expect(logo.folderId).toBe(spring.id);
+    expect(logo.tags.map((t: any) => t.tag)).toEqual(['spring', 'agency']);
+    // Same file name in two folders: the media names keep the path apart.
+    expect(media('summer - banner.png').folderId).toBe(folder('summer').id);
+    expect(media('winter - banner.png')).toBeDefined();
+    expect(data.files.find((f: any) => f.status === 'failed').error).toMatch(/already has this name/);
+    // The extracted package is kept until every file is in.
+    expect(fs.existsSync(path.join(config.uploadDir, 'ingest', data.jobId))).toBe(true);
+
+    // An extraction without its completion marker counts as cut short and is started over
+    const extracted = path.join(config.uploadDir, 'ingest', data.jobId);
+    fs.rmSync(path.join(extracted, '.extracted'));
+    fs.rmSync(path.join(extracted, 'spring', 'menu', 'fries.png'));
+
+    blocker.name = 'fries (old).png';
+    const uploads = state.media.size;
+    const second = await runTool(ingestMedia, { jobId: data.jobId });
+    expect(second.success).toBe(true);
+    expect(second.data.files.filter((f: any) => f.status !== 'skipped' && f.status !== 'ignored').map((f: any) => [f.path, f.status]))
+      .toEqual([['spring/menu/fries.png', 'uploaded']]);
+    expect(state.media.size).toBe(uploads + 1);
+    expect(second.data.foldersCreated).toEqual([]);
+    expect(fs.existsSync(path.join(config.uploadDir, 'ingest', data.jobId))).toBe(false);
+  });
+
+  it('ingests a directory into a folder without mirroring it', async () => {
+    const dir = path.join(config.uploadDir, 'flat');
+    fs.mkdirSync(path.join(dir, 'nested'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'nested', 'poster.png'), 'poster');
+
+    const result = await runTool(ingestMedia, { source: dir, parentFolderId: 1, mirrorFolders: false, tagsFromPath: false, tags: [], concurrency: 1 });
+    expect(result.data.files).toEqual([
+      expect.objectContaining({ path: 'nested/poster.png', status: 'uploaded', folderId: 1, tags: [] }),
+    ]);
+    await expect(runTool(ingestMedia, { source: 'missing.zip' })).resolves.toMatchObject({ success: false, message: expect.stringMatching(/not a directory or a \.zip file/) });
+    for (const source of ['../', path.dirname(config.uploadDir), 'flat/../../elsewhere']) {
+      await expect(runTool(ingestMedia, { source })).resolves.toMatchObject({ success: false, message: expect.stringMatching(/is outside the upload directory/) });
+    }
+  });
+
+  it('names the job to resume when it stops after being recorded', async () => {
+    const dir = path.join(config.uploadDir, 'orphaned');
+    fs.mkdirSync(path.join(dir, 'menu'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'menu', 'burger.png'), 'burger');
+
+    const failed = await runTool(ingestMedia, { source: dir, parentFolderId: 999, mirrorFolders: true, tagsFromPath: false, tags: [], concurrency: 1 });
+    expect(failed).toMatchObject({ success: false, message: expect.stringMatching(/Creating folder menu failed.*run again with jobId [0-9a-f-]{36}\./) });
+
+    // The job was kept, so it can be resumed once the parent folder is fixed
+    const jobId = failed.message.match(/jobId ([0-9a-f-]{36})/)![1];
+    const resumed = await runTool(ingestMedia, { jobId });
+    expect(resumed.message).toMatch(new RegExp(`Creating folder menu failed.*jobId ${jobId}`));
+  });
+});
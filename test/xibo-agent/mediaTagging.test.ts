@@ -0,0 +1,148 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { canonicalTag, DEFAULT_MEDIA_TAG_VOCABULARY, vocabularyTags } from '../../src/mastra/tools/xibo-agent/mediaTagging';
+import { autoTagMedia } from '../../src/mastra/tools/xibo-agent/library/autoTagMedia';
+import { applyMediaTags } from '../../src/mastra/tools/xibo-agent/library/applyMediaTags';
+import { getMediaDescriptions } from '../../src/mastra/tools/xibo-agent/library/getMediaDescriptions';
+
+const answers: string[] = [];
+
+vi.mock('../../src/mastra/models', () => ({ google: (modelId: string) => ({ modelId }) }));
+vi.mock('ai', () => ({ generateText: vi.fn(async () => ({ text: answers.shift() ?? '{}' })) }));
+
+const mock = useMockCms();
+
+const png = (label: string) => Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from(label)]);
+const answer = (fields: Record<string, unknown>) => '```json\n' + JSON.stringify(fields) + '\n```';
+const tagsOf = (media: any) => media.tags.map((t: any) => (t.value ? `${t.tag}|${t.value}` : t.tag));
+
+const vocabulary = { ...DEFAULT_MEDIA_TAG_VOCABULARY, brands: ['Acme'] };
+
+describe('media tag vocabulary', () => {
+  it('maps model terms through synonyms and rejects terms outside the vocabulary', () => {
+    expect(vocabularyTags({
+      objects: ['Hamburger', 'coffee', 'Cake', 'spaceship'],
+      season: 'Fall',
+      colours: ['gray', 'Red'],
+      brands: ['ACME', 'Other Corp'],
+      textLanguages: ['Japanese', 'en'],
+      description: '',
+    }, vocabulary)).toEqual({
+      tags: ['coffee', 'dessert', 'season|autumn', 'colour|grey', 'colour|red', 'brand|Acme', 'language|ja', 'language|en'],
+      rejected: ['Hamburger', 'spaceship', 'Other Corp'],
+    });
+    expect(vocabularyTags({ objects: ['spaceship'], colours: [], brands: [], textLanguages: [], description: '' }, { ...vocabulary, allowNewTags: true }).tags)
+      .toEqual(['spaceship']);
+  });
+
+  it('puts existing tags into their vocabulary form', () => {
+    expect(canonicalTag('summer', vocabulary)).toBe('season|summer');
+    expect(canonicalTag('Beverage', vocabulary)).toBe('drink');
+    expect(canonicalTag('colour|Gray', vocabulary)).toBe('colour|grey');
+    expect(canonicalTag('brand|acme', vocabulary)).toBe('brand|Acme');
+    expect(canonicalTag('misc stuff', vocabulary)).toBeNull();
+  });
+});
+
+describe('autoTagMedia', () => {
+  it('suggests tags for review and applies the approved ones with corrections', async () => {
+    const { state } = mock.server;
+    const poster = state.addMedia({ name: 'poster.png', md5: 'p1' }, png('poster'));
+    const flyer = state.addMedia({ name: 'flyer.png', md5: 'f1' }, png('flyer'));
+    const clip = state.addMedia({ name: 'clip.mp4', mediaType: 'video', md5: 'c1' }, png('clip thumbnail'));
+    answers.push(
+      answer({ objects: ['coffee', 'cup of joe'], season: 'winter', colours: ['brown'], brands: [], textLanguages: ['ja'], description: '湯気の立つコーヒー。' }),
+      answer({ objects: ['person'], season: null, colours: ['blue'], brands: [], textLanguages: [], description: 'A person.' }),
+      answer({ objects: ['car'], colours: [], brands: [], textLanguages: [], description: '' }),
+    );
+
+    const planned = await runTool(autoTagMedia, { mediaIds: [poster.mediaId, flyer.mediaId, clip.mediaId], mode: 'add', describe: true, descriptionLanguage: 'ja', limit: 20, review: true });
+    expect(planned.success).toBe(true);
+    expect(planned.data.suggestions.map((s: any) => [s.mediaId, s.tags, s.rejected])).toEqual([
+      [poster.mediaId, ['coffee', 'season|winter', 'colour|brown', 'language|ja'], ['cup of joe']],
+      [flyer.mediaId, ['person', 'colour|blue'], []],
+      [clip.mediaId, ['vehicle'], []],
+    ]);
+    expect(planned.data.suggestionTable).toContain(`| ${poster.mediaId} | poster.png | coffee, season\\|winter`);
+    // Review mode changes nothing.
+    expect(poster.tags).toEqual([]);
+
+    const applied = await runTool(applyMediaTags, {
+      planId: planned.data.planId,
+      excludeMediaIds: [clip.mediaId],
+      overrides: [{ mediaId: flyer.mediaId, tags: ['people', 'Blue'], description: 'Two people on a blue background.' }],
+    });
+    expect(applied.success).toBe(true);
+    expect(tagsOf(poster)).toEqual(['coffee', 'season|winter', 'colour|brown', 'language|ja']);
+    expect(tagsOf(flyer)).toEqual(['people', 'colour|blue']);
+    expect(clip.tags).toEqual([]);
+
+    const descriptions = await runTool(getMediaDescriptions, { query: 'people' });
+    expect(descriptions.data).toEqual([expect.objectContaining({ mediaId: flyer.mediaId, md5: 'f1', description: 'Two people on a blue background.' })]);
+    // A plan is applied once.
+    await expect(runTool(applyMediaTags, { planId: planned.data.planId })).resolves.toMatchObject({ success: false, message: expect.stringMatching(/does not exist/) });
+  });
+
+  it('replaces sprawling tags, refuses tags outside the vocabulary and skips changed media', async () => {
+    const { state } = mock.server;
+    const banner = state.addMedia({ name: 'banner.png', md5: 'b1', tags: [
+      { tagId: 901, tag: 'Summer', value: null },
+      { tagId: 902, tag: 'misc', value: null },
+      { tagId: 903, tag: 'oversized', value: null },
+    ] }, png('banner'));
+    const menu = state.addMedia({ name: 'menu.png', md5: 'm1' }, png('menu'));
+    const spare = state.addMedia({ name: 'spare.png', md5: 's1' }, png('spare'));
+    answers.push(
+      answer({ objects: ['drink'], colours: ['yellow'], brands: [], textLanguages: [], description: 'A cold drink.' }),
+      answer({ objects: ['menu'], colours: [], brands: [], textLanguages: [], description: 'A menu.' }),
+      answer({ objects: ['food'], colours: [], brands: [], textLanguages: [], description: 'Food.' }),
+    );
+
+    const planned = await runTool(autoTagMedia, { mediaIds: [banner.mediaId, menu.mediaId, spare.mediaId], mode: 'replace', describe: true, descriptionLanguage: 'en', limit: 20, review: true });
+    expect(planned.data.suggestions[0]).toMatchObject({
+      tags: ['season|summer', 'oversized', 'drink', 'colour|yellow'],
+      removeTags: ['Summer', 'misc'],
+    });
+
+    spare.md5 = 's2';
+    const applied = await runTool(applyMediaTags, {
+      planId: planned.data.planId,
+      overrides: [{ mediaId: menu.mediaId, tags: ['menu', 'lunch special'] }],
+    });
+    expect(applied.success).toBe(false);
+    expect(applied.data.results.map((r: any) => [r.mediaId, r.status])).toEqual([
+      [banner.mediaId, 'done'],
+      [menu.mediaId, 'failed'],
+      [spare.mediaId, 'skipped'],
+    ]);
+    expect(applied.data.results[1].message).toMatch(/Not in the vocabulary: lunch special/);
+    expect(tagsOf(banner)).toEqual(['season|summer', 'oversized', 'drink', 'colour|yellow']);
+    expect(menu.tags).toEqual([]);
+  });
+
+  it('applies right away without review and reports media that cannot be analysed', async () => {
+    const { state } = mock.server;
+    const photo = state.addMedia({ name: 'photo.png', md5: 'ph1' }, png('photo'));
+    const broken = state.addMedia({ name: 'broken.png', md5: 'br1' }, Buffer.from('not an image'));
+    answers.push(answer({ objects: ['flower'], season: 'spring', colours: ['pink'], brands: [], textLanguages: [], description: '' }));
+
+    const result = await runTool(autoTagMedia, { mediaIds: [photo.mediaId, broken.mediaId], mode: 'add', describe: true, descriptionLanguage: 'ja', limit: 20, review: false });
+    expect(result.success).toBe(false);
+    expect(result.data.planId).toBeUndefined();
+    expect(result.data.suggestions[1].error).toMatch(/no thumbnail/);
+    expect(tagsOf(photo)).toEqual(['flower', 'season|spring', 'colour|pink']);
+    expect((await runTool(getMediaDescriptions, { mediaIds: [photo.mediaId] })).data).toEqual([]);
+  });
+});
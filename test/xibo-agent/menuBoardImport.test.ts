@@ -0,0 +1,175 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { zip } from '../helpers/zip';
+import { config } from '../../src/mastra/tools/xibo-agent/config';
+import { xiboClient, type XiboRequestOptions, type XiboResult } from '../../src/mastra/tools/xibo-agent/xiboClient';
+import { parseCsv, readXlsxRows } from '../../src/mastra/tools/xibo-agent/utility/spreadsheet';
+import { planMenuBoardImport } from '../../src/mastra/tools/xibo-agent/menuBoard/planMenuBoardImport';
+import { applyMenuBoardImport } from '../../src/mastra/tools/xibo-agent/menuBoard/applyMenuBoardImport';
+import { exportMenuBoardCsv } from '../../src/mastra/tools/xibo-agent/menuBoard/exportMenuBoardCsv';
+
+const mock = useMockCms();
+
+describe('spreadsheet readers', () => {
+  it('parses quoted CSV fields and detects semicolons', () => {
+    expect(parseCsv('\uFEFFa,b\r\n"x, ""y""",2\n\n3,4')).toEqual([['a', 'b'], ['x, "y"', '2'], [''], ['3', '4']]);
+    expect(parseCsv('a;b\n1,5;2')).toEqual([['a', 'b'], ['1,5', '2']]);
+  });
+
+  it('reads shared, inline and numeric cells of a named XLSX sheet', () => {
+    const workbook = zip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Notes" r:id="rId1"/><sheet name="Menu" r:id="rId2"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Category</t></si><si><r><t>Pro</t></r><r><t>duct</t></r></si><si><t xml:space="preserve"> Drinks </t></si></sst>',
+      'xl/worksheets/sheet1.xml': '<worksheet><sheetData/></worksheet>',
+      'xl/worksheets/sheet2.xml': `<worksheet><sheetData>
+        <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Price</t></is></c></row>
+        <row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3" t="inlineStr"><is><t>Coffee</t></is></c><c r="D3"><v>3.5</v></c></row>
+      </sheetData></worksheet>`,
+    });
+    expect(readXlsxRows(workbook, 'Menu')).toEqual([['Category', 'Product', '', 'Price'], [], [' Drinks ', 'Coffee', '', '3.5']]);
+  });
+});
+
+describe('menu board import', () => {
+  let menuId: number;
+
+  beforeEach(() => {
+    const { state } = mock.server;
+    state.menuBoards.clear();
+    state.menuCategories.clear();
+    state.menuProducts.clear();
+    const menu = state.addMenuBoard({ name: 'Cafe' });
+    menuId = menu.menuId;
+    const drinks = state.addMenuBoardCategory(menu, { name: 'Drinks' });
+    state.addMenuBoardProduct(drinks, { name: 'Coffee', price: 3.5, displayOrder: 1 });
+    state.addMenuBoardProduct(drinks, { name: 'Tea', price: 3, displayOrder: 2 });
+    state.addMenuBoardProduct(drinks, { name: 'Juice', price: 4, displayOrder: 3 });
+    const seasonal = state.addMenuBoardCategory(menu, { name: 'Seasonal' });
+    state.addMenuBoardProduct(seasonal, { name: 'Pumpkin Soup', price: 5 });
+  });
+
+  const products = () => [...mock.server.state.menuProducts.values()];
+  const csv = [
+    'Category,Product,Price,Allergens,Available,Image',
+    'Drinks,Coffee,3.80,,,',
+    'Drinks,Tea,3,,,',
+    'Drinks,Latte,"4,50",milk,,',
+    'Food,Sandwich,¥600,"wheat, egg",sold out,logo.png',
+  ].join('\n');
+
+  it('previews the changes and applies them', async () => {
+    const preview = await runTool(planMenuBoardImport, { menuId, content: csv, deleteMissing: true });
+    expect(preview.success).toBe(true);
+    expect(preview.data.issues).toEqual([]);
+    expect(preview.data.changes.map((c: any) => [c.action, c.type, c.name])).toEqual([
+      ['update', 'product', 'Coffee'],
+      ['create', 'product', 'Latte'],
+      ['create', 'category', 'Food'],
+      ['create', 'product', 'Sandwich'],
+      ['delete', 'product', 'Juice'],
+      ['delete', 'category', 'Seasonal'],
+    ]);
+    expect(preview.data.changes[0].fields).toEqual({ price: { from: 3.5, to: 3.8 } });
+    expect(preview.data.changeTable).toContain('price: 3.5 → 3.8');
+    expect(products()).toHaveLength(4);
+
+    const applied = await runTool(applyMenuBoardImport, { importId: preview.data.importId });
+    expect(applied.success).toBe(true);
+    expect(applied.data.applied).toHaveLength(6);
+
+    const logoId = [...mock.server.state.media.values()].find((m) => m.name === 'logo.png')!.mediaId;
+    const food = [...mock.server.state.menuCategories.values()].find((c) => c.name === 'Food')!;
+    expect([...mock.server.state.menuCategories.values()].map((c) => c.name)).toEqual(['Drinks', 'Food']);
+    expect(products().map((p) => [p.name, p.price, p.displayOrder])).toEqual([
+      ['Coffee', 3.8, 1], ['Tea', 3, 2], ['Latte', 4.5, 3], ['Sandwich', 600, 1],
+    ]);
+    expect(products().find((p) => p.name === 'Sandwich')).toMatchObject({
+      menuCategoryId: food.menuCategoryId, allergyInfo: 'wheat, egg', availability: 0, mediaId: logoId,
+    });
+
+    const again = await runTool(planMenuBoardImport, { menuId, content: csv });
+    expect(again.data.changes).toEqual([]);
+    expect(again.message).toMatch(/already matches/);
+  });
+
+  it('reports issues and refuses to apply them', async () => {
+    const preview = await runTool(planMenuBoardImport, {
+      menuId,
+      content: 'Category,Product,Price,Image\nDrinks,Coffee,cheap,\n,Cake,3,\nDrinks,Mocha,4,missing.png',
+    });
+    expect(preview.data.issues).toEqual([
+      { row: 2, message: 'Price "cheap" is not a number.' },
+      { row: 3, message: 'The row has no category.' },
+      { row: 4, message: 'Image "missing.png" was not found in the library.' },
+    ]);
+    const applied = await runTool(applyMenuBoardImport, { importId: preview.data.importId });
+    expect(applied.success).toBe(false);
+    expect(applied.message).toMatch(/has 3 issues/);
+  });
+
+  it('refuses an import when the menu board changed since the preview', async () => {
+    const preview = await runTool(planMenuBoardImport, { menuId, content: csv });
+    products().find((p) => p.name === 'Tea')!.price = 3.2;
+    const applied = await runTool(applyMenuBoardImport, { importId: preview.data.importId });
+    expect(applied.success).toBe(false);
+    expect(applied.message).toMatch(/changed since the import was previewed/);
+    expect(products().find((p) => p.name === 'Coffee')!.price).toBe(3.5);
+  });
+
+  it('undoes the applied creates and updates when a change fails', async () => {
+    const preview = await runTool(planMenuBoardImport, { menuId, content: csv, deleteMissing: true });
+    const seasonalId = preview.data.changes.find((c: any) => c.name === 'Seasonal').id;
+    const request = xiboClient.request.bind(xiboClient);
+    const spy = vi.spyOn(xiboClient, 'request').mockImplementation(async <T,>(path: string, init?: XiboRequestOptions<T>): Promise<XiboResult<T>> =>
+      path === `/menuboard/category/${seasonalId}` ? { success: false, status: 500, message: 'Server error' } : request(path, init));
+    const applied = await runTool(applyMenuBoardImport, { importId: preview.data.importId });
+    spy.mockRestore();
+
+    expect(applied.success).toBe(false);
+    expect(applied.message).toMatch(/4 of 5 applied changes were undone/);
+    expect(applied.data.applied.map((c: any) => `${c.action} ${c.type}`)).toEqual([
+      'create category', 'update product', 'create product', 'create product', 'delete product',
+    ]);
+    expect(applied.data.rollback.notUndone).toEqual([expect.objectContaining({ action: 'delete', reason: expect.stringMatching(/cannot be restored/) })]);
+    expect([...mock.server.state.menuCategories.values()].map((c) => c.name)).toEqual(['Drinks', 'Seasonal']);
+    expect(products().map((p) => [p.name, p.price])).toEqual([['Coffee', 3.5], ['Tea', 3], ['Pumpkin Soup', 5]]);
+  });
+
+  it('exports CSV that imports without changes, also from an XLSX upload', async () => {
+    const exported = await runTool(exportMenuBoardCsv, { menuId });
+    expect(exported.success).toBe(true);
+    expect(exported.data.csv.split('\r\n')[1]).toBe('Drinks,,,,Coffee,,,3.5,,,1,1,');
+    expect(fs.readFileSync(exported.data.filePath, 'utf-8')).toBe(`\uFEFF${exported.data.csv}`);
+
+    const roundTrip = await runTool(planMenuBoardImport, { menuId, content: exported.data.csv, deleteMissing: true });
+    expect(roundTrip.data.changes).toEqual([]);
+
+    const rows = parseCsv(exported.data.csv).filter((r) => r.length > 1);
+    const cell = (value: string, ref: string) => `<c r="${ref}" t="inlineStr"><is><t>${value}</t></is></c>`;
+    const sheet = rows.map((r, i) => `<row r="${i + 1}">${r.map((v, j) => cell(v, `${String.fromCharCode(65 + j)}${i + 1}`)).join('')}</row>`).join('');
+    fs.mkdirSync(config.uploadDir, { recursive: true });
+    fs.writeFileSync(path.join(config.uploadDir, 'menu.xlsx'), zip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Sheet1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${sheet}</sheetData></worksheet>`,
+    }));
+    const fromXlsx = await runTool(planMenuBoardImport, { menuId, fileName: 'menu.xlsx', deleteMissing: true });
+    expect(fromXlsx.data.rows).toBe(4);
+    expect(fromXlsx.data.changes).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import fs from 'fs';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { config } from '../../src/mastra/tools/xibo-agent/config';
+import {
+  dayPartStartedAt, isMenuDaypartSchedulerEnabled, reloadMenuDaypartSettings, resolveMenuProduct, type MenuDayPart,
+} from '../../src/mastra/tools/xibo-agent/menuDayparts';
+import { setMenuDaypartPrice } from '../../src/mastra/tools/xibo-agent/menuBoard/setMenuDaypartPrice';
+import { deleteMenuDaypartPrice } from '../../src/mastra/tools/xibo-agent/menuBoard/deleteMenuDaypartPrice';
+import { getMenuDaypartPrices } from '../../src/mastra/tools/xibo-agent/menuBoard/getMenuDaypartPrices';
+import { previewMenuBoardAt } from '../../src/mastra/tools/xibo-agent/menuBoard/previewMenuBoardAt';
+import { applyMenuDaypartPrices } from '../../src/mastra/tools/xibo-agent/menuBoard/applyMenuDaypartPrices';
+
+const mock = useMockCms();
+
+const dayPart = (fields: Partial<MenuDayPart>): MenuDayPart =>
+  ({ dayPartId: 1, name: 'Part', isAlways: 0, isCustom: 0, startTime: '', endTime: '', exceptions: [], ...fields });
+
+// 2 June 2025 is a Monday.
+const at = (day: number, hours: number, minutes = 0) => new Date(2025, 5, day, hours, minutes);
+
+describe('dayPartStartedAt', () => {
+  it('finds the start of the running day part, also past midnight and on exception days', () => {
+    const breakfast = dayPart({ startTime: '06:00:00', endTime: '10:30:00', exceptions: [{ day: 'Sat', start: '08:00', end: '11:00' }] });
+    expect(dayPartStartedAt(breakfast, at(2, 7))).toBe(at(2, 6).getTime());
+    expect(dayPartStartedAt(breakfast, at(2, 10, 30))).toBeNull();
+    expect(dayPartStartedAt(breakfast, at(7, 7))).toBeNull();
+    expect(dayPartStartedAt(breakfast, at(7, 10, 45))).toBe(at(7, 8).getTime());
+
+    const night = dayPart({ startTime: '22:00:00', endTime: '02:00:00' });
+    expect(dayPartStartedAt(night, at(2, 23))).toBe(at(2, 22).getTime());
+    expect(dayPartStartedAt(night, at(3, 1))).toBe(at(2, 22).getTime());
+    expect(dayPartStartedAt(night, at(3, 3))).toBeNull();
+
+    expect(dayPartStartedAt(dayPart({ isAlways: 1 }), at(2, 3))).toBe(-Infinity);
+    expect(dayPartStartedAt(dayPart({ isCustom: 1 }), at(2, 3))).toBeNull();
+  });
+
+  it('lets the day part that started last win', () => {
+    const dayParts = new Map([
+      [1, dayPart({ dayPartId: 1, name: 'Always', isAlways: 1 })],
+      [2, dayPart({ dayPartId: 2, name: 'All day', startTime: '06:00:00', endTime: '22:00:00' })],
+      [3, dayPart({ dayPartId: 3, name: 'Lunch', startTime: '11:00:00', endTime: '14:00:00' })],
+    ]);
+    const product = {
+      basePrice: 5,
+      baseAvailability: 1,
+      overrides: [1, 2, 3].map((dayPartId) => ({ dayPartId, price: dayPartId, availability: null, updatedAt: '' })),
+    };
+    expect(resolveMenuProduct(product, dayParts, at(2, 12))).toEqual({ dayPartId: 3, dayPart: 'Lunch', price: 3, availability: 1 });
+    expect(resolveMenuProduct(product, dayParts, at(2, 15))).toMatchObject({ dayPart: 'All day', price: 2 });
+    expect(resolveMenuProduct(product, dayParts, at(2, 23))).toMatchObject({ dayPart: 'Always', price: 1 });
+    expect(resolveMenuProduct({ ...product, overrides: [] }, dayParts, at(2, 12))).toMatchObject({ dayPartId: null, price: 5 });
+  });
+});
+
+describe('menu day part scheduler', () => {
+  let menuId: number;
+  let coffeeId: number;
+  let breakfastId: number;
+  let lunchId: number;
+
+  const coffee = () => mock.server.state.menuProducts.get(coffeeId)!;
+  const setTime = (time: Date) => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(time);
+  };
+
+  beforeAll(() => {
+    const { state } = mock.server;
+    const menu = state.addMenuBoard({ name: 'Breakfast Bar' });
+    menuId = menu.menuId;
+    const drinks = state.addMenuBoardCategory(menu, { name: 'Drinks' });
+    coffeeId = state.addMenuBoardProduct(drinks, { name: 'Coffee', price: 3.5, availability: 1, displayOrder: 1 }).menuProductId;
+    state.addMenuBoardProduct(drinks, { name: 'Tea', price: 3, availability: 1, displayOrder: 2 });
+    breakfastId = state.addDayPart({ name: 'Breakfast', startTime: '06:00:00', endTime: '10:30:00' }).dayPartId;
+    lunchId = state.addDayPart({ name: 'Lunch', startTime: '11:00:00', endTime: '14:00:00' }).dayPartId;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores overrides with the base read from the CMS', async () => {
+    const breakfast = await runTool(setMenuDaypartPrice, { menuId, menuProductId: coffeeId, dayPartId: breakfastId, price: 2.8 });
+    expect(breakfast.success).toBe(true);
+    const lunch = await runTool(setMenuDaypartPrice, { menuId, menuProductId: coffeeId, dayPartId: lunchId, availability: 0 });
+    expect(lunch.data).toMatchObject({ basePrice: 3.5, baseAvailability: 1, appliedAt: null });
+    expect(lunch.data.overrides.map((o: any) => [o.dayPartId, o.price, o.availability])).toEqual([
+      [breakfastId, 2.8, null],
+      [lunchId, null, 0],
+    ]);
+
+    const custom = [...mock.server.state.dayParts.values()].find((d) => d.name === 'Custom')!;
+    const refused = await runTool(setMenuDaypartPrice, { menuId, menuProductId: coffeeId, dayPartId: custom.dayPartId, price: 1 });
+    expect(refused.message).toMatch(/is custom and has no times/);
+    const missing = await runTool(setMenuDaypartPrice, { menuId, menuProductId: 999999, dayPartId: breakfastId, price: 1 });
+    expect(missing.message).toMatch(/is not on menu board/);
+  });
+
+  it('previews the board at a given time without changing it', async () => {
+    const preview = await runTool(previewMenuBoardAt, { menuId, at: '2025-06-02 07:15' });
+    expect(preview.data.dayParts).toEqual(['Breakfast']);
+    expect(preview.data.categories[0].products.map((p: any) => [p.name, p.price, p.availability, p.dayPart])).toEqual([
+      ['Coffee', 2.8, 1, 'Breakfast'],
+      ['Tea', 3, 1, null],
+    ]);
+    expect(preview.data.table).toContain('| Drinks | Coffee | **2.8** (now 3.5) | yes | Breakfast |');
+
+    const lunch = await runTool(previewMenuBoardAt, { menuId, at: '2025-06-02 12:00' });
+    expect(lunch.data.table).toContain('| Drinks | Coffee | 3.5 | **sold out** | Lunch |');
+    expect(coffee()).toMatchObject({ price: 3.5, availability: 1 });
+  });
+
+  it('flips the product at day part boundaries and leaves manual edits until the next one', async () => {
+    setTime(at(2, 7));
+    const morning = await runTool(applyMenuDaypartPrices, {});
+    expect(morning.data[0]).toMatchObject({ action: 'updated', dayPart: 'Breakfast', price: 2.8 });
+    expect(coffee()).toMatchObject({ name: 'Coffee', price: 2.8, availability: 1, displayOrder: 1 });
+
+    coffee().price = 2.5;
+    const later = await runTool(applyMenuDaypartPrices, {});
+    expect(later.data[0].action).toBe('unchanged');
+    expect(coffee().price).toBe(2.5);
+
+    setTime(at(2, 12));
+    const preview = await runTool(applyMenuDaypartPrices, { dryRun: true });
+    expect(preview.message).toBe('Would update 1 of 1 products.');
+    expect(coffee().price).toBe(2.5);
+    const noon = await runTool(applyMenuDaypartPrices, {});
+    expect(noon.data[0]).toMatchObject({ action: 'updated', dayPart: 'Lunch' });
+    expect(coffee()).toMatchObject({ price: 3.5, availability: 0 });
+
+    const stored = await runTool(getMenuDaypartPrices, { menuId });
+    expect(stored.data.products[0]).toMatchObject({ appliedDayPartId: lunchId, appliedPrice: 3.5, appliedAvailability: 0, error: null });
+  });
+
+  it('restores the base when the last override is removed', async () => {
+    setTime(at(2, 12));
+    const removed = await runTool(deleteMenuDaypartPrice, { menuProductId: coffeeId });
+    expect(removed.data.removed).toBe(2);
+    const restored = await runTool(applyMenuDaypartPrices, {});
+    expect(restored.data[0]).toMatchObject({ action: 'restored', price: 3.5, availability: 1 });
+    expect(coffee()).toMatchObject({ price: 3.5, availability: 1 });
+
+    const stored = await runTool(getMenuDaypartPrices, {});
+    expect(stored.data.products).toEqual([]);
+  });
+});
+
+describe('menu day part scheduler settings', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(config.menuDaypartsFile, { force: true });
+    reloadMenuDaypartSettings();
+  });
+
+  it('is enabled by the settings file, which wins over the environment variable', () => {
+    vi.stubEnv('XIBO_MENU_DAYPARTS', 'on');
+    expect(isMenuDaypartSchedulerEnabled()).toBe(true);
+
+    fs.writeFileSync(config.menuDaypartsFile, JSON.stringify({ enabled: false }));
+    reloadMenuDaypartSettings();
+    expect(isMenuDaypartSchedulerEnabled()).toBe(false);
+
+    vi.unstubAllEnvs();
+    fs.writeFileSync(config.menuDaypartsFile, JSON.stringify({ enabled: true, intervalSeconds: 120 }));
+    reloadMenuDaypartSettings();
+    expect(isMenuDaypartSchedulerEnabled()).toBe(true);
+  });
+});
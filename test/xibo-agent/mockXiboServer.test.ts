@@ -0,0 +1,69 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { xiboClient } from '../../src/mastra/tools/xibo-agent/xiboClient';
+import { getAbout } from '../../src/mastra/tools/xibo-agent/misc/getAbout';
+import { getDisplays } from '../../src/mastra/tools/xibo-agent/display/getDisplays';
+
+const mock = useMockCms();
+
+describe('mock CMS authentication', () => {
+  it('rejects requests without a token', async () => {
+    const response = await fetch(`${mock.server.url}/api/about`);
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ error: { code: 401 } });
+  });
+
+  it('rejects unknown client credentials', async () => {
+    const response = await fetch(`${mock.server.url}/api/authorize/access_token`, {
+      method: 'POST',
+      body: new URLSearchParams({ grant_type: 'client_credentials', client_id: 'mock-client', client_secret: 'wrong' }),
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it('lets the client refresh a revoked token', async () => {
+    expect((await runTool(getAbout)).success).toBe(true);
+    const tokenRequests = () => mock.server.requests.filter((r) => r.path === '/authorize/access_token').length;
+    const before = tokenRequests();
+
+    mock.server.revokeTokens();
+    const result = await runTool(getAbout);
+
+    expect(result).toMatchObject({ success: true, data: { version: '4.0.0-mock' } });
+    expect(tokenRequests()).toBe(before + 1);
+  });
+});
+
+describe('mock CMS list endpoints', () => {
+  it('pages results and reports X-Total-Count', async () => {
+    const result = await xiboClient.get('/display', { start: 1, length: 1 });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data).toHaveLength(1);
+    expect(result.headers.get('X-Total-Count')).toBe(String(mock.server.state.displays.size));
+  });
+
+  it('returns every page through getDisplays', async () => {
+    const result = await runTool(getDisplays, { all: true, length: 1 });
+    expect(result.success).toBe(true);
+    expect(result.data.map((d: any) => d.display).sort()).toEqual(['Entrance Screen', 'Lobby Screen']);
+    expect(result.pagination).toMatchObject({ total: 2, returned: 2, complete: true });
+  });
+
+  it('answers unknown entities with the CMS error shape', async () => {
+    const result = await xiboClient.request('/layout/999999', { method: 'PUT', form: { name: 'x' } });
+    expect(result).toMatchObject({ success: false, status: 404, errorData: { error: { message: 'Layout not found' } } });
+  });
+});
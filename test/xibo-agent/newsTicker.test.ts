@@ -0,0 +1,136 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import fs from 'fs';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { config } from '../../src/mastra/tools/xibo-agent/config';
+import { reloadNewsTickerSettings, toHeadline } from '../../src/mastra/tools/xibo-agent/newsTicker';
+import { syncNewsTicker } from '../../src/mastra/tools/xibo-agent/news/syncNewsTicker';
+import { getNewsTickerFeeds } from '../../src/mastra/tools/xibo-agent/news/getNewsTickerFeeds';
+
+const mock = useMockCms();
+
+const HOUR = 3600 * 1000;
+
+function rssItem(guid: string, title: string, publishedAgoHours: number): string {
+  return `<item>
+    <title>${title} - Example Times</title>
+    <link>https://news.example.com/${guid}</link>
+    <guid isPermaLink="false">${guid}</guid>
+    <pubDate>${new Date(Date.now() - publishedAgoHours * HOUR).toUTCString()}</pubDate>
+    <description>${title}</description>
+    <source url="https://news.example.com">Example Times</source>
+  </item>`;
+}
+
+describe('toHeadline', () => {
+  it('drops the source suffix and computes the expiry from the publication time', () => {
+    const headline = toHeadline({
+      title: 'Markets rally - Example Times',
+      link: 'https://news.example.com/a',
+      guid: { '#text': 'a', '@_isPermaLink': false },
+      pubDate: 'Mon, 02 Jun 2025 09:00:00 GMT',
+      description: '',
+      source: { '#text': 'Example Times', '@_url': 'https://news.example.com' },
+    }, 6, Date.now());
+    expect(headline).toMatchObject({ guid: 'a', title: 'Markets rally', source: 'Example Times', expires: '2025-06-02T15:00:00.000Z' });
+  });
+});
+
+describe('news ticker sync', () => {
+  const realFetch = globalThis.fetch;
+  let items: string[] = [];
+  let dataSetId: number;
+
+  const rows = () => mock.server.state.dataSetRows.get(dataSetId)!;
+
+  beforeAll(() => {
+    const { state } = mock.server;
+    const ticker = state.addDataSet({ dataSet: 'Ticker', code: 'ticker' });
+    for (const heading of ['guid', 'Title', 'source', 'link']) state.addDataSetColumn(ticker, { heading });
+    dataSetId = ticker.dataSetId;
+    // A headline added by hand must neither be duplicated nor expired by the sync.
+    rows().push({ id: 1, guid: 'manual', Title: 'Store opens at 10', source: null, link: null });
+
+    fs.writeFileSync(config.newsTickerFile, JSON.stringify({
+      feeds: [{ id: 'business', dataSetId, searchType: 'topic', topic: 'BUSINESS', limit: 5, ttlHours: 12 }],
+    }));
+    reloadNewsTickerSettings();
+
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      const url = new URL(String(input));
+      if (url.hostname !== 'news.google.com') return realFetch(input, init);
+      expect(url.pathname).toBe('/rss/headlines/section/topic/BUSINESS');
+      return new Response(`<?xml version="1.0"?><rss version="2.0"><channel>
+        <title>Business</title><link>https://news.google.com</link><description>Google News</description>
+        ${items.join('')}
+      </channel></rss>`);
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(config.newsTickerFile, { force: true });
+    reloadNewsTickerSettings();
+  });
+
+  it('previews without changing the DataSet', async () => {
+    items = [rssItem('a', 'Markets rally', 1), rssItem('manual', 'Store opens at 10', 1), rssItem('old', 'Yesterday', 30)];
+    const result = await runTool(syncNewsTicker, { dryRun: true });
+    expect(result.success).toBe(true);
+    expect(result.data[0].added.map((h: any) => h.guid)).toEqual(['a']);
+    expect(rows()).toHaveLength(1);
+  });
+
+  it('adds new headlines once, skipping known and outdated ones', async () => {
+    const result = await runTool(syncNewsTicker, {});
+    expect(result.data[0]).toMatchObject({ skipped: 2, expired: 0, error: null });
+    expect(rows().map((r) => [r.guid, r.Title, r.source])).toEqual([
+      ['manual', 'Store opens at 10', null],
+      ['a', 'Markets rally', 'Example Times'],
+    ]);
+
+    items = [rssItem('b', 'Rates unchanged', 0), ...items];
+    const again = await runTool(syncNewsTicker, {});
+    expect(again.data[0].added.map((h: any) => h.guid)).toEqual(['b']);
+    expect(rows()).toHaveLength(3);
+  });
+
+  it('deletes headlines whose time to live ran out', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 11.5 * HOUR);
+    const result = await runTool(syncNewsTicker, {});
+    expect(result.data[0]).toMatchObject({ expired: 1, added: [] });
+    expect(rows().map((r) => r.guid)).toEqual(['manual', 'b']);
+
+    const feeds = await runTool(getNewsTickerFeeds, {});
+    expect(feeds.data.feeds[0]).toMatchObject({ feedId: 'business', expired: 1, error: null });
+    expect(feeds.data.feeds[0].items.map((i: any) => i.guid)).toEqual(['b']);
+  });
+
+  it('reports a DataSet without a guid column', async () => {
+    const other = mock.server.state.addDataSet({ dataSet: 'Plain' });
+    mock.server.state.addDataSetColumn(other, { heading: 'title' });
+    fs.writeFileSync(config.newsTickerFile, JSON.stringify({
+      feeds: [{ id: 'plain', dataSetId: other.dataSetId, searchType: 'query', query: 'signage' }],
+    }));
+    reloadNewsTickerSettings();
+    const result = await runTool(syncNewsTicker, {});
+    expect(result.success).toBe(false);
+    expect(result.data[0].error).toMatch(/no "guid" column/);
+  });
+});
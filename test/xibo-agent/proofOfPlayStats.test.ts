@@ -0,0 +1,105 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { useMockCms } from '../helpers/mockCms';
+import {
+  fetchProofOfPlayStats,
+  formatAirtime,
+  listDates,
+  summarizeProofOfPlay,
+  type StatRecord,
+} from '../../src/mastra/workflows/proof-of-play/proofOfPlayStats';
+
+const mock = useMockCms();
+
+const record = (displayId: number, start: string, numberPlays: number, duration: number): StatRecord => ({
+  type: 'Layout',
+  display: `Display ${displayId}`,
+  displayId,
+  layout: 'Welcome',
+  layoutId: 1,
+  numberPlays,
+  duration,
+  start,
+  end: start,
+});
+
+describe('listDates', () => {
+  it('lists every day of the period inclusive', () => {
+    expect(listDates('2025-01-30 00:00:00', '2025-02-02 23:59:59')).toEqual(['2025-01-30', '2025-01-31', '2025-02-01', '2025-02-02']);
+  });
+
+  it('rejects invalid dates', () => {
+    expect(() => listDates('soon', '2025-01-01')).toThrow(/Invalid period/);
+  });
+});
+
+describe('summarizeProofOfPlay', () => {
+  const query = { subject: 'layout' as const, subjectId: 1, fromDt: '2025-01-01 00:00:00', toDt: '2025-01-03 23:59:59' };
+
+  it('aggregates plays and airtime per display, day and hour', () => {
+    const summary = summarizeProofOfPlay(query, [
+      record(1, '2025-01-01 09:00:00', 10, 100),
+      record(2, '2025-01-01 09:30:00', 30, 300),
+      record(1, '2025-01-03 18:00:00', 5, 50),
+    ]);
+
+    expect(summary.subjectName).toBe('Welcome');
+    expect(summary.totals).toEqual({ plays: 45, airtimeSeconds: 450, displays: 2, activeDays: 2 });
+    expect(summary.byDisplay.map((d) => [d.displayId, d.plays])).toEqual([[2, 30], [1, 15]]);
+    expect(summary.byDay.map((d) => d.plays)).toEqual([40, 0, 5]);
+    expect(summary.byHour).toHaveLength(24);
+    expect(summary.byHour[9]).toEqual({ hour: 9, plays: 40, airtimeSeconds: 400 });
+    expect(summary.byHour[18].plays).toBe(5);
+  });
+
+  it('names the subject by id when there are no records', () => {
+    const summary = summarizeProofOfPlay(query, []);
+    expect(summary.subjectName).toBe('layout 1');
+    expect(summary.totals.plays).toBe(0);
+  });
+});
+
+describe('fetchProofOfPlayStats', () => {
+  it('reads the stats of a campaign from the CMS', async () => {
+    const campaign = [...mock.server.state.campaigns.values()].find((c) => c.campaign === 'Spring Campaign')!;
+    const records = await fetchProofOfPlayStats({
+      subject: 'campaign',
+      subjectId: campaign.campaignId,
+      fromDt: '2025-01-01 00:00:00',
+      toDt: '2025-01-31 23:59:59',
+    });
+
+    expect(records).toHaveLength(2);
+    const summary = summarizeProofOfPlay({ subject: 'campaign', subjectId: campaign.campaignId, fromDt: '2025-01-01', toDt: '2025-01-31' }, records);
+    expect(summary.subjectName).toBe('Spring Campaign');
+    expect(summary.totals.plays).toBe(24);
+    expect(summary.byDay).toHaveLength(31);
+  });
+
+  it('filters by display and media', async () => {
+    const lobby = [...mock.server.state.displays.values()].find((d) => d.display === 'Lobby Screen')!;
+    const welcome = [...mock.server.state.layouts.values()].find((l) => l.layout === 'Welcome' && l.publishedStatusId === 1)!;
+    const layoutStats = await fetchProofOfPlayStats({
+      subject: 'layout',
+      subjectId: welcome.layoutId,
+      fromDt: '2025-01-01 00:00:00',
+      toDt: '2025-01-31 23:59:59',
+      displayIds: [lobby.displayId],
+    });
+    expect(layoutStats.map((r) => r.displayId)).toEqual([lobby.displayId]);
+
+    const mediaStats = await fetchProofOfPlayStats({ subject: 'media', subjectId: 999, fromDt: '2025-01-01', toDt: '2025-01-31' });
+    expect(mediaStats).toEqual([]);
+  });
+});
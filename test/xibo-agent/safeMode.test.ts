@@ -0,0 +1,103 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { z } from 'zod';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createTool } from '@mastra/core/tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import {
+  SAFE_MODE_APPROVAL_CONTEXT_KEY, SAFE_MODE_APPROVED_BY_CONTEXT_KEY, classifyTool, executeTool, withSafeMode,
+} from '../../src/mastra/tools/xibo-agent/safeMode';
+
+const deleted: number[] = [];
+
+const deleteThing = createTool({
+  id: 'delete-thing',
+  description: 'Deletes a thing.',
+  inputSchema: z.object({ thingId: z.number() }),
+  outputSchema: z.object({ success: z.boolean(), message: z.string().optional() }),
+  execute: async ({ context }) => {
+    deleted.push(context.thingId);
+    return { success: true };
+  },
+});
+
+const gated = withSafeMode(deleteThing, { agent: 'xibo-agent' });
+
+/** Runtime context of a request the user approved, as the server middleware fills it. */
+const approval = (confirmationId?: string, approvedBy?: string) => {
+  const runtimeContext = new RuntimeContext();
+  if (confirmationId) runtimeContext.set(SAFE_MODE_APPROVAL_CONTEXT_KEY, confirmationId);
+  if (approvedBy) runtimeContext.set(SAFE_MODE_APPROVED_BY_CONTEXT_KEY, approvedBy);
+  return runtimeContext;
+};
+
+const call = (context: { thingId: number }, runtimeContext = approval()) => gated.execute!({ context, runtimeContext });
+
+afterEach(() => {
+  deleted.length = 0;
+  vi.restoreAllMocks();
+});
+
+describe('safe mode', () => {
+  it('classifies tools by their ID', () => {
+    expect(classifyTool('delete-layout')).toBe('destructive');
+    expect(classifyTool('apply-library-cleanup')).toBe('destructive');
+    expect(classifyTool('get-layouts')).toBe('read');
+    expect(classifyTool('add-media')).toBe('write');
+  });
+
+  it('returns a plan instead of running without an approval, and takes no approval as input', async () => {
+    const plan = await gated.execute!({ context: { thingId: 1, confirmationToken: 'x', approvedBy: 'agent' }, runtimeContext: approval() });
+    expect(plan).toMatchObject({ success: false, requiresConfirmation: true, data: { tool: 'delete-thing', risk: 'destructive' } });
+    expect(deleted).toEqual([]);
+  });
+
+  it('runs once when the request carries the user approval of the same input', async () => {
+    const plan = await call({ thingId: 2 });
+    const { confirmationId } = plan.data;
+
+    await expect(call({ thingId: 2 }, approval(confirmationId, 'Hanako'))).resolves.toEqual({ success: true });
+    expect(deleted).toEqual([2]);
+
+    // An approval is used once
+    await expect(call({ thingId: 2 }, approval(confirmationId, 'Hanako'))).resolves.toMatchObject({ success: false, message: expect.stringMatching(/unknown or has expired/) });
+    expect(deleted).toEqual([2]);
+  });
+
+  it('rejects an approval for a different input or without an approver', async () => {
+    const { data } = await call({ thingId: 3 });
+
+    await expect(call({ thingId: 4 }, approval(data.confirmationId, 'Hanako'))).resolves.toMatchObject({ success: false, message: expect.stringMatching(/differs from the approved plan/) });
+    await expect(call({ thingId: 3 }, approval(data.confirmationId))).resolves.toMatchObject({ success: false, message: expect.stringMatching(/does not name the person/) });
+    expect(deleted).toEqual([]);
+  });
+
+  it('rejects an expired approval', async () => {
+    const { data } = await call({ thingId: 5 });
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 601 * 1000);
+
+    await expect(call({ thingId: 5 }, approval(data.confirmationId, 'Hanako'))).resolves.toMatchObject({ success: false, message: expect.stringMatching(/unknown or has expired/) });
+    expect(deleted).toEqual([]);
+  });
+
+  it('gates destructive tools called from code', async () => {
+    const plan = await executeTool(deleteThing, { thingId: 6 });
+    expect(plan).toMatchObject({ requiresConfirmation: true });
+    expect(deleted).toEqual([]);
+
+    const { confirmationId } = (plan as { data: { confirmationId: string } }).data;
+    await expect(executeTool(deleteThing, { thingId: 6 }, approval(confirmationId, 'Hanako'))).resolves.toEqual({ success: true });
+    expect(deleted).toEqual([6]);
+  });
+});
@@ -0,0 +1,120 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { planSchedule } from '../../src/mastra/tools/xibo-agent/schedule/planSchedule';
+import { applySchedulePlan } from '../../src/mastra/tools/xibo-agent/schedule/applySchedulePlan';
+import { expandOccurrences } from '../../src/mastra/tools/xibo-agent/schedulePlanner';
+import { formatDateTime, toUnixSeconds } from '../../src/mastra/tools/xibo-agent/utility/dateTime';
+
+const mock = useMockCms();
+
+describe('expandOccurrences', () => {
+  it('expands weekly events on the listed weekdays', () => {
+    // 2025-01-06 is a Monday.
+    const fromDt = toUnixSeconds('2025-01-06 09:00:00');
+    const event = { fromDt, toDt: fromDt + 3600, recurrenceType: 'Week', recurrenceDetail: 1, recurrenceRepeatsOn: '1,3' };
+    const starts = expandOccurrences(event, fromDt, fromDt + 14 * 86400).map((o) => formatDateTime(o.start));
+    expect(starts).toEqual(['2025-01-06 09:00:00', '2025-01-08 09:00:00', '2025-01-13 09:00:00', '2025-01-15 09:00:00']);
+  });
+
+  it('stops at the recurrence range', () => {
+    const fromDt = toUnixSeconds('2025-01-01 12:00:00');
+    const event = { fromDt, toDt: fromDt + 600, recurrenceType: 'Day', recurrenceDetail: 2, recurrenceRange: fromDt + 5 * 86400 };
+    expect(expandOccurrences(event, fromDt, fromDt + 30 * 86400)).toHaveLength(3);
+  });
+});
+
+describe('schedule plan', () => {
+  const seeded = () => [...mock.server.state.schedules.values()][0];
+  const group = () => [...mock.server.state.displayGroups.values()].find((g) => g.displayGroup === 'All Screens')!;
+  const campaign = () => [...mock.server.state.campaigns.values()].find((c) => c.campaign === 'Spring Campaign')!;
+  const window = (dayOffset: number, hours: number) => {
+    const fromDt = seeded().fromDt + dayOffset * 86400;
+    return { fromDt: formatDateTime(fromDt), toDt: formatDateTime(fromDt + hours * 3600) };
+  };
+
+  it('reports airtime shared with an existing event of the same priority', async () => {
+    const result = await runTool(planSchedule, {
+      items: [{ campaignIds: [campaign().campaignId], displayGroupIds: [group().displayGroupId], windows: [window(2, 2)] }],
+    });
+    expect(result.success).toBe(true);
+    expect(result.data.events).toHaveLength(1);
+    expect(result.data.conflicts).toEqual([
+      expect.objectContaining({ type: 'overlap', severity: 'warning', other: `event ${seeded().eventId}`, overlapMinutes: 120 }),
+    ]);
+    expect(result.data.conflictTable).toContain('| warning | overlap | All Screens |');
+  });
+
+  it('flags planned events hidden by a higher priority event', async () => {
+    seeded().isPriority = 5;
+    const result = await runTool(planSchedule, {
+      items: [{
+        campaignIds: [campaign().campaignId],
+        displayGroupIds: [group().displayGroupId],
+        windows: [window(1, 1)],
+        recurrence: { type: 'Day', until: window(4, 0).fromDt },
+      }],
+    });
+    seeded().isPriority = 0;
+    expect(result.data.conflicts).toEqual([
+      expect.objectContaining({ type: 'shadowed', severity: 'error', occurrences: 3 }),
+    ]);
+  });
+
+  it('creates all events of a plan without conflicts', async () => {
+    const preview = await runTool(planSchedule, {
+      items: [{ campaignIds: [campaign().campaignId], displayGroupIds: [group().displayGroupId], windows: [window(40, 1), window(41, 1)] }],
+    });
+    expect(preview.data.conflicts).toEqual([]);
+
+    const before = mock.server.state.schedules.size;
+    const result = await runTool(applySchedulePlan, { planId: preview.data.planId });
+    expect(result.success).toBe(true);
+    expect(result.data.created).toHaveLength(2);
+    expect(mock.server.state.schedules.size).toBe(before + 2);
+    expect(mock.server.state.schedules.get(result.data.created[0].eventId)).toMatchObject({ fromDt: seeded().fromDt + 40 * 86400 });
+
+    const again = await runTool(applySchedulePlan, { planId: preview.data.planId });
+    expect(again.success).toBe(false);
+  });
+
+  it('rolls back created events when one event fails', async () => {
+    const preview = await runTool(planSchedule, {
+      items: [
+        { campaignIds: [campaign().campaignId], displayGroupIds: [group().displayGroupId], windows: [window(50, 1)] },
+        { campaignIds: [campaign().campaignId], displayGroupIds: [999999], windows: [window(51, 1)] },
+      ],
+    });
+    expect(preview.success).toBe(true);
+
+    const before = mock.server.state.schedules.size;
+    const result = await runTool(applySchedulePlan, { planId: preview.data.planId });
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/rolled back/);
+    expect(mock.server.state.schedules.size).toBe(before);
+  });
+
+  it('refuses to apply when the schedule changed after the preview', async () => {
+    const preview = await runTool(planSchedule, {
+      items: [{ campaignIds: [campaign().campaignId], displayGroupIds: [group().displayGroupId], windows: [window(60, 1)] }],
+    });
+    mock.server.state.addSchedule(
+      { campaignId: campaign().campaignId, fromDt: seeded().fromDt + 60 * 86400, toDt: seeded().fromDt + 61 * 86400 },
+      [group().displayGroupId]
+    );
+    const result = await runTool(applySchedulePlan, { planId: preview.data.planId });
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/changed since the plan was previewed/);
+  });
+});
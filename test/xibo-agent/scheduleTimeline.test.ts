@@ -0,0 +1,103 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { getScheduleTimeline } from '../../src/mastra/tools/xibo-agent/schedule/getScheduleTimeline';
+import { buildScheduleTimelineIcs } from '../../src/mastra/tools/xibo-agent/scheduleTimeline';
+import { formatDateTime } from '../../src/mastra/tools/xibo-agent/utility/dateTime';
+import { config } from '../../src/mastra/tools/xibo-agent/config';
+
+const mock = useMockCms();
+
+describe('getScheduleTimeline', () => {
+  const seeded = () => [...mock.server.state.schedules.values()][0];
+  const display = (name: string) => [...mock.server.state.displays.values()].find((d) => d.display === name)!;
+  const group = () => [...mock.server.state.displayGroups.values()].find((g) => g.displayGroup === 'All Screens')!;
+  const at = (hours: number) => formatDateTime(seeded().fromDt + hours * 3600);
+
+  it('falls back to the default layout outside scheduled events', async () => {
+    const result = await runTool(getScheduleTimeline, {
+      displayGroupIds: [group().displayGroupId], fromDt: at(-12), toDt: at(12), image: false,
+    });
+    expect(result.success).toBe(true);
+    expect(result.data.displays.map((d: any) => d.display)).toEqual(['Entrance Screen', 'Lobby Screen']);
+    expect(result.data.displays[0].segments).toEqual([
+      expect.objectContaining({ from: at(-12), to: at(0), source: 'default', playing: ['Welcome'] }),
+      expect.objectContaining({ from: at(0), to: at(12), source: 'schedule', eventIds: [seeded().eventId] }),
+    ]);
+  });
+
+  it('shows higher priority events hiding the others', async () => {
+    const lobby = display('Lobby Screen');
+    const urgent = mock.server.state.addSchedule(
+      { campaignId: seeded().campaignId, campaign: 'Urgent Notice', isPriority: 10, fromDt: seeded().fromDt + 3600, toDt: seeded().fromDt + 7200 },
+      [lobby.displayGroupId]
+    );
+    const result = await runTool(getScheduleTimeline, { displayIds: [lobby.displayId], fromDt: at(0), toDt: at(3), image: false });
+    mock.server.state.schedules.delete(urgent.eventId);
+
+    expect(result.data.displays[0].segments).toEqual([
+      expect.objectContaining({ from: at(0), to: at(1), eventIds: [seeded().eventId], hiddenEventIds: [] }),
+      expect.objectContaining({ from: at(1), to: at(2), playing: ['Urgent Notice'], priority: 10, hiddenEventIds: [seeded().eventId] }),
+      expect.objectContaining({ from: at(2), to: at(3), eventIds: [seeded().eventId] }),
+    ]);
+  });
+
+  it('expands recurring events', async () => {
+    const lobby = display('Lobby Screen');
+    const start = seeded().toDt + 86400;
+    const daily = mock.server.state.addSchedule(
+      { campaignId: seeded().campaignId, fromDt: start, toDt: start + 3600, recurrenceType: 'Day', recurrenceDetail: 1 },
+      [lobby.displayGroupId]
+    );
+    const result = await runTool(getScheduleTimeline, {
+      displayIds: [lobby.displayId], fromDt: formatDateTime(start), toDt: formatDateTime(start + 3 * 86400), image: false,
+    });
+    mock.server.state.schedules.delete(daily.eventId);
+    expect(result.data.displays[0].segments.filter((s: any) => s.source === 'schedule')).toHaveLength(3);
+  });
+
+  it('exports the timeline as iCalendar', async () => {
+    const result = await runTool(getScheduleTimeline, {
+      displayIds: [display('Lobby Screen').displayId], fromDt: at(-1), toDt: at(1), image: false, ics: true,
+    });
+    expect(result.data.icsUrl).toMatch(/\/ext-api\/download\/schedule\/schedule-timeline-.+\.ics$/);
+    const file = path.join(config.generatedDir, 'schedules', path.basename(result.data.icsUrl));
+    const ics = fs.readFileSync(file, 'utf-8');
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics).toContain('SUMMARY:Lobby Screen: Welcome (default layout)');
+  });
+});
+
+describe('buildScheduleTimelineIcs', () => {
+  it('escapes text and folds long lines', () => {
+    const ics = buildScheduleTimelineIcs({
+      from: '2025-01-01 00:00:00',
+      to: '2025-01-02 00:00:00',
+      displays: [{
+        displayId: 1,
+        display: 'Shop, Floor 1; Entrance',
+        defaultLayout: null,
+        segments: [{
+          from: '2025-01-01 00:00:00', to: '2025-01-01 01:00:00', source: 'schedule',
+          playing: ['A very long campaign name that certainly does not fit on one line of an iCalendar file'],
+          eventIds: [1], priority: 0, hiddenEventIds: [],
+        }],
+      }],
+    });
+    expect(ics).toContain('SUMMARY:Shop\\, Floor 1\\; Entrance: ');
+    expect(ics.split('\r\n').every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+  });
+});
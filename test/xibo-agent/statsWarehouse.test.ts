@@ -0,0 +1,86 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { queryPlayStats } from '../../src/mastra/tools/xibo-agent/statistics/queryPlayStats';
+import { getStatsWarehouseState, syncStatsWarehouse } from '../../src/mastra/tools/xibo-agent/statsWarehouse';
+
+const mock = useMockCms();
+
+function now(offsetHours = 0): string {
+  const d = new Date(Date.now() + offsetHours * 3600 * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:00:00`;
+}
+
+describe('statistics warehouse', () => {
+  let lobbyId: number;
+  let entranceId: number;
+  let layoutId: number;
+
+  beforeAll(() => {
+    const { state } = mock.server;
+    lobbyId = [...state.displays.values()].find((d) => d.display === 'Lobby Screen')!.displayId;
+    entranceId = [...state.displays.values()].find((d) => d.display === 'Entrance Screen')!.displayId;
+    const layout = [...state.layouts.values()].find((l) => l.layout === 'Welcome' && !l.parentId)!;
+    layout.tags = [{ tagId: 2, tag: 'promo', value: '' }];
+    layoutId = layout.layoutId;
+    // The seeded stats are older than the first sync reaches back; add recent ones.
+    state.addStat({ display: 'Lobby Screen', displayId: lobbyId, layout: 'Welcome', layoutId, numberPlays: 5, duration: 50, start: now(-3), end: now(-2) });
+    state.addStat({ display: 'Entrance Screen', displayId: entranceId, layout: 'Welcome', layoutId, numberPlays: 2, duration: 20, start: now(-3), end: now(-2) });
+    state.addStat({ type: 'Media', display: 'Lobby Screen', displayId: lobbyId, mediaId: 99, media: 'promo.mp4', numberPlays: 4, duration: 120, start: now(-2), end: now(-1) });
+  });
+
+  it('copies new stats and moves the cursor', async () => {
+    const first = await syncStatsWarehouse();
+    expect(first.displays).toBe(2);
+    expect(first.types.find((t) => t.type === 'Layout')).toMatchObject({ added: 2, lastStatId: '4' });
+    expect(first.types.find((t) => t.type === 'Media')).toMatchObject({ added: 1, lastStatId: '5' });
+
+    mock.server.state.addStat({ display: 'Lobby Screen', displayId: lobbyId, layout: 'Welcome', layoutId, numberPlays: 1, duration: 10, start: now(-1), end: now() });
+    const second = await syncStatsWarehouse();
+    expect(second.types.find((t) => t.type === 'Layout')).toMatchObject({ added: 1, lastStatId: '6' });
+
+    const state = await getStatsWarehouseState('default');
+    expect(state.find((s) => s.type === 'Layout')).toMatchObject({ records: 3, error: null });
+  });
+
+  it('aggregates plays by display', async () => {
+    const result = await runTool(queryPlayStats, { groupBy: ['display'] });
+    expect(result.success).toBe(true);
+    expect(result.data.rows).toEqual([
+      { displayId: lobbyId, display: 'Lobby Screen', plays: 6, airtimeSeconds: 60, records: 2 },
+      { displayId: entranceId, display: 'Entrance Screen', plays: 2, airtimeSeconds: 20, records: 1 },
+    ]);
+    expect(result.data.totals.plays).toBe(8);
+  });
+
+  it('aggregates by display tag and layout tag', async () => {
+    const byDisplayTag = await runTool(queryPlayStats, { groupBy: ['displayTag'] });
+    expect(byDisplayTag.data.rows.map((r: any) => [r.displayTag, r.plays])).toEqual([['lobby', 6], [null, 2]]);
+
+    const byLayoutTag = await runTool(queryPlayStats, { groupBy: ['layoutTag'], displayTags: ['lobby'] });
+    expect(byLayoutTag.data.rows.map((r: any) => [r.layoutTag, r.plays])).toEqual([['promo', 6]]);
+  });
+
+  it('aggregates media plays by hour of day', async () => {
+    const result = await runTool(queryPlayStats, { groupBy: ['hour'], type: 'Media' });
+    expect(result.data.rows).toEqual([{ hour: Number(now(-2).slice(11, 13)), plays: 4, airtimeSeconds: 120, records: 1 }]);
+  });
+
+  it('rejects grouping by two tag dimensions', async () => {
+    const result = await runTool(queryPlayStats, { groupBy: ['displayTag', 'mediaTag'] });
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/one tag dimension/);
+  });
+});
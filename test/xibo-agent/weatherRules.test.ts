@@ -0,0 +1,208 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import fs from 'fs';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { useMockCms, runTool } from '../helpers/mockCms';
+import { config } from '../../src/mastra/tools/xibo-agent/config';
+import { matchConditions, reloadWeatherRules, type HourlyForecast } from '../../src/mastra/tools/xibo-agent/weatherRules';
+import { evaluateWeatherRules } from '../../src/mastra/tools/xibo-agent/weather/evaluateWeatherRules';
+import { getWeatherRules } from '../../src/mastra/tools/xibo-agent/weather/getWeatherRules';
+import { getAgentDatabase } from '../../src/mastra/tools/xibo-agent/database';
+import { xiboClient, type XiboRequestOptions, type XiboResult } from '../../src/mastra/tools/xibo-agent/xiboClient';
+
+const mock = useMockCms();
+
+function forecast(precipitationProbability: number[], weatherCode = 3): HourlyForecast {
+  const time = precipitationProbability.map((_, i) => `2025-06-01T${String(9 + i).padStart(2, '0')}:00`);
+  const fill = (value: number) => time.map(() => value);
+  return {
+    time,
+    values: {
+      temperature: fill(20),
+      apparentTemperature: fill(19),
+      precipitationProbability,
+      precipitation: fill(0),
+      windSpeed: fill(5),
+      windGust: fill(10),
+      weatherCode: fill(weatherCode),
+    },
+  };
+}
+
+describe('matchConditions', () => {
+  const rain = { metric: 'precipitationProbability' as const, operator: '>' as const, value: 60 };
+
+  it('matches when any forecast hour meets all conditions', () => {
+    const result = matchConditions([rain], forecast([10, 70, 40]));
+    expect(result.matched).toBe(true);
+    expect(result.observed).toEqual([{ metric: 'precipitationProbability', value: 70, time: '2025-06-01T10:00' }]);
+  });
+
+  it('reports the value closest to the threshold when nothing matches', () => {
+    const result = matchConditions([rain, { metric: 'weatherCode', operator: 'in', value: [61, 63] }], forecast([10, 50, 40]));
+    expect(result.matched).toBe(false);
+    expect(result.observed[0].value).toBe(50);
+    expect(result.observed[1]).toMatchObject({ value: 3, label: 'Overcast' });
+  });
+});
+
+describe('weather rule engine', () => {
+  let rainProbability = 80;
+  const realFetch = globalThis.fetch;
+  let groupId: number;
+  let campaignId: number;
+
+  beforeAll(() => {
+    const { state } = mock.server;
+    const lobby = [...state.displays.values()].find((d) => d.display === 'Lobby Screen')!;
+    lobby.latitude = 35.68;
+    lobby.longitude = 139.76;
+    groupId = [...state.displayGroups.values()].find((g) => g.displayGroup === 'All Screens')!.displayGroupId;
+    campaignId = [...state.campaigns.values()].find((c) => c.campaign === 'Spring Campaign')!.campaignId;
+
+    fs.writeFileSync(config.weatherRulesFile, JSON.stringify({
+      rules: [
+        {
+          id: 'rain-campaign',
+          location: { displayId: lobby.displayId },
+          conditions: [{ metric: 'precipitationProbability', operator: '>', value: 60 }],
+          minActiveMinutes: 0,
+          action: { type: 'schedule', campaignId, displayGroupIds: [groupId] },
+        },
+        {
+          id: 'rain-trigger',
+          location: { latitude: 35.68, longitude: 139.76 },
+          conditions: [{ metric: 'precipitationProbability', operator: '>', value: 60 }],
+          minActiveMinutes: 0,
+          action: { type: 'webhook', displayGroupIds: [groupId], triggerCode: 'rain', clearTriggerCode: 'dry' },
+        },
+      ],
+    }));
+    reloadWeatherRules();
+
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      const url = new URL(String(input));
+      if (url.hostname !== 'api.open-meteo.com') return realFetch(input, init);
+      const time = ['2025-06-01T09:00'];
+      return new Response(JSON.stringify({
+        hourly: {
+          time,
+          temperature_2m: [20], apparent_temperature: [19], precipitation_probability: [rainProbability],
+          precipitation: [1.2], wind_speed_10m: [5], wind_gusts_10m: [9], weather_code: [61],
+        },
+      }));
+    });
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(config.weatherRulesFile, { force: true });
+    reloadWeatherRules();
+  });
+
+  const eventsOf = () => [...mock.server.state.schedules.values()].filter((e) => e.campaignId === campaignId && String(e.name).startsWith('Weather rule'));
+
+  it('previews without changing the CMS', async () => {
+    const result = await runTool(evaluateWeatherRules, { dryRun: true });
+    expect(result.data.map((r: any) => r.transition)).toEqual(['activated', 'activated']);
+    expect(eventsOf()).toHaveLength(0);
+    expect(mock.server.state.webhookTriggers).toHaveLength(0);
+  });
+
+  it('schedules the campaign and sends the trigger when the conditions are met', async () => {
+    const result = await runTool(evaluateWeatherRules, {});
+    expect(result.success).toBe(true);
+    expect(result.data.map((r: any) => [r.ruleId, r.transition])).toEqual([['rain-campaign', 'activated'], ['rain-trigger', 'activated']]);
+    expect(eventsOf()).toHaveLength(1);
+    expect(eventsOf()[0]).toMatchObject({ isPriority: 1 });
+    expect(mock.server.state.webhookTriggers).toEqual([{ displayGroupId: groupId, triggerCode: 'rain' }]);
+
+    const again = await runTool(evaluateWeatherRules, {});
+    expect(again.data.map((r: any) => r.transition)).toEqual([null, null]);
+  });
+
+  it('clears the rules and records the history', async () => {
+    rainProbability = 20;
+    const result = await runTool(evaluateWeatherRules, {});
+    expect(result.data.map((r: any) => r.transition)).toEqual(['cleared', 'cleared']);
+    expect(eventsOf()).toHaveLength(0);
+    expect(mock.server.state.webhookTriggers.at(-1)).toEqual({ displayGroupId: groupId, triggerCode: 'dry' });
+
+    const rules = await runTool(getWeatherRules, { ruleId: 'rain-campaign' });
+    expect(rules.data.rules[0]).toMatchObject({ active: false, eventIds: [], error: null });
+    expect(rules.data.history.map((h: any) => h.transition)).toEqual(['cleared', 'activated']);
+  });
+
+  it('records a failure when the display has no coordinates', async () => {
+    const lobby = [...mock.server.state.displays.values()].find((d) => d.display === 'Lobby Screen')!;
+    lobby.latitude = null;
+    const result = await runTool(evaluateWeatherRules, { ruleIds: ['rain-campaign'] });
+    expect(result.success).toBe(false);
+    expect(result.data[0]).toMatchObject({ transition: 'failed' });
+    expect(result.data[0].detail).toMatch(/no latitude\/longitude/);
+  });
+
+  const expireEvents = () => getAgentDatabase().execute("UPDATE xibo_weather_rule_state SET events_until = '2000-01-01 00:00:00' WHERE rule_id = 'rain-campaign'");
+
+  it('keeps the events it could not delete when renewing', async () => {
+    [...mock.server.state.displays.values()].find((d) => d.display === 'Lobby Screen')!.latitude = 35.68;
+    rainProbability = 80;
+    await runTool(evaluateWeatherRules, { ruleIds: ['rain-campaign'] });
+    const [first] = eventsOf();
+
+    await expireEvents();
+    const request = xiboClient.request.bind(xiboClient);
+    const spy = vi.spyOn(xiboClient, 'request').mockImplementation(async <T,>(path: string, init?: XiboRequestOptions<T>): Promise<XiboResult<T>> =>
+      init?.method === 'DELETE' ? { success: false, status: 500, message: 'Server error' } : request(path, init));
+    const renewed = await runTool(evaluateWeatherRules, { ruleIds: ['rain-campaign'] });
+    spy.mockRestore();
+    expect(renewed.data[0]).toMatchObject({ transition: 'renewed', detail: expect.stringMatching(/retried later/) });
+    expect(eventsOf()).toHaveLength(2);
+
+    await expireEvents();
+    await runTool(evaluateWeatherRules, { ruleIds: ['rain-campaign'] });
+    expect(eventsOf()).toHaveLength(1);
+    expect(eventsOf()[0].eventId).not.toBe(first.eventId);
+  });
+
+  it('clears active rules that are disabled or removed', async () => {
+    await runTool(evaluateWeatherRules, {});
+    expect(eventsOf()).toHaveLength(1);
+    const { rules } = JSON.parse(fs.readFileSync(config.weatherRulesFile, 'utf-8'));
+    fs.writeFileSync(config.weatherRulesFile, JSON.stringify({ rules: [{ ...rules[1], enabled: false }] }));
+    reloadWeatherRules();
+
+    const result = await runTool(evaluateWeatherRules, {});
+    expect(result.data.map((r: any) => [r.ruleId, r.transition, r.detail])).toEqual([
+      ['rain-campaign', 'cleared', 'Rule removed from the configuration; its action was undone.'],
+      ['rain-trigger', 'cleared', 'Rule disabled; its action was undone.'],
+    ]);
+    expect(eventsOf()).toHaveLength(0);
+    expect(mock.server.state.webhookTriggers.at(-1)).toEqual({ displayGroupId: groupId, triggerCode: 'dry' });
+    expect((await runTool(evaluateWeatherRules, {})).data).toEqual([]);
+  });
+
+  it('sends the clear trigger of an active webhook rule removed from the configuration', async () => {
+    const { rules } = JSON.parse(fs.readFileSync(config.weatherRulesFile, 'utf-8'));
+    fs.writeFileSync(config.weatherRulesFile, JSON.stringify({ rules: [{ ...rules[0], enabled: true }] }));
+    reloadWeatherRules();
+    await runTool(evaluateWeatherRules, {});
+    expect(mock.server.state.webhookTriggers.at(-1)).toEqual({ displayGroupId: groupId, triggerCode: 'rain' });
+
+    fs.writeFileSync(config.weatherRulesFile, JSON.stringify({ rules: [] }));
+    reloadWeatherRules();
+    const result = await runTool(evaluateWeatherRules, {});
+    expect(result.data).toEqual([expect.objectContaining({ ruleId: 'rain-trigger', transition: 'cleared', detail: 'Rule removed from the configuration; its action was undone.' })]);
+    expect(mock.server.state.webhookTriggers.at(-1)).toEqual({ displayGroupId: groupId, triggerCode: 'dry' });
+  });
+});
@@ -0,0 +1,78 @@
+/*
+ * Copyright (C) 2025 Open Source Digital Signage Initiative.
+ *
+ * You can redistribute it and/or modify
+ * it under the terms of the Elastic License 2.0 (ELv2) as published by
+ * the Search AI Company, either version 3 of the License, or
+ * any later version.
+ *
+ * You should have received a copy of the GElastic License 2.0 (ELv2).
+ * see <https://www.elastic.co/licensing/elastic-license>.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { chunkManualPage, headingAnchor, parseFrontMatter } from '../../src/mastra/tools/xibo-manual/manualChunks';
+import { config } from '../../src/mastra/tools/xibo-manual/config';
+
+const page = `---
+excerpt: Design layouts with regions and widgets
+keywords: layout, region
+---
+
+# Layouts
+
+Layouts are the content shown on displays.
+
+## Regions {#layout-regions}
+
+A region holds a playlist.
+
+### Region Options
+
+Set the transition and loop.
+
+## Publishing
+
+Publish the draft to make it live.
+`;
+
+describe('manual chunking', () => {
+  it('parses the front matter', () => {
+    expect(parseFrontMatter(page)).toEqual({
+      excerpt: 'Design layouts with regions and widgets',
+      keywords: ['layout', 'region'],
+    });
+  });
+
+  it('derives anchors from headings', () => {
+    expect(headingAnchor('Regions {#layout-regions}')).toEqual({ title: 'Regions', anchor: 'layout-regions' });
+    expect(headingAnchor('Region Options')).toEqual({ title: 'Region Options', anchor: 'region-options' });
+    expect(headingAnchor('レイアウトの公開')).toEqual({ title: 'レイアウトの公開', anchor: 'レイアウトの公開' });
+  });
+
+  it('splits a page into heading sections with anchored URLs', async () => {
+    const chunks = await chunkManualPage('layouts', page);
+    const pageUrl = `${config.baseUrl}layouts.html`;
+
+    expect(chunks.map((c) => [c.section, c.url])).toEqual([
+      ['Layouts', pageUrl],
+      ['Regions', `${pageUrl}#layout-regions`],
+      ['Region Options', `${pageUrl}#region-options`],
+      ['Publishing', `${pageUrl}#publishing`],
+    ]);
+    expect(chunks[2]).toMatchObject({
+      page: 'layouts',
+      pageTitle: 'Layouts',
+      headingPath: ['Layouts', 'Regions', 'Region Options'],
+      excerpt: 'Design layouts with regions and widgets',
+      text: 'Set the transition and loop.',
+    });
+  });
+
+  it('splits long sections', async () => {
+    const paragraphs = Array.from({ length: 20 }, (_, i) => `Paragraph ${i} ${'lorem ipsum '.repeat(20)}`);
+    const chunks = await chunkManualPage('long', `# Long\n\n${paragraphs.join('\n\n')}`);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((c) => c.text.length <= 1500 && c.section === 'Long')).toBe(true);
+  });
+});